@@ -0,0 +1,90 @@
+/**
+ * Provider 오류
+ * DApp에 전달되는 EIP-1193 / JSON-RPC 오류 코드와 오류 클래스를 정의합니다.
+ */
+
+// EIP-1193 및 JSON-RPC 표준 오류 코드
+export const RPC_ERROR_CODES = {
+  USER_REJECTED: 4001,
+  UNAUTHORIZED: 4100,
+  UNSUPPORTED_METHOD: 4200,
+  DISCONNECTED: 4900,
+  CHAIN_DISCONNECTED: 4901,
+  UNRECOGNIZED_CHAIN: 4902,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603
+} as const;
+
+// DApp으로 직렬화되어 전달되는 오류 형식
+export interface SerializedRpcError {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+/**
+ * Provider RPC 오류
+ * 코드와 함께 DApp에 전달되는 오류입니다.
+ */
+export class ProviderRpcError extends Error {
+  public code: number;
+  public data?: any;
+
+  constructor(code: number, message: string, data?: any) {
+    super(message);
+    this.name = 'ProviderRpcError';
+    this.code = code;
+    this.data = data;
+  }
+
+  /**
+   * 메시지 전송을 위한 직렬화
+   */
+  public serialize(): SerializedRpcError {
+    const serialized: SerializedRpcError = { code: this.code, message: this.message };
+    if (this.data !== undefined) {
+      serialized.data = this.data;
+    }
+    return serialized;
+  }
+}
+
+/**
+ * 임의의 오류를 DApp에 전달할 형식으로 변환
+ * @param error 오류 객체
+ * @returns 직렬화된 오류
+ */
+export function serializeRpcError(error: unknown): SerializedRpcError {
+  if (error instanceof ProviderRpcError) {
+    return error.serialize();
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return { code: RPC_ERROR_CODES.INTERNAL_ERROR, message };
+}
+
+/**
+ * 사용자 거절 오류 생성
+ * @param message 오류 메시지
+ */
+export function userRejectedError(message: string = '사용자가 요청을 거부했습니다.'): ProviderRpcError {
+  return new ProviderRpcError(RPC_ERROR_CODES.USER_REJECTED, message);
+}
+
+/**
+ * 잘못된 파라미터 오류 생성
+ * @param message 오류 메시지
+ */
+export function invalidParamsError(message: string): ProviderRpcError {
+  return new ProviderRpcError(RPC_ERROR_CODES.INVALID_PARAMS, message);
+}
+
+/**
+ * 권한 없음 오류 생성
+ * @param message 오류 메시지
+ */
+export function unauthorizedError(message: string = '이 사이트에 허용되지 않은 요청입니다.'): ProviderRpcError {
+  return new ProviderRpcError(RPC_ERROR_CODES.UNAUTHORIZED, message);
+}
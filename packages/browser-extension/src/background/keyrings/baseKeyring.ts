@@ -0,0 +1,116 @@
+/**
+ * BaseKeyring
+ * 개인키를 보유한 키링의 공통 구현
+ * 계정 조회, 메시지/트랜잭션/EIP-712 서명, 키스토어 내보내기를 core 모듈로 처리합니다.
+ */
+
+import {
+  KeyringAccount,
+  KeyringType,
+  TypedDataPayload,
+  encryptToKeystore,
+  signPersonalMessage,
+  signTransaction,
+  signTypedData,
+  toEIP712Domain
+} from '@crelink/core';
+import { SerializedKeyring, WalletKeyring } from './types';
+
+export abstract class BaseKeyring implements WalletKeyring {
+  public abstract readonly type: KeyringType;
+  public accounts: KeyringAccount[] = [];
+  
+  public abstract addAccount(options?: any): Promise<KeyringAccount>;
+  public abstract exportMnemonic(password: string): Promise<string>;
+  public abstract serialize(): SerializedKeyring;
+  
+  /**
+   * 계정 제거
+   * @param address 제거할 계정 주소
+   * @returns 제거 여부
+   */
+  public async removeAccount(address: string): Promise<boolean> {
+    const index = this.accounts.findIndex(account => account.address === address.toLowerCase());
+    if (index === -1) {
+      return false;
+    }
+    
+    this.accounts.splice(index, 1);
+    return true;
+  }
+  
+  /**
+   * 계정 목록 조회
+   */
+  public async getAccounts(): Promise<KeyringAccount[]> {
+    return [...this.accounts];
+  }
+  
+  /**
+   * 계정 조회
+   * @param address 계정 주소
+   */
+  public async getAccount(address: string): Promise<KeyringAccount | null> {
+    return this.accounts.find(account => account.address === address.toLowerCase()) || null;
+  }
+  
+  /**
+   * 개인 메시지 서명 (EIP-191)
+   * @param address 서명할 계정 주소
+   * @param message 서명할 메시지
+   */
+  public async signMessage(address: string, message: string): Promise<string> {
+    const account = await this.getSigningAccount(address);
+    return await signPersonalMessage(account.privateKey, message);
+  }
+  
+  /**
+   * 트랜잭션 서명
+   * @param address 서명할 계정 주소
+   * @param transaction 트랜잭션 데이터 (chainId 포함)
+   * @returns 서명된 트랜잭션 (RLP 인코딩 hex)
+   */
+  public async signTransaction(address: string, transaction: any): Promise<string> {
+    const account = await this.getSigningAccount(address);
+    return signTransaction(account.privateKey, { ...transaction, from: account.address });
+  }
+  
+  /**
+   * EIP-712 타입화된 데이터 서명
+   * @param address 서명할 계정 주소
+   * @param typedData eth_signTypedData_v4 형식의 데이터
+   */
+  public async signTypedData(address: string, typedData: TypedDataPayload): Promise<string> {
+    const account = await this.getSigningAccount(address);
+    
+    // ethers는 EIP712Domain 타입을 도메인에서 직접 계산하므로 제외
+    const { EIP712Domain, ...types } = typedData.types;
+    
+    return signTypedData(account.privateKey, toEIP712Domain(typedData.domain), typedData.message, { types });
+  }
+  
+  /**
+   * 계정 내보내기
+   * @param address 계정 주소
+   * @param password 키스토어 암호화 비밀번호
+   * @returns Web3 Secret Storage(V3) 형식 키스토어 JSON
+   */
+  public async exportAccount(address: string, password: string): Promise<string> {
+    const account = await this.getSigningAccount(address);
+    const keystore = await encryptToKeystore(account.privateKey, password);
+    return JSON.stringify(keystore);
+  }
+  
+  /**
+   * 서명 가능한 계정 조회
+   * @param address 계정 주소
+   */
+  protected async getSigningAccount(address: string): Promise<KeyringAccount> {
+    const account = await this.getAccount(address);
+    if (!account) {
+      throw new Error('존재하지 않는 계정입니다.');
+    }
+    
+    return account;
+  }
+}
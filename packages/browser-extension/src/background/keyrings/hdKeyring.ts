@@ -0,0 +1,106 @@
+/**
+ * HDKeyring
+ * BIP-39 니모닉 기반 계층적 결정성 키링
+ * m/44'/60'/0'/0/{index} 경로로 계정을 파생합니다.
+ */
+
+import {
+  BIP44,
+  CATENA_MAINNET_CHAIN_ID,
+  KeyringAccount,
+  KeyringType,
+  generateMnemonic,
+  normalizeMnemonic,
+  validateMnemonic
+} from '@crelink/core';
+import { BaseKeyring } from './baseKeyring';
+import { SerializedKeyring } from './types';
+
+// 볼트에 저장되는 HD 키링 데이터
+export interface SerializedHDKeyring {
+  mnemonic: string;
+  // 파생한 계정의 주소 인덱스 (삭제된 인덱스는 제외)
+  indexes: number[];
+}
+
+export class HDKeyring extends BaseKeyring {
+  public readonly type = KeyringType.HD;
+  private mnemonic: string;
+  private bip44: BIP44;
+  
+  /**
+   * @param mnemonic 니모닉 구문 (생략 시 12단어 니모닉 생성)
+   */
+  constructor(mnemonic: string = generateMnemonic(12)) {
+    super();
+    
+    const normalized = normalizeMnemonic(mnemonic);
+    if (!validateMnemonic(normalized)) {
+      throw new Error('유효하지 않은 니모닉 구문입니다.');
+    }
+    
+    this.mnemonic = normalized;
+    this.bip44 = new BIP44(normalized);
+  }
+  
+  /**
+   * 볼트 데이터로부터 키링 복원
+   * @param data 직렬화된 키링 데이터
+   */
+  public static deserialize(data: SerializedHDKeyring): HDKeyring {
+    const keyring = new HDKeyring(data.mnemonic);
+    for (const index of data.indexes) {
+      keyring.deriveAccount(index);
+    }
+    
+    return keyring;
+  }
+  
+  /**
+   * 다음 인덱스의 계정 파생
+   * @returns 파생된 계정
+   */
+  public async addAccount(): Promise<KeyringAccount> {
+    const nextIndex = this.accounts.reduce((max, account) => Math.max(max, account.index + 1), 0);
+    return this.deriveAccount(nextIndex);
+  }
+  
+  /**
+   * 니모닉 내보내기
+   * 비밀번호 검증은 볼트를 관리하는 KeyringService에서 수행합니다.
+   */
+  public async exportMnemonic(_password: string): Promise<string> {
+    return this.mnemonic;
+  }
+  
+  /**
+   * 볼트 저장용 직렬화
+   */
+  public serialize(): SerializedKeyring {
+    const data: SerializedHDKeyring = {
+      mnemonic: this.mnemonic,
+      indexes: this.accounts.map(account => account.index)
+    };
+    
+    return { type: this.type, data };
+  }
+  
+  /**
+   * 지정한 인덱스의 계정 파생
+   * @param index 주소 인덱스
+   */
+  private deriveAccount(index: number): KeyringAccount {
+    const derived = this.bip44.deriveEthereumAccount(0, 0, index);
+    const account: KeyringAccount = {
+      address: derived.address,
+      privateKey: derived.privateKey,
+      publicKey: derived.publicKey,
+      index,
+      chainId: CATENA_MAINNET_CHAIN_ID,
+      path: derived.path
+    };
+    
+    this.accounts.push(account);
+    return account;
+  }
+}
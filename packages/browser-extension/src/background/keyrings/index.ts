@@ -0,0 +1,56 @@
+/**
+ * 키링 모듈
+ * HD, 개인키, 조회 전용, QR 하드웨어 키링과 볼트 복원 함수를 내보냅니다.
+ */
+
+import { KeyringType, QRSignRequestHandler } from '@crelink/core';
+import { HDKeyring } from './hdKeyring';
+import { PrivateKeyKeyring } from './privateKeyKeyring';
+import { QRHardwareKeyring } from './qrKeyring';
+import { WatchOnlyKeyring } from './watchOnlyKeyring';
+import { SerializedKeyring, WalletKeyring } from './types';
+
+export type { SerializedKeyring, WalletKeyring } from './types';
+export type { SerializedHDKeyring } from './hdKeyring';
+export type { SerializedPrivateKeyKeyring } from './privateKeyKeyring';
+export type { SerializedWatchOnlyKeyring } from './watchOnlyKeyring';
+export { BaseKeyring } from './baseKeyring';
+export { HDKeyring, PrivateKeyKeyring, QRHardwareKeyring, WatchOnlyKeyring };
+
+/**
+ * 복호화한 볼트가 직렬화된 키링 목록 형식인지 확인
+ * @param value 복호화된 값
+ */
+export function isSerializedKeyringList(value: unknown): value is SerializedKeyring[] {
+  const keyringTypes: unknown[] = Object.values(KeyringType);
+  return Array.isArray(value) && value.every((item) =>
+    !!item && typeof item === 'object' && keyringTypes.includes(item.type) && item.data !== undefined
+  );
+}
+
+/**
+ * 직렬화된 키링 복원
+ * @param serialized 볼트에 저장된 키링
+ * @param onQRSignRequest QR 하드웨어 키링의 서명 요청 처리 함수
+ * @returns 복원된 키링
+ */
+export async function restoreKeyring(
+  serialized: SerializedKeyring,
+  onQRSignRequest?: QRSignRequestHandler
+): Promise<WalletKeyring> {
+  switch (serialized.type) {
+    case KeyringType.HD:
+      return HDKeyring.deserialize(serialized.data);
+    case KeyringType.PRIVATE_KEY:
+      return PrivateKeyKeyring.deserialize(serialized.data);
+    case KeyringType.WATCH_ONLY:
+      return WatchOnlyKeyring.deserialize(serialized.data);
+    case KeyringType.HARDWARE:
+      if (!onQRSignRequest) {
+        throw new Error('QR 서명 요청 처리 함수가 필요합니다.');
+      }
+      return QRHardwareKeyring.deserialize(serialized.data, onQRSignRequest);
+    default:
+      throw new Error(`지원하지 않는 키링 유형입니다: ${serialized.type}`);
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * PrivateKeyKeyring
+ * 개인키로 가져온 계정을 보관하는 키링
+ */
+
+import { Wallet } from 'ethers';
+import { CATENA_MAINNET_CHAIN_ID, KeyringAccount, KeyringType } from '@crelink/core';
+import { BaseKeyring } from './baseKeyring';
+import { SerializedKeyring } from './types';
+
+// 볼트에 저장되는 개인키 키링 데이터
+export interface SerializedPrivateKeyKeyring {
+  privateKeys: string[];
+}
+
+export class PrivateKeyKeyring extends BaseKeyring {
+  public readonly type = KeyringType.PRIVATE_KEY;
+  
+  /**
+   * 볼트 데이터로부터 키링 복원
+   * @param data 직렬화된 키링 데이터
+   */
+  public static async deserialize(data: SerializedPrivateKeyKeyring): Promise<PrivateKeyKeyring> {
+    const keyring = new PrivateKeyKeyring();
+    for (const privateKey of data.privateKeys) {
+      await keyring.addAccount({ privateKey });
+    }
+    
+    return keyring;
+  }
+  
+  /**
+   * 개인키로 계정 추가
+   * @param options.privateKey 0x 접두사가 있거나 없는 32바이트 개인키
+   * @returns 추가된 계정
+   */
+  public async addAccount(options: { privateKey: string }): Promise<KeyringAccount> {
+    let wallet: Wallet;
+    try {
+      const privateKey = options.privateKey.trim();
+      wallet = new Wallet(privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`);
+    } catch {
+      throw new Error('유효하지 않은 개인키입니다.');
+    }
+    
+    const address = wallet.address.toLowerCase();
+    const existing = await this.getAccount(address);
+    if (existing) {
+      return existing;
+    }
+    
+    const account: KeyringAccount = {
+      address,
+      privateKey: wallet.privateKey,
+      publicKey: wallet.signingKey.publicKey,
+      index: this.accounts.length,
+      chainId: CATENA_MAINNET_CHAIN_ID,
+      path: ''
+    };
+    
+    this.accounts.push(account);
+    return account;
+  }
+  
+  /**
+   * 개인키로 가져온 계정은 니모닉이 없습니다.
+   */
+  public async exportMnemonic(_password: string): Promise<string> {
+    throw new Error('개인키로 가져온 계정은 니모닉을 내보낼 수 없습니다.');
+  }
+  
+  /**
+   * 볼트 저장용 직렬화
+   */
+  public serialize(): SerializedKeyring {
+    const data: SerializedPrivateKeyKeyring = {
+      privateKeys: this.accounts.map(account => account.privateKey)
+    };
+    
+    return { type: this.type, data };
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * QRHardwareKeyring
+ * QR 코드로 서명하는 에어갭 하드웨어 지갑 키링 (Keystone 등)
+ * 계정 파생과 서명 검증은 core의 QRKeyring이 처리하고,
+ * 요청 QR 표시와 서명 QR 스캔은 주입받은 서명 요청 처리 함수(팝업)가 담당합니다.
+ */
+
+import {
+  HardwareAccountCandidate,
+  KeyringAccount,
+  KeyringType,
+  QRKeyring,
+  QRSignRequestHandler,
+  SerializedQRKeyring,
+  TypedDataPayload
+} from '@crelink/core';
+import { SerializedKeyring, WalletKeyring } from './types';
+
+export class QRHardwareKeyring implements WalletKeyring {
+  public readonly type = KeyringType.HARDWARE;
+  
+  private constructor(private keyring: QRKeyring) {}
+  
+  /**
+   * 디바이스가 내보낸 crypto-hdkey QR로 키링 생성
+   * @param ur 스캔한 UR 문자열 또는 파트 목록
+   * @param onSignRequest 서명 요청 처리 함수
+   */
+  public static async fromUR(ur: string | string[], onSignRequest: QRSignRequestHandler): Promise<QRHardwareKeyring> {
+    return new QRHardwareKeyring(await QRKeyring.fromUR(ur, onSignRequest));
+  }
+  
+  /**
+   * 볼트 데이터로부터 키링 복원
+   * @param data 직렬화된 키링 데이터
+   * @param onSignRequest 서명 요청 처리 함수
+   */
+  public static async deserialize(data: SerializedQRKeyring, onSignRequest: QRSignRequestHandler): Promise<QRHardwareKeyring> {
+    return new QRHardwareKeyring(await QRKeyring.restore(data, onSignRequest));
+  }
+  
+  /**
+   * 키링 계정 목록
+   */
+  public get accounts(): KeyringAccount[] {
+    return this.keyring.accounts;
+  }
+  
+  /**
+   * 디바이스 마스터 키 지문 (같은 디바이스 여부 확인용)
+   */
+  public get deviceId(): string | undefined {
+    return this.keyring.getDeviceInfo()?.deviceId;
+  }
+  
+  /**
+   * 계정 후보 조회
+   * @param start 시작 인덱스
+   * @param count 조회할 개수
+   */
+  public async getCandidates(start: number, count: number): Promise<HardwareAccountCandidate[]> {
+    return this.keyring.getCandidates(start, count);
+  }
+  
+  /**
+   * 계정 추가
+   * @param options.index 주소 인덱스 (m/44'/60'/0'/0/{index})
+   */
+  public async addAccount(options: { index?: number } = {}): Promise<KeyringAccount> {
+    return this.keyring.addAccount({ index: options.index });
+  }
+  
+  public async removeAccount(address: string): Promise<boolean> {
+    return this.keyring.removeAccount(address);
+  }
+  
+  public async getAccounts(): Promise<KeyringAccount[]> {
+    return this.keyring.getAccounts();
+  }
+  
+  public async getAccount(address: string): Promise<KeyringAccount | null> {
+    return this.keyring.getAccount(address);
+  }
+  
+  public async signMessage(address: string, message: string): Promise<string> {
+    return this.keyring.signMessage(address, message);
+  }
+  
+  public async signTransaction(address: string, transaction: any): Promise<string> {
+    return this.keyring.signTransaction(address, transaction);
+  }
+  
+  public async signTypedData(address: string, typedData: TypedDataPayload): Promise<string> {
+    return this.keyring.signTypedData(address, typedData);
+  }
+  
+  public async exportAccount(_address: string, _password: string): Promise<string> {
+    throw new Error('하드웨어 지갑 계정은 개인키를 내보낼 수 없습니다.');
+  }
+  
+  public async exportMnemonic(_password: string): Promise<string> {
+    throw new Error('하드웨어 지갑 계정은 니모닉을 내보낼 수 없습니다.');
+  }
+  
+  /**
+   * 볼트 저장용 직렬화 (계정 확장 공개키만 포함)
+   */
+  public serialize(): SerializedKeyring {
+    return { type: this.type, data: this.keyring.serialize() };
+  }
+}
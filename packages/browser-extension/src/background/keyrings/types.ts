@@ -0,0 +1,30 @@
+/**
+ * 키링 공통 타입
+ * core의 Keyring 인터페이스에 볼트 직렬화와 EIP-712 서명을 더한 확장 키링 인터페이스를 정의합니다.
+ */
+
+import { Keyring, KeyringType, TypedDataPayload } from '@crelink/core';
+
+// 볼트에 저장되는 키링 직렬화 형식
+export interface SerializedKeyring {
+  type: KeyringType;
+  data: any;
+}
+
+/**
+ * 확장 프로그램 키링 인터페이스
+ */
+export interface WalletKeyring extends Keyring {
+  /**
+   * 볼트 저장용 직렬화
+   * 반환값에는 개인키나 니모닉이 포함되므로 암호화된 볼트에만 저장해야 합니다.
+   */
+  serialize(): SerializedKeyring;
+  
+  /**
+   * EIP-712 타입화된 데이터 서명
+   * @param address 서명할 계정 주소
+   * @param typedData eth_signTypedData_v4 형식의 데이터
+   */
+  signTypedData(address: string, typedData: TypedDataPayload): Promise<string>;
+}
@@ -0,0 +1,99 @@
+/**
+ * WatchOnlyKeyring
+ * 주소만 등록해 잔액과 활동을 조회하는 키링
+ * 개인키가 없으므로 서명과 내보내기를 모두 거부합니다.
+ */
+
+import {
+  CATENA_MAINNET_CHAIN_ID,
+  KeyringAccount,
+  KeyringType,
+  TypedDataPayload,
+  isValidAddress
+} from '@crelink/core';
+import { BaseKeyring } from './baseKeyring';
+import { SerializedKeyring } from './types';
+
+// 볼트에 저장되는 조회 전용 키링 데이터
+export interface SerializedWatchOnlyKeyring {
+  addresses: string[];
+}
+
+const WATCH_ONLY_ERROR = '조회 전용 계정은 서명할 수 없습니다.';
+
+export class WatchOnlyKeyring extends BaseKeyring {
+  public readonly type = KeyringType.WATCH_ONLY;
+  
+  /**
+   * 볼트 데이터로부터 키링 복원
+   * @param data 직렬화된 키링 데이터
+   */
+  public static async deserialize(data: SerializedWatchOnlyKeyring): Promise<WatchOnlyKeyring> {
+    const keyring = new WatchOnlyKeyring();
+    for (const address of data.addresses) {
+      await keyring.addAccount({ address });
+    }
+    
+    return keyring;
+  }
+  
+  /**
+   * 조회 전용 주소 추가
+   * @param options.address 계정 주소
+   * @returns 추가된 계정
+   */
+  public async addAccount(options: { address: string }): Promise<KeyringAccount> {
+    if (!isValidAddress(options.address)) {
+      throw new Error('유효하지 않은 주소입니다.');
+    }
+    
+    const address = options.address.toLowerCase();
+    const existing = await this.getAccount(address);
+    if (existing) {
+      return existing;
+    }
+    
+    const account: KeyringAccount = {
+      address,
+      privateKey: '',
+      publicKey: '',
+      index: this.accounts.length,
+      chainId: CATENA_MAINNET_CHAIN_ID,
+      path: ''
+    };
+    
+    this.accounts.push(account);
+    return account;
+  }
+  
+  public async signMessage(_address: string, _message: string): Promise<string> {
+    throw new Error(WATCH_ONLY_ERROR);
+  }
+  
+  public async signTransaction(_address: string, _transaction: any): Promise<string> {
+    throw new Error(WATCH_ONLY_ERROR);
+  }
+  
+  public async signTypedData(_address: string, _typedData: TypedDataPayload): Promise<string> {
+    throw new Error(WATCH_ONLY_ERROR);
+  }
+  
+  public async exportAccount(_address: string, _password: string): Promise<string> {
+    throw new Error('조회 전용 계정은 개인키가 없습니다.');
+  }
+  
+  public async exportMnemonic(_password: string): Promise<string> {
+    throw new Error('조회 전용 계정은 니모닉이 없습니다.');
+  }
+  
+  /**
+   * 볼트 저장용 직렬화
+   */
+  public serialize(): SerializedKeyring {
+    const data: SerializedWatchOnlyKeyring = {
+      addresses: this.accounts.map(account => account.address)
+    };
+    
+    return { type: this.type, data };
+  }
+}
@@ -3,7 +3,35 @@
  * 확장 프로그램 내부 및 외부 통신을 위한 메시지 핸들러 설정
  */
 
+import {
+  getNetworkInfo,
+  inspectTypedData,
+  isValidChainId,
+  isValidRpcUrl,
+  isValidUrl,
+  parseTypedData,
+  TypedDataInspection,
+  TypedDataPayload
+} from '@crelink/core';
 import { WalletController } from './walletController';
+import {
+  ApprovalType,
+  APPROVAL_TIMEOUT,
+  ETH_ACCOUNTS_PERMISSION,
+  SUPPORTED_PERMISSIONS,
+  Web3Permission
+} from './services/security.service';
+import { RpcService } from './services/rpc.service';
+import { SubscriptionService } from './services/subscription.service';
+import {
+  ProviderRpcError,
+  RPC_ERROR_CODES,
+  serializeRpcError,
+  userRejectedError,
+  invalidParamsError,
+  unauthorizedError
+} from './errors';
+import { ChainInfo } from './services/network.service';
 
 interface MessageRequest {
   type: string;
@@ -18,6 +46,13 @@ interface MessageResponse {
   error?: any;
 }
 
+// 지갑이 잠겨 있어도 잠금 해제 없이 처리하는 메서드
+const UNLOCK_EXEMPT_METHODS = ['eth_chainId', 'eth_accounts', 'wallet_getPermissions'];
+
+// 현재 열려 있는 승인 팝업 창 ID (승인 요청은 하나의 창에서 순서대로 처리)
+let approvalWindowId: number | null = null;
+let approvalWindowPath: string | null = null;
+
 /**
  * 메시지 핸들러 설정
  * @param walletController 지갑 컨트롤러 인스턴스
@@ -52,6 +87,52 @@ export function setupMessageHandlers(walletController: WalletController): void {
       return true;
     }
   });
+  
+  // 콘텐츠 스크립트 메시지 리스너 (피싱 경고 등 웹페이지가 직접 호출할 수 없는 요청)
+  chrome.runtime.onMessage.addListener((message: MessageRequest, sender, sendResponse) => {
+    if (message.type === 'contentScript') {
+      handleContentScriptMessage(message, sender, walletController)
+        .then(sendResponse)
+        .catch((error) => {
+          console.error('콘텐츠 스크립트 메시지 처리 중 오류:', error);
+          sendResponse({ error: error.message });
+        });
+      
+      // true를 반환하여 비동기 응답을 기다리도록 함
+      return true;
+    }
+  });
+  
+  // 하드웨어 지갑의 QR 서명 요청은 승인 창에서 요청 QR을 보여 주고 서명 QR을 스캔
+  walletController.onQRSignRequest(() => {
+    openApprovalWindow('popup.html?action=qr-sign').catch((error) => {
+      console.error('QR 서명 창 열기 중 오류:', error);
+    });
+  });
+  
+  // 승인 팝업이 닫히면 대기 중인 요청을 모두 거절 처리
+  chrome.windows.onRemoved.addListener((windowId) => {
+    if (windowId !== approvalWindowId) {
+      return;
+    }
+    
+    approvalWindowId = null;
+    approvalWindowPath = null;
+    walletController.cancelAllApprovals(userRejectedError('사용자가 승인 창을 닫았습니다.'));
+  });
+  
+  // 탭이 닫히면 해당 탭의 구독과 필터 정리
+  chrome.tabs.onRemoved.addListener((tabId) => {
+    walletController.removeTabSubscriptions(tabId);
+  });
+  
+  // 탭에 새 문서가 로드되면 이전 페이지의 구독 이벤트가 새 페이지(다른 출처일 수 있음)로 가지 않도록 정리
+  // (history.pushState처럼 문서가 바뀌지 않는 이동은 onCommitted가 발생하지 않으므로 구독 유지)
+  chrome.webNavigation.onCommitted.addListener(({ tabId, frameId }) => {
+    if (frameId === 0) {
+      walletController.removeTabSubscriptions(tabId);
+    }
+  });
 }
 
 /**
@@ -121,6 +202,75 @@ async function handleInternalMessage(
         result = await walletController.createAccount();
         break;
         
+      case 'importPrivateKey':
+        result = await walletController.importPrivateKey(params.privateKey);
+        break;
+        
+      case 'addWatchOnlyAccount':
+        result = await walletController.addWatchOnlyAccount(params.input || params.address, params.name);
+        break;
+        
+      case 'getQRAccountCandidates':
+        result = await walletController.getQRAccountCandidates(params.ur, params.start ?? 0, params.count ?? 5);
+        break;
+        
+      case 'importQRAccounts':
+        result = await walletController.importQRAccounts(params.ur, params.indexes);
+        break;
+        
+      case 'getWatchOnlyAccounts':
+        result = await walletController.getWatchOnlyAccounts();
+        break;
+        
+      case 'removeAccount':
+        await walletController.removeAccount(params.address);
+        result = true;
+        break;
+        
+      case 'getAccountType':
+        result = await walletController.getAccountType(params.address);
+        break;
+        
+      case 'exportAccount':
+        result = await walletController.exportAccount(params.address, params.password);
+        break;
+        
+      case 'exportMnemonic':
+        result = await walletController.exportMnemonic(params.password);
+        break;
+        
+      case 'verifyPassword':
+        await walletController.verifyPassword(params.password);
+        result = true;
+        break;
+        
+      case 'resetWallet':
+        await walletController.resetWallet(params.password);
+        result = true;
+        break;
+        
+      case 'getDIDs':
+        result = await walletController.getDIDs();
+        break;
+        
+      case 'connectDID':
+        result = await walletController.connectDID(params.address, params.type, params.credential);
+        break;
+        
+      case 'disconnectDID':
+        await walletController.disconnectDID(params.address);
+        result = true;
+        break;
+        
+      case 'setDIDNickname':
+        await walletController.setDIDNickname(params.address, params.nickname);
+        result = true;
+        break;
+        
+      case 'getDIDLogs':
+        result = await walletController.getDIDLogs(params.address);
+        break;
+        
       case 'getSelectedNetwork':
         result = await walletController.getSelectedNetwork();
         break;
@@ -134,6 +284,96 @@ async function handleInternalMessage(
         result = await walletController.signAndSendTransaction(params.txParams);
         break;
         
+      case 'signTransaction':
+        result = await walletController.signTransaction(params.txParams);
+        break;
+        
+      case 'estimateGas':
+        result = await walletController.estimateGas(params?.txParams);
+        break;
+        
+      case 'checkRecipientAddress':
+        result = await walletController.checkRecipientAddress(params.address);
+        break;
+        
+      case 'resolveRecipient':
+        result = await walletController.resolveRecipient(params.recipient);
+        break;
+        
+      case 'lookupAddressName':
+        result = await walletController.lookupAddressName(params.address);
+        break;
+        
+      case 'getRecipientSuggestions':
+        result = await walletController.getRecipientSuggestions(params.query);
+        break;
+        
+      case 'getContacts':
+        result = await walletController.getContacts();
+        break;
+        
+      case 'addContact':
+        result = await walletController.addContact(params.contact);
+        break;
+        
+      case 'updateContact':
+        result = await walletController.updateContact(params.id, params.updates);
+        break;
+        
+      case 'deleteContact':
+        await walletController.deleteContact(params.id);
+        result = true;
+        break;
+        
+      case 'getNonceGap':
+        result = await walletController.getNonceGap();
+        break;
+        
+      case 'getAssetBalances':
+        result = await walletController.getAssetBalances();
+        break;
+        
+      case 'getTokenMetadata':
+        result = await walletController.getTokenMetadata(params.tokenAddress);
+        break;
+        
+      case 'addToken':
+        await walletController.addToken(params.token);
+        result = true;
+        break;
+        
+      case 'getListedTokens':
+        result = await walletController.getListedTokens();
+        break;
+        
+      case 'validateToken':
+        result = await walletController.validateToken(params.tokenAddress);
+        break;
+        
+      case 'discoverTokens':
+        result = await walletController.discoverTokens();
+        break;
+        
+      case 'getTokenApprovals':
+        result = await walletController.getTokenApprovals();
+        break;
+        
+      case 'revokeTokenApprovals':
+        result = await walletController.revokeTokenApprovals(params.approvals);
+        break;
+        
+      case 'getRpcEndpointHealth':
+        result = await walletController.getRpcEndpointHealth(params?.refresh);
+        break;
+        
+      case 'fillNonceGap':
+        result = await walletController.fillNonceGap();
+        break;
+        
+      case 'cancelNonceGap':
+        result = await walletController.cancelNonceGap();
+        break;
+        
       case 'signPersonalMessage':
         result = await walletController.signPersonalMessage(params.message);
         break;
@@ -142,6 +382,61 @@ async function handleInternalMessage(
         result = await walletController.signTypedData(params.typedData);
         break;
         
+      case 'getConnectedSites':
+        result = walletController.getConnectedSites();
+        break;
+        
+      case 'getSitePermissions':
+        result = walletController.getSitePermissions(params.origin);
+        break;
+        
+      case 'getPendingApprovals':
+        result = walletController.getPendingApprovals();
+        break;
+        
+      case 'approveRequest':
+        await walletController.completeApprovalRequest(params.requestId, true, params.result);
+        result = true;
+        break;
+        
+      case 'rejectRequest':
+        await walletController.completeApprovalRequest(params.requestId, false);
+        result = true;
+        break;
+        
+      case 'getPendingQRSignRequests':
+        result = walletController.getPendingQRSignRequests();
+        break;
+        
+      case 'submitQRSignature':
+        walletController.submitQRSignature(params.requestId, params.ur);
+        result = true;
+        break;
+        
+      case 'cancelQRSignRequest':
+        walletController.cancelQRSignRequest(params.requestId);
+        result = true;
+        break;
+        
+      case 'getTrustedPhishingSites':
+        result = await walletController.getTrustedPhishingSites();
+        break;
+        
+      case 'untrustPhishingSite':
+        await walletController.untrustPhishingSite(params.origin);
+        result = true;
+        break;
+        
+      case 'updatePhishingList':
+        result = await walletController.updatePhishingList(params.list);
+        break;
+        
+      case 'revokeSitePermissions':
+        await walletController.revokeSitePermissions(params.origin, params.permissions || [ETH_ACCOUNTS_PERMISSION]);
+        await notifyAccountsChanged(params.origin, walletController);
+        result = true;
+        break;
+        
       default:
         throw new Error(`지원하지 않는 메서드: ${method}`);
     }
@@ -175,15 +470,16 @@ async function handleExternalMessage(
   
   try {
     // 지갑이 잠겨있는지 확인
-    if (walletController.isWalletLocked() && method !== 'eth_chainId') {
+    // 읽기 전용 RPC 메서드는 계정 정보를 노출하지 않으므로 잠금 상태에서도 처리
+    if (
+      walletController.isWalletLocked()
+      && !UNLOCK_EXEMPT_METHODS.includes(method)
+      && !RpcService.isReadOnlyMethod(method)
+      && !SubscriptionService.isSubscriptionMethod(method)
+    ) {
       // 지갑이 잠겨있으면 팝업 창을 열어 사용자 인증 요청
-      await openPopupForAuthorization();
-      
       // 사용자가 인증을 완료할 때까지 기다림
-      // 실제 구현에서는 더 복잡한 로직이 필요할 수 있음
-      if (walletController.isWalletLocked()) {
-        throw new Error('지갑이 잠겨 있습니다. 먼저 잠금을 해제하세요.');
-      }
+      await openPopupForAuthorization(walletController);
     }
     
     switch (method) {
@@ -197,6 +493,22 @@ async function handleExternalMessage(
         result = await getAuthorizedAccounts(origin, walletController);
         break;
         
+      case 'wallet_requestPermissions':
+        // 권한 요청 (EIP-2255)
+        await assertNotPhishingSite(origin, walletController);
+        result = await requestPermissions(origin, params?.[0], walletController);
+        break;
+        
+      case 'wallet_getPermissions':
+        // 부여된 권한 조회 (EIP-2255)
+        result = walletController.getSitePermissions(origin);
+        break;
+        
+      case 'wallet_revokePermissions':
+        // 권한 철회
+        result = await revokePermissions(origin, params?.[0], walletController);
+        break;
+        
       case 'eth_chainId':
         // 현재 체인 ID 반환
         const network = await walletController.getSelectedNetwork();
@@ -206,7 +518,7 @@ async function handleExternalMessage(
       case 'eth_sendTransaction':
         // 트랜잭션 서명 및 전송
         // 사용자 확인을 위해 팝업 열기
-        result = await requestTransactionApproval(origin, params[0], walletController);
+        result = await requestTransactionApproval(origin, params?.[0], walletController);
         break;
         
       case 'eth_signTypedData_v4':
@@ -225,13 +537,70 @@ async function handleExternalMessage(
       case 'wallet_switchEthereumChain':
         // 체인 변경 요청
         // 사용자 확인을 위해 팝업 열기
-        result = await requestChainSwitch(origin, params[0].chainId, walletController);
+        result = await requestChainSwitch(origin, params?.[0]?.chainId, walletController);
         break;
         
       case 'wallet_addEthereumChain':
         // 새 체인 추가 요청
         // 사용자 확인을 위해 팝업 열기
-        result = await requestAddChain(origin, params[0], walletController);
+        result = await requestAddChain(origin, params?.[0], walletController);
+        break;
+        
+      case 'eth_subscribe':
+      case 'eth_unsubscribe':
+      case 'eth_newFilter':
+      case 'eth_newBlockFilter':
+      case 'eth_getFilterChanges':
+      case 'eth_uninstallFilter':
+        // 구독 및 필터는 요청한 탭 단위로 관리
+        result = await handleSubscriptionRequest(sender.tab?.id, method, params || [], walletController);
+        break;
+        
+      default:
+        // 읽기 전용 메서드는 선택된 네트워크의 RPC 노드로 전달
+        if (RpcService.isReadOnlyMethod(method)) {
+          result = await walletController.forwardRpcRequest(method, params || []);
+          break;
+        }
+        throw new ProviderRpcError(RPC_ERROR_CODES.UNSUPPORTED_METHOD, `지원하지 않는 메서드: ${method}`);
+    }
+  } catch (e) {
+    error = serializeRpcError(e);
+  }
+  
+  return { id, result, error };
+}
+
+/**
+ * 콘텐츠 스크립트 메시지 처리
+ * 출처는 파라미터가 아닌 발신 탭에서 가져오므로 각 페이지는 자신의 출처만 다룰 수 있습니다.
+ * @param message 메시지 객체
+ * @param sender 메시지 발신자 정보
+ * @param walletController 지갑 컨트롤러 인스턴스
+ */
+async function handleContentScriptMessage(
+  message: MessageRequest,
+  sender: chrome.runtime.MessageSender,
+  walletController: WalletController
+): Promise<MessageResponse> {
+  const { method, id } = message;
+  let result = null;
+  let error = null;
+  
+  const origin = sender.tab && (sender.origin || (sender.url ? new URL(sender.url).origin : null));
+  if (!origin) {
+    return { id, error: '알 수 없는 출처에서 요청이 왔습니다.' };
+  }
+  
+  try {
+    switch (method) {
+      case 'checkPhishingSite':
+        result = await walletController.checkPhishingSite(origin);
+        break;
+        
+      case 'trustPhishingSite':
+        await walletController.trustPhishingSite(origin);
+        result = true;
         break;
         
       default:
@@ -244,21 +613,58 @@ async function handleExternalMessage(
   return { id, result, error };
 }
 
+/**
+ * 구독 및 필터 요청 처리
+ * 구독 상태는 탭별로 분리되며, 탭이 닫히면 함께 정리됩니다.
+ * @param tabId 요청한 탭 ID
+ * @param method RPC 메서드
+ * @param params RPC 파라미터
+ * @param walletController 지갑 컨트롤러 인스턴스
+ */
+async function handleSubscriptionRequest(
+  tabId: number | undefined,
+  method: string,
+  params: any[],
+  walletController: WalletController
+): Promise<any> {
+  if (tabId === undefined) {
+    throw new ProviderRpcError(RPC_ERROR_CODES.INVALID_REQUEST, '구독은 탭에서만 요청할 수 있습니다.');
+  }
+  
+  if (!Array.isArray(params)) {
+    throw invalidParamsError('파라미터는 배열이어야 합니다.');
+  }
+  
+  switch (method) {
+    case 'eth_subscribe':
+      return walletController.subscribe(tabId, params[0], params[1]);
+      
+    case 'eth_unsubscribe':
+      return walletController.unsubscribe(tabId, params[0]);
+      
+    case 'eth_newFilter':
+      return walletController.newFilter(tabId, params[0]);
+      
+    case 'eth_newBlockFilter':
+      return walletController.newBlockFilter(tabId);
+      
+    case 'eth_getFilterChanges':
+      return walletController.getFilterChanges(tabId, params[0]);
+      
+    case 'eth_uninstallFilter':
+      return walletController.uninstallFilter(tabId, params[0]);
+  }
+}
+
 /**
  * 사용자 인증을 위한 팝업 열기
+ * 사용자가 잠금을 해제하거나 창을 닫을 때까지 기다립니다.
+ * @param walletController 지갑 컨트롤러 인스턴스
  */
-async function openPopupForAuthorization(): Promise<void> {
-  return new Promise((resolve) => {
-    chrome.windows.create({
-      url: chrome.runtime.getURL('popup.html?action=unlock'),
-      type: 'popup',
-      width: 360,
-      height: 600
-    }, () => {
-      // 실제 구현에서는 사용자가 인증을 완료할 때까지 기다리는 로직 필요
-      resolve();
-    });
-  });
+async function openPopupForAuthorization(walletController: WalletController): Promise<void> {
+  const unlocked = walletController.waitForUnlock(APPROVAL_TIMEOUT);
+  await openApprovalWindow('popup.html?action=unlock');
+  await unlocked;
 }
 
 /**
@@ -270,9 +676,39 @@ async function requestAccountAccess(
   origin: string,
   walletController: WalletController
 ): Promise<string[]> {
-  // 실제 구현에서는 사용자에게 접근 권한 요청 팝업 표시
-  // 여기서는 간단한 구현으로 현재 계정 반환
-  return walletController.getAccounts();
+  await assertNotPhishingSite(origin, walletController);
+  
+  // 이미 허용된 계정이 있으면 바로 반환
+  const permittedAccounts = await walletController.getPermittedAccounts(origin);
+  if (permittedAccounts.length > 0) {
+    return permittedAccounts;
+  }
+  
+  await requestPermissions(origin, { [ETH_ACCOUNTS_PERMISSION]: {} }, walletController);
+  
+  const accounts = await walletController.getPermittedAccounts(origin);
+  if (accounts.length === 0) {
+    throw userRejectedError();
+  }
+  
+  return accounts;
+}
+
+/**
+ * 피싱 의심 사이트의 계정 접근 차단
+ * 사용자가 경고 페이지에서 신뢰를 선택한 사이트는 허용합니다.
+ * @param origin 요청 출처
+ * @param walletController 지갑 컨트롤러 인스턴스
+ */
+async function assertNotPhishingSite(origin: string, walletController: WalletController): Promise<void> {
+  const verdict = await walletController.checkPhishingSite(origin);
+  if (verdict.result) {
+    throw new ProviderRpcError(
+      RPC_ERROR_CODES.UNAUTHORIZED,
+      '피싱 의심 사이트로 판단되어 계정 접근이 차단되었습니다.',
+      verdict
+    );
+  }
 }
 
 /**
@@ -284,9 +720,188 @@ async function getAuthorizedAccounts(
   origin: string,
   walletController: WalletController
 ): Promise<string[]> {
-  // 실제 구현에서는 특정 출처에 대해 권한이 있는 계정만 필터링
-  // 여기서는 간단한 구현으로 모든 계정 반환
-  return walletController.getAccounts();
+  return walletController.getPermittedAccounts(origin);
+}
+
+/**
+ * 요청된 권한 이름 추출 및 검증
+ * @param requested 요청 객체 (예: { eth_accounts: {} })
+ * @returns 권한 이름 목록
+ */
+function parseRequestedPermissions(requested: any): string[] {
+  if (!requested || typeof requested !== 'object' || Array.isArray(requested)) {
+    throw invalidParamsError('권한 요청 형식이 올바르지 않습니다.');
+  }
+  
+  const permissions = Object.keys(requested);
+  if (permissions.length === 0) {
+    throw invalidParamsError('요청된 권한이 없습니다.');
+  }
+  
+  const unsupported = permissions.filter((permission) => !SUPPORTED_PERMISSIONS.includes(permission));
+  if (unsupported.length > 0) {
+    throw invalidParamsError(`지원하지 않는 권한: ${unsupported.join(', ')}`);
+  }
+  
+  return permissions;
+}
+
+/**
+ * 권한 요청 (wallet_requestPermissions)
+ * 사용자가 연결할 계정을 선택하도록 승인 팝업을 엽니다.
+ * @param origin 요청 출처
+ * @param requested 요청된 권한 객체
+ * @param walletController 지갑 컨트롤러 인스턴스
+ */
+async function requestPermissions(
+  origin: string,
+  requested: any,
+  walletController: WalletController
+): Promise<Web3Permission[]> {
+  const permissions = parseRequestedPermissions(requested);
+  
+  const requestId = walletController.createApprovalRequest(ApprovalType.CONNECT, origin, {
+    method: 'wallet_requestPermissions',
+    params: [requested],
+    permissions,
+    accounts: await walletController.getSigningAccounts()
+  });
+  
+  await requestUserApproval(requestId, walletController);
+  
+  const granted = walletController.getSitePermissions(origin)
+    .filter((permission) => permissions.includes(permission.parentCapability));
+  
+  if (granted.length === 0) {
+    throw userRejectedError();
+  }
+  
+  await notifyAccountsChanged(origin, walletController);
+  return granted;
+}
+
+/**
+ * 권한 철회 (wallet_revokePermissions)
+ * @param origin 요청 출처
+ * @param requested 철회할 권한 객체 (예: { eth_accounts: {} })
+ * @param walletController 지갑 컨트롤러 인스턴스
+ */
+async function revokePermissions(
+  origin: string,
+  requested: any,
+  walletController: WalletController
+): Promise<null> {
+  const permissions = parseRequestedPermissions(requested);
+  
+  await walletController.revokeSitePermissions(origin, permissions);
+  await notifyAccountsChanged(origin, walletController);
+  
+  return null;
+}
+
+/**
+ * 승인 팝업을 열고 사용자의 결정을 기다림
+ * 거절, 창 닫기, 시간 초과 시 4001 오류로 reject됩니다.
+ * @param requestId 승인 요청 ID
+ * @param walletController 지갑 컨트롤러 인스턴스
+ * @returns 팝업에서 전달한 승인 결과
+ */
+async function requestUserApproval(requestId: string, walletController: WalletController): Promise<any> {
+  const decision = walletController.waitForApproval(requestId);
+  await openApprovalWindow('popup.html?action=approval');
+  return decision;
+}
+
+/**
+ * 승인 팝업 창 열기
+ * 이미 열려 있으면 새 창을 만들지 않고 기존 창을 앞으로 가져옵니다.
+ * 기존 창의 경로가 다르면 (예: 잠금 해제 후 승인) 해당 경로로 이동합니다.
+ * 대기 중인 요청은 팝업에서 순서대로 표시됩니다.
+ * @param path 팝업 경로
+ */
+async function openApprovalWindow(path: string): Promise<void> {
+  if (approvalWindowId !== null) {
+    const windowId = approvalWindowId;
+    const focused = await new Promise<boolean>((resolve) => {
+      chrome.windows.update(windowId, { focused: true }, () => {
+        resolve(!chrome.runtime.lastError);
+      });
+    });
+    
+    if (focused) {
+      if (approvalWindowPath !== path) {
+        approvalWindowPath = path;
+        chrome.tabs.query({ windowId }, (tabs) => {
+          if (tabs[0]?.id) {
+            chrome.tabs.update(tabs[0].id, { url: chrome.runtime.getURL(path) });
+          }
+        });
+      }
+      return;
+    }
+    approvalWindowId = null;
+  }
+  
+  return new Promise((resolve) => {
+    chrome.windows.create({
+      url: chrome.runtime.getURL(path),
+      type: 'popup',
+      width: 360,
+      height: 600
+    }, (window) => {
+      approvalWindowId = window?.id ?? null;
+      approvalWindowPath = path;
+      resolve();
+    });
+  });
+}
+
+/**
+ * 모든 탭에 체인 변경 이벤트 전송
+ * @param chainIdHex 16진수 체인 ID
+ */
+function notifyChainChanged(chainIdHex: string): void {
+  chrome.tabs.query({}, (tabs) => {
+    for (const tab of tabs) {
+      if (!tab.id) continue;
+      
+      chrome.tabs.sendMessage(tab.id, {
+        target: 'crelink-contentscript',
+        type: 'chainChanged',
+        data: chainIdHex
+      }, () => {
+        // 콘텐츠 스크립트가 없는 탭은 무시
+        void chrome.runtime.lastError;
+      });
+    }
+  });
+}
+
+/**
+ * 특정 출처의 탭들에 계정 변경 이벤트 전송
+ * @param origin 사이트 출처
+ * @param walletController 지갑 컨트롤러 인스턴스
+ */
+async function notifyAccountsChanged(origin: string, walletController: WalletController): Promise<void> {
+  const accounts = await walletController.getPermittedAccounts(origin);
+  
+  chrome.tabs.query({}, (tabs) => {
+    for (const tab of tabs) {
+      if (!tab.id || !tab.url) continue;
+      
+      try {
+        if (new URL(tab.url).origin !== origin) continue;
+      } catch {
+        continue;
+      }
+      
+      chrome.tabs.sendMessage(tab.id, {
+        target: 'crelink-contentscript',
+        type: 'accountsChanged',
+        data: accounts
+      });
+    }
+  });
 }
 
 /**
@@ -300,9 +915,30 @@ async function requestTransactionApproval(
   txParams: any,
   walletController: WalletController
 ): Promise<string> {
-  // 실제 구현에서는 사용자에게 트랜잭션 승인 팝업 표시
-  // 여기서는 간단한 구현으로 바로 서명 및 전송
-  return walletController.signAndSendTransaction(txParams);
+  if (!txParams || typeof txParams !== 'object') {
+    throw invalidParamsError('트랜잭션 파라미터가 올바르지 않습니다.');
+  }
+  
+  // 사이트에 허용된 계정에서만 전송 가능 (from이 없으면 허용된 첫 번째 계정)
+  const from = await assertPermittedAccount(origin, txParams.from, walletController);
+  const transaction = { ...txParams, from };
+  
+  // 승인 전에 트랜잭션을 시뮬레이션하여 위험 보고서 생성 (실패해도 승인은 진행)
+  const simulation = await walletController.simulateTransaction(transaction).catch((error) => {
+    console.error('트랜잭션 시뮬레이션 중 오류:', error);
+    return null;
+  });
+  
+  const requestId = walletController.createApprovalRequest(ApprovalType.TRANSACTION, origin, {
+    method: 'eth_sendTransaction',
+    params: [transaction],
+    simulation
+  });
+  
+  const approval = await requestUserApproval(requestId, walletController);
+  
+  // 팝업에서 가스 설정 등을 수정한 경우 반영 (서명 계정은 변경 불가)
+  return walletController.signAndSendTransaction({ ...transaction, ...(approval?.txParams || {}), from });
 }
 
 /**
@@ -318,13 +954,85 @@ async function requestSignatureApproval(
   params: any[],
   walletController: WalletController
 ): Promise<string> {
-  // 실제 구현에서는 사용자에게 서명 승인 팝업 표시
-  // 여기서는 간단한 구현으로 바로 서명
+  if (!Array.isArray(params) || params.length < 2) {
+    throw invalidParamsError('서명 파라미터가 올바르지 않습니다.');
+  }
+  
+  // personal_sign: [message, address], eth_signTypedData_v4: [address, typedData]
+  const address = await assertPermittedAccount(
+    origin,
+    type === 'personalSign' ? params[1] : params[0],
+    walletController
+  );
+  
+  let typedData: TypedDataPayload | null = null;
+  let inspection: TypedDataInspection | null = null;
+  if (type === 'typedData') {
+    try {
+      typedData = parseTypedData(params[1]);
+    } catch (error) {
+      throw invalidParamsError((error as Error).message);
+    }
+    
+    // 다른 체인용 서명은 재전송 공격에 사용될 수 있으므로 승인 전에 거부
+    const network = await walletController.getSelectedNetwork();
+    inspection = inspectTypedData(typedData, network.chainId);
+    if (inspection.chainIdMatches === false) {
+      throw invalidParamsError(
+        `서명 도메인의 chainId(${inspection.chainId})가 현재 체인 ID(${network.chainId})와 일치하지 않습니다.`
+      );
+    }
+  }
+  
+  const requestId = walletController.createApprovalRequest(
+    type === 'personalSign' ? ApprovalType.SIGN_MESSAGE : ApprovalType.SIGN_TYPED_DATA,
+    origin,
+    {
+      method: type === 'personalSign' ? 'personal_sign' : 'eth_signTypedData_v4',
+      params,
+      inspection
+    }
+  );
+  
+  await requestUserApproval(requestId, walletController);
+  
   if (type === 'personalSign') {
-    return walletController.signPersonalMessage(params[0]);
+    return walletController.signPersonalMessage(params[0], address);
   } else {
-    return walletController.signTypedData(JSON.parse(params[1]));
+    return walletController.signTypedData(typedData, address);
+  }
+}
+
+/**
+ * 요청 계정이 사이트에 허용된 계정인지 확인
+ * @param origin 요청 출처
+ * @param address 요청 계정 주소 (없으면 허용된 첫 번째 계정)
+ * @param walletController 지갑 컨트롤러 인스턴스
+ * @returns 서명에 사용할 계정 주소
+ */
+async function assertPermittedAccount(
+  origin: string,
+  address: string | undefined,
+  walletController: WalletController
+): Promise<string> {
+  const permittedAccounts = await walletController.getPermittedAccounts(origin);
+  
+  if (permittedAccounts.length === 0) {
+    throw unauthorizedError('먼저 eth_requestAccounts로 계정 연결을 요청하세요.');
   }
+  
+  if (address === undefined || address === null) {
+    return permittedAccounts[0];
+  }
+  
+  const permitted = typeof address === 'string'
+    ? permittedAccounts.find((account) => account.toLowerCase() === address.toLowerCase())
+    : undefined;
+  if (!permitted) {
+    throw unauthorizedError('이 사이트에 허용되지 않은 계정입니다.');
+  }
+  
+  return permitted;
 }
 
 /**
@@ -338,18 +1046,129 @@ async function requestChainSwitch(
   chainId: string,
   walletController: WalletController
 ): Promise<null> {
+  if (typeof chainId !== 'string' || !/^0x[0-9a-fA-F]+$/.test(chainId)) {
+    throw invalidParamsError('체인 ID는 16진수 문자열이어야 합니다.');
+  }
+  
   // 16진수 문자열을 숫자로 변환
   const chainIdNum = parseInt(chainId, 16);
   
-  // 실제 구현에서는 사용자에게 체인 변경 승인 팝업 표시
-  // 여기서는 간단한 구현으로 바로 체인 변경
+  // 이미 선택된 체인이면 승인 없이 완료
+  const currentNetwork = await walletController.getSelectedNetwork();
+  if (currentNetwork.chainId === chainIdNum) {
+    return null;
+  }
+  
+  const targetNetwork = await walletController.getNetworkByChainId(chainIdNum);
+  if (!targetNetwork) {
+    throw new ProviderRpcError(
+      RPC_ERROR_CODES.UNRECOGNIZED_CHAIN,
+      `등록되지 않은 체인 ID: ${chainId}. wallet_addEthereumChain으로 먼저 추가하세요.`
+    );
+  }
+  
+  const requestId = walletController.createApprovalRequest(ApprovalType.SWITCH_CHAIN, origin, {
+    method: 'wallet_switchEthereumChain',
+    params: [{ chainId }],
+    network: targetNetwork
+  });
+  
+  await requestUserApproval(requestId, walletController);
+  
   await walletController.selectNetwork(chainIdNum);
+  notifyChainChanged('0x' + chainIdNum.toString(16));
   
   return null;
 }
 
 /**
- * 새 체인 추가 요청
+ * wallet_addEthereumChain 파라미터 검증 (EIP-3085)
+ * @param chainParams 체인 파라미터
+ * @returns 등록할 체인 정보
+ */
+function parseAddChainParams(chainParams: any): ChainInfo {
+  if (!chainParams || typeof chainParams !== 'object' || Array.isArray(chainParams)) {
+    throw invalidParamsError('체인 파라미터 객체가 필요합니다.');
+  }
+  
+  const { chainId, chainName, nativeCurrency, rpcUrls, blockExplorerUrls, iconUrls } = chainParams;
+  
+  // 체인 ID: 앞자리 0이 없는 16진수 문자열
+  if (typeof chainId !== 'string' || !/^0x[1-9a-fA-F][0-9a-fA-F]*$/.test(chainId)) {
+    throw invalidParamsError('체인 ID는 0x로 시작하는 16진수 문자열이어야 합니다.');
+  }
+  
+  const chainIdNum = parseInt(chainId, 16);
+  if (!Number.isSafeInteger(chainIdNum) || !isValidChainId(chainIdNum)) {
+    throw invalidParamsError(`유효하지 않은 체인 ID: ${chainId}`);
+  }
+  
+  if (typeof chainName !== 'string' || chainName.trim().length === 0) {
+    throw invalidParamsError('체인 이름(chainName)이 필요합니다.');
+  }
+  
+  if (!Array.isArray(rpcUrls) || rpcUrls.length === 0) {
+    throw invalidParamsError('RPC URL(rpcUrls)이 하나 이상 필요합니다.');
+  }
+  
+  const rpcUrl = rpcUrls.find((url: unknown) => typeof url === 'string' && isValidRpcUrl(url));
+  if (!rpcUrl) {
+    throw invalidParamsError('유효한 RPC URL이 없습니다.');
+  }
+  
+  if (!nativeCurrency || typeof nativeCurrency !== 'object') {
+    throw invalidParamsError('기본 통화 정보(nativeCurrency)가 필요합니다.');
+  }
+  
+  const { name, symbol, decimals } = nativeCurrency;
+  if (typeof name !== 'string' || name.length === 0) {
+    throw invalidParamsError('기본 통화 이름이 필요합니다.');
+  }
+  
+  if (typeof symbol !== 'string' || symbol.length < 2 || symbol.length > 6) {
+    throw invalidParamsError('기본 통화 기호는 2~6자여야 합니다.');
+  }
+  
+  if (decimals !== 18) {
+    throw invalidParamsError('기본 통화 소수점 자릿수는 18이어야 합니다.');
+  }
+  
+  if (blockExplorerUrls !== undefined && blockExplorerUrls !== null && !Array.isArray(blockExplorerUrls)) {
+    throw invalidParamsError('blockExplorerUrls는 배열이어야 합니다.');
+  }
+  
+  const blockExplorerUrl = Array.isArray(blockExplorerUrls) ? blockExplorerUrls[0] : undefined;
+  if (blockExplorerUrl !== undefined && (typeof blockExplorerUrl !== 'string' || !isValidUrl(blockExplorerUrl))) {
+    throw invalidParamsError('유효하지 않은 블록 탐색기 URL입니다.');
+  }
+  
+  const iconUrl = Array.isArray(iconUrls) && typeof iconUrls[0] === 'string' && isValidUrl(iconUrls[0])
+    ? iconUrls[0]
+    : undefined;
+  
+  // 알려진 체인과 기본 통화가 다르면 위장된 네트워크일 수 있으므로 거부
+  const knownChain = getNetworkInfo(chainIdNum);
+  if (knownChain && knownChain.nativeCurrency.symbol.toUpperCase() !== symbol.toUpperCase()) {
+    throw invalidParamsError(
+      `체인 ID ${chainIdNum}의 기본 통화 기호(${symbol})가 알려진 값(${knownChain.nativeCurrency.symbol})과 다릅니다.`
+    );
+  }
+  
+  return {
+    chainId: chainIdNum,
+    chainIdHex: chainId,
+    name: chainName.trim(),
+    nativeCurrency: { name, symbol, decimals },
+    rpcUrl,
+    blockExplorerUrl,
+    iconUrl
+  };
+}
+
+/**
+ * 새 체인 추가 요청 (EIP-3085)
+ * 파라미터와 RPC 엔드포인트를 검증한 뒤 사용자 승인을 받아 네트워크를 추가합니다.
+ * 이미 등록된 체인이면 네트워크 전환 요청으로 처리합니다.
  * @param origin 요청 출처
  * @param chainParams 체인 파라미터
  * @param walletController 지갑 컨트롤러 인스턴스
@@ -359,8 +1178,42 @@ async function requestAddChain(
   chainParams: any,
   walletController: WalletController
 ): Promise<null> {
-  // 실제 구현에서는 사용자에게 체인 추가 승인 팝업 표시 및 네트워크 서비스에 체인 추가
-  // 여기서는 간단한 구현으로 아무 작업도 하지 않음
+  const chainInfo = parseAddChainParams(chainParams);
+  
+  // 이미 등록된 체인은 다시 추가하지 않고 전환만 요청
+  const existingNetwork = await walletController.getNetworkByChainId(chainInfo.chainId);
+  if (existingNetwork) {
+    return requestChainSwitch(origin, chainInfo.chainIdHex, walletController);
+  }
+  
+  // RPC 엔드포인트가 요청한 체인을 실제로 제공하는지 확인
+  const rpcChainId = await walletController.getRpcChainId(chainInfo.rpcUrl);
+  if (rpcChainId === null) {
+    throw invalidParamsError(`RPC 엔드포인트에 연결할 수 없습니다: ${chainInfo.rpcUrl}`);
+  }
+  
+  if (rpcChainId !== chainInfo.chainId) {
+    throw invalidParamsError(
+      `RPC 엔드포인트의 체인 ID(${rpcChainId})가 요청한 체인 ID(${chainInfo.chainId})와 일치하지 않습니다.`
+    );
+  }
+  
+  const requestId = walletController.createApprovalRequest(ApprovalType.ADD_CHAIN, origin, {
+    method: 'wallet_addEthereumChain',
+    params: [chainParams],
+    network: chainInfo,
+    knownChain: !!getNetworkInfo(chainInfo.chainId)
+  });
+  
+  const approval = await requestUserApproval(requestId, walletController);
+  
+  await walletController.addNetwork(chainInfo);
+  
+  // 사용자가 선택한 경우 추가한 네트워크로 바로 전환
+  if (approval?.switchNetwork) {
+    await walletController.selectNetwork(chainInfo.chainId);
+    notifyChainChanged('0x' + chainInfo.chainId.toString(16));
+  }
   
   return null;
 }
\ No newline at end of file
@@ -0,0 +1,149 @@
+/**
+ * ActivityService
+ * 활동 내역 관리 서비스
+ * 지갑에서 보낸 트랜잭션을 활동 내역으로 저장하고, 내역을 바탕으로 주소 중독 위험을 확인합니다.
+ */
+
+import { Interface } from 'ethers';
+import {
+  AccountModel,
+  AccountSource,
+  AccountType,
+  Activity,
+  ActivityModel,
+  ActivityType,
+  AddressPoisoningWarning,
+  ERC20_ABI,
+  TransactionActivity,
+  TransactionStatus,
+  TransactionType,
+  detectAddressPoisoning
+} from '@crelink/core';
+import { StorageService } from './storage.service';
+
+// 활동 내역 저장 키
+const ACTIVITIES_KEY = 'activities';
+
+// ERC-20 전송 디코딩용 인터페이스
+const ERC20_INTERFACE = new Interface(ERC20_ABI);
+
+export class ActivityService {
+  private activityModel: ActivityModel = new ActivityModel();
+  
+  constructor(private storageService: StorageService) {}
+  
+  /**
+   * 저장된 활동 내역 로드
+   */
+  public async init(): Promise<void> {
+    try {
+      const activities = await this.storageService.getItem<Activity[]>(ACTIVITIES_KEY);
+      this.activityModel = new ActivityModel(activities || []);
+    } catch (error) {
+      console.error('활동 내역 로드 중 오류:', error);
+    }
+  }
+  
+  /**
+   * 활동 내역 저장
+   */
+  private async saveActivities(): Promise<void> {
+    try {
+      await this.storageService.setItem(ACTIVITIES_KEY, this.activityModel.getAllActivities());
+    } catch (error) {
+      console.error('활동 내역 저장 중 오류:', error);
+    }
+  }
+  
+  /**
+   * 보낸 트랜잭션 기록
+   * ERC-20 transfer 호출은 토큰 컨트랙트가 아닌 실제 수신자를 상대 주소로 기록합니다.
+   * @param txHash 트랜잭션 해시
+   * @param txParams 트랜잭션 파라미터
+   * @param from 보낸 계정 주소
+   * @param chainId 체인 ID
+   */
+  public async recordSentTransaction(txHash: string, txParams: any, from: string, chainId: number): Promise<void> {
+    const activity: TransactionActivity = {
+      id: txHash,
+      type: ActivityType.TRANSACTION,
+      accountId: from.toLowerCase(),
+      chainId: chainId.toString(),
+      timestamp: Date.now(),
+      transactionHash: txHash,
+      transactionType: TransactionType.SEND,
+      status: TransactionStatus.PENDING,
+      from,
+      to: txParams.to,
+      value: BigInt(txParams.value || 0).toString(),
+      data: txParams.data
+    };
+    
+    if (txParams.data && txParams.data !== '0x') {
+      try {
+        const description = ERC20_INTERFACE.parseTransaction({ data: txParams.data });
+        if (description?.name === 'transfer') {
+          activity.to = description.args[0];
+          activity.tokenAddress = txParams.to;
+          activity.tokenAmount = description.args[1].toString();
+        } else {
+          activity.transactionType = TransactionType.CONTRACT_CALL;
+        }
+      } catch (error) {
+        activity.transactionType = TransactionType.CONTRACT_CALL;
+      }
+    }
+    
+    this.activityModel.addActivity(activity);
+    await this.saveActivities();
+  }
+  
+  /**
+   * 트랜잭션 상태 업데이트
+   * 확인되지 않은(실패, 대체, 삭제) 전송은 주소 중독 탐지에서 거래 상대로 인정되지 않습니다.
+   * @param txHash 트랜잭션 해시
+   * @param status 새 상태
+   * @param receipt 트랜잭션 영수증 (선택 사항)
+   * @param error 오류 메시지 (선택 사항)
+   */
+  public async updateTransactionStatus(txHash: string, status: string, receipt?: any, error?: string): Promise<void> {
+    if (this.activityModel.updateTransactionStatus(txHash, status as TransactionStatus, receipt, error)) {
+      await this.saveActivities();
+    }
+  }
+  
+  /**
+   * 수신 주소의 주소 중독 위험 확인
+   * 내 계정과 활동 내역의 거래 상대 중 앞뒤 글자만 같은 주소가 있으면 경고합니다.
+   * @param recipient 수신 주소
+   * @param accounts 내 계정 주소 목록
+   * @returns 경고 목록 (비어 있으면 안전)
+   */
+  public checkRecipientAddress(recipient: string, accounts: string[]): AddressPoisoningWarning[] {
+    return detectAddressPoisoning(recipient, this.activityModel, this.createAccountModel(accounts));
+  }
+  
+  /**
+   * 내 계정 주소 목록으로 계정 모델 생성
+   * 계정 이름은 팝업과 같은 규칙(계정 N)을 사용합니다.
+   * @param accounts 내 계정 주소 목록
+   */
+  private createAccountModel(accounts: string[]): AccountModel {
+    const accountModel = new AccountModel();
+    
+    accounts.forEach((address, index) => {
+      accountModel.addAccount({
+        id: address.toLowerCase(),
+        name: `계정 ${index + 1}`,
+        address,
+        type: AccountType.NORMAL,
+        source: AccountSource.CREATED,
+        index,
+        createdAt: 0,
+        updatedAt: 0
+      });
+    });
+    
+    return accountModel;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * AllowanceService
+ * 토큰 승인 관리 서비스
+ * 계정이 DApp에 승인한 ERC-20 allowance와 NFT 권한을 조회하고, 승인 취소 트랜잭션을 만듭니다.
+ */
+
+import {
+  TokenApproval,
+  TokenApprovalManager,
+  TokenApprovalRevokeTransaction,
+  TokenApprovalTransport
+} from '@crelink/core';
+import { RpcService } from './rpc.service';
+
+export class AllowanceService {
+  private approvalManager = new TokenApprovalManager();
+  
+  constructor(private rpcService: RpcService) {}
+  
+  /**
+   * 계정의 현재 유효한 토큰 승인 조회
+   * @param account 계정 주소
+   * @returns 위험도가 높은 순으로 정렬된 승인 목록
+   */
+  public async getTokenApprovals(account: string): Promise<TokenApproval[]> {
+    const { chainId, provider } = await this.rpcService.getSelectedProvider();
+    const transport: TokenApprovalTransport = {
+      chainId,
+      send: (method, params) => provider.send(method, params)
+    };
+    
+    return this.approvalManager.getApprovals(transport, account);
+  }
+  
+  /**
+   * 승인 취소 트랜잭션 생성
+   * 선택된 계정과 네트워크의 승인만 취소할 수 있습니다.
+   * @param account 계정 주소
+   * @param approvals 취소할 승인 목록
+   */
+  public async buildRevokeTransactions(account: string, approvals: TokenApproval[]): Promise<TokenApprovalRevokeTransaction[]> {
+    const { chainId } = await this.rpcService.getSelectedProvider();
+    
+    for (const approval of approvals) {
+      if (approval.chainId !== chainId || approval.owner.toLowerCase() !== account.toLowerCase()) {
+        throw new Error('선택된 계정과 네트워크의 승인만 취소할 수 있습니다.');
+      }
+    }
+    
+    return this.approvalManager.buildRevokeTransactions(approvals);
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * AssetService
+ * 자산 조회 서비스
+ * 네트워크별로 추가한 토큰 목록을 관리하고, 네이티브 잔액과 토큰 잔액을 Multicall로 한 번에 조회합니다.
+ * 토큰 목록에 있는 토큰을 제공하고, Transfer 로그로 보유 토큰을 찾아 스팸이 아닌 토큰을 자동으로 추가합니다.
+ */
+
+import { Token, TokenMetadata, TokenRegistry, TokenValidationStatus } from '@crelink/core';
+import { RpcService } from './rpc.service';
+import { StorageService } from './storage.service';
+
+// 추가한 토큰 목록 저장 키
+const ASSET_TOKENS_KEY = 'assetTokens';
+
+// 토큰 탐색 마지막 블록 저장 키
+const TOKEN_DISCOVERY_KEY = 'tokenDiscoveryBlocks';
+
+// 추가한 토큰 정보
+export interface AssetToken extends TokenMetadata {
+  logoURI?: string;
+  validationStatus?: TokenValidationStatus;
+}
+
+// 토큰 잔액
+export interface AssetTokenBalance extends AssetToken {
+  balance: string;
+}
+
+// 계정 자산 잔액
+export interface AssetBalances {
+  chainId: number;
+  nativeBalance: string;
+  tokens: AssetTokenBalance[];
+}
+
+export class AssetService {
+  private tokenRegistry = new TokenRegistry();
+  
+  constructor(
+    private rpcService: RpcService,
+    private storageService: StorageService
+  ) {}
+  
+  /**
+   * 네트워크에 추가한 토큰 목록 조회
+   * @param chainId 체인 ID
+   */
+  public async getTokens(chainId: number): Promise<AssetToken[]> {
+    const tokens = await this.storageService.getItem<Record<string, AssetToken[]>>(ASSET_TOKENS_KEY);
+    return tokens?.[chainId] || [];
+  }
+  
+  /**
+   * 토큰 추가
+   * 이미 추가한 토큰이면 정보를 갱신합니다.
+   * @param chainId 체인 ID
+   * @param token 토큰 정보
+   */
+  public async addToken(chainId: number, token: AssetToken): Promise<void> {
+    const tokens = (await this.storageService.getItem<Record<string, AssetToken[]>>(ASSET_TOKENS_KEY)) || {};
+    const chainTokens = (tokens[chainId] || []).filter(
+      (existing) => existing.address.toLowerCase() !== token.address.toLowerCase()
+    );
+    
+    tokens[chainId] = [...chainTokens, token];
+    await this.storageService.setItem(ASSET_TOKENS_KEY, tokens);
+  }
+  
+  /**
+   * 토큰 메타데이터 조회
+   * @param tokenAddress 토큰 계약 주소
+   */
+  public async getTokenMetadata(tokenAddress: string): Promise<TokenMetadata> {
+    const { provider } = await this.rpcService.getSelectedProvider();
+    return provider.getMulticall().getTokenMetadata(tokenAddress);
+  }
+  
+  /**
+   * 선택된 네트워크의 토큰 목록 조회
+   */
+  public async getListedTokens(): Promise<AssetToken[]> {
+    const { chainId } = await this.rpcService.getSelectedProvider();
+    return this.tokenRegistry.getTokens(chainId).map((token) => this.toAssetToken(token));
+  }
+  
+  /**
+   * 토큰 검증
+   * 토큰 목록에 없는 토큰은 계약 코드와 메타데이터를 조회해 스팸 여부를 분류합니다.
+   * @param tokenAddress 토큰 계약 주소
+   */
+  public async validateToken(tokenAddress: string): Promise<AssetToken> {
+    const { chainId, provider } = await this.rpcService.getSelectedProvider();
+    return this.toAssetToken(await this.tokenRegistry.validateToken(provider, chainId, tokenAddress));
+  }
+  
+  /**
+   * 계정의 Transfer 로그로 보유 토큰을 찾아 추가
+   * 지난번 탐색한 블록 다음부터 조회하며, 스팸 의심 토큰과 차단된 토큰은 추가하지 않습니다.
+   * @param account 계정 주소
+   * @returns 새로 추가한 토큰 목록
+   */
+  public async discoverTokens(account: string): Promise<AssetToken[]> {
+    const { chainId, provider } = await this.rpcService.getSelectedProvider();
+    const scanKey = `${chainId}:${account.toLowerCase()}`;
+    const scannedBlocks = (await this.storageService.getItem<Record<string, number>>(TOKEN_DISCOVERY_KEY)) || {};
+    const lastBlock = scannedBlocks[scanKey];
+    
+    const result = await this.tokenRegistry.discoverTokens(provider, chainId, account, {
+      fromBlock: lastBlock !== undefined ? lastBlock + 1 : undefined
+    });
+    
+    const existing = new Set((await this.getTokens(chainId)).map((token) => token.address.toLowerCase()));
+    const added: AssetToken[] = [];
+    
+    for (const token of result.tokens) {
+      if (
+        existing.has(token.address.toLowerCase()) ||
+        (token.validationStatus !== TokenValidationStatus.VERIFIED && token.validationStatus !== TokenValidationStatus.UNVERIFIED)
+      ) {
+        continue;
+      }
+      
+      const assetToken = this.toAssetToken(token);
+      await this.addToken(chainId, assetToken);
+      added.push(assetToken);
+    }
+    
+    scannedBlocks[scanKey] = result.toBlock;
+    await this.storageService.setItem(TOKEN_DISCOVERY_KEY, scannedBlocks);
+    
+    return added;
+  }
+  
+  /**
+   * 계정의 네이티브 잔액과 추가한 토큰 잔액 조회
+   * 모든 조회가 같은 시간 창 안에서 요청되므로 Multicall 한 번(또는 JSON-RPC 배치 한 번)으로 전송됩니다.
+   * @param address 계정 주소
+   */
+  public async getAssetBalances(address: string): Promise<AssetBalances> {
+    const { chainId, provider } = await this.rpcService.getSelectedProvider();
+    const multicall = provider.getMulticall();
+    const tokens = await this.getTokens(chainId);
+    
+    const [nativeBalance, tokenBalances] = await Promise.all([
+      multicall.getBalance(address),
+      multicall.getTokenBalances(address, tokens.map((token) => token.address))
+    ]);
+    
+    return {
+      chainId,
+      nativeBalance,
+      tokens: tokens
+        .filter((token) => tokenBalances[token.address] !== undefined)
+        .map((token) => ({ ...token, balance: tokenBalances[token.address] }))
+    };
+  }
+  
+  /**
+   * 레지스트리 토큰 정보를 저장용 토큰 정보로 변환
+   */
+  private toAssetToken(token: Token): AssetToken {
+    return {
+      address: token.address,
+      name: token.name,
+      symbol: token.symbol,
+      decimals: token.decimals,
+      logoURI: token.logoURI,
+      validationStatus: token.validationStatus
+    };
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * ContactService
+ * 주소록과 조회 전용 계정 정보 서비스
+ * 연락처와 조회 전용 계정의 원래 입력(ENS 이름, DID)을 코어 모델로 관리하고, 송금 화면의 수신자 후보를 만듭니다.
+ * 두 모델은 확장 프로그램 스토리지의 로컬 스토어에 저장되어 SyncStorage로 동기화됩니다.
+ */
+
+import {
+  Account,
+  AccountModel,
+  AccountSource,
+  AccountType,
+  Contact,
+  ContactInput,
+  ContactModel,
+  LocalStoreInterface,
+  RecipientSuggestion,
+  ResolvedName,
+  getRecipientSuggestions
+} from '@crelink/core';
+import { StorageService } from './storage.service';
+
+export class ContactService {
+  private localStore: LocalStoreInterface;
+  private contactModel = new ContactModel();
+  private watchOnlyModel = new AccountModel();
+  
+  constructor(storageService: StorageService) {
+    this.localStore = storageService.toLocalStore();
+  }
+  
+  /**
+   * 저장된 주소록과 조회 전용 계정 정보 로드
+   */
+  public async init(): Promise<void> {
+    this.contactModel = await ContactModel.load(this.localStore);
+    this.watchOnlyModel = await AccountModel.load(this.localStore);
+  }
+  
+  /**
+   * 연락처 목록 조회
+   */
+  public getContacts(): Contact[] {
+    return this.contactModel.getAllContacts();
+  }
+  
+  /**
+   * 연락처 추가
+   * @param input 연락처 정보
+   * @returns 추가된 연락처
+   */
+  public async addContact(input: ContactInput): Promise<Contact> {
+    const contact = this.contactModel.addContact(input);
+    await this.contactModel.save(this.localStore);
+    return contact;
+  }
+  
+  /**
+   * 연락처 수정
+   * @param id 연락처 ID
+   * @param updates 수정할 필드
+   * @returns 수정된 연락처
+   */
+  public async updateContact(id: string, updates: Partial<ContactInput>): Promise<Contact> {
+    const contact = this.contactModel.updateContact(id, updates);
+    await this.contactModel.save(this.localStore);
+    return contact;
+  }
+  
+  /**
+   * 연락처 삭제
+   * @param id 연락처 ID
+   */
+  public async deleteContact(id: string): Promise<void> {
+    if (this.contactModel.deleteContact(id)) {
+      await this.contactModel.save(this.localStore);
+    }
+  }
+  
+  /**
+   * 조회 전용 계정 정보 기록
+   * 이미 기록된 주소면 이름과 입력 정보만 갱신합니다.
+   * @param resolved 입력을 해석한 결과
+   * @param name 계정 이름 (선택 사항)
+   * @returns 기록된 계정 정보
+   */
+  public async recordWatchOnlyAccount(resolved: ResolvedName, name?: string): Promise<Account> {
+    const existing = this.watchOnlyModel.getAccountByAddress(resolved.address);
+    if (existing) {
+      this.watchOnlyModel.deleteAccount(existing.id);
+    }
+    
+    const account = this.watchOnlyModel.addWatchOnlyAccount({
+      address: resolved.address,
+      name: name?.trim() || undefined,
+      input: resolved.name,
+      inputType: resolved.type
+    });
+    
+    await this.watchOnlyModel.save(this.localStore);
+    return account;
+  }
+  
+  /**
+   * 조회 전용 계정 정보 삭제
+   * @param address 계정 주소
+   */
+  public async removeWatchOnlyAccount(address: string): Promise<void> {
+    const account = this.watchOnlyModel.getAccountByAddress(address);
+    if (account && this.watchOnlyModel.deleteAccount(account.id)) {
+      await this.watchOnlyModel.save(this.localStore);
+    }
+  }
+  
+  /**
+   * 조회 전용 계정 정보 목록
+   */
+  public getWatchOnlyAccounts(): Account[] {
+    return this.watchOnlyModel.getWatchOnlyAccounts();
+  }
+  
+  /**
+   * 수신자 후보 목록
+   * @param chainId 선택된 네트워크의 체인 ID
+   * @param accounts 키링의 계정 주소 목록
+   * @param watchOnlyAddresses 키링의 조회 전용 계정 주소 목록
+   * @param query 검색어
+   * @param excludeAddress 제외할 주소 (보내는 계정)
+   */
+  public getRecipientSuggestions(
+    chainId: number,
+    accounts: string[],
+    watchOnlyAddresses: string[],
+    query: string,
+    excludeAddress?: string
+  ): RecipientSuggestion[] {
+    return getRecipientSuggestions(
+      chainId,
+      this.contactModel,
+      this.createAccountModel(accounts, watchOnlyAddresses),
+      query,
+      excludeAddress
+    );
+  }
+  
+  /**
+   * 키링 계정으로 수신자 후보용 계정 모델 생성
+   * 계정 이름은 팝업과 같은 규칙(계정 N)을 사용하고, 조회 전용 계정은 기록된 이름을 사용합니다.
+   */
+  private createAccountModel(accounts: string[], watchOnlyAddresses: string[]): AccountModel {
+    const accountModel = new AccountModel();
+    const watchOnly = new Set(watchOnlyAddresses.map(address => address.toLowerCase()));
+    
+    accounts.forEach((address, index) => {
+      const record = this.watchOnlyModel.getAccountByAddress(address);
+      if (watchOnly.has(address.toLowerCase()) && record) {
+        accountModel.addAccount(record);
+        return;
+      }
+      
+      accountModel.addAccount({
+        id: address.toLowerCase(),
+        name: `계정 ${index + 1}`,
+        address,
+        type: watchOnly.has(address.toLowerCase()) ? AccountType.WATCH : AccountType.NORMAL,
+        source: watchOnly.has(address.toLowerCase()) ? AccountSource.WATCH_ONLY : AccountSource.CREATED,
+        index,
+        createdAt: 0,
+        updatedAt: 0
+      });
+    });
+    
+    return accountModel;
+  }
+}
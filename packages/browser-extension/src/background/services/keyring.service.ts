@@ -1,22 +1,50 @@
 /**
  * KeyringService
  * 키 관리 및 계정 관리를 담당하는 서비스
- * 니모닉 생성, 지갑 가져오기, 계정 파생, 서명 기능 등을 제공합니다.
+ * 여러 키링(HD, 가져온 개인키, 조회 전용, QR 하드웨어 지갑)을 암호화된 볼트로 관리하고,
+ * 복호화된 키는 지갑이 잠금 해제된 동안에만 메모리에 보관합니다.
  */
 
+import { HardwareAccountCandidate, KeyringType, QRSignRequestHandler, TypedDataPayload } from '@crelink/core';
 import { StorageService } from './storage.service';
+import {
+  HDKeyring,
+  PrivateKeyKeyring,
+  QRHardwareKeyring,
+  WalletKeyring,
+  WatchOnlyKeyring,
+  isSerializedKeyringList,
+  restoreKeyring
+} from '../keyrings';
 
-// @crelink/core에서 필요한 모듈 import (실제 구현 시 수정 필요)
-// import { KeyManagement, Mnemonic, Keystore } from '@crelink/core/crypto';
+// 암호화된 키링 볼트 저장 키
+const VAULT_KEY = 'vault';
+
+// 이전 버전의 임시 볼트 저장 키 (`encrypted_${mnemonic}_${password}` 형식)
+const LEGACY_VAULT_KEY = 'encryptedVault';
 
 export class KeyringService {
-  private isUnlocked: boolean = false;
-  private mnemonic: string | null = null;
+  private keyrings: WalletKeyring[] = [];
+  // 볼트 재암호화에 사용하는 비밀번호 (잠금 해제된 동안에만 보관)
+  private password: string | null = null;
   private accounts: string[] = [];
   private selectedAccount: string | null = null;
-  private encryptedVault: string | null = null;
   
-  constructor(private storageService: StorageService) {}
+  /**
+   * @param storageService 스토리지 서비스
+   * @param onQRSignRequest QR 하드웨어 키링의 서명 요청 처리 함수
+   */
+  constructor(
+    private storageService: StorageService,
+    private onQRSignRequest: QRSignRequestHandler
+  ) {}
+  
+  /**
+   * 잠금 해제 여부
+   */
+  private get isUnlocked(): boolean {
+    return this.password !== null;
+  }
   
   /**
    * 새 지갑 생성
@@ -25,29 +53,12 @@ export class KeyringService {
    */
   public async createWallet(password: string): Promise<string> {
     try {
-      // 실제 구현에서는 @crelink/core의 Mnemonic 모듈 사용
-      // 임시 구현:
-      const tempMnemonic = 'test test test test test test test test test test test junk';
-      this.mnemonic = tempMnemonic;
+      const keyring = new HDKeyring();
+      await keyring.addAccount();
       
-      // 니모닉으로부터 첫 번째 계정 생성
-      // 실제 구현에서는 @crelink/core의 KeyManagement 모듈 사용
-      // 임시 구현:
-      const firstAccount = '0x1234567890123456789012345678901234567890';
-      this.accounts = [firstAccount];
-      this.selectedAccount = firstAccount;
+      await this.initializeVault(keyring, password);
       
-      // 키 저장소 암호화 및 저장
-      // 실제 구현에서는 @crelink/core의 Keystore 모듈 사용
-      // 임시 구현:
-      this.encryptedVault = `encrypted_${tempMnemonic}_${password}`;
-      await this.storageService.setItem('encryptedVault', this.encryptedVault);
-      await this.storageService.setItem('accounts', this.accounts);
-      await this.storageService.setItem('selectedAccount', this.selectedAccount);
-      
-      this.isUnlocked = true;
-      
-      return tempMnemonic;
+      return keyring.exportMnemonic(password);
     } catch (error) {
       console.error('지갑 생성 중 오류:', error);
       throw error;
@@ -61,30 +72,10 @@ export class KeyringService {
    */
   public async importWallet(mnemonic: string, password: string): Promise<void> {
     try {
-      // 실제 구현에서는 @crelink/core의 Mnemonic 모듈로 유효성 검사
-      // 임시 구현:
-      if (!mnemonic || mnemonic.split(' ').length < 12) {
-        throw new Error('유효하지 않은 니모닉 구문입니다.');
-      }
-      
-      this.mnemonic = mnemonic;
-      
-      // 니모닉으로부터 첫 번째 계정 생성
-      // 실제 구현에서는 @crelink/core의 KeyManagement 모듈 사용
-      // 임시 구현:
-      const firstAccount = '0x1234567890123456789012345678901234567890';
-      this.accounts = [firstAccount];
-      this.selectedAccount = firstAccount;
-      
-      // 키 저장소 암호화 및 저장
-      // 실제 구현에서는 @crelink/core의 Keystore 모듈 사용
-      // 임시 구현:
-      this.encryptedVault = `encrypted_${mnemonic}_${password}`;
-      await this.storageService.setItem('encryptedVault', this.encryptedVault);
-      await this.storageService.setItem('accounts', this.accounts);
-      await this.storageService.setItem('selectedAccount', this.selectedAccount);
+      const keyring = new HDKeyring(mnemonic);
+      await keyring.addAccount();
       
-      this.isUnlocked = true;
+      await this.initializeVault(keyring, password);
     } catch (error) {
       console.error('지갑 가져오기 중 오류:', error);
       throw error;
@@ -93,63 +84,73 @@ export class KeyringService {
   
   /**
    * 지갑 잠금 해제
+   * 이전 버전의 임시 볼트는 새 볼트로 변환한 뒤 삭제합니다.
    * @param password 비밀번호
    * @returns 성공 여부
    */
   public async unlockWallet(password: string): Promise<boolean> {
     try {
-      const encryptedVault = await this.storageService.getItem('encryptedVault');
-      if (!encryptedVault) {
-        throw new Error('지갑이 존재하지 않습니다.');
-      }
+      let keyrings: WalletKeyring[];
       
-      // 실제 구현에서는 @crelink/core의 Keystore 모듈로 복호화
-      // 임시 구현:
-      const isCorrectPassword = encryptedVault.includes(password);
-      if (!isCorrectPassword) {
-        return false;
+      if (await this.storageService.hasEncryptedItem(VAULT_KEY)) {
+        const serialized = await this.storageService.getEncryptedItem(VAULT_KEY, password, isSerializedKeyringList);
+        keyrings = await Promise.all((serialized || []).map(item => restoreKeyring(item, this.onQRSignRequest)));
+      } else {
+        const legacyKeyring = await this.restoreLegacyVault(password);
+        if (!legacyKeyring) {
+          return false;
+        }
+        keyrings = [legacyKeyring];
       }
       
-      // 저장된 계정 정보 로드
-      const accounts = await this.storageService.getItem('accounts');
-      const selectedAccount = await this.storageService.getItem('selectedAccount');
-      
-      if (accounts) {
-        this.accounts = accounts;
-      }
+      this.keyrings = keyrings;
+      this.password = password;
+      await this.refreshAccounts();
       
-      if (selectedAccount) {
-        this.selectedAccount = selectedAccount;
+      // 변환된 이전 볼트는 새 형식으로 저장 후 삭제
+      if (await this.storageService.getItem(LEGACY_VAULT_KEY)) {
+        await this.persistVault();
+        await this.storageService.removeItem(LEGACY_VAULT_KEY);
       }
       
-      // 실제 구현에서는 복호화된 니모닉 저장
-      this.mnemonic = 'decrypted_mnemonic';
-      
-      this.isUnlocked = true;
       return true;
     } catch (error) {
       console.error('지갑 잠금 해제 중 오류:', error);
-      this.isUnlocked = false;
+      this.lockWallet();
       return false;
     }
   }
   
   /**
    * 지갑 잠금
+   * 복호화된 키링과 비밀번호를 메모리에서 제거합니다.
+   * 계정 목록 등 비민감 정보는 유지합니다.
    */
   public lockWallet(): void {
-    this.isUnlocked = false;
-    this.mnemonic = null;
-    // 메모리에서 민감한 정보 제거
-    // 계정 목록 등 비민감 정보는 유지
+    this.keyrings = [];
+    this.password = null;
+  }
+  
+  /**
+   * 지갑 초기화
+   * 메모리의 키링과 계정 정보를 모두 제거합니다. (저장된 볼트는 호출자가 삭제)
+   */
+  public resetWallet(): void {
+    this.lockWallet();
+    this.accounts = [];
+    this.selectedAccount = null;
   }
   
   /**
    * 지갑 존재 여부 확인
    */
   public async hasWallet(): Promise<boolean> {
-    const encryptedVault = await this.storageService.getItem('encryptedVault');
-    return !!encryptedVault;
+    if (await this.storageService.hasEncryptedItem(VAULT_KEY)) {
+      return true;
+    }
+    
+    const legacyVault = await this.storageService.getItem(LEGACY_VAULT_KEY);
+    return !!legacyVault;
   }
   
   /**
@@ -174,6 +175,16 @@ export class KeyringService {
     return this.selectedAccount;
   }
   
+  /**
+   * 계정의 키링 유형 조회
+   * @param address 계정 주소
+   * @returns 키링 유형 또는 null
+   */
+  public async getAccountType(address: string): Promise<KeyringType | null> {
+    const keyring = await this.findKeyring(address);
+    return keyring ? keyring.type : null;
+  }
+  
   /**
    * 계정 선택
    * @param address 선택할 계정 주소
@@ -183,55 +194,191 @@ export class KeyringService {
       throw new Error('지갑이 잠겨 있습니다.');
     }
     
-    if (!this.accounts.includes(address)) {
+    const normalized = address.toLowerCase();
+    if (!this.accounts.includes(normalized)) {
       throw new Error('존재하지 않는 계정입니다.');
     }
     
-    this.selectedAccount = address;
-    await this.storageService.setItem('selectedAccount', address);
+    this.selectedAccount = normalized;
+    await this.storageService.setItem('selectedAccount', normalized);
   }
   
   /**
    * 새 계정 생성
+   * 기본 HD 키링에서 다음 인덱스의 계정을 파생합니다.
    * @returns 생성된 계정 주소
    */
   public async createAccount(): Promise<string> {
-    if (!this.isUnlocked || !this.mnemonic) {
+    if (!this.isUnlocked) {
       throw new Error('지갑이 잠겨 있습니다.');
     }
     
     try {
-      // 실제 구현에서는 @crelink/core의 KeyManagement 모듈 사용
-      // 파생 경로 = "m/44'/60'/0'/0/{accounts.length}" 사용
-      // 임시 구현:
-      const newAccount = `0x${(Math.floor(Math.random() * 1000000000)).toString(16).padStart(40, '0')}`;
-      this.accounts.push(newAccount);
-      this.selectedAccount = newAccount;
+      const keyring = this.keyrings.find(item => item.type === KeyringType.HD);
+      if (!keyring) {
+        throw new Error('니모닉 지갑이 없습니다.');
+      }
       
-      await this.storageService.setItem('accounts', this.accounts);
-      await this.storageService.setItem('selectedAccount', this.selectedAccount);
+      const account = await keyring.addAccount();
+      await this.saveAndSelect(account.address);
       
-      return newAccount;
+      return account.address;
     } catch (error) {
       console.error('계정 생성 중 오류:', error);
       throw error;
     }
   }
   
+  /**
+   * 개인키로 계정 가져오기
+   * @param privateKey 개인키
+   * @returns 가져온 계정 주소
+   */
+  public async importPrivateKey(privateKey: string): Promise<string> {
+    const keyring = this.getOrCreateKeyring(KeyringType.PRIVATE_KEY, () => new PrivateKeyKeyring());
+    return this.addAccountToKeyring(keyring, { privateKey });
+  }
+  
+  /**
+   * 조회 전용 계정 추가
+   * @param address 계정 주소
+   * @returns 추가된 계정 주소
+   */
+  public async addWatchOnlyAccount(address: string): Promise<string> {
+    const keyring = this.getOrCreateKeyring(KeyringType.WATCH_ONLY, () => new WatchOnlyKeyring());
+    return this.addAccountToKeyring(keyring, { address });
+  }
+  
+  /**
+   * QR 하드웨어 지갑의 계정 후보 조회
+   * @param ur 디바이스가 내보낸 crypto-hdkey UR
+   * @param start 시작 인덱스
+   * @param count 조회할 개수
+   * @returns 계정 후보 (이미 추가된 계정 표시 포함)
+   */
+  public async getQRAccountCandidates(ur: string, start: number, count: number): Promise<HardwareAccountCandidate[]> {
+    const keyring = await this.findQRKeyring(ur);
+    const candidates = await keyring.getCandidates(start, count);
+    
+    return candidates.map(candidate => ({
+      ...candidate,
+      added: candidate.added || this.accounts.includes(candidate.address)
+    }));
+  }
+  
+  /**
+   * QR 하드웨어 지갑 계정 가져오기
+   * 같은 디바이스의 키링이 이미 있으면 그 키링에 계정을 추가합니다.
+   * @param ur 디바이스가 내보낸 crypto-hdkey UR
+   * @param indexes 가져올 주소 인덱스 목록
+   * @returns 추가된 계정 주소 목록
+   */
+  public async importQRAccounts(ur: string, indexes: number[]): Promise<string[]> {
+    if (!this.isUnlocked) {
+      throw new Error('지갑이 잠겨 있습니다.');
+    }
+    if (indexes.length === 0) {
+      throw new Error('가져올 계정을 선택하세요.');
+    }
+    
+    const keyring = await this.findQRKeyring(ur);
+    const added: string[] = [];
+    
+    for (const index of indexes) {
+      // 다른 키링에 이미 있는 주소는 건너뜀
+      const [candidate] = await keyring.getCandidates(index, 1);
+      if (this.accounts.includes(candidate.address) || added.includes(candidate.address)) {
+        continue;
+      }
+      
+      const account = await keyring.addAccount({ index });
+      added.push(account.address);
+    }
+    
+    if (added.length === 0) {
+      throw new Error('이미 추가된 계정입니다.');
+    }
+    
+    if (!this.keyrings.includes(keyring)) {
+      this.keyrings.push(keyring);
+    }
+    await this.saveAndSelect(added[added.length - 1]);
+    
+    return added;
+  }
+  
+  /**
+   * 계정 제거
+   * 니모닉에서 파생한 계정은 니모닉으로 다시 복구되므로 제거할 수 없습니다.
+   * @param address 제거할 계정 주소
+   */
+  public async removeAccount(address: string): Promise<void> {
+    if (!this.isUnlocked) {
+      throw new Error('지갑이 잠겨 있습니다.');
+    }
+    
+    const keyring = await this.findKeyring(address);
+    if (!keyring) {
+      throw new Error('존재하지 않는 계정입니다.');
+    }
+    
+    if (keyring.type === KeyringType.HD) {
+      throw new Error('니모닉으로 생성한 계정은 제거할 수 없습니다.');
+    }
+    
+    await keyring.removeAccount(address);
+    
+    // 계정이 없는 키링은 볼트에서 제거
+    if (keyring.accounts.length === 0) {
+      this.keyrings = this.keyrings.filter(item => item !== keyring);
+    }
+    
+    await this.persistVault();
+    await this.refreshAccounts();
+  }
+  
+  /**
+   * 계정 개인키 내보내기
+   * @param address 계정 주소
+   * @param password 지갑 비밀번호 (키스토어 암호화에도 사용)
+   * @returns Web3 Secret Storage(V3) 형식 키스토어 JSON
+   */
+  public async exportAccount(address: string, password: string): Promise<string> {
+    await this.verifyPassword(password);
+    
+    const keyring = await this.findKeyring(address);
+    if (!keyring) {
+      throw new Error('존재하지 않는 계정입니다.');
+    }
+    
+    return keyring.exportAccount(address, password);
+  }
+  
+  /**
+   * 니모닉 구문 내보내기
+   * @param password 지갑 비밀번호
+   */
+  public async exportMnemonic(password: string): Promise<string> {
+    await this.verifyPassword(password);
+    
+    const keyring = this.keyrings.find(item => item.type === KeyringType.HD);
+    if (!keyring) {
+      throw new Error('니모닉 지갑이 없습니다.');
+    }
+    
+    return keyring.exportMnemonic(password);
+  }
+  
   /**
    * 트랜잭션 서명
-   * @param txData 트랜잭션 데이터
+   * @param txData 트랜잭션 데이터 (chainId 포함)
    * @returns 서명된 트랜잭션
    */
   public async signTransaction(txData: any): Promise<string> {
-    if (!this.isUnlocked || !this.selectedAccount) {
-      throw new Error('지갑이 잠겨 있거나 선택된 계정이 없습니다.');
-    }
+    const { keyring, address } = await this.getSigningKeyring(txData.from);
     
     try {
-      // 실제 구현에서는 @crelink/core의 서명 모듈 사용
-      // 임시 구현:
-      return `signed_transaction_${JSON.stringify(txData)}`;
+      return await keyring.signTransaction(address, txData);
     } catch (error) {
       console.error('트랜잭션 서명 중 오류:', error);
       throw error;
@@ -241,17 +388,14 @@ export class KeyringService {
   /**
    * 메시지 서명
    * @param message 서명할 메시지
+   * @param from 서명 계정 주소 (없으면 선택된 계정)
    * @returns 서명 결과
    */
-  public async signMessage(message: string): Promise<string> {
-    if (!this.isUnlocked || !this.selectedAccount) {
-      throw new Error('지갑이 잠겨 있거나 선택된 계정이 없습니다.');
-    }
+  public async signMessage(message: string, from?: string): Promise<string> {
+    const { keyring, address } = await this.getSigningKeyring(from);
     
     try {
-      // 실제 구현에서는 @crelink/core의 서명 모듈 사용
-      // 임시 구현:
-      return `signed_message_${message}`;
+      return await keyring.signMessage(address, message);
     } catch (error) {
       console.error('메시지 서명 중 오류:', error);
       throw error;
@@ -261,20 +405,211 @@ export class KeyringService {
   /**
    * 타입화된 데이터 서명
    * @param typedData 타입화된 데이터
+   * @param from 서명 계정 주소 (없으면 선택된 계정)
    * @returns 서명 결과
    */
-  public async signTypedData(typedData: any): Promise<string> {
-    if (!this.isUnlocked || !this.selectedAccount) {
-      throw new Error('지갑이 잠겨 있거나 선택된 계정이 없습니다.');
-    }
+  public async signTypedData(typedData: TypedDataPayload, from?: string): Promise<string> {
+    const { keyring, address } = await this.getSigningKeyring(from);
     
     try {
-      // 실제 구현에서는 @crelink/core의 서명 모듈 사용
-      // 임시 구현:
-      return `signed_typed_data_${JSON.stringify(typedData)}`;
+      return await keyring.signTypedData(address, typedData);
     } catch (error) {
       console.error('타입화된 데이터 서명 중 오류:', error);
       throw error;
     }
   }
-}
\ No newline at end of file
+  
+  /**
+   * 새 볼트 초기화 (지갑 생성/가져오기)
+   * @param keyring 기본 HD 키링
+   * @param password 볼트 비밀번호
+   */
+  private async initializeVault(keyring: HDKeyring, password: string): Promise<void> {
+    this.keyrings = [keyring];
+    this.password = password;
+    this.selectedAccount = null;
+    
+    await this.persistVault();
+    await this.storageService.removeItem(LEGACY_VAULT_KEY);
+    await this.refreshAccounts();
+  }
+  
+  /**
+   * 이전 버전의 임시 볼트 복원
+   * @param password 비밀번호
+   * @returns 복원된 HD 키링 또는 null (비밀번호 불일치/볼트 없음)
+   */
+  private async restoreLegacyVault(password: string): Promise<HDKeyring | null> {
+    const legacyVault = await this.storageService.getItem<string>(LEGACY_VAULT_KEY);
+    if (!legacyVault) {
+      throw new Error('지갑이 존재하지 않습니다.');
+    }
+    
+    const prefix = 'encrypted_';
+    const suffix = `_${password}`;
+    if (!legacyVault.startsWith(prefix) || !legacyVault.endsWith(suffix)) {
+      return null;
+    }
+    
+    const keyring = new HDKeyring(legacyVault.slice(prefix.length, legacyVault.length - suffix.length));
+    await keyring.addAccount();
+    
+    return keyring;
+  }
+  
+  /**
+   * 키링을 암호화하여 볼트에 저장
+   */
+  private async persistVault(): Promise<void> {
+    if (!this.password) {
+      throw new Error('지갑이 잠겨 있습니다.');
+    }
+    
+    const serialized = this.keyrings.map(keyring => keyring.serialize());
+    await this.storageService.setEncryptedItem(VAULT_KEY, serialized, this.password);
+  }
+  
+  /**
+   * 키링의 계정으로 계정 목록과 선택 계정 갱신
+   */
+  private async refreshAccounts(): Promise<void> {
+    const accounts: string[] = [];
+    for (const keyring of this.keyrings) {
+      const keyringAccounts = await keyring.getAccounts();
+      accounts.push(...keyringAccounts.map(account => account.address));
+    }
+    this.accounts = accounts;
+    
+    const selectedAccount = this.selectedAccount || await this.storageService.getItem<string>('selectedAccount');
+    this.selectedAccount = selectedAccount && accounts.includes(selectedAccount.toLowerCase())
+      ? selectedAccount.toLowerCase()
+      : accounts[0] || null;
+    
+    await this.storageService.setItem('accounts', this.accounts);
+    await this.storageService.setItem('selectedAccount', this.selectedAccount);
+  }
+  
+  /**
+   * 볼트 저장 후 계정 선택
+   * @param address 선택할 계정 주소
+   */
+  private async saveAndSelect(address: string): Promise<void> {
+    await this.persistVault();
+    this.selectedAccount = address;
+    await this.refreshAccounts();
+  }
+  
+  /**
+   * 지정한 유형의 키링 조회 (없으면 생성)
+   * @param type 키링 유형
+   * @param create 키링 생성 함수
+   */
+  private getOrCreateKeyring(type: KeyringType, create: () => WalletKeyring): WalletKeyring {
+    if (!this.isUnlocked) {
+      throw new Error('지갑이 잠겨 있습니다.');
+    }
+    
+    const existing = this.keyrings.find(keyring => keyring.type === type);
+    if (existing) {
+      return existing;
+    }
+    
+    const keyring = create();
+    this.keyrings.push(keyring);
+    return keyring;
+  }
+  
+  /**
+   * 키링에 계정 추가 후 저장
+   * @param keyring 대상 키링
+   * @param options 키링별 계정 추가 옵션
+   * @returns 추가된 계정 주소
+   */
+  private async addAccountToKeyring(keyring: WalletKeyring, options: any): Promise<string> {
+    const previousCount = keyring.accounts.length;
+    
+    try {
+      const account = await keyring.addAccount(options);
+      
+      // 이미 등록된 계정은 중복 추가하지 않음
+      if (this.accounts.includes(account.address)) {
+        if (keyring.accounts.length > previousCount) {
+          await keyring.removeAccount(account.address);
+        }
+        throw new Error('이미 추가된 계정입니다.');
+      }
+      
+      await this.saveAndSelect(account.address);
+      return account.address;
+    } catch (error) {
+      // 계정이 추가되지 않은 새 키링은 제거
+      if (keyring.accounts.length === 0) {
+        this.keyrings = this.keyrings.filter(item => item !== keyring);
+      }
+      
+      console.error('계정 추가 중 오류:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * crypto-hdkey UR과 같은 디바이스의 QR 키링 조회 (없으면 볼트에 넣지 않은 새 키링 생성)
+   * @param ur 디바이스가 내보낸 crypto-hdkey UR
+   */
+  private async findQRKeyring(ur: string): Promise<QRHardwareKeyring> {
+    if (!this.isUnlocked) {
+      throw new Error('지갑이 잠겨 있습니다.');
+    }
+    
+    const keyring = await QRHardwareKeyring.fromUR(ur, this.onQRSignRequest);
+    const existing = this.keyrings.find(
+      (item): item is QRHardwareKeyring => item instanceof QRHardwareKeyring && item.deviceId === keyring.deviceId
+    );
+    
+    return existing || keyring;
+  }
+  
+  /**
+   * 계정을 보유한 키링 조회
+   * @param address 계정 주소
+   */
+  private async findKeyring(address: string): Promise<WalletKeyring | undefined> {
+    for (const keyring of this.keyrings) {
+      if (await keyring.getAccount(address)) {
+        return keyring;
+      }
+    }
+    
+    return undefined;
+  }
+  
+  /**
+   * 서명에 사용할 키링 조회
+   * @param address 서명 계정 주소 (생략 시 선택된 계정)
+   */
+  private async getSigningKeyring(address?: string): Promise<{ keyring: WalletKeyring; address: string }> {
+    const signer = address || this.selectedAccount;
+    if (!this.isUnlocked || !signer) {
+      throw new Error('지갑이 잠겨 있거나 선택된 계정이 없습니다.');
+    }
+    
+    const keyring = await this.findKeyring(signer);
+    if (!keyring) {
+      throw new Error('존재하지 않는 계정입니다.');
+    }
+    
+    return { keyring, address: signer };
+  }
+  
+  /**
+   * 볼트 복호화로 비밀번호 검증
+   * @param password 비밀번호
+   */
+  public async verifyPassword(password: string): Promise<void> {
+    if (!this.isUnlocked) {
+      throw new Error('지갑이 잠겨 있습니다.');
+    }
+    
+    await this.storageService.getEncryptedItem(VAULT_KEY, password, isSerializedKeyringList);
+  }
+}
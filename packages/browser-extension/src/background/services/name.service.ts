@@ -0,0 +1,57 @@
+/**
+ * NameService
+ * 이름 해석 서비스
+ * 수신자 입력란의 ENS 이름, Catena 이름, zkDID와 zkDID 별칭을 선택된 네트워크에서 주소로 해석합니다.
+ */
+
+import {
+  CatenaNameResolver,
+  EnsNameResolver,
+  NameResolutionService,
+  ResolvedName,
+  ZkDIDManager,
+  ZkDIDNameResolver
+} from '@crelink/core';
+import { RpcService } from './rpc.service';
+
+// zkDID 서버 API URL
+const ZKDID_API_URL = 'https://api.crelink.io';
+
+export class NameService {
+  private nameResolution: NameResolutionService;
+  
+  constructor(private rpcService: RpcService) {
+    this.nameResolution = new NameResolutionService([
+      new EnsNameResolver(),
+      new CatenaNameResolver(),
+      new ZkDIDNameResolver(new ZkDIDManager(ZKDID_API_URL))
+    ]);
+  }
+  
+  /**
+   * 수신자 입력을 주소로 해석
+   * 이름 해석 결과가 송금 대상이 되므로 여러 RPC에서 교차 확인하는 프로바이더로 조회합니다.
+   * @param recipient 16진수 주소 또는 이름
+   * @returns 해석 결과
+   */
+  public async resolveRecipient(recipient: string): Promise<ResolvedName> {
+    return this.nameResolution.resolveRecipient(recipient, await this.getProvider());
+  }
+  
+  /**
+   * 주소의 대표 이름 조회
+   * @param address 주소
+   * @returns 이름 또는 null
+   */
+  public async lookupAddress(address: string): Promise<string | null> {
+    return this.nameResolution.lookupAddress(address, await this.getProvider());
+  }
+  
+  /**
+   * 선택된 네트워크의 조회용 프로바이더
+   */
+  private async getProvider() {
+    const { chainId, provider } = await this.rpcService.getSelectedProvider();
+    return (await this.rpcService.getVerifiedProviderForChain(chainId)) || provider;
+  }
+}
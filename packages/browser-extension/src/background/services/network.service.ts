@@ -17,6 +17,7 @@ export interface ChainInfo {
     decimals: number;
   };
   rpcUrl: string;
+  rpcUrls?: string[]; // 장애 조치용 추가 RPC URL
   blockExplorerUrl?: string;
   iconUrl?: string;
 }
@@ -274,6 +275,46 @@ export class NetworkService {
     }
   }
   
+  /**
+   * RPC 엔드포인트의 체인 ID 조회
+   * @param rpcUrl 조회할 RPC URL
+   * @param timeout 요청 제한 시간 (밀리초)
+   * @returns 체인 ID 또는 null (연결 실패 시)
+   */
+  public async getRpcChainId(rpcUrl: string, timeout: number = 10000): Promise<number | null> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    
+    try {
+      const response = await fetch(rpcUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          method: 'eth_chainId',
+          params: [],
+          id: 1
+        }),
+        signal: controller.signal
+      });
+      
+      const data = await response.json();
+      if (typeof data.result !== 'string') {
+        return null;
+      }
+      
+      const chainId = parseInt(data.result, 16);
+      return Number.isNaN(chainId) ? null : chainId;
+    } catch (error) {
+      console.error('RPC 체인 ID 조회 중 오류:', error);
+      return null;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+  
   /**
    * 체인 자동 감지
    * @param targetAddress 대상 주소 또는 컨트랙트 주소
@@ -0,0 +1,148 @@
+/**
+ * QRSignService
+ * 에어갭 하드웨어 지갑(Keystone 등)의 QR 서명 요청을 팝업과 중개하는 서비스
+ * 키링이 서명을 요청하면 대기 목록에 올리고 팝업을 열어 요청 QR을 보여 준 뒤,
+ * 팝업이 스캔한 디바이스의 eth-signature QR로 대기 중인 서명을 완료합니다.
+ */
+
+import {
+  EthDataType,
+  QRSignRequest,
+  URRegistryType,
+  decodeEthSignature,
+  decodeUR,
+  encodeUR
+} from '@crelink/core';
+import { APPROVAL_TIMEOUT } from './security.service';
+import { ProviderRpcError, userRejectedError } from '../errors';
+
+// 팝업에 전달되는 QR 서명 요청
+export interface PendingQRSignRequest {
+  requestId: string;
+  dataType: EthDataType;
+  address: string;
+  path: string;
+  chainId?: number;
+  // eth-sign-request UR (팝업에서 UREncoder로 애니메이션 QR 생성)
+  ur: string;
+  createdAt: number;
+}
+
+// 서명 결과 대기 핸들러
+interface QRSignHandlers {
+  resolve: (ur: string) => void;
+  reject: (error: Error) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+export class QRSignService {
+  private pendingRequests: Map<string, PendingQRSignRequest> = new Map();
+  private requestHandlers: Map<string, QRSignHandlers> = new Map();
+  private requestListener: (() => void) | null = null;
+  
+  /**
+   * 새 서명 요청 알림 등록 (팝업 열기)
+   * @param listener 알림 함수
+   */
+  public onRequest(listener: () => void): void {
+    this.requestListener = listener;
+  }
+  
+  /**
+   * 서명 요청을 대기 목록에 올리고 디바이스의 서명 QR을 기다림
+   * QR 키링의 서명 요청 처리 함수로 사용합니다.
+   * @param request 키링의 서명 요청
+   * @returns 스캔한 eth-signature UR
+   */
+  public requestSignature(request: QRSignRequest): Promise<string> {
+    const pending: PendingQRSignRequest = {
+      requestId: request.requestId,
+      dataType: request.dataType,
+      address: request.address,
+      path: request.path,
+      chainId: request.chainId,
+      ur: encodeUR(request.ur),
+      createdAt: Date.now()
+    };
+    
+    const promise = new Promise<string>((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        this.cancelRequest(request.requestId, userRejectedError('QR 서명 요청 시간이 초과되었습니다.'));
+      }, APPROVAL_TIMEOUT);
+      
+      this.requestHandlers.set(request.requestId, { resolve, reject, timeoutId });
+    });
+    
+    this.pendingRequests.set(request.requestId, pending);
+    this.requestListener?.();
+    
+    return promise;
+  }
+  
+  /**
+   * 대기 중인 서명 요청 목록 조회
+   */
+  public getPendingRequests(): PendingQRSignRequest[] {
+    return Array.from(this.pendingRequests.values())
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+  
+  /**
+   * 스캔한 서명 QR로 요청 완료
+   * 다른 요청의 서명이면 요청을 유지한 채 오류를 반환하므로 팝업에서 다시 스캔할 수 있습니다.
+   * @param requestId 서명 요청 ID
+   * @param ur 스캔한 eth-signature UR
+   */
+  public submitSignature(requestId: string, ur: string): void {
+    if (!this.pendingRequests.has(requestId)) {
+      throw new Error('존재하지 않는 QR 서명 요청입니다.');
+    }
+    
+    const decoded = decodeUR(ur);
+    if (decoded.type !== URRegistryType.ETH_SIGNATURE) {
+      throw new Error('서명 QR이 아닙니다. 디바이스의 서명 결과 화면을 스캔하세요.');
+    }
+    
+    const signature = decodeEthSignature(decoded);
+    if (signature.requestId && signature.requestId !== requestId) {
+      throw new Error('다른 요청에 대한 서명 QR입니다. 디바이스에서 현재 요청을 다시 스캔하세요.');
+    }
+    
+    this.pendingRequests.delete(requestId);
+    this.takeHandlers(requestId)?.resolve(ur);
+  }
+  
+  /**
+   * 서명 요청 취소
+   * @param requestId 서명 요청 ID
+   * @param error 키링에 전달할 오류 (기본값: 사용자 거절)
+   */
+  public cancelRequest(requestId: string, error: ProviderRpcError = userRejectedError('사용자가 QR 서명을 취소했습니다.')): void {
+    this.pendingRequests.delete(requestId);
+    this.takeHandlers(requestId)?.reject(error);
+  }
+  
+  /**
+   * 모든 서명 요청 취소
+   * 서명 창이 닫히거나 지갑이 잠길 때 호출합니다.
+   * @param error 키링에 전달할 오류
+   */
+  public cancelAllRequests(error?: ProviderRpcError): void {
+    for (const requestId of Array.from(this.pendingRequests.keys())) {
+      this.cancelRequest(requestId, error);
+    }
+  }
+  
+  /**
+   * 서명 결과 핸들러 꺼내기 (타이머 정리 포함)
+   * @param requestId 서명 요청 ID
+   */
+  private takeHandlers(requestId: string): QRSignHandlers | undefined {
+    const handlers = this.requestHandlers.get(requestId);
+    if (handlers) {
+      clearTimeout(handlers.timeoutId);
+      this.requestHandlers.delete(requestId);
+    }
+    return handlers;
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * RpcService
+ * 읽기 전용 JSON-RPC 요청 전달 서비스
+ * DApp의 조회 요청을 선택된 네트워크의 RPC 노드로 전달합니다.
+ */
+
+import { EnhancedCatenaProvider, QuorumProvider, RpcEndpointHealth } from '@crelink/core';
+import { NetworkService, ChainInfo } from './network.service';
+import { ProviderRpcError, RPC_ERROR_CODES } from '../errors';
+
+// 승인 없이 RPC 노드로 전달할 수 있는 읽기 전용 메서드
+// 서명이나 상태 변경이 필요한 메서드는 포함하지 않음 (승인 경로에서 처리)
+export const READ_ONLY_RPC_METHODS = [
+  'eth_blockNumber',
+  'eth_call',
+  'eth_estimateGas',
+  'eth_feeHistory',
+  'eth_gasPrice',
+  'eth_maxPriorityFeePerGas',
+  'eth_getBalance',
+  'eth_getBlockByHash',
+  'eth_getBlockByNumber',
+  'eth_getBlockTransactionCountByHash',
+  'eth_getBlockTransactionCountByNumber',
+  'eth_getCode',
+  'eth_getLogs',
+  'eth_getProof',
+  'eth_getStorageAt',
+  'eth_getTransactionByBlockHashAndIndex',
+  'eth_getTransactionByBlockNumberAndIndex',
+  'eth_getTransactionByHash',
+  'eth_getTransactionCount',
+  'eth_getTransactionReceipt',
+  'eth_getUncleByBlockHashAndIndex',
+  'eth_getUncleByBlockNumberAndIndex',
+  'eth_getUncleCountByBlockHash',
+  'eth_getUncleCountByBlockNumber',
+  'eth_protocolVersion',
+  'eth_syncing',
+  'net_listening',
+  'net_peerCount',
+  'net_version',
+  'web3_clientVersion'
+];
+
+// 체인별 RPC 엔드포인트 상태
+export interface RpcEndpointHealthReport {
+  chainId: number;
+  activeEndpoint: string;
+  endpoints: RpcEndpointHealth[];
+}
+
+export class RpcService {
+  // 체인별 RPC 프로바이더 (RPC URL 목록이 바뀌면 새로 생성)
+  private providers: Map<number, { rpcUrls: string; provider: EnhancedCatenaProvider }> = new Map();
+  // 체인별 응답 합의(쿼럼) 프로바이더 (RPC URL이 2개 이상인 네트워크만)
+  private quorumProviders: Map<number, { rpcUrls: string; provider: EnhancedCatenaProvider }> = new Map();
+  
+  constructor(private networkService: NetworkService) {}
+  
+  /**
+   * 읽기 전용 메서드 여부 확인
+   * @param method RPC 메서드
+   */
+  public static isReadOnlyMethod(method: string): boolean {
+    return READ_ONLY_RPC_METHODS.includes(method);
+  }
+  
+  /**
+   * 선택된 네트워크로 읽기 전용 요청 전달
+   * 캐시 가능한 메서드는 RpcCache의 메서드별 TTL로 캐싱됩니다.
+   * @param method RPC 메서드
+   * @param params RPC 파라미터
+   * @returns RPC 노드의 응답 결과
+   */
+  public async request(method: string, params: any[] = []): Promise<any> {
+    if (!RpcService.isReadOnlyMethod(method)) {
+      throw new ProviderRpcError(RPC_ERROR_CODES.UNSUPPORTED_METHOD, `지원하지 않는 메서드: ${method}`);
+    }
+    
+    if (!Array.isArray(params)) {
+      throw new ProviderRpcError(RPC_ERROR_CODES.INVALID_PARAMS, '파라미터는 배열이어야 합니다.');
+    }
+    
+    const network = await this.networkService.getSelectedNetwork();
+    const provider = this.getProvider(network);
+    
+    try {
+      return await provider.send(method, params);
+    } catch (error) {
+      throw RpcService.toRpcError(error);
+    }
+  }
+  
+  /**
+   * 선택된 네트워크의 프로바이더 조회
+   * 구독 서비스가 같은 연결의 블록 폴링을 공유할 수 있도록 제공합니다.
+   * @returns 체인 ID와 프로바이더
+   */
+  public async getSelectedProvider(): Promise<{ chainId: number; provider: EnhancedCatenaProvider }> {
+    const network = await this.networkService.getSelectedNetwork();
+    return { chainId: network.chainId, provider: this.getProvider(network) };
+  }
+  
+  /**
+   * 체인 ID로 프로바이더 조회
+   * 선택된 네트워크가 아닌 체인에서 보낸 트랜잭션도 추적할 수 있도록 제공합니다.
+   * @param chainId 체인 ID
+   * @returns 프로바이더 또는 null (등록되지 않은 체인)
+   */
+  public async getProviderForChain(chainId: number): Promise<EnhancedCatenaProvider | null> {
+    const network = await this.networkService.getNetworkByChainId(chainId);
+    return network ? this.getProvider(network) : null;
+  }
+  
+  /**
+   * 체인 ID로 보안상 중요한 조회용 프로바이더 조회
+   * 전송 전 논스, 계약 코드, 체인 ID, 계약 호출 결과를 여러 RPC에서 교차 확인합니다.
+   * RPC URL이 하나뿐인 네트워크는 일반 프로바이더를 반환합니다.
+   * @param chainId 체인 ID
+   * @returns 프로바이더 또는 null (등록되지 않은 체인)
+   */
+  public async getVerifiedProviderForChain(chainId: number): Promise<EnhancedCatenaProvider | null> {
+    const network = await this.networkService.getNetworkByChainId(chainId);
+    if (!network) {
+      return null;
+    }
+    
+    return this.getEndpointUrls(network).length > 1 ? this.getProvider(network, true) : this.getProvider(network);
+  }
+  
+  /**
+   * 선택된 네트워크의 RPC 엔드포인트 상태 조회
+   * 네트워크 화면에서 엔드포인트별 응답 시간, 오류율, 블록 높이를 표시하는 데 사용합니다.
+   * @param refresh true이면 모든 엔드포인트 상태를 즉시 다시 확인
+   * @returns 현재 요청을 보내는 엔드포인트와 엔드포인트별 상태
+   */
+  public async getEndpointHealth(refresh: boolean = false): Promise<RpcEndpointHealthReport> {
+    const { chainId, provider } = await this.getSelectedProvider();
+    const endpoints = refresh ? await provider.checkEndpointHealth() : provider.getEndpointHealth();
+    
+    return { chainId, activeEndpoint: provider.getActiveEndpoint(), endpoints };
+  }
+  
+  /**
+   * 체인별 프로바이더 조회 또는 생성
+   * 기본 RPC URL과 추가 RPC URL을 모두 엔드포인트 풀에 등록해 장애 시 다른 엔드포인트로 전환합니다.
+   * @param network 네트워크 정보
+   * @param quorum true이면 두 엔드포인트 이상의 응답이 일치해야 하는 쿼럼 프로바이더
+   */
+  private getProvider(network: ChainInfo, quorum: boolean = false): EnhancedCatenaProvider {
+    const { chainId, rpcUrl } = network;
+    const urls = this.getEndpointUrls(network);
+    const [, ...endpoints] = urls;
+    const rpcUrls = urls.join(',');
+    const providers = quorum ? this.quorumProviders : this.providers;
+    
+    const existing = providers.get(chainId);
+    if (existing && existing.rpcUrls === rpcUrls) {
+      return existing.provider;
+    }
+    
+    // 네트워크의 RPC URL이 변경된 경우 이전 연결 종료
+    if (existing) {
+      existing.provider.disconnect().catch((error) => {
+        console.error('RPC 프로바이더 연결 종료 중 오류:', error);
+      });
+    }
+    
+    const provider = quorum
+      ? new QuorumProvider(rpcUrl, { url: rpcUrl, chainId, endpoints, quorum: { quorum: 2 } })
+      : new EnhancedCatenaProvider(rpcUrl, { url: rpcUrl, chainId, endpoints });
+    providers.set(chainId, { rpcUrls, provider });
+    return provider;
+  }
+  
+  /**
+   * 네트워크의 RPC URL 목록 (기본 RPC URL이 맨 앞)
+   * @param network 네트워크 정보
+   */
+  private getEndpointUrls(network: ChainInfo): string[] {
+    return [network.rpcUrl, ...(network.rpcUrls || []).filter((url) => url !== network.rpcUrl)];
+  }
+  
+  /**
+   * RPC 노드 오류를 DApp에 전달할 오류로 변환
+   * 노드가 반환한 JSON-RPC 오류 코드와 데이터(예: revert 데이터)를 유지합니다.
+   * @param error 프로바이더 오류
+   */
+  public static toRpcError(error: any): ProviderRpcError {
+    const rpcError = error?.info?.error || error?.error;
+    if (rpcError && typeof rpcError.code === 'number') {
+      return new ProviderRpcError(rpcError.code, rpcError.message, rpcError.data);
+    }
+    
+    return new ProviderRpcError(
+      RPC_ERROR_CODES.INTERNAL_ERROR,
+      error?.shortMessage || error?.message || 'RPC 요청 중 오류가 발생했습니다.',
+      error?.data
+    );
+  }
+}
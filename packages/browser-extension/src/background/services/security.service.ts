@@ -4,6 +4,52 @@
  * 승인 관리, 보안 설정, 인증 등 기능을 담당합니다.
  */
 
+import { inspectTypedData, parseTypedData } from '@crelink/core';
+import { StorageService } from './storage.service';
+import { ProviderRpcError, userRejectedError } from '../errors';
+import {
+  detectPhishing,
+  normalizeHostname,
+  PhishingList,
+  PhishingMatchType,
+  PhishingVerdict,
+  validatePhishingList
+} from '../../utils/phishing';
+import bundledPhishingList from '../../constants/phishingList.json';
+
+// 계정 접근 권한 (EIP-2255)
+export const ETH_ACCOUNTS_PERMISSION = 'eth_accounts';
+
+// 반환 계정 제한 제약 조건 (EIP-2255)
+export const RESTRICT_RETURNED_ACCOUNTS_CAVEAT = 'restrictReturnedAccounts';
+
+// 승인 요청 대기 시간 (5분)
+export const APPROVAL_TIMEOUT = 5 * 60 * 1000;
+
+// 사이트에 부여할 수 있는 권한 목록
+export const SUPPORTED_PERMISSIONS = [ETH_ACCOUNTS_PERMISSION];
+
+// 갱신된 피싱 목록 저장 키
+const PHISHING_LIST_KEY = 'phishingList';
+
+// 사용자가 피싱 경고를 무시하고 신뢰한 출처 저장 키
+const PHISHING_TRUSTED_ORIGINS_KEY = 'phishingTrustedOrigins';
+
+// 권한 제약 조건 인터페이스 (EIP-2255 caveat)
+export interface PermissionCaveat {
+  type: string;
+  value: any;
+}
+
+// 권한 인터페이스 (EIP-2255)
+export interface Web3Permission {
+  id: string;
+  invoker: string;
+  parentCapability: string;
+  caveats: PermissionCaveat[];
+  date: number;
+}
+
 // 연결된 사이트 정보 인터페이스
 export interface ConnectedSite {
   origin: string;
@@ -12,6 +58,10 @@ export interface ConnectedSite {
   accounts: string[];
   permissions: string[];
   lastConnected: number;
+  // 권한별 추가 제약 조건 (eth_accounts의 계정 제한은 accounts 필드로 관리)
+  caveats?: { [permission: string]: PermissionCaveat[] };
+  // 권한별 부여 시각
+  grantedAt?: { [permission: string]: number };
 }
 
 // 승인 요청 유형 열거형
@@ -35,12 +85,25 @@ export interface ApprovalRequest {
   createdAt: number;
 }
 
+// 승인 요청 결과 대기 핸들러
+interface ApprovalHandlers {
+  promise: Promise<any>;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
 export class SecurityService {
   private connectedSites: Map<string, ConnectedSite> = new Map();
   private pendingApprovals: Map<string, ApprovalRequest> = new Map();
+  private approvalHandlers: Map<string, ApprovalHandlers> = new Map();
+  private phishingList: PhishingList = validatePhishingList(bundledPhishingList);
+  private phishingTrustedOrigins: Set<string> = new Set();
+  private phishingStateLoaded: Promise<void>;
   
-  constructor() {
+  constructor(private storageService: StorageService) {
     this.loadConnectedSites();
+    this.phishingStateLoaded = this.loadPhishingState();
   }
   
   /**
@@ -48,20 +111,41 @@ export class SecurityService {
    */
   private async loadConnectedSites(): Promise<void> {
     try {
-      // 실제 구현에서는 스토리지에서 로드
-      // 임시 구현: 빈 맵으로 시작
+      const storedSites = await this.storageService.getItem<ConnectedSite[]>('connectedSites');
+      if (storedSites) {
+        this.connectedSites = new Map(storedSites.map((site) => [site.origin, site]));
+      }
     } catch (error) {
       console.error('연결된 사이트 정보 로드 중 오류:', error);
     }
   }
   
+  /**
+   * 갱신된 피싱 목록과 사용자 신뢰 출처 로드
+   * 저장된 목록은 번들된 목록보다 버전이 높을 때만 사용합니다.
+   */
+  private async loadPhishingState(): Promise<void> {
+    try {
+      const storedList = await this.storageService.getItem<PhishingList>(PHISHING_LIST_KEY);
+      if (storedList && storedList.version > this.phishingList.version) {
+        this.phishingList = validatePhishingList(storedList);
+      }
+      
+      const trustedOrigins = await this.storageService.getItem<string[]>(PHISHING_TRUSTED_ORIGINS_KEY);
+      if (trustedOrigins) {
+        this.phishingTrustedOrigins = new Set(trustedOrigins);
+      }
+    } catch (error) {
+      console.error('피싱 목록 로드 중 오류:', error);
+    }
+  }
+  
   /**
    * 연결된 사이트 정보 저장
    */
   private async saveConnectedSites(): Promise<void> {
     try {
-      // 실제 구현에서는 스토리지에 저장
-      // 임시 구현: 아무 작업도 하지 않음
+      await this.storageService.setItem('connectedSites', this.getAllConnectedSites());
     } catch (error) {
       console.error('연결된 사이트 정보 저장 중 오류:', error);
     }
@@ -110,13 +194,15 @@ export class SecurityService {
     accounts: string[],
     permissions: string[]
   ): Promise<void> {
+    const now = Date.now();
     const site: ConnectedSite = {
       origin,
       name: metadata.name,
       favicon: metadata.favicon,
       accounts,
       permissions,
-      lastConnected: Date.now()
+      lastConnected: now,
+      grantedAt: Object.fromEntries(permissions.map((permission) => [permission, now]))
     };
     
     this.connectedSites.set(origin, site);
@@ -183,17 +269,162 @@ export class SecurityService {
     return Array.from(this.connectedSites.values());
   }
   
+  /**
+   * 사이트에 부여된 권한 조회 (wallet_getPermissions)
+   * @param origin 사이트 출처
+   * @returns EIP-2255 권한 목록
+   */
+  public getPermissions(origin: string): Web3Permission[] {
+    const site = this.connectedSites.get(origin);
+    if (!site) {
+      return [];
+    }
+    
+    return site.permissions.map((permission) => {
+      const caveats = [...(site.caveats?.[permission] || [])];
+      
+      // 계정 접근 권한은 사용자가 선택한 계정으로 제한
+      if (permission === ETH_ACCOUNTS_PERMISSION) {
+        caveats.unshift({ type: RESTRICT_RETURNED_ACCOUNTS_CAVEAT, value: [...site.accounts] });
+      }
+      
+      return {
+        id: `${origin}:${permission}`,
+        invoker: origin,
+        parentCapability: permission,
+        caveats,
+        date: site.grantedAt?.[permission] || site.lastConnected
+      };
+    });
+  }
+  
+  /**
+   * 사이트에 권한 부여 (wallet_requestPermissions 승인 결과)
+   * 계정 접근 권한의 경우 기존 계정 목록을 사용자가 선택한 계정으로 대체합니다.
+   * @param origin 사이트 출처
+   * @param metadata 사이트 메타데이터
+   * @param permissions 부여할 권한 목록
+   * @param accounts 사용자가 선택한 계정 목록
+   * @returns 부여 후 권한 목록
+   */
+  public async grantPermissions(
+    origin: string,
+    metadata: { name?: string; favicon?: string },
+    permissions: string[],
+    accounts: string[]
+  ): Promise<Web3Permission[]> {
+    const unsupported = permissions.filter((permission) => !SUPPORTED_PERMISSIONS.includes(permission));
+    if (unsupported.length > 0) {
+      throw new Error(`지원하지 않는 권한: ${unsupported.join(', ')}`);
+    }
+    
+    if (permissions.includes(ETH_ACCOUNTS_PERMISSION) && accounts.length === 0) {
+      throw new Error('연결할 계정을 하나 이상 선택해야 합니다.');
+    }
+    
+    const site = this.connectedSites.get(origin);
+    if (!site) {
+      await this.addConnectedSite(origin, metadata, accounts, permissions);
+      return this.getPermissions(origin);
+    }
+    
+    const now = Date.now();
+    site.permissions = [...new Set([...site.permissions, ...permissions])];
+    site.grantedAt = { ...site.grantedAt };
+    for (const permission of permissions) {
+      site.grantedAt[permission] = now;
+    }
+    
+    if (permissions.includes(ETH_ACCOUNTS_PERMISSION)) {
+      site.accounts = [...accounts];
+    }
+    
+    if (metadata.name) site.name = metadata.name;
+    if (metadata.favicon) site.favicon = metadata.favicon;
+    site.lastConnected = now;
+    
+    this.connectedSites.set(origin, site);
+    await this.saveConnectedSites();
+    
+    return this.getPermissions(origin);
+  }
+  
+  /**
+   * 사이트 권한 철회 (wallet_revokePermissions)
+   * 남은 권한이 없으면 사이트 연결도 삭제합니다.
+   * @param origin 사이트 출처
+   * @param permissions 철회할 권한 목록
+   */
+  public async revokePermissions(origin: string, permissions: string[]): Promise<void> {
+    const site = this.connectedSites.get(origin);
+    if (!site) {
+      return;
+    }
+    
+    site.permissions = site.permissions.filter((permission) => !permissions.includes(permission));
+    
+    for (const permission of permissions) {
+      if (site.caveats) delete site.caveats[permission];
+      if (site.grantedAt) delete site.grantedAt[permission];
+    }
+    
+    if (permissions.includes(ETH_ACCOUNTS_PERMISSION)) {
+      site.accounts = [];
+    }
+    
+    if (site.permissions.length === 0) {
+      await this.removeConnectedSite(origin);
+      return;
+    }
+    
+    this.connectedSites.set(origin, site);
+    await this.saveConnectedSites();
+  }
+  
+  /**
+   * 사이트에 노출 가능한 계정 조회 (eth_accounts)
+   * 사용자가 선택한 계정 중 지갑에 아직 존재하는 계정만 반환합니다.
+   * @param origin 사이트 출처
+   * @param walletAccounts 현재 지갑의 계정 목록
+   * @returns 노출 가능한 계정 목록
+   */
+  public getPermittedAccounts(origin: string, walletAccounts: string[]): string[] {
+    if (!this.hasSitePermission(origin, ETH_ACCOUNTS_PERMISSION)) {
+      return [];
+    }
+    
+    const available = new Set(walletAccounts.map((account) => account.toLowerCase()));
+    return this.getSiteAccounts(origin).filter((account) => available.has(account.toLowerCase()));
+  }
+  
+  /**
+   * 모든 사이트에서 계정 제거
+   * 계정이 삭제되었을 때 호출합니다.
+   * @param address 제거할 계정 주소
+   */
+  public async removeAccountFromSites(address: string): Promise<void> {
+    const target = address.toLowerCase();
+    
+    for (const site of this.connectedSites.values()) {
+      site.accounts = site.accounts.filter((account) => account.toLowerCase() !== target);
+    }
+    
+    await this.saveConnectedSites();
+  }
+  
   /**
    * 승인 요청 생성
    * @param type 승인 유형
    * @param origin 요청 출처
    * @param data 요청 데이터
+   * @param timeout 승인 대기 시간 (밀리초)
    * @returns 승인 요청 ID
    */
   public createApprovalRequest(
     type: ApprovalType,
     origin: string,
-    data: any
+    data: any,
+    timeout: number = APPROVAL_TIMEOUT
   ): string {
     const id = Math.random().toString(36).substring(2, 15);
     
@@ -212,9 +443,39 @@ export class SecurityService {
     
     this.pendingApprovals.set(id, request);
     
+    // 사용자 결정을 기다리는 Promise 등록
+    let resolve!: (result: any) => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<any>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // 대기하는 호출자가 없을 때 처리되지 않은 거부가 발생하지 않도록 함
+    promise.catch(() => {});
+    
+    const timeoutId = setTimeout(() => {
+      this.cancelApprovalRequest(id, userRejectedError('승인 요청 시간이 초과되었습니다.'));
+    }, timeout);
+    
+    this.approvalHandlers.set(id, { promise, resolve, reject, timeoutId });
+    
     return id;
   }
   
+  /**
+   * 승인 요청 결과 대기
+   * 승인되면 팝업에서 전달한 결과로 resolve되고, 거절·취소·시간 초과 시 4001 오류로 reject됩니다.
+   * @param id 승인 요청 ID
+   * @returns 승인 결과 데이터
+   */
+  public waitForApproval(id: string): Promise<any> {
+    const handlers = this.approvalHandlers.get(id);
+    if (!handlers) {
+      return Promise.reject(new Error('존재하지 않는 승인 요청입니다.'));
+    }
+    return handlers.promise;
+  }
+  
   /**
    * 승인 요청 조회
    * @param id 승인 요청 ID
@@ -230,30 +491,72 @@ export class SecurityService {
    * @param approved 승인 여부
    * @param result 승인 결과 데이터
    */
-  public completeApprovalRequest(id: string, approved: boolean, result?: any): void {
+  public async completeApprovalRequest(id: string, approved: boolean, result?: any): Promise<void> {
     const request = this.pendingApprovals.get(id);
     if (!request) {
       throw new Error('존재하지 않는 승인 요청입니다.');
     }
     
+    if (!approved) {
+      this.cancelApprovalRequest(id, userRejectedError());
+      return;
+    }
+    
     // 승인 요청 삭제
     this.pendingApprovals.delete(id);
+    const handlers = this.takeApprovalHandlers(id);
     
-    // 승인된 경우, 사이트 연결 정보 업데이트
-    if (approved && request.type === ApprovalType.CONNECT) {
-      this.updateConnectedSite(request.origin, {
-        accounts: result.accounts,
-        permissions: result.permissions
-      });
+    try {
+      // 승인된 경우, 사용자가 선택한 계정으로 권한 부여
+      if (request.type === ApprovalType.CONNECT) {
+        await this.grantPermissions(
+          request.origin,
+          { name: request.originName, favicon: request.originFavicon },
+          result?.permissions || request.data?.permissions || [ETH_ACCOUNTS_PERMISSION],
+          result?.accounts || []
+        );
+      }
+      
+      handlers?.resolve(result);
+    } catch (error) {
+      handlers?.reject(error as Error);
+      throw error;
     }
   }
   
   /**
    * 승인 요청 취소
+   * 대기 중인 호출자에게는 오류로 전달됩니다.
    * @param id 승인 요청 ID
+   * @param error 호출자에게 전달할 오류 (기본값: 사용자 거절)
    */
-  public cancelApprovalRequest(id: string): void {
+  public cancelApprovalRequest(id: string, error: ProviderRpcError = userRejectedError()): void {
     this.pendingApprovals.delete(id);
+    this.takeApprovalHandlers(id)?.reject(error);
+  }
+  
+  /**
+   * 모든 승인 요청 취소
+   * 승인 팝업이 닫혔을 때 호출합니다.
+   * @param error 호출자에게 전달할 오류 (기본값: 사용자 거절)
+   */
+  public cancelAllApprovalRequests(error: ProviderRpcError = userRejectedError()): void {
+    for (const id of Array.from(this.pendingApprovals.keys())) {
+      this.cancelApprovalRequest(id, error);
+    }
+  }
+  
+  /**
+   * 승인 요청 핸들러 꺼내기 (타이머 정리 포함)
+   * @param id 승인 요청 ID
+   */
+  private takeApprovalHandlers(id: string): ApprovalHandlers | undefined {
+    const handlers = this.approvalHandlers.get(id);
+    if (handlers) {
+      clearTimeout(handlers.timeoutId);
+      this.approvalHandlers.delete(id);
+    }
+    return handlers;
   }
   
   /**
@@ -261,54 +564,86 @@ export class SecurityService {
    * @returns 대기 중인 승인 요청 목록
    */
   public getPendingApprovals(): ApprovalRequest[] {
-    return Array.from(this.pendingApprovals.values());
+    // 먼저 들어온 요청부터 처리하도록 생성 순으로 정렬
+    return Array.from(this.pendingApprovals.values())
+      .sort((a, b) => a.createdAt - b.createdAt);
   }
   
   /**
    * 피싱 사이트 확인
+   * 번들된 피싱 목록으로 로컬에서 판별하며, 사용자가 신뢰한 출처는 피싱으로 보지 않습니다.
    * @param origin 확인할 사이트 출처
-   * @returns 피싱 사이트 여부
+   * @returns 피싱 판정 결과
    */
-  public async checkPhishingSite(origin: string): Promise<boolean> {
-    // 실제 구현에서는 피싱 사이트 DB 확인 또는 API 호출
-    // 임시 구현: 항상 안전한 것으로 처리
-    return false;
+  public async checkPhishingSite(origin: string): Promise<PhishingVerdict> {
+    await this.phishingStateLoaded;
+    
+    if (this.phishingTrustedOrigins.has(origin)) {
+      return { result: false, type: PhishingMatchType.TRUSTED, hostname: normalizeHostname(origin) };
+    }
+    
+    return detectPhishing(origin, this.phishingList);
   }
   
   /**
-   * 사이트 메타데이터 가져오기
+   * 피싱 경고를 무시하고 사이트 신뢰
    * @param origin 사이트 출처
-   * @returns 사이트 메타데이터
    */
-  public async getSiteMetadata(origin: string): Promise<{ name?: string; favicon?: string }> {
-    // 실제 구현에서는 팝업이나 다른 방법으로 가져오기
-    // 임시 구현: 빈 객체 반환
-    return {};
+  public async trustPhishingSite(origin: string): Promise<void> {
+    await this.phishingStateLoaded;
+    
+    this.phishingTrustedOrigins.add(origin);
+    await this.storageService.setItem(PHISHING_TRUSTED_ORIGINS_KEY, Array.from(this.phishingTrustedOrigins));
   }
   
   /**
-   * 위험한 트랜잭션 감지
-   * @param txData 트랜잭션 데이터
-   * @returns 위험 요소 목록 (비어 있으면 안전)
+   * 사이트 신뢰 취소
+   * @param origin 사이트 출처
    */
-  public detectRiskyTransaction(txData: any): string[] {
-    const risks: string[] = [];
+  public async untrustPhishingSite(origin: string): Promise<void> {
+    await this.phishingStateLoaded;
     
-    // 실제 구현에서는 다양한 위험 감지 로직 필요
-    // 임시 구현: 간단한 감지 로직
-    
-    // 대량 전송 검사
-    if (txData.value && parseInt(txData.value, 16) > 1e18) { // 1 ETH 이상
-      risks.push('large_transfer');
+    if (this.phishingTrustedOrigins.delete(origin)) {
+      await this.storageService.setItem(PHISHING_TRUSTED_ORIGINS_KEY, Array.from(this.phishingTrustedOrigins));
     }
+  }
+  
+  /**
+   * 피싱 경고를 무시하고 신뢰한 출처 목록 조회
+   */
+  public async getTrustedPhishingSites(): Promise<string[]> {
+    await this.phishingStateLoaded;
+    return Array.from(this.phishingTrustedOrigins);
+  }
+  
+  /**
+   * 피싱 목록 갱신
+   * 현재 목록보다 버전이 높은 경우에만 적용합니다.
+   * @param list 새 피싱 목록
+   * @returns 적용 여부
+   */
+  public async updatePhishingList(list: PhishingList): Promise<boolean> {
+    await this.phishingStateLoaded;
     
-    // 알 수 없는 컨트랙트 호출 검사
-    if (txData.data && txData.data !== '0x') {
-      // 화이트리스트된 컨트랙트가 아니면 위험
-      risks.push('unknown_contract');
+    const validated = validatePhishingList(list);
+    if (validated.version <= this.phishingList.version) {
+      return false;
     }
     
-    return risks;
+    this.phishingList = validated;
+    await this.storageService.setItem(PHISHING_LIST_KEY, validated);
+    return true;
+  }
+  
+  /**
+   * 사이트 메타데이터 가져오기
+   * @param origin 사이트 출처
+   * @returns 사이트 메타데이터
+   */
+  public async getSiteMetadata(origin: string): Promise<{ name?: string; favicon?: string }> {
+    // 실제 구현에서는 팝업이나 다른 방법으로 가져오기
+    // 임시 구현: 빈 객체 반환
+    return {};
   }
   
   /**
@@ -330,15 +665,10 @@ export class SecurityService {
         risks.push('permission_request');
       }
     } else if (type === 'typedData') {
-      // EIP-712 타입화된 데이터 분석
+      // EIP-712 타입화된 데이터 분석 (Permit, Permit2, 마켓플레이스 주문 등)
       try {
-        // 특정 위험한 타입 감지
-        const typedData = signData;
-        const primaryType = typedData.primaryType;
-        
-        if (primaryType === 'Order' || primaryType === 'PermitTransaction') {
-          risks.push('permit_signature');
-        }
+        const inspection = inspectTypedData(parseTypedData(signData));
+        risks.push(...inspection.risks.map((risk) => risk.type));
       } catch (error) {
         // 파싱 오류는 위험할 수 있음
         risks.push('invalid_data');
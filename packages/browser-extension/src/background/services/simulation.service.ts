@@ -0,0 +1,543 @@
+/**
+ * SimulationService
+ * 트랜잭션 시뮬레이션 및 디코딩 서비스
+ * 사용자가 승인하기 전에 calldata를 사람이 읽을 수 있는 형태로 디코딩하고,
+ * eth_call로 실행 결과와 잔액 변화를 추정하여 위험 보고서를 생성합니다.
+ */
+
+import { AbiCoder, Interface, MaxUint256, TransactionDescription, WeiPerEther, getAddress, isAddress } from 'ethers';
+import { ERC20_ABI, ERC721_ABI, ERC1155_ABI, WETH_ABI, INTERFACE_IDS } from '@crelink/core';
+import { RpcService } from './rpc.service';
+import { KeyringService } from './keyring.service';
+
+// 디코딩된 호출의 토큰 표준
+export type TokenStandard = 'erc20' | 'erc721' | 'erc1155' | 'weth';
+
+// 위험 심각도
+export type RiskSeverity = 'low' | 'medium' | 'high';
+
+// 위험 유형
+export enum TransactionRiskType {
+  UNLIMITED_APPROVAL = 'unlimited_approval',
+  APPROVAL_FOR_ALL = 'approval_for_all',
+  TRANSFER_TO_CONTRACT = 'transfer_to_contract',
+  FRESH_ADDRESS = 'fresh_address',
+  LARGE_TRANSFER = 'large_transfer',
+  INSUFFICIENT_BALANCE = 'insufficient_balance',
+  SIMULATION_FAILED = 'simulation_failed',
+  UNKNOWN_CONTRACT = 'unknown_contract',
+  CONTRACT_DEPLOYMENT = 'contract_deployment'
+}
+
+// 디코딩된 컨트랙트 호출
+export interface DecodedCall {
+  standard: TokenStandard;
+  method: string;
+  signature: string;
+  selector: string;
+  args: Record<string, any>;
+}
+
+// 발신자 기준 잔액 변화 (amount는 부호가 있는 최소 단위 10진수 문자열)
+export interface BalanceChange {
+  standard: 'native' | TokenStandard;
+  token?: string;
+  tokenId?: string;
+  symbol?: string;
+  decimals?: number;
+  amount: string;
+}
+
+// 위험 요소
+export interface TransactionRisk {
+  type: TransactionRiskType;
+  severity: RiskSeverity;
+  message: string;
+}
+
+// 트랜잭션 시뮬레이션 보고서
+export interface TransactionSimulation {
+  decoded: DecodedCall | null;
+  balanceChanges: BalanceChange[];
+  // 알 수 없는 컨트랙트 호출이라 calldata로 잔액 변화를 추정할 수 없으면 false
+  balanceChangesAvailable: boolean;
+  simulation: {
+    success: boolean;
+    error?: string;
+  };
+  risks: TransactionRisk[];
+  riskLevel: 'none' | RiskSeverity;
+}
+
+// 이 값을 초과하는 승인은 무제한 승인으로 간주 (type(uint256).max / 2)
+const UNLIMITED_APPROVAL_THRESHOLD = MaxUint256 / BigInt(2);
+
+// 이 값을 초과하는 네이티브 전송은 대량 전송으로 간주 (1 CTA)
+const LARGE_TRANSFER_THRESHOLD = WeiPerEther;
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+
+// Error(string) revert 셀렉터
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+
+// 디코딩에 사용할 인터페이스 (WETH는 ERC-20과 겹치지 않는 deposit/withdraw만 사용)
+const DECODERS: Array<{ standard: TokenStandard; iface: Interface }> = [
+  { standard: 'erc20', iface: new Interface(ERC20_ABI) },
+  { standard: 'erc721', iface: new Interface(ERC721_ABI) },
+  { standard: 'erc1155', iface: new Interface(ERC1155_ABI) },
+  { standard: 'weth', iface: new Interface(WETH_ABI.filter((fragment) => !ERC20_ABI.includes(fragment))) }
+];
+
+const ERC20_INTERFACE = DECODERS[0].iface;
+const ERC721_INTERFACE = DECODERS[1].iface;
+
+const SEVERITY_ORDER: RiskSeverity[] = ['low', 'medium', 'high'];
+
+export class SimulationService {
+  constructor(
+    private rpcService: RpcService,
+    private keyringService: KeyringService
+  ) {}
+  
+  /**
+   * 트랜잭션 시뮬레이션 및 위험 분석
+   * @param txParams eth_sendTransaction 파라미터 (from이 없으면 선택된 계정 기준으로 시뮬레이션)
+   * @returns 시뮬레이션 보고서
+   */
+  public async simulateTransaction(txParams: any): Promise<TransactionSimulation> {
+    const from: string | null = txParams.from || await this.keyringService.getSelectedAccount();
+    if (!from) {
+      throw new Error('선택된 계정이 없습니다.');
+    }
+    
+    const to: string | undefined = txParams.to || undefined;
+    const data: string = txParams.data || txParams.input || '0x';
+    const value = BigInt(txParams.value || 0);
+    
+    const risks: TransactionRisk[] = [];
+    
+    if (!to) {
+      risks.push({
+        type: TransactionRiskType.CONTRACT_DEPLOYMENT,
+        severity: 'medium',
+        message: '새 컨트랙트를 배포하는 트랜잭션입니다.'
+      });
+    }
+    
+    const [decoded, simulation] = await Promise.all([
+      to && data !== '0x' ? this.decodeCall(to, data, value) : Promise.resolve(null),
+      this.runCall({ from, to, data, value: txParams.value })
+    ]);
+    
+    if (!simulation.success) {
+      risks.push({
+        type: TransactionRiskType.SIMULATION_FAILED,
+        severity: 'high',
+        message: `트랜잭션 실행이 실패할 것으로 예상됩니다: ${simulation.error}`
+      });
+    }
+    
+    const balanceChangesAvailable = !(to && data !== '0x' && !decoded);
+    if (!balanceChangesAvailable) {
+      risks.push({
+        type: TransactionRiskType.UNKNOWN_CONTRACT,
+        severity: 'low',
+        message: '알 수 없는 컨트랙트 함수를 호출합니다. 신뢰할 수 있는 사이트인지 확인하세요.'
+      });
+    }
+    
+    if (value > LARGE_TRANSFER_THRESHOLD) {
+      risks.push({
+        type: TransactionRiskType.LARGE_TRANSFER,
+        severity: 'medium',
+        message: '많은 금액을 전송합니다.'
+      });
+    }
+    
+    const balanceChanges = this.getBalanceChanges(from, value, decoded, to);
+    
+    await Promise.all([
+      this.checkBalances(from, balanceChanges, risks),
+      this.checkRecipient(decoded, to, value, data, risks)
+    ]);
+    
+    if (decoded) {
+      this.checkApprovals(decoded, risks);
+    }
+    
+    return {
+      decoded,
+      balanceChanges,
+      balanceChangesAvailable,
+      simulation,
+      risks,
+      riskLevel: this.getRiskLevel(risks)
+    };
+  }
+  
+  /**
+   * calldata 디코딩
+   * approve, transferFrom, setApprovalForAll처럼 셀렉터가 여러 표준에서 같은 경우
+   * EIP-165 supportsInterface로 컨트랙트의 표준을 확인합니다.
+   * @param to 호출 대상 컨트랙트
+   * @param data calldata
+   * @param value 전송 금액
+   */
+  public async decodeCall(to: string, data: string, value: bigint = ZERO): Promise<DecodedCall | null> {
+    const matches: Array<{ standard: TokenStandard; description: TransactionDescription }> = [];
+    
+    for (const { standard, iface } of DECODERS) {
+      try {
+        const description = iface.parseTransaction({ data, value });
+        if (description) {
+          matches.push({ standard, description });
+        }
+      } catch {
+        // 셀렉터는 같지만 인자 디코딩에 실패한 경우 무시
+      }
+    }
+    
+    if (matches.length === 0) {
+      return null;
+    }
+    
+    let match = matches[0];
+    if (matches.length > 1) {
+      const standard = await this.detectTokenStandard(to);
+      match = matches.find((candidate) => candidate.standard === standard) || match;
+    }
+    
+    const { description } = match;
+    const args: Record<string, any> = {};
+    description.fragment.inputs.forEach((input, index) => {
+      args[input.name || String(index)] = this.formatArg(description.args[index]);
+    });
+    
+    return {
+      standard: match.standard,
+      method: description.name,
+      signature: description.signature,
+      selector: description.selector,
+      args
+    };
+  }
+  
+  /**
+   * eth_call로 트랜잭션 실행 시뮬레이션
+   * @param call 호출 파라미터
+   */
+  private async runCall(call: { from: string; to?: string; data: string; value?: string }): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.rpcService.request('eth_call', [call, 'latest']);
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, error: this.getRevertReason(error) };
+    }
+  }
+  
+  /**
+   * 디코딩된 호출로부터 발신자의 잔액 변화 계산
+   * @param from 발신자
+   * @param value 네이티브 전송 금액
+   * @param decoded 디코딩된 호출
+   * @param to 호출 대상 (토큰 컨트랙트)
+   */
+  private getBalanceChanges(from: string, value: bigint, decoded: DecodedCall | null, to?: string): BalanceChange[] {
+    const changes: BalanceChange[] = [];
+    
+    if (value > ZERO) {
+      changes.push({ standard: 'native', amount: (-value).toString() });
+    }
+    
+    if (!decoded || !to) {
+      return changes;
+    }
+    
+    const token = getAddress(to);
+    const { args } = decoded;
+    const sign = (holder: string, receiver: string): bigint => {
+      if (this.isSameAddress(holder, from)) return -ONE;
+      if (this.isSameAddress(receiver, from)) return ONE;
+      return ZERO;
+    };
+    
+    switch (`${decoded.standard}:${decoded.method}`) {
+      case 'erc20:transfer':
+        changes.push({ standard: 'erc20', token, amount: (-BigInt(args.value)).toString() });
+        break;
+      
+      case 'erc20:transferFrom': {
+        const direction = sign(args.from, args.to);
+        if (direction !== ZERO) {
+          changes.push({ standard: 'erc20', token, amount: (direction * BigInt(args.value)).toString() });
+        }
+        break;
+      }
+      
+      case 'erc721:transferFrom':
+      case 'erc721:safeTransferFrom': {
+        const direction = sign(args.from, args.to);
+        if (direction !== ZERO) {
+          changes.push({ standard: 'erc721', token, tokenId: args.tokenId, amount: direction.toString() });
+        }
+        break;
+      }
+      
+      case 'erc1155:safeTransferFrom': {
+        const direction = sign(args.from, args.to);
+        if (direction !== ZERO) {
+          changes.push({ standard: 'erc1155', token, tokenId: args.id, amount: (direction * BigInt(args.amount)).toString() });
+        }
+        break;
+      }
+      
+      case 'erc1155:safeBatchTransferFrom': {
+        const direction = sign(args.from, args.to);
+        if (direction !== ZERO) {
+          (args.ids as string[]).forEach((id, index) => {
+            changes.push({ standard: 'erc1155', token, tokenId: id, amount: (direction * BigInt(args.amounts[index])).toString() });
+          });
+        }
+        break;
+      }
+      
+      case 'weth:deposit':
+        changes.push({ standard: 'weth', token, amount: value.toString() });
+        break;
+      
+      case 'weth:withdraw':
+        changes.push({ standard: 'weth', token, amount: (-BigInt(args.wad)).toString() });
+        changes.push({ standard: 'native', amount: BigInt(args.wad).toString() });
+        break;
+    }
+    
+    return changes;
+  }
+  
+  /**
+   * 현재 잔액으로 나가는 금액을 감당할 수 있는지 확인
+   * ERC-20 잔액 변화에는 토큰 심볼과 소수점 정보도 채웁니다.
+   * @param from 발신자
+   * @param changes 잔액 변화
+   * @param risks 위험 요소 목록
+   */
+  private async checkBalances(from: string, changes: BalanceChange[], risks: TransactionRisk[]): Promise<void> {
+    const checks = changes.map(async (change) => {
+      const amount = BigInt(change.amount);
+      
+      if (change.standard === 'native') {
+        if (amount >= ZERO) return null;
+        const balance = await this.rpcService.request('eth_getBalance', [from, 'latest']);
+        return BigInt(balance) < -amount;
+      }
+      
+      if (change.standard !== 'erc20' && change.standard !== 'weth') {
+        return null;
+      }
+      
+      const [symbol, decimals, balance] = await Promise.all([
+        this.callToken(change.token!, 'symbol', []),
+        this.callToken(change.token!, 'decimals', []),
+        amount < ZERO ? this.callToken(change.token!, 'balanceOf', [from]) : Promise.resolve(null)
+      ]);
+      
+      if (symbol !== null) change.symbol = symbol;
+      if (decimals !== null) change.decimals = Number(decimals);
+      
+      return balance !== null && balance < -amount;
+    });
+    
+    const results = await Promise.all(checks.map((check) => check.catch(() => null)));
+    if (results.some((insufficient) => insufficient === true)) {
+      risks.push({
+        type: TransactionRiskType.INSUFFICIENT_BALANCE,
+        severity: 'high',
+        message: '잔액이 부족하여 트랜잭션이 실패할 수 있습니다.'
+      });
+    }
+  }
+  
+  /**
+   * 전송 수신자 확인
+   * 토큰을 컨트랙트로 보내거나, 사용 이력이 없는 주소로 자산을 보내는 경우를 감지합니다.
+   * @param decoded 디코딩된 호출
+   * @param to 호출 대상
+   * @param value 네이티브 전송 금액
+   * @param data calldata
+   * @param risks 위험 요소 목록
+   */
+  private async checkRecipient(
+    decoded: DecodedCall | null,
+    to: string | undefined,
+    value: bigint,
+    data: string,
+    risks: TransactionRisk[]
+  ): Promise<void> {
+    let recipient: string | null = null;
+    
+    if (decoded && decoded.method.toLowerCase().includes('transfer')) {
+      recipient = decoded.args.to;
+    } else if (to && value > ZERO && data === '0x') {
+      recipient = to;
+    }
+    
+    if (!recipient || !isAddress(recipient)) {
+      return;
+    }
+    
+    try {
+      const [code, nonce] = await Promise.all([
+        this.rpcService.request('eth_getCode', [recipient, 'latest']),
+        this.rpcService.request('eth_getTransactionCount', [recipient, 'latest'])
+      ]);
+      
+      if (code && code !== '0x') {
+        // 네이티브 전송 대상이 컨트랙트인 것은 일반적이므로 토큰 전송만 경고
+        if (decoded) {
+          const toTokenContract = this.isSameAddress(recipient, to!);
+          risks.push({
+            type: TransactionRiskType.TRANSFER_TO_CONTRACT,
+            severity: toTokenContract ? 'high' : 'medium',
+            message: toTokenContract
+              ? '토큰을 토큰 컨트랙트 자신에게 전송합니다. 전송한 토큰을 되찾을 수 없습니다.'
+              : '토큰을 컨트랙트 주소로 전송합니다. 컨트랙트가 토큰을 처리할 수 있는지 확인하세요.'
+          });
+        }
+        return;
+      }
+      
+      if (BigInt(nonce) === ZERO) {
+        risks.push({
+          type: TransactionRiskType.FRESH_ADDRESS,
+          severity: 'medium',
+          message: '트랜잭션 이력이 없는 새 주소로 자산을 전송합니다. 주소를 다시 확인하세요.'
+        });
+      }
+    } catch (error) {
+      console.error('수신자 확인 중 오류:', error);
+    }
+  }
+  
+  /**
+   * 승인 관련 위험 확인
+   * @param decoded 디코딩된 호출
+   * @param risks 위험 요소 목록
+   */
+  private checkApprovals(decoded: DecodedCall, risks: TransactionRisk[]): void {
+    if (decoded.standard === 'erc20' && decoded.method === 'approve') {
+      if (BigInt(decoded.args.value) > UNLIMITED_APPROVAL_THRESHOLD) {
+        risks.push({
+          type: TransactionRiskType.UNLIMITED_APPROVAL,
+          severity: 'high',
+          message: `${decoded.args.spender}에게 토큰 전체에 대한 무제한 사용 권한을 부여합니다.`
+        });
+      }
+    }
+    
+    if (decoded.method === 'setApprovalForAll') {
+      const approved = decoded.args._approved ?? decoded.args.approved;
+      if (approved === true) {
+        risks.push({
+          type: TransactionRiskType.APPROVAL_FOR_ALL,
+          severity: 'high',
+          message: `${decoded.args.operator}에게 이 컬렉션의 모든 NFT에 대한 전송 권한을 부여합니다.`
+        });
+      }
+    }
+  }
+  
+  /**
+   * EIP-165로 토큰 표준 확인
+   * @param address 컨트랙트 주소
+   */
+  private async detectTokenStandard(address: string): Promise<TokenStandard> {
+    const supports = async (interfaceId: string): Promise<boolean> => {
+      try {
+        const data = ERC721_INTERFACE.encodeFunctionData('supportsInterface', [interfaceId]);
+        const result = await this.rpcService.request('eth_call', [{ to: address, data }, 'latest']);
+        return ERC721_INTERFACE.decodeFunctionResult('supportsInterface', result)[0] === true;
+      } catch {
+        return false;
+      }
+    };
+    
+    const [isERC1155, isERC721] = await Promise.all([
+      supports(INTERFACE_IDS.ERC1155),
+      supports(INTERFACE_IDS.ERC721)
+    ]);
+    
+    if (isERC1155) return 'erc1155';
+    if (isERC721) return 'erc721';
+    return 'erc20';
+  }
+  
+  /**
+   * ERC-20 읽기 함수 호출
+   * @param token 토큰 주소
+   * @param method 함수 이름
+   * @param args 함수 인자
+   * @returns 결과 (실패 시 null)
+   */
+  private async callToken(token: string, method: string, args: any[]): Promise<any> {
+    try {
+      const data = ERC20_INTERFACE.encodeFunctionData(method, args);
+      const result = await this.rpcService.request('eth_call', [{ to: token, data }, 'latest']);
+      return ERC20_INTERFACE.decodeFunctionResult(method, result)[0];
+    } catch {
+      return null;
+    }
+  }
+  
+  /**
+   * 실패한 eth_call에서 revert 사유 추출
+   * @param error RPC 오류
+   */
+  private getRevertReason(error: any): string {
+    const data = typeof error?.data === 'string' ? error.data : error?.data?.data;
+    
+    if (typeof data === 'string' && data.startsWith(ERROR_STRING_SELECTOR)) {
+      try {
+        return AbiCoder.defaultAbiCoder().decode(['string'], '0x' + data.slice(10))[0];
+      } catch {
+        // 디코딩할 수 없으면 오류 메시지 사용
+      }
+    }
+    
+    return error?.message || '알 수 없는 오류';
+  }
+  
+  /**
+   * 디코딩된 인자를 메시지 전송이 가능한 값으로 변환
+   * @param value 인자 값
+   */
+  private formatArg(value: any): any {
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+    
+    if (Array.isArray(value)) {
+      return Array.from(value, (item) => this.formatArg(item));
+    }
+    
+    return value;
+  }
+  
+  /**
+   * 가장 높은 위험 심각도 계산
+   * @param risks 위험 요소 목록
+   */
+  private getRiskLevel(risks: TransactionRisk[]): 'none' | RiskSeverity {
+    return risks.reduce<'none' | RiskSeverity>((level, risk) => {
+      if (level === 'none') return risk.severity;
+      return SEVERITY_ORDER.indexOf(risk.severity) > SEVERITY_ORDER.indexOf(level) ? risk.severity : level;
+    }, 'none');
+  }
+  
+  /**
+   * 주소 비교 (대소문자 무시)
+   */
+  private isSameAddress(a?: string, b?: string): boolean {
+    return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+  }
+}
@@ -4,9 +4,15 @@
  * 사용자 설정, 지갑 데이터, 캐시 등을 안전하게 저장하고 관리합니다.
  */
 
+import { LocalStoreInterface, VaultKdfParams, calibrateVaultKdf, encryptVault, unlockVault } from '@crelink/core';
+
+// 이 기기에서 보정한 볼트 KDF 파라미터 저장 키
+const VAULT_KDF_KEY = 'vaultKdf';
+
 export class StorageService {
   private storageCache: { [key: string]: any } = {};
   private initialized: boolean = false;
+  private vaultKdf: VaultKdfParams | null = null;
   
   constructor() {}
   
@@ -130,6 +136,7 @@ export class StorageService {
   public async clear(): Promise<void> {
     // 캐시 초기화
     this.storageCache = {};
+    this.vaultKdf = null;
     
     // 스토리지 초기화
     try {
@@ -169,47 +176,69 @@ export class StorageService {
   
   /**
    * 암호화된 아이템 저장
-   * 민감한 정보를 암호화하여 저장합니다.
+   * 민감한 정보를 볼트 형식(AES-GCM + 메모리 하드 KDF)으로 암호화하여 저장합니다.
    * @param key 스토리지 키
    * @param value 저장할 값
    * @param password 암호화 비밀번호
    */
   public async setEncryptedItem<T>(key: string, value: T, password: string): Promise<void> {
-    // 실제 구현에서는 @crelink/core의 암호화 모듈 사용
-    // 임시 구현:
-    const encryptedValue = `encrypted_${JSON.stringify(value)}_${password}`;
-    await this.setItem(`encrypted_${key}`, encryptedValue);
+    const envelope = await encryptVault(JSON.stringify(value), password, await this.getVaultKdf());
+    await this.setItem(`encrypted_${key}`, envelope);
   }
   
   /**
    * 암호화된 아이템 조회
    * 암호화된 정보를 복호화하여 반환합니다.
+   * 이전 형식이거나 KDF 비용이 낮은 데이터는 복호화한 값을 검증한 뒤에만 새 볼트로 다시 저장합니다.
    * @param key 스토리지 키
    * @param password 복호화 비밀번호
+   * @param validate 복호화된 값의 형식 검사 (실패하면 잘못된 비밀번호로 처리)
    * @returns 복호화된 값 또는 null
    */
-  public async getEncryptedItem<T>(key: string, password: string): Promise<T | null> {
-    // 실제 구현에서는 @crelink/core의 암호화 모듈 사용
-    // 임시 구현:
+  public async getEncryptedItem<T>(
+    key: string,
+    password: string,
+    validate?: (value: unknown) => value is T
+  ): Promise<T | null> {
     const encryptedValue = await this.getItem<string>(`encrypted_${key}`);
     
     if (!encryptedValue) {
       return null;
     }
     
-    // 패스워드 검증 (실제 구현에서는 더 복잡한 검증 필요)
-    if (!encryptedValue.includes(password)) {
+    let result;
+    try {
+      result = await unlockVault(encryptedValue, password, await this.getVaultKdf());
+    } catch {
       throw new Error('잘못된 비밀번호입니다.');
     }
     
-    // 더미 복호화 (실제 구현에서는 실제 복호화 로직 필요)
-    const jsonStr = encryptedValue.split('_')[1];
-    
+    // 이전 형식은 인증 태그가 없어 틀린 비밀번호로도 복호화될 수 있으므로 변환 저장 전에 내용을 확인
+    let value: unknown;
     try {
-      return JSON.parse(jsonStr) as T;
+      value = JSON.parse(result.data);
     } catch {
-      return null;
+      throw new Error('잘못된 비밀번호입니다.');
     }
+    
+    if (validate && !validate(value)) {
+      throw new Error('잘못된 비밀번호입니다.');
+    }
+    
+    if (result.upgradedEnvelope) {
+      await this.setItem(`encrypted_${key}`, result.upgradedEnvelope);
+    }
+    
+    return value as T;
+  }
+  
+  /**
+   * 암호화된 아이템 존재 여부 확인
+   * 비밀번호 없이 저장 여부만 확인합니다.
+   * @param key 스토리지 키
+   */
+  public async hasEncryptedItem(key: string): Promise<boolean> {
+    return !!(await this.getItem<string>(`encrypted_${key}`));
   }
   
   /**
@@ -270,4 +299,39 @@ export class StorageService {
       throw error;
     }
   }
-}
\ No newline at end of file
+  
+  /**
+   * 코어 모듈에서 사용할 로컬 스토어 인터페이스로 변환
+   * 트랜잭션 모니터 등 코어 서비스가 확장 프로그램 스토리지에 상태를 저장할 때 사용합니다.
+   * @returns 로컬 스토어 인터페이스
+   */
+  public toLocalStore(): LocalStoreInterface {
+    return {
+      setItem: (key, value) => this.setItem(key, value),
+      getItem: async <T>(key: string, defaultValue?: T): Promise<T> => {
+        const value = await this.getItem<T>(key);
+        return value !== null ? value : defaultValue as T;
+      },
+      removeItem: (key) => this.removeItem(key),
+      clear: () => this.clear(),
+      hasItem: async (key) => (await this.getItem(key)) !== null
+    };
+  }
+  
+  /**
+   * 볼트 KDF 파라미터 조회
+   * 처음 사용할 때 이 기기에서 벤치마크로 보정하고 결과를 저장합니다.
+   */
+  private async getVaultKdf(): Promise<VaultKdfParams> {
+    if (!this.vaultKdf) {
+      this.vaultKdf = await this.getItem<VaultKdfParams>(VAULT_KDF_KEY);
+    }
+    
+    if (!this.vaultKdf) {
+      this.vaultKdf = await calibrateVaultKdf();
+      await this.setItem(VAULT_KDF_KEY, this.vaultKdf);
+    }
+    
+    return this.vaultKdf;
+  }
+}
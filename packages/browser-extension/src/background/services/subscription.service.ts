@@ -0,0 +1,479 @@
+/**
+ * SubscriptionService
+ * DApp 구독 및 필터 관리 서비스
+ * eth_subscribe(newHeads, logs)와 eth_newFilter 계열 필터를 탭별로 관리하고,
+ * 프로바이더의 블록 폴링으로 감지한 새 블록을 구독 중인 탭에 전달합니다.
+ */
+
+import { EnhancedCatenaProvider, ProviderEventType } from '@crelink/core';
+import { RpcService } from './rpc.service';
+import { invalidParamsError } from '../errors';
+
+// 구독 서비스에서 처리하는 메서드
+export const SUBSCRIPTION_METHODS = [
+  'eth_subscribe',
+  'eth_unsubscribe',
+  'eth_newFilter',
+  'eth_newBlockFilter',
+  'eth_getFilterChanges',
+  'eth_uninstallFilter'
+];
+
+// 일정 시간 동안 조회되지 않은 필터는 제거 (geth와 동일한 5분)
+export const FILTER_TIMEOUT = 5 * 60 * 1000;
+
+// 필터별로 보관하는 최대 변경 항목 수
+const MAX_FILTER_CHANGES = 10000;
+
+// 구독 유형
+export type SubscriptionType = 'newHeads' | 'logs';
+
+// 필터 유형
+export type FilterType = 'block' | 'log';
+
+// 로그 조회 조건
+export interface LogCriteria {
+  address?: string | string[];
+  topics?: Array<string | string[] | null>;
+  fromBlock?: string;
+  toBlock?: string;
+}
+
+// 구독 정보
+interface Subscription {
+  id: string;
+  type: SubscriptionType;
+  chainId: number;
+  criteria?: LogCriteria;
+}
+
+// 필터 정보
+interface Filter {
+  id: string;
+  type: FilterType;
+  chainId: number;
+  criteria?: LogCriteria;
+  changes: any[];
+  lastPolled: number;
+}
+
+// 탭별 구독 상태
+interface TabState {
+  subscriptions: Map<string, Subscription>;
+  filters: Map<string, Filter>;
+}
+
+export class SubscriptionService {
+  // 탭 ID별 구독 및 필터
+  private tabs: Map<number, TabState> = new Map();
+  
+  // 체인별 블록 이벤트 리스너 (구독이나 필터가 있는 체인만 유지)
+  private blockListeners: Map<number, { provider: EnhancedCatenaProvider; listener: (block: any) => void }> = new Map();
+  
+  constructor(private rpcService: RpcService) {}
+  
+  /**
+   * 구독 관련 메서드 여부 확인
+   * @param method RPC 메서드
+   */
+  public static isSubscriptionMethod(method: string): boolean {
+    return SUBSCRIPTION_METHODS.includes(method);
+  }
+  
+  /**
+   * 구독 생성 (eth_subscribe)
+   * @param tabId 요청한 탭 ID
+   * @param type 구독 유형
+   * @param criteria 로그 구독 조건
+   * @returns 구독 ID
+   */
+  public async subscribe(tabId: number, type: string, criteria?: any): Promise<string> {
+    if (type !== 'newHeads' && type !== 'logs') {
+      throw invalidParamsError(`지원하지 않는 구독 유형: ${type}`);
+    }
+    
+    const subscription: Subscription = {
+      id: this.createId(),
+      type,
+      chainId: 0
+    };
+    
+    if (type === 'logs') {
+      // 구독은 새 블록부터 전달하므로 블록 범위는 사용하지 않음
+      const { address, topics } = this.parseLogCriteria(criteria ?? {});
+      subscription.criteria = { address, topics };
+    }
+    
+    subscription.chainId = await this.watchSelectedChain();
+    this.getTabState(tabId).subscriptions.set(subscription.id, subscription);
+    
+    return subscription.id;
+  }
+  
+  /**
+   * 구독 해제 (eth_unsubscribe)
+   * @param tabId 요청한 탭 ID
+   * @param subscriptionId 구독 ID
+   * @returns 해제 여부
+   */
+  public unsubscribe(tabId: number, subscriptionId: string): boolean {
+    const removed = this.tabs.get(tabId)?.subscriptions.delete(subscriptionId) ?? false;
+    this.releaseUnusedListeners();
+    return removed;
+  }
+  
+  /**
+   * 로그 필터 생성 (eth_newFilter)
+   * @param tabId 요청한 탭 ID
+   * @param criteria 로그 조회 조건
+   * @returns 필터 ID
+   */
+  public async newFilter(tabId: number, criteria: any): Promise<string> {
+    return this.installFilter(tabId, 'log', this.parseLogCriteria(criteria));
+  }
+  
+  /**
+   * 블록 필터 생성 (eth_newBlockFilter)
+   * @param tabId 요청한 탭 ID
+   * @returns 필터 ID
+   */
+  public async newBlockFilter(tabId: number): Promise<string> {
+    return this.installFilter(tabId, 'block');
+  }
+  
+  /**
+   * 마지막 조회 이후의 필터 변경 사항 조회 (eth_getFilterChanges)
+   * 블록 필터는 블록 해시 목록을, 로그 필터는 로그 목록을 반환합니다.
+   * @param tabId 요청한 탭 ID
+   * @param filterId 필터 ID
+   * @returns 변경 사항 목록
+   */
+  public getFilterChanges(tabId: number, filterId: string): any[] {
+    const filter = this.tabs.get(tabId)?.filters.get(filterId);
+    if (!filter) {
+      throw invalidParamsError('필터를 찾을 수 없습니다.');
+    }
+    
+    const changes = filter.changes;
+    filter.changes = [];
+    filter.lastPolled = Date.now();
+    
+    return changes;
+  }
+  
+  /**
+   * 필터 제거 (eth_uninstallFilter)
+   * @param tabId 요청한 탭 ID
+   * @param filterId 필터 ID
+   * @returns 제거 여부
+   */
+  public uninstallFilter(tabId: number, filterId: string): boolean {
+    const removed = this.tabs.get(tabId)?.filters.delete(filterId) ?? false;
+    this.releaseUnusedListeners();
+    return removed;
+  }
+  
+  /**
+   * 탭의 모든 구독 및 필터 제거
+   * 탭이 닫히면 호출됩니다.
+   * @param tabId 탭 ID
+   */
+  public removeTab(tabId: number): void {
+    if (this.tabs.delete(tabId)) {
+      this.releaseUnusedListeners();
+    }
+  }
+  
+  /**
+   * 모든 구독 및 필터 제거
+   * 네트워크가 변경되면 이전 체인의 구독은 더 이상 유효하지 않으므로 호출됩니다.
+   */
+  public clearAll(): void {
+    this.tabs.clear();
+    this.releaseUnusedListeners();
+  }
+  
+  /**
+   * 필터 등록
+   * @param tabId 요청한 탭 ID
+   * @param type 필터 유형
+   * @param criteria 로그 조회 조건
+   */
+  private async installFilter(tabId: number, type: FilterType, criteria?: LogCriteria): Promise<string> {
+    const chainId = await this.watchSelectedChain();
+    const filter: Filter = {
+      id: this.createId(),
+      type,
+      chainId,
+      criteria,
+      changes: [],
+      lastPolled: Date.now()
+    };
+    
+    this.getTabState(tabId).filters.set(filter.id, filter);
+    return filter.id;
+  }
+  
+  /**
+   * 선택된 체인의 블록 이벤트 구독 시작
+   * 체인별로 하나의 리스너만 등록하고, 프로바이더가 교체되면 리스너를 옮깁니다.
+   * @returns 선택된 체인 ID
+   */
+  private async watchSelectedChain(): Promise<number> {
+    const { chainId, provider } = await this.rpcService.getSelectedProvider();
+    
+    const existing = this.blockListeners.get(chainId);
+    if (existing && existing.provider === provider) {
+      return chainId;
+    }
+    
+    // RPC URL 변경 등으로 프로바이더가 교체된 경우 이전 리스너 제거
+    if (existing) {
+      existing.provider.off(ProviderEventType.BLOCK, existing.listener);
+    }
+    
+    const listener = (block: any) => {
+      this.handleBlock(chainId, provider, block).catch((error) => {
+        console.error('구독 블록 처리 중 오류:', error);
+      });
+    };
+    
+    provider.on(ProviderEventType.BLOCK, listener);
+    this.blockListeners.set(chainId, { provider, listener });
+    
+    try {
+      // 연결되면 프로바이더의 블록 폴링이 시작됨
+      await provider.connect();
+    } catch (error) {
+      provider.off(ProviderEventType.BLOCK, listener);
+      this.blockListeners.delete(chainId);
+      throw RpcService.toRpcError(error);
+    }
+    
+    return chainId;
+  }
+  
+  /**
+   * 구독이나 필터가 남아 있지 않은 체인의 블록 리스너 제거
+   */
+  private releaseUnusedListeners(): void {
+    const activeChains = new Set<number>();
+    for (const state of this.tabs.values()) {
+      state.subscriptions.forEach((subscription) => activeChains.add(subscription.chainId));
+      state.filters.forEach((filter) => activeChains.add(filter.chainId));
+    }
+    
+    for (const [chainId, { provider, listener }] of this.blockListeners) {
+      if (!activeChains.has(chainId)) {
+        provider.off(ProviderEventType.BLOCK, listener);
+        this.blockListeners.delete(chainId);
+      }
+    }
+  }
+  
+  /**
+   * 새 블록 처리
+   * 구독에는 이벤트를 전송하고, 필터에는 변경 사항을 누적합니다.
+   * @param chainId 체인 ID
+   * @param provider 블록을 감지한 프로바이더
+   * @param block 새 블록
+   */
+  private async handleBlock(chainId: number, provider: EnhancedCatenaProvider, block: any): Promise<void> {
+    if (!block || typeof block.number !== 'number') {
+      return;
+    }
+    
+    const blockTag = '0x' + block.number.toString(16);
+    const now = Date.now();
+    
+    // 같은 조건의 로그 조회는 블록당 한 번만 수행
+    const logRequests: Map<string, Promise<any[]>> = new Map();
+    const getLogs = (criteria: LogCriteria): Promise<any[]> => {
+      const query = { address: criteria.address, topics: criteria.topics, fromBlock: blockTag, toBlock: blockTag };
+      const key = JSON.stringify(query);
+      if (!logRequests.has(key)) {
+        logRequests.set(key, provider.send('eth_getLogs', [query]));
+      }
+      return logRequests.get(key)!;
+    };
+    
+    let header: Promise<any> | null = null;
+    const getHeader = (): Promise<any> => {
+      if (!header) {
+        header = provider.send('eth_getBlockByNumber', [blockTag, false]);
+      }
+      return header;
+    };
+    
+    for (const [tabId, state] of this.tabs) {
+      for (const subscription of state.subscriptions.values()) {
+        if (subscription.chainId !== chainId) continue;
+        
+        if (subscription.type === 'newHeads') {
+          this.notifyTab(tabId, subscription.id, await getHeader());
+        } else {
+          const logs = await getLogs(subscription.criteria!);
+          for (const log of logs) {
+            this.notifyTab(tabId, subscription.id, log);
+          }
+        }
+      }
+      
+      for (const [filterId, filter] of state.filters) {
+        if (filter.chainId !== chainId) continue;
+        
+        // 조회되지 않고 방치된 필터 제거
+        if (now - filter.lastPolled > FILTER_TIMEOUT) {
+          state.filters.delete(filterId);
+          continue;
+        }
+        
+        if (filter.type === 'block') {
+          this.appendChanges(filter, [block.hash]);
+        } else if (this.isInFilterRange(block.number, filter.criteria!)) {
+          this.appendChanges(filter, await getLogs(filter.criteria!));
+        }
+      }
+    }
+    
+    this.releaseUnusedListeners();
+  }
+  
+  /**
+   * 필터 변경 사항 누적
+   * @param filter 필터
+   * @param items 추가할 항목
+   */
+  private appendChanges(filter: Filter, items: any[]): void {
+    filter.changes.push(...items);
+    
+    // 오래 조회되지 않은 필터가 메모리를 과도하게 사용하지 않도록 오래된 항목부터 제거
+    if (filter.changes.length > MAX_FILTER_CHANGES) {
+      filter.changes.splice(0, filter.changes.length - MAX_FILTER_CHANGES);
+    }
+  }
+  
+  /**
+   * 블록 번호가 필터의 블록 범위에 포함되는지 확인
+   * @param blockNumber 블록 번호
+   * @param criteria 로그 조회 조건
+   */
+  private isInFilterRange(blockNumber: number, criteria: LogCriteria): boolean {
+    const fromBlock = this.parseBlockTag(criteria.fromBlock);
+    const toBlock = this.parseBlockTag(criteria.toBlock);
+    
+    if (fromBlock !== null && blockNumber < fromBlock) {
+      return false;
+    }
+    
+    if (toBlock !== null && blockNumber > toBlock) {
+      return false;
+    }
+    
+    return true;
+  }
+  
+  /**
+   * 블록 태그를 블록 번호로 변환
+   * latest, pending 등 범위를 제한하지 않는 태그는 null을 반환합니다.
+   * @param blockTag 블록 태그
+   */
+  private parseBlockTag(blockTag?: string): number | null {
+    if (blockTag === 'earliest') {
+      return 0;
+    }
+    
+    if (typeof blockTag === 'string' && /^0x[0-9a-fA-F]+$/.test(blockTag)) {
+      return parseInt(blockTag, 16);
+    }
+    
+    return null;
+  }
+  
+  /**
+   * 로그 조회 조건 검증
+   * @param criteria DApp이 전달한 조건
+   * @returns 검증된 조건
+   */
+  private parseLogCriteria(criteria: any): LogCriteria {
+    if (!criteria || typeof criteria !== 'object' || Array.isArray(criteria)) {
+      throw invalidParamsError('필터 조건은 객체여야 합니다.');
+    }
+    
+    if (criteria.blockHash !== undefined) {
+      throw invalidParamsError('blockHash 조건은 필터에서 지원하지 않습니다.');
+    }
+    
+    const isAddress = (value: any) => typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value);
+    const isTopic = (value: any) => typeof value === 'string' && /^0x[0-9a-fA-F]{64}$/.test(value);
+    const isBlockTag = (value: any) => value === undefined
+      || ['latest', 'earliest', 'pending', 'safe', 'finalized'].includes(value)
+      || (typeof value === 'string' && /^0x[0-9a-fA-F]+$/.test(value));
+    
+    const { address, topics, fromBlock, toBlock } = criteria;
+    
+    if (address !== undefined && !isAddress(address) && !(Array.isArray(address) && address.every(isAddress))) {
+      throw invalidParamsError('유효하지 않은 address 조건입니다.');
+    }
+    
+    if (topics !== undefined) {
+      const validTopics = Array.isArray(topics) && topics.length <= 4 && topics.every((topic: any) =>
+        topic === null || isTopic(topic) || (Array.isArray(topic) && topic.every(isTopic))
+      );
+      if (!validTopics) {
+        throw invalidParamsError('유효하지 않은 topics 조건입니다.');
+      }
+    }
+    
+    if (!isBlockTag(fromBlock) || !isBlockTag(toBlock)) {
+      throw invalidParamsError('유효하지 않은 블록 범위입니다.');
+    }
+    
+    return { address, topics, fromBlock, toBlock };
+  }
+  
+  /**
+   * 탭 상태 조회 또는 생성
+   * @param tabId 탭 ID
+   */
+  private getTabState(tabId: number): TabState {
+    let state = this.tabs.get(tabId);
+    if (!state) {
+      state = { subscriptions: new Map(), filters: new Map() };
+      this.tabs.set(tabId, state);
+    }
+    return state;
+  }
+  
+  /**
+   * 구독 및 필터 ID 생성 (16바이트 16진수 문자열)
+   */
+  private createId(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    return '0x' + Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+  
+  /**
+   * 구독 이벤트를 탭으로 전송
+   * 콘텐츠 스크립트가 EIP-1193 message 이벤트로 페이지에 전달합니다.
+   * @param tabId 탭 ID
+   * @param subscriptionId 구독 ID
+   * @param result 구독 결과
+   */
+  private notifyTab(tabId: number, subscriptionId: string, result: any): void {
+    chrome.tabs.sendMessage(tabId, {
+      target: 'crelink-contentscript',
+      type: 'message',
+      data: {
+        type: 'eth_subscription',
+        data: {
+          subscription: subscriptionId,
+          result
+        }
+      }
+    }, () => {
+      // 콘텐츠 스크립트가 없는 탭은 무시
+      void chrome.runtime.lastError;
+    });
+  }
+}
@@ -4,14 +4,29 @@
  * 트랜잭션 생성, 서명, 전송, 추적 기능을 제공합니다.
  */
 
+import {
+  GasRecommendation,
+  NonceGap,
+  NonceManager,
+  TransactionMonitor,
+  TransactionMonitorEventType,
+  TransactionMonitorListener,
+  getGasInfo,
+  getRecommendedGasSettings
+} from '@crelink/core';
+import { formatUnits } from 'ethers';
 import { KeyringService } from './keyring.service';
 import { NetworkService } from './network.service';
+import { RpcService } from './rpc.service';
+import { StorageService } from './storage.service';
 
 // 트랜잭션 상태 열거형
 export enum TransactionStatus {
   PENDING = 'pending',
   CONFIRMED = 'confirmed',
-  FAILED = 'failed'
+  FAILED = 'failed',
+  DROPPED = 'dropped',
+  REPLACED = 'replaced'
 }
 
 // 트랜잭션 정보 인터페이스
@@ -30,65 +45,133 @@ export interface TransactionInfo {
   chainId: number;
   blockNumber?: number;
   blockHash?: string;
+  replacedBy?: string;
   timestamp: number;
 }
 
+// 가스 추정 정보 인터페이스 (가스 가격은 Gwei 단위)
+export interface GasEstimate {
+  gasLimit: string;
+  slow: string;
+  medium: string;
+  fast: string;
+}
+
+// 전송한 트랜잭션 추적 목록 저장 키
+const MONITORED_TRANSACTIONS_KEY = 'monitoredTransactions';
+
 export class TransactionService {
-  // 현재 진행 중인 트랜잭션 목록
-  private pendingTransactions: Map<string, TransactionInfo> = new Map();
+  // 전송한 트랜잭션 상태 추적 (백그라운드 재시작 후에도 스토리지에서 이어서 추적)
+  private transactionMonitor: TransactionMonitor;
+  
+  // 계정별 논스 발급 (연속 전송 시 같은 논스 재사용 방지)
+  private nonceManager: NonceManager;
   
   constructor(
     private keyringService: KeyringService,
-    private networkService: NetworkService
-  ) {}
+    private networkService: NetworkService,
+    private rpcService: RpcService,
+    private storageService: StorageService
+  ) {
+    this.transactionMonitor = new TransactionMonitor(
+      (chainId) => this.rpcService.getProviderForChain(chainId),
+      this.storageService.toLocalStore(),
+      {
+        storageKey: MONITORED_TRANSACTIONS_KEY,
+        sender: (transaction) => this.signAndSendTransaction(transaction)
+      }
+    );
+    
+    // 논스는 여러 RPC의 응답이 일치할 때만 사용 (RPC가 하나뿐이면 그대로 사용)
+    this.nonceManager = new NonceManager(
+      (chainId) => this.rpcService.getVerifiedProviderForChain(chainId),
+      {
+        monitor: this.transactionMonitor,
+        sender: (transaction) => this.signAndSendTransaction(transaction)
+      }
+    );
+  }
+  
+  /**
+   * 트랜잭션 추적 시작
+   * 이전에 전송하고 아직 확정되지 않은 트랜잭션의 상태 확인을 이어갑니다.
+   */
+  public async init(): Promise<void> {
+    await this.transactionMonitor.start();
+  }
+  
+  /**
+   * 트랜잭션 상태 변경 이벤트 구독
+   * @param event 이벤트 타입
+   * @param listener 리스너 함수
+   */
+  public onTransactionEvent(event: TransactionMonitorEventType, listener: TransactionMonitorListener): void {
+    this.transactionMonitor.on(event, listener);
+  }
   
   /**
    * 트랜잭션 서명 및 전송
+   * from이 지정되면 해당 계정으로 서명하고, 없으면 선택된 계정으로 서명합니다.
    * @param txParams 트랜잭션 파라미터
    * @returns 트랜잭션 해시
    */
   public async signAndSendTransaction(txParams: any): Promise<string> {
     try {
-      // 선택된 계정 및 네트워크 정보 가져오기
-      const selectedAccount = await this.keyringService.getSelectedAccount();
+      // 서명 계정 및 네트워크 정보 가져오기
+      const account = txParams.from || await this.keyringService.getSelectedAccount();
       const selectedNetwork = await this.networkService.getSelectedNetwork();
       
-      if (!selectedAccount) {
+      if (!account) {
         throw new Error('선택된 계정이 없습니다.');
       }
       
       // 트랜잭션 파라미터 검증 및 보완
-      const processedTxParams = await this.processTransactionParams(txParams, selectedAccount, selectedNetwork.chainId);
+      const processedTxParams = await this.processTransactionParams(txParams, account, selectedNetwork.chainId);
+      // 호출자가 chainId를 지정한 경우(논스 공백 채우기, 모니터의 대체 트랜잭션 등) 선택된 네트워크가 아닌 서명 체인 기준으로 논스 관리
+      const chainId: number = processedTxParams.chainId;
+      const nonce = Number(processedTxParams.nonce);
+      const nonceReserved = txParams.nonce === undefined || txParams.nonce === null;
       
-      // 트랜잭션 서명
-      const signedTx = await this.keyringService.signTransaction(processedTxParams);
+      let txHash: string;
+      try {
+        // 트랜잭션 서명
+        const signedTx = await this.keyringService.signTransaction(processedTxParams);
+        
+        // 서명한 체인의 노드로 전송하고 노드가 돌려준 해시를 추적
+        const provider = await this.rpcService.getProviderForChain(chainId);
+        if (!provider) {
+          throw new Error(`등록되지 않은 네트워크입니다: ${chainId}`);
+        }
+        txHash = await provider.sendTransaction(signedTx);
+      } catch (error) {
+        // 서명/전송에 실패한 논스는 다음 트랜잭션에서 다시 사용
+        if (nonceReserved) {
+          this.nonceManager.releaseNonce(chainId, account, nonce);
+        }
+        throw error;
+      }
       
-      // 트랜잭션 전송
-      // 실제 구현에서는 ethers.js 또는 web3.js와 같은 라이브러리 사용
-      // 임시 구현:
-      const txHash = `0x${Math.random().toString(16).substr(2, 64)}`;
+      this.nonceManager.markNonceSubmitted(chainId, account, nonce);
       
       // 트랜잭션 정보 저장
       const txInfo: TransactionInfo = {
         hash: txHash,
-        from: selectedAccount,
+        from: account,
         to: processedTxParams.to,
         value: processedTxParams.value || '0x0',
         data: processedTxParams.data,
-        nonce: processedTxParams.nonce || 0,
+        nonce,
         gasLimit: processedTxParams.gasLimit || '0x0',
         gasPrice: processedTxParams.gasPrice,
         maxFeePerGas: processedTxParams.maxFeePerGas,
         maxPriorityFeePerGas: processedTxParams.maxPriorityFeePerGas,
         status: TransactionStatus.PENDING,
-        chainId: selectedNetwork.chainId,
+        chainId,
         timestamp: Date.now()
       };
       
-      this.pendingTransactions.set(txHash, txInfo);
-      
       // 트랜잭션 상태 추적 시작
-      this.trackTransaction(txHash);
+      await this.trackTransaction(txInfo);
       
       console.log(`트랜잭션이 전송되었습니다: ${txHash}`);
       return txHash;
@@ -98,15 +181,59 @@ export class TransactionService {
     }
   }
   
+  /**
+   * 트랜잭션 서명 (전송하지 않음)
+   * 논스와 가스 설정은 호출자가 지정한 값을 그대로 사용합니다.
+   * @param txParams 트랜잭션 파라미터 (from이 없으면 선택된 계정으로 서명)
+   * @returns 서명된 트랜잭션
+   */
+  public async signTransaction(txParams: any): Promise<string> {
+    const from = txParams.from || await this.keyringService.getSelectedAccount();
+    if (!from) {
+      throw new Error('선택된 계정이 없습니다.');
+    }
+    
+    const selectedNetwork = await this.networkService.getSelectedNetwork();
+    return this.keyringService.signTransaction({ chainId: selectedNetwork.chainId, ...txParams, from });
+  }
+  
+  /**
+   * 가스 추정 정보 조회
+   * 가스 한도와 느림/보통/빠름 단계별 가스 가격을 계산합니다.
+   * @param txParams 트랜잭션 파라미터
+   * @param chainId 체인 ID
+   * @returns 가스 추정 정보
+   */
+  public async getGasEstimate(txParams: any, chainId: number): Promise<GasEstimate> {
+    const provider = await this.rpcService.getProviderForChain(chainId);
+    if (!provider) {
+      throw new Error(`등록되지 않은 네트워크입니다: ${chainId}`);
+    }
+    
+    const gasInfo = await getGasInfo(provider);
+    const toGwei = (level: GasRecommendation) => {
+      const gasSettings = getRecommendedGasSettings(gasInfo, level);
+      return formatUnits(gasSettings.maxFeePerGas || gasSettings.gasPrice || '0', 'gwei');
+    };
+    
+    return {
+      gasLimit: BigInt(txParams.gasLimit || await this.estimateGas(txParams)).toString(),
+      slow: toGwei(GasRecommendation.LOW),
+      medium: toGwei(GasRecommendation.STANDARD),
+      fast: toGwei(GasRecommendation.FAST)
+    };
+  }
+  
   /**
    * 개인 메시지 서명
    * @param message 서명할 메시지
+   * @param address 서명 계정 주소 (없으면 선택된 계정)
    * @returns 서명 결과
    */
-  public async signPersonalMessage(message: string): Promise<string> {
+  public async signPersonalMessage(message: string, address?: string): Promise<string> {
     try {
       // 메시지 서명
-      const signature = await this.keyringService.signMessage(message);
+      const signature = await this.keyringService.signMessage(message, address);
       return signature;
     } catch (error) {
       console.error('메시지 서명 중 오류:', error);
@@ -117,12 +244,13 @@ export class TransactionService {
   /**
    * 타입화된 데이터 서명
    * @param typedData 타입화된 데이터
+   * @param address 서명 계정 주소 (없으면 선택된 계정)
    * @returns 서명 결과
    */
-  public async signTypedData(typedData: any): Promise<string> {
+  public async signTypedData(typedData: any, address?: string): Promise<string> {
     try {
       // 타입화된 데이터 서명
-      const signature = await this.keyringService.signTypedData(typedData);
+      const signature = await this.keyringService.signTypedData(typedData, address);
       return signature;
     } catch (error) {
       console.error('타입화된 데이터 서명 중 오류:', error);
@@ -135,42 +263,37 @@ export class TransactionService {
    * 누락된 파라미터 추가 및 값 검증
    * @param txParams 원본 트랜잭션 파라미터
    * @param from 발신 주소
-   * @param chainId 체인 ID
-   * @returns 처리된 트랜잭션 파라미터
+   * @param defaultChainId txParams에 chainId가 없을 때 사용할 체인 ID
+   * @returns 처리된 트랜잭션 파라미터 (chainId는 숫자)
    */
-  private async processTransactionParams(txParams: any, from: string, chainId: number): Promise<any> {
-    // from 필드가 없거나 선택된 계정과 다른 경우 설정
+  private async processTransactionParams(txParams: any, from: string, defaultChainId: number): Promise<any> {
+    // 서명 계정으로 from 필드 고정, chainId 필드가 없는 경우 설정
+    const chainId = txParams.chainId ? Number(txParams.chainId) : defaultChainId;
     const processedParams = {
       ...txParams,
-      from
+      from,
+      chainId
     };
     
-    // chainId 필드가 없는 경우 설정
-    if (!processedParams.chainId) {
-      processedParams.chainId = chainId;
-    }
-    
     // 가스 추정 및 최적화 (실제 구현에서는 네트워크 요청 필요)
     if (!processedParams.gasLimit) {
       processedParams.gasLimit = await this.estimateGas(processedParams);
     }
     
-    // EIP-1559 트랜잭션 지원
-    const supportsEIP1559 = true; // 실제 구현에서는 네트워크 기능 확인 필요
-    
-    if (supportsEIP1559) {
-      if (!processedParams.maxFeePerGas && !processedParams.gasPrice) {
-        const gasFees = await this.getFeeData();
+    // 가스 가격 설정 (EIP-1559 지원 네트워크는 최대 수수료와 우선순위 수수료, 그 외에는 가스 가격)
+    if (!processedParams.maxFeePerGas && !processedParams.gasPrice) {
+      const gasFees = await this.getGasFees(chainId);
+      if (gasFees.maxFeePerGas) {
         processedParams.maxFeePerGas = gasFees.maxFeePerGas;
         processedParams.maxPriorityFeePerGas = gasFees.maxPriorityFeePerGas;
+      } else {
+        processedParams.gasPrice = gasFees.gasPrice;
       }
-    } else if (!processedParams.gasPrice) {
-      processedParams.gasPrice = await this.getGasPrice();
     }
     
-    // nonce 설정 (실제 구현에서는 네트워크 요청 필요)
-    if (!processedParams.nonce) {
-      processedParams.nonce = await this.getNonce(from);
+    // nonce 설정 (진행 중인 트랜잭션을 고려해 논스 관리자에서 발급)
+    if (processedParams.nonce === undefined || processedParams.nonce === null) {
+      processedParams.nonce = await this.nonceManager.reserveNonce(chainId, from);
     }
     
     return processedParams;
@@ -188,69 +311,58 @@ export class TransactionService {
   }
   
   /**
-   * 가스 가격 조회
-   * @returns 현재 가스 가격
-   */
-  private async getGasPrice(): Promise<string> {
-    // 실제 구현에서는 네트워크 요청으로 가스 가격 조회
-    // 임시 구현:
-    return '0x3b9aca00'; // 1 Gwei
-  }
-  
-  /**
-   * EIP-1559 가스 데이터 조회
-   * @returns 최대 기본 수수료 및 우선 순위 수수료
+   * 권장 가스 수수료 조회
+   * 가스 오라클이 체인별로 캐싱한 수수료 이력으로 표준 단계 수수료를 계산합니다.
+   * @param chainId 체인 ID
+   * @returns 16진수 가스 가격 또는 최대 수수료와 우선순위 수수료
    */
-  private async getFeeData(): Promise<{ maxFeePerGas: string; maxPriorityFeePerGas: string }> {
-    // 실제 구현에서는 네트워크 요청으로 가스 데이터 조회
-    // 임시 구현:
+  private async getGasFees(chainId: number): Promise<{ gasPrice?: string; maxFeePerGas?: string; maxPriorityFeePerGas?: string }> {
+    const provider = await this.rpcService.getProviderForChain(chainId);
+    if (!provider) {
+      throw new Error(`등록되지 않은 네트워크입니다: ${chainId}`);
+    }
+    
+    const gasInfo = await getGasInfo(provider);
+    const gasSettings = getRecommendedGasSettings(gasInfo, GasRecommendation.STANDARD);
+    const toHex = (value?: string) => (value ? `0x${BigInt(value).toString(16)}` : undefined);
+    
     return {
-      maxFeePerGas: '0x3b9aca00', // 1 Gwei
-      maxPriorityFeePerGas: '0x3b9aca00' // 1 Gwei
+      gasPrice: toHex(gasSettings.gasPrice),
+      maxFeePerGas: toHex(gasSettings.maxFeePerGas),
+      maxPriorityFeePerGas: toHex(gasSettings.maxPriorityFeePerGas)
     };
   }
   
-  /**
-   * 논스 조회
-   * @param address 계정 주소
-   * @returns 다음 논스 값
-   */
-  private async getNonce(address: string): Promise<number> {
-    // 실제 구현에서는 네트워크 요청으로 논스 조회
-    // 임시 구현:
-    return 0;
-  }
-  
   /**
    * 트랜잭션 상태 추적
-   * @param txHash 트랜잭션 해시
+   * 트랜잭션 모니터가 영수증과 계정 논스를 주기적으로 확인해 확인/실패/대체/삭제 상태를 판정합니다.
+   * @param txInfo 전송한 트랜잭션 정보
    */
-  private async trackTransaction(txHash: string): Promise<void> {
-    // 실제 구현에서는 주기적으로 트랜잭션 상태 확인
-    // 임시 구현: 5초 후 트랜잭션 확인된 것으로 처리
-    
-    setTimeout(() => {
-      if (this.pendingTransactions.has(txHash)) {
-        const txInfo = this.pendingTransactions.get(txHash)!;
-        txInfo.status = TransactionStatus.CONFIRMED;
-        txInfo.blockNumber = 1000000; // 임의의 블록 번호
-        txInfo.blockHash = `0x${Math.random().toString(16).substr(2, 64)}`;
-        
-        this.pendingTransactions.set(txHash, txInfo);
-        console.log(`트랜잭션이 확인되었습니다: ${txHash}`);
-        
-        // 트랜잭션 확인 이벤트 발생 (실제 구현에서는 이벤트 시스템 필요)
-      }
-    }, 5000);
+  private async trackTransaction(txInfo: TransactionInfo): Promise<void> {
+    await this.transactionMonitor.addTransaction({
+      hash: txInfo.hash,
+      from: txInfo.from,
+      to: txInfo.to,
+      value: BigInt(txInfo.value || 0).toString(),
+      data: txInfo.data,
+      nonce: txInfo.nonce,
+      gasLimit: BigInt(txInfo.gasLimit || 0).toString(),
+      gasPrice: txInfo.gasPrice ? BigInt(txInfo.gasPrice).toString() : undefined,
+      maxFeePerGas: txInfo.maxFeePerGas ? BigInt(txInfo.maxFeePerGas).toString() : undefined,
+      maxPriorityFeePerGas: txInfo.maxPriorityFeePerGas ? BigInt(txInfo.maxPriorityFeePerGas).toString() : undefined,
+      chainId: txInfo.chainId,
+      // 가속/취소 시 수수료 필드를 고르는 기준 (2: EIP-1559, 0: 레거시)
+      type: txInfo.maxFeePerGas ? 2 : 0
+    });
   }
   
   /**
    * 진행 중인 트랜잭션 조회
    * @returns 진행 중인 트랜잭션 목록
    */
-  public getPendingTransactions(): TransactionInfo[] {
-    return Array.from(this.pendingTransactions.values())
-      .filter(tx => tx.status === TransactionStatus.PENDING);
+  public async getPendingTransactions(): Promise<TransactionInfo[]> {
+    const transactions = await this.transactionMonitor.getPendingTransactions();
+    return transactions.map(transaction => this.toTransactionInfo(transaction));
   }
   
   /**
@@ -258,50 +370,27 @@ export class TransactionService {
    * @param txHash 트랜잭션 해시
    * @returns 트랜잭션 정보 또는 undefined
    */
-  public getTransaction(txHash: string): TransactionInfo | undefined {
-    return this.pendingTransactions.get(txHash);
+  public async getTransaction(txHash: string): Promise<TransactionInfo | undefined> {
+    const transaction = await this.transactionMonitor.getTransaction(txHash);
+    return transaction ? this.toTransactionInfo(transaction) : undefined;
   }
   
   /**
    * 트랜잭션 취소
+   * 원 트랜잭션과 같은 논스로 수수료를 10% 올린 0 금액 자기 전송을 보냅니다.
+   * 원 트랜잭션은 취소 트랜잭션이 블록에 포함되면 대체됨 상태가 됩니다.
    * @param txHash 취소할 트랜잭션 해시
    * @returns 새 트랜잭션 해시
    */
   public async cancelTransaction(txHash: string): Promise<string | null> {
-    const txInfo = this.pendingTransactions.get(txHash);
+    const txInfo = await this.getTransaction(txHash);
     if (!txInfo || txInfo.status !== TransactionStatus.PENDING) {
       throw new Error('취소할 수 없는 트랜잭션입니다.');
     }
     
     try {
-      // 원 트랜잭션과 동일한 논스로 0 값 트랜잭션 생성
-      // 단, 가스 가격은 더 높게 설정해야 함
-      const cancelTxParams = {
-        from: txInfo.from,
-        to: txInfo.from, // 자기 자신에게 보내기
-        value: '0x0',
-        nonce: txInfo.nonce,
-        chainId: txInfo.chainId,
-        gasLimit: txInfo.gasLimit,
-      };
-      
-      // EIP-1559 트랜잭션인 경우
-      if (txInfo.maxFeePerGas) {
-        cancelTxParams.maxFeePerGas = this.increaseHexValue(txInfo.maxFeePerGas, 1.1);
-        cancelTxParams.maxPriorityFeePerGas = this.increaseHexValue(txInfo.maxPriorityFeePerGas || '0x0', 1.1);
-      } else if (txInfo.gasPrice) {
-        // 레거시 트랜잭션인 경우
-        cancelTxParams.gasPrice = this.increaseHexValue(txInfo.gasPrice, 1.1);
-      }
-      
-      // 취소 트랜잭션 전송
-      const cancelTxHash = await this.signAndSendTransaction(cancelTxParams);
-      
-      // 원 트랜잭션 상태 업데이트
-      txInfo.status = TransactionStatus.FAILED;
-      this.pendingTransactions.set(txHash, txInfo);
-      
-      return cancelTxHash;
+      const cancelTx = await this.transactionMonitor.cancelTransaction(txHash, { multiplier: 1.1 });
+      return cancelTx.hash || null;
     } catch (error) {
       console.error('트랜잭션 취소 중 오류:', error);
       throw error;
@@ -309,14 +398,60 @@ export class TransactionService {
   }
   
   /**
-   * 16진수 값 증가
-   * @param hexValue 16진수 값
-   * @param factor 증가 비율
-   * @returns 증가된 16진수 값
+   * 논스 공백 조회
+   * 빠진 논스가 있으면 그보다 큰 논스의 트랜잭션은 처리되지 않고 대기합니다.
+   * @param chainId 체인 ID
+   * @param address 계정 주소
+   * @returns 논스 공백 또는 null
+   */
+  public async getNonceGap(chainId: number, address: string): Promise<NonceGap | null> {
+    return this.nonceManager.getNonceGap(chainId, address);
+  }
+  
+  /**
+   * 논스 공백 채우기
+   * 빠진 논스를 0 금액 자기 전송으로 채워 대기 중인 트랜잭션이 처리되도록 합니다.
+   * @param chainId 체인 ID
+   * @param address 계정 주소
+   * @returns 전송한 트랜잭션 해시 목록
+   */
+  public async fillNonceGap(chainId: number, address: string): Promise<string[]> {
+    return this.nonceManager.fillNonceGap(chainId, address);
+  }
+  
+  /**
+   * 논스 공백 취소
+   * 빠진 논스를 채우고, 공백 뒤에 대기 중인 트랜잭션은 취소 트랜잭션으로 대체합니다.
+   * @param chainId 체인 ID
+   * @param address 계정 주소
+   * @returns 전송한 트랜잭션 해시 목록
    */
-  private increaseHexValue(hexValue: string, factor: number): string {
-    const value = parseInt(hexValue, 16);
-    const increased = Math.floor(value * factor);
-    return `0x${increased.toString(16)}`;
+  public async cancelNonceGap(chainId: number, address: string): Promise<string[]> {
+    return this.nonceManager.cancelNonceGap(chainId, address);
+  }
+  
+  /**
+   * 모니터 트랜잭션을 트랜잭션 정보로 변환
+   * @param transaction 모니터가 추적 중인 트랜잭션
+   */
+  private toTransactionInfo(transaction: any): TransactionInfo {
+    return {
+      hash: transaction.hash,
+      from: transaction.from,
+      to: transaction.to,
+      value: transaction.value,
+      data: transaction.data,
+      nonce: transaction.nonce,
+      gasLimit: transaction.gasLimit,
+      gasPrice: transaction.gasPrice,
+      maxFeePerGas: transaction.maxFeePerGas,
+      maxPriorityFeePerGas: transaction.maxPriorityFeePerGas,
+      status: transaction.meta.status as TransactionStatus,
+      chainId: transaction.chainId,
+      blockNumber: transaction.meta.blockNumber,
+      blockHash: transaction.meta.blockHash,
+      replacedBy: transaction.meta.replacedBy,
+      timestamp: transaction.meta.submittedAt
+    };
   }
 }
\ No newline at end of file
@@ -4,12 +4,39 @@
  * 계정 관리, 네트워크 설정, 트랜잭션 처리, 서명 요청 등을 처리합니다.
  */
 
+import {
+  Account,
+  AddressPoisoningWarning,
+  Contact,
+  ContactInput,
+  HardwareAccountCandidate,
+  KeyringType,
+  NonceGap,
+  RecipientSuggestion,
+  ResolvedName,
+  TokenApproval,
+  TokenMetadata,
+  TransactionMonitorEventType,
+  inspectTypedData,
+  parseTypedData
+} from '@crelink/core';
 import { KeyringService } from './services/keyring.service';
-import { NetworkService } from './services/network.service';
+import { NetworkService, ChainInfo } from './services/network.service';
 import { StorageService } from './services/storage.service';
-import { TransactionService } from './services/transaction.service';
-import { DIDService } from './services/did.service';
-import { SecurityService } from './services/security.service';
+import { TransactionService, GasEstimate } from './services/transaction.service';
+import { DIDService, DIDInfo, DIDType } from './services/did.service';
+import { RpcService, RpcEndpointHealthReport } from './services/rpc.service';
+import { SubscriptionService } from './services/subscription.service';
+import { SimulationService, TransactionSimulation } from './services/simulation.service';
+import { ActivityService } from './services/activity.service';
+import { AssetService, AssetBalances, AssetToken } from './services/asset.service';
+import { NameService } from './services/name.service';
+import { AllowanceService } from './services/allowance.service';
+import { ContactService } from './services/contact.service';
+import { QRSignService, PendingQRSignRequest } from './services/qrSign.service';
+import { SecurityService, ApprovalType, ApprovalRequest, ConnectedSite, Web3Permission } from './services/security.service';
+import { ProviderRpcError } from './errors';
+import { PhishingList, PhishingVerdict } from '../utils/phishing';
 
 export class WalletController {
   private keyringService: KeyringService;
@@ -18,17 +45,61 @@ export class WalletController {
   private transactionService: TransactionService;
   private didService: DIDService;
   private securityService: SecurityService;
+  private rpcService: RpcService;
+  private subscriptionService: SubscriptionService;
+  private simulationService: SimulationService;
+  private activityService: ActivityService;
+  private assetService: AssetService;
+  private nameService: NameService;
+  private allowanceService: AllowanceService;
+  private contactService: ContactService;
+  private qrSignService: QRSignService;
   
   private isInitialized: boolean = false;
   private isLocked: boolean = true;
   
+  // 잠금 해제를 기다리는 요청 목록
+  private unlockWaiters: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+  
   constructor() {
     this.storageService = new StorageService();
-    this.keyringService = new KeyringService(this.storageService);
+    this.qrSignService = new QRSignService();
+    this.keyringService = new KeyringService(
+      this.storageService,
+      (request) => this.qrSignService.requestSignature(request)
+    );
     this.networkService = new NetworkService(this.storageService);
-    this.transactionService = new TransactionService(this.keyringService, this.networkService);
     this.didService = new DIDService(this.storageService);
-    this.securityService = new SecurityService();
+    this.securityService = new SecurityService(this.storageService);
+    this.rpcService = new RpcService(this.networkService);
+    this.transactionService = new TransactionService(
+      this.keyringService,
+      this.networkService,
+      this.rpcService,
+      this.storageService
+    );
+    this.subscriptionService = new SubscriptionService(this.rpcService);
+    this.simulationService = new SimulationService(this.rpcService, this.keyringService);
+    this.activityService = new ActivityService(this.storageService);
+    this.assetService = new AssetService(this.rpcService, this.storageService);
+    this.nameService = new NameService(this.rpcService);
+    this.allowanceService = new AllowanceService(this.rpcService);
+    this.contactService = new ContactService(this.storageService);
+    
+    // 트랜잭션 최종 상태를 활동 내역에 반영
+    const finalEvents = [
+      TransactionMonitorEventType.CONFIRMED,
+      TransactionMonitorEventType.FAILED,
+      TransactionMonitorEventType.DROPPED,
+      TransactionMonitorEventType.REPLACED
+    ];
+    for (const event of finalEvents) {
+      this.transactionService.onTransactionEvent(event, ({ transaction, receipt }) => {
+        this.activityService
+          .updateTransactionStatus(transaction.hash!, transaction.meta!.status, receipt, transaction.meta!.error)
+          .catch((error) => console.error('활동 내역 상태 업데이트 중 오류:', error));
+      });
+    }
   }
   
   /**
@@ -42,6 +113,9 @@ export class WalletController {
       
       // 서비스 초기화
       await this.networkService.init();
+      await this.activityService.init();
+      await this.transactionService.init();
+      await this.contactService.init();
       
       // 지갑 잠금 상태 확인
       const hasWallet = await this.keyringService.hasWallet();
@@ -113,6 +187,11 @@ export class WalletController {
       const success = await this.keyringService.unlockWallet(password);
       if (success) {
         this.isLocked = false;
+        
+        // 잠금 해제를 기다리던 요청 재개
+        const waiters = this.unlockWaiters;
+        this.unlockWaiters = [];
+        waiters.forEach((waiter) => waiter.resolve());
       }
       return success;
     } catch (error) {
@@ -125,6 +204,7 @@ export class WalletController {
    * 지갑 잠금
    */
   public lockWallet(): void {
+    this.qrSignService.cancelAllRequests();
     this.keyringService.lockWallet();
     this.isLocked = true;
   }
@@ -139,6 +219,21 @@ export class WalletController {
     return this.keyringService.getAccounts();
   }
   
+  /**
+   * 서명할 수 있는 계정 목록 조회 (조회 전용 계정 제외)
+   * 사이트에 연결할 수 있는 계정입니다.
+   */
+  public async getSigningAccounts(): Promise<string[]> {
+    const accounts = await this.getAccounts();
+    const signingAccounts: string[] = [];
+    for (const address of accounts) {
+      if ((await this.keyringService.getAccountType(address)) !== KeyringType.WATCH_ONLY) {
+        signingAccounts.push(address);
+      }
+    }
+    return signingAccounts;
+  }
+  
   /**
    * 현재 선택된 계정 조회
    */
@@ -170,6 +265,201 @@ export class WalletController {
     return this.keyringService.createAccount();
   }
   
+  /**
+   * 개인키로 계정 가져오기
+   * @param privateKey 개인키
+   * @returns 가져온 계정 주소
+   */
+  public async importPrivateKey(privateKey: string): Promise<string> {
+    if (this.isLocked) {
+      throw new Error('지갑이 잠겨 있습니다.');
+    }
+    return this.keyringService.importPrivateKey(privateKey);
+  }
+  
+  /**
+   * QR 하드웨어 지갑의 계정 후보 조회
+   * @param ur 디바이스가 내보낸 crypto-hdkey UR
+   * @param start 시작 인덱스
+   * @param count 조회할 개수
+   */
+  public async getQRAccountCandidates(ur: string, start: number, count: number): Promise<HardwareAccountCandidate[]> {
+    if (this.isLocked) {
+      throw new Error('지갑이 잠겨 있습니다.');
+    }
+    return this.keyringService.getQRAccountCandidates(ur, start, count);
+  }
+  
+  /**
+   * QR 하드웨어 지갑 계정 가져오기
+   * @param ur 디바이스가 내보낸 crypto-hdkey UR
+   * @param indexes 가져올 주소 인덱스 목록
+   * @returns 추가된 계정 주소 목록
+   */
+  public async importQRAccounts(ur: string, indexes: number[]): Promise<string[]> {
+    if (this.isLocked) {
+      throw new Error('지갑이 잠겨 있습니다.');
+    }
+    return this.keyringService.importQRAccounts(ur, indexes);
+  }
+  
+  /**
+   * 조회 전용 계정 추가
+   * 주소 대신 ENS 이름, Catena 이름, zkDID를 입력하면 선택된 네트워크에서 주소로 해석해 추가합니다.
+   * @param input 계정 주소 또는 이름
+   * @param name 계정 이름 (선택 사항)
+   * @returns 추가된 계정 주소
+   */
+  public async addWatchOnlyAccount(input: string, name?: string): Promise<string> {
+    if (this.isLocked) {
+      throw new Error('지갑이 잠겨 있습니다.');
+    }
+    
+    const resolved = await this.nameService.resolveRecipient(input);
+    const address = await this.keyringService.addWatchOnlyAccount(resolved.address);
+    await this.contactService.recordWatchOnlyAccount(resolved, name);
+    return address;
+  }
+  
+  /**
+   * 조회 전용 계정 정보 목록 (원래 입력과 이름 포함)
+   */
+  public async getWatchOnlyAccounts(): Promise<Account[]> {
+    if (this.isLocked) {
+      return [];
+    }
+    return this.contactService.getWatchOnlyAccounts();
+  }
+  
+  /**
+   * 계정 제거 (가져온 계정과 조회 전용 계정만 가능)
+   * @param address 제거할 계정 주소
+   */
+  public async removeAccount(address: string): Promise<void> {
+    if (this.isLocked) {
+      throw new Error('지갑이 잠겨 있습니다.');
+    }
+    await this.keyringService.removeAccount(address);
+    await this.contactService.removeWatchOnlyAccount(address);
+  }
+  
+  /**
+   * 계정의 키링 유형 조회
+   * @param address 계정 주소
+   */
+  public async getAccountType(address: string): Promise<KeyringType | null> {
+    if (this.isLocked) {
+      return null;
+    }
+    return this.keyringService.getAccountType(address);
+  }
+  
+  /**
+   * 계정 키스토어 내보내기
+   * @param address 계정 주소
+   * @param password 지갑 비밀번호
+   * @returns 키스토어 JSON
+   */
+  public async exportAccount(address: string, password: string): Promise<string> {
+    if (this.isLocked) {
+      throw new Error('지갑이 잠겨 있습니다.');
+    }
+    return this.keyringService.exportAccount(address, password);
+  }
+  
+  /**
+   * 니모닉 구문 내보내기
+   * @param password 지갑 비밀번호
+   */
+  public async exportMnemonic(password: string): Promise<string> {
+    if (this.isLocked) {
+      throw new Error('지갑이 잠겨 있습니다.');
+    }
+    return this.keyringService.exportMnemonic(password);
+  }
+  
+  /**
+   * 지갑 비밀번호 확인
+   * @param password 지갑 비밀번호
+   */
+  public async verifyPassword(password: string): Promise<void> {
+    if (this.isLocked) {
+      throw new Error('지갑이 잠겨 있습니다.');
+    }
+    await this.keyringService.verifyPassword(password);
+  }
+  
+  /**
+   * 지갑 초기화
+   * 볼트를 포함한 모든 저장 데이터를 삭제하고, 서비스에 남은 상태를 비우기 위해 응답 후 확장 프로그램을 다시 로드합니다.
+   * 되돌릴 수 없으므로 볼트 비밀번호를 먼저 확인합니다.
+   * @param password 지갑 비밀번호
+   */
+  public async resetWallet(password: string): Promise<void> {
+    await this.verifyPassword(password);
+    
+    this.lockWallet();
+    this.keyringService.resetWallet();
+    await this.storageService.clear();
+    
+    setTimeout(() => chrome.runtime.reload(), 0);
+  }
+  
+  /**
+   * 계정별 DID 연결 정보 조회
+   */
+  public async getDIDs(): Promise<DIDInfo[]> {
+    return this.didService.getDIDs();
+  }
+  
+  /**
+   * 계정에 DID 연결
+   * @param address 계정 주소
+   * @param type DID 유형
+   * @param credential DID 인증 정보
+   * @returns 발급된 DID
+   */
+  public async connectDID(address: string, type: DIDType, credential: any): Promise<string> {
+    if (await this.didService.getDIDByAddress(address)) {
+      throw new Error('이미 DID가 연결된 계정입니다.');
+    }
+    
+    const did = await this.didService.createDID(type, credential, address);
+    const didInfo = await this.getAccountDID(address);
+    await this.didService.addDIDLog(didInfo.id, 'connect', { type });
+    
+    return did;
+  }
+  
+  /**
+   * 계정의 DID 연결 해제
+   * @param address 계정 주소
+   */
+  public async disconnectDID(address: string): Promise<void> {
+    const didInfo = await this.getAccountDID(address);
+    await this.didService.deleteDID(didInfo.id);
+  }
+  
+  /**
+   * 계정 DID 별칭(닉네임) 설정
+   * @param address 계정 주소
+   * @param nickname 닉네임
+   */
+  public async setDIDNickname(address: string, nickname: string): Promise<void> {
+    const didInfo = await this.getAccountDID(address);
+    await this.didService.setDIDAlias(didInfo.id, nickname);
+    await this.didService.addDIDLog(didInfo.id, 'setAlias', { alias: nickname });
+  }
+  
+  /**
+   * 계정 DID 사용 기록 조회
+   * @param address 계정 주소
+   */
+  public async getDIDLogs(address: string): Promise<any[]> {
+    const didInfo = await this.getAccountDID(address);
+    return this.didService.getDIDLogs(didInfo.id);
+  }
+  
   /**
    * 현재 선택된 네트워크 조회
    */
@@ -177,63 +467,654 @@ export class WalletController {
     return this.networkService.getSelectedNetwork();
   }
   
+  /**
+   * 체인 ID로 네트워크 조회
+   * @param chainId 체인 ID
+   */
+  public async getNetworkByChainId(chainId: number): Promise<any> {
+    return this.networkService.getNetworkByChainId(chainId);
+  }
+  
   /**
    * 네트워크 선택
    * @param chainId 체인 ID
    */
   public async selectNetwork(chainId: number): Promise<void> {
     await this.networkService.selectNetwork(chainId);
+    
+    // 이전 체인의 구독과 필터는 더 이상 유효하지 않음
+    this.subscriptionService.clearAll();
   }
   
   /**
-   * 트랜잭션 서명 및 전송
+   * 네트워크 추가
+   * 같은 체인 ID가 이미 있으면 정보를 갱신합니다.
+   * @param chainInfo 체인 정보
+   */
+  public async addNetwork(chainInfo: ChainInfo): Promise<void> {
+    await this.networkService.addNetwork(chainInfo);
+  }
+  
+  /**
+   * RPC 엔드포인트의 체인 ID 조회
+   * @param rpcUrl RPC URL
+   */
+  public async getRpcChainId(rpcUrl: string): Promise<number | null> {
+    return this.networkService.getRpcChainId(rpcUrl);
+  }
+  
+  /**
+   * 읽기 전용 RPC 요청을 선택된 네트워크로 전달
+   * @param method RPC 메서드
+   * @param params RPC 파라미터
+   */
+  public async forwardRpcRequest(method: string, params: any[]): Promise<any> {
+    return this.rpcService.request(method, params);
+  }
+  
+  /**
+   * 트랜잭션 시뮬레이션
+   * 승인 화면에 표시할 디코딩 결과, 잔액 변화, 위험 보고서를 생성합니다.
    * @param txParams 트랜잭션 파라미터
    */
+  public async simulateTransaction(txParams: any): Promise<TransactionSimulation> {
+    return this.simulationService.simulateTransaction(txParams);
+  }
+  
+  /**
+   * 구독 생성 (eth_subscribe)
+   * @param tabId 요청한 탭 ID
+   * @param type 구독 유형 (newHeads, logs)
+   * @param criteria 로그 구독 조건
+   */
+  public async subscribe(tabId: number, type: string, criteria?: any): Promise<string> {
+    return this.subscriptionService.subscribe(tabId, type, criteria);
+  }
+  
+  /**
+   * 구독 해제 (eth_unsubscribe)
+   * @param tabId 요청한 탭 ID
+   * @param subscriptionId 구독 ID
+   */
+  public unsubscribe(tabId: number, subscriptionId: string): boolean {
+    return this.subscriptionService.unsubscribe(tabId, subscriptionId);
+  }
+  
+  /**
+   * 로그 필터 생성 (eth_newFilter)
+   * @param tabId 요청한 탭 ID
+   * @param criteria 로그 조회 조건
+   */
+  public async newFilter(tabId: number, criteria: any): Promise<string> {
+    return this.subscriptionService.newFilter(tabId, criteria);
+  }
+  
+  /**
+   * 블록 필터 생성 (eth_newBlockFilter)
+   * @param tabId 요청한 탭 ID
+   */
+  public async newBlockFilter(tabId: number): Promise<string> {
+    return this.subscriptionService.newBlockFilter(tabId);
+  }
+  
+  /**
+   * 필터 변경 사항 조회 (eth_getFilterChanges)
+   * @param tabId 요청한 탭 ID
+   * @param filterId 필터 ID
+   */
+  public getFilterChanges(tabId: number, filterId: string): any[] {
+    return this.subscriptionService.getFilterChanges(tabId, filterId);
+  }
+  
+  /**
+   * 필터 제거 (eth_uninstallFilter)
+   * @param tabId 요청한 탭 ID
+   * @param filterId 필터 ID
+   */
+  public uninstallFilter(tabId: number, filterId: string): boolean {
+    return this.subscriptionService.uninstallFilter(tabId, filterId);
+  }
+  
+  /**
+   * 탭의 구독과 필터 정리
+   * @param tabId 닫힌 탭 ID
+   */
+  public removeTabSubscriptions(tabId: number): void {
+    this.subscriptionService.removeTab(tabId);
+  }
+  
+  /**
+   * 트랜잭션 서명 및 전송
+   * @param txParams 트랜잭션 파라미터 (from이 없으면 선택된 계정으로 서명)
+   */
   public async signAndSendTransaction(txParams: any): Promise<string> {
     if (this.isLocked) {
       throw new Error('지갑이 잠겨 있습니다.');
     }
     
+    const account = txParams.from || await this.keyringService.getSelectedAccount();
+    if (!account) {
+      throw new Error('선택된 계정이 없습니다.');
+    }
+    
+    const txHash = await this.transactionService.signAndSendTransaction({ ...txParams, from: account });
+    
+    // 주소 중독 탐지에 사용할 수 있도록 활동 내역에 기록
+    const network = await this.networkService.getSelectedNetwork();
+    await this.activityService.recordSentTransaction(txHash, txParams, account, network.chainId);
+    
+    return txHash;
+  }
+  
+  /**
+   * 트랜잭션 서명 (전송하지 않음)
+   * @param txParams 트랜잭션 파라미터 (from이 없으면 선택된 계정으로 서명)
+   * @returns 서명된 트랜잭션
+   */
+  public async signTransaction(txParams: any): Promise<string> {
+    if (this.isLocked) {
+      throw new Error('지갑이 잠겨 있습니다.');
+    }
+    return this.transactionService.signTransaction(txParams);
+  }
+  
+  /**
+   * 현재 네트워크의 가스 추정 정보 조회
+   * @param txParams 트랜잭션 파라미터 (없으면 기본 전송 기준)
+   */
+  public async estimateGas(txParams: any = {}): Promise<GasEstimate> {
+    const network = await this.networkService.getSelectedNetwork();
+    return this.transactionService.getGasEstimate(txParams, network.chainId);
+  }
+  
+  /**
+   * 수신 주소의 주소 중독 위험 확인
+   * @param recipient 수신 주소
+   * @returns 경고 목록 (비어 있으면 안전)
+   */
+  public async checkRecipientAddress(recipient: string): Promise<AddressPoisoningWarning[]> {
+    const accounts = await this.keyringService.getAccounts();
+    return this.activityService.checkRecipientAddress(recipient, accounts);
+  }
+  
+  /**
+   * 수신자 입력(주소, ENS 이름, Catena 이름, zkDID, zkDID 별칭)을 주소로 해석
+   * @param recipient 수신자 입력
+   * @returns 해석 결과
+   */
+  public async resolveRecipient(recipient: string): Promise<ResolvedName> {
+    return this.nameService.resolveRecipient(recipient);
+  }
+  
+  /**
+   * 송금 화면의 수신자 후보 조회
+   * 내 계정, 조회 전용 계정, 선택된 네트워크 주소가 있는 연락처를 검색합니다.
+   * @param query 검색어
+   * @returns 수신자 후보 목록
+   */
+  public async getRecipientSuggestions(query: string = ''): Promise<RecipientSuggestion[]> {
+    if (this.isLocked) {
+      return [];
+    }
+    
+    const { chainId, account } = await this.getSelectedAccountAndChain();
+    const accounts = await this.keyringService.getAccounts();
+    const watchOnlyAddresses: string[] = [];
+    for (const address of accounts) {
+      if ((await this.keyringService.getAccountType(address)) === KeyringType.WATCH_ONLY) {
+        watchOnlyAddresses.push(address);
+      }
+    }
+    
+    return this.contactService.getRecipientSuggestions(chainId, accounts, watchOnlyAddresses, query, account);
+  }
+  
+  /**
+   * 주소록 연락처 목록 조회
+   */
+  public async getContacts(): Promise<Contact[]> {
+    return this.contactService.getContacts();
+  }
+  
+  /**
+   * 주소록 연락처 추가
+   * @param contact 연락처 정보
+   * @returns 추가된 연락처
+   */
+  public async addContact(contact: ContactInput): Promise<Contact> {
+    return this.contactService.addContact(contact);
+  }
+  
+  /**
+   * 주소록 연락처 수정
+   * @param id 연락처 ID
+   * @param updates 수정할 필드
+   * @returns 수정된 연락처
+   */
+  public async updateContact(id: string, updates: Partial<ContactInput>): Promise<Contact> {
+    return this.contactService.updateContact(id, updates);
+  }
+  
+  /**
+   * 주소록 연락처 삭제
+   * @param id 연락처 ID
+   */
+  public async deleteContact(id: string): Promise<void> {
+    await this.contactService.deleteContact(id);
+  }
+  
+  /**
+   * 주소의 대표 이름 조회
+   * @param address 주소
+   * @returns 이름 또는 null
+   */
+  public async lookupAddressName(address: string): Promise<string | null> {
+    return this.nameService.lookupAddress(address);
+  }
+  
+  /**
+   * 선택된 계정의 논스 공백 조회
+   * @returns 논스 공백 또는 null
+   */
+  public async getNonceGap(): Promise<NonceGap | null> {
+    const { chainId, account } = await this.getSelectedAccountAndChain();
+    return this.transactionService.getNonceGap(chainId, account);
+  }
+  
+  /**
+   * 선택된 계정의 논스 공백 채우기
+   * @returns 전송한 트랜잭션 해시 목록
+   */
+  public async fillNonceGap(): Promise<string[]> {
+    if (this.isLocked) {
+      throw new Error('지갑이 잠겨 있습니다.');
+    }
+    
+    const { chainId, account } = await this.getSelectedAccountAndChain();
+    return this.transactionService.fillNonceGap(chainId, account);
+  }
+  
+  /**
+   * 선택된 계정의 논스 공백 취소
+   * @returns 전송한 트랜잭션 해시 목록
+   */
+  public async cancelNonceGap(): Promise<string[]> {
+    if (this.isLocked) {
+      throw new Error('지갑이 잠겨 있습니다.');
+    }
+    
+    const { chainId, account } = await this.getSelectedAccountAndChain();
+    return this.transactionService.cancelNonceGap(chainId, account);
+  }
+  
+  /**
+   * 선택된 계정의 네이티브 잔액과 추가한 토큰 잔액 조회
+   * @returns 자산 잔액
+   */
+  public async getAssetBalances(): Promise<AssetBalances> {
+    const { account } = await this.getSelectedAccountAndChain();
+    return this.assetService.getAssetBalances(account);
+  }
+  
+  /**
+   * 토큰 메타데이터 조회
+   * @param tokenAddress 토큰 계약 주소
+   */
+  public async getTokenMetadata(tokenAddress: string): Promise<TokenMetadata> {
+    return this.assetService.getTokenMetadata(tokenAddress);
+  }
+  
+  /**
+   * 선택된 네트워크에 토큰 추가
+   * @param token 토큰 정보
+   */
+  public async addToken(token: AssetToken): Promise<void> {
+    const network = await this.networkService.getSelectedNetwork();
+    await this.assetService.addToken(network.chainId, token);
+  }
+  
+  /**
+   * 선택된 네트워크의 토큰 목록 조회
+   * @returns 토큰 목록에 있는 토큰
+   */
+  public async getListedTokens(): Promise<AssetToken[]> {
+    return this.assetService.getListedTokens();
+  }
+  
+  /**
+   * 토큰 검증
+   * @param tokenAddress 토큰 계약 주소
+   * @returns 검증 상태가 포함된 토큰 정보
+   */
+  public async validateToken(tokenAddress: string): Promise<AssetToken> {
+    return this.assetService.validateToken(tokenAddress);
+  }
+  
+  /**
+   * 선택된 계정의 보유 토큰 탐색
+   * @returns 새로 추가한 토큰 목록
+   */
+  public async discoverTokens(): Promise<AssetToken[]> {
+    const { account } = await this.getSelectedAccountAndChain();
+    return this.assetService.discoverTokens(account);
+  }
+  
+  /**
+   * 선택된 계정의 토큰 승인 목록 조회
+   * @returns 위험도가 높은 순으로 정렬된 승인 목록
+   */
+  public async getTokenApprovals(): Promise<TokenApproval[]> {
+    const { account } = await this.getSelectedAccountAndChain();
+    return this.allowanceService.getTokenApprovals(account);
+  }
+  
+  /**
+   * 토큰 승인 일괄 취소
+   * @param approvals 취소할 승인 목록
+   * @returns 전송한 트랜잭션 해시 목록
+   */
+  public async revokeTokenApprovals(approvals: TokenApproval[]): Promise<string[]> {
+    if (this.isLocked) {
+      throw new Error('지갑이 잠겨 있습니다.');
+    }
+    
+    const { account } = await this.getSelectedAccountAndChain();
+    const transactions = await this.allowanceService.buildRevokeTransactions(account, approvals);
+    
+    const txHashes: string[] = [];
+    for (const { from, to, data, value } of transactions) {
+      txHashes.push(await this.signAndSendTransaction({ from, to, data, value }));
+    }
+    
+    return txHashes;
+  }
+  
+  /**
+   * 선택된 네트워크의 RPC 엔드포인트 상태 조회
+   * @param refresh true이면 모든 엔드포인트 상태를 즉시 다시 확인
+   */
+  public async getRpcEndpointHealth(refresh: boolean = false): Promise<RpcEndpointHealthReport> {
+    return this.rpcService.getEndpointHealth(refresh);
+  }
+  
+  /**
+   * 선택된 계정과 네트워크 체인 ID 조회
+   */
+  private async getSelectedAccountAndChain(): Promise<{ chainId: number; account: string }> {
     const account = await this.keyringService.getSelectedAccount();
     if (!account) {
       throw new Error('선택된 계정이 없습니다.');
     }
     
-    return this.transactionService.signAndSendTransaction(txParams);
+    const network = await this.networkService.getSelectedNetwork();
+    return { chainId: network.chainId, account };
+  }
+  
+  /**
+   * 계정에 연결된 DID 조회
+   * @param address 계정 주소
+   */
+  private async getAccountDID(address: string): Promise<DIDInfo> {
+    const didInfo = await this.didService.getDIDByAddress(address);
+    if (!didInfo) {
+      throw new Error('DID가 연결되지 않은 계정입니다.');
+    }
+    return didInfo;
   }
   
   /**
    * 개인 메시지 서명
    * @param message 서명할 메시지
+   * @param address 서명 계정 주소 (없으면 선택된 계정)
    */
-  public async signPersonalMessage(message: string): Promise<string> {
+  public async signPersonalMessage(message: string, address?: string): Promise<string> {
     if (this.isLocked) {
       throw new Error('지갑이 잠겨 있습니다.');
     }
     
-    const account = await this.keyringService.getSelectedAccount();
+    const account = address || await this.keyringService.getSelectedAccount();
     if (!account) {
       throw new Error('선택된 계정이 없습니다.');
     }
     
-    return this.transactionService.signPersonalMessage(message);
+    return this.transactionService.signPersonalMessage(message, account);
   }
   
   /**
    * 타입화된 데이터 서명 (EIP-712)
    * @param typedData 타입화된 데이터
+   * @param address 서명 계정 주소 (없으면 선택된 계정)
    */
-  public async signTypedData(typedData: any): Promise<string> {
+  public async signTypedData(typedData: any, address?: string): Promise<string> {
     if (this.isLocked) {
       throw new Error('지갑이 잠겨 있습니다.');
     }
     
-    const account = await this.keyringService.getSelectedAccount();
+    const account = address || await this.keyringService.getSelectedAccount();
     if (!account) {
       throw new Error('선택된 계정이 없습니다.');
     }
     
-    return this.transactionService.signTypedData(typedData);
+    // 구조가 잘못되었거나 다른 체인용인 데이터는 서명하지 않음
+    const parsed = parseTypedData(typedData);
+    const network = await this.networkService.getSelectedNetwork();
+    if (inspectTypedData(parsed, network.chainId).chainIdMatches === false) {
+      throw new Error('서명 도메인의 체인 ID가 현재 네트워크와 일치하지 않습니다.');
+    }
+    
+    return this.transactionService.signTypedData(parsed, account);
+  }
+  
+  /**
+   * 사이트에 부여된 권한 조회
+   * @param origin 사이트 출처
+   */
+  public getSitePermissions(origin: string): Web3Permission[] {
+    return this.securityService.getPermissions(origin);
+  }
+  
+  /**
+   * 사이트에 노출 가능한 계정 조회
+   * 지갑이 잠겨 있으면 빈 목록을 반환합니다.
+   * @param origin 사이트 출처
+   */
+  public async getPermittedAccounts(origin: string): Promise<string[]> {
+    if (this.isLocked) {
+      return [];
+    }
+    
+    const accounts = await this.keyringService.getAccounts();
+    const permitted = this.securityService.getPermittedAccounts(origin, accounts);
+    
+    // 선택된 계정이 허용된 계정이면 맨 앞에 위치
+    const selected = await this.keyringService.getSelectedAccount();
+    const selectedIndex = selected
+      ? permitted.findIndex((account) => account.toLowerCase() === selected.toLowerCase())
+      : -1;
+    if (selectedIndex > 0) {
+      permitted.unshift(...permitted.splice(selectedIndex, 1));
+    }
+    
+    return permitted;
+  }
+  
+  /**
+   * 사이트 권한 철회
+   * @param origin 사이트 출처
+   * @param permissions 철회할 권한 목록
+   */
+  public async revokeSitePermissions(origin: string, permissions: string[]): Promise<void> {
+    await this.securityService.revokePermissions(origin, permissions);
+  }
+  
+  /**
+   * 연결된 사이트 목록 조회
+   */
+  public getConnectedSites(): ConnectedSite[] {
+    return this.securityService.getAllConnectedSites();
+  }
+  
+  /**
+   * 피싱 사이트 확인
+   * @param origin 사이트 출처
+   * @returns 피싱 판정 결과
+   */
+  public async checkPhishingSite(origin: string): Promise<PhishingVerdict> {
+    return this.securityService.checkPhishingSite(origin);
+  }
+  
+  /**
+   * 피싱 경고를 무시하고 사이트 신뢰
+   * @param origin 사이트 출처
+   */
+  public async trustPhishingSite(origin: string): Promise<void> {
+    await this.securityService.trustPhishingSite(origin);
+  }
+  
+  /**
+   * 피싱 경고 무시 설정 취소
+   * @param origin 사이트 출처
+   */
+  public async untrustPhishingSite(origin: string): Promise<void> {
+    await this.securityService.untrustPhishingSite(origin);
+  }
+  
+  /**
+   * 피싱 경고를 무시하고 신뢰한 사이트 목록 조회
+   */
+  public async getTrustedPhishingSites(): Promise<string[]> {
+    return this.securityService.getTrustedPhishingSites();
+  }
+  
+  /**
+   * 피싱 목록 갱신
+   * @param list 새 피싱 목록
+   * @returns 적용 여부
+   */
+  public async updatePhishingList(list: PhishingList): Promise<boolean> {
+    return this.securityService.updatePhishingList(list);
+  }
+  
+  /**
+   * 사용자 승인 요청 생성
+   * @param type 승인 유형
+   * @param origin 요청 출처
+   * @param data 요청 데이터
+   * @returns 승인 요청 ID
+   */
+  public createApprovalRequest(type: ApprovalType, origin: string, data: any): string {
+    return this.securityService.createApprovalRequest(type, origin, data);
+  }
+  
+  /**
+   * 승인 요청 결과 대기
+   * @param id 승인 요청 ID
+   * @returns 승인 결과 데이터
+   */
+  public waitForApproval(id: string): Promise<any> {
+    return this.securityService.waitForApproval(id);
+  }
+  
+  /**
+   * 승인 요청 완료 처리 (팝업에서 승인 또는 거절)
+   * @param id 승인 요청 ID
+   * @param approved 승인 여부
+   * @param result 승인 결과 데이터
+   */
+  public async completeApprovalRequest(id: string, approved: boolean, result?: any): Promise<void> {
+    // 조회 전용 계정은 서명할 수 없으므로 사이트에 연결하지 않음
+    if (approved && this.securityService.getApprovalRequest(id)?.type === ApprovalType.CONNECT) {
+      const signingAccounts = (await this.getSigningAccounts()).map((address) => address.toLowerCase());
+      const accounts: string[] = result?.accounts || [];
+      if (accounts.some((address) => !signingAccounts.includes(String(address).toLowerCase()))) {
+        throw new Error('조회 전용 계정은 사이트에 연결할 수 없습니다.');
+      }
+    }
+    
+    await this.securityService.completeApprovalRequest(id, approved, result);
+  }
+  
+  /**
+   * 대기 중인 승인 요청 목록 조회
+   */
+  public getPendingApprovals(): ApprovalRequest[] {
+    return this.securityService.getPendingApprovals();
+  }
+  
+  /**
+   * 새 QR 서명 요청 알림 등록
+   * @param listener 알림 함수 (서명 창 열기)
+   */
+  public onQRSignRequest(listener: () => void): void {
+    this.qrSignService.onRequest(listener);
+  }
+  
+  /**
+   * 대기 중인 QR 서명 요청 목록 조회
+   */
+  public getPendingQRSignRequests(): PendingQRSignRequest[] {
+    return this.qrSignService.getPendingRequests();
+  }
+  
+  /**
+   * 스캔한 서명 QR로 QR 서명 요청 완료
+   * @param requestId 서명 요청 ID
+   * @param ur 스캔한 eth-signature UR
+   */
+  public submitQRSignature(requestId: string, ur: string): void {
+    this.qrSignService.submitSignature(requestId, ur);
+  }
+  
+  /**
+   * QR 서명 요청 취소
+   * @param requestId 서명 요청 ID
+   */
+  public cancelQRSignRequest(requestId: string): void {
+    this.qrSignService.cancelRequest(requestId);
+  }
+  
+  /**
+   * 대기 중인 모든 승인 요청과 잠금 해제 대기 취소
+   * @param error 호출자에게 전달할 오류
+   */
+  public cancelAllApprovals(error: ProviderRpcError): void {
+    this.securityService.cancelAllApprovalRequests(error);
+    this.qrSignService.cancelAllRequests(error);
+    
+    const waiters = this.unlockWaiters;
+    this.unlockWaiters = [];
+    waiters.forEach((waiter) => waiter.reject(error));
+  }
+  
+  /**
+   * 지갑 잠금 해제 대기
+   * 이미 잠금 해제된 상태면 바로 반환합니다.
+   * @param timeout 대기 시간 (밀리초)
+   */
+  public waitForUnlock(timeout: number): Promise<void> {
+    if (!this.isLocked) {
+      return Promise.resolve();
+    }
+    
+    return new Promise<void>((resolve, reject) => {
+      const waiter = {
+        resolve: () => {
+          clearTimeout(timeoutId);
+          resolve();
+        },
+        reject: (error: Error) => {
+          clearTimeout(timeoutId);
+          reject(error);
+        }
+      };
+      
+      const timeoutId = setTimeout(() => {
+        this.unlockWaiters = this.unlockWaiters.filter((item) => item !== waiter);
+        reject(new Error('지갑이 잠겨 있습니다. 먼저 잠금을 해제하세요.'));
+      }, timeout);
+      
+      this.unlockWaiters.push(waiter);
+    });
   }
   
   /**
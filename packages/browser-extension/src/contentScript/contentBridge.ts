@@ -144,6 +144,21 @@ function handleBackgroundMessage(
       );
       break;
       
+    case 'message':
+      // 구독 알림(eth_subscription)을 EIP-1193 message 이벤트로 전달
+      window.postMessage(
+        {
+          target: 'crelink-injectscript',
+          message: {
+            type: 'event',
+            event: 'message',
+            data: message.data
+          }
+        },
+        window.location.origin
+      );
+      break;
+      
     case 'disconnect':
       // 연결 해제 이벤트를 웹페이지로 전달
       window.postMessage(
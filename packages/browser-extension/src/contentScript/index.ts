@@ -6,6 +6,7 @@
 
 import { setupContentBridge } from './contentBridge';
 import { injectScript } from './domHelper';
+import { checkPhishingSite } from './phishingWarning';
 
 console.log('CreLink Wallet 콘텐츠 스크립트가 로드되었습니다.');
 
@@ -33,6 +34,9 @@ function initializeContentScript(): void {
     // 콘텐츠 브릿지 설정
     setupContentBridge();
     
+    // 피싱 의심 사이트면 경고 화면 표시
+    checkPhishingSite();
+    
     // 백그라운드 스크립트와 연결 유지
     setupKeepAliveConnection();
     
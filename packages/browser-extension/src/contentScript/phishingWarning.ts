@@ -0,0 +1,195 @@
+/**
+ * 피싱 경고
+ * 피싱 의심 사이트에서 페이지 전체를 덮는 경고 화면을 표시합니다.
+ */
+
+import { PhishingMatchType, PhishingVerdict } from '../utils/phishing';
+
+// 경고 화면 컨테이너 ID
+const WARNING_HOST_ID = 'crelink-phishing-warning';
+
+// 경고 화면 스타일
+const WARNING_STYLE = `
+  .container {
+    position: fixed;
+    inset: 0;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    background: #b91c1c;
+    color: #ffffff;
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+  }
+  .content {
+    max-width: 480px;
+    padding: 32px;
+    text-align: center;
+  }
+  h1 {
+    margin: 0 0 16px;
+    font-size: 24px;
+  }
+  p {
+    margin: 0 0 12px;
+    font-size: 15px;
+    line-height: 1.5;
+  }
+  .hostname {
+    font-family: monospace;
+    font-weight: bold;
+    word-break: break-all;
+  }
+  .actions {
+    display: flex;
+    flex-direction: column;
+    gap: 12px;
+    margin-top: 24px;
+  }
+  button {
+    padding: 12px;
+    border-radius: 8px;
+    font-size: 15px;
+    cursor: pointer;
+  }
+  .back {
+    border: none;
+    background: #ffffff;
+    color: #b91c1c;
+    font-weight: bold;
+  }
+  .trust {
+    border: 1px solid #ffffff;
+    background: transparent;
+    color: #ffffff;
+  }
+`;
+
+/**
+ * 현재 페이지의 피싱 여부를 확인하고 필요하면 경고 화면 표시
+ * 출처는 백그라운드에서 발신 탭 기준으로 판별합니다.
+ */
+export function checkPhishingSite(): void {
+  chrome.runtime.sendMessage({ type: 'contentScript', method: 'checkPhishingSite' }, (response) => {
+    if (chrome.runtime.lastError || !response || response.error) {
+      return;
+    }
+    
+    const verdict = response.result as PhishingVerdict;
+    if (verdict && verdict.result) {
+      showPhishingWarning(verdict);
+    }
+  });
+}
+
+/**
+ * 판정 근거 설명 생성
+ * @param verdict 피싱 판정 결과
+ */
+function getWarningReason(verdict: PhishingVerdict): string {
+  switch (verdict.type) {
+    case PhishingMatchType.BLOCKLIST:
+      return '알려진 피싱 사이트 목록에 등록된 사이트입니다.';
+    
+    case PhishingMatchType.HOMOGLYPH:
+      return `${verdict.match}과(와) 비슷해 보이는 문자로 주소를 꾸민 사이트입니다.`;
+    
+    case PhishingMatchType.FUZZY:
+      return `${verdict.match}과(와) 비슷한 주소를 사용하는 사이트입니다.`;
+    
+    default:
+      return '피싱 사이트로 의심됩니다.';
+  }
+}
+
+/**
+ * 피싱 경고 화면 표시
+ * 웹페이지 스크립트가 접근하거나 조작할 수 없도록 닫힌 Shadow DOM에 그리고,
+ * 사용자가 직접 누른 클릭만 처리합니다.
+ * @param verdict 피싱 판정 결과
+ */
+function showPhishingWarning(verdict: PhishingVerdict): void {
+  if (document.getElementById(WARNING_HOST_ID)) {
+    return;
+  }
+  
+  const previousOverflow = document.documentElement.style.overflow;
+  const host = document.createElement('div');
+  host.id = WARNING_HOST_ID;
+  host.style.cssText = 'all: initial; position: fixed; inset: 0; z-index: 2147483647;';
+  
+  const shadow = host.attachShadow({ mode: 'closed' });
+  
+  const style = document.createElement('style');
+  style.textContent = WARNING_STYLE;
+  shadow.appendChild(style);
+  
+  const container = document.createElement('div');
+  container.className = 'container';
+  
+  const content = document.createElement('div');
+  content.className = 'content';
+  
+  const title = document.createElement('h1');
+  title.textContent = '피싱 의심 사이트';
+  
+  const hostname = document.createElement('p');
+  hostname.className = 'hostname';
+  hostname.textContent = verdict.hostname;
+  
+  const reason = document.createElement('p');
+  reason.textContent = getWarningReason(verdict);
+  
+  const description = document.createElement('p');
+  description.textContent = '이 사이트는 지갑 연결이 차단되었습니다. 비밀번호, 복구 구문, 서명 요청을 입력하거나 승인하지 마세요.';
+  
+  const actions = document.createElement('div');
+  actions.className = 'actions';
+  
+  const backButton = document.createElement('button');
+  backButton.className = 'back';
+  backButton.textContent = '안전한 곳으로 돌아가기';
+  backButton.addEventListener('click', (event) => {
+    if (!event.isTrusted) {
+      return;
+    }
+    
+    if (window.history.length > 1) {
+      window.history.back();
+    } else {
+      window.location.replace('about:blank');
+    }
+  });
+  
+  const trustButton = document.createElement('button');
+  trustButton.className = 'trust';
+  trustButton.textContent = '위험을 감수하고 이 사이트 신뢰하기';
+  trustButton.addEventListener('click', (event) => {
+    if (!event.isTrusted) {
+      return;
+    }
+    
+    chrome.runtime.sendMessage({ type: 'contentScript', method: 'trustPhishingSite' }, (response) => {
+      if (chrome.runtime.lastError || !response || response.error) {
+        console.error('사이트 신뢰 설정 중 오류:', chrome.runtime.lastError || response?.error);
+        return;
+      }
+      
+      host.remove();
+      document.documentElement.style.overflow = previousOverflow;
+    });
+  });
+  
+  actions.appendChild(backButton);
+  actions.appendChild(trustButton);
+  content.appendChild(title);
+  content.appendChild(hostname);
+  content.appendChild(reason);
+  content.appendChild(description);
+  content.appendChild(actions);
+  container.appendChild(content);
+  shadow.appendChild(container);
+  
+  // 경고 화면 뒤의 페이지 스크롤 방지
+  document.documentElement.style.overflow = 'hidden';
+  document.documentElement.appendChild(host);
+}
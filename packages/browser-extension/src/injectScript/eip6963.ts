@@ -0,0 +1,74 @@
+/**
+ * EIP-6963 Provider 검색
+ * 여러 지갑이 설치된 환경에서 DApp이 CreLink Provider를 찾을 수 있도록
+ * eip6963:announceProvider 이벤트로 Provider 정보를 알립니다.
+ */
+
+// Provider 정보 (EIP-6963)
+export interface EIP6963ProviderInfo {
+  uuid: string;
+  name: string;
+  icon: string;
+  rdns: string;
+}
+
+// 알림 이벤트에 담기는 Provider 상세 정보
+export interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo;
+  provider: any;
+}
+
+// EIP-6963 이벤트 이름
+const ANNOUNCE_PROVIDER_EVENT = 'eip6963:announceProvider';
+const REQUEST_PROVIDER_EVENT = 'eip6963:requestProvider';
+
+// 지갑 식별자 (역방향 도메인)
+export const CRELINK_RDNS = 'com.creatachain.crelink';
+
+// 지갑 아이콘 (EIP-6963은 data URI 형식을 요구)
+const CRELINK_ICON = 'data:image/svg+xml;base64,' + btoa(
+  '<svg xmlns="http://www.w3.org/2000/svg" width="96" height="96" viewBox="0 0 96 96">' +
+  '<rect width="96" height="96" rx="24" fill="#3B82F6"/>' +
+  '<path d="M62 34a20 20 0 1 0 0 28" fill="none" stroke="#FFFFFF" stroke-width="10" stroke-linecap="round"/>' +
+  '</svg>'
+);
+
+/**
+ * 페이지 로드마다 새로 생성하는 UUID v4
+ */
+function createUuid(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Provider를 EIP-6963 방식으로 알림
+ * 즉시 한 번 알리고, 이후 DApp의 requestProvider 이벤트마다 다시 알립니다.
+ * @param provider 주입된 CreLink Provider
+ */
+export function announceProvider(provider: any): void {
+  const detail: EIP6963ProviderDetail = Object.freeze({
+    info: Object.freeze({
+      uuid: createUuid(),
+      name: 'CreLink Wallet',
+      icon: CRELINK_ICON,
+      rdns: CRELINK_RDNS
+    }),
+    provider
+  });
+  
+  const announce = () => {
+    window.dispatchEvent(new CustomEvent(ANNOUNCE_PROVIDER_EVENT, { detail }));
+  };
+  
+  announce();
+  window.addEventListener(REQUEST_PROVIDER_EVENT, announce);
+}
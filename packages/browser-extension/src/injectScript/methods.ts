@@ -36,21 +36,6 @@ export function createRPCMethods(provider: any): RPCMethodsMap {
       return accounts.length > 0 ? accounts[0] : null;
     },
     
-    /**
-     * 계정 연결 요청
-     * @returns 계정 목록
-     */
-    eth_requestAccounts: async () => {
-      // 이미 연결된 계정이 있으면 반환
-      if (state.accounts && state.accounts.length > 0) {
-        return state.accounts;
-      }
-      
-      // 연결 요청 전송
-      // 이 메서드는 항상 백그라운드 스크립트로 전달됨
-      throw new Error('eth_requestAccounts는 백그라운드 스크립트에서 처리해야 합니다.');
-    },
-    
     /**
      * 현재 체인 ID 조회
      * @returns 체인 ID (16진수 문자열)
@@ -71,56 +56,6 @@ export function createRPCMethods(provider: any): RPCMethodsMap {
       return null;
     },
     
-    /**
-     * 서명 요청 (개인 메시지)
-     * @param params 서명 파라미터
-     * @returns 서명 결과
-     */
-    personal_sign: async (params: any) => {
-      // 이 메서드는 항상 백그라운드 스크립트로 전달됨
-      throw new Error('personal_sign은 백그라운드 스크립트에서 처리해야 합니다.');
-    },
-    
-    /**
-     * 타입화된 데이터 서명 요청
-     * @param params 서명 파라미터
-     * @returns 서명 결과
-     */
-    eth_signTypedData_v4: async (params: any) => {
-      // 이 메서드는 항상 백그라운드 스크립트로 전달됨
-      throw new Error('eth_signTypedData_v4는 백그라운드 스크립트에서 처리해야 합니다.');
-    },
-    
-    /**
-     * 트랜잭션 전송 요청
-     * @param params 트랜잭션 파라미터
-     * @returns 트랜잭션 해시
-     */
-    eth_sendTransaction: async (params: any) => {
-      // 이 메서드는 항상 백그라운드 스크립트로 전달됨
-      throw new Error('eth_sendTransaction은 백그라운드 스크립트에서 처리해야 합니다.');
-    },
-    
-    /**
-     * 체인 전환 요청
-     * @param params 체인 파라미터
-     * @returns null (성공 시)
-     */
-    wallet_switchEthereumChain: async (params: any) => {
-      // 이 메서드는 항상 백그라운드 스크립트로 전달됨
-      throw new Error('wallet_switchEthereumChain은 백그라운드 스크립트에서 처리해야 합니다.');
-    },
-    
-    /**
-     * 체인 추가 요청
-     * @param params 체인 파라미터
-     * @returns null (성공 시)
-     */
-    wallet_addEthereumChain: async (params: any) => {
-      // 이 메서드는 항상 백그라운드 스크립트로 전달됨
-      throw new Error('wallet_addEthereumChain은 백그라운드 스크립트에서 처리해야 합니다.');
-    },
-    
     /**
      * 계정 마지막 활동 시간 갱신
      * @returns true (성공 시)
@@ -151,16 +86,6 @@ export function createRPCMethods(provider: any): RPCMethodsMap {
      */
     wallet_getSupportedMethods: () => {
       return Object.keys(this);
-    },
-    
-    /**
-     * 필터 등록 해제 (더미 구현)
-     * @param filterId 필터 ID
-     * @returns 성공 여부
-     */
-    eth_uninstallFilter: (filterId: string) => {
-      // 더미 구현 (항상 성공 반환)
-      return true;
     }
   };
 }
\ No newline at end of file
@@ -5,12 +5,13 @@
  */
 
 import { createRPCMethods } from './methods';
+import { announceProvider } from './eip6963';
 
 // 이벤트 콜백 타입
 type EventCallback = (...args: any[]) => void;
 
 // 지원하는 이벤트 타입
-type EventType = 'accountsChanged' | 'chainChanged' | 'disconnect' | 'connect';
+type EventType = 'accountsChanged' | 'chainChanged' | 'disconnect' | 'connect' | 'message';
 
 // Provider 인터페이스
 interface CrelinkProvider {
@@ -36,7 +37,8 @@ const eventCallbacks: Record<EventType, Set<EventCallback>> = {
   accountsChanged: new Set(),
   chainChanged: new Set(),
   disconnect: new Set(),
-  connect: new Set()
+  connect: new Set(),
+  message: new Set()
 };
 
 /**
@@ -78,7 +80,14 @@ export function initializeProvider(): void {
       }
       
       // 로컬에서 처리할 수 없는 메서드는 확장 프로그램으로 전달
-      return await sendMessageToContentScript(method, params);
+      const result = await sendMessageToContentScript(method, params);
+      
+      // 계정 연결 결과를 상태에 반영
+      if (method === 'eth_requestAccounts' && Array.isArray(result)) {
+        updateAccounts(result);
+      }
+      
+      return result;
     },
     
     /**
@@ -150,7 +159,7 @@ export function initializeProvider(): void {
         const rpcMethods = createRPCMethods(provider);
         
         // 동기적으로 처리 가능한 메서드 목록
-        const synchronousMethods = ['eth_accounts', 'eth_coinbase', 'eth_uninstallFilter', 'net_version'];
+        const synchronousMethods = ['eth_accounts', 'eth_coinbase', 'net_version'];
         
         if (synchronousMethods.includes(method) && typeof rpcMethods[method] === 'function') {
           try {
@@ -173,6 +182,9 @@ export function initializeProvider(): void {
   // window 객체에 crelink 주입
   window.crelink = provider;
   
+  // 다른 지갑과 함께 검색될 수 있도록 EIP-6963 알림
+  announceProvider(provider);
+  
   // 콘텐츠 스크립트로부터 오는 메시지 처리
   window.addEventListener('message', (event) => {
     // 같은 출처의 메시지만 처리
@@ -240,7 +252,7 @@ function sendMessageToContentScript(method: string, params?: any): Promise<any>
     // 응답 콜백 등록
     responseCallbacks.set(id, (response) => {
       if (response.error) {
-        reject(new Error(response.error));
+        reject(createProviderError(response.error));
       } else {
         resolve(response.result);
       }
@@ -261,6 +273,39 @@ function sendMessageToContentScript(method: string, params?: any): Promise<any>
   });
 }
 
+/**
+ * 응답 오류를 EIP-1193 오류 객체로 변환
+ * @param error 직렬화된 오류 (문자열 또는 { code, message, data })
+ * @returns 코드가 포함된 Error 객체
+ */
+function createProviderError(error: any): Error & { code?: number; data?: any } {
+  if (typeof error === 'string') {
+    return new Error(error);
+  }
+  
+  const providerError: Error & { code?: number; data?: any } = new Error(error.message);
+  providerError.code = error.code;
+  if (error.data !== undefined) {
+    providerError.data = error.data;
+  }
+  return providerError;
+}
+
+/**
+ * 계정 상태 갱신
+ * 계정 목록이 바뀐 경우에만 accountsChanged 이벤트를 발생시킵니다.
+ * @param accounts 새 계정 목록
+ */
+function updateAccounts(accounts: string[]): void {
+  const current = window.crelink._state.accounts || [];
+  const changed = current.length !== accounts.length
+    || current.some((account, index) => account !== accounts[index]);
+  
+  if (changed) {
+    handleEvent('accountsChanged', accounts);
+  }
+}
+
 /**
  * RPC 응답 처리
  * @param response 응답 메시지
@@ -18,22 +18,25 @@ interface ApprovalLayoutProps {
 const ApprovalLayout: React.FC<ApprovalLayoutProps> = ({ isLocked }) => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { wallet, isInitialized } = useWallet();
+  const { hasWallet, isLocked: isWalletLocked, isInitialized } = useWallet();
+  
+  // 팝업이 열린 뒤 잠금 해제될 수 있으므로 컨텍스트의 최신 잠금 상태를 함께 확인
+  const locked = isLocked && isWalletLocked;
   
   // 인증 상태 확인
   useEffect(() => {
-    if (isLocked && isInitialized) {
+    if (locked && isInitialized) {
       // 잠금 상태인 경우 로그인 페이지로 리디렉션
       // 현재 URL을 state로 저장하여 로그인 후 돌아올 수 있도록 함
       navigate('/login', { state: { from: location.pathname } });
-    } else if (!wallet && isInitialized) {
+    } else if (!hasWallet && isInitialized) {
       // 지갑이 없는 경우 온보딩 페이지로 리디렉션
       navigate('/onboarding');
     }
-  }, [isLocked, wallet, isInitialized, navigate, location]);
+  }, [locked, hasWallet, isInitialized, navigate, location]);
   
   // 인증 상태 확인 중이거나 인증되지 않은 경우 null 반환
-  if (isLocked || !wallet) {
+  if (locked || !hasWallet) {
     return null;
   }
   
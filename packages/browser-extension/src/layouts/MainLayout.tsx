@@ -20,7 +20,7 @@ interface MainLayoutProps {
 const MainLayout: React.FC<MainLayoutProps> = ({ isLocked }) => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { wallet, isInitialized } = useWallet();
+  const { hasWallet, isInitialized } = useWallet();
   const { t } = useTranslation();
   
   // 인증 상태 확인
@@ -28,14 +28,14 @@ const MainLayout: React.FC<MainLayoutProps> = ({ isLocked }) => {
     if (isLocked && isInitialized) {
       // 잠금 상태인 경우 로그인 페이지로 리디렉션
       navigate('/login', { state: { from: location.pathname } });
-    } else if (!wallet && isInitialized) {
+    } else if (!hasWallet && isInitialized) {
       // 지갑이 없는 경우 온보딩 페이지로 리디렉션
       navigate('/onboarding');
     }
-  }, [isLocked, wallet, isInitialized, navigate, location]);
+  }, [isLocked, hasWallet, isInitialized, navigate, location]);
   
   // 인증 상태 확인 중이거나 인증되지 않은 경우 null 반환
-  if (isLocked || !wallet) {
+  if (isLocked || !hasWallet) {
     return null;
   }
   
@@ -79,12 +79,23 @@ const App: React.FC = () => {
     return <Loading />;
   }
   
+  // DApp 승인 창으로 열린 경우 (popup.html?action=approval)
+  const action = new URLSearchParams(window.location.search).get('action');
+  const isApprovalWindow = action === 'approval';
+  // 하드웨어 지갑 QR 서명 창으로 열린 경우 (popup.html?action=qr-sign)
+  const isQRSignWindow = action === 'qr-sign';
+  
   // 지갑이 없는 경우 온보딩으로 리디렉션
+  // 승인 창은 잠금 상태여도 승인 레이아웃에서 로그인 후 돌아오도록 처리
   const initialRoute = !hasWallet
     ? '/onboarding'
-    : isLocked
-      ? '/login'
-      : '/wallet';
+    : isApprovalWindow
+      ? '/approval'
+      : isQRSignWindow
+        ? '/approval/qr-sign'
+        : isLocked
+          ? '/login'
+          : '/wallet';
   
   return (
     <Router>
@@ -119,13 +130,13 @@ const App: React.FC = () => {
                     ))}
                   </Route>
                   
-                  {/* 승인 요청 라우트 */}
+                  {/* 승인 요청 라우트 (잠금 상태 확인은 승인 레이아웃에서 처리) */}
                   <Route element={<ApprovalLayout isLocked={isLocked} />}>
                     {routes.approval.map((route) => (
                       <Route
                         key={route.path}
                         path={route.path}
-                        element={isLocked ? <Navigate to="/login" replace /> : route.element}
+                        element={route.element}
                       />
                     ))}
                   </Route>
@@ -0,0 +1,79 @@
+/**
+ * 애니메이션 QR 코드 컴포넌트
+ * UR을 여러 조각으로 나눠 일정 간격으로 바꿔 가며 표시합니다. (에어갭 하드웨어 지갑 서명 요청)
+ */
+
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { UREncoder, decodeUR } from '@crelink/core';
+
+// Props 타입 정의
+interface AnimatedQRCodeProps {
+  ur: string;
+  size?: number;
+  interval?: number;
+  maxFragmentLength?: number;
+  className?: string;
+}
+
+/**
+ * 애니메이션 QR 코드 컴포넌트
+ * @param ur 표시할 UR 문자열
+ * @param size QR 코드 크기 (픽셀)
+ * @param interval 프레임 간격 (밀리초)
+ * @param maxFragmentLength 조각 최대 바이트 수 (작을수록 QR이 단순해짐)
+ * @param className 추가 CSS 클래스
+ */
+const AnimatedQRCode: React.FC<AnimatedQRCodeProps> = ({
+  ur,
+  size = 240,
+  interval = 200,
+  maxFragmentLength = 100,
+  className = '',
+}) => {
+  const [frame, setFrame] = useState('');
+
+  useEffect(() => {
+    const encoder = new UREncoder(decodeUR(ur), maxFragmentLength);
+    let cancelled = false;
+
+    // 다음 파트를 QR 이미지로 변환
+    const renderNext = () => {
+      QRCode.toDataURL(encoder.nextPart().toUpperCase(), {
+        errorCorrectionLevel: 'L',
+        margin: 1,
+        width: size,
+      })
+        .then((dataUrl: string) => {
+          if (!cancelled) {
+            setFrame(dataUrl);
+          }
+        })
+        .catch((error: Error) => console.error('QR 코드 생성 중 오류:', error));
+    };
+
+    renderNext();
+    if (encoder.isSinglePart()) {
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    const timerId = setInterval(renderNext, interval);
+    return () => {
+      cancelled = true;
+      clearInterval(timerId);
+    };
+  }, [ur, size, interval, maxFragmentLength]);
+
+  return (
+    <div
+      className={`mx-auto bg-white p-2 border border-gray-300 rounded-md ${className}`}
+      style={{ width: size + 16, height: size + 16 }}
+    >
+      {frame && <img src={frame} width={size} height={size} alt="QR" />}
+    </div>
+  );
+};
+
+export default AnimatedQRCode;
@@ -0,0 +1,124 @@
+/**
+ * QR 스캐너 컴포넌트
+ * 카메라로 (애니메이션) UR QR 코드를 스캔해 모든 조각이 모이면 UR 문자열을 전달합니다.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+import { URDecoder, encodeUR } from '@crelink/core';
+
+// Props 타입 정의
+interface QRScannerProps {
+  expectedType: string;
+  onScan: (ur: string) => void;
+  onError?: (message: string) => void;
+  className?: string;
+}
+
+/**
+ * QR 스캐너 컴포넌트
+ * @param expectedType 기대하는 UR 타입 (예: crypto-hdkey, eth-signature)
+ * @param onScan 스캔 완료 핸들러 (단일 파트 UR 문자열)
+ * @param onError 오류 핸들러
+ * @param className 추가 CSS 클래스
+ */
+const QRScanner: React.FC<QRScannerProps> = ({ expectedType, onScan, onError, className = '' }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [progress, setProgress] = useState(0);
+  const [cameraError, setCameraError] = useState('');
+
+  // 스캔 중 바뀐 핸들러를 사용하도록 참조로 보관
+  const handlersRef = useRef({ onScan, onError });
+  handlersRef.current = { onScan, onError };
+
+  useEffect(() => {
+    const decoder = new URDecoder(expectedType);
+    let stream: MediaStream | null = null;
+    let frameId = 0;
+    let done = false;
+
+    // 비디오 프레임에서 QR 코드 읽기
+    const scanFrame = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (done || !video || !canvas) {
+        return;
+      }
+
+      if (video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+        context?.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const image = context?.getImageData(0, 0, canvas.width, canvas.height);
+        const code = image && jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+
+        if (code?.data) {
+          try {
+            if (decoder.receivePart(code.data)) {
+              setProgress(decoder.getProgress());
+            }
+            if (decoder.isComplete()) {
+              done = true;
+              handlersRef.current.onScan(encodeUR(decoder.getResult()));
+              return;
+            }
+          } catch (error) {
+            handlersRef.current.onError?.((error as Error).message);
+          }
+        }
+      }
+
+      frameId = requestAnimationFrame(scanFrame);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then((mediaStream) => {
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          videoRef.current.play().catch(() => {});
+        }
+        frameId = requestAnimationFrame(scanFrame);
+      })
+      .catch((error) => {
+        console.error('카메라 접근 중 오류:', error);
+        setCameraError('카메라에 접근할 수 없습니다. 브라우저의 카메라 권한을 확인하세요.');
+      });
+
+    return () => {
+      done = true;
+      cancelAnimationFrame(frameId);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [expectedType]);
+
+  if (cameraError) {
+    return (
+      <div className={`p-3 bg-red-50 text-red-600 text-sm rounded-md ${className}`}>
+        {cameraError}
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <video ref={videoRef} className="w-full rounded-md bg-black" muted playsInline />
+      <canvas ref={canvasRef} className="hidden" />
+      {progress > 0 && progress < 1 && (
+        <div className="mt-2">
+          <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div className="h-full bg-primary" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+          <p className="text-xs text-gray-500 mt-1 text-center">
+            QR 조각 수신 중... {Math.round(progress * 100)}%
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QRScanner;
@@ -48,7 +48,7 @@ interface BridgeData {
 const BridgeContainer: React.FC = () => {
   const { t } = useTranslation();
   const navigate = useNavigate();
-  const { account, signTransaction } = useWallet();
+  const { selectedAccount: account, signTransaction } = useWallet();
   const { currentChain, availableChains, switchChain } = useNetwork();
   
   // 현재 브릿지 단계
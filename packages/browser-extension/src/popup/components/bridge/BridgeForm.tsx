@@ -53,7 +53,7 @@ const BridgeForm: React.FC<BridgeFormProps> = ({
   setError
 }) => {
   const { t } = useTranslation();
-  const { account } = useWallet();
+  const { selectedAccount: account } = useWallet();
   const { currentChain, availableChains } = useNetwork();
   const { balances, getTokenInfo } = useAssets();
   
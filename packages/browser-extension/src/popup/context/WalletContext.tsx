@@ -4,12 +4,100 @@
  */
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import {
+  AddressPoisoningWarning,
+  Contact,
+  ContactInput,
+  EthDataType,
+  HardwareAccountCandidate,
+  RecipientSuggestion,
+  ResolvedName,
+  RpcEndpointHealth,
+  TokenApproval,
+  TokenMetadata,
+  TokenValidationStatus
+} from '@crelink/core';
+
+// 계정 부가 정보 타입 정의
+export interface AccountMetadata {
+  didConnected?: boolean;
+  didNickname?: string;
+}
 
 // 계정 타입 정의
 export interface Account {
   address: string;
   name: string;
   index: number;
+  isWatchOnly?: boolean;
+  watchInput?: string;
+  metadata?: AccountMetadata;
+}
+
+// 소셜 복구 설정 타입 정의
+export interface SocialRecoveryConfig {
+  enabled: boolean;
+  guardians: string[];
+  threshold: number;
+}
+
+// 지갑 설정 타입 정의
+export interface WalletSettings {
+  language?: string;
+  darkMode?: boolean;
+  useBiometrics?: boolean;
+  autoLock?: boolean;
+  autoChainSwitch?: boolean;
+  cloudBackup?: boolean;
+  socialRecovery?: SocialRecoveryConfig;
+}
+
+// 가스 추정 정보 타입 정의 (가스 가격은 Gwei 단위)
+export interface GasEstimate {
+  gasLimit: string;
+  slow: string;
+  medium: string;
+  fast: string;
+}
+
+// DApp 승인 요청 타입 정의
+export interface PendingApproval {
+  id: string;
+  type: string;
+  origin: string;
+  data: any;
+  createdAt: number;
+}
+
+// 하드웨어 지갑 QR 서명 요청 타입 정의
+export interface PendingQRSignRequest {
+  requestId: string;
+  dataType: EthDataType;
+  address: string;
+  path: string;
+  chainId?: number;
+  ur: string;
+  createdAt: number;
+}
+
+// 추가한 토큰 타입 정의
+export interface AssetToken extends TokenMetadata {
+  logoURI?: string;
+  validationStatus?: TokenValidationStatus;
+}
+
+// 자산 잔액 타입 정의
+export interface AssetBalances {
+  chainId: number;
+  nativeBalance: string;
+  tokens: Array<AssetToken & { balance: string }>;
+}
+
+// RPC 엔드포인트 상태 타입 정의
+export interface RpcEndpointHealthReport {
+  chainId: number;
+  activeEndpoint: string;
+  endpoints: RpcEndpointHealth[];
 }
 
 // 지갑 상태 타입 정의
@@ -19,6 +107,7 @@ interface WalletState {
   isLocked: boolean;
   hasWallet: boolean;
   isInitialized: boolean;
+  settings: WalletSettings;
 }
 
 // 지갑 컨텍스트 타입 정의
@@ -28,10 +117,51 @@ interface WalletContextType extends WalletState {
   recoverWalletWithDID: (didType: string, didCredential: any, pin: string) => Promise<void>;
   unlockWallet: (password: string) => Promise<boolean>;
   lockWallet: () => Promise<void>;
-  createAccount: () => Promise<Account>;
+  resetWallet: (password: string) => Promise<void>;
+  createAccount: (name?: string) => Promise<Account>;
   selectAccount: (address: string) => Promise<void>;
   renameAccount: (address: string, name: string) => Promise<void>;
   refreshAccounts: () => Promise<void>;
+  exportAccount: (address: string, password: string) => Promise<string>;
+  exportMnemonic: (password: string) => Promise<string>;
+  updateSettings: (updates: Partial<WalletSettings>) => Promise<void>;
+  setCloudBackup: (enabled: boolean, password: string) => Promise<void>;
+  getSocialRecovery: () => Promise<SocialRecoveryConfig | null>;
+  setSocialRecovery: (config: SocialRecoveryConfig) => Promise<void>;
+  connectDID: (address: string, type: string, credential?: any) => Promise<string>;
+  disconnectDID: (address: string) => Promise<void>;
+  setDIDNickname: (address: string, nickname: string) => Promise<void>;
+  getDIDLogs: (address: string) => Promise<any[]>;
+  sendTransaction: (txParams: any) => Promise<string>;
+  signTransaction: (txParams: any) => Promise<string>;
+  estimateGas: (txParams?: any) => Promise<GasEstimate>;
+  getPendingApprovals: () => Promise<PendingApproval[]>;
+  approveRequest: (requestId: string, result?: any) => Promise<void>;
+  rejectRequest: (requestId: string) => Promise<void>;
+  addWatchOnlyAccount: (input: string, name?: string) => Promise<string>;
+  getQRAccountCandidates: (ur: string, start: number, count: number) => Promise<HardwareAccountCandidate[]>;
+  importQRAccounts: (ur: string, indexes: number[]) => Promise<string[]>;
+  getPendingQRSignRequests: () => Promise<PendingQRSignRequest[]>;
+  submitQRSignature: (requestId: string, ur: string) => Promise<void>;
+  cancelQRSignRequest: (requestId: string) => Promise<void>;
+  removeAccount: (address: string) => Promise<void>;
+  checkRecipientAddress: (address: string) => Promise<AddressPoisoningWarning[]>;
+  resolveRecipient: (recipient: string) => Promise<ResolvedName>;
+  lookupAddressName: (address: string) => Promise<string | null>;
+  getRecipientSuggestions: (query?: string) => Promise<RecipientSuggestion[]>;
+  getContacts: () => Promise<Contact[]>;
+  addContact: (contact: ContactInput) => Promise<Contact>;
+  updateContact: (id: string, updates: Partial<ContactInput>) => Promise<Contact>;
+  deleteContact: (id: string) => Promise<void>;
+  getAssetBalances: () => Promise<AssetBalances>;
+  getTokenMetadata: (tokenAddress: string) => Promise<TokenMetadata>;
+  addToken: (token: AssetToken) => Promise<void>;
+  getListedTokens: () => Promise<AssetToken[]>;
+  validateToken: (tokenAddress: string) => Promise<AssetToken>;
+  discoverTokens: () => Promise<AssetToken[]>;
+  getTokenApprovals: () => Promise<TokenApproval[]>;
+  revokeTokenApprovals: (approvals: TokenApproval[]) => Promise<string[]>;
+  getRpcEndpointHealth: (refresh?: boolean) => Promise<RpcEndpointHealthReport>;
 }
 
 // 기본 컨텍스트 값
@@ -41,11 +171,13 @@ const defaultContextValue: WalletContextType = {
   isLocked: true,
   hasWallet: false,
   isInitialized: false,
+  settings: {},
   createWallet: async () => '',
   importWallet: async () => {},
   recoverWalletWithDID: async () => {},
   unlockWallet: async () => false,
   lockWallet: async () => {},
+  resetWallet: async () => {},
   createAccount: async () => ({
     address: '',
     name: '',
@@ -54,10 +186,66 @@ const defaultContextValue: WalletContextType = {
   selectAccount: async () => {},
   renameAccount: async () => {},
   refreshAccounts: async () => {},
+  exportAccount: async () => '',
+  exportMnemonic: async () => '',
+  updateSettings: async () => {},
+  setCloudBackup: async () => {},
+  getSocialRecovery: async () => null,
+  setSocialRecovery: async () => {},
+  connectDID: async () => '',
+  disconnectDID: async () => {},
+  setDIDNickname: async () => {},
+  getDIDLogs: async () => [],
+  sendTransaction: async () => '',
+  signTransaction: async () => '',
+  estimateGas: async () => ({ gasLimit: '21000', slow: '0', medium: '0', fast: '0' }),
+  getPendingApprovals: async () => [],
+  approveRequest: async () => {},
+  rejectRequest: async () => {},
+  addWatchOnlyAccount: async () => '',
+  getQRAccountCandidates: async () => [],
+  importQRAccounts: async () => [],
+  getPendingQRSignRequests: async () => [],
+  submitQRSignature: async () => {},
+  cancelQRSignRequest: async () => {},
+  removeAccount: async () => {},
+  checkRecipientAddress: async () => [],
+  resolveRecipient: async (recipient: string) => { throw new Error(`Cannot resolve ${recipient}`); },
+  lookupAddressName: async () => null,
+  getRecipientSuggestions: async () => [],
+  getContacts: async () => [],
+  addContact: async (contact: ContactInput) => ({ id: '', ...contact, createdAt: 0, updatedAt: 0 }),
+  updateContact: async (id: string) => { throw new Error(`Cannot update contact ${id}`); },
+  deleteContact: async () => {},
+  getAssetBalances: async () => ({ chainId: 0, nativeBalance: '0', tokens: [] }),
+  getTokenMetadata: async (tokenAddress: string) => ({ address: tokenAddress, name: '', symbol: '', decimals: 18 }),
+  addToken: async () => {},
+  getListedTokens: async () => [],
+  validateToken: async (tokenAddress: string) => ({ address: tokenAddress, name: '', symbol: '', decimals: 18 }),
+  discoverTokens: async () => [],
+  getTokenApprovals: async () => [],
+  revokeTokenApprovals: async () => [],
+  getRpcEndpointHealth: async () => ({ chainId: 0, activeEndpoint: '', endpoints: [] }),
 };
 
 // 컨텍스트 생성
-const WalletContext = createContext<WalletContextType>(defaultContextValue);
+export const WalletContext = createContext<WalletContextType>(defaultContextValue);
+
+// 지갑 설정 저장 키 (팝업 localStorage)
+const SETTINGS_STORAGE_KEY = 'walletSettings';
+
+/**
+ * 저장된 지갑 설정 로드
+ * @returns 지갑 설정
+ */
+const loadSettings = (): WalletSettings => {
+  try {
+    return JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+  } catch (error) {
+    console.error('지갑 설정 로드 중 오류:', error);
+    return {};
+  }
+};
 
 // Props 타입 정의
 interface WalletProviderProps {
@@ -75,6 +263,7 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
   const [isLocked, setIsLocked] = useState<boolean>(true);
   const [hasWallet, setHasWallet] = useState<boolean>(false);
   const [isInitialized, setIsInitialized] = useState<boolean>(false);
+  const [settings, setSettings] = useState<WalletSettings>(loadSettings);
   
   // 초기화
   useEffect(() => {
@@ -85,7 +274,6 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
           type: 'internal',
           method: 'isInitialized',
         });
-        setIsInitialized(initResult.result);
         
         // 지갑 존재 여부 확인
         const hasWalletResult = await chrome.runtime.sendMessage({
@@ -101,6 +289,9 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
         });
         setIsLocked(isLockedResult.result);
         
+        // 초기화 상태는 지갑 존재/잠금 상태를 반영한 뒤 설정 (지갑 없음으로 잘못 리디렉션되지 않도록)
+        setIsInitialized(initResult.result);
+        
         // 잠금 해제된 경우 계정 정보 로드
         if (!isLockedResult.result) {
           await refreshAccountsInternal();
@@ -115,8 +306,9 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
   
   /**
    * 계정 정보 새로고침 (내부 함수)
+   * @returns 새로고침한 계정 목록
    */
-  const refreshAccountsInternal = async () => {
+  const refreshAccountsInternal = async (): Promise<Account[]> => {
     try {
       // 계정 목록 조회
       const accountsResult = await chrome.runtime.sendMessage({
@@ -125,11 +317,36 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
       });
       
       const accountsList = accountsResult.result || [];
-      const formattedAccounts = accountsList.map((address: string, index: number) => ({
-        address,
-        name: `계정 ${index + 1}`,
-        index,
-      }));
+      
+      // 조회 전용 계정은 추가할 때 입력한 이름과 원래 입력(ENS 이름, DID)을 표시
+      const watchOnlyResult = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'getWatchOnlyAccounts',
+      });
+      const watchOnlyAccounts: Array<{ address: string; name: string; watchSource?: { input: string } }> =
+        watchOnlyResult.result || [];
+      
+      // 계정에 연결된 DID와 별칭 표시
+      const didsResult = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'getDIDs',
+      });
+      const dids: Array<{ address: string; alias?: string }> = didsResult.result || [];
+      
+      const formattedAccounts: Account[] = accountsList.map((address: string, index: number) => {
+        const watchOnly = watchOnlyAccounts.find(
+          (account) => account.address.toLowerCase() === address.toLowerCase()
+        );
+        const did = dids.find((info) => info.address.toLowerCase() === address.toLowerCase());
+        
+        return {
+          address,
+          name: watchOnly ? watchOnly.name : `계정 ${index + 1}`,
+          index,
+          ...(watchOnly && { isWatchOnly: true, watchInput: watchOnly.watchSource?.input }),
+          ...(did && { metadata: { didConnected: true, didNickname: did.alias } }),
+        };
+      });
       
       setAccounts(formattedAccounts);
       
@@ -146,8 +363,11 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
         );
         setSelectedAccount(selected || null);
       }
+      
+      return formattedAccounts;
     } catch (error) {
       console.error('계정 정보 조회 중 오류:', error);
+      return [];
     }
   };
   
@@ -296,11 +516,40 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
     }
   };
   
+  /**
+   * 지갑 초기화
+   * 볼트와 모든 저장 데이터를 삭제합니다. (백그라운드가 비밀번호를 확인한 뒤 삭제하고, 응답 후 다시 로드됨)
+   */
+  const resetWallet = async (password: string): Promise<void> => {
+    try {
+      const result = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'resetWallet',
+        params: { password },
+      });
+      
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      
+      localStorage.removeItem(SETTINGS_STORAGE_KEY);
+      setSettings({});
+      setIsLocked(false);
+      setHasWallet(false);
+      setAccounts([]);
+      setSelectedAccount(null);
+    } catch (error) {
+      console.error('지갑 초기화 중 오류:', error);
+      throw error;
+    }
+  };
+  
   /**
    * 새 계정 생성
+   * @param name 계정 이름 (선택 사항)
    * @returns 생성된 계정 정보
    */
-  const createAccount = async (): Promise<Account> => {
+  const createAccount = async (name?: string): Promise<Account> => {
     try {
       const result = await chrome.runtime.sendMessage({
         type: 'internal',
@@ -312,14 +561,22 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
       }
       
       // 계정 정보 새로고침
-      await refreshAccountsInternal();
+      const refreshedAccounts = await refreshAccountsInternal();
       
-      const newAccount = accounts.find((account) => account.address === result.result);
+      const newAccount = refreshedAccounts.find((account) => account.address === result.result);
       if (!newAccount) {
         throw new Error('새 계정을 찾을 수 없습니다.');
       }
       
-      return newAccount;
+      if (!name) {
+        return newAccount;
+      }
+      
+      // 이름을 지정한 경우 로컬 상태에 반영 (renameAccount와 동일)
+      const namedAccount = { ...newAccount, name };
+      setAccounts(refreshedAccounts.map((account) => (account.address === namedAccount.address ? namedAccount : account)));
+      
+      return namedAccount;
     } catch (error) {
       console.error('계정 생성 중 오류:', error);
       throw error;
@@ -374,6 +631,220 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
     // 실제 구현에서는 스토리지에 저장하는 로직 필요
   };
   
+  /**
+   * 계정 개인키 내보내기
+   * @param address 계정 주소
+   * @param password 지갑 비밀번호
+   * @returns 키스토어 JSON
+   */
+  const exportAccount = async (address: string, password: string): Promise<string> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'exportAccount',
+        params: { address, password },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result;
+    } catch (error) {
+      console.error('계정 내보내기 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 니모닉 구문 내보내기
+   * @param password 지갑 비밀번호
+   * @returns 니모닉 구문
+   */
+  const exportMnemonic = async (password: string): Promise<string> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'exportMnemonic',
+        params: { password },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result;
+    } catch (error) {
+      console.error('니모닉 내보내기 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 조회 전용 계정 추가
+   * @param input 주소, ENS 이름, Catena 이름 또는 zkDID
+   * @param name 계정 이름 (선택 사항)
+   * @returns 추가된 계정 주소
+   */
+  const addWatchOnlyAccount = async (input: string, name?: string): Promise<string> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'addWatchOnlyAccount',
+        params: { input, name },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      await refreshAccountsInternal();
+      return response.result;
+    } catch (error) {
+      console.error('조회 전용 계정 추가 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * QR 하드웨어 지갑의 계정 후보 조회
+   * @param ur 디바이스가 내보낸 crypto-hdkey UR
+   * @param start 시작 인덱스
+   * @param count 조회할 개수
+   * @returns 계정 후보 목록
+   */
+  const getQRAccountCandidates = async (
+    ur: string,
+    start: number,
+    count: number
+  ): Promise<HardwareAccountCandidate[]> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'getQRAccountCandidates',
+        params: { ur, start, count },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result || [];
+    } catch (error) {
+      console.error('하드웨어 지갑 계정 조회 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * QR 하드웨어 지갑 계정 가져오기
+   * @param ur 디바이스가 내보낸 crypto-hdkey UR
+   * @param indexes 가져올 주소 인덱스 목록
+   * @returns 추가된 계정 주소 목록
+   */
+  const importQRAccounts = async (ur: string, indexes: number[]): Promise<string[]> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'importQRAccounts',
+        params: { ur, indexes },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      await refreshAccountsInternal();
+      return response.result;
+    } catch (error) {
+      console.error('하드웨어 지갑 계정 가져오기 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 대기 중인 QR 서명 요청 목록 조회
+   * @returns QR 서명 요청 목록
+   */
+  const getPendingQRSignRequests = async (): Promise<PendingQRSignRequest[]> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'getPendingQRSignRequests',
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result || [];
+    } catch (error) {
+      console.error('QR 서명 요청 조회 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 스캔한 서명 QR 제출
+   * @param requestId 서명 요청 ID
+   * @param ur 스캔한 eth-signature UR
+   */
+  const submitQRSignature = async (requestId: string, ur: string): Promise<void> => {
+    const response = await chrome.runtime.sendMessage({
+      type: 'internal',
+      method: 'submitQRSignature',
+      params: { requestId, ur },
+    });
+    
+    if (response.error) {
+      throw new Error(response.error);
+    }
+  };
+  
+  /**
+   * QR 서명 요청 취소
+   * @param requestId 서명 요청 ID
+   */
+  const cancelQRSignRequest = async (requestId: string): Promise<void> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'cancelQRSignRequest',
+        params: { requestId },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+    } catch (error) {
+      console.error('QR 서명 요청 취소 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 계정 제거 (가져온 계정과 조회 전용 계정만 가능)
+   * @param address 제거할 계정 주소
+   */
+  const removeAccount = async (address: string): Promise<void> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'removeAccount',
+        params: { address },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      await refreshAccountsInternal();
+    } catch (error) {
+      console.error('계정 제거 중 오류:', error);
+      throw error;
+    }
+  };
+  
   /**
    * 계정 정보 새로고침
    */
@@ -381,6 +852,681 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
     await refreshAccountsInternal();
   };
   
+  /**
+   * 대기 중인 DApp 승인 요청 조회
+   * @returns 승인 요청 목록 (오래된 순)
+   */
+  const getPendingApprovals = async (): Promise<PendingApproval[]> => {
+    try {
+      const result = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'getPendingApprovals',
+      });
+      
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      
+      return result.result || [];
+    } catch (error) {
+      console.error('승인 요청 조회 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * DApp 요청 승인
+   * @param requestId 승인 요청 ID
+   * @param result 승인 결과 데이터 (예: 연결할 계정 목록)
+   */
+  const approveRequest = async (requestId: string, result?: any): Promise<void> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'approveRequest',
+        params: { requestId, result },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+    } catch (error) {
+      console.error('요청 승인 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * DApp 요청 거절
+   * @param requestId 승인 요청 ID
+   */
+  const rejectRequest = async (requestId: string): Promise<void> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'rejectRequest',
+        params: { requestId },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+    } catch (error) {
+      console.error('요청 거절 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 수신 주소의 주소 중독 위험 확인
+   * @param address 수신 주소
+   * @returns 경고 목록 (비어 있으면 안전)
+   */
+  const checkRecipientAddress = async (address: string): Promise<AddressPoisoningWarning[]> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'checkRecipientAddress',
+        params: { address },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result || [];
+    } catch (error) {
+      console.error('수신 주소 확인 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 수신자 입력을 주소로 해석
+   * ENS 이름(name.eth), Catena 이름(name.cta), zkDID(did:creata:zk:...), zkDID 별칭(@name.creata)을 지원합니다.
+   * @param recipient 수신자 입력
+   * @returns 해석 결과
+   */
+  const resolveRecipient = async (recipient: string): Promise<ResolvedName> => {
+    const response = await chrome.runtime.sendMessage({
+      type: 'internal',
+      method: 'resolveRecipient',
+      params: { recipient },
+    });
+    
+    if (response.error) {
+      throw new Error(response.error);
+    }
+    
+    return response.result;
+  };
+  
+  /**
+   * 주소의 대표 이름 조회 (ENS 또는 Catena 역방향 레코드)
+   * @param address 주소
+   * @returns 이름 또는 null
+   */
+  const lookupAddressName = async (address: string): Promise<string | null> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'lookupAddressName',
+        params: { address },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result || null;
+    } catch (error) {
+      console.error('주소 이름 조회 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 선택된 계정의 자산 잔액 조회
+   * 네이티브 잔액과 추가한 토큰 잔액을 백그라운드에서 한 번에 조회합니다.
+   * @returns 자산 잔액
+   */
+  const getAssetBalances = async (): Promise<AssetBalances> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'getAssetBalances',
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result;
+    } catch (error) {
+      console.error('자산 잔액 조회 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 토큰 메타데이터 조회
+   * @param tokenAddress 토큰 계약 주소
+   * @returns 토큰 이름, 심볼, 소수점 자릿수
+   */
+  const getTokenMetadata = async (tokenAddress: string): Promise<TokenMetadata> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'getTokenMetadata',
+        params: { tokenAddress },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result;
+    } catch (error) {
+      console.error('토큰 정보 조회 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 선택된 네트워크에 토큰 추가
+   * @param token 토큰 정보
+   */
+  const addToken = async (token: AssetToken): Promise<void> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'addToken',
+        params: { token },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+    } catch (error) {
+      console.error('토큰 추가 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 선택된 네트워크의 토큰 목록 조회
+   * @returns 토큰 목록에 있는 토큰
+   */
+  const getListedTokens = async (): Promise<AssetToken[]> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'getListedTokens',
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result;
+    } catch (error) {
+      console.error('토큰 목록 조회 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 토큰 검증
+   * @param tokenAddress 토큰 계약 주소
+   * @returns 검증 상태가 포함된 토큰 정보
+   */
+  const validateToken = async (tokenAddress: string): Promise<AssetToken> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'validateToken',
+        params: { tokenAddress },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result;
+    } catch (error) {
+      console.error('토큰 검증 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 선택된 계정의 보유 토큰 탐색
+   * @returns 새로 추가한 토큰 목록
+   */
+  const discoverTokens = async (): Promise<AssetToken[]> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'discoverTokens',
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result;
+    } catch (error) {
+      console.error('보유 토큰 탐색 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 송금 화면의 수신자 후보 조회
+   * @param query 검색어 (이름, 메모, 주소 앞부분)
+   * @returns 내 계정, 조회 전용 계정, 연락처 후보 목록
+   */
+  const getRecipientSuggestions = async (query: string = ''): Promise<RecipientSuggestion[]> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'getRecipientSuggestions',
+        params: { query },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result;
+    } catch (error) {
+      console.error('수신자 후보 조회 중 오류:', error);
+      return [];
+    }
+  };
+  
+  /**
+   * 주소록 연락처 목록 조회
+   */
+  const getContacts = async (): Promise<Contact[]> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'getContacts',
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result;
+    } catch (error) {
+      console.error('주소록 조회 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 주소록 연락처 추가
+   * @param contact 연락처 정보
+   * @returns 추가된 연락처
+   */
+  const addContact = async (contact: ContactInput): Promise<Contact> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'addContact',
+        params: { contact },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result;
+    } catch (error) {
+      console.error('연락처 추가 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 주소록 연락처 수정
+   * @param id 연락처 ID
+   * @param updates 수정할 필드
+   * @returns 수정된 연락처
+   */
+  const updateContact = async (id: string, updates: Partial<ContactInput>): Promise<Contact> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'updateContact',
+        params: { id, updates },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result;
+    } catch (error) {
+      console.error('연락처 수정 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 주소록 연락처 삭제
+   * @param id 연락처 ID
+   */
+  const deleteContact = async (id: string): Promise<void> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'deleteContact',
+        params: { id },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+    } catch (error) {
+      console.error('연락처 삭제 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 선택된 계정의 토큰 승인 목록 조회
+   * @returns 위험도가 높은 순으로 정렬된 승인 목록
+   */
+  const getTokenApprovals = async (): Promise<TokenApproval[]> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'getTokenApprovals',
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result;
+    } catch (error) {
+      console.error('토큰 승인 목록 조회 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 토큰 승인 일괄 취소
+   * @param approvals 취소할 승인 목록
+   * @returns 전송한 트랜잭션 해시 목록
+   */
+  const revokeTokenApprovals = async (approvals: TokenApproval[]): Promise<string[]> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'revokeTokenApprovals',
+        params: { approvals },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result;
+    } catch (error) {
+      console.error('토큰 승인 취소 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 선택된 네트워크의 RPC 엔드포인트 상태 조회
+   * @param refresh true이면 모든 엔드포인트 상태를 즉시 다시 확인
+   * @returns 현재 요청을 보내는 엔드포인트와 엔드포인트별 상태
+   */
+  const getRpcEndpointHealth = async (refresh: boolean = false): Promise<RpcEndpointHealthReport> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'getRpcEndpointHealth',
+        params: { refresh },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result;
+    } catch (error) {
+      console.error('RPC 엔드포인트 상태 조회 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 지갑 설정 변경
+   * 설정은 팝업 localStorage에 저장합니다.
+   * @param updates 변경할 설정
+   */
+  const updateSettings = async (updates: Partial<WalletSettings>): Promise<void> => {
+    const updatedSettings = { ...loadSettings(), ...updates };
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(updatedSettings));
+    setSettings(updatedSettings);
+  };
+  
+  /**
+   * 클라우드 백업 설정 변경
+   * @param enabled 활성화 여부
+   * @param password 지갑 비밀번호 (확인용)
+   */
+  const setCloudBackup = async (enabled: boolean, password: string): Promise<void> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'verifyPassword',
+        params: { password },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      await updateSettings({ cloudBackup: enabled });
+    } catch (error) {
+      console.error('클라우드 백업 설정 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 소셜 복구 설정 조회
+   * @returns 소셜 복구 설정 또는 null
+   */
+  const getSocialRecovery = async (): Promise<SocialRecoveryConfig | null> => {
+    return loadSettings().socialRecovery || null;
+  };
+  
+  /**
+   * 소셜 복구 설정 저장
+   * @param config 소셜 복구 설정
+   */
+  const setSocialRecovery = async (config: SocialRecoveryConfig): Promise<void> => {
+    await updateSettings({ socialRecovery: config });
+  };
+  
+  /**
+   * 계정에 DID 연결
+   * @param address 계정 주소
+   * @param type DID 유형 (예: 'telegram', 'google')
+   * @param credential DID 인증 정보
+   * @returns 발급된 DID
+   */
+  const connectDID = async (address: string, type: string, credential?: any): Promise<string> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'connectDID',
+        params: { address, type, credential },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      await refreshAccountsInternal();
+      return response.result;
+    } catch (error) {
+      console.error('DID 연결 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 계정의 DID 연결 해제
+   * @param address 계정 주소
+   */
+  const disconnectDID = async (address: string): Promise<void> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'disconnectDID',
+        params: { address },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      await refreshAccountsInternal();
+    } catch (error) {
+      console.error('DID 연결 해제 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 계정 DID 닉네임 설정
+   * @param address 계정 주소
+   * @param nickname 닉네임
+   */
+  const setDIDNickname = async (address: string, nickname: string): Promise<void> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'setDIDNickname',
+        params: { address, nickname },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      await refreshAccountsInternal();
+    } catch (error) {
+      console.error('DID 닉네임 설정 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 계정 DID 사용 기록 조회
+   * @param address 계정 주소
+   * @returns DID 로그 목록
+   */
+  const getDIDLogs = async (address: string): Promise<any[]> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'getDIDLogs',
+        params: { address },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result || [];
+    } catch (error) {
+      console.error('DID 로그 조회 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 트랜잭션 서명 및 전송
+   * @param txParams 트랜잭션 파라미터
+   * @returns 트랜잭션 해시
+   */
+  const sendTransaction = async (txParams: any): Promise<string> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'signAndSendTransaction',
+        params: { txParams },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result;
+    } catch (error) {
+      console.error('트랜잭션 전송 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 트랜잭션 서명 (전송하지 않음)
+   * @param txParams 트랜잭션 파라미터 (논스와 가스 설정 포함)
+   * @returns 서명된 트랜잭션
+   */
+  const signTransaction = async (txParams: any): Promise<string> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'signTransaction',
+        params: { txParams },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result;
+    } catch (error) {
+      console.error('트랜잭션 서명 중 오류:', error);
+      throw error;
+    }
+  };
+  
+  /**
+   * 가스 추정
+   * @param txParams 트랜잭션 파라미터 (없으면 기본 전송 기준)
+   * @returns 가스 한도와 단계별 가스 가격(Gwei)
+   */
+  const estimateGas = async (txParams?: any): Promise<GasEstimate> => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'internal',
+        method: 'estimateGas',
+        params: { txParams },
+      });
+      
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      
+      return response.result;
+    } catch (error) {
+      console.error('가스 추정 중 오류:', error);
+      throw error;
+    }
+  };
+  
   // 컨텍스트 값
   const contextValue: WalletContextType = {
     accounts,
@@ -388,15 +1534,57 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
     isLocked,
     hasWallet,
     isInitialized,
+    settings,
     createWallet,
     importWallet,
     recoverWalletWithDID,
     unlockWallet,
     lockWallet,
+    resetWallet,
     createAccount,
     selectAccount,
     renameAccount,
     refreshAccounts,
+    exportAccount,
+    exportMnemonic,
+    updateSettings,
+    setCloudBackup,
+    getSocialRecovery,
+    setSocialRecovery,
+    connectDID,
+    disconnectDID,
+    setDIDNickname,
+    getDIDLogs,
+    sendTransaction,
+    signTransaction,
+    estimateGas,
+    getPendingApprovals,
+    approveRequest,
+    rejectRequest,
+    addWatchOnlyAccount,
+    getQRAccountCandidates,
+    importQRAccounts,
+    getPendingQRSignRequests,
+    submitQRSignature,
+    cancelQRSignRequest,
+    removeAccount,
+    checkRecipientAddress,
+    resolveRecipient,
+    lookupAddressName,
+    getRecipientSuggestions,
+    getContacts,
+    addContact,
+    updateContact,
+    deleteContact,
+    getAssetBalances,
+    getTokenMetadata,
+    addToken,
+    getListedTokens,
+    validateToken,
+    discoverTokens,
+    getTokenApprovals,
+    revokeTokenApprovals,
+    getRpcEndpointHealth,
   };
   
   return (
@@ -1,6 +1,6 @@
 import { useState, useCallback, useEffect } from 'react';
 import { ethers } from 'ethers';
-import useWallet from './useWallet';
+import { useWallet } from './useWallet';
 import useNetwork from './useNetwork';
 import { getBridgeService } from '../../background/services/bridge.service'; 
 import { BRIDGE_STATUS } from '../../constants/bridge';
@@ -12,7 +12,7 @@ import { BRIDGE_STATUS } from '../../constants/bridge';
  * 사용자가 체인 간 자산을 이동할 수 있도록 필요한 메서드를 제공합니다.
  */
 const useBridge = () => {
-  const { account } = useWallet();
+  const { selectedAccount: account } = useWallet();
   const { currentChain, getChainById } = useNetwork();
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
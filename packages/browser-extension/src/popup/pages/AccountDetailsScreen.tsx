@@ -19,7 +19,7 @@ import LoadingScreen from '../components/common/LoadingScreen';
 const AccountDetailsScreen: React.FC = () => {
   const { accountId } = useParams<{ accountId: string }>();
   const navigate = useNavigate();
-  const { accounts, renameAccount, exportPrivateKey, deleteAccount, settings } = useWallet();
+  const { accounts, renameAccount, exportAccount, removeAccount } = useWallet();
   
   const [isLoading, setIsLoading] = useState(false);
   const [account, setAccount] = useState<any | null>(null);
@@ -38,7 +38,7 @@ const AccountDetailsScreen: React.FC = () => {
   // 계정 정보 로드
   useEffect(() => {
     if (accountId && accounts) {
-      const accountInfo = accounts.find(a => a.id === accountId);
+      const accountInfo = accounts.find(a => a.address === accountId);
       if (accountInfo) {
         setAccount(accountInfo);
         setNewAccountName(accountInfo.name);
@@ -103,7 +103,7 @@ const AccountDetailsScreen: React.FC = () => {
     setPrivateKeyError('');
     
     try {
-      const key = await exportPrivateKey(accountId, pin);
+      const key = await exportAccount(accountId, pin);
       setPrivateKey(key);
       setShowingPrivateKey(true);
       setPin(''); // 보안을 위해 PIN 초기화
@@ -155,7 +155,7 @@ const AccountDetailsScreen: React.FC = () => {
     
     setIsLoading(true);
     try {
-      await deleteAccount(accountId);
+      await removeAccount(accountId);
       navigate('/settings/accounts');
     } catch (error) {
       console.error('계정 삭제 실패:', error);
@@ -178,7 +178,7 @@ const AccountDetailsScreen: React.FC = () => {
     return <LoadingScreen message="계정 정보 로드 중..." />;
   }
   
-  const isFirstAccount = accounts && accounts.length > 0 && accounts[0].id === accountId;
+  const isFirstAccount = accounts && accounts.length > 0 && accounts[0].address === accountId;
   
   return (
     <div className="p-4 h-full overflow-y-auto">
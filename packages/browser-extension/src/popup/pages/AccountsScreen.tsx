@@ -15,19 +15,31 @@ import LoadingScreen from '../components/common/LoadingScreen';
  * - 계정 이름 변경
  * - 새 계정 생성
  * - 개인 키 가져오기
+ * - 조회 전용 계정 추가 (주소, ENS 이름, DID)
  * - 하드웨어 지갑 연결 (향후 구현)
  */
 const AccountsScreen: React.FC = () => {
   const navigate = useNavigate();
-  const { accounts, selectedAccount, selectAccount, createAccount, renameAccount } = useWallet();
+  const {
+    accounts,
+    selectedAccount,
+    selectAccount,
+    createAccount,
+    renameAccount,
+    addWatchOnlyAccount,
+    removeAccount
+  } = useWallet();
   
   const [isLoading, setIsLoading] = useState(false);
   const [isAddingAccount, setIsAddingAccount] = useState(false);
+  const [isAddingWatchOnly, setIsAddingWatchOnly] = useState(false);
   const [isRenaming, setIsRenaming] = useState(false);
   const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
   
   const [newAccountName, setNewAccountName] = useState('');
   const [accountNameError, setAccountNameError] = useState('');
+  const [watchInput, setWatchInput] = useState('');
+  const [watchInputError, setWatchInputError] = useState('');
   
   // 계정 선택 처리
   const handleSelectAccount = async (accountId: string) => {
@@ -98,6 +110,54 @@ const AccountsScreen: React.FC = () => {
     }
   };
   
+  // 조회 전용 계정 추가 처리
+  const handleAddWatchOnly = async () => {
+    if (!watchInput.trim()) {
+      setWatchInputError('주소, ENS 이름 또는 DID를 입력하세요');
+      return;
+    }
+    
+    setIsLoading(true);
+    try {
+      await addWatchOnlyAccount(watchInput.trim(), newAccountName.trim() || undefined);
+      setIsAddingWatchOnly(false);
+      setWatchInput('');
+      setNewAccountName('');
+    } catch (error: any) {
+      console.error('조회 전용 계정 추가 실패:', error);
+      setWatchInputError(error.message || '조회 전용 계정 추가 실패');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  // 조회 전용 계정 제거 처리
+  const handleRemoveWatchOnly = async (address: string) => {
+    if (!window.confirm('이 조회 전용 계정을 제거하시겠습니까?')) {
+      return;
+    }
+    
+    setIsLoading(true);
+    try {
+      await removeAccount(address);
+    } catch (error) {
+      console.error('조회 전용 계정 제거 실패:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  // 조회 전용 계정 추가 모드 시작
+  const handleShowWatchOnlyForm = () => {
+    setIsAddingWatchOnly(true);
+    setIsAddingAccount(false);
+    setIsRenaming(false);
+    setSelectedAccountId(null);
+    setNewAccountName('');
+    setWatchInput('');
+    setWatchInputError('');
+  };
+  
   // 개인 키 가져오기 페이지로 이동
   const handleImportAccount = () => {
     navigate('/import-wallet');
@@ -131,7 +191,7 @@ const AccountsScreen: React.FC = () => {
     <div className="p-4 h-full overflow-y-auto">
       <div className="flex justify-between items-center mb-4">
         <h1 className="text-xl font-bold">계정 관리</h1>
-        {!isAddingAccount && !isRenaming && (
+        {!isAddingAccount && !isAddingWatchOnly && !isRenaming && (
           <div className="flex space-x-2">
             <Button
               onClick={handleImportAccount}
@@ -147,11 +207,66 @@ const AccountsScreen: React.FC = () => {
             >
               생성
             </Button>
+            <Button
+              onClick={handleShowWatchOnlyForm}
+              variant="secondary"
+              className="text-sm px-3"
+            >
+              조회 전용
+            </Button>
           </div>
         )}
       </div>
       
-      {isAddingAccount ? (
+      {isAddingWatchOnly ? (
+        <Card className="mb-4">
+          <h2 className="text-lg font-medium mb-2">조회 전용 계정 추가</h2>
+          <p className="text-xs text-gray-500 mb-4">
+            잔액과 활동 내역만 확인할 수 있으며 이 계정으로는 서명하거나 전송할 수 없습니다.
+          </p>
+          
+          <div className="mb-4">
+            <label className="text-sm text-gray-600 mb-1 block">주소, ENS 이름 또는 DID</label>
+            <Input
+              type="text"
+              placeholder="0x... / name.eth / did:..."
+              value={watchInput}
+              onChange={(e) => {
+                setWatchInput(e.target.value);
+                setWatchInputError('');
+              }}
+              error={watchInputError}
+              autoFocus
+            />
+          </div>
+          
+          <div className="mb-4">
+            <label className="text-sm text-gray-600 mb-1 block">계정 이름 (선택)</label>
+            <Input
+              type="text"
+              placeholder="관심 계정"
+              value={newAccountName}
+              onChange={(e) => setNewAccountName(e.target.value)}
+            />
+          </div>
+          
+          <div className="flex space-x-2">
+            <Button
+              variant="secondary"
+              onClick={() => setIsAddingWatchOnly(false)}
+              className="flex-1"
+            >
+              취소
+            </Button>
+            <Button
+              onClick={handleAddWatchOnly}
+              className="flex-1"
+            >
+              추가
+            </Button>
+          </div>
+        </Card>
+      ) : isAddingAccount ? (
         <Card className="mb-4">
           <h2 className="text-lg font-medium mb-4">새 계정 생성</h2>
           
@@ -186,10 +301,10 @@ const AccountsScreen: React.FC = () => {
         <div className="space-y-3">
           {accounts?.map((account) => (
             <Card 
-              key={account.id} 
-              className={`mb-2 ${account.id === selectedAccount?.id ? 'border-2 border-blue-500' : ''}`}
+              key={account.address} 
+              className={`mb-2 ${account.address === selectedAccount?.address ? 'border-2 border-blue-500' : ''}`}
             >
-              {isRenaming && selectedAccountId === account.id ? (
+              {isRenaming && selectedAccountId === account.address ? (
                 <div className="space-y-3">
                   <label className="text-sm text-gray-600 block">계정 이름 변경</label>
                   <Input
@@ -218,21 +333,31 @@ const AccountsScreen: React.FC = () => {
               ) : (
                 <div className="flex justify-between">
                   <div>
-                    <div className="font-medium">{account.name}</div>
+                    <div className="font-medium">
+                      {account.name}
+                      {account.isWatchOnly && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded text-xs bg-gray-100 text-gray-600">
+                          조회 전용
+                        </span>
+                      )}
+                    </div>
+                    {account.isWatchOnly && account.watchInput && account.watchInput !== account.address && (
+                      <div className="text-xs text-gray-500">{account.watchInput}</div>
+                    )}
                     <div className="text-sm font-mono text-gray-500">
                       {account.address.substring(0, 6)}...{account.address.substring(account.address.length - 4)}
                     </div>
                   </div>
                   
                   <div className="flex flex-col justify-between items-end">
-                    {account.id === selectedAccount?.id ? (
+                    {account.address === selectedAccount?.address ? (
                       <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
                         현재 선택됨
                       </span>
                     ) : (
                       <Button
                         variant="secondary"
-                        onClick={() => handleSelectAccount(account.id)}
+                        onClick={() => handleSelectAccount(account.address)}
                         className="text-sm px-3 py-1"
                       >
                         선택
@@ -241,17 +366,25 @@ const AccountsScreen: React.FC = () => {
                     
                     <div className="flex space-x-2 mt-2">
                       <button
-                        onClick={() => handleStartRename(account.id, account.name)}
+                        onClick={() => handleStartRename(account.address, account.name)}
                         className="text-gray-500 hover:text-gray-700 transition-colors text-sm"
                       >
                         이름 변경
                       </button>
                       <button
-                        onClick={() => handleViewAccountDetails(account.id)}
+                        onClick={() => handleViewAccountDetails(account.address)}
                         className="text-blue-500 hover:text-blue-700 transition-colors text-sm"
                       >
                         상세
                       </button>
+                      {account.isWatchOnly && (
+                        <button
+                          onClick={() => handleRemoveWatchOnly(account.address)}
+                          className="text-red-500 hover:text-red-700 transition-colors text-sm"
+                        >
+                          제거
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -267,20 +400,21 @@ const AccountsScreen: React.FC = () => {
         </div>
       )}
       
-      {!isAddingAccount && !isRenaming && (
+      {!isAddingAccount && !isAddingWatchOnly && !isRenaming && (
         <div className="bg-blue-50 border border-blue-100 p-3 rounded-md mt-4 mb-4">
           <div className="text-sm text-blue-700">
             <div className="font-medium mb-1">도움말</div>
             <ul className="list-disc list-inside text-xs">
               <li>동일한 시드 구문에서 여러 개의 계정을 생성할 수 있습니다.</li>
               <li>개인 키를 가져와서 새 계정을 추가할 수도 있습니다.</li>
+              <li>조회 전용 계정은 주소, ENS 이름, DID로 추가하며 서명할 수 없습니다.</li>
               <li>각 계정은 독립적인 주소를 가지며 자산을 별도로 관리합니다.</li>
             </ul>
           </div>
         </div>
       )}
       
-      {!isAddingAccount && !isRenaming && (
+      {!isAddingAccount && !isAddingWatchOnly && !isRenaming && (
         <div className="space-y-3">
           <Button
             variant="secondary"
@@ -0,0 +1,363 @@
+/**
+ * 주소록 화면
+ * 자주 보내는 상대의 이름, 체인별 주소, 메모를 관리하는 화면
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Contact, ContactAddress, isValidAddress } from '@crelink/core';
+import Button from '../components/common/Button';
+import Card from '../components/common/Card';
+import EmptyState from '../components/common/EmptyState';
+import Input from '../components/common/Input';
+import { useWallet } from '../hooks/useWallet';
+import { useNetwork } from '../context/NetworkContext';
+import { useUI } from '../context/UIContext';
+
+// 편집 중인 연락처
+interface ContactForm {
+  id?: string;
+  name: string;
+  notes: string;
+  addresses: ContactAddress[];
+}
+
+// 주소 축약
+const shortenAddress = (address: string): string => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * 주소록 화면 컴포넌트
+ */
+const AddressBookScreen: React.FC = () => {
+  const navigate = useNavigate();
+  const { getContacts, addContact, updateContact, deleteContact } = useWallet();
+  const { networks, selectedNetwork } = useNetwork();
+  const { showNotification } = useUI();
+
+  // 상태 관리
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [query, setQuery] = useState('');
+  const [form, setForm] = useState<ContactForm | null>(null);
+  const [formError, setFormError] = useState('');
+
+  // 연락처 목록 조회
+  const loadContacts = async () => {
+    try {
+      setContacts(await getContacts());
+    } catch (error) {
+      console.error('주소록 조회 중 오류:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadContacts();
+  }, []);
+
+  // 체인 이름 표시
+  const getNetworkName = (chainId: number): string =>
+    networks.find((network) => network.chainId === chainId)?.name || `Chain ${chainId}`;
+
+  // 새 연락처 입력 시작
+  const handleStartAdd = () => {
+    setForm({
+      name: '',
+      notes: '',
+      addresses: [{ chainId: selectedNetwork?.chainId || 1, address: '' }],
+    });
+    setFormError('');
+  };
+
+  // 연락처 수정 시작
+  const handleStartEdit = (contact: Contact) => {
+    setForm({
+      id: contact.id,
+      name: contact.name,
+      notes: contact.notes || '',
+      addresses: contact.addresses.map((entry) => ({ ...entry })),
+    });
+    setFormError('');
+  };
+
+  // 주소 항목 변경
+  const updateAddressEntry = (index: number, updates: Partial<ContactAddress>) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      addresses: form.addresses.map((entry, i) => (i === index ? { ...entry, ...updates } : entry)),
+    });
+  };
+
+  // 주소 항목 추가
+  const handleAddAddressEntry = () => {
+    if (!form) return;
+    setForm({
+      ...form,
+      addresses: [...form.addresses, { chainId: selectedNetwork?.chainId || 1, address: '' }],
+    });
+  };
+
+  // 주소 항목 삭제
+  const handleRemoveAddressEntry = (index: number) => {
+    if (!form || form.addresses.length <= 1) return;
+    setForm({ ...form, addresses: form.addresses.filter((_, i) => i !== index) });
+  };
+
+  // 연락처 저장
+  const handleSave = async () => {
+    if (!form) return;
+
+    if (!form.name.trim()) {
+      setFormError('이름을 입력하세요');
+      return;
+    }
+
+    const invalid = form.addresses.find((entry) => !isValidAddress(entry.address.trim()));
+    if (invalid) {
+      setFormError(`유효하지 않은 주소입니다: ${invalid.address || '(빈 주소)'}`);
+      return;
+    }
+
+    const input = {
+      name: form.name.trim(),
+      notes: form.notes,
+      addresses: form.addresses.map((entry) => ({ ...entry, address: entry.address.trim() })),
+    };
+
+    try {
+      if (form.id) {
+        await updateContact(form.id, input);
+      } else {
+        await addContact(input);
+      }
+
+      setForm(null);
+      await loadContacts();
+      showNotification({
+        type: 'success',
+        message: '주소록에 저장했습니다.',
+      });
+    } catch (error) {
+      setFormError((error as Error).message);
+    }
+  };
+
+  // 연락처 삭제
+  const handleDelete = async (contact: Contact) => {
+    if (!window.confirm(`${contact.name} 연락처를 삭제하시겠습니까?`)) {
+      return;
+    }
+
+    try {
+      await deleteContact(contact.id);
+      await loadContacts();
+    } catch (error) {
+      showNotification({
+        type: 'error',
+        message: `연락처 삭제 실패: ${(error as Error).message}`,
+      });
+    }
+  };
+
+  // 즐겨찾기 전환
+  const handleToggleFavorite = async (contact: Contact) => {
+    try {
+      await updateContact(contact.id, { isFavorite: !contact.isFavorite });
+      await loadContacts();
+    } catch (error) {
+      console.error('즐겨찾기 변경 중 오류:', error);
+    }
+  };
+
+  const keyword = query.trim().toLowerCase();
+  const filteredContacts = contacts.filter((contact) =>
+    !keyword ||
+    contact.name.toLowerCase().includes(keyword) ||
+    (contact.notes || '').toLowerCase().includes(keyword) ||
+    contact.addresses.some((entry) => entry.address.toLowerCase().startsWith(keyword))
+  );
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* 헤더 영역 */}
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center">
+            <button
+              className="mr-2 text-gray-500 dark:text-gray-400"
+              onClick={() => (form ? setForm(null) : navigate('/settings'))}
+            >
+              <svg
+                className="w-6 h-6"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  d="M15 19l-7-7 7-7"
+                />
+              </svg>
+            </button>
+            <h1 className="text-lg font-bold text-gray-900 dark:text-white">
+              {form ? (form.id ? '연락처 수정' : '연락처 추가') : '주소록'}
+            </h1>
+          </div>
+          {!form && (
+            <button
+              className="text-sm text-blue-600 dark:text-blue-400"
+              onClick={handleStartAdd}
+            >
+              추가
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* 콘텐츠 영역 */}
+      <div className="flex-grow overflow-y-auto p-4">
+        {form ? (
+          <Card>
+            <div className="space-y-3">
+              <Input
+                label="이름"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                autoFocus
+              />
+
+              {form.addresses.map((entry, index) => (
+                <div key={index} className="p-2 border border-gray-200 dark:border-gray-700 rounded-md space-y-2">
+                  <div className="flex items-center justify-between">
+                    <select
+                      className="p-1 text-sm border border-gray-300 rounded-md"
+                      value={entry.chainId}
+                      onChange={(e) => updateAddressEntry(index, { chainId: Number(e.target.value) })}
+                    >
+                      {!networks.some((network) => network.chainId === entry.chainId) && (
+                        <option value={entry.chainId}>{getNetworkName(entry.chainId)}</option>
+                      )}
+                      {networks.map((network) => (
+                        <option key={network.chainId} value={network.chainId}>
+                          {network.name}
+                        </option>
+                      ))}
+                    </select>
+                    {form.addresses.length > 1 && (
+                      <button
+                        className="text-xs text-red-500"
+                        onClick={() => handleRemoveAddressEntry(index)}
+                      >
+                        삭제
+                      </button>
+                    )}
+                  </div>
+                  <Input
+                    placeholder="0x..."
+                    value={entry.address}
+                    onChange={(e) => updateAddressEntry(index, { address: e.target.value })}
+                  />
+                  <Input
+                    placeholder="주소 라벨 (선택)"
+                    value={entry.label || ''}
+                    onChange={(e) => updateAddressEntry(index, { label: e.target.value })}
+                  />
+                </div>
+              ))}
+
+              <button
+                className="text-sm text-blue-600 dark:text-blue-400"
+                onClick={handleAddAddressEntry}
+              >
+                + 다른 체인 주소 추가
+              </button>
+
+              <Input
+                label="메모"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+
+              {formError && (
+                <div className="text-xs text-red-500">{formError}</div>
+              )}
+
+              <div className="flex space-x-2">
+                <Button variant="secondary" onClick={() => setForm(null)} className="flex-1">
+                  취소
+                </Button>
+                <Button onClick={handleSave} className="flex-1">
+                  저장
+                </Button>
+              </div>
+            </div>
+          </Card>
+        ) : contacts.length === 0 ? (
+          <EmptyState
+            title="저장된 연락처가 없습니다"
+            description="자주 보내는 주소를 저장하면 전송 화면에서 바로 선택할 수 있습니다."
+            actionLabel="연락처 추가"
+            onAction={handleStartAdd}
+          />
+        ) : (
+          <>
+            <Input
+              placeholder="이름, 메모 또는 주소로 검색"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              containerClassName="mb-3"
+            />
+
+            <div className="space-y-2">
+              {filteredContacts.map((contact) => (
+                <Card key={contact.id}>
+                  <div className="flex justify-between items-start">
+                    <div className="min-w-0">
+                      <div className="font-medium">
+                        {contact.isFavorite && <span className="mr-1 text-yellow-500">★</span>}
+                        {contact.name}
+                      </div>
+                      {contact.addresses.map((entry) => (
+                        <div key={`${entry.chainId}:${entry.address}`} className="text-xs text-gray-500">
+                          <span className="mr-1">{getNetworkName(entry.chainId)}</span>
+                          <span className="font-mono">{shortenAddress(entry.address)}</span>
+                          {entry.label && <span className="ml-1">({entry.label})</span>}
+                        </div>
+                      ))}
+                      {contact.notes && (
+                        <div className="mt-1 text-xs text-gray-400 truncate">{contact.notes}</div>
+                      )}
+                    </div>
+                    <div className="flex flex-col items-end space-y-1 ml-2">
+                      <button
+                        className="text-xs text-gray-500 hover:text-gray-700"
+                        onClick={() => handleToggleFavorite(contact)}
+                      >
+                        {contact.isFavorite ? '즐겨찾기 해제' : '즐겨찾기'}
+                      </button>
+                      <button
+                        className="text-xs text-blue-500 hover:text-blue-700"
+                        onClick={() => handleStartEdit(contact)}
+                      >
+                        수정
+                      </button>
+                      <button
+                        className="text-xs text-red-500 hover:text-red-700"
+                        onClick={() => handleDelete(contact)}
+                      >
+                        삭제
+                      </button>
+                    </div>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AddressBookScreen;
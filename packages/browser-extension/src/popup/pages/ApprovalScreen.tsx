@@ -1,10 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useWallet } from '../hooks/useWallet';
+import { useNetwork } from '../context/NetworkContext';
+import { GasEstimate, PendingApproval } from '../context/WalletContext';
+import { BalanceChange, TransactionSimulation } from '../../background/services/simulation.service';
+import { TypedDataInspection } from '@crelink/core';
 import Button from '../components/common/Button';
 import Card from '../components/common/Card';
 import LoadingScreen from '../components/common/LoadingScreen';
-import { formatUnits } from 'ethers';
+import { formatUnits, parseUnits } from 'ethers';
 
 /**
  * ApprovalScreen - DApp 요청 승인 페이지
@@ -13,28 +17,109 @@ import { formatUnits } from 'ethers';
  * - 다양한 DApp 요청 처리 (연결, 서명, 트랜잭션 등)
  * - 요청 내용 시각화
  * - 사용자 승인 또는 거절
+ * - 대기 중인 승인 요청을 순서대로 처리
  * - 스마트 컨트랙트 상호작용 분석
  */
 const ApprovalScreen: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { selectedAccount, selectedNetwork, approveRequest, rejectRequest, estimateGas } = useWallet();
+  const {
+    accounts,
+    selectedAccount,
+    approveRequest,
+    rejectRequest,
+    getPendingApprovals,
+    getPendingQRSignRequests,
+    estimateGas
+  } = useWallet();
+  const { selectedNetwork } = useNetwork();
   
-  // location state에서 요청 정보 가져오기
-  const request = location.state?.request;
-  const requestId = location.state?.requestId;
-  const origin = location.state?.origin || 'Unknown DApp';
+  // 현재 처리 중인 승인 요청 (location state 또는 백그라운드 대기열에서 로드)
+  const [approval, setApproval] = useState<PendingApproval | null>(
+    location.state?.requestId
+      ? {
+          id: location.state.requestId,
+          type: '',
+          origin: location.state.origin,
+          data: location.state.request,
+          createdAt: Date.now(),
+        }
+      : null
+  );
+  
+  const request = approval?.data;
+  const requestId = approval?.id;
+  const origin = approval?.origin || 'Unknown DApp';
   
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
-  const [gasDetails, setGasDetails] = useState<any>(null);
+  const [gasDetails, setGasDetails] = useState<GasEstimate | null>(null);
+  // 연결 요청 시 사이트에 노출할 계정 목록
+  const [connectAddresses, setConnectAddresses] = useState<string[]>([]);
+  // 네트워크 추가 요청 시 추가 후 바로 전환할지 여부
+  const [switchAfterAdd, setSwitchAfterAdd] = useState(true);
   
-  // 요청이 없으면 잘못된 접근으로 간주
-  useEffect(() => {
-    if (!request || !requestId) {
+  const isConnectRequest = request?.method === 'eth_requestAccounts' || request?.method === 'wallet_requestPermissions';
+  const isAddChainRequest = request?.method === 'wallet_addEthereumChain';
+  
+  /**
+   * 대기열의 다음 승인 요청 로드
+   * 남은 요청이 없으면 승인 창을 닫거나 지갑 홈으로 돌아갑니다.
+   * 하드웨어 지갑 계정으로 서명하는 경우에는 QR 서명 화면으로 이동합니다.
+   */
+  const loadNextApproval = async () => {
+    try {
+      const pending = await getPendingApprovals();
+      if (pending.length > 0) {
+        setApproval(pending[0]);
+        setConnectAddresses([]);
+        setSwitchAfterAdd(true);
+        setGasDetails(null);
+        setError('');
+        setIsLoading(false);
+        return;
+      }
+    } catch (err) {
+      console.error('승인 요청 로드 실패:', err);
+    }
+    
+    setApproval(null);
+    const qrSignRequests = await getPendingQRSignRequests().catch(() => []);
+    if (qrSignRequests.length > 0) {
+      navigate('/approval/qr-sign', { replace: true });
+      return;
+    }
+    
+    if (new URLSearchParams(window.location.search).get('action') === 'approval') {
+      window.close();
+    } else {
       navigate('/');
     }
-  }, [request, requestId, navigate]);
+  };
+  
+  // 전달된 요청이 없으면 백그라운드 대기열에서 로드
+  useEffect(() => {
+    if (!approval) {
+      loadNextApproval();
+    }
+  }, []);
+  
+  // 사이트에 연결할 수 있는 계정 (조회 전용 계정은 서명할 수 없으므로 제외)
+  const connectableAccounts = accounts.filter((account) => !account.isWatchOnly);
+  
+  // 연결 요청인 경우 현재 선택된 계정을 기본으로 선택
+  useEffect(() => {
+    if (isConnectRequest && selectedAccount && !selectedAccount.isWatchOnly && connectAddresses.length === 0) {
+      setConnectAddresses([selectedAccount.address]);
+    }
+  }, [isConnectRequest, selectedAccount, requestId]);
+  
+  // 연결할 계정 선택 토글
+  const toggleConnectAddress = (address: string) => {
+    setConnectAddresses((prev) =>
+      prev.includes(address) ? prev.filter((item) => item !== address) : [...prev, address]
+    );
+  };
   
   // 가스 정보 추정 (트랜잭션 요청인 경우)
   useEffect(() => {
@@ -62,9 +147,18 @@ const ApprovalScreen: React.FC = () => {
     setError('');
     
     try {
-      const result = await approveRequest(requestId);
-      // 응답 후 지갑 홈으로 돌아가기
-      navigate('/');
+      // 연결 요청은 사용자가 선택한 계정만 사이트에 허용
+      // 네트워크 추가 요청은 추가 후 전환 여부를 함께 전달
+      await approveRequest(
+        requestId,
+        isConnectRequest
+          ? { accounts: connectAddresses }
+          : isAddChainRequest
+            ? { switchNetwork: switchAfterAdd }
+            : undefined
+      );
+      // 응답 후 다음 요청 처리
+      await loadNextApproval();
     } catch (err: any) {
       console.error('요청 승인 실패:', err);
       setError(err.message || '요청 처리 중 오류가 발생했습니다');
@@ -80,13 +174,13 @@ const ApprovalScreen: React.FC = () => {
     
     try {
       await rejectRequest(requestId);
-      // 응답 후 지갑 홈으로 돌아가기
-      navigate('/');
     } catch (err) {
       console.error('요청 거절 실패:', err);
-      // 거절 실패해도 홈으로 이동
-      navigate('/');
+      // 거절 실패해도 다음 요청으로 이동
     }
+    
+    // 응답 후 다음 요청 처리
+    await loadNextApproval();
   };
   
   // 요청 타입에 따라 제목 지정
@@ -95,6 +189,7 @@ const ApprovalScreen: React.FC = () => {
     
     switch (request.method) {
       case 'eth_requestAccounts':
+      case 'wallet_requestPermissions':
         return '연결 요청';
       case 'eth_sendTransaction':
         return '트랜잭션 요청';
@@ -127,14 +222,29 @@ const ApprovalScreen: React.FC = () => {
           <div className="text-sm text-gray-600 mb-1">요청 내용</div>
           <div className="font-medium">계정 연결 요청</div>
           <div className="text-sm text-gray-500 mt-1">
-            이 DApp에 현재 활성화된 계정 주소를 제공합니다.
+            이 DApp에 선택한 계정 주소만 제공합니다.
           </div>
         </div>
         
         <div className="border-t border-gray-200 pt-4 mb-4">
           <div className="text-sm text-gray-600 mb-1">연결할 계정</div>
-          <div className="font-medium">{selectedAccount?.name}</div>
-          <div className="text-sm font-mono">{selectedAccount?.address}</div>
+          {connectableAccounts.map((account) => (
+            <label key={account.address} className="flex items-center py-1 cursor-pointer">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={connectAddresses.includes(account.address)}
+                onChange={() => toggleConnectAddress(account.address)}
+              />
+              <div>
+                <div className="font-medium">{account.name}</div>
+                <div className="text-sm font-mono">{account.address}</div>
+              </div>
+            </label>
+          ))}
+          {connectAddresses.length === 0 && (
+            <div className="text-xs text-red-500 mt-1">연결할 계정을 하나 이상 선택하세요.</div>
+          )}
         </div>
         
         <div className="border-t border-gray-200 pt-4">
@@ -153,6 +263,7 @@ const ApprovalScreen: React.FC = () => {
     
     const tx = request.params[0];
     const isCatenaToken = !tx.data || tx.data === '0x';
+    const simulation: TransactionSimulation | null = request.simulation || null;
     
     // 트랜잭션 값을 단위에 맞게 변환
     const formatValue = () => {
@@ -165,6 +276,30 @@ const ApprovalScreen: React.FC = () => {
       }
     };
     
+    // 잔액 변화를 자산 단위에 맞게 표시
+    const formatBalanceChange = (change: BalanceChange) => {
+      const sign = change.amount.startsWith('-') ? '-' : '+';
+      const amount = change.amount.replace('-', '');
+      
+      switch (change.standard) {
+        case 'native':
+          return `${sign}${formatUnits(amount, 18)} ${selectedNetwork?.nativeCurrency.symbol}`;
+        case 'erc20':
+        case 'weth':
+          return change.decimals !== undefined
+            ? `${sign}${formatUnits(amount, change.decimals)} ${change.symbol || ''}`
+            : `${sign}${amount} (${change.token})`;
+        default:
+          return `${sign}${amount} NFT #${change.tokenId} (${change.token})`;
+      }
+    };
+    
+    const severityClass: Record<string, string> = {
+      high: 'bg-red-50 text-red-700 border-red-200',
+      medium: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+      low: 'bg-gray-50 text-gray-700 border-gray-200',
+    };
+    
     return (
       <Card className="mb-4">
         <div className="text-center mb-4">
@@ -180,6 +315,36 @@ const ApprovalScreen: React.FC = () => {
           <div className="font-medium">트랜잭션 서명 요청</div>
         </div>
         
+        {simulation && simulation.risks.length > 0 && (
+          <div className="border-t border-gray-200 pt-4 mb-4">
+            <div className="text-sm text-gray-600 mb-1">위험 요소</div>
+            {simulation.risks.map((risk) => (
+              <div key={risk.type} className={`text-sm border rounded-md p-2 mb-1 ${severityClass[risk.severity]}`}>
+                {risk.message}
+              </div>
+            ))}
+          </div>
+        )}
+        
+        {simulation && (simulation.balanceChanges.length > 0 || !simulation.balanceChangesAvailable) && (
+          <div className="border-t border-gray-200 pt-4 mb-4">
+            <div className="text-sm text-gray-600 mb-1">예상 잔액 변화</div>
+            {!simulation.balanceChangesAvailable && (
+              <div className="text-sm text-gray-500 mb-1">
+                알 수 없는 컨트랙트 호출이라 토큰 잔액 변화를 추정할 수 없습니다.
+              </div>
+            )}
+            {simulation.balanceChanges.map((change, index) => (
+              <div
+                key={index}
+                className={`text-sm font-medium break-all ${change.amount.startsWith('-') ? 'text-red-600' : 'text-green-600'}`}
+              >
+                {formatBalanceChange(change)}
+              </div>
+            ))}
+          </div>
+        )}
+        
         <div className="border-t border-gray-200 pt-4 mb-4">
           <div className="text-sm text-gray-600 mb-1">발신자</div>
           <div className="text-sm font-mono break-all">{tx.from}</div>
@@ -194,7 +359,7 @@ const ApprovalScreen: React.FC = () => {
           <div className="border-t border-gray-200 pt-4 mb-4">
             <div className="text-sm text-gray-600 mb-1">금액</div>
             <div className="font-medium">
-              {formatValue()} {selectedNetwork?.symbol}
+              {formatValue()} {selectedNetwork?.nativeCurrency.symbol}
             </div>
           </div>
         )}
@@ -202,9 +367,23 @@ const ApprovalScreen: React.FC = () => {
         {!isCatenaToken && (
           <div className="border-t border-gray-200 pt-4 mb-4">
             <div className="text-sm text-gray-600 mb-1">컨트랙트 호출</div>
-            <div className="text-sm text-gray-500">
-              컨트랙트 인터랙션이 감지되었습니다.
-            </div>
+            {simulation?.decoded ? (
+              <div>
+                <div className="font-medium">
+                  {simulation.decoded.method} ({simulation.decoded.standard.toUpperCase()})
+                </div>
+                {Object.entries(simulation.decoded.args).map(([name, value]) => (
+                  <div key={name} className="text-xs mt-1">
+                    <span className="text-gray-500">{name}: </span>
+                    <span className="font-mono break-all">{Array.isArray(value) ? value.join(', ') : String(value)}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-sm text-gray-500">
+                컨트랙트 인터랙션이 감지되었습니다.
+              </div>
+            )}
             <div className="text-xs font-mono break-all bg-gray-100 p-2 rounded-md mt-1 h-20 overflow-auto">
               {tx.data}
             </div>
@@ -216,10 +395,10 @@ const ApprovalScreen: React.FC = () => {
           {gasDetails ? (
             <div>
               <div className="font-medium">
-                {gasDetails.gasPrice} Gwei
+                {gasDetails.medium} Gwei
               </div>
               <div className="text-xs text-gray-500">
-                최대 가스비: ~{gasDetails.maxFeeEth} {selectedNetwork?.symbol}
+                최대 가스비: ~{formatUnits(BigInt(gasDetails.gasLimit) * parseUnits(gasDetails.medium, 'gwei'))} {selectedNetwork?.nativeCurrency.symbol}
               </div>
             </div>
           ) : (
@@ -245,6 +424,27 @@ const ApprovalScreen: React.FC = () => {
     
     // personal_sign의 경우 메시지는 두 번째 파라미터(인덱스 1)에 있음
     const message = request.method === 'personal_sign' ? request.params[0] : JSON.stringify(request.params, null, 2);
+    const inspection: TypedDataInspection | null = request.inspection || null;
+    
+    // 백그라운드는 선택된 계정이 아닌 요청에 지정된 계정으로 서명 (personal_sign: [message, address], eth_signTypedData_v4: [address, typedData])
+    const signerAddress: string | undefined = request.method === 'personal_sign' ? request.params[1] : request.params[0];
+    const signer = accounts?.find((account) => account.address.toLowerCase() === signerAddress?.toLowerCase());
+    
+    // 타입화된 데이터 종류별 표시 이름
+    const kindLabels: Record<string, string> = {
+      permit: 'EIP-2612 Permit (토큰 사용 승인)',
+      dai_permit: 'DAI Permit (토큰 사용 승인)',
+      permit2_allowance: 'Permit2 토큰 사용 승인',
+      permit2_transfer: 'Permit2 토큰 전송 승인',
+      seaport_order: 'Seaport NFT 주문',
+      marketplace_order: 'NFT 마켓플레이스 주문',
+    };
+    
+    const severityClass: Record<string, string> = {
+      high: 'bg-red-50 text-red-700 border-red-200',
+      medium: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+      low: 'bg-gray-50 text-gray-700 border-gray-200',
+    };
     
     // 메시지가 hex라면 디코딩 시도
     let decodedMessage = message;
@@ -285,6 +485,52 @@ const ApprovalScreen: React.FC = () => {
           </div>
         </div>
         
+        {inspection && inspection.risks.length > 0 && (
+          <div className="border-t border-gray-200 pt-4 mb-4">
+            <div className="text-sm text-gray-600 mb-1">위험 요소</div>
+            {inspection.risks.map((risk) => (
+              <div key={risk.type} className={`text-sm border rounded-md p-2 mb-1 ${severityClass[risk.severity]}`}>
+                {risk.message}
+              </div>
+            ))}
+          </div>
+        )}
+        
+        {inspection && kindLabels[inspection.kind] && (
+          <div className="border-t border-gray-200 pt-4 mb-4">
+            <div className="text-sm text-gray-600 mb-1">서명 유형</div>
+            <div className="font-medium">{kindLabels[inspection.kind]}</div>
+            {inspection.approvals.map((approval, index) => (
+              <div key={index} className="text-xs bg-gray-100 p-2 rounded-md mt-2">
+                <div>
+                  <span className="text-gray-500">토큰: </span>
+                  <span className="font-mono break-all">{approval.token}</span>
+                </div>
+                <div>
+                  <span className="text-gray-500">사용자(spender): </span>
+                  <span className="font-mono break-all">{approval.spender}</span>
+                </div>
+                <div>
+                  <span className="text-gray-500">금액: </span>
+                  <span className={approval.unlimited ? 'text-red-600 font-medium' : ''}>
+                    {approval.unlimited ? '무제한' : approval.amount}
+                  </span>
+                </div>
+                {approval.deadline !== undefined && (
+                  <div>
+                    <span className="text-gray-500">만료: </span>
+                    <span>
+                      {approval.deadline >= Number.MAX_SAFE_INTEGER / 1000
+                        ? '무기한'
+                        : new Date(approval.deadline * 1000).toLocaleString()}
+                    </span>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        
         <div className="border-t border-gray-200 pt-4 mb-4">
           <div className="text-sm text-gray-600 mb-1">메시지</div>
           <div className="text-sm font-mono break-all bg-gray-100 p-2 rounded-md mt-1 max-h-40 overflow-auto">
@@ -294,8 +540,8 @@ const ApprovalScreen: React.FC = () => {
         
         <div className="border-t border-gray-200 pt-4 mb-4">
           <div className="text-sm text-gray-600 mb-1">서명자</div>
-          <div className="font-medium">{selectedAccount?.name}</div>
-          <div className="text-sm font-mono">{selectedAccount?.address}</div>
+          {signer && <div className="font-medium">{signer.name}</div>}
+          <div className="text-sm font-mono break-all">{signerAddress}</div>
         </div>
         
         <div className="border-t border-gray-200 pt-4">
@@ -316,7 +562,9 @@ const ApprovalScreen: React.FC = () => {
     let chainName = `Chain ID: ${chainId}`;
     
     // 알려진 체인 ID인 경우 이름 표시
-    if (chainId === '0x3E8' || chainId === '1000') {
+    if (request.network?.name) {
+      chainName = request.network.name;
+    } else if (chainId === '0x3E8' || chainId === '1000') {
       chainName = 'Catena 메인넷';
     } else if (chainId === '0x2328' || chainId === '9000') {
       chainName = 'Catena 테스트넷';
@@ -394,7 +642,7 @@ const ApprovalScreen: React.FC = () => {
         
         <div className="border-t border-gray-200 pt-4 mb-4">
           <div className="text-sm text-gray-600 mb-1">RPC URL</div>
-          <div className="text-sm break-all">{chainParams.rpcUrls[0]}</div>
+          <div className="text-sm break-all">{request.network?.rpcUrl || chainParams.rpcUrls[0]}</div>
         </div>
         
         <div className="border-t border-gray-200 pt-4 mb-4">
@@ -403,11 +651,29 @@ const ApprovalScreen: React.FC = () => {
         </div>
         
         {chainParams.blockExplorerUrls && chainParams.blockExplorerUrls[0] && (
-          <div className="border-t border-gray-200 pt-4">
+          <div className="border-t border-gray-200 pt-4 mb-4">
             <div className="text-sm text-gray-600 mb-1">블록 탐색기 URL</div>
             <div className="text-sm break-all">{chainParams.blockExplorerUrls[0]}</div>
           </div>
         )}
+        
+        {!request.knownChain && (
+          <div className="text-xs text-yellow-600 mb-4">
+            CreLink에 알려지지 않은 네트워크입니다. 신뢰할 수 있는 사이트에서만 추가하세요.
+          </div>
+        )}
+        
+        <div className="border-t border-gray-200 pt-4">
+          <label className="flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={switchAfterAdd}
+              onChange={() => setSwitchAfterAdd((prev) => !prev)}
+            />
+            <span className="text-sm">추가 후 이 네트워크로 전환</span>
+          </label>
+        </div>
       </Card>
     );
   };
@@ -418,6 +684,7 @@ const ApprovalScreen: React.FC = () => {
     
     switch (request.method) {
       case 'eth_requestAccounts':
+      case 'wallet_requestPermissions':
         return renderConnectionRequest();
       case 'eth_sendTransaction':
         return renderTransactionRequest();
@@ -480,6 +747,7 @@ const ApprovalScreen: React.FC = () => {
         <Button
           onClick={handleApprove}
           className="flex-1"
+          disabled={isConnectRequest && connectAddresses.length === 0}
         >
           승인
         </Button>
@@ -5,6 +5,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { formatUnits } from 'ethers';
 import Button from '../components/common/Button';
 import Card from '../components/common/Card';
 import Input from '../components/common/Input';
@@ -32,7 +33,7 @@ interface TokenInfo {
  */
 const AssetsScreen: React.FC = () => {
   const navigate = useNavigate();
-  const { selectedAccount } = useWallet();
+  const { selectedAccount, getAssetBalances, discoverTokens } = useWallet();
   const { selectedNetwork } = useNetwork();
   const { showNotification } = useUI();
 
@@ -41,6 +42,7 @@ const AssetsScreen: React.FC = () => {
   const [tokens, setTokens] = useState<TokenInfo[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [sortOption, setSortOption] = useState<'name' | 'balance'>('balance');
+  const [discoveredCount, setDiscoveredCount] = useState(0);
 
   // 토큰 데이터 로드
   useEffect(() => {
@@ -51,8 +53,8 @@ const AssetsScreen: React.FC = () => {
       }
 
       try {
-        // 실제 구현에서는 백그라운드 스크립트를 통해 토큰 목록과 잔액을 가져옴
-        // 임시 구현: 더미 데이터
+        // 네이티브 잔액과 추가한 토큰 잔액을 백그라운드에서 Multicall로 한 번에 조회
+        const assetBalances = await getAssetBalances();
 
         // 네이티브 토큰 추가
         const nativeToken: TokenInfo = {
@@ -60,48 +62,24 @@ const AssetsScreen: React.FC = () => {
           symbol: selectedNetwork.nativeCurrency.symbol,
           name: selectedNetwork.nativeCurrency.name,
           decimals: selectedNetwork.nativeCurrency.decimals,
-          balance: '1000000000000000000', // 1 ETH in wei
-          formattedBalance: '1.0',
-          fiatValue: '$ 3,000.00',
+          balance: assetBalances.nativeBalance,
+          formattedBalance: formatUnits(assetBalances.nativeBalance, selectedNetwork.nativeCurrency.decimals),
+          fiatValue: '-',
           isNative: true,
         };
 
-        // 더미 토큰 목록
-        const dummyTokens: TokenInfo[] = [
-          nativeToken,
-          {
-            address: '0x1234567890123456789012345678901234567890',
-            symbol: 'USDT',
-            name: 'Tether USD',
-            decimals: 6,
-            balance: '10000000', // 10 USDT
-            formattedBalance: '10.0',
-            fiatValue: '$ 10.00',
-            logoURI: 'https://cryptologos.cc/logos/tether-usdt-logo.png',
-          },
-          {
-            address: '0x2345678901234567890123456789012345678901',
-            symbol: 'USDC',
-            name: 'USD Coin',
-            decimals: 6,
-            balance: '20000000', // 20 USDC
-            formattedBalance: '20.0',
-            fiatValue: '$ 20.00',
-            logoURI: 'https://cryptologos.cc/logos/usd-coin-usdc-logo.png',
-          },
-          {
-            address: '0x3456789012345678901234567890123456789012',
-            symbol: 'DAI',
-            name: 'Dai Stablecoin',
-            decimals: 18,
-            balance: '5000000000000000000', // 5 DAI
-            formattedBalance: '5.0',
-            fiatValue: '$ 5.00',
-            logoURI: 'https://cryptologos.cc/logos/multi-collateral-dai-dai-logo.png',
-          },
-        ];
+        const assetTokens: TokenInfo[] = assetBalances.tokens.map((token) => ({
+          address: token.address,
+          symbol: token.symbol,
+          name: token.name,
+          decimals: token.decimals,
+          balance: token.balance,
+          formattedBalance: formatUnits(token.balance, token.decimals),
+          fiatValue: '-',
+          logoURI: token.logoURI,
+        }));
 
-        setTokens(dummyTokens);
+        setTokens([nativeToken, ...assetTokens]);
         setIsLoading(false);
       } catch (error) {
         console.error('토큰 정보 로드 중 오류:', error);
@@ -114,7 +92,29 @@ const AssetsScreen: React.FC = () => {
     };
 
     loadTokens();
-  }, [selectedAccount, selectedNetwork, showNotification]);
+  }, [selectedAccount, selectedNetwork, showNotification, discoveredCount]);
+
+  // 보유 토큰 자동 탐색 (새로 찾은 토큰이 있으면 잔액 다시 조회)
+  useEffect(() => {
+    if (!selectedAccount || !selectedNetwork) {
+      return;
+    }
+
+    let cancelled = false;
+    discoverTokens()
+      .then((added) => {
+        if (!cancelled && added.length > 0) {
+          setDiscoveredCount((count) => count + added.length);
+        }
+      })
+      .catch((error) => {
+        console.error('보유 토큰 탐색 중 오류:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedAccount, selectedNetwork]);
 
   // 검색 및 정렬된 토큰 목록
   const filteredTokens = tokens.filter(
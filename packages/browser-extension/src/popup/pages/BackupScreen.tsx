@@ -17,7 +17,7 @@ import LoadingScreen from '../components/common/LoadingScreen';
  */
 const BackupScreen: React.FC = () => {
   const navigate = useNavigate();
-  const { exportSeedPhrase, exportPrivateKey, setCloudBackup, getSocialRecovery, setSocialRecovery } = useWallet();
+  const { settings, exportMnemonic, setCloudBackup, getSocialRecovery, setSocialRecovery } = useWallet();
   
   const [isLoading, setIsLoading] = useState(false);
   const [pin, setPin] = useState('');
@@ -26,7 +26,7 @@ const BackupScreen: React.FC = () => {
   const [seedPhrase, setSeedPhrase] = useState('');
   const [step, setStep] = useState<'options' | 'pin' | 'seed' | 'social'>('options');
   const [backupType, setBackupType] = useState<'seed' | 'cloud' | 'social' | 'key'>('seed');
-  const [cloudBackupEnabled, setCloudBackupEnabled] = useState(false);
+  const [cloudBackupEnabled, setCloudBackupEnabled] = useState(!!settings.cloudBackup);
   const [socialRecovery, setSocialRecoveryData] = useState({
     enabled: false,
     guardians: ['', '', ''],
@@ -64,7 +64,7 @@ const BackupScreen: React.FC = () => {
     
     try {
       if (backupType === 'seed') {
-        const mnemonic = await exportSeedPhrase(pin);
+        const mnemonic = await exportMnemonic(pin);
         setSeedPhrase(mnemonic);
         setShowSeedPhrase(false);
         setStep('seed');
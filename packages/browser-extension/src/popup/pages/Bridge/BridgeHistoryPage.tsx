@@ -21,7 +21,7 @@ import EmptyState from '../../components/common/EmptyState';
 const BridgeHistoryPage: React.FC = () => {
   const { t } = useTranslation();
   const navigate = useNavigate();
-  const { account } = useWallet();
+  const { selectedAccount: account } = useWallet();
   
   // 트랜잭션 이력
   const [transactions, setTransactions] = useState<BridgeTransaction[]>([]);
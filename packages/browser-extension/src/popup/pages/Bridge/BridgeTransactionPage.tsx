@@ -9,7 +9,7 @@ import MainLayout from '../../../layouts/MainLayout';
 import Button from '../../components/common/Button';
 import Card from '../../components/common/Card';
 import LoadingScreen from '../../components/common/LoadingScreen';
-import useWallet from '../../hooks/useWallet';
+import { useWallet } from '../../hooks/useWallet';
 import useNetwork from '../../hooks/useNetwork';
 import useBridge from '../../hooks/useBridge';
 import { BRIDGE_STATUS } from '../../../constants/bridge';
@@ -30,7 +30,7 @@ const BridgeTransactionPage: React.FC = () => {
   const location = useLocation();
   const { txId } = useParams<{ txId: string }>();
   
-  const { account } = useWallet();
+  const { selectedAccount: account } = useWallet();
   const { getChainById } = useNetwork();
   const { getBridgeTransaction, executeBridgeTransaction, confirmBridgeTransaction } = useBridge();
   
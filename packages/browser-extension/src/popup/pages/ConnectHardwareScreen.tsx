@@ -0,0 +1,192 @@
+/**
+ * 하드웨어 지갑 연결 화면
+ * Keystone 등 에어갭 하드웨어 지갑이 내보낸 계정 QR(crypto-hdkey)을 스캔해 계정을 가져오는 화면
+ */
+
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { HardwareAccountCandidate, URRegistryType } from '@crelink/core';
+import Button from '../components/common/Button';
+import Card from '../components/common/Card';
+import QRScanner from '../components/QRScanner';
+import { useWallet } from '../hooks/useWallet';
+import { useUI } from '../context/UIContext';
+
+// 한 페이지에 표시할 계정 후보 수
+const PAGE_SIZE = 5;
+
+// 주소 축약
+const shortenAddress = (address: string): string => `${address.slice(0, 8)}...${address.slice(-6)}`;
+
+/**
+ * 하드웨어 지갑 연결 화면 컴포넌트
+ */
+const ConnectHardwareScreen: React.FC = () => {
+  const navigate = useNavigate();
+  const { getQRAccountCandidates, importQRAccounts } = useWallet();
+  const { showNotification } = useUI();
+
+  // 상태 관리
+  const [ur, setUr] = useState<string | null>(null);
+  const [manualInput, setManualInput] = useState('');
+  const [candidates, setCandidates] = useState<HardwareAccountCandidate[]>([]);
+  const [selectedIndexes, setSelectedIndexes] = useState<number[]>([]);
+  const [page, setPage] = useState(0);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  // 계정 후보 페이지 조회
+  const loadCandidates = async (accountUr: string, nextPage: number) => {
+    setIsLoading(true);
+    setError('');
+    try {
+      setCandidates(await getQRAccountCandidates(accountUr, nextPage * PAGE_SIZE, PAGE_SIZE));
+      setUr(accountUr);
+      setPage(nextPage);
+    } catch (err: any) {
+      setError(err.message || '계정 QR을 읽을 수 없습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 계정 QR 스캔 완료
+  const handleScan = (scanned: string) => {
+    loadCandidates(scanned, 0);
+  };
+
+  // 계정 선택 토글
+  const toggleIndex = (index: number) => {
+    setSelectedIndexes((prev) =>
+      prev.includes(index) ? prev.filter((item) => item !== index) : [...prev, index]
+    );
+  };
+
+  // 선택한 계정 가져오기
+  const handleImport = async () => {
+    if (!ur) return;
+
+    setIsLoading(true);
+    setError('');
+    try {
+      const added = await importQRAccounts(ur, selectedIndexes);
+      showNotification({ type: 'success', message: `하드웨어 지갑 계정 ${added.length}개를 추가했습니다.` });
+      navigate('/settings/accounts');
+    } catch (err: any) {
+      setError(err.message || '계정을 가져오는 중 오류가 발생했습니다.');
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-4 h-full">
+      <h1 className="text-xl font-bold mb-4">하드웨어 지갑 연결</h1>
+
+      {!ur ? (
+        <Card className="mb-4">
+          <p className="text-sm text-gray-600 mb-3">
+            하드웨어 지갑에서 계정 연결(Connect Software Wallet) 화면의 QR 코드를 스캔하세요.
+          </p>
+          <QRScanner
+            expectedType={URRegistryType.CRYPTO_HDKEY}
+            onScan={handleScan}
+            onError={setError}
+            className="mb-3"
+          />
+
+          <label className="text-sm text-gray-600 mb-1 block">또는 UR 텍스트 붙여넣기</label>
+          <textarea
+            value={manualInput}
+            onChange={(e) => setManualInput(e.target.value)}
+            placeholder="ur:crypto-hdkey/..."
+            className="w-full p-2 border border-gray-300 rounded-md font-mono text-xs mb-2"
+            rows={3}
+          />
+          <Button
+            variant="secondary"
+            onClick={() => loadCandidates(manualInput.trim(), 0)}
+            disabled={!manualInput.trim() || isLoading}
+            className="w-full"
+          >
+            확인
+          </Button>
+        </Card>
+      ) : (
+        <Card className="mb-4">
+          <div className="text-sm font-medium mb-2">가져올 계정 선택</div>
+          <div className="space-y-2 mb-3">
+            {candidates.map((candidate) => (
+              <label
+                key={candidate.index}
+                className={`flex items-center p-2 border rounded-md ${candidate.added ? 'opacity-50' : 'cursor-pointer'}`}
+              >
+                <input
+                  type="checkbox"
+                  className="mr-2"
+                  checked={candidate.added || selectedIndexes.includes(candidate.index)}
+                  disabled={candidate.added}
+                  onChange={() => toggleIndex(candidate.index)}
+                />
+                <span className="text-xs text-gray-500 w-8">{candidate.index + 1}</span>
+                <span className="font-mono text-sm">{shortenAddress(candidate.address)}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex justify-between mb-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => loadCandidates(ur, page - 1)}
+              disabled={page === 0 || isLoading}
+            >
+              이전
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => loadCandidates(ur, page + 1)}
+              disabled={isLoading}
+            >
+              다음
+            </Button>
+          </div>
+
+          <Button
+            onClick={handleImport}
+            disabled={selectedIndexes.length === 0}
+            isLoading={isLoading}
+            className="w-full"
+          >
+            {selectedIndexes.length > 0 ? `계정 ${selectedIndexes.length}개 가져오기` : '계정 가져오기'}
+          </Button>
+        </Card>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 text-red-600 text-sm rounded-md">{error}</div>
+      )}
+
+      <div className="bg-blue-50 border border-blue-100 p-3 rounded-md mb-4">
+        <div className="text-sm text-blue-700">
+          <div className="font-medium mb-1">도움말</div>
+          <ul className="list-disc list-inside text-xs">
+            <li>개인키는 하드웨어 지갑을 벗어나지 않으며, 지갑에는 계정 공개키만 저장됩니다.</li>
+            <li>서명할 때마다 요청 QR을 하드웨어 지갑으로 스캔하고, 서명 결과 QR을 다시 스캔합니다.</li>
+            <li>BIP-44 표준 경로(m/44'/60'/0'/0/n) 계정을 지원합니다.</li>
+          </ul>
+        </div>
+      </div>
+
+      <Button
+        variant="secondary"
+        onClick={() => (ur ? setUr(null) : navigate(-1))}
+        className="w-full"
+      >
+        뒤로 가기
+      </Button>
+    </div>
+  );
+};
+
+export default ConnectHardwareScreen;
@@ -34,7 +34,7 @@ const DIDScreen: React.FC = () => {
   useEffect(() => {
     const loadAccount = () => {
       if (accountId && accounts) {
-        const acc = accounts.find(a => a.id === accountId);
+        const acc = accounts.find(a => a.address === accountId);
         if (acc) {
           setAccount(acc);
           setNickname(acc.metadata?.didNickname || '');
@@ -57,9 +57,9 @@ const DIDScreen: React.FC = () => {
   // DID 로그 로드
   useEffect(() => {
     const loadDIDLogs = async () => {
-      if (account?.id && account?.metadata?.didConnected) {
+      if (account?.address && account?.metadata?.didConnected) {
         try {
-          const logs = await getDIDLogs(account.id);
+          const logs = await getDIDLogs(account.address);
           setDidLogs(logs || []);
         } catch (error) {
           console.error('DID 로그 로드 실패:', error);
@@ -79,10 +79,10 @@ const DIDScreen: React.FC = () => {
     setIsLoading(true);
     try {
       // Telegram OAuth 팝업 열기
-      await connectDID(account.id, 'telegram');
+      await connectDID(account.address, 'telegram');
       
       // 연결 성공 시 계정 정보 업데이트
-      const updatedAccount = accounts?.find(a => a.id === account.id);
+      const updatedAccount = accounts?.find(a => a.address === account.address);
       if (updatedAccount) {
         setAccount(updatedAccount);
       }
@@ -103,10 +103,10 @@ const DIDScreen: React.FC = () => {
     setIsLoading(true);
     try {
       // Google OAuth 팝업 열기
-      await connectDID(account.id, 'google');
+      await connectDID(account.address, 'google');
       
       // 연결 성공 시 계정 정보 업데이트
-      const updatedAccount = accounts?.find(a => a.id === account.id);
+      const updatedAccount = accounts?.find(a => a.address === account.address);
       if (updatedAccount) {
         setAccount(updatedAccount);
       }
@@ -126,10 +126,10 @@ const DIDScreen: React.FC = () => {
     
     setIsLoading(true);
     try {
-      await disconnectDID(account.id);
+      await disconnectDID(account.address);
       
       // 연결 해제 성공 시 계정 정보 업데이트
-      const updatedAccount = accounts?.find(a => a.id === account.id);
+      const updatedAccount = accounts?.find(a => a.address === account.address);
       if (updatedAccount) {
         setAccount(updatedAccount);
       }
@@ -159,10 +159,10 @@ const DIDScreen: React.FC = () => {
     
     setIsLoading(true);
     try {
-      await setDIDNickname(account.id, nickname);
+      await setDIDNickname(account.address, nickname);
       
       // 닉네임 저장 성공 시 계정 정보 업데이트
-      const updatedAccount = accounts?.find(a => a.id === account.id);
+      const updatedAccount = accounts?.find(a => a.address === account.address);
       if (updatedAccount) {
         setAccount(updatedAccount);
       }
@@ -5,6 +5,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { TokenValidationStatus } from '@crelink/core';
 import Button from '../components/common/Button';
 import Input from '../components/common/Input';
 import Card from '../components/common/Card';
@@ -20,14 +21,22 @@ interface TokenInfo {
   name: string;
   decimals: number;
   logoURI?: string;
+  validationStatus?: TokenValidationStatus;
 }
 
+// 검증 상태별 안내 문구
+const VALIDATION_MESSAGES: Partial<Record<TokenValidationStatus, string>> = {
+  [TokenValidationStatus.UNVERIFIED]: '토큰 목록에 없는 토큰입니다. 계약 주소를 다시 확인하세요.',
+  [TokenValidationStatus.SUSPICIOUS]: '스팸 또는 사칭 토큰으로 의심됩니다. 이 토큰과 관련된 사이트에 접속하지 마세요.',
+  [TokenValidationStatus.BLOCKED]: 'ERC-20 토큰 계약이 아니거나 차단된 토큰이라 추가할 수 없습니다.',
+};
+
 /**
  * 토큰 가져오기 화면 컴포넌트
  */
 const ImportTokenScreen: React.FC = () => {
   const navigate = useNavigate();
-  const { selectedAccount } = useWallet();
+  const { selectedAccount, validateToken, addToken, getListedTokens } = useWallet();
   const { selectedNetwork } = useNetwork();
   const { showNotification, setIsLoading } = useUI();
 
@@ -42,51 +51,18 @@ const ImportTokenScreen: React.FC = () => {
   const [popularTokens, setPopularTokens] = useState<TokenInfo[]>([]);
   const [addressError, setAddressError] = useState('');
 
-  // 인기 토큰 목록 로드
+  // 선택된 네트워크의 토큰 목록 로드
   useEffect(() => {
     const loadPopularTokens = async () => {
       try {
-        // 실제 구현에서는 백그라운드 스크립트를 통해 인기 토큰 목록을 가져옴
-        // 임시 구현: 더미 데이터
-        const dummyTokens: TokenInfo[] = [
-          {
-            address: '0x1234567890123456789012345678901234567890',
-            symbol: 'USDT',
-            name: 'Tether USD',
-            decimals: 6,
-            logoURI: 'https://cryptologos.cc/logos/tether-usdt-logo.png',
-          },
-          {
-            address: '0x2345678901234567890123456789012345678901',
-            symbol: 'USDC',
-            name: 'USD Coin',
-            decimals: 6,
-            logoURI: 'https://cryptologos.cc/logos/usd-coin-usdc-logo.png',
-          },
-          {
-            address: '0x3456789012345678901234567890123456789012',
-            symbol: 'DAI',
-            name: 'Dai Stablecoin',
-            decimals: 18,
-            logoURI: 'https://cryptologos.cc/logos/multi-collateral-dai-dai-logo.png',
-          },
-          {
-            address: '0x4567890123456789012345678901234567890123',
-            symbol: 'LINK',
-            name: 'Chainlink',
-            decimals: 18,
-            logoURI: 'https://cryptologos.cc/logos/chainlink-link-logo.png',
-          },
-        ];
-
-        setPopularTokens(dummyTokens);
+        setPopularTokens(await getListedTokens());
       } catch (error) {
         console.error('인기 토큰 목록 로드 중 오류:', error);
       }
     };
 
     loadPopularTokens();
-  }, []);
+  }, [selectedNetwork]);
 
   // 주소 형식 검증
   const validateAddress = (address: string): boolean => {
@@ -106,36 +82,19 @@ const ImportTokenScreen: React.FC = () => {
     setAddressError('');
 
     try {
-      // 실제 구현에서는 백그라운드 스크립트를 통해 토큰 정보 조회
-      // 임시 구현: 더미 데이터
-      
-      // 인기 토큰 목록에 있는지 확인
+      // 토큰 목록에 있는지 확인
       const existingToken = popularTokens.find(
         (token) => token.address.toLowerCase() === tokenAddress.toLowerCase()
       );
 
-      if (existingToken) {
-        setTokenInfo(existingToken);
-        setTokenSymbol(existingToken.symbol);
-        setTokenName(existingToken.name);
-        setTokenDecimals(existingToken.decimals.toString());
-        setIsAddressValid(true);
-      } else {
-        // 실제 구현에서는 네트워크 요청으로 토큰 정보 조회
-        // 임시 구현: 랜덤 생성
-        const randomToken: TokenInfo = {
-          address: tokenAddress,
-          symbol: 'TKN',
-          name: 'Unknown Token',
-          decimals: 18,
-        };
+      // 목록에 없으면 계약 코드와 메타데이터를 조회해 스팸 여부 분류
+      const token = existingToken || (await validateToken(tokenAddress));
 
-        setTokenInfo(randomToken);
-        setTokenSymbol(randomToken.symbol);
-        setTokenName(randomToken.name);
-        setTokenDecimals(randomToken.decimals.toString());
-        setIsAddressValid(true);
-      }
+      setTokenInfo(token);
+      setTokenSymbol(token.symbol);
+      setTokenName(token.name);
+      setTokenDecimals(token.decimals.toString());
+      setIsAddressValid(token.validationStatus !== TokenValidationStatus.BLOCKED);
     } catch (error) {
       console.error('토큰 정보 조회 중 오류:', error);
       setAddressError('토큰 정보를 조회할 수 없습니다');
@@ -147,15 +106,22 @@ const ImportTokenScreen: React.FC = () => {
 
   // 토큰 추가 핸들러
   const handleAddToken = async () => {
-    if (!isAddressValid || !tokenInfo) {
+    if (!isAddressValid || !tokenInfo || tokenInfo.validationStatus === TokenValidationStatus.BLOCKED) {
       return;
     }
 
     try {
       setIsLoading(true);
       
-      // 실제 구현에서는 백그라운드 스크립트를 통해 토큰 추가
-      // 임시 구현: 성공 응답
+      // 선택된 네트워크의 토큰 목록에 추가 (사용자가 수정한 심볼, 이름, 소수점 자릿수 반영)
+      await addToken({
+        address: tokenInfo.address,
+        symbol: tokenSymbol,
+        name: tokenName,
+        decimals: Number(tokenDecimals),
+        logoURI: tokenInfo.logoURI,
+        validationStatus: tokenInfo.validationStatus,
+      });
       
       // 성공 메시지 표시
       showNotification({
@@ -275,6 +241,19 @@ const ImportTokenScreen: React.FC = () => {
               disabled={isSearching}
               type="number"
             />
+
+            {/* 토큰 검증 상태 안내 */}
+            {tokenInfo?.validationStatus && VALIDATION_MESSAGES[tokenInfo.validationStatus] && (
+              <div
+                className={`p-3 rounded-lg text-sm ${
+                  tokenInfo.validationStatus === TokenValidationStatus.UNVERIFIED
+                    ? 'bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300'
+                    : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300'
+                }`}
+              >
+                {VALIDATION_MESSAGES[tokenInfo.validationStatus]}
+              </div>
+            )}
           </div>
 
           <div className="mt-6">
@@ -16,7 +16,7 @@ import { useUI } from '../context/UIContext';
 const LoginScreen: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { unlockWallet, hasWallet } = useWallet();
+  const { unlockWallet, hasWallet, isInitialized } = useWallet();
   const { showNotification, setIsLoading } = useUI();
   
   // 상태 관리
@@ -29,15 +29,10 @@ const LoginScreen: React.FC = () => {
   
   // 지갑 존재 여부 확인 및 리디렉션
   useEffect(() => {
-    const checkWallet = async () => {
-      const walletExists = await hasWallet();
-      if (!walletExists) {
-        navigate('/onboarding');
-      }
-    };
-    
-    checkWallet();
-  }, [hasWallet, navigate]);
+    if (isInitialized && !hasWallet) {
+      navigate('/onboarding');
+    }
+  }, [isInitialized, hasWallet, navigate]);
   
   // 잠금 해제 핸들러
   const handleUnlock = async () => {
@@ -1,10 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useWallet } from '../hooks/useWallet';
+import { useNetwork } from '../context/NetworkContext';
 import Button from '../components/common/Button';
 import Card from '../components/common/Card';
 import Input from '../components/common/Input';
 import LoadingScreen from '../components/common/LoadingScreen';
+import { RpcEndpointHealthReport } from '../context/WalletContext';
+
+// 삭제할 수 없는 기본 Catena 네트워크 (메인넷, 테스트넷)
+const PROTECTED_CHAIN_IDS = [1000, 9000];
+
+// RPC 엔드포인트 상태 표시
+const ENDPOINT_STATUS_STYLES: Record<string, { label: string; className: string }> = {
+  healthy: { label: '정상', className: 'bg-green-100 text-green-800' },
+  degraded: { label: '지연', className: 'bg-yellow-100 text-yellow-800' },
+  unhealthy: { label: '장애', className: 'bg-red-100 text-red-800' },
+};
 
 /**
  * NetworksScreen - 네트워크 관리 페이지
@@ -13,15 +25,20 @@ import LoadingScreen from '../components/common/LoadingScreen';
  * - 현재 추가된 네트워크 목록 표시
  * - 네트워크 추가/수정/삭제
  * - 네트워크 선택
+ * - 선택된 네트워크의 RPC 엔드포인트 상태 표시
  */
 const NetworksScreen: React.FC = () => {
   const navigate = useNavigate();
-  const { networks, selectedNetwork, addNetwork, updateNetwork, deleteNetwork, selectNetwork } = useWallet();
+  const { networks, selectedNetwork, addNetwork, updateNetwork, removeNetwork, selectNetwork } = useNetwork();
+  const { getRpcEndpointHealth } = useWallet();
+  
+  const [endpointHealth, setEndpointHealth] = useState<RpcEndpointHealthReport | null>(null);
+  const [isCheckingHealth, setIsCheckingHealth] = useState(false);
   
   const [isLoading, setIsLoading] = useState(false);
   const [isAdding, setIsAdding] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
-  const [editNetworkId, setEditNetworkId] = useState<string | null>(null);
+  const [editChainId, setEditChainId] = useState<number | null>(null);
   
   const [newNetwork, setNewNetwork] = useState({
     name: '',
@@ -40,25 +57,42 @@ const NetworksScreen: React.FC = () => {
   
   // 편집 시 네트워크 정보 불러오기
   useEffect(() => {
-    if (isEditing && editNetworkId) {
-      const network = networks?.find(n => n.id === editNetworkId);
+    if (isEditing && editChainId) {
+      const network = networks?.find(n => n.chainId === editChainId);
       if (network) {
         setNewNetwork({
           name: network.name,
           rpcUrl: network.rpcUrl,
           chainId: network.chainId.toString(),
-          symbol: network.symbol,
-          explorerUrl: network.explorerUrl || '',
+          symbol: network.nativeCurrency.symbol,
+          explorerUrl: network.blockExplorerUrl || '',
         });
       }
     }
-  }, [isEditing, editNetworkId, networks]);
+  }, [isEditing, editChainId, networks]);
+  
+  // RPC 엔드포인트 상태 불러오기
+  const loadEndpointHealth = async (refresh: boolean = false) => {
+    setIsCheckingHealth(true);
+    try {
+      setEndpointHealth(await getRpcEndpointHealth(refresh));
+    } catch (error) {
+      console.error('RPC 엔드포인트 상태 조회 실패:', error);
+    } finally {
+      setIsCheckingHealth(false);
+    }
+  };
+  
+  // 선택된 네트워크가 바뀌면 엔드포인트 상태 다시 조회
+  useEffect(() => {
+    loadEndpointHealth();
+  }, [selectedNetwork?.chainId]);
   
   // 네트워크 선택 처리
-  const handleSelectNetwork = async (networkId: string) => {
+  const handleSelectNetwork = async (chainId: number) => {
     setIsLoading(true);
     try {
-      await selectNetwork(networkId);
+      await selectNetwork(chainId);
     } catch (error) {
       console.error('네트워크 선택 실패:', error);
     } finally {
@@ -70,7 +104,7 @@ const NetworksScreen: React.FC = () => {
   const handleShowAddForm = () => {
     setIsAdding(true);
     setIsEditing(false);
-    setEditNetworkId(null);
+    setEditChainId(null);
     
     // 폼 초기화
     setNewNetwork({
@@ -90,25 +124,25 @@ const NetworksScreen: React.FC = () => {
   };
   
   // 네트워크 편집 폼 표시
-  const handleShowEditForm = (networkId: string) => {
+  const handleShowEditForm = (chainId: number) => {
     setIsAdding(false);
     setIsEditing(true);
-    setEditNetworkId(networkId);
+    setEditChainId(chainId);
   };
   
   // 폼 취소
   const handleCancelForm = () => {
     setIsAdding(false);
     setIsEditing(false);
-    setEditNetworkId(null);
+    setEditChainId(null);
   };
   
   // 네트워크 삭제
-  const handleDeleteNetwork = async (networkId: string) => {
+  const handleDeleteNetwork = async (chainId: number) => {
     if (window.confirm('네트워크를 삭제하시겠습니까? 이 작업은 되돌릴 수 없습니다.')) {
       setIsLoading(true);
       try {
-        await deleteNetwork(networkId);
+        await removeNetwork(chainId);
       } catch (error) {
         console.error('네트워크 삭제 실패:', error);
       } finally {
@@ -165,28 +199,41 @@ const NetworksScreen: React.FC = () => {
     setIsLoading(true);
     
     try {
-      if (isEditing && editNetworkId) {
-        await updateNetwork(editNetworkId, {
+      const chainId = parseInt(newNetwork.chainId);
+      
+      if (isEditing && editChainId) {
+        const network = networks.find(n => n.chainId === editChainId);
+        await updateNetwork(editChainId, {
           name: newNetwork.name,
           rpcUrl: newNetwork.rpcUrl,
-          chainId: parseInt(newNetwork.chainId),
-          symbol: newNetwork.symbol,
-          explorerUrl: newNetwork.explorerUrl || undefined,
+          chainId,
+          chainIdHex: `0x${chainId.toString(16)}`,
+          nativeCurrency: {
+            name: network?.nativeCurrency.name || newNetwork.symbol,
+            symbol: newNetwork.symbol,
+            decimals: network?.nativeCurrency.decimals ?? 18,
+          },
+          blockExplorerUrl: newNetwork.explorerUrl || undefined,
         });
       } else {
         await addNetwork({
           name: newNetwork.name,
           rpcUrl: newNetwork.rpcUrl,
-          chainId: parseInt(newNetwork.chainId),
-          symbol: newNetwork.symbol,
-          explorerUrl: newNetwork.explorerUrl || undefined,
+          chainId,
+          chainIdHex: `0x${chainId.toString(16)}`,
+          nativeCurrency: {
+            name: newNetwork.symbol,
+            symbol: newNetwork.symbol,
+            decimals: 18,
+          },
+          blockExplorerUrl: newNetwork.explorerUrl || undefined,
         });
       }
       
       // 폼 상태 초기화
       setIsAdding(false);
       setIsEditing(false);
-      setEditNetworkId(null);
+      setEditChainId(null);
     } catch (error) {
       console.error('네트워크 저장 실패:', error);
     } finally {
@@ -293,7 +340,7 @@ const NetworksScreen: React.FC = () => {
       ) : (
         <div className="space-y-3">
           {networks?.map((network) => (
-            <Card key={network.id} className={`mb-2 ${network.id === selectedNetwork?.id ? 'border-2 border-blue-500' : ''}`}>
+            <Card key={network.chainId} className={`mb-2 ${network.chainId === selectedNetwork?.chainId ? 'border-2 border-blue-500' : ''}`}>
               <div className="flex justify-between">
                 <div>
                   <div className="font-medium">{network.name}</div>
@@ -301,19 +348,19 @@ const NetworksScreen: React.FC = () => {
                     {network.rpcUrl}
                   </div>
                   <div className="text-xs text-gray-400 mt-1">
-                    Chain ID: {network.chainId} • Symbol: {network.symbol}
+                    Chain ID: {network.chainId} • Symbol: {network.nativeCurrency.symbol}
                   </div>
                 </div>
                 
                 <div className="flex flex-col justify-between items-end">
-                  {network.id === selectedNetwork?.id ? (
+                  {network.chainId === selectedNetwork?.chainId ? (
                     <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
                       현재 선택됨
                     </span>
                   ) : (
                     <Button
                       variant="secondary"
-                      onClick={() => handleSelectNetwork(network.id)}
+                      onClick={() => handleSelectNetwork(network.chainId)}
                       className="text-sm px-3 py-1"
                     >
                       선택
@@ -322,16 +369,16 @@ const NetworksScreen: React.FC = () => {
                   
                   <div className="flex space-x-1 mt-2">
                     <button
-                      onClick={() => handleShowEditForm(network.id)}
+                      onClick={() => handleShowEditForm(network.chainId)}
                       className="text-gray-500 hover:text-gray-700 transition-colors"
                     >
                       편집
                     </button>
                     
                     {/* Catena 메인넷과 테스트넷은 삭제 불가 */}
-                    {!['catena-mainnet', 'catena-testnet'].includes(network.id) && (
+                    {!PROTECTED_CHAIN_IDS.includes(network.chainId) && (
                       <button
-                        onClick={() => handleDeleteNetwork(network.id)}
+                        onClick={() => handleDeleteNetwork(network.chainId)}
                         className="text-red-500 hover:text-red-700 transition-colors"
                       >
                         삭제
@@ -351,6 +398,48 @@ const NetworksScreen: React.FC = () => {
         </div>
       )}
       
+      {!isAdding && !isEditing && endpointHealth && endpointHealth.endpoints.length > 0 && (
+        <Card className="mt-4">
+          <div className="flex justify-between items-center mb-2">
+            <h2 className="text-sm font-medium">RPC 엔드포인트 상태</h2>
+            <button
+              onClick={() => loadEndpointHealth(true)}
+              disabled={isCheckingHealth}
+              className="text-xs text-blue-600 hover:text-blue-800 transition-colors"
+            >
+              {isCheckingHealth ? '확인 중...' : '다시 확인'}
+            </button>
+          </div>
+          
+          <div className="space-y-2">
+            {endpointHealth.endpoints.map((endpoint) => {
+              const status = ENDPOINT_STATUS_STYLES[endpoint.status];
+              
+              return (
+                <div key={endpoint.url} className="flex justify-between items-center text-xs">
+                  <div className="truncate mr-2">
+                    <div className="truncate">
+                      {endpoint.url}
+                      {endpoint.url === endpointHealth.activeEndpoint && (
+                        <span className="ml-1 text-blue-600">(사용 중)</span>
+                      )}
+                    </div>
+                    <div className="text-gray-400">
+                      {Math.round(endpoint.latency)}ms • 오류율 {Math.round(endpoint.errorRate * 100)}%
+                      {endpoint.blockNumber > 0 && ` • 블록 #${endpoint.blockNumber}`}
+                      {endpoint.blockLag > 0 && ` (${endpoint.blockLag}블록 뒤처짐)`}
+                    </div>
+                  </div>
+                  <span className={`inline-flex items-center px-2 py-1 rounded-full font-medium ${status.className}`}>
+                    {status.label}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+      )}
+      
       {!isAdding && !isEditing && (
         <div className="bg-yellow-50 border border-yellow-100 p-3 rounded-md mt-4">
           <div className="text-sm text-yellow-700">
@@ -0,0 +1,163 @@
+/**
+ * QR 서명 화면
+ * 에어갭 하드웨어 지갑 계정의 서명 요청을 애니메이션 QR로 보여 주고,
+ * 하드웨어 지갑이 표시한 서명 결과 QR을 스캔해 서명을 완료하는 화면
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { EthDataType, URRegistryType } from '@crelink/core';
+import AnimatedQRCode from '../components/AnimatedQRCode';
+import Button from '../components/common/Button';
+import Card from '../components/common/Card';
+import QRScanner from '../components/QRScanner';
+import { PendingQRSignRequest } from '../context/WalletContext';
+import { useWallet } from '../hooks/useWallet';
+
+// 대기 중인 요청 확인 간격 (밀리초)
+const POLL_INTERVAL = 1000;
+
+// 요청이 없을 때 창을 닫기 전까지 기다리는 시간 (밀리초)
+const IDLE_TIMEOUT = 5000;
+
+// 서명 데이터 종류 표시 이름
+const DATA_TYPE_LABELS: Record<EthDataType, string> = {
+  [EthDataType.TRANSACTION]: '트랜잭션',
+  [EthDataType.TYPED_TRANSACTION]: '트랜잭션',
+  [EthDataType.TYPED_DATA]: '타입 데이터',
+  [EthDataType.PERSONAL_MESSAGE]: '메시지',
+};
+
+/**
+ * QR 서명 화면 컴포넌트
+ */
+const QRSignScreen: React.FC = () => {
+  const navigate = useNavigate();
+  const { getPendingQRSignRequests, submitQRSignature, cancelQRSignRequest } = useWallet();
+
+  // 상태 관리
+  const [request, setRequest] = useState<PendingQRSignRequest | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [error, setError] = useState('');
+
+  // 창 닫기 (별도 창이 아니면 홈으로 이동)
+  const close = () => {
+    if (new URLSearchParams(window.location.search).get('action')) {
+      window.close();
+    } else {
+      navigate('/');
+    }
+  };
+
+  // 대기 중인 요청 확인 (서명이 승인 직후 백그라운드에서 시작되므로 잠시 기다림)
+  useEffect(() => {
+    let idleSince = Date.now();
+
+    const poll = async () => {
+      try {
+        const pending = await getPendingQRSignRequests();
+        if (pending.length > 0) {
+          idleSince = Date.now();
+          setRequest((current) =>
+            current && pending.some((item) => item.requestId === current.requestId) ? current : pending[0]
+          );
+          return;
+        }
+      } catch (err) {
+        console.error('QR 서명 요청 확인 실패:', err);
+      }
+
+      setRequest(null);
+      if (Date.now() - idleSince > IDLE_TIMEOUT) {
+        close();
+      }
+    };
+
+    poll();
+    const timerId = setInterval(poll, POLL_INTERVAL);
+    return () => clearInterval(timerId);
+  }, []);
+
+  // 요청이 바뀌면 요청 QR부터 다시 표시
+  useEffect(() => {
+    setIsScanning(false);
+    setError('');
+  }, [request?.requestId]);
+
+  // 서명 결과 QR 스캔 완료
+  const handleScan = async (ur: string) => {
+    if (!request) return;
+
+    try {
+      await submitQRSignature(request.requestId, ur);
+      setRequest(null);
+    } catch (err: any) {
+      setError(err.message || '서명 QR을 처리할 수 없습니다.');
+      setIsScanning(false);
+    }
+  };
+
+  // 서명 요청 취소
+  const handleCancel = async () => {
+    if (!request) return;
+
+    try {
+      await cancelQRSignRequest(request.requestId);
+    } catch (err) {
+      console.error('QR 서명 요청 취소 실패:', err);
+    }
+    setRequest(null);
+  };
+
+  if (!request) {
+    return (
+      <div className="p-4 h-full flex items-center justify-center">
+        <div className="animate-pulse text-gray-500">서명 요청을 기다리는 중...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 h-full">
+      <h1 className="text-xl font-bold mb-4">하드웨어 지갑 서명</h1>
+
+      <Card className="mb-4">
+        <div className="text-sm text-gray-600 mb-1">
+          {DATA_TYPE_LABELS[request.dataType]} 서명 · {request.address.slice(0, 8)}...{request.address.slice(-6)}
+        </div>
+        <div className="text-xs text-gray-400 mb-3 font-mono">{request.path}</div>
+
+        {isScanning ? (
+          <>
+            <p className="text-sm text-gray-600 mb-3">하드웨어 지갑에 표시된 서명 결과 QR을 스캔하세요.</p>
+            <QRScanner
+              expectedType={URRegistryType.ETH_SIGNATURE}
+              onScan={handleScan}
+              onError={setError}
+            />
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 mb-3">하드웨어 지갑으로 아래 QR 코드를 스캔한 뒤 서명하세요.</p>
+            <AnimatedQRCode ur={request.ur} />
+          </>
+        )}
+      </Card>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 text-red-600 text-sm rounded-md">{error}</div>
+      )}
+
+      <div className="space-y-3">
+        <Button onClick={() => setIsScanning(!isScanning)} className="w-full">
+          {isScanning ? '요청 QR 다시 보기' : '서명 결과 스캔'}
+        </Button>
+        <Button variant="secondary" onClick={handleCancel} className="w-full">
+          취소
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default QRSignScreen;
@@ -1,6 +1,7 @@
 import React, { useState, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useWallet } from '../hooks/useWallet';
+import { useNetwork } from '../context/NetworkContext';
 import Button from '../components/common/Button';
 import Card from '../components/common/Card';
 import NetworkSelector from '../components/NetworkSelector';
@@ -16,7 +17,8 @@ import NetworkSelector from '../components/NetworkSelector';
  */
 const ReceiveScreen: React.FC = () => {
   const navigate = useNavigate();
-  const { selectedAccount, selectedNetwork } = useWallet();
+  const { selectedAccount } = useWallet();
+  const { selectedNetwork } = useNetwork();
   const [copied, setCopied] = useState(false);
   const addressRef = useRef<HTMLDivElement>(null);
   
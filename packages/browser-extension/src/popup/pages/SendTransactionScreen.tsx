@@ -1,18 +1,37 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useWallet } from '../hooks/useWallet';
+import { useNetwork } from '../context/NetworkContext';
 import Button from '../components/common/Button';
 import Input from '../components/common/Input';
 import Card from '../components/common/Card';
 import LoadingScreen from '../components/common/LoadingScreen';
 import NetworkSelector from '../components/NetworkSelector';
-import { formatUnits, parseUnits } from 'ethers';
+import { formatUnits, isAddress, parseUnits } from 'ethers';
+import {
+  AddressPoisoningWarning,
+  AddressType,
+  RecipientSource,
+  RecipientSuggestion,
+  ResolvedName,
+  getAddressType
+} from '@crelink/core';
+
+// 전송할 수 있는 자산 (contractAddress가 빈 문자열이면 네이티브 코인)
+interface SendableAsset {
+  contractAddress: string;
+  symbol: string;
+  decimals: number;
+  balance: string;
+}
 
 /**
  * SendTransactionScreen - 자산 전송 페이지
  * 
  * 주요 기능:
  * - 수신자 주소 입력 (주소 직접 입력, QR 스캔, DID 닉네임 검색)
+ * - 내 계정, 조회 전용 계정, 주소록 연락처에서 수신자 선택
+ * - 주소 중독 경고 (내 계정이나 이전 거래 상대와 앞뒤 글자만 같은 주소)
  * - 토큰 및 금액 설정
  * - 가스비 설정 (빠름, 보통, 저렴)
  * - 트랜잭션 미리보기 및 확인
@@ -21,7 +40,16 @@ import { formatUnits, parseUnits } from 'ethers';
 const SendTransactionScreen: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { selectedAccount, assets, selectedNetwork, sendTransaction, estimateGas } = useWallet();
+  const {
+    selectedAccount,
+    getAssetBalances,
+    sendTransaction,
+    estimateGas,
+    checkRecipientAddress,
+    resolveRecipient,
+    getRecipientSuggestions
+  } = useWallet();
+  const { selectedNetwork } = useNetwork();
   
   // 기본값으로 location state에서 토큰 정보를 가져옴 (TokenDetailScreen에서 전달)
   const defaultAsset = location.state?.asset;
@@ -29,7 +57,8 @@ const SendTransactionScreen: React.FC = () => {
   // 상태 관리
   const [recipient, setRecipient] = useState('');
   const [amount, setAmount] = useState('');
-  const [selectedAsset, setSelectedAsset] = useState(defaultAsset || (assets && assets.length > 0 ? assets[0] : null));
+  const [assets, setAssets] = useState<SendableAsset[]>([]);
+  const [selectedAsset, setSelectedAsset] = useState(defaultAsset || null);
   const [memo, setMemo] = useState('');
   const [gasOption, setGasOption] = useState('medium'); // 'fast', 'medium', 'slow'
   const [gasPrice, setGasPrice] = useState<{ fast: string; medium: string; slow: string }>({
@@ -41,12 +70,51 @@ const SendTransactionScreen: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [step, setStep] = useState<'form' | 'confirm'>('form');
+  const [resolvedRecipient, setResolvedRecipient] = useState<ResolvedName | null>(null);
+  const [isResolvingRecipient, setIsResolvingRecipient] = useState(false);
+  const [recipientError, setRecipientError] = useState('');
+  const [recipientWarnings, setRecipientWarnings] = useState<AddressPoisoningWarning[]>([]);
+  const [warningAcknowledged, setWarningAcknowledged] = useState(false);
+  const [showRecipientPicker, setShowRecipientPicker] = useState(false);
+  const [recipientSuggestions, setRecipientSuggestions] = useState<RecipientSuggestion[]>([]);
   
   // 선택된 자산의 잔액을 가져옴
   const selectedAssetBalance = selectedAsset 
     ? assets?.find(asset => asset.contractAddress === selectedAsset.contractAddress)?.balance || '0'
     : '0';
   
+  // 전송할 수 있는 자산 목록 로드 (네이티브 코인 + 추가한 토큰)
+  useEffect(() => {
+    const fetchAssets = async () => {
+      if (!selectedNetwork || !selectedAccount) return;
+      
+      try {
+        const assetBalances = await getAssetBalances();
+        const sendableAssets: SendableAsset[] = [
+          {
+            contractAddress: '',
+            symbol: selectedNetwork.nativeCurrency.symbol,
+            decimals: selectedNetwork.nativeCurrency.decimals,
+            balance: assetBalances.nativeBalance,
+          },
+          ...assetBalances.tokens.map((token) => ({
+            contractAddress: token.address,
+            symbol: token.symbol,
+            decimals: token.decimals,
+            balance: token.balance,
+          })),
+        ];
+        
+        setAssets(sendableAssets);
+        setSelectedAsset((current: SendableAsset | null) => current || sendableAssets[0]);
+      } catch (error) {
+        console.error('자산 목록 로드 실패:', error);
+      }
+    };
+    
+    fetchAssets();
+  }, [selectedNetwork, selectedAccount]);
+  
   // 가스비 추정
   useEffect(() => {
     const fetchGasPrice = async () => {
@@ -67,6 +135,75 @@ const SendTransactionScreen: React.FC = () => {
     fetchGasPrice();
   }, [selectedNetwork, selectedAccount, estimateGas]);
   
+  // 수신자 입력(주소, ENS 이름, Catena 이름, zkDID, zkDID 별칭)을 주소로 해석하고 주소 중독 위험 확인
+  useEffect(() => {
+    let cancelled = false;
+    setWarningAcknowledged(false);
+    setResolvedRecipient(null);
+    setRecipientWarnings([]);
+    setRecipientError('');
+    setIsResolvingRecipient(false);
+    
+    const input = recipient.trim();
+    if (!input || getAddressType(input.toLowerCase()) === AddressType.UNKNOWN) {
+      return;
+    }
+    
+    // 이름은 입력이 끝난 뒤 해석
+    const timer = setTimeout(async () => {
+      setIsResolvingRecipient(true);
+      
+      try {
+        const resolved = await resolveRecipient(input);
+        if (cancelled) return;
+        setResolvedRecipient(resolved);
+        
+        const warnings = await checkRecipientAddress(resolved.address);
+        if (!cancelled) {
+          setRecipientWarnings(warnings);
+        }
+      } catch (error: any) {
+        if (!cancelled) {
+          setRecipientError(error.message || '수신자 주소를 확인할 수 없습니다');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsResolvingRecipient(false);
+        }
+      }
+    }, isAddress(input) ? 0 : 400);
+    
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [recipient, resolveRecipient, checkRecipientAddress]);
+  
+  // 수신자 선택 목록 조회 (입력 중인 값이 주소가 아니면 검색어로 사용)
+  useEffect(() => {
+    if (!showRecipientPicker) {
+      return;
+    }
+    
+    let cancelled = false;
+    const query = isAddress(recipient.trim()) ? '' : recipient.trim();
+    getRecipientSuggestions(query).then((suggestions) => {
+      if (!cancelled) {
+        setRecipientSuggestions(suggestions);
+      }
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [showRecipientPicker, recipient, getRecipientSuggestions]);
+  
+  // 수신자 선택
+  const handleSelectRecipient = (suggestion: RecipientSuggestion) => {
+    setRecipient(suggestion.address);
+    setShowRecipientPicker(false);
+  };
+  
   // 최대 가능 금액 설정 (잔액 - 가스비)
   const handleMaxAmount = () => {
     if (!selectedAsset) return;
@@ -92,11 +229,26 @@ const SendTransactionScreen: React.FC = () => {
   
   // 전송 양식 유효성 검사
   const validateForm = (): boolean => {
+    if (selectedAccount?.isWatchOnly) {
+      setError('조회 전용 계정으로는 전송할 수 없습니다');
+      return false;
+    }
+    
     if (!recipient) {
       setError('수신자 주소를 입력하세요');
       return false;
     }
     
+    if (isResolvingRecipient) {
+      setError('수신자 주소를 확인하는 중입니다');
+      return false;
+    }
+    
+    if (!resolvedRecipient) {
+      setError(recipientError || '유효하지 않은 수신자 주소입니다');
+      return false;
+    }
+    
     if (!amount || parseFloat(amount) <= 0) {
       setError('전송 금액을 입력하세요');
       return false;
@@ -127,19 +279,25 @@ const SendTransactionScreen: React.FC = () => {
   
   // 트랜잭션 전송
   const handleSend = async () => {
-    if (!selectedAsset || !selectedAccount) return;
+    if (!selectedAsset || !selectedAccount || !resolvedRecipient) return;
+    
+    if (recipientWarnings.length > 0 && !warningAcknowledged) {
+      setError('수신 주소 경고를 확인하세요');
+      return;
+    }
     
     setIsLoading(true);
     setError('');
     
     try {
+      const recipientAddress = resolvedRecipient.address;
       const tx = {
-        to: recipient,
+        to: recipientAddress,
         value: selectedAsset.contractAddress === '' ? parseUnits(amount, selectedAsset.decimals).toString() : '0',
         gasPrice: parseUnits(gasPrice[gasOption], 'gwei').toString(),
         gasLimit: gasLimit,
         data: selectedAsset.contractAddress !== '' 
-          ? `0xa9059cbb${recipient.slice(2).padStart(64, '0')}${parseUnits(amount, selectedAsset.decimals).toString(16).padStart(64, '0')}`
+          ? `0xa9059cbb${recipientAddress.slice(2).padStart(64, '0')}${parseUnits(amount, selectedAsset.decimals).toString(16).padStart(64, '0')}`
           : '0x',
         chainId: selectedNetwork?.chainId || 1000,
       };
@@ -200,13 +358,19 @@ const SendTransactionScreen: React.FC = () => {
           <NetworkSelector />
         </div>
         
+        {selectedAccount?.isWatchOnly && (
+          <div className="mb-4 p-2 bg-yellow-50 border border-yellow-300 rounded-md text-xs text-yellow-700">
+            조회 전용 계정입니다. 잔액과 활동 내역만 확인할 수 있으며 전송하려면 서명 가능한 계정을 선택하세요.
+          </div>
+        )}
+        
         <Card className="mb-4">
           <div className="mb-4">
             <label className="text-sm text-gray-600 mb-1 block">수신자 주소</label>
             <div className="flex">
               <Input
                 type="text"
-                placeholder="0x... 또는 @nickname.creata"
+                placeholder="0x..., name.eth 또는 @nickname.creata"
                 value={recipient}
                 onChange={(e) => setRecipient(e.target.value)}
                 className="flex-grow mr-2"
@@ -225,7 +389,65 @@ const SendTransactionScreen: React.FC = () => {
               >
                 @
               </Button>
+              <Button 
+                variant="secondary" 
+                onClick={() => setShowRecipientPicker(!showRecipientPicker)}
+                className="px-2 ml-1"
+              >
+                주소록
+              </Button>
             </div>
+            {showRecipientPicker && (
+              <div className="mt-2 max-h-48 overflow-y-auto border border-gray-200 rounded-md">
+                {recipientSuggestions.length === 0 ? (
+                  <div className="p-2 text-xs text-gray-500">
+                    일치하는 계정이나 연락처가 없습니다
+                  </div>
+                ) : (
+                  recipientSuggestions.map((suggestion) => (
+                    <button
+                      key={suggestion.address}
+                      onClick={() => handleSelectRecipient(suggestion)}
+                      className="w-full text-left p-2 hover:bg-gray-50 border-b border-gray-100 last:border-b-0"
+                    >
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm font-medium">{suggestion.name}</span>
+                        <span className="text-xs text-gray-500">
+                          {suggestion.source === RecipientSource.CONTACT
+                            ? '연락처'
+                            : suggestion.source === RecipientSource.WATCH_ONLY
+                              ? '조회 전용'
+                              : '내 계정'}
+                        </span>
+                      </div>
+                      {suggestion.label && (
+                        <div className="text-xs text-gray-500">{suggestion.label}</div>
+                      )}
+                      <div className="text-xs font-mono text-gray-400">
+                        {suggestion.address.substring(0, 10)}...{suggestion.address.substring(suggestion.address.length - 8)}
+                      </div>
+                    </button>
+                  ))
+                )}
+              </div>
+            )}
+            {isResolvingRecipient && (
+              <div className="mt-1 text-xs text-gray-500">수신자 확인 중...</div>
+            )}
+            {resolvedRecipient && resolvedRecipient.type !== AddressType.HEX && (
+              <div className="mt-1 text-xs text-green-600 font-mono break-all">{resolvedRecipient.address}</div>
+            )}
+            {recipientError && (
+              <div className="mt-1 text-xs text-red-500">{recipientError}</div>
+            )}
+            {recipientWarnings.length > 0 && (
+              <div className="mt-2 p-2 bg-red-50 border border-red-300 rounded-md text-xs text-red-600">
+                <div className="font-bold mb-1">주소 중독 공격이 의심됩니다</div>
+                {recipientWarnings.map((warning, index) => (
+                  <div key={index} className="break-all">{warning.message}</div>
+                ))}
+              </div>
+            )}
           </div>
           
           <div className="mb-4">
@@ -350,7 +572,29 @@ const SendTransactionScreen: React.FC = () => {
         
         <div className="border-b pb-2 mb-2">
           <div className="text-sm text-gray-600">받는 주소</div>
-          <div className="text-sm font-mono break-all">{recipient}</div>
+          {resolvedRecipient && resolvedRecipient.type !== AddressType.HEX && (
+            <div className="text-sm font-bold">{resolvedRecipient.name}</div>
+          )}
+          <div className="text-sm font-mono break-all">{resolvedRecipient?.address || recipient}</div>
+          {recipientWarnings.length > 0 && (
+            <div className="mt-2 p-2 bg-red-50 border border-red-300 rounded-md text-xs text-red-600">
+              {recipientWarnings.map((warning, index) => (
+                <div key={index} className="mb-1 break-all">
+                  <div>{warning.message}</div>
+                  <div className="font-mono">비슷한 주소: {warning.lookalike.address}</div>
+                </div>
+              ))}
+              <label className="flex items-center mt-2">
+                <input
+                  type="checkbox"
+                  className="mr-2"
+                  checked={warningAcknowledged}
+                  onChange={(e) => setWarningAcknowledged(e.target.checked)}
+                />
+                받는 주소 전체를 직접 확인했습니다
+              </label>
+            </div>
+          )}
         </div>
         
         <div className="border-b pb-2 mb-2">
@@ -401,6 +645,7 @@ const SendTransactionScreen: React.FC = () => {
         <Button
           onClick={handleSend}
           className="flex-1"
+          disabled={recipientWarnings.length > 0 && !warningAcknowledged}
         >
           서명 및 전송
         </Button>
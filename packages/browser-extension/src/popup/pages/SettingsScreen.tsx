@@ -5,13 +5,14 @@ import { useWallet } from '../hooks/useWallet';
 import { useUI } from '../context/UIContext';
 import Button from '../components/common/Button';
 import Card from '../components/common/Card';
+import Input from '../components/common/Input';
 import LanguageSelector from '../components/common/LanguageSelector';
 
 /**
  * SettingsScreen - 지갑 설정 페이지
  * 
  * 주요 기능:
- * - 보안 설정 (PIN 변경, 생체 인증 활성화/비활성화)
+ * - 보안 설정 (PIN 변경, 토큰 승인 관리, 생체 인증 활성화/비활성화)
  * - 네트워크 관리 (체인 추가/편집)
  * - 계정 관리 (계정 추가, 가져오기, 내보내기)
  * - DID 관리 (DID 연결, 닉네임 설정)
@@ -22,9 +23,11 @@ import LanguageSelector from '../components/common/LanguageSelector';
 const SettingsScreen: React.FC = () => {
   const navigate = useNavigate();
   const { t } = useTranslation();
-  const { logout, resetWallet, selectedAccount, settings, updateSettings } = useWallet();
+  const { lockWallet, resetWallet, selectedAccount, settings, updateSettings } = useWallet();
   const { themeMode, setThemeMode } = useUI();
   const [showResetConfirm, setShowResetConfirm] = useState(false);
+  const [resetPassword, setResetPassword] = useState('');
+  const [resetError, setResetError] = useState('');
   
   // 설정 변경 핸들러
   const handleToggleBiometrics = () => {
@@ -53,23 +56,32 @@ const SettingsScreen: React.FC = () => {
   
   // 로그아웃 처리
   const handleLogout = async () => {
-    await logout();
+    await lockWallet();
     navigate('/login');
   };
   
   // 지갑 초기화 처리
   const handleResetWallet = async () => {
-    if (showResetConfirm) {
-      await resetWallet();
-      navigate('/onboarding');
-    } else {
+    if (!showResetConfirm) {
       setShowResetConfirm(true);
+      return;
+    }
+    
+    // 비밀번호가 맞을 때만 초기화
+    try {
+      await resetWallet(resetPassword);
+      navigate('/onboarding');
+    } catch (error) {
+      console.error('지갑 초기화 실패:', error);
+      setResetError(t('errors.invalidPassword') || '');
     }
   };
   
   // 지갑 초기화 취소
   const handleCancelReset = () => {
     setShowResetConfirm(false);
+    setResetPassword('');
+    setResetError('');
   };
   
   return (
@@ -94,6 +106,32 @@ const SettingsScreen: React.FC = () => {
             </Button>
           </div>
           
+          <div className="flex justify-between items-center">
+            <div>
+              <div className="font-medium text-text-primary dark:text-text-primary">{t('settings.tokenApprovals', '토큰 승인 관리')}</div>
+              <div className="text-sm text-text-secondary dark:text-text-secondary">{t('settings.tokenApprovalsDescription', 'DApp에 승인한 토큰 사용 권한 확인 및 취소')}</div>
+            </div>
+            <Button 
+              variant="secondary"
+              onClick={() => navigate('/settings/token-approvals')}
+            >
+              {t('actions.manage', '관리')}
+            </Button>
+          </div>
+          
+          <div className="flex justify-between items-center">
+            <div>
+              <div className="font-medium text-text-primary dark:text-text-primary">{t('settings.addressBook', '주소록')}</div>
+              <div className="text-sm text-text-secondary dark:text-text-secondary">{t('settings.addressBookDescription', '자주 보내는 주소와 체인별 주소, 메모 관리')}</div>
+            </div>
+            <Button 
+              variant="secondary"
+              onClick={() => navigate('/settings/address-book')}
+            >
+              {t('actions.manage', '관리')}
+            </Button>
+          </div>
+          
           <div className="flex justify-between items-center">
             <div>
               <div className="font-medium text-text-primary dark:text-text-primary">{t('settings.biometricAuth')}</div>
@@ -277,6 +315,18 @@ const SettingsScreen: React.FC = () => {
             <div className="text-red-500 dark:text-red-400 text-sm font-medium mb-2">
               {t('settings.resetWarning')}
             </div>
+            <Input
+              type="password"
+              placeholder={t('auth.enterPin') || ''}
+              value={resetPassword}
+              onChange={(e) => {
+                setResetPassword(e.target.value);
+                setResetError('');
+              }}
+              error={resetError}
+              containerClassName="mb-2"
+              autoFocus
+            />
             <div className="flex space-x-2">
               <Button
                 variant="secondary"
@@ -289,6 +339,7 @@ const SettingsScreen: React.FC = () => {
                 variant="danger"
                 onClick={handleResetWallet}
                 className="flex-1"
+                disabled={!resetPassword}
               >
                 {t('actions.confirm')}
               </Button>
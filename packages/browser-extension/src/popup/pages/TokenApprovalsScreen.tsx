@@ -0,0 +1,265 @@
+/**
+ * 토큰 승인 관리 화면
+ * 계정이 DApp에 승인한 토큰 사용 권한을 확인하고 취소하는 화면
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatUnits } from 'ethers';
+import { TokenApproval, TokenApprovalKind, TokenApprovalRiskReason } from '@crelink/core';
+import Button from '../components/common/Button';
+import Card from '../components/common/Card';
+import EmptyState from '../components/common/EmptyState';
+import { useWallet } from '../hooks/useWallet';
+import { useNetwork } from '../context/NetworkContext';
+import { useUI } from '../context/UIContext';
+
+// 위험도별 표시
+const RISK_BADGES: Record<TokenApproval['risk'], { label: string; className: string }> = {
+  high: { label: '위험', className: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300' },
+  medium: { label: '주의', className: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300' },
+  low: { label: '안전', className: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300' },
+};
+
+// 위험 사유 안내 문구
+const RISK_REASON_MESSAGES: Record<TokenApprovalRiskReason, string> = {
+  [TokenApprovalRiskReason.UNLIMITED]: '보유한 토큰 전부를 가져갈 수 있는 무제한 승인입니다.',
+  [TokenApprovalRiskReason.OPERATOR]: '이 컬렉션의 모든 NFT를 옮길 수 있는 권한입니다.',
+  [TokenApprovalRiskReason.UNVERIFIED_SPENDER]: '확인되지 않은 주소입니다.',
+  [TokenApprovalRiskReason.EOA_SPENDER]: '계약이 아닌 일반 계정입니다. 피싱 서명으로 생긴 승인일 수 있습니다.',
+};
+
+// 승인 식별 키
+const getApprovalKey = (approval: TokenApproval): string =>
+  `${approval.kind}:${approval.tokenAddress}:${approval.spender}:${approval.tokenId ?? ''}`;
+
+// 주소 축약
+const shortenAddress = (address: string): string => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * 승인 범위 표시
+ */
+const formatApprovalAmount = (approval: TokenApproval): string => {
+  switch (approval.kind) {
+    case TokenApprovalKind.NFT_OPERATOR:
+      return '모든 NFT';
+    case TokenApprovalKind.NFT_TOKEN:
+      return `#${approval.tokenId}`;
+    default:
+      if (approval.unlimited) {
+        return '무제한';
+      }
+      return approval.tokenDecimals !== undefined
+        ? `${formatUnits(approval.allowance || '0', approval.tokenDecimals)} ${approval.tokenSymbol || ''}`
+        : approval.allowance || '0';
+  }
+};
+
+/**
+ * 토큰 승인 관리 화면 컴포넌트
+ */
+const TokenApprovalsScreen: React.FC = () => {
+  const navigate = useNavigate();
+  const { selectedAccount, getTokenApprovals, revokeTokenApprovals } = useWallet();
+  const { selectedNetwork } = useNetwork();
+  const { showNotification, setIsLoading } = useUI();
+
+  // 상태 관리
+  const [approvals, setApprovals] = useState<TokenApproval[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanError, setScanError] = useState('');
+
+  // 승인 목록 조회
+  const loadApprovals = async () => {
+    setIsScanning(true);
+    setScanError('');
+
+    try {
+      const result = await getTokenApprovals();
+      setApprovals(result);
+      // 위험한 승인은 기본으로 선택
+      setSelectedKeys(new Set(result.filter((approval) => approval.risk === 'high').map(getApprovalKey)));
+    } catch (error) {
+      console.error('토큰 승인 목록 조회 중 오류:', error);
+      setScanError('승인 목록을 불러올 수 없습니다. 잠시 후 다시 시도하세요.');
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedAccount) {
+      loadApprovals();
+    }
+  }, [selectedAccount?.address, selectedNetwork]);
+
+  // 선택 토글
+  const toggleSelection = (approval: TokenApproval) => {
+    const key = getApprovalKey(approval);
+    const next = new Set(selectedKeys);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setSelectedKeys(next);
+  };
+
+  // 선택한 승인 취소
+  const handleRevoke = async (targets: TokenApproval[]) => {
+    if (targets.length === 0) {
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const txHashes = await revokeTokenApprovals(targets);
+
+      // 취소 트랜잭션을 보낸 승인은 목록에서 제거
+      const revoked = new Set(targets.map(getApprovalKey));
+      setApprovals(approvals.filter((approval) => !revoked.has(getApprovalKey(approval))));
+      setSelectedKeys(new Set());
+
+      showNotification({
+        type: 'success',
+        message: `승인 취소 트랜잭션 ${txHashes.length}건을 전송했습니다.`,
+      });
+    } catch (error) {
+      console.error('토큰 승인 취소 중 오류:', error);
+      showNotification({
+        type: 'error',
+        message: `승인 취소 실패: ${(error as Error).message}`,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectedApprovals = approvals.filter((approval) => selectedKeys.has(getApprovalKey(approval)));
+  const highRiskCount = approvals.filter((approval) => approval.risk === 'high').length;
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* 헤더 영역 */}
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center">
+            <button
+              className="mr-2 text-gray-500 dark:text-gray-400"
+              onClick={() => navigate('/settings')}
+            >
+              <svg
+                className="w-6 h-6"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  d="M15 19l-7-7 7-7"
+                />
+              </svg>
+            </button>
+            <h1 className="text-lg font-bold text-gray-900 dark:text-white">
+              토큰 승인 관리
+            </h1>
+          </div>
+          <button
+            className="text-sm text-blue-600 dark:text-blue-400 disabled:opacity-50"
+            onClick={loadApprovals}
+            disabled={isScanning}
+          >
+            새로고침
+          </button>
+        </div>
+      </div>
+
+      {/* 콘텐츠 영역 */}
+      <div className="flex-grow overflow-y-auto p-4">
+        {highRiskCount > 0 && (
+          <div className="mb-4 p-3 rounded-lg text-sm bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300">
+            위험한 승인이 {highRiskCount}건 있습니다. 사용하지 않는 승인은 취소하세요.
+          </div>
+        )}
+
+        {scanError && (
+          <div className="mb-4 p-3 rounded-lg text-sm bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300">
+            {scanError}
+          </div>
+        )}
+
+        {isScanning ? (
+          <div className="flex flex-col items-center justify-center py-12 text-gray-500 dark:text-gray-400">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mb-3"></div>
+            승인 내역을 확인하는 중...
+          </div>
+        ) : approvals.length === 0 ? (
+          <EmptyState
+            title="승인한 토큰이 없습니다"
+            description="DApp에 토큰 사용 권한을 승인하면 여기에 표시됩니다."
+          />
+        ) : (
+          <div className="space-y-3">
+            {approvals.map((approval) => {
+              const key = getApprovalKey(approval);
+              const badge = RISK_BADGES[approval.risk];
+
+              return (
+                <Card key={key} className="cursor-pointer" onClick={() => toggleSelection(approval)}>
+                  <div className="flex items-start">
+                    <input
+                      type="checkbox"
+                      className="mt-1 mr-3"
+                      checked={selectedKeys.has(key)}
+                      onChange={() => toggleSelection(approval)}
+                      onClick={(e) => e.stopPropagation()}
+                    />
+                    <div className="flex-grow min-w-0">
+                      <div className="flex items-center justify-between">
+                        <div className="font-medium text-gray-900 dark:text-white truncate">
+                          {approval.tokenSymbol || shortenAddress(approval.tokenAddress)}
+                        </div>
+                        <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${badge.className}`}>
+                          {badge.label}
+                        </span>
+                      </div>
+                      <div className="text-sm text-gray-500 dark:text-gray-400">
+                        {approval.spenderLabel || shortenAddress(approval.spender)} · {formatApprovalAmount(approval)}
+                      </div>
+                      {approval.riskReasons.length > 0 && (
+                        <ul className="mt-2 text-xs text-gray-600 dark:text-gray-300 list-disc list-inside">
+                          {approval.riskReasons.map((reason) => (
+                            <li key={reason}>{RISK_REASON_MESSAGES[reason]}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* 하단 버튼 영역 */}
+      {approvals.length > 0 && (
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+          <Button
+            variant="danger"
+            fullWidth
+            disabled={selectedApprovals.length === 0}
+            onClick={() => handleRevoke(selectedApprovals)}
+          >
+            선택한 승인 {selectedApprovals.length}건 취소
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TokenApprovalsScreen;
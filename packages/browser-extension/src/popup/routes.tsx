@@ -29,6 +29,10 @@ const AccountDetailsScreen = React.lazy(() => import('./pages/AccountDetailsScre
 const ApprovalScreen = React.lazy(() => import('./pages/ApprovalScreen'));
 const DIDScreen = React.lazy(() => import('./pages/DIDScreen'));
 const BackupScreen = React.lazy(() => import('./pages/BackupScreen'));
+const TokenApprovalsScreen = React.lazy(() => import('./pages/TokenApprovalsScreen'));
+const AddressBookScreen = React.lazy(() => import('./pages/AddressBookScreen'));
+const ConnectHardwareScreen = React.lazy(() => import('./pages/ConnectHardwareScreen'));
+const QRSignScreen = React.lazy(() => import('./pages/QRSignScreen'));
 
 // 브릿지 관련 페이지
 const BridgePage = React.lazy(() => import('./pages/Bridge/BridgePage'));
@@ -134,6 +138,18 @@ const mainRoutes: RouteItem[] = [
     path: '/settings/backup',
     element: withSuspense(BackupScreen),
   },
+  {
+    path: '/settings/token-approvals',
+    element: withSuspense(TokenApprovalsScreen),
+  },
+  {
+    path: '/settings/address-book',
+    element: withSuspense(AddressBookScreen),
+  },
+  {
+    path: '/settings/connect-hardware',
+    element: withSuspense(ConnectHardwareScreen),
+  },
   {
     path: '/import-token',
     element: withSuspense(ImportTokenScreen),
@@ -162,6 +178,10 @@ const approvalRoutes: RouteItem[] = [
   {
     path: '/approval',
     element: withSuspense(ApprovalScreen),
+  },
+  {
+    path: '/approval/qr-sign',
+    element: withSuspense(QRSignScreen),
   }
 ];
 
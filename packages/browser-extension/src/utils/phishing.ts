@@ -0,0 +1,371 @@
+/**
+ * 피싱 탐지 유틸리티
+ * 네트워크 요청 없이 번들된 차단/허용 목록과 유사 도메인 비교로 피싱 사이트를 판별합니다.
+ */
+
+/**
+ * 피싱 목록 형식
+ * 확장 프로그램에 번들되며, 더 높은 버전의 목록으로 갱신할 수 있습니다.
+ */
+export interface PhishingList {
+  // 목록 버전 (갱신 시 더 높은 버전만 적용)
+  version: number;
+  // 유사 도메인으로 판단할 최대 편집 거리
+  tolerance: number;
+  // 사칭 대상이 되는 주요 DApp 도메인
+  fuzzylist: string[];
+  // 항상 안전한 것으로 취급할 도메인
+  allowlist: string[];
+  // 항상 피싱으로 취급할 도메인
+  blocklist: string[];
+}
+
+/**
+ * 피싱 판정 근거
+ */
+export enum PhishingMatchType {
+  NONE = 'none',
+  TRUSTED = 'trusted',
+  ALLOWLIST = 'allowlist',
+  BLOCKLIST = 'blocklist',
+  FUZZY = 'fuzzy',
+  HOMOGLYPH = 'homoglyph'
+}
+
+/**
+ * 피싱 판정 결과
+ */
+export interface PhishingVerdict {
+  // 피싱 사이트 여부
+  result: boolean;
+  type: PhishingMatchType;
+  hostname: string;
+  // 일치한 목록 항목 또는 사칭 대상 도메인
+  match?: string;
+}
+
+// 퓨니코드 (RFC 3492) 매개변수
+const PUNYCODE_BASE = 36;
+const PUNYCODE_TMIN = 1;
+const PUNYCODE_TMAX = 26;
+const PUNYCODE_SKEW = 38;
+const PUNYCODE_DAMP = 700;
+const PUNYCODE_INITIAL_BIAS = 72;
+const PUNYCODE_INITIAL_N = 128;
+const PUNYCODE_PREFIX = 'xn--';
+
+// 라틴 문자와 혼동되는 문자 (키릴, 그리스, 아르메니아 문자 등)
+const HOMOGLYPHS: { [char: string]: string } = {
+  'а': 'a', 'ɑ': 'a', 'α': 'a',
+  'ь': 'b', 'ƅ': 'b',
+  'с': 'c', 'ϲ': 'c',
+  'ԁ': 'd',
+  'е': 'e', 'ё': 'e', 'ε': 'e',
+  'ɡ': 'g', 'ց': 'g',
+  'һ': 'h', 'հ': 'h',
+  'і': 'i', 'ї': 'i', 'ı': 'i', 'ι': 'i',
+  'ј': 'j', 'ϳ': 'j',
+  'κ': 'k', 'к': 'k',
+  'ӏ': 'l', 'ł': 'l',
+  'ո': 'n', 'ռ': 'n',
+  'о': 'o', 'ο': 'o', 'օ': 'o',
+  'р': 'p', 'ρ': 'p',
+  'ԛ': 'q', 'զ': 'q',
+  'ѕ': 's',
+  'τ': 't',
+  'υ': 'u', 'ս': 'u',
+  'ν': 'v', 'ѵ': 'v',
+  'ԝ': 'w', 'ա': 'w',
+  'х': 'x', 'χ': 'x',
+  'у': 'y', 'γ': 'y',
+  'ᴢ': 'z'
+};
+
+// 라틴 문자끼리 혼동되는 문자열 (긴 패턴부터 치환)
+const ASCII_CONFUSABLES: Array<[string, string]> = [
+  ['rn', 'm'],
+  ['vv', 'w'],
+  ['0', 'o'],
+  ['1', 'l']
+];
+
+/**
+ * 출처, URL 또는 호스트 이름에서 정규화된 호스트 이름 추출
+ * @param input 출처, URL 또는 호스트 이름
+ * @returns 소문자 ASCII 호스트 이름 (추출할 수 없으면 빈 문자열)
+ */
+export function normalizeHostname(input: string): string {
+  if (!input) {
+    return '';
+  }
+  
+  let hostname: string;
+  try {
+    hostname = new URL(input.includes('://') ? input : `http://${input}`).hostname;
+  } catch (error) {
+    return '';
+  }
+  
+  return hostname.toLowerCase().replace(/\.$/, '');
+}
+
+/**
+ * 호스트 이름이 도메인 또는 그 하위 도메인인지 확인
+ * @param hostname 호스트 이름
+ * @param domain 비교할 도메인
+ */
+export function matchesDomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * 레벤슈타인 편집 거리 계산
+ * @param a 첫 번째 문자열
+ * @param b 두 번째 문자열
+ * @returns 삽입, 삭제, 치환 횟수의 최솟값
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) {
+    return 0;
+  }
+  
+  const source = Array.from(a);
+  const target = Array.from(b);
+  let previous = Array.from({ length: target.length + 1 }, (_, index) => index);
+  
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= target.length; j++) {
+      const cost = source[i - 1] === target[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  
+  return previous[target.length];
+}
+
+/**
+ * 퓨니코드 레이블 디코딩 (RFC 3492)
+ * @param input 'xn--' 접두사를 제외한 퓨니코드 문자열
+ * @returns 유니코드 문자열
+ */
+export function decodePunycode(input: string): string {
+  const output: number[] = [];
+  const basicLength = Math.max(input.lastIndexOf('-'), 0);
+  
+  for (let j = 0; j < basicLength; j++) {
+    const codePoint = input.charCodeAt(j);
+    if (codePoint >= 0x80) {
+      throw new Error('잘못된 퓨니코드 입력입니다.');
+    }
+    output.push(codePoint);
+  }
+  
+  let n = PUNYCODE_INITIAL_N;
+  let bias = PUNYCODE_INITIAL_BIAS;
+  let i = 0;
+  let index = basicLength > 0 ? basicLength + 1 : 0;
+  
+  while (index < input.length) {
+    const oldI = i;
+    let weight = 1;
+    
+    for (let k = PUNYCODE_BASE; ; k += PUNYCODE_BASE) {
+      if (index >= input.length) {
+        throw new Error('잘못된 퓨니코드 입력입니다.');
+      }
+      
+      const digit = decodePunycodeDigit(input.charCodeAt(index++));
+      if (digit >= PUNYCODE_BASE) {
+        throw new Error('잘못된 퓨니코드 입력입니다.');
+      }
+      
+      i += digit * weight;
+      const threshold = k <= bias ? PUNYCODE_TMIN : k >= bias + PUNYCODE_TMAX ? PUNYCODE_TMAX : k - bias;
+      if (digit < threshold) {
+        break;
+      }
+      weight *= PUNYCODE_BASE - threshold;
+    }
+    
+    const length = output.length + 1;
+    bias = adaptPunycodeBias(i - oldI, length, oldI === 0);
+    n += Math.floor(i / length);
+    i %= length;
+    output.splice(i, 0, n);
+    i++;
+  }
+  
+  return String.fromCodePoint(...output);
+}
+
+/**
+ * 퓨니코드 숫자 디코딩
+ * @param codePoint 문자 코드
+ * @returns 0-35 사이의 값 (유효하지 않으면 PUNYCODE_BASE)
+ */
+function decodePunycodeDigit(codePoint: number): number {
+  if (codePoint >= 0x30 && codePoint <= 0x39) {
+    return codePoint - 22;
+  }
+  if (codePoint >= 0x41 && codePoint <= 0x5a) {
+    return codePoint - 0x41;
+  }
+  if (codePoint >= 0x61 && codePoint <= 0x7a) {
+    return codePoint - 0x61;
+  }
+  return PUNYCODE_BASE;
+}
+
+/**
+ * 퓨니코드 바이어스 조정
+ */
+function adaptPunycodeBias(delta: number, numPoints: number, firstTime: boolean): number {
+  let k = 0;
+  delta = firstTime ? Math.floor(delta / PUNYCODE_DAMP) : Math.floor(delta / 2);
+  delta += Math.floor(delta / numPoints);
+  
+  while (delta > ((PUNYCODE_BASE - PUNYCODE_TMIN) * PUNYCODE_TMAX) / 2) {
+    delta = Math.floor(delta / (PUNYCODE_BASE - PUNYCODE_TMIN));
+    k += PUNYCODE_BASE;
+  }
+  
+  return k + Math.floor(((PUNYCODE_BASE - PUNYCODE_TMIN + 1) * delta) / (delta + PUNYCODE_SKEW));
+}
+
+/**
+ * 퓨니코드 호스트 이름을 유니코드로 변환
+ * 디코딩할 수 없는 레이블은 그대로 둡니다.
+ * @param hostname ASCII 호스트 이름
+ */
+export function toUnicodeHostname(hostname: string): string {
+  return hostname
+    .split('.')
+    .map((label) => {
+      if (!label.startsWith(PUNYCODE_PREFIX)) {
+        return label;
+      }
+      try {
+        return decodePunycode(label.slice(PUNYCODE_PREFIX.length));
+      } catch (error) {
+        return label;
+      }
+    })
+    .join('.');
+}
+
+/**
+ * 혼동 문자를 라틴 문자로 바꾼 비교용 골격 문자열 생성
+ * 악센트 등 결합 문자도 제거합니다.
+ * @param text 유니코드 문자열
+ */
+export function toSkeleton(text: string): string {
+  let skeleton = Array.from(text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase())
+    .map((char) => HOMOGLYPHS[char] || char)
+    .join('');
+  
+  for (const [pattern, replacement] of ASCII_CONFUSABLES) {
+    skeleton = skeleton.split(pattern).join(replacement);
+  }
+  
+  return skeleton;
+}
+
+/**
+ * 피싱 목록 형식 검증
+ * @param list 검증할 목록
+ * @returns 도메인을 정규화한 목록
+ */
+export function validatePhishingList(list: any): PhishingList {
+  if (!list || typeof list !== 'object') {
+    throw new Error('피싱 목록 형식이 올바르지 않습니다.');
+  }
+  
+  if (!Number.isInteger(list.version) || list.version < 0) {
+    throw new Error('피싱 목록 버전이 올바르지 않습니다.');
+  }
+  
+  if (!Number.isInteger(list.tolerance) || list.tolerance < 0) {
+    throw new Error('피싱 목록 허용 거리가 올바르지 않습니다.');
+  }
+  
+  const normalizeDomains = (field: string): string[] => {
+    const domains = list[field];
+    if (!Array.isArray(domains) || domains.some((domain) => typeof domain !== 'string')) {
+      throw new Error(`피싱 목록의 ${field} 항목은 문자열 배열이어야 합니다.`);
+    }
+    return domains.map(normalizeHostname).filter(Boolean);
+  };
+  
+  return {
+    version: list.version,
+    tolerance: list.tolerance,
+    fuzzylist: normalizeDomains('fuzzylist'),
+    allowlist: normalizeDomains('allowlist'),
+    blocklist: normalizeDomains('blocklist')
+  };
+}
+
+/**
+ * 피싱 사이트 판별
+ * 허용 목록, 차단 목록, 동형 문자(퓨니코드) 비교, 편집 거리 비교 순으로 검사합니다.
+ * @param input 출처, URL 또는 호스트 이름
+ * @param list 피싱 목록
+ * @returns 판정 결과
+ */
+export function detectPhishing(input: string, list: PhishingList): PhishingVerdict {
+  const hostname = normalizeHostname(input);
+  const verdict = (result: boolean, type: PhishingMatchType, match?: string): PhishingVerdict => (
+    match === undefined ? { result, type, hostname } : { result, type, hostname, match }
+  );
+  
+  // IP 주소나 localhost 같은 단일 레이블 호스트는 비교 대상이 아님
+  if (!hostname || !hostname.includes('.') || /^[\d.]+$/.test(hostname) || hostname.startsWith('[')) {
+    return verdict(false, PhishingMatchType.NONE);
+  }
+  
+  const allowed = list.allowlist.find((domain) => matchesDomain(hostname, domain));
+  if (allowed) {
+    return verdict(false, PhishingMatchType.ALLOWLIST, allowed);
+  }
+  
+  const blocked = list.blocklist.find((domain) => matchesDomain(hostname, domain));
+  if (blocked) {
+    return verdict(true, PhishingMatchType.BLOCKLIST, blocked);
+  }
+  
+  const unicodeLabels = toUnicodeHostname(hostname).split('.');
+  const isPunycode = hostname.split('.').some((label) => label.startsWith(PUNYCODE_PREFIX));
+  
+  for (const target of list.fuzzylist) {
+    if (matchesDomain(hostname, target)) {
+      return verdict(false, PhishingMatchType.NONE);
+    }
+    
+    // 대상 도메인과 같은 개수의 상위 레이블끼리 비교 (예: uniswap.org ↔ evil.uniswop.org의 uniswop.org)
+    const targetLabelCount = target.split('.').length;
+    if (unicodeLabels.length < targetLabelCount) {
+      continue;
+    }
+    const candidate = unicodeLabels.slice(-targetLabelCount).join('.');
+    
+    // 혼동 문자를 치환했을 때 대상 도메인과 같아지면 동형 문자 공격
+    const skeletonDistance = levenshteinDistance(toSkeleton(candidate), toSkeleton(target));
+    if (skeletonDistance === 0 || (isPunycode && skeletonDistance <= list.tolerance)) {
+      return verdict(true, PhishingMatchType.HOMOGLYPH, target);
+    }
+    
+    const distance = levenshteinDistance(candidate, target);
+    if (distance > 0 && distance <= list.tolerance) {
+      return verdict(true, PhishingMatchType.FUZZY, target);
+    }
+    
+    // 대상 도메인을 하위 도메인으로 끼워 넣은 경우 (예: uniswap.org.airdrop.xyz)
+    if (hostname.startsWith(`${target}.`) || hostname.includes(`.${target}.`)) {
+      return verdict(true, PhishingMatchType.FUZZY, target);
+    }
+  }
+  
+  return verdict(false, PhishingMatchType.NONE);
+}
@@ -0,0 +1,94 @@
+/**
+ * 피싱 탐지 유틸리티 테스트
+ */
+
+import {
+  decodePunycode,
+  detectPhishing,
+  levenshteinDistance,
+  PhishingMatchType,
+  toSkeleton,
+  toUnicodeHostname,
+  validatePhishingList,
+} from '../../src/utils/phishing';
+
+describe('피싱 탐지 유틸리티', () => {
+  const list = validatePhishingList({
+    version: 1,
+    tolerance: 2,
+    fuzzylist: ['uniswap.org', 'metamask.io'],
+    allowlist: ['uniswap.org', 'metamask.io', 'uniswop.org'],
+    blocklist: ['evil-airdrop.xyz'],
+  });
+  
+  describe('levenshteinDistance', () => {
+    test('편집 거리를 계산해야 함', () => {
+      expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+      expect(levenshteinDistance('uniswap.org', 'uniswap.org')).toBe(0);
+      expect(levenshteinDistance('', 'abc')).toBe(3);
+    });
+  });
+  
+  describe('퓨니코드와 동형 문자', () => {
+    test('퓨니코드 레이블을 디코딩해야 함', () => {
+      expect(decodePunycode('mnchen-3ya')).toBe('münchen');
+      expect(toUnicodeHostname('xn--uniswp-7nf.org')).toBe('uniswаp.org');
+    });
+    
+    test('혼동 문자를 라틴 문자로 치환해야 함', () => {
+      expect(toSkeleton('uniswаp.org')).toBe('uniswap.org');
+      expect(toSkeleton('rnetamask.io')).toBe('metamask.io');
+    });
+  });
+  
+  describe('validatePhishingList', () => {
+    test('잘못된 형식의 목록을 거부해야 함', () => {
+      expect(() => validatePhishingList({ version: 1, tolerance: 2, fuzzylist: 'uniswap.org', allowlist: [], blocklist: [] })).toThrow();
+      expect(() => validatePhishingList({ version: -1, tolerance: 2, fuzzylist: [], allowlist: [], blocklist: [] })).toThrow();
+    });
+  });
+  
+  describe('detectPhishing', () => {
+    test('허용 목록과 하위 도메인은 안전해야 함', () => {
+      expect(detectPhishing('https://app.uniswap.org', list)).toEqual({
+        result: false,
+        type: PhishingMatchType.ALLOWLIST,
+        hostname: 'app.uniswap.org',
+        match: 'uniswap.org',
+      });
+    });
+    
+    test('차단 목록의 도메인은 피싱이어야 함', () => {
+      const verdict = detectPhishing('https://claim.evil-airdrop.xyz', list);
+      expect(verdict.result).toBe(true);
+      expect(verdict.type).toBe(PhishingMatchType.BLOCKLIST);
+    });
+    
+    test('편집 거리가 가까운 도메인은 피싱이어야 함', () => {
+      const verdict = detectPhishing('https://metamaks.io', list);
+      expect(verdict.result).toBe(true);
+      expect(verdict.type).toBe(PhishingMatchType.FUZZY);
+      expect(verdict.match).toBe('metamask.io');
+    });
+    
+    test('허용 목록에 있으면 유사 도메인이어도 안전해야 함', () => {
+      expect(detectPhishing('https://uniswop.org', list).result).toBe(false);
+    });
+    
+    test('동형 문자를 사용한 퓨니코드 도메인은 피싱이어야 함', () => {
+      const verdict = detectPhishing('https://xn--uniswp-7nf.org', list);
+      expect(verdict.result).toBe(true);
+      expect(verdict.type).toBe(PhishingMatchType.HOMOGLYPH);
+      expect(verdict.match).toBe('uniswap.org');
+    });
+    
+    test('대상 도메인을 하위 도메인으로 끼워 넣은 경우 피싱이어야 함', () => {
+      expect(detectPhishing('https://uniswap.org.airdrop.xyz', list).result).toBe(true);
+    });
+    
+    test('관련 없는 도메인과 localhost는 안전해야 함', () => {
+      expect(detectPhishing('https://example.com', list).result).toBe(false);
+      expect(detectPhishing('http://localhost:3000', list).result).toBe(false);
+    });
+  });
+});
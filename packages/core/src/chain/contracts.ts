@@ -3,6 +3,8 @@
  * @description 스마트 계약 관련 상수 및 유틸리티
  */
 
+import { Contract } from 'ethers';
+
 /**
  * ERC-20 토큰 표준 ABI
  */
@@ -99,10 +101,11 @@ export const DID_REGISTRY_ABI = [
 ];
 
 /**
- * Multicall ABI (여러 호출을 단일 요청으로 묶기)
+ * Multicall ABI (여러 호출을 단일 요청으로 묶기, Multicall3 호환)
  */
 export const MULTICALL_ABI = [
   'function aggregate(tuple(address target, bytes callData)[] calls) view returns (uint256 blockNumber, bytes[] returnData)',
+  'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) view returns (tuple(bool success, bytes returnData)[] returnData)',
   'function blockAndAggregate(tuple(address target, bytes callData)[] calls) returns (uint256 blockNumber, bytes32 blockHash, tuple(bool success, bytes returnData)[] returnData)',
   'function getBlockHash(uint256 blockNumber) view returns (bytes32 blockHash)',
   'function getBlockNumber() view returns (uint256 blockNumber)',
@@ -146,6 +149,7 @@ export const ENS_RESOLVER_ABI = [
   'function text(bytes32 node, string key) view returns (string)',
   'function contenthash(bytes32 node) view returns (bytes)',
   'function interfaceImplementer(bytes32 node, bytes4 interfaceID) view returns (address)',
+  'function supportsInterface(bytes4 interfaceID) view returns (bool)',
   'function setAddr(bytes32 node, address addr)',
   'function setName(bytes32 node, string name)',
   'function setText(bytes32 node, string key, string value)',
@@ -158,6 +162,20 @@ export const ENS_RESOLVER_ABI = [
   'event InterfaceChanged(bytes32 indexed node, bytes4 indexed interfaceID, address implementer)'
 ];
 
+/**
+ * Catena 네임 서비스 레지스트리 ABI
+ */
+export const CATENA_NAME_REGISTRY_ABI = [
+  'function addr(string name) view returns (address)',
+  'function nameOf(address addr) view returns (string)',
+  'function ownerOf(string name) view returns (address)',
+  'function register(string name, address addr)',
+  'function setAddr(string name, address addr)',
+  'function setPrimaryName(string name)',
+  'event NameRegistered(string name, address indexed owner)',
+  'event AddrChanged(string name, address addr)'
+];
+
 /**
  * WETH (Wrapped Ether) ABI
  */
@@ -175,12 +193,14 @@ export const CATENA_CONTRACTS = {
   MAINNET: {
     DID_REGISTRY: '0x0000000000000000000000000000000000000000', // 예시 주소 (실제 주소로 업데이트 필요)
     MULTICALL: '0x0000000000000000000000000000000000000000',
+    NAME_REGISTRY: '0x0000000000000000000000000000000000000000',
     WRAPPED_CTA: '0x0000000000000000000000000000000000000000'
   },
   // 테스트넷
   TESTNET: {
     DID_REGISTRY: '0x0000000000000000000000000000000000000000', // 예시 주소 (실제 주소로 업데이트 필요)
     MULTICALL: '0x0000000000000000000000000000000000000000',
+    NAME_REGISTRY: '0x0000000000000000000000000000000000000000',
     WRAPPED_CTA: '0x0000000000000000000000000000000000000000'
   }
 };
@@ -194,7 +214,9 @@ export const INTERFACE_IDS = {
   ERC721_METADATA: '0x5b5e139f',
   ERC721_ENUMERABLE: '0x780e9d63',
   ERC1155: '0xd9b67a26',
-  ERC1155_METADATA: '0x0e89341c'
+  ERC1155_METADATA: '0x0e89341c',
+  ENS_ADDR: '0x3b3b57de', // addr(bytes32)
+  ENS_NAME: '0x691f3431' // name(bytes32)
 };
 
 /**
@@ -242,12 +264,12 @@ export async function isContract(provider: any, address: string): Promise<boolea
  */
 export async function isERC20Token(provider: any, address: string): Promise<boolean> {
   try {
-    const contract = new provider.Contract(address, [
+    const contract = new Contract(address, [
       'function name() view returns (string)',
       'function symbol() view returns (string)',
       'function decimals() view returns (uint8)',
       'function totalSupply() view returns (uint256)'
-    ]);
+    ], provider);
     
     // 몇 가지 기본 함수 호출 시도
     const [name, symbol, decimals] = await Promise.all([
@@ -256,8 +278,8 @@ export async function isERC20Token(provider: any, address: string): Promise<bool
       contract.decimals().catch(() => null)
     ]);
     
-    // 결과가 있으면 ERC-20 토큰으로 가정
-    return !!(name || symbol || decimals);
+    // 결과가 있으면 ERC-20 토큰으로 가정 (decimals는 0일 수 있음)
+    return !!(name || symbol || decimals !== null);
   } catch (error) {
     return false;
   }
@@ -272,9 +294,9 @@ export async function isERC20Token(provider: any, address: string): Promise<bool
  */
 export async function isERC721Token(provider: any, address: string): Promise<boolean> {
   try {
-    const contract = new provider.Contract(address, [
+    const contract = new Contract(address, [
       'function supportsInterface(bytes4 interfaceId) view returns (bool)'
-    ]);
+    ], provider);
     
     // ERC-721 인터페이스 ID 검증
     const isERC721 = await contract.supportsInterface(INTERFACE_IDS.ERC721).catch(() => false);
@@ -4,9 +4,11 @@
  */
 
 import { IProvider } from './providers/provider.interface';
+import { GasOracle, GasTier } from './gasOracle';
 import { createLogger } from '../utils/logging';
 import { GasInfo } from '../types/chain.types';
 import { TransactionType } from '../types/transactions.types';
+import { GasPriceType } from '../storage/models/settings.model';
 
 // 로거 생성
 const logger = createLogger('Gas');
@@ -42,25 +44,31 @@ const LEGACY_GAS_MULTIPLIERS: GasMultipliers = {
 };
 
 /**
- * EIP-1559 우선순위 수수료 배수
+ * 가장 빠른 레벨의 우선순위 수수료 비율 (빠름 단계 대비, 퍼센트)
  */
-const EIP1559_PRIORITY_FEE_MULTIPLIERS: GasMultipliers = {
-  [GasRecommendation.LOW]: 0.9,
-  [GasRecommendation.STANDARD]: 1.0,
-  [GasRecommendation.FAST]: 1.6,
-  [GasRecommendation.FASTEST]: 2.5
-};
+const FASTEST_PRIORITY_FEE_PERCENT = 150;
 
 /**
- * EIP-1559 최대 수수료 배수 (기본 수수료 대비)
+ * 추천 레벨별 가스 정보 필드
  */
-const EIP1559_MAX_FEE_MULTIPLIERS: GasMultipliers = {
-  [GasRecommendation.LOW]: 1.2,
-  [GasRecommendation.STANDARD]: 1.5,
-  [GasRecommendation.FAST]: 2.0,
-  [GasRecommendation.FASTEST]: 3.0
+const GAS_INFO_KEYS: { [level in GasRecommendation]: 'safeLow' | 'standard' | 'fast' | 'fastest' } = {
+  [GasRecommendation.LOW]: 'safeLow',
+  [GasRecommendation.STANDARD]: 'standard',
+  [GasRecommendation.FAST]: 'fast',
+  [GasRecommendation.FASTEST]: 'fastest'
 };
 
+/**
+ * 가스 설정
+ */
+export interface GasSettings {
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  type: TransactionType;
+  estimatedWaitTime?: number; // 예상 포함 시간 (밀리초, EIP-1559)
+}
+
 /**
  * 체인별 기본 가스 한도
  */
@@ -87,18 +95,36 @@ const MIN_GAS_PRICE: { [chainId: number]: string } = {
   421613: '100000000'  // Arbitrum Goerli (0.1 gwei)
 };
 
+// 기본 가스 오라클 (처음 사용할 때 생성되며 체인별 수수료 이력 윈도우를 공유)
+let defaultGasOracle: GasOracle | null = null;
+
+/**
+ * 기본 가스 오라클 가져오기
+ * 
+ * @returns 기본 가스 오라클
+ */
+export function getDefaultGasOracle(): GasOracle {
+  if (!defaultGasOracle) {
+    defaultGasOracle = new GasOracle();
+  }
+  
+  return defaultGasOracle;
+}
+
 /**
  * 가스 가격 정보 가져오기
  * 
  * @param provider 프로바이더
- * @param forceRefresh 강제 새로고침 여부
+ * @param forceRefresh 강제 새로고침 여부 (캐시된 수수료 이력 윈도우를 다시 조회)
+ * @param oracle 가스 오라클 (기본값: 기본 가스 오라클)
  * @returns 가스 정보
  */
-export async function getGasInfo(provider: IProvider, forceRefresh = false): Promise<GasInfo> {
+export async function getGasInfo(
+  provider: IProvider,
+  forceRefresh = false,
+  oracle: GasOracle = getDefaultGasOracle()
+): Promise<GasInfo> {
   try {
-    // 현재 체인 ID
-    const chainId = provider.chainId;
-    
     // EIP-1559 지원 여부 확인
     const supportsEIP1559 = await provider.supportsEIP1559().catch(() => false);
     
@@ -108,16 +134,17 @@ export async function getGasInfo(provider: IProvider, forceRefresh = false): Pro
     let gasInfo: GasInfo;
     
     if (supportsEIP1559) {
-      // EIP-1559 가스 정보
-      gasInfo = await getEIP1559GasInfo(provider, latestBlock);
+      // EIP-1559 가스 정보 (수수료 이력 기반 가스 오라클)
+      gasInfo = await getEIP1559GasInfo(provider, oracle, forceRefresh);
     } else {
       // 레거시 가스 정보
-      gasInfo = await getLegacyGasInfo(provider, latestBlock);
+      gasInfo = await getLegacyGasInfo(provider);
     }
     
-    // 네트워크 혼잡도 계산 (현재는 단순한 계산)
-    // 실제로는 최근 블록의 가스 사용량, 가스 한도, 대기 풀의 트랜잭션 수 등을 고려해야 함
-    gasInfo.networkCongestion = calculateNetworkCongestion(gasInfo);
+    // 가스 오라클은 최근 블록의 가스 사용률로 혼잡도를 계산하며, 레거시 네트워크는 가스 가격으로 추정
+    if (gasInfo.networkCongestion === undefined) {
+      gasInfo.networkCongestion = calculateNetworkCongestion(gasInfo);
+    }
     gasInfo.latestBlock = latestBlock;
     gasInfo.lastUpdated = Date.now();
     
@@ -142,60 +169,53 @@ export async function getGasInfo(provider: IProvider, forceRefresh = false): Pro
  * EIP-1559 가스 정보 가져오기
  * 
  * @param provider 프로바이더
- * @param latestBlock 최신 블록 번호
+ * @param oracle 가스 오라클
+ * @param forceRefresh 강제 새로고침 여부
  * @returns 가스 정보
  */
-async function getEIP1559GasInfo(provider: IProvider, latestBlock: number): Promise<GasInfo> {
+async function getEIP1559GasInfo(provider: IProvider, oracle: GasOracle, forceRefresh: boolean): Promise<GasInfo> {
   try {
-    // 최근 20개 블록의 기본 수수료 이력 조회
-    const feeHistory = await provider.send('eth_feeHistory', [20, 'latest', [10, 30, 60, 90]]);
-    const baseFeePerGas = feeHistory.baseFeePerGas;
-    const priorityFeePercentiles = feeHistory.reward;
-    
-    // 최신 블록의 기본 수수료
-    const latestBaseFee = baseFeePerGas[baseFeePerGas.length - 1];
-    
-    // 이동 평균 우선순위 수수료
-    const priorityFeeLow = calculateAverage(priorityFeePercentiles.map((fees: string[]) => BigInt(fees[0])));
-    const priorityFeeMed = calculateAverage(priorityFeePercentiles.map((fees: string[]) => BigInt(fees[1])));
-    const priorityFeeHigh = calculateAverage(priorityFeePercentiles.map((fees: string[]) => BigInt(fees[2])));
-    const priorityFeeUrgent = calculateAverage(priorityFeePercentiles.map((fees: string[]) => BigInt(fees[3])));
-    
-    // 권장 우선순위 수수료 및 최대 수수료 계산
-    const suggestedPriorityFee = priorityFeeMed;
-    
-    // 각 속도에 대한 우선순위 수수료
-    const lowPriorityFee = BigInt(Math.floor(Number(priorityFeeLow) * EIP1559_PRIORITY_FEE_MULTIPLIERS[GasRecommendation.LOW]));
-    const standardPriorityFee = BigInt(Math.floor(Number(priorityFeeMed) * EIP1559_PRIORITY_FEE_MULTIPLIERS[GasRecommendation.STANDARD]));
-    const fastPriorityFee = BigInt(Math.floor(Number(priorityFeeHigh) * EIP1559_PRIORITY_FEE_MULTIPLIERS[GasRecommendation.FAST]));
-    const fastestPriorityFee = BigInt(Math.floor(Number(priorityFeeUrgent) * EIP1559_PRIORITY_FEE_MULTIPLIERS[GasRecommendation.FASTEST]));
-    
-    // 최대 수수료 (기본 수수료 + 우선순위 수수료)
-    const lowMaxFee = BigInt(latestBaseFee) * BigInt(Math.floor(EIP1559_MAX_FEE_MULTIPLIERS[GasRecommendation.LOW] * 100) / 100) + lowPriorityFee;
-    const standardMaxFee = BigInt(latestBaseFee) * BigInt(Math.floor(EIP1559_MAX_FEE_MULTIPLIERS[GasRecommendation.STANDARD] * 100) / 100) + standardPriorityFee;
-    const fastMaxFee = BigInt(latestBaseFee) * BigInt(Math.floor(EIP1559_MAX_FEE_MULTIPLIERS[GasRecommendation.FAST] * 100) / 100) + fastPriorityFee;
-    const fastestMaxFee = BigInt(latestBaseFee) * BigInt(Math.floor(EIP1559_MAX_FEE_MULTIPLIERS[GasRecommendation.FASTEST] * 100) / 100) + fastestPriorityFee;
+    // 느림/표준/빠름 단계별 수수료 및 예상 포함 시간
+    const estimate = await oracle.estimate(provider, forceRefresh);
+    const slow = estimate.tiers[GasTier.SLOW];
+    const standard = estimate.tiers[GasTier.STANDARD];
+    const fast = estimate.tiers[GasTier.FAST];
     
-    // 기본 수수료 이력
-    const baseFeeHistory = baseFeePerGas.map((fee: string) => fee.toString());
+    // 가장 빠른 레벨은 빠름 단계보다 우선순위 수수료를 높여 다음 블록 포함을 노림
+    const fastestPriorityFee = BigInt(fast.maxPriorityFeePerGas) * BigInt(FASTEST_PRIORITY_FEE_PERCENT) / BigInt(100);
+    const fastestMaxFee = BigInt(fast.maxFeePerGas) - BigInt(fast.maxPriorityFeePerGas) + fastestPriorityFee;
     
     // 결과 객체 구성
     return {
-      gasPrice: standardMaxFee.toString(),
-      maxFeePerGas: standardMaxFee.toString(),
-      maxPriorityFeePerGas: standardPriorityFee.toString(),
-      estimatedBaseFee: latestBaseFee,
+      gasPrice: standard.maxFeePerGas,
+      maxFeePerGas: standard.maxFeePerGas,
+      maxPriorityFeePerGas: standard.maxPriorityFeePerGas,
+      estimatedBaseFee: estimate.predictedBaseFees[0],
       gasPriceType: 'eip1559',
-      safeLow: lowMaxFee.toString(),
-      standard: standardMaxFee.toString(),
-      fast: fastMaxFee.toString(),
+      safeLow: slow.maxFeePerGas,
+      standard: standard.maxFeePerGas,
+      fast: fast.maxFeePerGas,
       fastest: fastestMaxFee.toString(),
-      baseFeePerGas: latestBaseFee,
-      suggestedPriorityFee: suggestedPriorityFee.toString(),
-      baseFeeHistory,
+      baseFeePerGas: estimate.baseFeePerGas,
+      suggestedPriorityFee: standard.maxPriorityFeePerGas,
+      baseFeeHistory: estimate.baseFeeHistory,
+      predictedBaseFees: estimate.predictedBaseFees,
+      priorityFees: {
+        safeLow: slow.maxPriorityFeePerGas,
+        standard: standard.maxPriorityFeePerGas,
+        fast: fast.maxPriorityFeePerGas,
+        fastest: fastestPriorityFee.toString()
+      },
+      estimatedWaitTimes: {
+        safeLow: slow.expectedWaitTime,
+        standard: standard.expectedWaitTime,
+        fast: fast.expectedWaitTime,
+        fastest: Math.min(fast.expectedWaitTime, estimate.blockTime)
+      },
+      networkCongestion: estimate.networkCongestion,
       lastUpdated: Date.now()
     };
-  } catch (error) {
+  } catch (error: any) {
     logger.error(`Failed to get EIP-1559 gas info: ${error.message}`);
     throw error;
   }
@@ -205,10 +225,9 @@ async function getEIP1559GasInfo(provider: IProvider, latestBlock: number): Prom
  * 레거시 가스 정보 가져오기
  * 
  * @param provider 프로바이더
- * @param latestBlock 최신 블록 번호
  * @returns 가스 정보
  */
-async function getLegacyGasInfo(provider: IProvider, latestBlock: number): Promise<GasInfo> {
+async function getLegacyGasInfo(provider: IProvider): Promise<GasInfo> {
   try {
     // 현재 가스 가격 조회
     const gasPrice = await provider.getGasPrice();
@@ -248,65 +267,25 @@ async function getLegacyGasInfo(provider: IProvider, latestBlock: number): Promi
 
 /**
  * 네트워크 혼잡도 계산
+ * 수수료 이력을 제공하지 않는 레거시 네트워크에서 가스 가격으로 혼잡도를 추정합니다.
  * 
  * @param gasInfo 가스 정보
  * @returns 혼잡도 (0-1)
  */
 function calculateNetworkCongestion(gasInfo: GasInfo): number {
-  // 간단한 혼잡도 계산 예시
-  // 실제로는 최근 블록의 가스 사용량, 가스 한도, 대기 풀의 트랜잭션 수 등을 고려해야 함
-  if (gasInfo.gasPriceType === 'eip1559' && gasInfo.baseFeePerGas) {
-    // EIP-1559 기준
-    const baseFee = BigInt(gasInfo.baseFeePerGas);
-    const priorityFee = BigInt(gasInfo.suggestedPriorityFee || '0');
-    const total = baseFee + priorityFee;
-    
-    // 임계값 (각 체인마다 맞게 조정 필요)
-    const lowCongestion = BigInt('1000000000'); // 1 gwei
-    const highCongestion = BigInt('100000000000'); // 100 gwei
-    
-    if (total <= lowCongestion) {
-      return 0.1;
-    } else if (total >= highCongestion) {
-      return 1.0;
-    } else {
-      return Number((total - lowCongestion) * BigInt(900) / (highCongestion - lowCongestion)) / 1000 + 0.1;
-    }
-  } else {
-    // 레거시 기준
-    const gasPrice = BigInt(gasInfo.gasPrice || '0');
-    
-    // 임계값 (각 체인마다 맞게 조정 필요)
-    const lowCongestion = BigInt('1000000000'); // 1 gwei
-    const highCongestion = BigInt('100000000000'); // 100 gwei
-    
-    if (gasPrice <= lowCongestion) {
-      return 0.1;
-    } else if (gasPrice >= highCongestion) {
-      return 1.0;
-    } else {
-      return Number((gasPrice - lowCongestion) * BigInt(900) / (highCongestion - lowCongestion)) / 1000 + 0.1;
-    }
-  }
-}
-
-/**
- * BigInt 배열의 평균 계산
- * 
- * @param values BigInt 배열
- * @returns 평균값 (BigInt)
- */
-function calculateAverage(values: bigint[]): bigint {
-  if (values.length === 0) {
-    return BigInt(0);
-  }
+  const gasPrice = BigInt(gasInfo.gasPrice || '0');
   
-  let sum = BigInt(0);
-  for (const value of values) {
-    sum += value;
-  }
+  // 임계값 (각 체인마다 맞게 조정 필요)
+  const lowCongestion = BigInt('1000000000'); // 1 gwei
+  const highCongestion = BigInt('100000000000'); // 100 gwei
   
-  return sum / BigInt(values.length);
+  if (gasPrice <= lowCongestion) {
+    return 0.1;
+  } else if (gasPrice >= highCongestion) {
+    return 1.0;
+  } else {
+    return Number((gasPrice - lowCongestion) * BigInt(900) / (highCongestion - lowCongestion)) / 1000 + 0.1;
+  }
 }
 
 /**
@@ -319,66 +298,81 @@ function calculateAverage(values: bigint[]): bigint {
 export function getRecommendedGasSettings(
   gasInfo: GasInfo,
   level: GasRecommendation = GasRecommendation.STANDARD
-): {
-  gasPrice?: string;
-  maxFeePerGas?: string;
-  maxPriorityFeePerGas?: string;
-  type: TransactionType;
-} {
-  // EIP-1559 가스 정보
+): GasSettings {
+  const key = GAS_INFO_KEYS[level];
+  
+  // EIP-1559 가스 정보 (가스 오라클의 레벨별 최대 수수료, 우선순위 수수료, 예상 포함 시간)
   if (gasInfo.gasPriceType === 'eip1559' && gasInfo.maxFeePerGas && gasInfo.maxPriorityFeePerGas) {
-    let maxFeePerGas: string;
-    let maxPriorityFeePerGas: string;
-    
-    switch (level) {
-      case GasRecommendation.LOW:
-        maxFeePerGas = gasInfo.safeLow || gasInfo.maxFeePerGas;
-        maxPriorityFeePerGas = gasInfo.suggestedPriorityFee || gasInfo.maxPriorityFeePerGas;
-        break;
-      case GasRecommendation.FAST:
-        maxFeePerGas = gasInfo.fast || gasInfo.maxFeePerGas;
-        maxPriorityFeePerGas = gasInfo.suggestedPriorityFee || gasInfo.maxPriorityFeePerGas;
-        break;
-      case GasRecommendation.FASTEST:
-        maxFeePerGas = gasInfo.fastest || gasInfo.maxFeePerGas;
-        maxPriorityFeePerGas = gasInfo.suggestedPriorityFee || gasInfo.maxPriorityFeePerGas;
-        break;
-      default:
-        maxFeePerGas = gasInfo.standard || gasInfo.maxFeePerGas;
-        maxPriorityFeePerGas = gasInfo.suggestedPriorityFee || gasInfo.maxPriorityFeePerGas;
-    }
-    
     return {
-      maxFeePerGas,
-      maxPriorityFeePerGas,
-      type: TransactionType.EIP1559
+      maxFeePerGas: gasInfo[key] || gasInfo.maxFeePerGas,
+      maxPriorityFeePerGas: gasInfo.priorityFees?.[key] || gasInfo.suggestedPriorityFee || gasInfo.maxPriorityFeePerGas,
+      type: TransactionType.EIP1559,
+      estimatedWaitTime: gasInfo.estimatedWaitTimes?.[key]
     };
   } 
   // 레거시 가스 정보
   else {
-    let gasPrice: string;
-    
-    switch (level) {
-      case GasRecommendation.LOW:
-        gasPrice = gasInfo.safeLow || gasInfo.gasPrice;
-        break;
-      case GasRecommendation.FAST:
-        gasPrice = gasInfo.fast || gasInfo.gasPrice;
-        break;
-      case GasRecommendation.FASTEST:
-        gasPrice = gasInfo.fastest || gasInfo.gasPrice;
-        break;
-      default:
-        gasPrice = gasInfo.standard || gasInfo.gasPrice;
-    }
-    
     return {
-      gasPrice,
+      gasPrice: gasInfo[key] || gasInfo.gasPrice,
       type: TransactionType.LEGACY
     };
   }
 }
 
+/**
+ * 설정의 가스 가격 유형을 권장 레벨로 변환
+ * 
+ * @param gasPriceType 가스 가격 유형
+ * @returns 권장 레벨
+ */
+export function gasPriceTypeToRecommendation(gasPriceType: GasPriceType): GasRecommendation {
+  switch (gasPriceType) {
+    case GasPriceType.LOW:
+      return GasRecommendation.LOW;
+    case GasPriceType.HIGH:
+      return GasRecommendation.FAST;
+    default:
+      return GasRecommendation.STANDARD;
+  }
+}
+
+/**
+ * 설정의 가스 가격 유형에 맞는 가스 설정 가져오기
+ * 
+ * @param gasInfo 가스 정보
+ * @param gasPriceType 가스 가격 유형
+ * @param customGasPrice 커스텀 가스 가격 (gwei, CUSTOM 유형일 때)
+ * @returns 가스 설정
+ */
+export function getGasSettingsForPriceType(
+  gasInfo: GasInfo,
+  gasPriceType: GasPriceType,
+  customGasPrice?: number
+): GasSettings {
+  if (gasPriceType !== GasPriceType.CUSTOM || !customGasPrice || customGasPrice <= 0) {
+    return getRecommendedGasSettings(gasInfo, gasPriceTypeToRecommendation(gasPriceType));
+  }
+  
+  const customPrice = BigInt(Math.round(customGasPrice * 1e9));
+  
+  if (gasInfo.gasPriceType === 'eip1559' && gasInfo.maxFeePerGas && gasInfo.maxPriorityFeePerGas) {
+    // 커스텀 가격을 최대 수수료로 사용하고, 우선순위 수수료는 표준 단계 값을 넘지 않도록 제한
+    const standardPriorityFee = BigInt(getRecommendedGasSettings(gasInfo).maxPriorityFeePerGas || '0');
+    const priorityFee = standardPriorityFee < customPrice ? standardPriorityFee : customPrice;
+    
+    return {
+      maxFeePerGas: customPrice.toString(),
+      maxPriorityFeePerGas: priorityFee.toString(),
+      type: TransactionType.EIP1559
+    };
+  }
+  
+  return {
+    gasPrice: customPrice.toString(),
+    type: TransactionType.LEGACY
+  };
+}
+
 /**
  * 가스 요약 텍스트 가져오기
  * 
@@ -411,12 +405,7 @@ function formatGwei(wei: string, decimals: number = 2): string {
  * @param gasSettings 가스 설정
  * @returns 사용자 친화적 텍스트
  */
-export function getGasSettingsText(gasSettings: {
-  gasPrice?: string;
-  maxFeePerGas?: string;
-  maxPriorityFeePerGas?: string;
-  type: TransactionType;
-}): string {
+export function getGasSettingsText(gasSettings: GasSettings): string {
   if (gasSettings.type === TransactionType.EIP1559) {
     return `Max Fee: ${formatGwei(gasSettings.maxFeePerGas || '0')} gwei, Priority Fee: ${formatGwei(gasSettings.maxPriorityFeePerGas || '0')} gwei`;
   } else {
@@ -0,0 +1,414 @@
+/**
+ * @file gasOracle.ts
+ * @description eth_feeHistory 기반 가스 오라클
+ * 
+ * 최근 블록의 기본 수수료, 가스 사용률, 우선순위 수수료 백분위를 체인별 롤링 윈도우로 캐싱하고
+ * 새 블록이 생기면 늘어난 블록만 조회해 윈도우를 이어 붙입니다.
+ * 윈도우로부터 다음 블록들의 기본 수수료를 예측하고, 느림/표준/빠름 단계별 수수료와 예상 포함 시간을 계산합니다.
+ */
+
+import { IProvider } from './providers/provider.interface';
+import { RpcCache } from './optimization/caching';
+import { GasError } from '../utils/errors';
+import { createLogger } from '../utils/logging';
+
+// 로거 생성
+const logger = createLogger('GasOracle');
+
+/**
+ * 가스 수수료 단계
+ */
+export enum GasTier {
+  SLOW = 'slow',
+  STANDARD = 'standard',
+  FAST = 'fast'
+}
+
+/**
+ * 수수료 이력의 블록 항목
+ */
+export interface FeeHistoryBlock {
+  blockNumber: number;
+  baseFeePerGas: string; // 기본 수수료 (wei)
+  gasUsedRatio: number; // 가스 사용률 (0-1)
+  rewards: string[]; // 백분위별 우선순위 수수료 (rewardPercentiles 순서, wei)
+}
+
+/**
+ * 체인별 수수료 이력 롤링 윈도우
+ */
+export interface FeeHistoryWindow {
+  chainId: number;
+  blocks: FeeHistoryBlock[]; // 오래된 블록부터 정렬
+  nextBaseFee: string; // 노드가 계산한 다음 블록의 기본 수수료
+  latestBlock: number;
+  blockTime: number; // 평균 블록 생성 간격 (밀리초)
+  updatedAt: number;
+}
+
+/**
+ * 단계별 수수료 추정
+ */
+export interface GasTierEstimate {
+  tier: GasTier;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  expectedBlocks: number; // 예상 포함 블록 수
+  expectedWaitTime: number; // 예상 포함 시간 (밀리초)
+}
+
+/**
+ * 가스 수수료 추정 결과
+ */
+export interface GasFeeEstimate {
+  chainId: number;
+  latestBlock: number;
+  baseFeePerGas: string; // 최신 블록의 기본 수수료
+  predictedBaseFees: string[]; // 다음 블록부터 예측한 기본 수수료
+  baseFeeHistory: string[]; // 윈도우의 기본 수수료 이력
+  networkCongestion: number; // 윈도우의 평균 가스 사용률 (0-1)
+  blockTime: number;
+  tiers: Record<GasTier, GasTierEstimate>;
+  lastUpdated: number;
+}
+
+/**
+ * 가스 오라클 옵션
+ */
+export interface GasOracleOptions {
+  historyBlocks?: number; // 롤링 윈도우 블록 수
+  rewardPercentiles?: [number, number, number]; // 느림/표준/빠름 단계의 우선순위 수수료 백분위
+  predictionBlocks?: number; // 기본 수수료를 예측할 블록 수
+  blockTime?: number; // 블록 생성 간격 (밀리초, 지정하지 않으면 블록 타임스탬프로 측정)
+  refreshInterval?: number; // 최신 블록 번호를 다시 확인하기까지의 최소 간격 (밀리초)
+  cache?: RpcCache; // 윈도우를 보관할 캐시 (지정하지 않으면 오라클 전용 캐시 생성)
+}
+
+/**
+ * 기본 가스 오라클 옵션
+ */
+export const DEFAULT_GAS_ORACLE_OPTIONS = {
+  historyBlocks: 20,
+  rewardPercentiles: [10, 50, 90] as [number, number, number],
+  predictionBlocks: 5,
+  refreshInterval: RpcCache.getTtlForMethod('eth_blockNumber')
+};
+
+/**
+ * 윈도우 캐시 유지 시간 (이보다 오래 갱신되지 않으면 전체를 다시 조회)
+ */
+const FEE_HISTORY_CACHE_TTL = 10 * 60 * 1000;
+
+/**
+ * 블록 생성 간격을 측정하지 못했을 때 사용하는 기본값 (밀리초)
+ */
+const DEFAULT_BLOCK_TIME = 12000;
+
+/**
+ * 목표 가스 사용률 (EIP-1559, 베이시스 포인트)
+ */
+const TARGET_GAS_USED_RATIO_BPS = 5000;
+
+/**
+ * 단계 순서 (rewardPercentiles 순서와 같음)
+ */
+const GAS_TIERS: GasTier[] = [GasTier.SLOW, GasTier.STANDARD, GasTier.FAST];
+
+/**
+ * eth_feeHistory 기반 가스 오라클
+ */
+export class GasOracle {
+  private cache: RpcCache;
+  private ownsCache: boolean;
+  private options: Required<Omit<GasOracleOptions, 'blockTime' | 'cache'>> & { blockTime?: number };
+  
+  /**
+   * GasOracle 생성자
+   * 
+   * @param options 가스 오라클 옵션
+   */
+  constructor(options: GasOracleOptions = {}) {
+    const { cache, ...rest } = options;
+    this.options = { ...DEFAULT_GAS_ORACLE_OPTIONS, ...rest };
+    this.cache = cache || new RpcCache({ ttl: FEE_HISTORY_CACHE_TTL, maxSize: 50 });
+    this.ownsCache = !cache;
+  }
+  
+  /**
+   * 가스 수수료 추정
+   * 
+   * @param provider 프로바이더
+   * @param forceRefresh 캐시된 윈도우를 버리고 전체를 다시 조회할지 여부
+   * @returns 가스 수수료 추정 결과
+   */
+  async estimate(provider: IProvider, forceRefresh = false): Promise<GasFeeEstimate> {
+    const window = await this.getFeeHistory(provider, forceRefresh);
+    const predictedBaseFees = this.predictBaseFees(window);
+    
+    const tiers = {} as Record<GasTier, GasTierEstimate>;
+    GAS_TIERS.forEach((tier, index) => {
+      tiers[tier] = this.estimateTier(window, predictedBaseFees, tier, index);
+    });
+    
+    const latest = window.blocks[window.blocks.length - 1];
+    
+    return {
+      chainId: window.chainId,
+      latestBlock: window.latestBlock,
+      baseFeePerGas: latest ? latest.baseFeePerGas : window.nextBaseFee,
+      predictedBaseFees: predictedBaseFees.map(fee => fee.toString()),
+      baseFeeHistory: window.blocks.map(block => block.baseFeePerGas),
+      networkCongestion: this.getAverageGasUsedRatio(window),
+      blockTime: window.blockTime,
+      tiers,
+      lastUpdated: window.updatedAt
+    };
+  }
+  
+  /**
+   * 체인의 수수료 이력 윈도우 조회
+   * 캐시된 윈도우가 있으면 그 이후 생성된 블록만 조회해 이어 붙입니다.
+   * 
+   * @param provider 프로바이더
+   * @param forceRefresh 전체 윈도우를 다시 조회할지 여부
+   * @returns 수수료 이력 윈도우
+   */
+  async getFeeHistory(provider: IProvider, forceRefresh = false): Promise<FeeHistoryWindow> {
+    const chainId = provider.chainId;
+    const cacheKey = this.getCacheKey(chainId);
+    const cached: FeeHistoryWindow | undefined = forceRefresh ? undefined : this.cache.get(cacheKey);
+    const now = Date.now();
+    
+    if (cached && now - cached.updatedAt < this.options.refreshInterval) {
+      return cached;
+    }
+    
+    const latestBlock = await provider.getBlockNumber();
+    
+    if (cached && cached.latestBlock === latestBlock) {
+      const refreshed = { ...cached, updatedAt: now };
+      this.cache.set(cacheKey, refreshed);
+      return refreshed;
+    }
+    
+    // 캐시된 윈도우 이후의 블록만 조회 (체인 재구성 등으로 블록 번호가 줄어든 경우 전체 조회)
+    const { historyBlocks, rewardPercentiles } = this.options;
+    const incremental = !!cached && latestBlock > cached.latestBlock;
+    const blockCount = incremental ? Math.min(latestBlock - cached!.latestBlock, historyBlocks) : historyBlocks;
+    
+    const history = await provider.send('eth_feeHistory', [
+      `0x${blockCount.toString(16)}`,
+      `0x${latestBlock.toString(16)}`,
+      rewardPercentiles
+    ]);
+    const fetched = this.parseFeeHistory(history);
+    const oldestFetched = fetched.blocks.length > 0 ? fetched.blocks[0].blockNumber : latestBlock + 1;
+    
+    const previous = incremental ? cached!.blocks.filter(block => block.blockNumber < oldestFetched) : [];
+    const blocks = [...previous, ...fetched.blocks].slice(-historyBlocks);
+    
+    const blockTime = this.options.blockTime
+      || (incremental ? cached!.blockTime : await this.measureBlockTime(provider, blocks));
+    
+    const window: FeeHistoryWindow = {
+      chainId,
+      blocks,
+      nextBaseFee: fetched.nextBaseFee,
+      latestBlock,
+      blockTime,
+      updatedAt: now
+    };
+    
+    this.cache.set(cacheKey, window);
+    logger.debug(`Fee history window updated: chain ${chainId}, ${blocks.length} blocks up to ${latestBlock}`);
+    
+    return window;
+  }
+  
+  /**
+   * 다음 블록들의 기본 수수료 예측
+   * 첫 블록은 노드가 계산한 값을 사용하고, 이후 블록은 윈도우의 평균 가스 사용률이 유지된다고 보고
+   * EIP-1559 조정 공식(블록당 최대 ±12.5%)을 반복 적용합니다.
+   * 
+   * @param window 수수료 이력 윈도우
+   * @returns 예측 기본 수수료 목록 (predictionBlocks 개)
+   */
+  predictBaseFees(window: FeeHistoryWindow): bigint[] {
+    const ratioBps = BigInt(Math.round(this.getAverageGasUsedRatio(window) * 10000));
+    const predicted: bigint[] = [BigInt(window.nextBaseFee)];
+    
+    for (let i = 1; i < this.options.predictionBlocks; i++) {
+      const previous = predicted[i - 1];
+      // (사용률 - 0.5) / 0.5 / 8 = (사용률bps - 5000) / 40000
+      predicted.push(previous + previous * (ratioBps - BigInt(TARGET_GAS_USED_RATIO_BPS)) / BigInt(40000));
+    }
+    
+    return predicted;
+  }
+  
+  /**
+   * 체인의 캐시된 윈도우 삭제
+   * 
+   * @param chainId 체인 ID
+   */
+  clear(chainId?: number): void {
+    if (chainId === undefined) {
+      this.cache.deletePattern(/:gasOracle:/);
+    } else {
+      this.cache.delete(this.getCacheKey(chainId));
+    }
+  }
+  
+  /**
+   * 오라클 전용 캐시 정리
+   */
+  dispose(): void {
+    if (this.ownsCache) {
+      this.cache.dispose();
+    }
+  }
+  
+  /**
+   * 단계별 수수료 추정
+   * 우선순위 수수료는 윈도우에서 해당 백분위 값의 중앙값을 사용하고,
+   * 예상 포함 블록 수는 그 수수료가 각 블록의 표준 백분위 수수료 이상이었던 비율로 계산합니다.
+   * 
+   * @param window 수수료 이력 윈도우
+   * @param predictedBaseFees 예측 기본 수수료
+   * @param tier 수수료 단계
+   * @param index 백분위 인덱스
+   * @returns 단계별 수수료 추정
+   */
+  private estimateTier(
+    window: FeeHistoryWindow,
+    predictedBaseFees: bigint[],
+    tier: GasTier,
+    index: number
+  ): GasTierEstimate {
+    // 빈 블록은 우선순위 수수료가 0으로 보고되므로 제외
+    const activeBlocks = window.blocks.filter(block => block.gasUsedRatio > 0 && block.rewards.length > index);
+    const priorityFee = median(activeBlocks.map(block => BigInt(block.rewards[index])));
+    
+    let expectedBlocks = 1;
+    if (activeBlocks.length > 0) {
+      const referenceIndex = Math.floor(this.options.rewardPercentiles.length / 2);
+      const included = activeBlocks.filter(block => priorityFee >= BigInt(block.rewards[referenceIndex] || '0')).length;
+      expectedBlocks = included > 0
+        ? Math.min(Math.ceil(activeBlocks.length / included), window.blocks.length)
+        : window.blocks.length;
+    }
+    
+    // 포함될 때까지 예측 기본 수수료의 최댓값에 한 블록 최대 상승분(12.5%)을 더해 여유를 둠
+    const horizon = predictedBaseFees.slice(0, Math.max(1, Math.min(expectedBlocks, predictedBaseFees.length)));
+    const peakBaseFee = horizon.reduce((max, fee) => (fee > max ? fee : max), BigInt(0));
+    const maxFeePerGas = peakBaseFee * BigInt(9) / BigInt(8) + priorityFee;
+    
+    return {
+      tier,
+      maxFeePerGas: maxFeePerGas.toString(),
+      maxPriorityFeePerGas: priorityFee.toString(),
+      expectedBlocks,
+      expectedWaitTime: expectedBlocks * window.blockTime
+    };
+  }
+  
+  /**
+   * eth_feeHistory 응답 파싱
+   * 
+   * @param history eth_feeHistory 응답
+   * @returns 블록 항목과 다음 블록의 기본 수수료
+   */
+  private parseFeeHistory(history: any): { blocks: FeeHistoryBlock[]; nextBaseFee: string } {
+    if (!history || !Array.isArray(history.baseFeePerGas) || history.baseFeePerGas.length === 0) {
+      throw new GasError('Fee history is not available on this network');
+    }
+    
+    const oldestBlock = Number(history.oldestBlock);
+    const gasUsedRatio: number[] = history.gasUsedRatio || [];
+    const rewards: string[][] = history.reward || [];
+    
+    const blocks = gasUsedRatio.map((ratio, i) => ({
+      blockNumber: oldestBlock + i,
+      baseFeePerGas: BigInt(history.baseFeePerGas[i]).toString(),
+      gasUsedRatio: Number(ratio),
+      rewards: (rewards[i] || []).map(reward => BigInt(reward).toString())
+    }));
+    
+    // baseFeePerGas는 조회한 블록 수보다 하나 많으며 마지막 값이 다음 블록의 기본 수수료
+    const nextBaseFee = history.baseFeePerGas[gasUsedRatio.length] ?? history.baseFeePerGas[history.baseFeePerGas.length - 1];
+    
+    return { blocks, nextBaseFee: BigInt(nextBaseFee).toString() };
+  }
+  
+  /**
+   * 윈도우 양 끝 블록의 타임스탬프로 평균 블록 생성 간격 측정
+   * 
+   * @param provider 프로바이더
+   * @param blocks 윈도우 블록
+   * @returns 블록 생성 간격 (밀리초)
+   */
+  private async measureBlockTime(provider: IProvider, blocks: FeeHistoryBlock[]): Promise<number> {
+    if (blocks.length < 2) {
+      return DEFAULT_BLOCK_TIME;
+    }
+    
+    try {
+      const first = blocks[0].blockNumber;
+      const last = blocks[blocks.length - 1].blockNumber;
+      const [firstBlock, lastBlock] = await Promise.all([
+        provider.send('eth_getBlockByNumber', [`0x${first.toString(16)}`, false]),
+        provider.send('eth_getBlockByNumber', [`0x${last.toString(16)}`, false])
+      ]);
+      
+      const elapsed = (Number(lastBlock.timestamp) - Number(firstBlock.timestamp)) * 1000;
+      return elapsed > 0 ? Math.round(elapsed / (last - first)) : DEFAULT_BLOCK_TIME;
+    } catch (error: any) {
+      logger.warn(`Failed to measure block time: ${error.message}`);
+      return DEFAULT_BLOCK_TIME;
+    }
+  }
+  
+  /**
+   * 윈도우의 평균 가스 사용률
+   * 
+   * @param window 수수료 이력 윈도우
+   * @returns 평균 가스 사용률 (0-1)
+   */
+  private getAverageGasUsedRatio(window: FeeHistoryWindow): number {
+    if (window.blocks.length === 0) {
+      return 0;
+    }
+    
+    const total = window.blocks.reduce((sum, block) => sum + block.gasUsedRatio, 0);
+    return Math.min(Math.max(total / window.blocks.length, 0), 1);
+  }
+  
+  /**
+   * 체인별 캐시 키 생성
+   * 
+   * @param chainId 체인 ID
+   * @returns 캐시 키
+   */
+  private getCacheKey(chainId: number): string {
+    return RpcCache.createCacheKey('gasOracle:eth_feeHistory', [this.options.historyBlocks, this.options.rewardPercentiles], chainId);
+  }
+}
+
+/**
+ * BigInt 배열의 중앙값
+ * 
+ * @param values BigInt 배열
+ * @returns 중앙값 (빈 배열이면 0)
+ */
+function median(values: bigint[]): bigint {
+  if (values.length === 0) {
+    return BigInt(0);
+  }
+  
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const middle = Math.floor(sorted.length / 2);
+  
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / BigInt(2)
+    : sorted[middle];
+}
@@ -0,0 +1,228 @@
+/**
+ * chain/index.ts
+ * 
+ * CreLink 지갑의 체인 관련 모듈을 내보냅니다.
+ */
+
+// 체인 메타데이터
+export {
+  SUPPORTED_CHAINS,
+  getNetworkInfo,
+  getRpcUrl,
+  getExplorerUrl,
+  getTransactionExplorerUrl,
+  getAddressExplorerUrl,
+  getChainContracts,
+  getShortChainName,
+  getChainsWithFeature,
+  getMainnetChains,
+  getTestnetChains,
+  isTestnet,
+  isSupportedChain,
+  isEnabledChain,
+  hasFeature,
+  getAddNetworkParams,
+  getChainMetadata,
+  exportChainListAsJson,
+  hexChainIdToNumber,
+  chainIdToHex,
+  formatNetworkType,
+  formatChainFeature,
+  getChainLogoUrl,
+  getChainNativeCurrencySymbol,
+  getChainNativeCurrencyDecimals
+} from './chains';
+
+// 컨트랙트 ABI 및 유틸리티
+export {
+  ERC20_ABI,
+  ERC721_ABI,
+  ERC1155_ABI,
+  DID_REGISTRY_ABI,
+  MULTICALL_ABI,
+  ENS_REGISTRY_ABI,
+  ENS_RESOLVER_ABI,
+  CATENA_NAME_REGISTRY_ABI,
+  WETH_ABI,
+  CATENA_CONTRACTS,
+  INTERFACE_IDS,
+  ERC20_METHOD_SIGNATURES,
+  COMMON_METHOD_SIGNATURES,
+  isContract,
+  isERC20Token,
+  isERC721Token
+} from './contracts';
+
+// 프로바이더
+export {
+  ProviderEventType,
+  ProviderState,
+  IProvider,
+  BaseProvider,
+  IProviderFactory,
+  ProviderFactory,
+  defaultProviderFactory
+} from './providers/provider.interface';
+
+export {
+  CatenaProvider,
+  CATENA_MAINNET_CHAIN_ID,
+  CATENA_TESTNET_CHAIN_ID,
+  CATENA_MAINNET_RPC_URL,
+  CATENA_TESTNET_RPC_URL
+} from './providers/catena.provider';
+
+export { EnhancedCatenaProvider } from './providers/enhanced-catena.provider';
+
+export {
+  RpcEndpointStatus,
+  RpcEndpointHealth,
+  RpcEndpointHealthListener,
+  RpcEndpointPoolOptions,
+  DEFAULT_RPC_ENDPOINT_POOL_OPTIONS,
+  isEndpointFailure,
+  RpcEndpointPool
+} from './providers/rpc-endpoint-pool';
+
+export {
+  DEFAULT_QUORUM_METHODS,
+  DEFAULT_RPC_QUORUM_OPTIONS,
+  QuorumProvider
+} from './providers/quorum.provider';
+
+// RPC 캐싱
+export {
+  CacheOptions,
+  CacheStats,
+  Cache,
+  RpcCache
+} from './optimization/caching';
+
+// 트랜잭션 상태 추적
+export {
+  TransactionMonitorEventType,
+  TransactionMonitorEvent,
+  TransactionMonitorListener,
+  TransactionProviderResolver,
+  TransactionSender,
+  TransactionMonitorOptions,
+  DEFAULT_TRANSACTION_MONITOR_OPTIONS,
+  TransactionMonitor
+} from './transactionMonitor';
+
+// 논스 관리
+export {
+  NonceManagerOptions,
+  NonceGap,
+  DEFAULT_NONCE_RESERVATION_TIMEOUT,
+  NonceManager
+} from './nonceManager';
+
+// 트랜잭션 서명
+export { signTransaction } from './transactions';
+
+// 가스 관리
+export {
+  GasRecommendation,
+  GasSettings,
+  getDefaultGasOracle,
+  getGasInfo,
+  getRecommendedGasSettings,
+  gasPriceTypeToRecommendation,
+  getGasSettingsForPriceType,
+  getGasSummary,
+  getGasSettingsText,
+  getDefaultGasLimit,
+  determineTransactionType
+} from './gas';
+
+// 가스 오라클
+export {
+  GasTier,
+  FeeHistoryBlock,
+  FeeHistoryWindow,
+  GasTierEstimate,
+  GasFeeEstimate,
+  GasOracleOptions,
+  DEFAULT_GAS_ORACLE_OPTIONS,
+  GasOracle
+} from './gasOracle';
+
+// Multicall 묶음 조회
+export {
+  MULTICALL3_ADDRESS,
+  JsonRpcBatchRequest,
+  MulticallTransport,
+  MulticallOptions,
+  DEFAULT_MULTICALL_OPTIONS,
+  TokenMetadata,
+  getMulticallAddress,
+  postJsonRpcBatch,
+  MulticallAggregator
+} from './multicall';
+
+// 이름 해석 (ENS, Catena 네임 서비스, zkDID)
+export {
+  NameResolverTransport,
+  NameResolver,
+  ResolvedName,
+  NameResolutionOptions,
+  DEFAULT_NAME_RESOLUTION_OPTIONS,
+  ZkDIDResolver,
+  EnsNameResolver,
+  CatenaNameResolver,
+  ZkDIDNameResolver,
+  NameResolutionService
+} from './nameResolver';
+
+// 토큰 타입
+export {
+  Token,
+  TokenStandard,
+  TokenValidationStatus,
+  TokenListEntry,
+  TokenList
+} from '../types/chain.types';
+
+// 토큰 목록
+export {
+  CATENA_TOKEN_LIST,
+  ETHEREUM_TOKEN_LIST,
+  POLYGON_TOKEN_LIST,
+  ARBITRUM_TOKEN_LIST,
+  DEFAULT_TOKEN_LISTS
+} from './tokenLists';
+
+// 토큰 레지스트리 (토큰 목록, 보유 토큰 탐색, 스팸 분류)
+export {
+  TokenRegistryProvider,
+  TokenRegistryOptions,
+  DEFAULT_TOKEN_REGISTRY_OPTIONS,
+  TokenDiscoveryOptions,
+  TokenDiscoveryResult,
+  TokenRegistry
+} from './tokenRegistry';
+
+// 로그 조회
+export {
+  LogQuerySend,
+  LogEntry,
+  LogQueryFilter,
+  isLogRangeError,
+  queryLogs
+} from './logQuery';
+
+// NFT (ERC-721, ERC-1155)
+export {
+  NFTServiceTransport,
+  NFTStandard,
+  NFTAttribute,
+  NFTMetadata,
+  NFTAsset,
+  NFTServiceOptions,
+  DEFAULT_NFT_SERVICE_OPTIONS,
+  NFTDiscoveryOptions,
+  NFTDiscoveryResult,
+  NFTTransferTransaction,
+  NFTService
+} from './nftService';
@@ -0,0 +1,98 @@
+/**
+ * @file logQuery.ts
+ * @description eth_getLogs 범위 조회
+ * 
+ * 노드마다 한 번에 조회할 수 있는 블록 범위와 결과 수 제한이 다르므로,
+ * 블록 범위를 나눠 조회하고 노드가 거부하면 범위를 반으로 줄여 다시 조회합니다.
+ */
+
+import { isEndpointFailure } from './providers/rpc-endpoint-pool';
+import { createLogger } from '../utils/logging';
+
+// 로거 생성
+const logger = createLogger('LogQuery');
+
+/**
+ * 로그 조회에 사용할 JSON-RPC 요청 함수
+ */
+export type LogQuerySend = (method: string, params: any[]) => Promise<any>;
+
+/**
+ * eth_getLogs 결과 로그
+ */
+export interface LogEntry {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber?: string;
+  transactionHash?: string;
+  logIndex?: string;
+}
+
+/**
+ * 로그 조회 필터
+ */
+export interface LogQueryFilter {
+  address?: string | string[];
+  topics: Array<string | string[] | null>;
+}
+
+/**
+ * 조회 범위나 결과 수 제한 오류 여부
+ * 
+ * @param error 오류
+ */
+export function isLogRangeError(error: any): boolean {
+  const rpcError = error?.info?.error || error?.error || error;
+  return rpcError?.code === -32005 || /range|too many|limit|more than/i.test(rpcError?.message || '');
+}
+
+/**
+ * 블록 범위의 로그 조회
+ * 
+ * @param send JSON-RPC 요청 함수
+ * @param filter 주소와 토픽 필터
+ * @param fromBlock 시작 블록
+ * @param toBlock 끝 블록
+ * @param maxBlockRange 한 번에 조회할 최대 블록 수
+ * @returns 블록 순서대로 정렬된 로그
+ */
+export async function queryLogs(
+  send: LogQuerySend,
+  filter: LogQueryFilter,
+  fromBlock: number,
+  toBlock: number,
+  maxBlockRange: number
+): Promise<LogEntry[]> {
+  const logs: LogEntry[] = [];
+  
+  for (let start = fromBlock; start <= toBlock; start += maxBlockRange) {
+    const end = Math.min(start + maxBlockRange - 1, toBlock);
+    logs.push(...(await queryLogRange(send, filter, start, end)));
+  }
+  
+  return logs;
+}
+
+/**
+ * 로그 조회 (거부되면 범위를 나눠 재시도)
+ */
+async function queryLogRange(send: LogQuerySend, filter: LogQueryFilter, fromBlock: number, toBlock: number): Promise<LogEntry[]> {
+  try {
+    return (await send('eth_getLogs', [{
+      ...filter,
+      fromBlock: `0x${fromBlock.toString(16)}`,
+      toBlock: `0x${toBlock.toString(16)}`
+    }])) || [];
+  } catch (error: any) {
+    if (fromBlock >= toBlock || (isEndpointFailure(error) && !isLogRangeError(error))) {
+      throw error;
+    }
+    
+    const middle = Math.floor((fromBlock + toBlock) / 2);
+    logger.debug(`Splitting eth_getLogs range ${fromBlock}-${toBlock}: ${error.message}`);
+    const first = await queryLogRange(send, filter, fromBlock, middle);
+    const second = await queryLogRange(send, filter, middle + 1, toBlock);
+    return [...first, ...second];
+  }
+}
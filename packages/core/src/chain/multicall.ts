@@ -0,0 +1,428 @@
+/**
+ * @file multicall.ts
+ * @description Multicall3 기반 eth_call 자동 묶음 처리
+ * 
+ * 짧은 시간 창 안에 들어온 eth_call과 잔액 조회를 모아 Multicall3 aggregate3 한 번으로 전송합니다.
+ * Multicall3가 배포되지 않은 체인에서는 JSON-RPC 배치 요청으로, 배치 요청도 지원하지 않으면 개별 요청으로 대체합니다.
+ */
+
+import { Interface, decodeBytes32String } from 'ethers';
+import { SupportedChainId } from '../types/chain.types';
+import { ERC20_ABI, MULTICALL_ABI } from './contracts';
+import { getChainContracts } from './chains';
+import { RpcError } from '../utils/errors';
+import { createLogger } from '../utils/logging';
+
+// 로거 생성
+const logger = createLogger('Multicall');
+
+/**
+ * Multicall3 공통 배포 주소 (대부분의 EVM 체인에서 동일)
+ */
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+/**
+ * Multicall3가 공통 주소로 배포된 체인
+ */
+const MULTICALL3_CHAINS: number[] = [
+  SupportedChainId.ETHEREUM,
+  SupportedChainId.ETHEREUM_GOERLI,
+  SupportedChainId.ETHEREUM_SEPOLIA,
+  SupportedChainId.POLYGON,
+  SupportedChainId.POLYGON_MUMBAI,
+  SupportedChainId.ARBITRUM,
+  SupportedChainId.ARBITRUM_GOERLI,
+  SupportedChainId.BSC,
+  SupportedChainId.BSC_TESTNET
+];
+
+/**
+ * 빈 주소 (배포되지 않은 계약)
+ */
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * 실행 실패(revert) JSON-RPC 오류 코드
+ */
+const EXECUTION_REVERTED_CODE = 3;
+
+/**
+ * JSON-RPC 배치 요청 항목
+ */
+export interface JsonRpcBatchRequest {
+  method: string;
+  params: any[];
+}
+
+/**
+ * 묶음 요청을 보낼 RPC 전송 계층
+ * IProvider를 그대로 사용할 수 있으며, sendBatch가 있으면 JSON-RPC 배치 요청도 전송합니다.
+ */
+export interface MulticallTransport {
+  chainId: number;
+  send(method: string, params: any[]): Promise<any>;
+  sendBatch?(requests: JsonRpcBatchRequest[]): Promise<any>; // 응답 본문을 그대로 반환 (각 요청의 id는 목록 순서)
+}
+
+/**
+ * Multicall 옵션
+ */
+export interface MulticallOptions {
+  batchWindow?: number; // 호출을 모으는 시간 창 (밀리초)
+  maxBatchSize?: number; // 한 번에 묶을 최대 호출 수 (초과하면 즉시 전송)
+  multicallAddress?: string | null; // Multicall3 주소 (null이면 사용하지 않음, 지정하지 않으면 체인별 기본값)
+  blockTag?: string; // 조회 블록
+}
+
+/**
+ * 기본 Multicall 옵션
+ */
+export const DEFAULT_MULTICALL_OPTIONS = {
+  batchWindow: 10,
+  maxBatchSize: 100,
+  blockTag: 'latest'
+};
+
+/**
+ * ERC-20 토큰 메타데이터
+ */
+export interface TokenMetadata {
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * 대기 중인 호출
+ */
+interface PendingCall {
+  kind: 'call' | 'balance';
+  target: string; // 호출 계약 주소 (잔액 조회는 대상 주소)
+  data: string;
+  resolve: (result: string) => void;
+  reject: (error: Error) => void;
+}
+
+const multicallInterface = new Interface(MULTICALL_ABI);
+const erc20Interface = new Interface(ERC20_ABI);
+
+/**
+ * 체인의 Multicall3 주소 조회
+ * 
+ * @param chainId 체인 ID
+ * @returns Multicall3 주소 또는 null (배포되지 않은 체인)
+ */
+export function getMulticallAddress(chainId: number): string | null {
+  const chainContracts = getChainContracts(chainId);
+  if (chainContracts.MULTICALL && chainContracts.MULTICALL !== ZERO_ADDRESS) {
+    return chainContracts.MULTICALL;
+  }
+  
+  return MULTICALL3_CHAINS.includes(chainId) ? MULTICALL3_ADDRESS : null;
+}
+
+/**
+ * RPC URL로 JSON-RPC 배치 요청 전송
+ * 배치를 지원하지 않는 노드는 배열이 아닌 응답을 돌려주므로 응답 본문을 해석하지 않고 그대로 반환합니다.
+ * 
+ * @param url RPC URL
+ * @param requests 요청 목록 (각 요청의 id는 목록 순서)
+ * @returns 응답 본문
+ */
+export async function postJsonRpcBatch(url: string, requests: JsonRpcBatchRequest[]): Promise<any> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(requests.map(({ method, params }, id) => ({ jsonrpc: '2.0', id, method, params })))
+  });
+  
+  if (!response.ok) {
+    throw new RpcError(`Batch request failed with HTTP ${response.status}`);
+  }
+  
+  return response.json();
+}
+
+/**
+ * eth_call 자동 묶음 처리기
+ */
+export class MulticallAggregator {
+  private queue: PendingCall[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private options: Required<Omit<MulticallOptions, 'multicallAddress'>>;
+  private multicallAddress: string | null;
+  private batchSupported = true;
+  
+  /**
+   * MulticallAggregator 생성자
+   * 
+   * @param transport RPC 전송 계층
+   * @param options Multicall 옵션
+   */
+  constructor(private transport: MulticallTransport, options: MulticallOptions = {}) {
+    const { multicallAddress, ...rest } = options;
+    this.options = { ...DEFAULT_MULTICALL_OPTIONS, ...rest };
+    this.multicallAddress = multicallAddress !== undefined ? multicallAddress : getMulticallAddress(transport.chainId);
+  }
+  
+  /**
+   * eth_call 요청
+   * 시간 창 안의 다른 호출과 함께 전송됩니다.
+   * 
+   * @param target 계약 주소
+   * @param data 호출 데이터
+   * @returns 반환 데이터
+   */
+  call(target: string, data: string): Promise<string> {
+    return this.enqueue('call', target, data);
+  }
+  
+  /**
+   * 네이티브 잔액 조회
+   * 
+   * @param address 주소
+   * @returns 잔액 (wei 단위 문자열)
+   */
+  async getBalance(address: string): Promise<string> {
+    const result = await this.enqueue('balance', address, multicallInterface.encodeFunctionData('getEthBalance', [address]));
+    return BigInt(result).toString();
+  }
+  
+  /**
+   * ERC-20 토큰 잔액 조회
+   * 
+   * @param address 소유자 주소
+   * @param tokenAddress 토큰 계약 주소
+   * @returns 잔액 (wei 단위 문자열)
+   */
+  async getTokenBalance(address: string, tokenAddress: string): Promise<string> {
+    const result = await this.call(tokenAddress, erc20Interface.encodeFunctionData('balanceOf', [address]));
+    return erc20Interface.decodeFunctionResult('balanceOf', result)[0].toString();
+  }
+  
+  /**
+   * 여러 ERC-20 토큰 잔액 조회
+   * 조회에 실패한 토큰은 결과에서 제외됩니다.
+   * 
+   * @param address 소유자 주소
+   * @param tokenAddresses 토큰 계약 주소 목록
+   * @returns 토큰 주소별 잔액
+   */
+  async getTokenBalances(address: string, tokenAddresses: string[]): Promise<Record<string, string>> {
+    const results = await Promise.allSettled(
+      tokenAddresses.map(tokenAddress => this.getTokenBalance(address, tokenAddress))
+    );
+    
+    const balances: Record<string, string> = {};
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        balances[tokenAddresses[index]] = result.value;
+      } else {
+        logger.warn(`Failed to get token balance (token: ${tokenAddresses[index]}): ${result.reason?.message}`);
+      }
+    });
+    
+    return balances;
+  }
+  
+  /**
+   * ERC-20 토큰 메타데이터 조회
+   * name/symbol이 bytes32로 구현된 토큰도 지원합니다.
+   * 
+   * @param tokenAddress 토큰 계약 주소
+   * @returns 토큰 메타데이터
+   */
+  async getTokenMetadata(tokenAddress: string): Promise<TokenMetadata> {
+    const [name, symbol, decimals] = await Promise.all([
+      this.call(tokenAddress, erc20Interface.encodeFunctionData('name')),
+      this.call(tokenAddress, erc20Interface.encodeFunctionData('symbol')),
+      this.call(tokenAddress, erc20Interface.encodeFunctionData('decimals'))
+    ]);
+    
+    return {
+      address: tokenAddress,
+      name: decodeStringResult('name', name),
+      symbol: decodeStringResult('symbol', symbol),
+      decimals: Number(erc20Interface.decodeFunctionResult('decimals', decimals)[0])
+    };
+  }
+  
+  /**
+   * 대기 중인 호출 즉시 전송
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    
+    const calls = this.queue.splice(0, this.queue.length);
+    if (calls.length === 0) {
+      return;
+    }
+    
+    for (let i = 0; i < calls.length; i += this.options.maxBatchSize) {
+      await this.execute(calls.slice(i, i + this.options.maxBatchSize));
+    }
+  }
+  
+  /**
+   * 호출을 대기열에 추가하고 전송 예약
+   * 
+   * @param kind 호출 종류
+   * @param target 대상 주소
+   * @param data 호출 데이터
+   * @returns 반환 데이터
+   */
+  private enqueue(kind: PendingCall['kind'], target: string, data: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+      this.queue.push({ kind, target, data, resolve, reject });
+      
+      if (this.queue.length >= this.options.maxBatchSize) {
+        this.flush();
+      } else if (!this.flushTimer) {
+        this.flushTimer = setTimeout(() => {
+          this.flushTimer = null;
+          this.flush();
+        }, this.options.batchWindow);
+      }
+    });
+  }
+  
+  /**
+   * 묶음 실행
+   * Multicall3 → JSON-RPC 배치 → 개별 요청 순으로 시도합니다.
+   * 
+   * @param calls 호출 목록
+   */
+  private async execute(calls: PendingCall[]): Promise<void> {
+    // 호출이 하나뿐이면 묶지 않고 그대로 전송
+    if (calls.length > 1 && this.multicallAddress) {
+      try {
+        await this.executeMulticall(calls, this.multicallAddress);
+        return;
+      } catch (error: any) {
+        logger.warn(`Multicall failed on chain ${this.transport.chainId}, falling back to batch requests: ${error.message}`);
+      }
+    }
+    
+    if (calls.length > 1 && this.transport.sendBatch && this.batchSupported) {
+      try {
+        if (await this.executeBatch(calls)) {
+          return;
+        }
+        
+        // 배치 요청을 지원하지 않는 노드는 이후 개별 요청만 사용
+        this.batchSupported = false;
+        logger.warn(`JSON-RPC batch is not supported on chain ${this.transport.chainId}, falling back to single requests`);
+      } catch (error: any) {
+        // 일시적인 네트워크 오류일 수 있으므로 이번 묶음만 개별 요청으로 전송
+        logger.warn(`JSON-RPC batch failed on chain ${this.transport.chainId}, falling back to single requests: ${error.message}`);
+      }
+    }
+    
+    await Promise.all(calls.map(async call => {
+      try {
+        call.resolve(await this.transport.send(...this.toRpcRequest(call)));
+      } catch (error: any) {
+        call.reject(error);
+      }
+    }));
+  }
+  
+  /**
+   * Multicall3 aggregate3로 실행
+   * 각 호출은 실패를 허용하므로 한 호출의 revert가 다른 호출 결과에 영향을 주지 않습니다.
+   * 
+   * @param calls 호출 목록
+   * @param multicallAddress Multicall3 주소
+   */
+  private async executeMulticall(calls: PendingCall[], multicallAddress: string): Promise<void> {
+    const data = multicallInterface.encodeFunctionData('aggregate3', [
+      calls.map(call => ({
+        target: call.kind === 'balance' ? multicallAddress : call.target,
+        allowFailure: true,
+        callData: call.data
+      }))
+    ]);
+    
+    const response = await this.transport.send('eth_call', [{ to: multicallAddress, data }, this.options.blockTag]);
+    const [results] = multicallInterface.decodeFunctionResult('aggregate3', response);
+    
+    if (results.length !== calls.length) {
+      throw new RpcError(`Multicall returned ${results.length} results for ${calls.length} calls`);
+    }
+    
+    calls.forEach((call, index) => {
+      const { success, returnData } = results[index];
+      if (success) {
+        call.resolve(returnData);
+      } else {
+        call.reject(new RpcError(`Call to ${call.target} reverted`, EXECUTION_REVERTED_CODE, returnData));
+      }
+    });
+  }
+  
+  /**
+   * JSON-RPC 배치 요청으로 실행
+   * 
+   * @param calls 호출 목록
+   * @returns 노드가 배치 요청을 처리했는지 여부 (배열이 아닌 응답이면 false)
+   */
+  private async executeBatch(calls: PendingCall[]): Promise<boolean> {
+    const requests = calls.map(call => {
+      const [method, params] = this.toRpcRequest(call);
+      return { method, params };
+    });
+    
+    const results = await this.transport.sendBatch!(requests);
+    if (!Array.isArray(results)) {
+      return false;
+    }
+    
+    const resultsById = new Map<number, any>(results.map((result: any) => [Number(result.id), result]));
+    
+    calls.forEach((call, index) => {
+      const result = resultsById.get(index);
+      if (!result) {
+        call.reject(new RpcError(`Missing batch response for ${call.target}`));
+      } else if (result.error) {
+        call.reject(new RpcError(result.error.message, result.error.code, result.error.data));
+      } else {
+        call.resolve(result.result);
+      }
+    });
+    
+    return true;
+  }
+  
+  /**
+   * 호출을 개별 JSON-RPC 요청으로 변환
+   * 
+   * @param call 호출
+   * @returns 메서드와 파라미터
+   */
+  private toRpcRequest(call: PendingCall): [string, any[]] {
+    if (call.kind === 'balance') {
+      return ['eth_getBalance', [call.target, this.options.blockTag]];
+    }
+    
+    return ['eth_call', [{ to: call.target, data: call.data }, this.options.blockTag]];
+  }
+}
+
+/**
+ * string 또는 bytes32 반환값 디코딩
+ * 
+ * @param method 메서드 이름
+ * @param data 반환 데이터
+ * @returns 디코딩된 문자열
+ */
+function decodeStringResult(method: 'name' | 'symbol', data: string): string {
+  try {
+    return erc20Interface.decodeFunctionResult(method, data)[0];
+  } catch {
+    return decodeBytes32String(data.slice(0, 66));
+  }
+}
@@ -0,0 +1,522 @@
+/**
+ * @file nameResolver.ts
+ * @description ENS, Catena 네임 서비스, zkDID 이름 해석
+ * 
+ * 수신자 입력란에 들어온 이름을 getAddressType으로 구분하고, 이름 종류를 지원하는 해석기로 주소를 찾습니다.
+ * ENS는 레지스트리에서 리졸버를 찾은 뒤 리졸버가 addr/name 인터페이스를 지원하는지 확인하고 조회합니다.
+ * 역방향 조회 결과는 다시 정방향으로 해석해 같은 주소가 나올 때만 사용합니다.
+ */
+
+import { Interface, Result, ZeroAddress, getAddress, namehash } from 'ethers';
+import { CATENA_NAME_REGISTRY_ABI, ENS_REGISTRY_ABI, ENS_RESOLVER_ABI, INTERFACE_IDS } from './contracts';
+import { getChainContracts, getNetworkInfo } from './chains';
+import { MulticallTransport } from './multicall';
+import { isEndpointFailure } from './providers/rpc-endpoint-pool';
+import {
+  AddressType,
+  getAddressType,
+  isValidAddress,
+  isValidCatenaName,
+  isValidDIDAlias,
+  isValidENS,
+  isValidZkDID
+} from '../utils/address';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { createLogger } from '../utils/logging';
+
+// 로거 생성
+const logger = createLogger('NameResolver');
+
+/**
+ * 이름 해석에 사용할 RPC 전송 계층
+ * IProvider를 그대로 사용할 수 있습니다.
+ */
+export type NameResolverTransport = Pick<MulticallTransport, 'chainId' | 'send'>;
+
+/**
+ * 이름 해석기
+ * 새 이름 체계는 이 인터페이스를 구현해 NameResolutionService에 등록합니다.
+ */
+export interface NameResolver {
+  readonly name: string; // 해석기 이름 (같은 이름으로 등록하면 교체)
+  
+  /**
+   * 이름 지원 여부
+   * 
+   * @param name 정규화된 이름
+   * @param chainId 체인 ID
+   */
+  supports(name: string, chainId: number): boolean;
+  
+  /**
+   * 이름을 주소로 해석
+   * 
+   * @param name 정규화된 이름
+   * @param transport RPC 전송 계층
+   * @returns 체크섬 주소 또는 null (등록되지 않은 이름)
+   */
+  resolveName(name: string, transport: NameResolverTransport): Promise<string | null>;
+  
+  /**
+   * 주소의 대표 이름 조회 (역방향 조회)
+   * 
+   * @param address 주소
+   * @param transport RPC 전송 계층
+   * @returns 이름 또는 null
+   */
+  lookupAddress?(address: string, transport: NameResolverTransport): Promise<string | null>;
+}
+
+/**
+ * 해석된 이름
+ */
+export interface ResolvedName {
+  name: string; // 정규화된 입력
+  address: string; // 체크섬 주소
+  type: AddressType;
+  resolver?: string; // 해석한 해석기 이름 (16진수 주소는 없음)
+}
+
+/**
+ * 이름 해석 서비스 옵션
+ */
+export interface NameResolutionOptions {
+  cacheTtl: number; // 해석 결과 캐시 시간 (밀리초)
+  negativeCacheTtl: number; // 등록되지 않은 이름 캐시 시간 (밀리초)
+  maxCacheSize: number; // 최대 캐시 항목 수
+}
+
+/**
+ * 기본 이름 해석 서비스 옵션
+ */
+export const DEFAULT_NAME_RESOLUTION_OPTIONS: NameResolutionOptions = {
+  cacheTtl: 5 * 60 * 1000,
+  negativeCacheTtl: 30 * 1000,
+  maxCacheSize: 500
+};
+
+/**
+ * zkDID 조회기 (ZkDIDManager를 그대로 사용할 수 있음)
+ */
+export interface ZkDIDResolver {
+  resolveDID(did: string): Promise<{ walletAddress: string } | null>;
+}
+
+/**
+ * 캐시 항목
+ */
+interface CacheEntry {
+  value: string | null;
+  expiresAt: number;
+}
+
+const ensRegistryInterface = new Interface(ENS_REGISTRY_ABI);
+const ensResolverInterface = new Interface(ENS_RESOLVER_ABI);
+const catenaNameRegistryInterface = new Interface(CATENA_NAME_REGISTRY_ABI);
+
+/**
+ * 계약 조회 (eth_call)
+ * 계약이 없거나 노드가 실행을 거부하면 null을 반환하고, RPC 장애는 그대로 던집니다.
+ * 
+ * @param transport RPC 전송 계층
+ * @param to 계약 주소
+ * @param contractInterface 계약 인터페이스
+ * @param method 메서드 이름
+ * @param args 파라미터
+ * @returns 디코딩된 결과 또는 null
+ */
+async function callContract(
+  transport: NameResolverTransport,
+  to: string,
+  contractInterface: Interface,
+  method: string,
+  args: any[]
+): Promise<Result | null> {
+  let result: string;
+  try {
+    result = await transport.send('eth_call', [{ to, data: contractInterface.encodeFunctionData(method, args) }, 'latest']);
+  } catch (error: any) {
+    if (isEndpointFailure(error)) {
+      throw error;
+    }
+    return null;
+  }
+  
+  if (!result || result === '0x') {
+    return null;
+  }
+  
+  try {
+    return contractInterface.decodeFunctionResult(method, result);
+  } catch (error: any) {
+    // 다른 ABI를 가진 계약의 응답
+    return null;
+  }
+}
+
+/**
+ * 조회한 주소를 체크섬 주소로 변환 (빈 주소는 null)
+ */
+function toResolvedAddress(address: string | undefined | null): string | null {
+  if (!address || !isValidAddress(address) || address === ZeroAddress) {
+    return null;
+  }
+  
+  return getAddress(address);
+}
+
+/**
+ * ENS 해석기
+ */
+export class EnsNameResolver implements NameResolver {
+  public readonly name = 'ens';
+  
+  /**
+   * ENS 해석기 생성자
+   * 
+   * @param registryAddress ENS 레지스트리 주소 (지정하지 않으면 체인 정보의 ensAddress)
+   */
+  constructor(private registryAddress?: string) {}
+  
+  /**
+   * 체인의 ENS 레지스트리 주소 조회
+   * 
+   * @param chainId 체인 ID
+   * @returns 레지스트리 주소 또는 null (ENS가 없는 체인)
+   */
+  public getRegistryAddress(chainId: number): string | null {
+    return this.registryAddress || getNetworkInfo(chainId)?.ensAddress || null;
+  }
+  
+  public supports(name: string, chainId: number): boolean {
+    return isValidENS(name) && this.getRegistryAddress(chainId) !== null;
+  }
+  
+  public async resolveName(name: string, transport: NameResolverTransport): Promise<string | null> {
+    const node = namehash(name);
+    const resolver = await this.getResolver(node, transport, INTERFACE_IDS.ENS_ADDR);
+    if (!resolver) {
+      return null;
+    }
+    
+    const result = await callContract(transport, resolver, ensResolverInterface, 'addr', [node]);
+    return toResolvedAddress(result?.[0]);
+  }
+  
+  public async lookupAddress(address: string, transport: NameResolverTransport): Promise<string | null> {
+    if (!this.getRegistryAddress(transport.chainId)) {
+      return null;
+    }
+    
+    const node = namehash(`${address.slice(2).toLowerCase()}.addr.reverse`);
+    const resolver = await this.getResolver(node, transport, INTERFACE_IDS.ENS_NAME);
+    if (!resolver) {
+      return null;
+    }
+    
+    const result = await callContract(transport, resolver, ensResolverInterface, 'name', [node]);
+    const name: string | undefined = result?.[0];
+    if (!name || !isValidENS(name)) {
+      return null;
+    }
+    
+    // 역방향 레코드는 누구나 설정할 수 있으므로 정방향 해석이 같은 주소일 때만 사용
+    const forward = await this.resolveName(name, transport);
+    return forward && forward.toLowerCase() === address.toLowerCase() ? name : null;
+  }
+  
+  /**
+   * 노드의 리졸버 조회 및 인터페이스 지원 확인
+   * 
+   * @param node 이름 해시
+   * @param transport RPC 전송 계층
+   * @param interfaceId 필요한 리졸버 인터페이스 ID
+   * @returns 리졸버 주소 또는 null
+   */
+  private async getResolver(node: string, transport: NameResolverTransport, interfaceId: string): Promise<string | null> {
+    const registryAddress = this.getRegistryAddress(transport.chainId);
+    if (!registryAddress) {
+      return null;
+    }
+    
+    const result = await callContract(transport, registryAddress, ensRegistryInterface, 'resolver', [node]);
+    const resolver = toResolvedAddress(result?.[0]);
+    if (!resolver) {
+      return null;
+    }
+    
+    const supported = await callContract(transport, resolver, ensResolverInterface, 'supportsInterface', [interfaceId]);
+    if (!supported?.[0]) {
+      logger.debug(`ENS resolver ${resolver} does not support interface ${interfaceId}`);
+      return null;
+    }
+    
+    return resolver;
+  }
+}
+
+/**
+ * Catena 네임 서비스 해석기
+ */
+export class CatenaNameResolver implements NameResolver {
+  public readonly name = 'catena';
+  
+  /**
+   * Catena 네임 서비스 해석기 생성자
+   * 
+   * @param registryAddress 네임 레지스트리 주소 (지정하지 않으면 CATENA_CONTRACTS의 NAME_REGISTRY)
+   */
+  constructor(private registryAddress?: string) {}
+  
+  /**
+   * 체인의 네임 레지스트리 주소 조회
+   * 
+   * @param chainId 체인 ID
+   * @returns 레지스트리 주소 또는 null (배포되지 않은 체인)
+   */
+  public getRegistryAddress(chainId: number): string | null {
+    const registryAddress = this.registryAddress || getChainContracts(chainId).NAME_REGISTRY;
+    return registryAddress && registryAddress !== ZeroAddress ? registryAddress : null;
+  }
+  
+  public supports(name: string, chainId: number): boolean {
+    return isValidCatenaName(name) && this.getRegistryAddress(chainId) !== null;
+  }
+  
+  public async resolveName(name: string, transport: NameResolverTransport): Promise<string | null> {
+    const registryAddress = this.getRegistryAddress(transport.chainId);
+    if (!registryAddress) {
+      return null;
+    }
+    
+    const result = await callContract(transport, registryAddress, catenaNameRegistryInterface, 'addr', [name]);
+    return toResolvedAddress(result?.[0]);
+  }
+  
+  public async lookupAddress(address: string, transport: NameResolverTransport): Promise<string | null> {
+    const registryAddress = this.getRegistryAddress(transport.chainId);
+    if (!registryAddress) {
+      return null;
+    }
+    
+    const result = await callContract(transport, registryAddress, catenaNameRegistryInterface, 'nameOf', [address]);
+    const name: string | undefined = result?.[0];
+    if (!name || !isValidCatenaName(name)) {
+      return null;
+    }
+    
+    const forward = await this.resolveName(name, transport);
+    return forward && forward.toLowerCase() === address.toLowerCase() ? name : null;
+  }
+}
+
+/**
+ * zkDID 및 zkDID 별칭 해석기
+ */
+export class ZkDIDNameResolver implements NameResolver {
+  public readonly name = 'zkdid';
+  
+  /**
+   * zkDID 해석기 생성자
+   * 
+   * @param didResolver zkDID 조회기 (ZkDIDManager)
+   */
+  constructor(private didResolver: ZkDIDResolver) {}
+  
+  public supports(name: string): boolean {
+    return isValidZkDID(name) || isValidDIDAlias(name);
+  }
+  
+  public async resolveName(name: string): Promise<string | null> {
+    // 별칭은 @ 없이 조회 (예: @username.creata -> username.creata)
+    const did = name.startsWith('@') ? name.slice(1) : name;
+    const record = await this.didResolver.resolveDID(did);
+    return toResolvedAddress(record?.walletAddress);
+  }
+}
+
+/**
+ * 이름 해석 서비스
+ */
+export class NameResolutionService {
+  private resolvers: NameResolver[];
+  private options: NameResolutionOptions;
+  private cache: Map<string, CacheEntry> = new Map();
+  
+  /**
+   * 이름 해석 서비스 생성자
+   * 
+   * @param resolvers 해석기 목록 (앞에 있는 해석기가 우선)
+   * @param options 옵션
+   */
+  constructor(
+    resolvers: NameResolver[] = [new EnsNameResolver(), new CatenaNameResolver()],
+    options: Partial<NameResolutionOptions> = {}
+  ) {
+    this.resolvers = [...resolvers];
+    this.options = { ...DEFAULT_NAME_RESOLUTION_OPTIONS, ...options };
+  }
+  
+  /**
+   * 해석기 등록
+   * 같은 이름의 해석기가 있으면 교체합니다.
+   * 
+   * @param resolver 해석기
+   */
+  public registerResolver(resolver: NameResolver): void {
+    const index = this.resolvers.findIndex(existing => existing.name === resolver.name);
+    if (index >= 0) {
+      this.resolvers[index] = resolver;
+    } else {
+      this.resolvers.push(resolver);
+    }
+    
+    this.clearCache();
+  }
+  
+  /**
+   * 해석기 제거
+   * 
+   * @param name 해석기 이름
+   * @returns 제거 여부
+   */
+  public removeResolver(name: string): boolean {
+    const index = this.resolvers.findIndex(resolver => resolver.name === name);
+    if (index < 0) {
+      return false;
+    }
+    
+    this.resolvers.splice(index, 1);
+    this.clearCache();
+    return true;
+  }
+  
+  /**
+   * 등록된 해석기 목록
+   */
+  public getResolvers(): NameResolver[] {
+    return [...this.resolvers];
+  }
+  
+  /**
+   * 이름을 주소로 해석
+   * 
+   * @param name 이름 (ENS, Catena 이름, zkDID, zkDID 별칭)
+   * @param transport RPC 전송 계층
+   * @returns 해석 결과 또는 null (지원하지 않거나 등록되지 않은 이름)
+   */
+  public async resolveName(name: string, transport: NameResolverTransport): Promise<ResolvedName | null> {
+    const normalized = this.normalizeName(name);
+    const resolver = this.resolvers.find(candidate => candidate.supports(normalized, transport.chainId));
+    if (!resolver) {
+      return null;
+    }
+    
+    const address = await this.cached(`${transport.chainId}:name:${normalized}`, () => resolver.resolveName(normalized, transport));
+    if (!address) {
+      return null;
+    }
+    
+    return { name: normalized, address, type: getAddressType(normalized), resolver: resolver.name };
+  }
+  
+  /**
+   * 주소의 대표 이름 조회 (역방향 조회)
+   * 
+   * @param address 주소
+   * @param transport RPC 전송 계층
+   * @returns 이름 또는 null
+   */
+  public async lookupAddress(address: string, transport: NameResolverTransport): Promise<string | null> {
+    if (!isValidAddress(address)) {
+      throw new ValidationError(`Invalid address: ${address}`, 'address');
+    }
+    
+    return this.cached(`${transport.chainId}:address:${address.toLowerCase()}`, async () => {
+      for (const resolver of this.resolvers) {
+        const name = resolver.lookupAddress ? await resolver.lookupAddress(address, transport) : null;
+        if (name) {
+          return name;
+        }
+      }
+      
+      return null;
+    });
+  }
+  
+  /**
+   * 수신자 입력을 주소로 변환
+   * 16진수 주소는 그대로, 이름은 해석한 주소로 반환합니다.
+   * 
+   * @param recipient 수신자 입력
+   * @param transport RPC 전송 계층
+   * @returns 해석 결과
+   */
+  public async resolveRecipient(recipient: string, transport: NameResolverTransport): Promise<ResolvedName> {
+    const normalized = this.normalizeName(recipient);
+    const type = getAddressType(normalized);
+    
+    if (type === AddressType.HEX) {
+      // 대소문자가 섞인 주소는 체크섬까지 확인
+      try {
+        return { name: normalized, address: getAddress(recipient.trim()), type };
+      } catch (error: any) {
+        throw new ValidationError(`Invalid address checksum: ${recipient}`, 'recipient');
+      }
+    }
+    
+    if (type === AddressType.UNKNOWN) {
+      throw new ValidationError(`Invalid recipient: ${recipient}`, 'recipient');
+    }
+    
+    const resolved = await this.resolveName(normalized, transport);
+    if (!resolved) {
+      throw new NotFoundError(`Could not resolve ${normalized} on chainId ${transport.chainId}`, 'name');
+    }
+    
+    return resolved;
+  }
+  
+  /**
+   * 캐시 비우기
+   */
+  public clearCache(): void {
+    this.cache.clear();
+  }
+  
+  /**
+   * 입력 정규화 (앞뒤 공백 제거, zkDID가 아니면 소문자로 변환)
+   */
+  private normalizeName(name: string): string {
+    const trimmed = name.trim();
+    return isValidZkDID(trimmed) ? trimmed : trimmed.toLowerCase();
+  }
+  
+  /**
+   * 캐시된 조회
+   * 조회 실패(RPC 오류)는 캐시하지 않습니다.
+   * 
+   * @param key 캐시 키
+   * @param fetcher 조회 함수
+   */
+  private async cached(key: string, fetcher: () => Promise<string | null>): Promise<string | null> {
+    const entry = this.cache.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.value;
+    }
+    
+    const value = await fetcher();
+    
+    this.cache.delete(key);
+    if (this.cache.size >= this.options.maxCacheSize) {
+      // 가장 오래된 항목 제거
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    this.cache.set(key, {
+      value,
+      expiresAt: Date.now() + (value ? this.options.cacheTtl : this.options.negativeCacheTtl)
+    });
+    
+    return value;
+  }
+}
@@ -0,0 +1,615 @@
+/**
+ * @file nftService.ts
+ * @description ERC-721/ERC-1155 NFT 탐색, 메타데이터 조회, 전송 트랜잭션 생성
+ * 
+ * 계정의 Transfer, TransferSingle, TransferBatch 로그에서 NFT 후보를 찾고
+ * ownerOf/balanceOf로 현재 보유 여부를 확인합니다.
+ * 메타데이터는 tokenURI(ERC-721) 또는 uri(ERC-1155, {id} 치환)로 조회하며,
+ * ipfs:// 주소는 설정된 IPFS 게이트웨이(AdvancedSettings.ipfsGateway)로 변환합니다.
+ */
+
+import { Interface, Result, decodeBase64, encodeBase64, getAddress, toUtf8String, zeroPadValue } from 'ethers';
+import { TokenStandard } from '../types/chain.types';
+import { ERC721_ABI, ERC1155_ABI } from './contracts';
+import { MulticallTransport } from './multicall';
+import { queryLogs } from './logQuery';
+import { isEndpointFailure } from './providers/rpc-endpoint-pool';
+import { DEFAULT_SETTINGS } from '../storage/models/settings.model';
+import { isValidAddress } from '../utils/address';
+import { ValidationError } from '../utils/errors';
+import { createLogger } from '../utils/logging';
+
+// 로거 생성
+const logger = createLogger('NFTService');
+
+/**
+ * NFT 조회에 사용할 RPC 전송 계층
+ */
+export type NFTServiceTransport = Pick<MulticallTransport, 'chainId' | 'send'>;
+
+/**
+ * NFT 표준
+ */
+export type NFTStandard = TokenStandard.ERC721 | TokenStandard.ERC1155;
+
+/**
+ * NFT 속성
+ */
+export interface NFTAttribute {
+  trait_type?: string;
+  value: string | number;
+  display_type?: string;
+}
+
+/**
+ * NFT 메타데이터 (ERC-721/ERC-1155 메타데이터 JSON)
+ */
+export interface NFTMetadata {
+  name?: string;
+  description?: string;
+  image?: string;
+  animation_url?: string;
+  external_url?: string;
+  attributes?: NFTAttribute[];
+}
+
+/**
+ * 보유 NFT
+ */
+export interface NFTAsset {
+  chainId: number;
+  contractAddress: string; // 체크섬 주소
+  tokenId: string; // 10진수 토큰 ID
+  standard: NFTStandard;
+  balance: string; // 보유 수량 (ERC-721은 항상 1)
+  collectionName?: string; // 계약의 name()
+  tokenURI?: string; // 계약이 반환한 원본 메타데이터 URI
+  metadata?: NFTMetadata | null; // 메타데이터 (조회 실패 시 null)
+  imageUrl?: string | null; // 게이트웨이로 변환한 이미지 URL
+}
+
+/**
+ * NFT 서비스 옵션
+ */
+export interface NFTServiceOptions {
+  ipfsGateway: string; // IPFS 게이트웨이 URL
+  discoveryBlockRange: number; // 시작 블록을 지정하지 않았을 때 탐색할 최근 블록 수
+  maxLogBlockRange: number; // eth_getLogs 한 번에 조회할 최대 블록 수
+  metadataCacheTtl: number; // 메타데이터 캐시 시간 (밀리초)
+  negativeCacheTtl: number; // 메타데이터 조회 실패 캐시 시간 (밀리초)
+  maxMetadataCacheSize: number; // 최대 메타데이터 캐시 항목 수
+  maxImageCacheSize: number; // 최대 이미지 캐시 항목 수
+  maxImageBytes: number; // 캐시할 이미지 최대 크기 (바이트)
+  requestTimeout: number; // 메타데이터, 이미지 요청 제한 시간 (밀리초)
+}
+
+/**
+ * 기본 NFT 서비스 옵션
+ */
+export const DEFAULT_NFT_SERVICE_OPTIONS: NFTServiceOptions = {
+  ipfsGateway: DEFAULT_SETTINGS.advanced.ipfsGateway,
+  discoveryBlockRange: 100000,
+  maxLogBlockRange: 5000,
+  metadataCacheTtl: 60 * 60 * 1000,
+  negativeCacheTtl: 5 * 60 * 1000,
+  maxMetadataCacheSize: 1000,
+  maxImageCacheSize: 100,
+  maxImageBytes: 2 * 1024 * 1024,
+  requestTimeout: 15000
+};
+
+/**
+ * NFT 탐색 옵션
+ */
+export interface NFTDiscoveryOptions {
+  fromBlock?: number; // 탐색 시작 블록 (지정하지 않으면 최근 discoveryBlockRange 블록)
+  toBlock?: number; // 탐색 끝 블록 (지정하지 않으면 최신 블록)
+}
+
+/**
+ * NFT 탐색 결과
+ */
+export interface NFTDiscoveryResult {
+  nfts: NFTAsset[]; // 현재 보유 중인 NFT
+  transferred: Array<Pick<NFTAsset, 'contractAddress' | 'tokenId'>>; // 탐색 범위에서 주고받았지만 지금은 보유하지 않은 NFT
+  fromBlock: number;
+  toBlock: number; // 다음 탐색은 toBlock + 1부터 시작
+}
+
+/**
+ * NFT 전송 트랜잭션
+ */
+export interface NFTTransferTransaction {
+  from: string;
+  to: string; // NFT 계약 주소
+  data: string;
+  value: string;
+}
+
+/**
+ * 메타데이터 캐시 항목
+ */
+interface MetadataCacheEntry {
+  tokenURI?: string;
+  metadata: NFTMetadata | null;
+  expiresAt: number;
+}
+
+/**
+ * NFT 후보
+ */
+interface NFTCandidate {
+  contractAddress: string;
+  tokenId: bigint;
+  standard: NFTStandard;
+}
+
+const erc721Interface = new Interface(ERC721_ABI);
+const erc1155Interface = new Interface(ERC1155_ABI);
+
+/**
+ * 이벤트 토픽
+ */
+const TRANSFER_TOPIC = erc721Interface.getEvent('Transfer')!.topicHash;
+const TRANSFER_SINGLE_TOPIC = erc1155Interface.getEvent('TransferSingle')!.topicHash;
+const TRANSFER_BATCH_TOPIC = erc1155Interface.getEvent('TransferBatch')!.topicHash;
+
+/**
+ * 경로 없이 입력된 IPFS CID (CIDv0, CIDv1)
+ */
+const IPFS_CID_PATTERN = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})(\/.*)?$/;
+
+/**
+ * NFT 서비스
+ */
+export class NFTService {
+  private options: NFTServiceOptions;
+  private metadataCache: Map<string, MetadataCacheEntry> = new Map();
+  private imageCache: Map<string, string> = new Map();
+  
+  /**
+   * NFT 서비스 생성자
+   * 
+   * @param options 옵션
+   */
+  constructor(options: Partial<NFTServiceOptions> = {}) {
+    this.options = { ...DEFAULT_NFT_SERVICE_OPTIONS, ...options };
+    this.setIpfsGateway(this.options.ipfsGateway);
+  }
+  
+  /**
+   * IPFS 게이트웨이 변경
+   * 이미 변환한 이미지 URL이 달라지므로 캐시를 비웁니다.
+   * 
+   * @param gateway IPFS 게이트웨이 URL (예: https://ipfs.io/ipfs/)
+   */
+  public setIpfsGateway(gateway: string): void {
+    if (!/^https?:\/\//.test(gateway)) {
+      throw new ValidationError(`Invalid IPFS gateway: ${gateway}`, 'ipfsGateway');
+    }
+    
+    const normalized = gateway.endsWith('/') ? gateway : `${gateway}/`;
+    if (normalized !== this.options.ipfsGateway) {
+      this.options.ipfsGateway = normalized;
+      this.clearCache();
+    }
+  }
+  
+  /**
+   * 메타데이터, 이미지 URI를 HTTP URL로 변환
+   * ipfs://, /ipfs/ 경로, 경로 없는 CID는 IPFS 게이트웨이로, ar://는 Arweave 게이트웨이로 변환합니다.
+   * 
+   * @param uri 원본 URI
+   * @returns 변환한 URL (data: URI는 그대로 반환)
+   */
+  public resolveUri(uri: string): string {
+    const trimmed = uri.trim();
+    
+    if (/^ipfs:\/\//i.test(trimmed)) {
+      return this.options.ipfsGateway + trimmed.replace(/^ipfs:\/\/(ipfs\/)?/i, '');
+    }
+    
+    if (/^ar:\/\//i.test(trimmed)) {
+      return `https://arweave.net/${trimmed.slice(5)}`;
+    }
+    
+    if (trimmed.startsWith('/ipfs/')) {
+      return this.options.ipfsGateway + trimmed.slice(6);
+    }
+    
+    if (IPFS_CID_PATTERN.test(trimmed)) {
+      return this.options.ipfsGateway + trimmed;
+    }
+    
+    return trimmed;
+  }
+  
+  /**
+   * 계정의 Transfer 로그로 보유 NFT 탐색
+   * 로그에서 찾은 NFT는 ownerOf(ERC-721)와 balanceOf(ERC-1155)로 현재 보유 여부를 확인합니다.
+   * 
+   * @param transport RPC 전송 계층
+   * @param owner 계정 주소
+   * @param options 탐색 범위
+   * @returns 보유 NFT와 탐색한 블록 범위 (메타데이터는 loadMetadata로 조회)
+   */
+  public async discoverNFTs(
+    transport: NFTServiceTransport,
+    owner: string,
+    options: NFTDiscoveryOptions = {}
+  ): Promise<NFTDiscoveryResult> {
+    if (!isValidAddress(owner)) {
+      throw new ValidationError(`Invalid owner address: ${owner}`, 'owner');
+    }
+    
+    const toBlock = options.toBlock ?? Number(await transport.send('eth_blockNumber', []));
+    const fromBlock = Math.max(0, options.fromBlock ?? toBlock - this.options.discoveryBlockRange + 1);
+    if (fromBlock > toBlock) {
+      return { nfts: [], transferred: [], fromBlock, toBlock };
+    }
+    
+    const ownerTopic = zeroPadValue(owner.toLowerCase(), 32);
+    const multiTopics = [TRANSFER_SINGLE_TOPIC, TRANSFER_BATCH_TOPIC];
+    const query = (topics: Array<string | string[] | null>) =>
+      queryLogs((method, params) => transport.send(method, params), { topics }, fromBlock, toBlock, this.options.maxLogBlockRange);
+    
+    // ERC-721 Transfer의 수신자는 세 번째 토픽, ERC-1155 이벤트의 수신자는 네 번째 토픽
+    const logs = (await Promise.all([
+      query([TRANSFER_TOPIC, null, ownerTopic]),
+      query([TRANSFER_TOPIC, ownerTopic]),
+      query([multiTopics, null, null, ownerTopic]),
+      query([multiTopics, null, ownerTopic])
+    ])).flat();
+    
+    const candidates = new Map<string, NFTCandidate>();
+    const addCandidate = (address: string, tokenId: bigint, standard: NFTStandard) => {
+      const contractAddress = getAddress(address);
+      candidates.set(`${contractAddress}:${tokenId}`, { contractAddress, tokenId, standard });
+    };
+    
+    for (const log of logs) {
+      try {
+        if (log.topics[0] === TRANSFER_TOPIC) {
+          // ERC-20 Transfer는 토픽이 3개라 제외
+          if (log.topics.length === 4) {
+            addCandidate(log.address, BigInt(log.topics[3]), TokenStandard.ERC721);
+          }
+          continue;
+        }
+        
+        const parsed = erc1155Interface.parseLog({ topics: log.topics, data: log.data });
+        if (parsed?.name === 'TransferSingle') {
+          addCandidate(log.address, parsed.args.id, TokenStandard.ERC1155);
+        } else if (parsed?.name === 'TransferBatch') {
+          for (const id of parsed.args.ids) {
+            addCandidate(log.address, id, TokenStandard.ERC1155);
+          }
+        }
+      } catch (error: any) {
+        logger.debug(`Skipping malformed NFT transfer log from ${log.address}: ${error.message}`);
+      }
+    }
+    
+    const collectionNames = new Map<string, Promise<string | undefined>>();
+    const getCollectionName = (contractAddress: string) => {
+      if (!collectionNames.has(contractAddress)) {
+        collectionNames.set(contractAddress, this.call(transport, contractAddress, erc721Interface, 'name', [])
+          .then(result => (result ? String(result[0]) || undefined : undefined)));
+      }
+      return collectionNames.get(contractAddress)!;
+    };
+    
+    const nfts: NFTAsset[] = [];
+    const transferred: NFTDiscoveryResult['transferred'] = [];
+    
+    await Promise.all(Array.from(candidates.values()).map(async candidate => {
+      const balance = await this.getBalance(transport, owner, candidate);
+      const tokenId = candidate.tokenId.toString();
+      
+      if (balance === BigInt(0)) {
+        transferred.push({ contractAddress: candidate.contractAddress, tokenId });
+        return;
+      }
+      
+      nfts.push({
+        chainId: transport.chainId,
+        contractAddress: candidate.contractAddress,
+        tokenId,
+        standard: candidate.standard,
+        balance: balance.toString(),
+        collectionName: await getCollectionName(candidate.contractAddress)
+      });
+    }));
+    
+    logger.debug(`Discovered ${nfts.length} NFTs for ${owner} on chain ${transport.chainId} (blocks ${fromBlock}-${toBlock})`);
+    
+    return { nfts, transferred, fromBlock, toBlock };
+  }
+  
+  /**
+   * NFT 메타데이터 조회
+   * tokenURI(ERC-721) 또는 uri(ERC-1155)를 조회하고 메타데이터 JSON을 받아 캐시합니다.
+   * 메타데이터 서버 오류는 null로 캐시하고, RPC 장애는 캐시하지 않고 그대로 던집니다.
+   * 
+   * @param transport RPC 전송 계층
+   * @param nft NFT 계약 주소, 토큰 ID, 표준
+   * @returns 메타데이터 URI와 메타데이터
+   */
+  public async getMetadata(
+    transport: NFTServiceTransport,
+    nft: Pick<NFTAsset, 'contractAddress' | 'tokenId' | 'standard'>
+  ): Promise<{ tokenURI?: string; metadata: NFTMetadata | null }> {
+    const key = `${transport.chainId}:${nft.contractAddress.toLowerCase()}:${nft.tokenId}`;
+    const entry = this.metadataCache.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return { tokenURI: entry.tokenURI, metadata: entry.metadata };
+    }
+    
+    const tokenURI = await this.getTokenURI(transport, nft);
+    const metadata = tokenURI ? await this.fetchMetadata(tokenURI) : null;
+    
+    this.metadataCache.delete(key);
+    if (this.metadataCache.size >= this.options.maxMetadataCacheSize) {
+      // 가장 오래된 항목 제거
+      this.metadataCache.delete(this.metadataCache.keys().next().value as string);
+    }
+    this.metadataCache.set(key, {
+      tokenURI,
+      metadata,
+      expiresAt: Date.now() + (metadata ? this.options.metadataCacheTtl : this.options.negativeCacheTtl)
+    });
+    
+    return { tokenURI, metadata };
+  }
+  
+  /**
+   * 여러 NFT의 메타데이터와 이미지 URL 채우기
+   * 
+   * @param transport RPC 전송 계층
+   * @param nfts NFT 목록
+   * @returns 메타데이터가 채워진 NFT 목록
+   */
+  public async loadMetadata(transport: NFTServiceTransport, nfts: NFTAsset[]): Promise<NFTAsset[]> {
+    return Promise.all(nfts.map(async nft => {
+      const { tokenURI, metadata } = await this.getMetadata(transport, nft);
+      return {
+        ...nft,
+        tokenURI,
+        metadata,
+        imageUrl: metadata?.image ? this.resolveUri(metadata.image) : null
+      };
+    }));
+  }
+  
+  /**
+   * NFT 이미지 조회
+   * 크기 제한 이하의 이미지는 data: URL로 캐시하고, 큰 이미지나 조회에 실패한 이미지는 변환한 URL을 반환합니다.
+   * 
+   * @param imageUri 이미지 URI (ipfs:// 등)
+   * @returns data: URL 또는 HTTP URL
+   */
+  public async getImage(imageUri: string): Promise<string> {
+    const url = this.resolveUri(imageUri);
+    if (url.startsWith('data:')) {
+      return url;
+    }
+    
+    const cached = this.imageCache.get(url);
+    if (cached) {
+      // 최근 사용한 항목을 뒤로 이동
+      this.imageCache.delete(url);
+      this.imageCache.set(url, cached);
+      return cached;
+    }
+    
+    try {
+      const response = await this.fetchWithTimeout(url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      if (bytes.length > this.options.maxImageBytes) {
+        return url;
+      }
+      
+      const contentType = response.headers.get('content-type') || 'image/png';
+      const dataUrl = `data:${contentType};base64,${encodeBase64(bytes)}`;
+      
+      if (this.imageCache.size >= this.options.maxImageCacheSize) {
+        this.imageCache.delete(this.imageCache.keys().next().value as string);
+      }
+      this.imageCache.set(url, dataUrl);
+      
+      return dataUrl;
+    } catch (error: any) {
+      logger.warn(`Failed to fetch NFT image ${url}: ${error.message}`);
+      return url;
+    }
+  }
+  
+  /**
+   * NFT 전송 트랜잭션 생성 (safeTransferFrom)
+   * 
+   * @param nft 전송할 NFT
+   * @param from 보내는 계정 (NFT 보유자)
+   * @param to 받는 주소
+   * @param amount 전송 수량 (ERC-1155만 사용, 기본값 1)
+   * @returns 서명할 트랜잭션
+   */
+  public buildTransferTransaction(
+    nft: Pick<NFTAsset, 'contractAddress' | 'tokenId' | 'standard'> & { balance?: string },
+    from: string,
+    to: string,
+    amount: string = '1'
+  ): NFTTransferTransaction {
+    if (!isValidAddress(from)) {
+      throw new ValidationError(`Invalid sender address: ${from}`, 'from');
+    }
+    if (!isValidAddress(to)) {
+      throw new ValidationError(`Invalid recipient address: ${to}`, 'to');
+    }
+    if (to.toLowerCase() === nft.contractAddress.toLowerCase()) {
+      throw new ValidationError('Cannot transfer an NFT to its own contract', 'to');
+    }
+    
+    if (nft.standard === TokenStandard.ERC721) {
+      return {
+        from: getAddress(from),
+        to: getAddress(nft.contractAddress),
+        data: erc721Interface.encodeFunctionData('safeTransferFrom(address,address,uint256)', [from, to, nft.tokenId]),
+        value: '0x0'
+      };
+    }
+    
+    const quantity = BigInt(amount);
+    if (quantity <= BigInt(0)) {
+      throw new ValidationError('Transfer amount must be greater than zero', 'amount');
+    }
+    if (nft.balance !== undefined && quantity > BigInt(nft.balance)) {
+      throw new ValidationError(`Transfer amount exceeds balance (${nft.balance})`, 'amount');
+    }
+    
+    return {
+      from: getAddress(from),
+      to: getAddress(nft.contractAddress),
+      data: erc1155Interface.encodeFunctionData('safeTransferFrom', [from, to, nft.tokenId, quantity, '0x']),
+      value: '0x0'
+    };
+  }
+  
+  /**
+   * 메타데이터와 이미지 캐시 비우기
+   */
+  public clearCache(): void {
+    this.metadataCache.clear();
+    this.imageCache.clear();
+  }
+  
+  /**
+   * 현재 보유 수량 조회
+   */
+  private async getBalance(transport: NFTServiceTransport, owner: string, candidate: NFTCandidate): Promise<bigint> {
+    if (candidate.standard === TokenStandard.ERC721) {
+      const result = await this.call(transport, candidate.contractAddress, erc721Interface, 'ownerOf', [candidate.tokenId]);
+      return result && String(result[0]).toLowerCase() === owner.toLowerCase() ? BigInt(1) : BigInt(0);
+    }
+    
+    const result = await this.call(transport, candidate.contractAddress, erc1155Interface, 'balanceOf', [owner, candidate.tokenId]);
+    return result ? BigInt(result[0]) : BigInt(0);
+  }
+  
+  /**
+   * 메타데이터 URI 조회
+   * ERC-1155의 {id}는 64자리 소문자 16진수 토큰 ID로 치환합니다.
+   */
+  private async getTokenURI(
+    transport: NFTServiceTransport,
+    nft: Pick<NFTAsset, 'contractAddress' | 'tokenId' | 'standard'>
+  ): Promise<string | undefined> {
+    if (nft.standard === TokenStandard.ERC721) {
+      const result = await this.call(transport, nft.contractAddress, erc721Interface, 'tokenURI', [nft.tokenId]);
+      return result ? String(result[0]) || undefined : undefined;
+    }
+    
+    const result = await this.call(transport, nft.contractAddress, erc1155Interface, 'uri', [nft.tokenId]);
+    if (!result || !String(result[0])) {
+      return undefined;
+    }
+    
+    const hexId = BigInt(nft.tokenId).toString(16).padStart(64, '0');
+    return String(result[0]).replace(/\{id\}/gi, hexId);
+  }
+  
+  /**
+   * 메타데이터 JSON 조회
+   * data: URI(base64, URL 인코딩)와 HTTP, IPFS, Arweave URI를 지원합니다.
+   */
+  private async fetchMetadata(tokenURI: string): Promise<NFTMetadata | null> {
+    try {
+      const dataMatch = tokenURI.match(/^data:application\/json(;charset=[^;,]+)?(;base64)?,(.*)$/is);
+      if (dataMatch) {
+        const body = dataMatch[2] ? toUtf8String(decodeBase64(dataMatch[3])) : decodeURIComponent(dataMatch[3]);
+        return this.normalizeMetadata(JSON.parse(body));
+      }
+      
+      const response = await this.fetchWithTimeout(this.resolveUri(tokenURI));
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      return this.normalizeMetadata(await response.json());
+    } catch (error: any) {
+      logger.warn(`Failed to fetch NFT metadata ${tokenURI}: ${error.message}`);
+      return null;
+    }
+  }
+  
+  /**
+   * 메타데이터 형식 정리 (문자열이 아닌 필드 제거)
+   */
+  private normalizeMetadata(json: any): NFTMetadata | null {
+    if (!json || typeof json !== 'object') {
+      return null;
+    }
+    
+    const text = (value: any) => (typeof value === 'string' ? value : undefined);
+    return {
+      name: text(json.name),
+      description: text(json.description),
+      // 일부 컬렉션은 image 대신 image_url을 사용
+      image: text(json.image) || text(json.image_url),
+      animation_url: text(json.animation_url),
+      external_url: text(json.external_url),
+      attributes: Array.isArray(json.attributes)
+        ? json.attributes.filter((attribute: any) => attribute && ['string', 'number'].includes(typeof attribute.value))
+        : undefined
+    };
+  }
+  
+  /**
+   * 제한 시간이 있는 HTTP 요청
+   */
+  private async fetchWithTimeout(url: string): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.requestTimeout);
+    
+    try {
+      return await fetch(url, { signal: controller.signal });
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+  
+  /**
+   * 계약 조회 (eth_call)
+   * 계약이 실행을 거부하거나 다른 ABI로 응답하면 null을 반환하고, RPC 장애는 그대로 던집니다.
+   */
+  private async call(
+    transport: NFTServiceTransport,
+    to: string,
+    contractInterface: Interface,
+    method: string,
+    args: any[]
+  ): Promise<Result | null> {
+    let result: string;
+    try {
+      result = await transport.send('eth_call', [{ to, data: contractInterface.encodeFunctionData(method, args) }, 'latest']);
+    } catch (error: any) {
+      if (isEndpointFailure(error)) {
+        throw error;
+      }
+      return null;
+    }
+    
+    if (!result || result === '0x') {
+      return null;
+    }
+    
+    try {
+      return contractInterface.decodeFunctionResult(method, result);
+    } catch (error: any) {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,437 @@
+/**
+ * @file nonceManager.ts
+ * @description 계정별 트랜잭션 논스 관리
+ * 
+ * 체인의 논스만 읽어서는 연속으로 서명한 트랜잭션이 같은 논스를 받게 됩니다.
+ * 논스 관리자는 (체인 ID, 주소)별로 노드의 pending 트랜잭션 수와 지갑이 발급했거나 추적 중인
+ * 트랜잭션의 논스를 합쳐 다음 논스를 발급하고, 중간에 빠진 논스(gap)를 찾아 채우거나 취소합니다.
+ */
+
+import { Transaction, TransactionType } from '../types/transactions.types';
+import { IProvider } from './providers/provider.interface';
+import { TransactionMonitor, TransactionProviderResolver, TransactionSender } from './transactionMonitor';
+import { RpcQuorumError, TransactionError } from '../utils/errors';
+import { createLogger } from '../utils/logging';
+
+// 로거 생성
+const logger = createLogger('NonceManager');
+
+/**
+ * 논스 관리자 옵션
+ */
+export interface NonceManagerOptions {
+  monitor?: TransactionMonitor; // 전송한 트랜잭션 추적 서비스 (진행 중인 논스 조회 및 취소에 사용)
+  sender?: TransactionSender; // 논스 공백을 채울 트랜잭션 전송 함수
+  reservationTimeout?: number; // 전송되지 않은 발급 논스의 유효 시간 (밀리초)
+}
+
+/**
+ * 기본 발급 논스 유효 시간 (2분)
+ */
+export const DEFAULT_NONCE_RESERVATION_TIMEOUT = 2 * 60 * 1000;
+
+/**
+ * 논스 공백
+ */
+export interface NonceGap {
+  chainId: number;
+  address: string;
+  latestNonce: number; // 블록에 포함된 트랜잭션 수
+  missingNonces: number[]; // 빠진 논스 목록
+  blockedTransactions: Transaction[]; // 공백 때문에 처리되지 못하는 트랜잭션
+}
+
+// 발급한 논스
+interface NonceReservation {
+  nonce: number;
+  reservedAt: number;
+  submitted: boolean;
+}
+
+/**
+ * 논스 관리자
+ * 
+ * 사용 예:
+ * ```
+ * const nonce = await nonceManager.reserveNonce(chainId, address);
+ * try {
+ *   const hash = await send({ ...tx, nonce });
+ *   nonceManager.markNonceSubmitted(chainId, address, nonce);
+ * } catch (error) {
+ *   nonceManager.releaseNonce(chainId, address, nonce);
+ * }
+ * ```
+ */
+export class NonceManager {
+  private reservations: Map<string, NonceReservation[]> = new Map();
+  private locks: Map<string, Promise<unknown>> = new Map();
+  private monitor?: TransactionMonitor;
+  private sender?: TransactionSender;
+  private reservationTimeout: number;
+  
+  /**
+   * 논스 관리자 생성자
+   * 
+   * @param resolveProvider 체인 ID로 프로바이더를 찾는 함수
+   * @param options 옵션
+   */
+  constructor(private resolveProvider: TransactionProviderResolver, options: NonceManagerOptions = {}) {
+    this.monitor = options.monitor;
+    this.sender = options.sender;
+    this.reservationTimeout = options.reservationTimeout ?? DEFAULT_NONCE_RESERVATION_TIMEOUT;
+  }
+  
+  /**
+   * 다음 논스 발급
+   * 노드의 pending 논스 이상에서, 지갑이 이미 발급했거나 추적 중인 논스를 제외한 가장 작은 값을 발급합니다.
+   * 같은 계정의 동시 요청은 순서대로 처리되므로 서로 다른 논스를 받습니다.
+   * 
+   * @param chainId 체인 ID
+   * @param address 계정 주소
+   * @returns 발급된 논스
+   */
+  public reserveNonce(chainId: number, address: string): Promise<number> {
+    return this.withLock(chainId, address, async () => {
+      const nonce = await this.findNextNonce(chainId, address);
+      this.getReservations(chainId, address).push({ nonce, reservedAt: Date.now(), submitted: false });
+      return nonce;
+    });
+  }
+  
+  /**
+   * 다음 논스 조회 (발급하지 않음)
+   * 
+   * @param chainId 체인 ID
+   * @param address 계정 주소
+   * @returns 다음에 발급될 논스
+   */
+  public getNextNonce(chainId: number, address: string): Promise<number> {
+    return this.withLock(chainId, address, () => this.findNextNonce(chainId, address));
+  }
+  
+  /**
+   * 발급한 논스를 전송 완료로 표시
+   * 전송된 논스는 블록에 포함될 때까지 다시 발급되지 않습니다.
+   * 
+   * @param chainId 체인 ID
+   * @param address 계정 주소
+   * @param nonce 논스
+   */
+  public markNonceSubmitted(chainId: number, address: string, nonce: number): void {
+    const reservations = this.getReservations(chainId, address);
+    const reservation = reservations.find(item => item.nonce === nonce);
+    
+    if (reservation) {
+      reservation.submitted = true;
+    } else {
+      reservations.push({ nonce, reservedAt: Date.now(), submitted: true });
+    }
+  }
+  
+  /**
+   * 발급한 논스 반환
+   * 서명이나 전송에 실패한 경우 호출하면 다음 발급에서 같은 논스를 다시 사용합니다.
+   * 
+   * @param chainId 체인 ID
+   * @param address 계정 주소
+   * @param nonce 논스
+   */
+  public releaseNonce(chainId: number, address: string, nonce: number): void {
+    const key = this.getKey(chainId, address);
+    const reservations = this.reservations.get(key);
+    if (reservations) {
+      this.reservations.set(key, reservations.filter(item => item.nonce !== nonce || item.submitted));
+    }
+  }
+  
+  /**
+   * 계정의 발급 기록 초기화
+   * 
+   * @param chainId 체인 ID
+   * @param address 계정 주소
+   */
+  public reset(chainId: number, address: string): void {
+    this.reservations.delete(this.getKey(chainId, address));
+  }
+  
+  /**
+   * 논스 공백 탐지
+   * 블록에 포함된 논스와 지갑이 전송한 가장 큰 논스 사이에서 빠진 논스를 찾습니다.
+   * 빠진 논스가 채워지기 전까지 그보다 큰 논스의 트랜잭션은 처리되지 않습니다.
+   * 
+   * @param chainId 체인 ID
+   * @param address 계정 주소
+   * @returns 논스 공백 (없으면 null)
+   */
+  public async getNonceGap(chainId: number, address: string): Promise<NonceGap | null> {
+    const provider = await this.getProvider(chainId);
+    const [latestNonce, pendingNonce] = await Promise.all([
+      provider.getNonce(address),
+      this.getPendingNonce(provider, address)
+    ]);
+    
+    const inFlight = await this.getInFlightNonces(chainId, address, latestNonce);
+    if (inFlight.size === 0) {
+      return null;
+    }
+    
+    const highest = Math.max(...Array.from(inFlight));
+    const missingNonces: number[] = [];
+    
+    // 노드가 pending으로 알고 있는 논스는 공백이 아님
+    for (let nonce = Math.max(latestNonce, pendingNonce); nonce < highest; nonce++) {
+      if (!inFlight.has(nonce)) {
+        missingNonces.push(nonce);
+      }
+    }
+    
+    if (missingNonces.length === 0) {
+      return null;
+    }
+    
+    const blockedTransactions = (await this.getMonitoredTransactions(chainId, address))
+      .filter(transaction => transaction.nonce! > missingNonces[0]);
+    
+    return { chainId, address, latestNonce, missingNonces, blockedTransactions };
+  }
+  
+  /**
+   * 논스 공백 채우기
+   * 빠진 논스마다 자신에게 0 금액을 보내는 트랜잭션을 전송해, 막혀 있던 트랜잭션이 처리되도록 합니다.
+   * 
+   * @param chainId 체인 ID
+   * @param address 계정 주소
+   * @returns 전송한 트랜잭션 해시 목록
+   */
+  public async fillNonceGap(chainId: number, address: string): Promise<string[]> {
+    const gap = await this.getNonceGap(chainId, address);
+    if (!gap) {
+      return [];
+    }
+    
+    return this.sendFillers(gap);
+  }
+  
+  /**
+   * 논스 공백 취소
+   * 빠진 논스를 채우면서, 공백 뒤에 막혀 있던 트랜잭션도 같은 논스의 취소 트랜잭션으로 대체해
+   * 막혀 있던 트랜잭션이 실행되지 않도록 합니다.
+   * 
+   * @param chainId 체인 ID
+   * @param address 계정 주소
+   * @returns 전송한 트랜잭션 해시 목록 (채움 트랜잭션, 취소 트랜잭션 순)
+   */
+  public async cancelNonceGap(chainId: number, address: string): Promise<string[]> {
+    if (!this.monitor) {
+      throw new TransactionError('A transaction monitor is required to cancel blocked transactions');
+    }
+    
+    const gap = await this.getNonceGap(chainId, address);
+    if (!gap) {
+      return [];
+    }
+    
+    // 채움 트랜잭션보다 먼저 취소 트랜잭션을 보내야 막혀 있던 트랜잭션이 실행되지 않음
+    const hashes: string[] = [];
+    for (const transaction of gap.blockedTransactions) {
+      const cancelTx = await this.monitor.cancelTransaction(transaction.hash!, {});
+      hashes.push(cancelTx.hash!);
+    }
+    
+    return [...await this.sendFillers(gap), ...hashes];
+  }
+  
+  /**
+   * 빠진 논스마다 채움 트랜잭션 전송
+   * 
+   * @param gap 논스 공백
+   * @returns 전송한 트랜잭션 해시 목록
+   */
+  private async sendFillers(gap: NonceGap): Promise<string[]> {
+    if (!this.sender) {
+      throw new TransactionError('A transaction sender is required to fill nonce gaps');
+    }
+    
+    const provider = await this.getProvider(gap.chainId);
+    const gasPrice = await provider.getGasPrice();
+    const hashes: string[] = [];
+    
+    for (const nonce of gap.missingNonces) {
+      const filler: Transaction = {
+        from: gap.address,
+        to: gap.address,
+        value: '0',
+        data: '0x',
+        chainId: gap.chainId,
+        nonce,
+        gasLimit: '21000',
+        gasPrice,
+        type: TransactionType.LEGACY
+      };
+      
+      const hash = await this.sender(filler);
+      this.markNonceSubmitted(gap.chainId, gap.address, nonce);
+      hashes.push(hash);
+      
+      if (this.monitor) {
+        await this.monitor.addTransaction({ ...filler, hash });
+      }
+      
+      logger.info(`Filled nonce gap ${nonce} for ${gap.address} on chain ${gap.chainId}: ${hash}`);
+    }
+    
+    return hashes;
+  }
+  
+  /**
+   * 다음 논스 계산
+   * 
+   * @param chainId 체인 ID
+   * @param address 계정 주소
+   */
+  private async findNextNonce(chainId: number, address: string): Promise<number> {
+    const provider = await this.getProvider(chainId);
+    const [latestNonce, pendingNonce] = await Promise.all([
+      provider.getNonce(address),
+      this.getPendingNonce(provider, address)
+    ]);
+    
+    const inFlight = await this.getInFlightNonces(chainId, address, latestNonce);
+    
+    let nonce = Math.max(latestNonce, pendingNonce);
+    while (inFlight.has(nonce)) {
+      nonce++;
+    }
+    return nonce;
+  }
+  
+  /**
+   * 지갑이 발급했거나 추적 중인 아직 블록에 포함되지 않은 논스 조회
+   * 블록에 포함된 논스와 만료된 발급 기록은 정리합니다.
+   * 
+   * @param chainId 체인 ID
+   * @param address 계정 주소
+   * @param latestNonce 블록에 포함된 트랜잭션 수
+   */
+  private async getInFlightNonces(chainId: number, address: string, latestNonce: number): Promise<Set<number>> {
+    const now = Date.now();
+    const key = this.getKey(chainId, address);
+    const reservations = this.getReservations(chainId, address).filter(item =>
+      item.nonce >= latestNonce && (item.submitted || now - item.reservedAt < this.reservationTimeout)
+    );
+    this.reservations.set(key, reservations);
+    
+    const nonces = new Set(reservations.map(item => item.nonce));
+    for (const transaction of await this.getMonitoredTransactions(chainId, address)) {
+      if (transaction.nonce! >= latestNonce) {
+        nonces.add(transaction.nonce!);
+      }
+    }
+    return nonces;
+  }
+  
+  /**
+   * 추적 중인 대기 트랜잭션 조회
+   * 
+   * @param chainId 체인 ID
+   * @param address 계정 주소
+   * @returns 논스가 있는 대기 트랜잭션 목록 (논스 순)
+   */
+  private async getMonitoredTransactions(chainId: number, address: string): Promise<Transaction[]> {
+    if (!this.monitor) {
+      return [];
+    }
+    
+    const target = address.toLowerCase();
+    return (await this.monitor.getPendingTransactions())
+      .filter(transaction =>
+        transaction.chainId === chainId &&
+        transaction.from.toLowerCase() === target &&
+        typeof transaction.nonce === 'number'
+      )
+      .sort((a, b) => a.nonce! - b.nonce!);
+  }
+  
+  /**
+   * 노드의 pending 논스 조회
+   * 노드가 멤풀에서 연속으로 처리 가능한 트랜잭션까지 포함한 수입니다.
+   * 쿼럼 프로바이더의 합의 실패는 잘못된 논스로 전송하지 않도록 그대로 전달합니다.
+   * 
+   * @param provider 프로바이더
+   * @param address 계정 주소
+   */
+  private async getPendingNonce(provider: IProvider, address: string): Promise<number> {
+    try {
+      return Number(await provider.send('eth_getTransactionCount', [address, 'pending']));
+    } catch (error: any) {
+      if (error instanceof RpcQuorumError) {
+        throw error;
+      }
+      logger.warn(`Failed to get pending nonce for ${address}: ${error.message}`);
+      return 0;
+    }
+  }
+  
+  /**
+   * 프로바이더 조회
+   * 
+   * @param chainId 체인 ID
+   */
+  private async getProvider(chainId: number): Promise<IProvider> {
+    const provider = await this.resolveProvider(chainId);
+    if (!provider) {
+      throw new TransactionError(`No provider available for chainId ${chainId}`);
+    }
+    return provider;
+  }
+  
+  /**
+   * 계정의 발급 기록 조회
+   * 
+   * @param chainId 체인 ID
+   * @param address 계정 주소
+   */
+  private getReservations(chainId: number, address: string): NonceReservation[] {
+    const key = this.getKey(chainId, address);
+    let reservations = this.reservations.get(key);
+    if (!reservations) {
+      reservations = [];
+      this.reservations.set(key, reservations);
+    }
+    return reservations;
+  }
+  
+  /**
+   * 계정별 작업 순차 실행
+   * 
+   * @param chainId 체인 ID
+   * @param address 계정 주소
+   * @param task 실행할 작업
+   */
+  private withLock<T>(chainId: number, address: string, task: () => Promise<T>): Promise<T> {
+    const key = this.getKey(chainId, address);
+    const previous = this.locks.get(key) || Promise.resolve();
+    const result = previous.then(task, task);
+    
+    // 실패한 작업이 다음 작업을 막지 않도록 오류를 삼킨 체인을 보관
+    const settled = result.catch(() => undefined);
+    this.locks.set(key, settled);
+    settled.then(() => {
+      if (this.locks.get(key) === settled) {
+        this.locks.delete(key);
+      }
+    });
+    
+    return result;
+  }
+  
+  /**
+   * 계정 키 생성
+   * 
+   * @param chainId 체인 ID
+   * @param address 계정 주소
+   */
+  private getKey(chainId: number, address: string): string {
+    return `${chainId}:${address.toLowerCase()}`;
+  }
+}
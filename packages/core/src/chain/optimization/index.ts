@@ -203,6 +203,11 @@ export class OptimizationManager {
       return;
     }
     
+    // 빈 결과는 캐싱하지 않음 (예: 아직 채굴되지 않은 트랜잭션의 영수증)
+    if (result === null || result === undefined) {
+      return;
+    }
+    
     // 캐시 키 생성
     const key = RpcCache.createCacheKey(method, params, chainId);
     
@@ -53,8 +53,9 @@ export async function measureRpcResponseTime(url: string): Promise<ConnectionTes
     timestamp: startTime
   };
 
+  const provider = new JsonRpcProvider(url);
+  
   try {
-    const provider = new JsonRpcProvider(url);
     const network = await provider.getNetwork();
     const blockNumber = await provider.getBlockNumber();
     
@@ -71,6 +72,9 @@ export async function measureRpcResponseTime(url: string): Promise<ConnectionTes
     result.error = error.message;
     logger.error(`RPC response time measurement failed for ${url}: ${error.message}`);
     return result;
+  } finally {
+    // 응답하지 않는 노드에 대한 네트워크 감지 재시도 중지
+    provider.destroy();
   }
 }
 
@@ -7,7 +7,7 @@ import { JsonRpcProvider, Contract, Interface } from 'ethers';
 import { Transaction, TransactionReceipt } from '../../types/transactions.types';
 import { RpcProviderOptions } from '../../types/chain.types';
 import { BaseProvider, ProviderEventType, ProviderState, defaultProviderFactory } from './provider.interface';
-import { ERC20_ABI } from '../contracts';
+import { JsonRpcBatchRequest, MulticallAggregator, postJsonRpcBatch } from '../multicall';
 import { createLogger } from '../../utils/logging';
 
 // Catena 체인 ID
@@ -31,6 +31,7 @@ export class CatenaProvider extends BaseProvider {
   private blockPollingCleanup: (() => void) | null = null;
   private pendingTransactionsPollingCleanup: (() => void) | null = null;
   private lastBlockNumber: number = 0;
+  private multicall: MulticallAggregator | null = null;
   
   /**
    * Catena 프로바이더 생성자
@@ -39,7 +40,9 @@ export class CatenaProvider extends BaseProvider {
    * @param options 옵션
    */
   constructor(url: string, options: RpcProviderOptions = { url }) {
-    const chainId = url.includes('testnet') ? CATENA_TESTNET_CHAIN_ID : CATENA_MAINNET_CHAIN_ID;
+    // 체인 ID가 지정되지 않으면 URL로 Catena 메인넷/테스트넷 구분
+    const chainId = options.chainId
+      ?? (url.includes('testnet') ? CATENA_TESTNET_CHAIN_ID : CATENA_MAINNET_CHAIN_ID);
     super(chainId, url, options);
     
     this.blockPollingInterval = options.pollingInterval || 12000; // 12초 (Catena 블록 생성 시간 기반)
@@ -58,7 +61,7 @@ export class CatenaProvider extends BaseProvider {
       this.setState(ProviderState.CONNECTING);
       
       // JsonRpcProvider 생성
-      this.provider = new JsonRpcProvider(this.url, this.chainId);
+      this.provider = this.createJsonRpcProvider();
       
       // 초기 연결 확인
       await this.provider.getNetwork();
@@ -79,6 +82,16 @@ export class CatenaProvider extends BaseProvider {
     }
   }
   
+  /**
+   * 내부 JsonRpcProvider 생성
+   * 하위 클래스는 요청 경로를 바꾸기 위해 재정의할 수 있습니다.
+   * 
+   * @returns JsonRpcProvider
+   */
+  protected createJsonRpcProvider(): JsonRpcProvider {
+    return new JsonRpcProvider(this.url, this.chainId);
+  }
+  
   /**
    * 연결 시작
    */
@@ -134,6 +147,16 @@ export class CatenaProvider extends BaseProvider {
     }
   }
   
+  /**
+   * JSON-RPC 배치 요청 전송
+   * 
+   * @param requests 요청 목록
+   * @returns 응답 본문 (배치를 지원하지 않는 노드는 배열이 아닌 응답)
+   */
+  public async sendBatch(requests: JsonRpcBatchRequest[]): Promise<any> {
+    return postJsonRpcBatch(this.url, requests);
+  }
+  
   /**
    * 잔액 조회
    * 
@@ -162,20 +185,29 @@ export class CatenaProvider extends BaseProvider {
    * @returns 잔액 (wei 단위 문자열)
    */
   public async getTokenBalance(address: string, tokenAddress: string): Promise<string> {
-    if (!this.provider) {
-      await this.connect();
-    }
-    
     try {
-      const tokenContract = new Contract(tokenAddress, ERC20_ABI, this.provider!);
-      const balance = await tokenContract.balanceOf(address);
-      return balance.toString();
+      // 동시에 요청된 토큰 잔액 조회는 Multicall로 묶어서 전송
+      return await this.getMulticall().getTokenBalance(address, tokenAddress);
     } catch (error) {
       logger.error(`Error getting token balance for ${address} (token: ${tokenAddress}): ${error.message}`);
       throw error;
     }
   }
   
+  /**
+   * eth_call 묶음 처리기 가져오기
+   * 같은 프로바이더로 보낸 조회는 짧은 시간 창 안에서 하나의 요청으로 묶입니다.
+   * 
+   * @returns Multicall 묶음 처리기
+   */
+  public getMulticall(): MulticallAggregator {
+    if (!this.multicall) {
+      this.multicall = new MulticallAggregator(this);
+    }
+    
+    return this.multicall;
+  }
+  
   /**
    * 코드 조회
    * 
@@ -277,9 +309,8 @@ export class CatenaProvider extends BaseProvider {
     }
     
     try {
-      const blockNumber = await this.provider!.getBlockNumber();
-      this.lastBlockNumber = blockNumber;
-      return blockNumber;
+      // lastBlockNumber는 블록 폴링에서만 갱신 (여기서 갱신하면 새 블록 이벤트가 누락됨)
+      return await this.provider!.getBlockNumber();
     } catch (error) {
       logger.error(`Error getting block number: ${error.message}`);
       throw error;
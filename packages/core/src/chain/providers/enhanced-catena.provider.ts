@@ -8,6 +8,8 @@ import { Transaction, TransactionReceipt } from '../../types/transactions.types'
 import { RpcProviderOptions } from '../../types/chain.types';
 import { BaseProvider, ProviderEventType, ProviderState, defaultProviderFactory } from './provider.interface';
 import { CatenaProvider, CATENA_MAINNET_CHAIN_ID, CATENA_TESTNET_CHAIN_ID } from './catena.provider';
+import { RpcEndpointHealth, RpcEndpointPool, isEndpointFailure } from './rpc-endpoint-pool';
+import { JsonRpcBatchRequest, postJsonRpcBatch } from '../multicall';
 import { createLogger } from '../../utils/logging';
 import { getChainOptimizationConfig } from '../optimization/config';
 import { defaultOptimizationManager } from '../optimization';
@@ -26,20 +28,27 @@ export class EnhancedCatenaProvider extends CatenaProvider {
   private retryDelay: number;
   private pendingTransactions: Map<string, { timestamp: number, retryCount: number }> = new Map();
   private failedRequests: Map<string, { error: Error, timestamp: number, method: string }> = new Map();
+  protected endpointPool: RpcEndpointPool;
+  private endpointProviders: Map<string, JsonRpcProvider> = new Map();
   
   /**
    * 향상된 Catena 프로바이더 생성자
    * 
-   * @param url RPC URL
-   * @param options 옵션
+   * @param url 기본 RPC URL
+   * @param options 옵션 (endpoints: 장애 조치용 추가 RPC URL)
    */
   constructor(url: string, options: RpcProviderOptions = { url }) {
     super(url, options);
     
     // 최적화 설정 로드
-    const chainId = url.includes('testnet') ? CATENA_TESTNET_CHAIN_ID : CATENA_MAINNET_CHAIN_ID;
+    const chainId = this.chainId;
     const optimizationConfig = getChainOptimizationConfig(chainId);
     
+    // Catena 외 체인은 RPC 캐시가 미리 만들어져 있지 않으므로 설정에 따라 생성
+    if (optimizationConfig.cacheEnabled && !defaultOptimizationManager.getRpcCache(chainId)) {
+      defaultOptimizationManager.setRpcCache(chainId, { enabled: true });
+    }
+    
     // 최적화 설정 적용
     this.requestTimeout = options.timeout || optimizationConfig.requestTimeout;
     this.maxRetries = optimizationConfig.maxRetries;
@@ -47,9 +56,43 @@ export class EnhancedCatenaProvider extends CatenaProvider {
     this.blockPollingInterval = optimizationConfig.blockPollingInterval;
     this.pendingTransactionsPollingInterval = optimizationConfig.transactionPollingInterval;
     
+    // 기본 URL과 추가 URL로 엔드포인트 풀 구성
+    this.endpointPool = new RpcEndpointPool(chainId, [url, ...(options.endpoints || [])]);
+    this.endpointPool.subscribe((health) => {
+      this.emit(ProviderEventType.ENDPOINT_HEALTH, {
+        chainId,
+        activeEndpoint: this.endpointPool.getActiveEndpoint(),
+        endpoints: health
+      });
+    });
+    
     logger.info(`Enhanced Catena provider initialized for chainId ${chainId}`);
   }
   
+  /**
+   * 내부 JsonRpcProvider 생성
+   * 블록, 영수증, 가스 견적 등 ethers 고수준 메서드의 요청도 엔드포인트 장애 조치를 거치도록 합니다.
+   * 
+   * @returns JsonRpcProvider
+   */
+  protected createJsonRpcProvider(): JsonRpcProvider {
+    const provider = new JsonRpcProvider(this.url, this.chainId, { staticNetwork: true });
+    provider.send = (method: string, params: any[]) => this.executeWithRetry(method, params);
+    return provider;
+  }
+  
+  /**
+   * 연결 시작
+   * 엔드포인트가 여러 개이면 주기적인 상태 확인도 시작합니다.
+   */
+  public async connect(): Promise<void> {
+    await super.connect();
+    
+    if (this.endpointPool.getEndpoints().length > 1) {
+      this.endpointPool.start();
+    }
+  }
+  
   /**
    * RPC 메서드 호출 (캐싱 및 재시도 지원)
    * 
@@ -101,55 +144,110 @@ export class EnhancedCatenaProvider extends CatenaProvider {
   }
   
   /**
-   * 재시도 로직이 포함된 RPC 요청 실행
+   * JSON-RPC 배치 요청 전송 (엔드포인트 장애 조치 지원)
+   * 상태 점수가 높은 엔드포인트부터 요청합니다. 모든 엔드포인트가 실패해도 재시도하지 않으며,
+   * 호출 측이 개별 요청으로 대체하면 그 요청은 다시 재시도를 거칩니다.
+   * 
+   * @param requests 요청 목록
+   * @returns 응답 본문
+   */
+  public async sendBatch(requests: JsonRpcBatchRequest[]): Promise<any> {
+    let lastError: any = null;
+    
+    for (const endpoint of this.endpointPool.getRankedEndpoints()) {
+      const startTime = Date.now();
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      
+      try {
+        const timeout = new Promise<never>((_, reject) => {
+          timeoutId = setTimeout(() => {
+            reject(new Error(`Batch request timed out after ${this.requestTimeout}ms`));
+          }, this.requestTimeout);
+        });
+        
+        const response = await Promise.race([postJsonRpcBatch(endpoint, requests), timeout]);
+        this.endpointPool.recordSuccess(endpoint, Date.now() - startTime);
+        return response;
+      } catch (error: any) {
+        lastError = error;
+        this.endpointPool.recordFailure(endpoint, error, Date.now() - startTime);
+        logger.warn(`Batch request failed on ${endpoint}: ${error.message}`);
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }
+    
+    throw lastError || new Error('Batch request failed for unknown reason');
+  }
+  
+  /**
+   * 재시도 및 엔드포인트 장애 조치가 포함된 RPC 요청 실행
+   * 각 시도마다 상태 점수가 높은 엔드포인트부터 요청하고, 엔드포인트 장애(연결 실패, 타임아웃,
+   * 요청 한도 초과 등)이면 다음 엔드포인트로 넘깁니다. 모든 엔드포인트가 실패하면 대기 후 재시도합니다.
    * 
    * @param method 메서드 이름
    * @param params 파라미터
    * @returns 결과
    */
-  private async executeWithRetry(method: string, params: any[]): Promise<any> {
-    let lastError: Error | null = null;
+  protected async executeWithRetry(method: string, params: any[]): Promise<any> {
+    let lastError: any = null;
     
     // 최대 재시도 횟수만큼 시도
     for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
-      try {
-        // 타임아웃 적용된 요청
-        const result = await this.executeWithTimeout(method, params);
-        
-        // 첫 시도가 아닌 경우 성공 로그
-        if (attempt > 0) {
-          logger.info(`Request ${method} succeeded after ${attempt} retries`);
-        }
-        
-        return result;
-      } catch (error) {
-        lastError = error;
+      const endpoints = this.endpointPool.getRankedEndpoints();
+      
+      for (const endpoint of endpoints) {
+        const startTime = Date.now();
         
-        // 마지막 시도인 경우 실패
-        if (attempt === this.maxRetries) {
-          logger.error(`Request ${method} failed after ${attempt} retries: ${error.message}`);
-          throw error;
+        try {
+          // 타임아웃 적용된 요청
+          const result = await this.executeWithTimeout(endpoint, method, params);
+          const blockNumber = method === 'eth_blockNumber' ? Number(result) : undefined;
+          this.endpointPool.recordSuccess(endpoint, Date.now() - startTime, blockNumber);
+          
+          // 첫 시도가 아닌 경우 성공 로그
+          if (attempt > 0 || endpoint !== endpoints[0]) {
+            logger.info(`Request ${method} succeeded on ${endpoint} after ${attempt} retries`);
+          }
+          
+          return result;
+        } catch (error: any) {
+          // 노드가 처리한 오류(revert 등)는 다른 엔드포인트에서도 같으므로 그대로 전달
+          if (!isEndpointFailure(error)) {
+            this.endpointPool.recordSuccess(endpoint, Date.now() - startTime);
+            throw error;
+          }
+          
+          lastError = error;
+          this.endpointPool.recordFailure(endpoint, error, Date.now() - startTime);
+          logger.warn(`Request ${method} failed on ${endpoint}: ${error.message}`);
         }
-        
-        // 재시도 대기
-        const delay = this.retryDelay * Math.pow(1.5, attempt);
-        logger.warn(`Request ${method} failed (attempt ${attempt + 1}/${this.maxRetries + 1}), retrying in ${delay}ms: ${error.message}`);
-        await new Promise(resolve => setTimeout(resolve, delay));
       }
+      
+      // 마지막 시도인 경우 실패
+      if (attempt === this.maxRetries) {
+        break;
+      }
+      
+      // 재시도 대기
+      const delay = this.retryDelay * Math.pow(1.5, attempt);
+      logger.warn(`Request ${method} failed on all endpoints (attempt ${attempt + 1}/${this.maxRetries + 1}), retrying in ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
     }
     
-    // 이 코드는 실행되지 않아야 함 (위에서 예외 발생)
+    logger.error(`Request ${method} failed after ${this.maxRetries} retries: ${lastError?.message}`);
     throw lastError || new Error(`Request ${method} failed for unknown reason`);
   }
   
   /**
    * 타임아웃 적용된 RPC 요청 실행
    * 
+   * @param endpoint 요청할 엔드포인트 URL
    * @param method 메서드 이름
    * @param params 파라미터
    * @returns 결과
    */
-  private async executeWithTimeout(method: string, params: any[]): Promise<any> {
+  protected async executeWithTimeout(endpoint: string, method: string, params: any[]): Promise<any> {
     return new Promise<any>(async (resolve, reject) => {
       // 타임아웃 설정
       const timeoutId = setTimeout(() => {
@@ -158,7 +256,7 @@ export class EnhancedCatenaProvider extends CatenaProvider {
       
       try {
         // 요청 실행
-        const result = await super.send(method, params);
+        const result = await this.getEndpointProvider(endpoint).send(method, params);
         clearTimeout(timeoutId);
         resolve(result);
       } catch (error) {
@@ -168,6 +266,73 @@ export class EnhancedCatenaProvider extends CatenaProvider {
     });
   }
   
+  /**
+   * 엔드포인트별 JSON-RPC 프로바이더 조회 또는 생성
+   * 
+   * @param endpoint 엔드포인트 URL
+   * @returns JSON-RPC 프로바이더
+   */
+  private getEndpointProvider(endpoint: string): JsonRpcProvider {
+    let provider = this.endpointProviders.get(endpoint);
+    
+    if (!provider) {
+      // 체인 ID를 고정해 응답하지 않는 노드에 네트워크 감지를 반복하지 않도록 함
+      provider = new JsonRpcProvider(endpoint, this.chainId, { staticNetwork: true });
+      this.endpointProviders.set(endpoint, provider);
+    }
+    
+    return provider;
+  }
+  
+  /**
+   * 엔드포인트 상태 조회
+   * 
+   * @returns 엔드포인트별 응답 시간, 오류율, 블록 높이, 점수
+   */
+  public getEndpointHealth(): RpcEndpointHealth[] {
+    return this.endpointPool.getHealth();
+  }
+  
+  /**
+   * 현재 요청을 보내는 엔드포인트
+   */
+  public getActiveEndpoint(): string {
+    return this.endpointPool.getActiveEndpoint() || this.url;
+  }
+  
+  /**
+   * 전체 엔드포인트 상태 즉시 확인
+   * 
+   * @returns 확인 후 엔드포인트 상태
+   */
+  public async checkEndpointHealth(): Promise<RpcEndpointHealth[]> {
+    return this.endpointPool.checkHealth();
+  }
+  
+  /**
+   * 장애 조치용 엔드포인트 추가
+   * 
+   * @param endpoint 엔드포인트 URL
+   */
+  public addEndpoint(endpoint: string): void {
+    this.endpointPool.addEndpoint(endpoint);
+    
+    if (this.isConnected && this.endpointPool.getEndpoints().length > 1) {
+      this.endpointPool.start();
+    }
+  }
+  
+  /**
+   * 엔드포인트 제거
+   * 
+   * @param endpoint 엔드포인트 URL
+   */
+  public removeEndpoint(endpoint: string): void {
+    this.endpointPool.removeEndpoint(endpoint);
+    this.endpointProviders.get(endpoint)?.destroy();
+    this.endpointProviders.delete(endpoint);
+  }
+  
   /**
    * 대기 중인 요청 가져오기 (이미 진행 중인 동일 요청 재사용)
    * 
@@ -311,6 +476,8 @@ export class EnhancedCatenaProvider extends CatenaProvider {
       failedRequests: this.failedRequests.size,
       isConnected: this.isConnected,
       lastBlockNumber: this.lastBlockNumber,
+      activeEndpoint: this.getActiveEndpoint(),
+      endpoints: this.getEndpointHealth(),
       cacheInfo: defaultOptimizationManager.getRpcCache(this.chainId)?.getStats()
     };
   }
@@ -344,6 +511,11 @@ export class EnhancedCatenaProvider extends CatenaProvider {
     await super.disconnect();
     
     // 리소스 정리
+    this.endpointPool.stop();
+    for (const provider of this.endpointProviders.values()) {
+      provider.destroy();
+    }
+    this.endpointProviders.clear();
     this.pendingRequests.clear();
     this.pendingTransactions.clear();
     this.requestCache.clear();
@@ -16,7 +16,8 @@ export enum ProviderEventType {
   NETWORK_CHANGED = 'networkChanged',
   BLOCK = 'block',
   TRANSACTION = 'transaction',
-  PENDING = 'pending'
+  PENDING = 'pending',
+  ENDPOINT_HEALTH = 'endpointHealth'
 }
 
 /**
@@ -261,6 +262,16 @@ export abstract class BaseProvider implements IProvider {
     this.eventHandlers[event] = this.eventHandlers[event].filter(l => l !== listener);
   }
   
+  /**
+   * 이벤트 리스너 제거 (off의 별칭)
+   * 
+   * @param event 이벤트 타입
+   * @param listener 리스너 함수
+   */
+  public removeListener(event: string, listener: (...args: any[]) => void): void {
+    this.off(event, listener);
+  }
+  
   /**
    * 모든 이벤트 리스너 제거
    * 
@@ -427,6 +438,8 @@ export class ProviderFactory implements IProviderFactory {
   protected providers: Map<number, IProvider> = new Map();
   protected providerConstructors: Map<number, new (url: string, options?: RpcProviderOptions) => IProvider> = new Map();
   protected defaultUrls: Map<number, string> = new Map();
+  protected quorumProviders: Map<number, IProvider> = new Map();
+  protected quorumProviderConstructor: (new (url: string, options?: RpcProviderOptions) => IProvider) | null = null;
   
   /**
    * 프로바이더 등록
@@ -444,14 +457,30 @@ export class ProviderFactory implements IProviderFactory {
     this.defaultUrls.set(chainId, defaultUrl);
   }
   
+  /**
+   * 응답 합의(쿼럼) 프로바이더 등록
+   * 
+   * @param providerConstructor 쿼럼 프로바이더 생성자
+   */
+  public registerQuorumProvider(
+    providerConstructor: new (url: string, options?: RpcProviderOptions) => IProvider
+  ): void {
+    this.quorumProviderConstructor = providerConstructor;
+  }
+  
   /**
    * 프로바이더 생성
+   * options.quorum이 지정되면 일반 프로바이더와 별도로 쿼럼 프로바이더를 생성합니다.
    * 
    * @param chainId 체인 ID
    * @param options 옵션
    * @returns 프로바이더 인스턴스
    */
   public createProvider(chainId: number, options?: RpcProviderOptions): IProvider {
+    if (options?.quorum) {
+      return this.createQuorumProvider(chainId, options);
+    }
+    
     const existingProvider = this.providers.get(chainId);
     if (existingProvider) {
       return existingProvider;
@@ -473,6 +502,34 @@ export class ProviderFactory implements IProviderFactory {
     return provider;
   }
   
+  /**
+   * 쿼럼 프로바이더 생성
+   * 
+   * @param chainId 체인 ID
+   * @param options 옵션 (url, endpoints, quorum)
+   * @returns 쿼럼 프로바이더 인스턴스
+   */
+  protected createQuorumProvider(chainId: number, options: RpcProviderOptions): IProvider {
+    const existingProvider = this.quorumProviders.get(chainId);
+    if (existingProvider) {
+      return existingProvider;
+    }
+    
+    if (!this.quorumProviderConstructor) {
+      throw new Error('No quorum provider constructor registered');
+    }
+    
+    const url = options.url || this.defaultUrls.get(chainId);
+    if (!url) {
+      throw new Error(`No URL provided or default URL registered for chainId ${chainId}`);
+    }
+    
+    const provider = new this.quorumProviderConstructor(url, { ...options, url, chainId });
+    this.quorumProviders.set(chainId, provider);
+    
+    return provider;
+  }
+  
   /**
    * 프로바이더 존재 여부 확인
    * 
@@ -509,13 +566,19 @@ export class ProviderFactory implements IProviderFactory {
    * @returns 제거 성공 여부
    */
   public removeProvider(chainId: number): boolean {
+    const quorumProvider = this.quorumProviders.get(chainId);
+    if (quorumProvider) {
+      quorumProvider.disconnect().catch(console.error);
+      this.quorumProviders.delete(chainId);
+    }
+    
     const provider = this.providers.get(chainId);
     if (provider) {
       provider.disconnect().catch(console.error);
       this.providers.delete(chainId);
       return true;
     }
-    return false;
+    return !!quorumProvider;
   }
 }
 
@@ -0,0 +1,315 @@
+/**
+ * @file quorum.provider.ts
+ * @description 여러 RPC 엔드포인트의 응답을 교차 확인하는 쿼럼 프로바이더
+ * 
+ * 전송 전에 확인하는 논스, 계약 코드, 체인 ID, 계약 호출 결과를 RPC 하나만 믿으면
+ * 악의적이거나 동기화가 밀린 노드가 잘못된 값을 돌려줘도 알 수 없습니다.
+ * 쿼럼 프로바이더는 지정한 메서드를 여러 엔드포인트에 같은 블록 기준으로 보내고,
+ * 정해진 수 이상의 응답이 일치할 때만 결과를 반환합니다. 그 외 메서드는 EnhancedCatenaProvider와 같이 처리합니다.
+ */
+
+import { RpcProviderOptions, RpcQuorumOptions } from '../../types/chain.types';
+import { defaultProviderFactory } from './provider.interface';
+import { EnhancedCatenaProvider } from './enhanced-catena.provider';
+import { isEndpointFailure } from './rpc-endpoint-pool';
+import { RpcQuorumError, ValidationError } from '../../utils/errors';
+import { createLogger } from '../../utils/logging';
+
+// 로거 생성
+const logger = createLogger('QuorumProvider');
+
+/**
+ * 기본 쿼럼 메서드
+ */
+export const DEFAULT_QUORUM_METHODS = [
+  'eth_chainId',
+  'eth_getTransactionCount',
+  'eth_getCode',
+  'eth_call'
+];
+
+/**
+ * 기본 쿼럼 옵션
+ */
+export const DEFAULT_RPC_QUORUM_OPTIONS: RpcQuorumOptions = {
+  methods: DEFAULT_QUORUM_METHODS,
+  endpointCount: 3,
+  quorum: 2,
+  maxBlockLag: 5
+};
+
+/**
+ * 메서드별 블록 태그 파라미터 위치
+ */
+const BLOCK_TAG_PARAM_INDEX: Record<string, number> = {
+  eth_getBalance: 1,
+  eth_getTransactionCount: 1,
+  eth_getCode: 1,
+  eth_call: 1,
+  eth_getStorageAt: 2
+};
+
+/**
+ * 엔드포인트별 응답
+ */
+interface QuorumResponse {
+  endpoint: string;
+  result?: any;
+  error?: any;
+  failed: boolean; // 엔드포인트 장애로 응답하지 못함
+}
+
+/**
+ * 쿼럼 프로바이더 클래스
+ */
+export class QuorumProvider extends EnhancedCatenaProvider {
+  private quorumOptions: RpcQuorumOptions;
+  
+  /**
+   * 쿼럼 프로바이더 생성자
+   * 
+   * @param url 기본 RPC URL
+   * @param options 옵션 (endpoints: 교차 확인할 추가 RPC URL, quorum: 쿼럼 옵션)
+   */
+  constructor(url: string, options: RpcProviderOptions = { url }) {
+    super(url, options);
+    
+    this.quorumOptions = { ...DEFAULT_RPC_QUORUM_OPTIONS, ...options.quorum };
+    
+    const endpointCount = this.endpointPool.getEndpoints().length;
+    if (this.quorumOptions.quorum < 1 || this.quorumOptions.quorum > Math.min(this.quorumOptions.endpointCount, endpointCount)) {
+      throw new ValidationError(
+        `Quorum ${this.quorumOptions.quorum} cannot be reached with ${Math.min(this.quorumOptions.endpointCount, endpointCount)} endpoints`,
+        'quorum'
+      );
+    }
+  }
+  
+  /**
+   * 쿼럼 옵션 조회
+   */
+  public getQuorumOptions(): RpcQuorumOptions {
+    return { ...this.quorumOptions };
+  }
+  
+  /**
+   * RPC 메서드 호출
+   * 쿼럼 메서드는 다른 프로바이더가 채운 캐시를 쓰지 않고 항상 교차 확인합니다.
+   * 
+   * @param method 메서드 이름
+   * @param params 파라미터
+   * @returns 결과
+   */
+  public async send(method: string, params: any[]): Promise<any> {
+    if (this.isQuorumMethod(method)) {
+      return this.sendWithQuorum(method, params);
+    }
+    
+    return super.send(method, params);
+  }
+  
+  /**
+   * 요청 실행 (ethers 고수준 메서드 경로 포함)
+   * 
+   * @param method 메서드 이름
+   * @param params 파라미터
+   * @returns 결과
+   */
+  protected async executeWithRetry(method: string, params: any[]): Promise<any> {
+    if (this.isQuorumMethod(method)) {
+      return this.sendWithQuorum(method, params);
+    }
+    
+    return super.executeWithRetry(method, params);
+  }
+  
+  /**
+   * 쿼럼 메서드 여부
+   * 
+   * @param method 메서드 이름
+   */
+  public isQuorumMethod(method: string): boolean {
+    return this.quorumOptions.methods.includes(method);
+  }
+  
+  /**
+   * 여러 엔드포인트에 요청을 보내고 응답 합의 확인
+   * 
+   * @param method 메서드 이름
+   * @param params 파라미터
+   * @returns 합의된 결과
+   */
+  private async sendWithQuorum(method: string, params: any[]): Promise<any> {
+    const { quorum, endpointCount } = this.quorumOptions;
+    let endpoints = this.endpointPool.getRankedEndpoints().slice(0, endpointCount);
+    let requestParams = params;
+    
+    // 'latest' 기준 조회는 엔드포인트마다 블록 높이가 달라 결과가 다를 수 있으므로 같은 블록으로 고정
+    const blockTagIndex = BLOCK_TAG_PARAM_INDEX[method];
+    if (blockTagIndex !== undefined && (params[blockTagIndex] === undefined || params[blockTagIndex] === 'latest')) {
+      const pinned = await this.pinBlock(endpoints);
+      endpoints = pinned.endpoints;
+      requestParams = [...params];
+      requestParams[blockTagIndex] = `0x${pinned.blockNumber.toString(16)}`;
+    }
+    
+    const responses = await Promise.all(endpoints.map(endpoint => this.queryEndpoint(endpoint, method, requestParams)));
+    
+    // pending 논스는 노드마다 멤풀이 달라 정상적으로도 값이 다르므로 일치 대신 쿼럼 기준 최댓값 사용
+    if (method === 'eth_getTransactionCount' && params[blockTagIndex] === 'pending') {
+      return this.resolvePendingCount(method, responses);
+    }
+    
+    // 같은 응답끼리 묶어 가장 많은 응답 찾기
+    const groups = new Map<string, QuorumResponse[]>();
+    for (const response of responses.filter(response => !response.failed)) {
+      const key = this.getResponseKey(response);
+      groups.set(key, [...(groups.get(key) || []), response]);
+    }
+    
+    const agreed = Array.from(groups.values()).sort((a, b) => b.length - a.length)[0] || [];
+    
+    if (agreed.length < quorum) {
+      const reason = groups.size > 1 ? 'disagree' : 'not enough responses';
+      logger.error(`Quorum not reached for ${method} on chainId ${this.chainId} (${agreed.length}/${quorum}, ${reason})`);
+      throw new RpcQuorumError(
+        `RPC endpoints ${reason} on ${method}: ${agreed.length} of ${quorum} required responses matched`,
+        method,
+        this.toErrorResponses(responses)
+      );
+    }
+    
+    // 합의와 다른 응답을 보낸 엔드포인트는 신뢰도를 낮춤
+    for (const response of responses) {
+      if (!response.failed && !agreed.includes(response)) {
+        logger.warn(`RPC endpoint ${response.endpoint} disagreed with quorum on ${method}`);
+        this.endpointPool.recordFailure(response.endpoint, new Error(`Disagreed with quorum on ${method}`));
+      }
+    }
+    
+    // 노드가 처리한 오류(revert 등)에 합의했으면 그 오류를 그대로 전달
+    if (agreed[0].error) {
+      throw agreed[0].error;
+    }
+    
+    return agreed[0].result;
+  }
+  
+  /**
+   * pending 논스 합의
+   * 응답을 내림차순으로 정렬해 quorum번째 값을 반환합니다.
+   * quorum개 이상의 엔드포인트가 그 이상이라고 응답한 가장 큰 값이므로,
+   * 엔드포인트 하나가 논스를 부풀려도 결과가 따라 올라가지 않습니다.
+   * 
+   * @param method 메서드 이름
+   * @param responses 엔드포인트별 응답
+   * @returns 합의된 pending 논스
+   */
+  private resolvePendingCount(method: string, responses: QuorumResponse[]): string {
+    const { quorum } = this.quorumOptions;
+    const counts = responses
+      .filter(response => !response.failed && !response.error)
+      .map(response => BigInt(response.result))
+      .sort((a, b) => (a > b ? -1 : a < b ? 1 : 0));
+    
+    if (counts.length < quorum) {
+      logger.error(`Quorum not reached for pending ${method} on chainId ${this.chainId} (${counts.length}/${quorum})`);
+      throw new RpcQuorumError(
+        `RPC endpoints not enough responses on pending ${method}: ${counts.length} of ${quorum} required responses received`,
+        method,
+        this.toErrorResponses(responses)
+      );
+    }
+    
+    return `0x${counts[quorum - 1].toString(16)}`;
+  }
+  
+  /**
+   * 조회할 블록 고정
+   * 가장 앞선 엔드포인트보다 maxBlockLag를 넘게 뒤처진 엔드포인트는 합의에서 제외하고,
+   * 나머지 엔드포인트가 모두 가진 가장 낮은 블록을 기준으로 삼습니다.
+   * 
+   * @param endpoints 조회할 엔드포인트 목록
+   * @returns 합의에 참여할 엔드포인트와 기준 블록 번호
+   */
+  private async pinBlock(endpoints: string[]): Promise<{ endpoints: string[]; blockNumber: number }> {
+    const responses = await Promise.all(endpoints.map(endpoint => this.queryEndpoint(endpoint, 'eth_blockNumber', [])));
+    const heights = responses
+      .filter(response => !response.failed && !response.error)
+      .map(response => ({ endpoint: response.endpoint, blockNumber: Number(response.result) }));
+    
+    const highestBlock = Math.max(0, ...heights.map(height => height.blockNumber));
+    const synced = heights.filter(height => highestBlock - height.blockNumber <= this.quorumOptions.maxBlockLag);
+    
+    if (synced.length < this.quorumOptions.quorum) {
+      throw new RpcQuorumError(
+        `Not enough synced RPC endpoints: ${synced.length} of ${this.quorumOptions.quorum} required`,
+        'eth_blockNumber',
+        this.toErrorResponses(responses)
+      );
+    }
+    
+    return {
+      endpoints: synced.map(height => height.endpoint),
+      blockNumber: Math.min(...synced.map(height => height.blockNumber))
+    };
+  }
+  
+  /**
+   * 엔드포인트 하나에 요청 (엔드포인트 상태 기록 포함)
+   * 
+   * @param endpoint 엔드포인트 URL
+   * @param method 메서드 이름
+   * @param params 파라미터
+   * @returns 응답
+   */
+  private async queryEndpoint(endpoint: string, method: string, params: any[]): Promise<QuorumResponse> {
+    const startTime = Date.now();
+    
+    try {
+      const result = await this.executeWithTimeout(endpoint, method, params);
+      const blockNumber = method === 'eth_blockNumber' ? Number(result) : undefined;
+      this.endpointPool.recordSuccess(endpoint, Date.now() - startTime, blockNumber);
+      return { endpoint, result, failed: false };
+    } catch (error: any) {
+      if (isEndpointFailure(error)) {
+        this.endpointPool.recordFailure(endpoint, error, Date.now() - startTime);
+        return { endpoint, error, failed: true };
+      }
+      
+      // 노드가 처리한 오류도 합의 대상 응답으로 취급
+      this.endpointPool.recordSuccess(endpoint, Date.now() - startTime);
+      return { endpoint, error, failed: false };
+    }
+  }
+  
+  /**
+   * 응답 비교 키
+   */
+  private getResponseKey(response: QuorumResponse): string {
+    if (response.error) {
+      const rpcError = response.error.info?.error || response.error.error;
+      return `error:${rpcError?.code ?? response.error.code}:${rpcError?.data ?? response.error.data ?? ''}`;
+    }
+    
+    return typeof response.result === 'string'
+      ? `result:${response.result.toLowerCase()}`
+      : `result:${JSON.stringify(response.result)}`;
+  }
+  
+  /**
+   * 오류에 담을 엔드포인트별 응답
+   */
+  private toErrorResponses(responses: QuorumResponse[]): Array<{ endpoint: string; result?: any; error?: string }> {
+    return responses.map(response => (
+      response.error
+        ? { endpoint: response.endpoint, error: response.error.message || String(response.error) }
+        : { endpoint: response.endpoint, result: response.result }
+    ));
+  }
+}
+
+// 쿼럼 프로바이더 등록 (createProvider에 quorum 옵션을 지정하면 사용)
+defaultProviderFactory.registerQuorumProvider(QuorumProvider);
+
+export default QuorumProvider;
@@ -0,0 +1,489 @@
+/**
+ * @file rpc-endpoint-pool.ts
+ * @description 체인별 RPC 엔드포인트 풀과 상태 점수
+ * 
+ * 한 체인에 등록된 여러 RPC 엔드포인트의 응답 시간, 오류율, 블록 높이를 추적해 점수를 매기고,
+ * 요청을 가장 상태가 좋은 엔드포인트부터 보내도록 순서를 정합니다.
+ * 연속으로 실패한 엔드포인트는 일정 시간 동안 후순위로 밀려나고, 다른 엔드포인트보다 블록 높이가
+ * 크게 뒤처진 엔드포인트는 동기화가 밀린 것으로 보고 점수를 낮춥니다.
+ */
+
+import { ConnectionTestResult, measureRpcResponseTime } from '../optimization/performance';
+import { createLogger } from '../../utils/logging';
+
+// 로거 생성
+const logger = createLogger('RpcEndpointPool');
+
+/**
+ * 엔드포인트 상태
+ */
+export enum RpcEndpointStatus {
+  HEALTHY = 'healthy', // 정상
+  DEGRADED = 'degraded', // 느리거나 오류가 잦거나 블록 높이가 뒤처짐
+  UNHEALTHY = 'unhealthy' // 연속 실패로 일시 제외
+}
+
+/**
+ * 엔드포인트 상태 정보
+ */
+export interface RpcEndpointHealth {
+  url: string;
+  status: RpcEndpointStatus;
+  score: number; // 우선순위 점수 (0~1, 높을수록 우선)
+  latency: number; // 평균 응답 시간 (지수 이동 평균, 밀리초)
+  errorRate: number; // 오류율 (지수 이동 평균, 0~1)
+  blockNumber: number; // 마지막으로 확인한 블록 높이
+  blockLag: number; // 가장 앞선 엔드포인트보다 뒤처진 블록 수
+  consecutiveFailures: number; // 연속 실패 횟수
+  totalRequests: number; // 전체 요청 수
+  failedRequests: number; // 실패한 요청 수
+  lastError?: string; // 마지막 오류 메시지
+  lastCheckedAt: number; // 마지막 요청 또는 상태 확인 시각
+  unavailableUntil: number; // 일시 제외가 끝나는 시각 (0이면 제외되지 않음)
+}
+
+/**
+ * 엔드포인트 상태 변경 리스너
+ */
+export type RpcEndpointHealthListener = (health: RpcEndpointHealth[]) => void;
+
+/**
+ * 엔드포인트 풀 옵션
+ */
+export interface RpcEndpointPoolOptions {
+  smoothingFactor: number; // 응답 시간/오류율 지수 이동 평균 계수 (0~1)
+  latencyThreshold: number; // 느린 엔드포인트로 보는 응답 시간 (밀리초)
+  errorRateThreshold: number; // 불안정한 엔드포인트로 보는 오류율 (0~1)
+  maxBlockLag: number; // 허용하는 최대 블록 높이 차이
+  maxConsecutiveFailures: number; // 일시 제외하기까지의 연속 실패 횟수
+  failureCooldown: number; // 일시 제외 시간 (밀리초)
+  healthCheckInterval: number; // 전체 엔드포인트 상태 확인 주기 (밀리초, 0이면 비활성화)
+  healthCheck?: (url: string) => Promise<ConnectionTestResult>; // 상태 확인 함수 (기본값: measureRpcResponseTime)
+}
+
+/**
+ * 기본 엔드포인트 풀 옵션
+ */
+export const DEFAULT_RPC_ENDPOINT_POOL_OPTIONS: RpcEndpointPoolOptions = {
+  smoothingFactor: 0.3,
+  latencyThreshold: 2000,
+  errorRateThreshold: 0.25,
+  maxBlockLag: 5,
+  maxConsecutiveFailures: 2,
+  failureCooldown: 30000,
+  healthCheckInterval: 60000
+};
+
+/**
+ * 엔드포인트 문제로 보고 다른 엔드포인트로 넘길 JSON-RPC 오류 코드
+ * (-32005: 요청 한도 초과, -32603: 노드 내부 오류)
+ */
+const ENDPOINT_RPC_ERROR_CODES = [-32005, -32603];
+
+/**
+ * 노드가 정상적으로 처리한 결과인 ethers 오류 코드 (revert, 잔액 부족, 논스 오류 등)
+ */
+const NODE_RESULT_ERROR_CODES = [
+  'CALL_EXCEPTION',
+  'INSUFFICIENT_FUNDS',
+  'NONCE_EXPIRED',
+  'REPLACEMENT_UNDERPRICED',
+  'TRANSACTION_REPLACED',
+  'INVALID_ARGUMENT'
+];
+
+/**
+ * 엔드포인트 장애로 인한 오류인지 확인
+ * 연결 실패, 타임아웃, 요청 한도 초과 등은 다른 엔드포인트로 넘겨 다시 시도할 수 있지만,
+ * revert나 잘못된 파라미터처럼 노드가 처리한 오류는 어느 엔드포인트에서도 같은 결과가 나옵니다.
+ * 
+ * @param error 요청 오류
+ * @returns 엔드포인트 장애 여부
+ */
+export function isEndpointFailure(error: any): boolean {
+  if (NODE_RESULT_ERROR_CODES.includes(error?.code)) {
+    return false;
+  }
+  
+  const rpcError = error?.info?.error || error?.error;
+  if (rpcError && typeof rpcError.code === 'number') {
+    return ENDPOINT_RPC_ERROR_CODES.includes(rpcError.code);
+  }
+  
+  return true;
+}
+
+/**
+ * RPC 엔드포인트 풀
+ * 
+ * 사용 예:
+ * ```
+ * for (const url of pool.getRankedEndpoints()) {
+ *   const startTime = Date.now();
+ *   try {
+ *     const result = await request(url);
+ *     pool.recordSuccess(url, Date.now() - startTime);
+ *     return result;
+ *   } catch (error) {
+ *     pool.recordFailure(url, error, Date.now() - startTime);
+ *   }
+ * }
+ * ```
+ */
+export class RpcEndpointPool {
+  private endpoints: Map<string, RpcEndpointHealth> = new Map();
+  private listeners: Set<RpcEndpointHealthListener> = new Set();
+  private options: RpcEndpointPoolOptions;
+  private healthCheckTimer: ReturnType<typeof setInterval> | null = null;
+  private healthCheckPromise: Promise<RpcEndpointHealth[]> | null = null;
+  private lastSnapshot: string = '';
+  
+  /**
+   * 엔드포인트 풀 생성자
+   * 
+   * @param chainId 체인 ID
+   * @param urls 엔드포인트 URL 목록 (앞쪽일수록 점수가 같을 때 우선)
+   * @param options 옵션
+   */
+  constructor(
+    public readonly chainId: number,
+    urls: string[],
+    options: Partial<RpcEndpointPoolOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_RPC_ENDPOINT_POOL_OPTIONS, ...options };
+    
+    for (const url of urls) {
+      this.addEndpoint(url);
+    }
+    
+    this.lastSnapshot = this.createSnapshot();
+  }
+  
+  /**
+   * 엔드포인트 추가
+   * 
+   * @param url 엔드포인트 URL
+   */
+  public addEndpoint(url: string): void {
+    if (this.endpoints.has(url)) {
+      return;
+    }
+    
+    this.endpoints.set(url, {
+      url,
+      status: RpcEndpointStatus.HEALTHY,
+      score: 1,
+      latency: 0,
+      errorRate: 0,
+      blockNumber: 0,
+      blockLag: 0,
+      consecutiveFailures: 0,
+      totalRequests: 0,
+      failedRequests: 0,
+      lastCheckedAt: 0,
+      unavailableUntil: 0
+    });
+    
+    this.notifyIfChanged();
+  }
+  
+  /**
+   * 엔드포인트 제거
+   * 
+   * @param url 엔드포인트 URL
+   */
+  public removeEndpoint(url: string): void {
+    if (this.endpoints.delete(url)) {
+      this.updateBlockLags();
+      this.notifyIfChanged();
+    }
+  }
+  
+  /**
+   * 등록된 엔드포인트 URL 목록
+   */
+  public getEndpoints(): string[] {
+    return Array.from(this.endpoints.keys());
+  }
+  
+  /**
+   * 요청을 보낼 순서대로 정렬한 엔드포인트 목록
+   * 일시 제외된 엔드포인트는 다른 엔드포인트가 모두 실패했을 때를 대비해 맨 뒤에 둡니다.
+   * 
+   * @returns 엔드포인트 URL 목록
+   */
+  public getRankedEndpoints(): string[] {
+    const now = Date.now();
+    const order = this.getEndpoints();
+    
+    return this.getHealth()
+      .sort((a, b) => {
+        const aAvailable = a.unavailableUntil <= now;
+        const bAvailable = b.unavailableUntil <= now;
+        
+        if (aAvailable !== bAvailable) {
+          return aAvailable ? -1 : 1;
+        }
+        if (!aAvailable) {
+          return a.unavailableUntil - b.unavailableUntil;
+        }
+        if (a.score !== b.score) {
+          return b.score - a.score;
+        }
+        return order.indexOf(a.url) - order.indexOf(b.url);
+      })
+      .map(health => health.url);
+  }
+  
+  /**
+   * 현재 요청을 보낼 엔드포인트
+   */
+  public getActiveEndpoint(): string | undefined {
+    return this.getRankedEndpoints()[0];
+  }
+  
+  /**
+   * 엔드포인트 상태 조회
+   * 
+   * @returns 엔드포인트별 상태 (등록 순서)
+   */
+  public getHealth(): RpcEndpointHealth[] {
+    const now = Date.now();
+    
+    return Array.from(this.endpoints.values()).map(endpoint => ({
+      ...endpoint,
+      status: this.getStatus(endpoint, now),
+      score: this.getScore(endpoint, now)
+    }));
+  }
+  
+  /**
+   * 요청 성공 기록
+   * 
+   * @param url 엔드포인트 URL
+   * @param latency 응답 시간 (밀리초)
+   * @param blockNumber 응답으로 확인한 블록 높이
+   */
+  public recordSuccess(url: string, latency: number, blockNumber?: number): void {
+    const endpoint = this.endpoints.get(url);
+    if (!endpoint) {
+      return;
+    }
+    
+    endpoint.latency = this.smooth(endpoint.latency, latency, endpoint.totalRequests === 0);
+    endpoint.errorRate = this.smooth(endpoint.errorRate, 0, endpoint.totalRequests === 0);
+    endpoint.totalRequests++;
+    endpoint.consecutiveFailures = 0;
+    endpoint.unavailableUntil = 0;
+    endpoint.lastCheckedAt = Date.now();
+    
+    if (blockNumber !== undefined && Number.isFinite(blockNumber)) {
+      endpoint.blockNumber = blockNumber;
+      this.updateBlockLags();
+    }
+    
+    this.notifyIfChanged();
+  }
+  
+  /**
+   * 요청 실패 기록
+   * 연속 실패 횟수가 기준을 넘으면 일정 시간 동안 후순위로 제외합니다.
+   * 
+   * @param url 엔드포인트 URL
+   * @param error 오류
+   * @param latency 실패까지 걸린 시간 (밀리초)
+   */
+  public recordFailure(url: string, error: any, latency?: number): void {
+    const endpoint = this.endpoints.get(url);
+    if (!endpoint) {
+      return;
+    }
+    
+    if (latency !== undefined) {
+      endpoint.latency = this.smooth(endpoint.latency, latency, endpoint.totalRequests === 0);
+    }
+    endpoint.errorRate = this.smooth(endpoint.errorRate, 1, endpoint.totalRequests === 0);
+    endpoint.totalRequests++;
+    endpoint.failedRequests++;
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = error?.message || String(error);
+    endpoint.lastCheckedAt = Date.now();
+    
+    if (endpoint.consecutiveFailures >= this.options.maxConsecutiveFailures) {
+      endpoint.unavailableUntil = Date.now() + this.options.failureCooldown;
+      logger.warn(`RPC endpoint ${url} (chainId ${this.chainId}) disabled for ${this.options.failureCooldown}ms after ${endpoint.consecutiveFailures} failures: ${endpoint.lastError}`);
+    }
+    
+    this.notifyIfChanged();
+  }
+  
+  /**
+   * 전체 엔드포인트 상태 확인
+   * 각 엔드포인트의 응답 시간, 체인 ID, 블록 높이를 측정해 점수에 반영합니다.
+   * 
+   * @returns 확인 후 엔드포인트 상태
+   */
+  public async checkHealth(): Promise<RpcEndpointHealth[]> {
+    // 이전 확인이 끝나지 않았으면 같은 결과 공유
+    if (this.healthCheckPromise) {
+      return this.healthCheckPromise;
+    }
+    
+    const healthCheck = this.options.healthCheck || measureRpcResponseTime;
+    
+    this.healthCheckPromise = Promise.all(
+      this.getEndpoints().map(async (url) => {
+        try {
+          const result = await healthCheck(url);
+          
+          if (!result.success) {
+            this.recordFailure(url, new Error(result.error || 'Health check failed'), result.latency);
+          } else if (result.chainId !== undefined && result.chainId !== this.chainId) {
+            this.recordFailure(url, new Error(`Chain ID mismatch: expected ${this.chainId}, got ${result.chainId}`), result.latency);
+          } else {
+            this.recordSuccess(url, result.latency, result.blockNumber);
+          }
+        } catch (error: any) {
+          this.recordFailure(url, error);
+        }
+      })
+    )
+      .then(() => this.getHealth())
+      .finally(() => {
+        this.healthCheckPromise = null;
+      });
+    
+    return this.healthCheckPromise;
+  }
+  
+  /**
+   * 주기적인 상태 확인 시작
+   */
+  public start(): void {
+    if (this.healthCheckTimer || this.options.healthCheckInterval <= 0) {
+      return;
+    }
+    
+    this.checkHealth().catch(error => {
+      logger.error(`RPC endpoint health check failed for chainId ${this.chainId}: ${error.message}`);
+    });
+    
+    this.healthCheckTimer = setInterval(() => {
+      this.checkHealth().catch(error => {
+        logger.error(`RPC endpoint health check failed for chainId ${this.chainId}: ${error.message}`);
+      });
+    }, this.options.healthCheckInterval);
+  }
+  
+  /**
+   * 주기적인 상태 확인 중지
+   */
+  public stop(): void {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
+  }
+  
+  /**
+   * 상태 변경 구독
+   * 엔드포인트 상태나 요청 순서가 바뀔 때마다 호출됩니다.
+   * 
+   * @param listener 리스너
+   * @returns 구독 해제 함수
+   */
+  public subscribe(listener: RpcEndpointHealthListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+  
+  /**
+   * 엔드포인트 상태 판정
+   */
+  private getStatus(endpoint: RpcEndpointHealth, now: number): RpcEndpointStatus {
+    if (endpoint.unavailableUntil > now) {
+      return RpcEndpointStatus.UNHEALTHY;
+    }
+    
+    if (
+      endpoint.blockLag > this.options.maxBlockLag ||
+      endpoint.errorRate > this.options.errorRateThreshold ||
+      endpoint.latency > this.options.latencyThreshold
+    ) {
+      return RpcEndpointStatus.DEGRADED;
+    }
+    
+    return RpcEndpointStatus.HEALTHY;
+  }
+  
+  /**
+   * 엔드포인트 점수 계산
+   * 성공률과 응답 속도를 곱하고, 블록 높이가 뒤처진 엔드포인트는 크게 감점합니다.
+   */
+  private getScore(endpoint: RpcEndpointHealth, now: number): number {
+    if (endpoint.unavailableUntil > now) {
+      return 0;
+    }
+    
+    const reliability = 1 - endpoint.errorRate;
+    const speed = this.options.latencyThreshold / (this.options.latencyThreshold + endpoint.latency);
+    const syncPenalty = endpoint.blockLag > this.options.maxBlockLag ? 0.1 : 1;
+    
+    return reliability * speed * syncPenalty;
+  }
+  
+  /**
+   * 가장 앞선 블록 높이 기준으로 엔드포인트별 뒤처진 블록 수 갱신
+   */
+  private updateBlockLags(): void {
+    const endpoints = Array.from(this.endpoints.values());
+    const highestBlock = Math.max(0, ...endpoints.map(endpoint => endpoint.blockNumber));
+    
+    for (const endpoint of endpoints) {
+      // 아직 블록 높이를 모르는 엔드포인트는 뒤처진 것으로 보지 않음
+      endpoint.blockLag = endpoint.blockNumber > 0 ? highestBlock - endpoint.blockNumber : 0;
+    }
+  }
+  
+  /**
+   * 지수 이동 평균
+   */
+  private smooth(current: number, value: number, isFirst: boolean): number {
+    if (isFirst) {
+      return value;
+    }
+    
+    return current + this.options.smoothingFactor * (value - current);
+  }
+  
+  /**
+   * 알림 비교용 상태 요약 (엔드포인트별 상태와 요청 순서)
+   */
+  private createSnapshot(): string {
+    const statuses = this.getHealth().map(health => `${health.url}:${health.status}`);
+    return `${statuses.join(',')}|${this.getActiveEndpoint() || ''}`;
+  }
+  
+  /**
+   * 상태나 요청 순서가 바뀌었으면 리스너에 알림
+   */
+  private notifyIfChanged(): void {
+    const snapshot = this.createSnapshot();
+    if (snapshot === this.lastSnapshot) {
+      return;
+    }
+    
+    this.lastSnapshot = snapshot;
+    const health = this.getHealth();
+    
+    for (const listener of this.listeners) {
+      try {
+        listener(health);
+      } catch (error: any) {
+        logger.error(`Error in RPC endpoint health listener: ${error.message}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * @file tokenLists.ts
+ * @description 기본 제공 토큰 목록 (Uniswap 토큰 목록 형식)
+ *
+ * 토큰 레지스트리가 처음 생성될 때 불러오는 체인별 주요 토큰 목록입니다.
+ * Catena 토큰은 CATENA_CONTRACTS의 주소를 사용하며, 주소가 정해지지 않은 토큰은 불러올 때 제외됩니다.
+ */
+
+import { SupportedChainId, TokenList } from '../types/chain.types';
+import { CATENA_CONTRACTS } from './contracts';
+
+/**
+ * 목록 버전
+ */
+const TOKEN_LIST_VERSION = { major: 1, minor: 0, patch: 0 };
+
+/**
+ * 목록 갱신 시간
+ */
+const TOKEN_LIST_TIMESTAMP = '2024-01-01T00:00:00.000Z';
+
+/**
+ * Catena 토큰 목록
+ */
+export const CATENA_TOKEN_LIST: TokenList = {
+  name: 'CreLink Catena',
+  timestamp: TOKEN_LIST_TIMESTAMP,
+  version: TOKEN_LIST_VERSION,
+  keywords: ['catena', 'crelink'],
+  tokens: [
+    { chainId: SupportedChainId.CATENA_MAINNET, address: CATENA_CONTRACTS.MAINNET.WRAPPED_CTA, name: 'Wrapped CTA', symbol: 'WCTA', decimals: 18 },
+    { chainId: SupportedChainId.CATENA_TESTNET, address: CATENA_CONTRACTS.TESTNET.WRAPPED_CTA, name: 'Wrapped CTA', symbol: 'WCTA', decimals: 18 }
+  ]
+};
+
+/**
+ * Ethereum 토큰 목록
+ */
+export const ETHEREUM_TOKEN_LIST: TokenList = {
+  name: 'CreLink Ethereum',
+  timestamp: TOKEN_LIST_TIMESTAMP,
+  version: TOKEN_LIST_VERSION,
+  keywords: ['ethereum'],
+  tokens: [
+    { chainId: SupportedChainId.ETHEREUM, address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', name: 'Wrapped Ether', symbol: 'WETH', decimals: 18 },
+    { chainId: SupportedChainId.ETHEREUM, address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', name: 'Tether USD', symbol: 'USDT', decimals: 6 },
+    { chainId: SupportedChainId.ETHEREUM, address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', name: 'USD Coin', symbol: 'USDC', decimals: 6 },
+    { chainId: SupportedChainId.ETHEREUM, address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', name: 'Dai Stablecoin', symbol: 'DAI', decimals: 18 },
+    { chainId: SupportedChainId.ETHEREUM, address: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599', name: 'Wrapped BTC', symbol: 'WBTC', decimals: 8 },
+    { chainId: SupportedChainId.ETHEREUM, address: '0x514910771AF9Ca656af840dff83E8264EcF986CA', name: 'ChainLink Token', symbol: 'LINK', decimals: 18 },
+    { chainId: SupportedChainId.ETHEREUM, address: '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984', name: 'Uniswap', symbol: 'UNI', decimals: 18 }
+  ]
+};
+
+/**
+ * Polygon 토큰 목록
+ */
+export const POLYGON_TOKEN_LIST: TokenList = {
+  name: 'CreLink Polygon',
+  timestamp: TOKEN_LIST_TIMESTAMP,
+  version: TOKEN_LIST_VERSION,
+  keywords: ['polygon'],
+  tokens: [
+    { chainId: SupportedChainId.POLYGON, address: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', name: 'Wrapped Matic', symbol: 'WMATIC', decimals: 18 },
+    { chainId: SupportedChainId.POLYGON, address: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619', name: 'Wrapped Ether', symbol: 'WETH', decimals: 18 },
+    { chainId: SupportedChainId.POLYGON, address: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', name: 'Tether USD', symbol: 'USDT', decimals: 6 },
+    { chainId: SupportedChainId.POLYGON, address: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', name: 'USD Coin', symbol: 'USDC', decimals: 6 },
+    { chainId: SupportedChainId.POLYGON, address: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174', name: 'USD Coin (PoS)', symbol: 'USDC.e', decimals: 6 },
+    { chainId: SupportedChainId.POLYGON, address: '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063', name: 'Dai Stablecoin', symbol: 'DAI', decimals: 18 }
+  ]
+};
+
+/**
+ * Arbitrum 토큰 목록
+ */
+export const ARBITRUM_TOKEN_LIST: TokenList = {
+  name: 'CreLink Arbitrum',
+  timestamp: TOKEN_LIST_TIMESTAMP,
+  version: TOKEN_LIST_VERSION,
+  keywords: ['arbitrum'],
+  tokens: [
+    { chainId: SupportedChainId.ARBITRUM, address: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1', name: 'Wrapped Ether', symbol: 'WETH', decimals: 18 },
+    { chainId: SupportedChainId.ARBITRUM, address: '0x912CE59144191C1204E64559FE8253a0e49E6548', name: 'Arbitrum', symbol: 'ARB', decimals: 18 },
+    { chainId: SupportedChainId.ARBITRUM, address: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', name: 'Tether USD', symbol: 'USDT', decimals: 6 },
+    { chainId: SupportedChainId.ARBITRUM, address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', name: 'USD Coin', symbol: 'USDC', decimals: 6 },
+    { chainId: SupportedChainId.ARBITRUM, address: '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8', name: 'Bridged USDC', symbol: 'USDC.e', decimals: 6 },
+    { chainId: SupportedChainId.ARBITRUM, address: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1', name: 'Dai Stablecoin', symbol: 'DAI', decimals: 18 },
+    { chainId: SupportedChainId.ARBITRUM, address: '0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f', name: 'Wrapped BTC', symbol: 'WBTC', decimals: 8 }
+  ]
+};
+
+/**
+ * 기본 제공 토큰 목록
+ */
+export const DEFAULT_TOKEN_LISTS: TokenList[] = [
+  CATENA_TOKEN_LIST,
+  ETHEREUM_TOKEN_LIST,
+  POLYGON_TOKEN_LIST,
+  ARBITRUM_TOKEN_LIST
+];
@@ -0,0 +1,442 @@
+/**
+ * @file tokenRegistry.ts
+ * @description 토큰 목록 관리, 보유 토큰 자동 탐색, 스팸 토큰 분류
+ * 
+ * Uniswap 형식 토큰 목록을 불러와 체인별 신뢰 토큰을 관리하고,
+ * 계정의 Transfer 로그를 eth_getLogs로 조회해 보유 토큰을 찾습니다.
+ * 찾은 토큰은 온체인 검증과 이름 규칙으로 TokenValidationStatus를 매깁니다.
+ */
+
+import { Interface, getAddress, zeroPadValue } from 'ethers';
+import { Token, TokenList, TokenListEntry, TokenStandard, TokenValidationStatus } from '../types/chain.types';
+import { ERC20_ABI, isERC20Token } from './contracts';
+import { DEFAULT_TOKEN_LISTS } from './tokenLists';
+import { MulticallAggregator } from './multicall';
+import { queryLogs } from './logQuery';
+import { isEndpointFailure } from './providers/rpc-endpoint-pool';
+import { isNullAddress, isValidAddress } from '../utils/address';
+import { isValidTokenName } from '../utils/validation';
+import { ValidationError } from '../utils/errors';
+import { createLogger } from '../utils/logging';
+
+// 로거 생성
+const logger = createLogger('TokenRegistry');
+
+/**
+ * 토큰 조회에 사용할 프로바이더
+ * IProvider와 ethers 프로바이더를 그대로 사용할 수 있습니다.
+ */
+export interface TokenRegistryProvider {
+  send(method: string, params: any[]): Promise<any>;
+  call(transaction: { to: string; data: string }): Promise<string>;
+  getCode(address: string): Promise<string>;
+}
+
+/**
+ * 토큰 레지스트리 옵션
+ */
+export interface TokenRegistryOptions {
+  discoveryBlockRange: number; // 시작 블록을 지정하지 않았을 때 탐색할 최근 블록 수
+  maxLogBlockRange: number; // eth_getLogs 한 번에 조회할 최대 블록 수
+  spamKeywords: string[]; // 스팸 토큰 이름에 자주 쓰이는 단어
+}
+
+/**
+ * 기본 토큰 레지스트리 옵션
+ */
+export const DEFAULT_TOKEN_REGISTRY_OPTIONS: TokenRegistryOptions = {
+  discoveryBlockRange: 100000,
+  maxLogBlockRange: 5000,
+  spamKeywords: ['claim', 'reward', 'airdrop', 'visit', 'voucher', 'bonus', 'free']
+};
+
+/**
+ * 토큰 탐색 옵션
+ */
+export interface TokenDiscoveryOptions {
+  fromBlock?: number; // 탐색 시작 블록 (지정하지 않으면 최근 discoveryBlockRange 블록)
+  toBlock?: number; // 탐색 끝 블록 (지정하지 않으면 최신 블록)
+}
+
+/**
+ * 토큰 탐색 결과
+ */
+export interface TokenDiscoveryResult {
+  tokens: Token[]; // 찾은 토큰 (스팸 의심 토큰 포함, validationStatus로 구분)
+  fromBlock: number;
+  toBlock: number; // 다음 탐색은 toBlock + 1부터 시작
+}
+
+/**
+ * 토큰별 Transfer 로그 요약
+ */
+interface TransferActivity {
+  incoming: number;
+  outgoing: number;
+  nonZeroIncoming: number; // 0이 아닌 금액을 받은 횟수
+}
+
+const erc20Interface = new Interface(ERC20_ABI);
+
+/**
+ * ERC-20 Transfer 이벤트 토픽
+ */
+const TRANSFER_TOPIC = erc20Interface.getEvent('Transfer')!.topicHash;
+
+/**
+ * 토큰 이름에 URL이나 도메인이 들어 있는지 확인하는 정규 표현식
+ */
+const URL_PATTERN = /(https?:\/\/|www\.|\.(com|io|org|net|xyz|app|site|finance|top|cc|me)\b)/i;
+
+/**
+ * 토큰 레지스트리 키
+ */
+function tokenKey(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+/**
+ * 토큰 레지스트리
+ */
+export class TokenRegistry {
+  private tokens: Map<string, Token> = new Map();
+  private blockedTokens: Set<string> = new Set();
+  private options: TokenRegistryOptions;
+  
+  /**
+   * 토큰 레지스트리 생성자
+   * 
+   * @param tokenLists 불러올 토큰 목록 (기본값: Catena, Ethereum, Polygon, Arbitrum 목록)
+   * @param options 옵션
+   */
+  constructor(tokenLists: TokenList[] = DEFAULT_TOKEN_LISTS, options: Partial<TokenRegistryOptions> = {}) {
+    this.options = { ...DEFAULT_TOKEN_REGISTRY_OPTIONS, ...options };
+    
+    for (const tokenList of tokenLists) {
+      this.ingestTokenList(tokenList);
+    }
+  }
+  
+  /**
+   * 토큰 목록 불러오기
+   * 형식이 맞지 않는 항목은 건너뛰고, 이미 있는 토큰은 목록의 정보로 갱신합니다.
+   * 
+   * @param tokenList 토큰 목록 또는 토큰 목록 JSON 문자열
+   * @returns 불러온 토큰 수
+   */
+  public ingestTokenList(tokenList: TokenList | string): number {
+    let list: TokenList;
+    try {
+      list = typeof tokenList === 'string' ? JSON.parse(tokenList) : tokenList;
+    } catch (error: any) {
+      throw new ValidationError(`Invalid token list JSON: ${error.message}`, 'tokenList');
+    }
+    
+    if (!list || typeof list.name !== 'string' || !Array.isArray(list.tokens)) {
+      throw new ValidationError('Token list must have a name and a tokens array', 'tokenList');
+    }
+    
+    let ingested = 0;
+    for (const entry of list.tokens) {
+      if (!this.isValidEntry(entry)) {
+        continue;
+      }
+      
+      const address = getAddress(entry.address);
+      const key = tokenKey(entry.chainId, address);
+      this.tokens.set(key, {
+        ...this.tokens.get(key),
+        address,
+        chainId: entry.chainId,
+        name: entry.name,
+        symbol: entry.symbol,
+        decimals: entry.decimals,
+        standard: TokenStandard.ERC20,
+        logoURI: entry.logoURI || this.tokens.get(key)?.logoURI,
+        validationStatus: TokenValidationStatus.VERIFIED
+      });
+      ingested++;
+    }
+    
+    if (ingested < list.tokens.length) {
+      logger.warn(`Skipped ${list.tokens.length - ingested} invalid entries in token list ${list.name}`);
+    }
+    
+    return ingested;
+  }
+  
+  /**
+   * URL에서 토큰 목록을 받아 불러오기
+   * 
+   * @param url 토큰 목록 JSON URL
+   * @returns 불러온 토큰 수
+   */
+  public async loadTokenList(url: string): Promise<number> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch token list ${url}: HTTP ${response.status}`);
+    }
+    
+    return this.ingestTokenList(await response.text());
+  }
+  
+  /**
+   * 목록에 있는 토큰 조회
+   * 
+   * @param chainId 체인 ID
+   * @param address 토큰 주소
+   */
+  public getToken(chainId: number, address: string): Token | undefined {
+    return this.tokens.get(tokenKey(chainId, address));
+  }
+  
+  /**
+   * 체인의 목록 토큰 조회
+   * 
+   * @param chainId 체인 ID
+   */
+  public getTokens(chainId: number): Token[] {
+    return Array.from(this.tokens.values()).filter(token => token.chainId === chainId);
+  }
+  
+  /**
+   * 목록 토큰 검색 (심볼, 이름, 주소)
+   * 
+   * @param chainId 체인 ID
+   * @param query 검색어
+   */
+  public searchTokens(chainId: number, query: string): Token[] {
+    const normalized = query.trim().toLowerCase();
+    if (!normalized) {
+      return this.getTokens(chainId);
+    }
+    
+    return this.getTokens(chainId)
+      .filter(token =>
+        token.symbol.toLowerCase().includes(normalized) ||
+        token.name.toLowerCase().includes(normalized) ||
+        token.address.toLowerCase() === normalized
+      )
+      // 심볼이 정확히 같은 토큰을 먼저 표시
+      .sort((a, b) => Number(b.symbol.toLowerCase() === normalized) - Number(a.symbol.toLowerCase() === normalized));
+  }
+  
+  /**
+   * 사용자가 차단한 토큰으로 등록
+   * 
+   * @param chainId 체인 ID
+   * @param address 토큰 주소
+   */
+  public blockToken(chainId: number, address: string): void {
+    this.blockedTokens.add(tokenKey(chainId, address));
+  }
+  
+  /**
+   * 토큰 차단 해제
+   * 
+   * @param chainId 체인 ID
+   * @param address 토큰 주소
+   */
+  public unblockToken(chainId: number, address: string): void {
+    this.blockedTokens.delete(tokenKey(chainId, address));
+  }
+  
+  /**
+   * 토큰 검증
+   * 계약이 아니거나 ERC-20 함수에 응답하지 않으면 BLOCKED, 목록에 있으면 VERIFIED,
+   * 스팸 규칙에 걸리면 SUSPICIOUS, 그 외는 UNVERIFIED로 분류합니다.
+   * 
+   * @param provider 프로바이더
+   * @param chainId 체인 ID
+   * @param address 토큰 주소
+   * @returns 검증 상태가 포함된 토큰 정보
+   */
+  public async validateToken(provider: TokenRegistryProvider, chainId: number, address: string): Promise<Token> {
+    return this.checkToken(provider, chainId, address);
+  }
+  
+  /**
+   * 계정의 Transfer 로그로 보유 토큰 탐색
+   * ERC-721 Transfer는 토픽 수가 달라 제외합니다.
+   * 
+   * @param provider 프로바이더
+   * @param chainId 체인 ID
+   * @param account 계정 주소
+   * @param options 탐색 범위
+   * @returns 찾은 토큰과 탐색한 블록 범위
+   */
+  public async discoverTokens(
+    provider: TokenRegistryProvider,
+    chainId: number,
+    account: string,
+    options: TokenDiscoveryOptions = {}
+  ): Promise<TokenDiscoveryResult> {
+    if (!isValidAddress(account)) {
+      throw new ValidationError(`Invalid account address: ${account}`, 'account');
+    }
+    
+    const toBlock = options.toBlock ?? Number(await provider.send('eth_blockNumber', []));
+    const fromBlock = Math.max(0, options.fromBlock ?? toBlock - this.options.discoveryBlockRange + 1);
+    if (fromBlock > toBlock) {
+      return { tokens: [], fromBlock, toBlock };
+    }
+    
+    const accountTopic = zeroPadValue(account.toLowerCase(), 32);
+    const activities = new Map<string, TransferActivity>();
+    const send = (method: string, params: any[]) => provider.send(method, params);
+    const [incoming, outgoing] = await Promise.all([
+      queryLogs(send, { topics: [TRANSFER_TOPIC, null, accountTopic] }, fromBlock, toBlock, this.options.maxLogBlockRange),
+      queryLogs(send, { topics: [TRANSFER_TOPIC, accountTopic] }, fromBlock, toBlock, this.options.maxLogBlockRange)
+    ]);
+    
+    for (const log of [...incoming, ...outgoing]) {
+      // ERC-20 Transfer는 토픽 3개와 금액 데이터 32바이트
+      if (log.topics.length !== 3 || !log.data || log.data.length !== 66) {
+        continue;
+      }
+      
+      const address = getAddress(log.address);
+      const activity = activities.get(address) || { incoming: 0, outgoing: 0, nonZeroIncoming: 0 };
+      if (log.topics[2].toLowerCase() === accountTopic.toLowerCase()) {
+        activity.incoming++;
+        if (BigInt(log.data) > BigInt(0)) {
+          activity.nonZeroIncoming++;
+        }
+      } else {
+        activity.outgoing++;
+      }
+      activities.set(address, activity);
+    }
+    
+    const tokens = await Promise.all(
+      Array.from(activities.entries()).map(([address, activity]) => this.checkToken(provider, chainId, address, activity))
+    );
+    
+    logger.debug(`Discovered ${tokens.length} tokens for ${account} on chain ${chainId} (blocks ${fromBlock}-${toBlock})`);
+    
+    return { tokens, fromBlock, toBlock };
+  }
+  
+  /**
+   * 토큰 검증 및 분류
+   * 
+   * @param provider 프로바이더
+   * @param chainId 체인 ID
+   * @param address 토큰 주소
+   * @param activity Transfer 로그 요약 (탐색으로 찾은 토큰)
+   */
+  private async checkToken(
+    provider: TokenRegistryProvider,
+    chainId: number,
+    address: string,
+    activity?: TransferActivity
+  ): Promise<Token> {
+    if (!isValidAddress(address)) {
+      throw new ValidationError(`Invalid token address: ${address}`, 'address');
+    }
+    
+    const tokenAddress = getAddress(address);
+    const listed = this.getToken(chainId, tokenAddress);
+    const unknownToken: Token = {
+      address: tokenAddress,
+      chainId,
+      name: '',
+      symbol: '',
+      decimals: 0,
+      standard: TokenStandard.UNKNOWN
+    };
+    
+    if (this.blockedTokens.has(tokenKey(chainId, tokenAddress))) {
+      return { ...(listed || unknownToken), validationStatus: TokenValidationStatus.BLOCKED };
+    }
+    
+    // 계약 코드 조회는 RPC 오류를 그대로 전달 (isERC20Token은 오류를 false로 처리)
+    const code = await provider.getCode(tokenAddress);
+    if (!code || code === '0x' || !(await isERC20Token(provider, tokenAddress))) {
+      return { ...(listed || unknownToken), validationStatus: TokenValidationStatus.BLOCKED };
+    }
+    
+    if (listed) {
+      return { ...listed };
+    }
+    
+    let metadata;
+    try {
+      metadata = await new MulticallAggregator({
+        chainId,
+        send: (method, params) => provider.send(method, params)
+      }).getTokenMetadata(tokenAddress);
+    } catch (error: any) {
+      if (isEndpointFailure(error)) {
+        throw error;
+      }
+      
+      // name, symbol, decimals 중 일부만 구현한 계약은 토큰으로 표시하지 않음
+      logger.debug(`Failed to read token metadata for ${tokenAddress}: ${error.message}`);
+      return { ...unknownToken, validationStatus: TokenValidationStatus.BLOCKED };
+    }
+    
+    const token: Token = {
+      address: tokenAddress,
+      chainId,
+      name: metadata.name,
+      symbol: metadata.symbol,
+      decimals: metadata.decimals,
+      standard: TokenStandard.ERC20
+    };
+    
+    return { ...token, validationStatus: this.classifyToken(token, activity) };
+  }
+  
+  /**
+   * 목록에 없는 토큰의 스팸 여부 분류
+   * 
+   * @param token 토큰 정보
+   * @param activity Transfer 로그 요약
+   */
+  private classifyToken(token: Token, activity?: TransferActivity): TokenValidationStatus {
+    const text = `${token.name} ${token.symbol}`;
+    
+    // 이름이나 심볼에 URL, 홍보 문구가 들어간 토큰
+    if (URL_PATTERN.test(text) || this.options.spamKeywords.some(keyword => text.toLowerCase().includes(keyword))) {
+      return TokenValidationStatus.SUSPICIOUS;
+    }
+    
+    // 영문, 숫자 외 문자(닮은꼴 유니코드 등)를 쓴 심볼
+    if (!/^[A-Za-z0-9.\-_+$]{1,20}$/.test(token.symbol)) {
+      return TokenValidationStatus.SUSPICIOUS;
+    }
+    
+    // 목록에 있는 토큰과 심볼이 같은 다른 계약 (사칭 토큰)
+    const symbol = token.symbol.toLowerCase();
+    if (this.getTokens(token.chainId).some(listed => listed.symbol.toLowerCase() === symbol)) {
+      return TokenValidationStatus.SUSPICIOUS;
+    }
+    
+    // 보낸 적 없이 0 금액 전송만 받은 토큰 (주소 중독용 전송)
+    if (activity && activity.outgoing === 0 && activity.nonZeroIncoming === 0) {
+      return TokenValidationStatus.SUSPICIOUS;
+    }
+    
+    return TokenValidationStatus.UNVERIFIED;
+  }
+  
+  /**
+   * 토큰 목록 항목 형식 확인
+   */
+  private isValidEntry(entry: TokenListEntry): boolean {
+    return !!entry &&
+      Number.isInteger(entry.chainId) &&
+      typeof entry.address === 'string' &&
+      isValidAddress(entry.address) &&
+      !isNullAddress(entry.address) &&
+      typeof entry.name === 'string' &&
+      isValidTokenName(entry.name) &&
+      typeof entry.symbol === 'string' &&
+      entry.symbol.length >= 1 &&
+      entry.symbol.length <= 20 &&
+      Number.isInteger(entry.decimals) &&
+      entry.decimals >= 0 &&
+      entry.decimals <= 255;
+  }
+}
@@ -0,0 +1,840 @@
+/**
+ * @file transactionMonitor.ts
+ * @description 제출된 트랜잭션의 상태 추적 서비스
+ * 
+ * 트랜잭션 영수증을 주기적으로 조회해 확인/실패를 판정하고, 계정 논스를 확인해
+ * 같은 논스의 다른 트랜잭션으로 대체되었거나 네트워크에서 사라진 트랜잭션을 찾아냅니다.
+ * 추적 목록은 로컬 스토어에 저장되므로 백그라운드가 다시 시작되어도 추적을 이어갑니다.
+ */
+
+import {
+  Transaction,
+  TransactionStatus,
+  TransactionReceipt,
+  TransactionMonitoringService,
+  SpeedUpOptions,
+  CancelOptions
+} from '../types/transactions.types';
+import { IProvider } from './providers/provider.interface';
+import {
+  speedUpTransaction as buildSpeedUpTransaction,
+  cancelTransaction as buildCancelTransaction
+} from './transactions';
+import { LocalStoreInterface } from '../storage/localStore';
+import { NotFoundError, TransactionError, ValidationError } from '../utils/errors';
+import { createLogger } from '../utils/logging';
+
+// 로거 생성
+const logger = createLogger('TransactionMonitor');
+
+/**
+ * 트랜잭션 모니터 이벤트 타입
+ */
+export enum TransactionMonitorEventType {
+  ADDED = 'added', // 추적 시작
+  UPDATED = 'updated', // 정보 변경
+  CONFIRMED = 'confirmed', // 블록에 포함되어 성공
+  FAILED = 'failed', // 블록에 포함되었지만 실패 (revert)
+  DROPPED = 'dropped', // 블록에 포함되지 않고 사라짐
+  REPLACED = 'replaced', // 같은 논스의 다른 트랜잭션으로 대체됨
+  REMOVED = 'removed' // 추적 목록에서 제거
+}
+
+/**
+ * 트랜잭션 모니터 이벤트
+ */
+export interface TransactionMonitorEvent {
+  type: TransactionMonitorEventType;
+  transaction: Transaction;
+  receipt?: TransactionReceipt; // 확인/실패 시 영수증
+  replacedBy?: string; // 대체한 트랜잭션 해시 (대체 시)
+}
+
+/**
+ * 트랜잭션 모니터 이벤트 리스너
+ */
+export type TransactionMonitorListener = (event: TransactionMonitorEvent) => void;
+
+/**
+ * 체인 ID로 프로바이더를 찾는 함수
+ */
+export type TransactionProviderResolver = (chainId: number) => IProvider | null | Promise<IProvider | null>;
+
+/**
+ * 트랜잭션 서명 및 전송 함수 (가속/취소 트랜잭션 전송에 사용)
+ * @returns 전송된 트랜잭션 해시
+ */
+export type TransactionSender = (transaction: Transaction) => Promise<string>;
+
+/**
+ * 트랜잭션 모니터 옵션
+ */
+export interface TransactionMonitorOptions {
+  storageKey?: string; // 추적 목록 저장 키
+  pollingInterval?: number; // 상태 확인 주기 (밀리초)
+  droppedTimeout?: number; // 노드가 트랜잭션을 모르는 상태로 이 시간이 지나면 삭제됨으로 처리 (밀리초)
+  maxHistory?: number; // 보관할 완료 트랜잭션 수
+  sender?: TransactionSender; // 가속/취소 트랜잭션 전송 함수
+}
+
+/**
+ * 기본 옵션
+ */
+export const DEFAULT_TRANSACTION_MONITOR_OPTIONS = {
+  storageKey: 'monitoredTransactions',
+  pollingInterval: 4000,
+  droppedTimeout: 10 * 60 * 1000,
+  maxHistory: 100
+};
+
+// 최종 상태별 이벤트 타입
+const STATUS_EVENT_TYPES: Partial<Record<TransactionStatus, TransactionMonitorEventType>> = {
+  [TransactionStatus.CONFIRMED]: TransactionMonitorEventType.CONFIRMED,
+  [TransactionStatus.FAILED]: TransactionMonitorEventType.FAILED,
+  [TransactionStatus.DROPPED]: TransactionMonitorEventType.DROPPED,
+  [TransactionStatus.REPLACED]: TransactionMonitorEventType.REPLACED
+};
+
+// 확인 대기 중인 waitForTransaction 호출
+interface TransactionWaiter {
+  confirmations: number;
+  resolve: (receipt: TransactionReceipt) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * 완료 상태 여부 확인
+ * @param transaction 트랜잭션
+ */
+function isFinalized(transaction: Transaction): boolean {
+  return !!transaction.meta && transaction.meta.status !== TransactionStatus.PENDING;
+}
+
+/**
+ * 트랜잭션 모니터
+ * 
+ * 사용 예:
+ * ```
+ * const monitor = new TransactionMonitor(chainId => providers.get(chainId), store);
+ * monitor.on(TransactionMonitorEventType.CONFIRMED, ({ transaction }) => notify(transaction));
+ * await monitor.start();
+ * await monitor.addTransaction({ hash, from, to, value, nonce, chainId });
+ * ```
+ */
+export class TransactionMonitor implements TransactionMonitoringService {
+  private transactions: Map<string, Transaction> = new Map();
+  private receipts: Map<string, TransactionReceipt> = new Map();
+  private waiters: Map<string, TransactionWaiter[]> = new Map();
+  private eventHandlers: Record<string, TransactionMonitorListener[]> = {};
+  private options: typeof DEFAULT_TRANSACTION_MONITOR_OPTIONS & { sender?: TransactionSender };
+  private loaded: Promise<void> | null = null;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private polling: boolean = false;
+  private running: boolean = false;
+  
+  /**
+   * 트랜잭션 모니터 생성자
+   * 
+   * @param resolveProvider 체인 ID로 프로바이더를 찾는 함수
+   * @param store 추적 목록을 저장할 로컬 스토어
+   * @param options 옵션
+   */
+  constructor(
+    private resolveProvider: TransactionProviderResolver,
+    private store: LocalStoreInterface,
+    options: TransactionMonitorOptions = {}
+  ) {
+    this.options = { ...DEFAULT_TRANSACTION_MONITOR_OPTIONS, ...options };
+  }
+  
+  /**
+   * 저장된 추적 목록 로드
+   * 여러 번 호출해도 한 번만 로드합니다.
+   */
+  public load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const stored = await this.store.getItem<Transaction[]>(this.options.storageKey, []);
+          for (const transaction of stored || []) {
+            if (transaction.hash && !this.transactions.has(transaction.hash)) {
+              this.transactions.set(transaction.hash, transaction);
+            }
+          }
+        } catch (error: any) {
+          logger.error(`Failed to load monitored transactions: ${error.message}`);
+        }
+      })();
+    }
+    return this.loaded;
+  }
+  
+  /**
+   * 추적 시작
+   * 저장된 목록을 로드한 뒤 대기 중인 트랜잭션의 상태 확인을 주기적으로 수행합니다.
+   */
+  public async start(): Promise<void> {
+    await this.load();
+    
+    if (this.running) {
+      return;
+    }
+    
+    this.running = true;
+    this.scheduleNextPoll(0);
+  }
+  
+  /**
+   * 추적 중지
+   */
+  public stop(): void {
+    this.running = false;
+    
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+  
+  /**
+   * 트랜잭션 추가
+   * 
+   * @param transaction 제출된 트랜잭션 (해시 필수)
+   */
+  public async addTransaction(transaction: Transaction): Promise<void> {
+    if (!transaction.hash) {
+      throw new ValidationError('Transaction hash is required for monitoring', 'hash');
+    }
+    
+    await this.load();
+    
+    const tracked: Transaction = {
+      ...transaction,
+      meta: {
+        ...transaction.meta,
+        status: transaction.meta?.status || TransactionStatus.PENDING,
+        submittedAt: transaction.meta?.submittedAt || Date.now()
+      }
+    };
+    
+    this.transactions.set(transaction.hash, tracked);
+    await this.save();
+    
+    this.emit({ type: TransactionMonitorEventType.ADDED, transaction: tracked });
+  }
+  
+  /**
+   * 트랜잭션 제거
+   * 
+   * @param hash 트랜잭션 해시
+   * @returns 제거 여부
+   */
+  public async removeTransaction(hash: string): Promise<boolean> {
+    await this.load();
+    
+    const transaction = this.transactions.get(hash);
+    if (!transaction) {
+      return false;
+    }
+    
+    this.transactions.delete(hash);
+    this.receipts.delete(hash);
+    this.rejectWaiters(hash, new TransactionError(`Transaction ${hash} is no longer monitored`));
+    await this.save();
+    
+    this.emit({ type: TransactionMonitorEventType.REMOVED, transaction });
+    return true;
+  }
+  
+  /**
+   * 트랜잭션 조회
+   * 
+   * @param hash 트랜잭션 해시
+   * @returns 트랜잭션 또는 null
+   */
+  public async getTransaction(hash: string): Promise<Transaction | null> {
+    await this.load();
+    return this.transactions.get(hash) || null;
+  }
+  
+  /**
+   * 트랜잭션 업데이트
+   * 
+   * @param hash 트랜잭션 해시
+   * @param update 변경할 필드
+   * @returns 업데이트된 트랜잭션
+   */
+  public async updateTransaction(hash: string, update: Partial<Transaction>): Promise<Transaction> {
+    await this.load();
+    
+    const transaction = this.transactions.get(hash);
+    if (!transaction) {
+      throw new NotFoundError(`Transaction ${hash} is not monitored`, 'transaction');
+    }
+    
+    const updated: Transaction = {
+      ...transaction,
+      ...update,
+      hash,
+      meta: { ...transaction.meta!, ...update.meta }
+    };
+    
+    this.transactions.set(hash, updated);
+    await this.save();
+    
+    this.emit({ type: TransactionMonitorEventType.UPDATED, transaction: updated });
+    return updated;
+  }
+  
+  /**
+   * 대기 중인 트랜잭션 조회
+   * 
+   * @returns 대기 중인 트랜잭션 목록 (제출 순)
+   */
+  public async getPendingTransactions(): Promise<Transaction[]> {
+    await this.load();
+    return this.sortBySubmittedAt(
+      Array.from(this.transactions.values()).filter(transaction => !isFinalized(transaction))
+    );
+  }
+  
+  /**
+   * 주소별 트랜잭션 조회
+   * 
+   * @param address 주소 (발신자 또는 수신자)
+   * @returns 트랜잭션 목록 (최신 순)
+   */
+  public async getTransactionsByAddress(address: string): Promise<Transaction[]> {
+    await this.load();
+    
+    const target = address.toLowerCase();
+    return this.sortBySubmittedAt(
+      Array.from(this.transactions.values()).filter(transaction =>
+        transaction.from.toLowerCase() === target || transaction.to?.toLowerCase() === target
+      )
+    ).reverse();
+  }
+  
+  /**
+   * 트랜잭션 가속
+   * 같은 논스로 수수료를 올린 트랜잭션을 전송하고 추적 목록에 추가합니다.
+   * 원본 트랜잭션은 둘 중 하나가 블록에 포함될 때까지 대기 상태로 유지됩니다.
+   * 
+   * @param hash 원본 트랜잭션 해시
+   * @param options 가속 옵션
+   * @returns 가속 트랜잭션
+   */
+  public async speedUpTransaction(hash: string, options: SpeedUpOptions): Promise<Transaction> {
+    const { transaction, provider } = await this.getReplaceableTransaction(hash);
+    const replacement = await buildSpeedUpTransaction(provider, transaction, options);
+    
+    return this.sendReplacement({
+      ...replacement,
+      meta: { ...transaction.meta!, isSpeedUp: true }
+    });
+  }
+  
+  /**
+   * 트랜잭션 취소
+   * 같은 논스로 자신에게 0 금액을 보내는 트랜잭션을 전송하고 추적 목록에 추가합니다.
+   * 
+   * @param hash 원본 트랜잭션 해시
+   * @param options 취소 옵션
+   * @returns 취소 트랜잭션
+   */
+  public async cancelTransaction(hash: string, options: CancelOptions): Promise<Transaction> {
+    const { transaction, provider } = await this.getReplaceableTransaction(hash);
+    const replacement = await buildCancelTransaction(provider, transaction, options);
+    
+    return this.sendReplacement({
+      ...replacement,
+      meta: { status: TransactionStatus.PENDING, submittedAt: Date.now(), isCancel: true }
+    });
+  }
+  
+  /**
+   * 트랜잭션 확인 대기
+   * 실패, 대체, 삭제된 경우 TransactionError로 거부됩니다.
+   * 
+   * @param hash 트랜잭션 해시
+   * @param confirmations 확인 수 (기본값: 1)
+   * @returns 트랜잭션 영수증
+   */
+  public async waitForTransaction(hash: string, confirmations: number = 1): Promise<TransactionReceipt> {
+    await this.load();
+    
+    const transaction = this.transactions.get(hash);
+    if (!transaction) {
+      throw new NotFoundError(`Transaction ${hash} is not monitored`, 'transaction');
+    }
+    
+    if (isFinalized(transaction) && transaction.meta!.status !== TransactionStatus.CONFIRMED) {
+      throw this.createFinalizedError(transaction);
+    }
+    
+    return new Promise<TransactionReceipt>((resolve, reject) => {
+      const waiters = this.waiters.get(hash) || [];
+      waiters.push({ confirmations, resolve, reject });
+      this.waiters.set(hash, waiters);
+      
+      // 이미 확인된 트랜잭션은 다음 상태 확인을 기다리지 않음
+      if (transaction.meta!.status === TransactionStatus.CONFIRMED) {
+        this.checkConfirmations(transaction).catch(error => {
+          logger.warn(`Failed to check confirmations for ${hash}: ${error.message}`);
+        });
+      }
+    });
+  }
+  
+  /**
+   * 대기 중인 트랜잭션 상태 확인
+   * 주기적 확인과 별개로 즉시 상태를 갱신할 때 호출합니다.
+   */
+  public async checkPendingTransactions(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    
+    this.polling = true;
+    
+    try {
+      await this.load();
+      
+      for (const pending of await this.getPendingTransactions()) {
+        // 앞선 확인에서 대체 트랜잭션으로 함께 처리되었을 수 있음
+        const transaction = this.transactions.get(pending.hash!);
+        if (!transaction || isFinalized(transaction)) {
+          continue;
+        }
+        
+        try {
+          await this.checkTransaction(transaction);
+        } catch (error: any) {
+          logger.warn(`Failed to check transaction ${transaction.hash}: ${error.message}`);
+        }
+      }
+      
+      // 확인 수를 기다리는 확인된 트랜잭션
+      for (const hash of Array.from(this.waiters.keys())) {
+        const transaction = this.transactions.get(hash);
+        if (transaction && transaction.meta?.status === TransactionStatus.CONFIRMED) {
+          await this.checkConfirmations(transaction).catch(error => {
+            logger.warn(`Failed to check confirmations for ${hash}: ${error.message}`);
+          });
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+  
+  /**
+   * 이벤트 리스너 추가
+   * 
+   * @param event 이벤트 타입
+   * @param listener 리스너 함수
+   */
+  public on(event: TransactionMonitorEventType, listener: TransactionMonitorListener): void {
+    if (!this.eventHandlers[event]) {
+      this.eventHandlers[event] = [];
+    }
+    this.eventHandlers[event].push(listener);
+  }
+  
+  /**
+   * 이벤트 리스너 한 번만 추가
+   * 
+   * @param event 이벤트 타입
+   * @param listener 리스너 함수
+   */
+  public once(event: TransactionMonitorEventType, listener: TransactionMonitorListener): void {
+    const onceListener: TransactionMonitorListener = (payload) => {
+      this.off(event, onceListener);
+      listener(payload);
+    };
+    this.on(event, onceListener);
+  }
+  
+  /**
+   * 이벤트 리스너 제거
+   * 
+   * @param event 이벤트 타입
+   * @param listener 리스너 함수
+   */
+  public off(event: TransactionMonitorEventType, listener: TransactionMonitorListener): void {
+    if (!this.eventHandlers[event]) {
+      return;
+    }
+    this.eventHandlers[event] = this.eventHandlers[event].filter(l => l !== listener);
+  }
+  
+  /**
+   * 모든 이벤트 리스너 제거
+   * 
+   * @param event 이벤트 타입 (선택 사항)
+   */
+  public removeAllListeners(event?: TransactionMonitorEventType): void {
+    if (event) {
+      this.eventHandlers[event] = [];
+    } else {
+      this.eventHandlers = {};
+    }
+  }
+  
+  /**
+   * 이벤트 발생
+   * 
+   * @param event 이벤트
+   */
+  private emit(event: TransactionMonitorEvent): void {
+    const listeners = this.eventHandlers[event.type];
+    if (!listeners) {
+      return;
+    }
+    
+    for (const listener of [...listeners]) {
+      try {
+        listener(event);
+      } catch (error: any) {
+        logger.error(`Error in transaction monitor listener for ${event.type}: ${error.message}`);
+      }
+    }
+  }
+  
+  /**
+   * 다음 상태 확인 예약
+   * 
+   * @param delay 지연 시간 (밀리초)
+   */
+  private scheduleNextPoll(delay: number): void {
+    this.pollTimer = setTimeout(async () => {
+      this.pollTimer = null;
+      
+      try {
+        await this.checkPendingTransactions();
+      } catch (error: any) {
+        logger.error(`Transaction polling error: ${error.message}`);
+      }
+      
+      if (this.running) {
+        this.scheduleNextPoll(this.options.pollingInterval);
+      }
+    }, delay);
+  }
+  
+  /**
+   * 트랜잭션 하나의 상태 확인
+   * 
+   * @param transaction 대기 중인 트랜잭션
+   */
+  private async checkTransaction(transaction: Transaction): Promise<void> {
+    const provider = await this.resolveProvider(transaction.chainId);
+    if (!provider) {
+      return;
+    }
+    
+    const hash = transaction.hash!;
+    const receipt = await provider.getTransactionReceipt(hash);
+    if (receipt) {
+      await this.settle(transaction, receipt);
+      return;
+    }
+    
+    if (transaction.nonce === undefined) {
+      await this.checkDropped(provider, transaction);
+      return;
+    }
+    
+    // 계정 논스가 이 트랜잭션의 논스를 지났다면 같은 논스의 다른 트랜잭션이 블록에 포함된 것
+    const accountNonce = await provider.getNonce(transaction.from);
+    if (accountNonce <= transaction.nonce) {
+      await this.checkDropped(provider, transaction);
+      return;
+    }
+    
+    // 영수증 조회와 논스 조회 사이에 블록에 포함되었을 수 있으므로 다시 확인
+    const lateReceipt = await provider.getTransactionReceipt(hash);
+    if (lateReceipt) {
+      await this.settle(transaction, lateReceipt);
+      return;
+    }
+    
+    // 추적 중인 같은 논스의 트랜잭션 중 블록에 포함된 것을 찾음
+    for (const sibling of this.getSiblings(transaction)) {
+      const siblingReceipt = this.receipts.get(sibling.hash!) || await provider.getTransactionReceipt(sibling.hash!);
+      
+      if (siblingReceipt) {
+        if (!isFinalized(sibling)) {
+          await this.settle(sibling, siblingReceipt);
+        }
+        await this.finalize(transaction, TransactionStatus.REPLACED, {
+          replacedBy: sibling.hash,
+          error: 'Transaction was replaced by another transaction with the same nonce'
+        });
+        return;
+      }
+    }
+    
+    // 지갑이 모르는 트랜잭션이 논스를 사용함 (다른 지갑에서 전송 등)
+    await this.finalize(transaction, TransactionStatus.DROPPED, {
+      error: 'Transaction nonce was used by another transaction'
+    });
+  }
+  
+  /**
+   * 노드가 트랜잭션을 알고 있는지 확인하고, 오래 사라진 트랜잭션은 삭제됨으로 처리
+   * 
+   * @param provider 프로바이더
+   * @param transaction 대기 중인 트랜잭션
+   */
+  private async checkDropped(provider: IProvider, transaction: Transaction): Promise<void> {
+    if (Date.now() - transaction.meta!.submittedAt < this.options.droppedTimeout) {
+      return;
+    }
+    
+    const known = await provider.getTransaction(transaction.hash!);
+    if (!known) {
+      await this.finalize(transaction, TransactionStatus.DROPPED, {
+        error: 'Transaction was dropped from the mempool'
+      });
+    }
+  }
+  
+  /**
+   * 영수증으로 트랜잭션 확정
+   * 
+   * @param transaction 트랜잭션
+   * @param receipt 영수증
+   */
+  private async settle(transaction: Transaction, receipt: TransactionReceipt): Promise<void> {
+    this.receipts.set(transaction.hash!, receipt);
+    
+    const succeeded = Number(receipt.status) === 1;
+    const now = Date.now();
+    
+    await this.finalize(
+      transaction,
+      succeeded ? TransactionStatus.CONFIRMED : TransactionStatus.FAILED,
+      {
+        blockNumber: receipt.blockNumber,
+        blockHash: receipt.blockHash,
+        gasUsed: receipt.gasUsed?.toString(),
+        effectiveGasPrice: receipt.effectiveGasPrice?.toString(),
+        ...(succeeded ? { confirmedAt: now } : { failedAt: now, error: 'Transaction reverted' })
+      },
+      receipt
+    );
+  }
+  
+  /**
+   * 트랜잭션 최종 상태 기록 및 이벤트 발생
+   * 
+   * @param transaction 트랜잭션
+   * @param status 최종 상태
+   * @param meta 추가 메타데이터
+   * @param receipt 영수증 (확인/실패 시)
+   */
+  private async finalize(
+    transaction: Transaction,
+    status: TransactionStatus,
+    meta: Partial<NonNullable<Transaction['meta']>>,
+    receipt?: TransactionReceipt
+  ): Promise<void> {
+    const hash = transaction.hash!;
+    const finalized: Transaction = {
+      ...transaction,
+      meta: { ...transaction.meta!, ...meta, status }
+    };
+    
+    this.transactions.set(hash, finalized);
+    this.pruneHistory();
+    await this.save();
+    
+    this.emit({ type: STATUS_EVENT_TYPES[status]!, transaction: finalized, receipt, replacedBy: finalized.meta!.replacedBy });
+    
+    if (status === TransactionStatus.CONFIRMED) {
+      await this.checkConfirmations(finalized);
+    } else {
+      this.rejectWaiters(hash, this.createFinalizedError(finalized));
+    }
+  }
+  
+  /**
+   * 확인 수를 채운 대기 호출 처리
+   * 
+   * @param transaction 확인된 트랜잭션
+   */
+  private async checkConfirmations(transaction: Transaction): Promise<void> {
+    const hash = transaction.hash!;
+    const waiters = this.waiters.get(hash);
+    if (!waiters || waiters.length === 0) {
+      return;
+    }
+    
+    const provider = await this.resolveProvider(transaction.chainId);
+    let receipt = this.receipts.get(hash) || null;
+    
+    // 재시작 후에는 영수증이 메모리에 없으므로 다시 조회
+    if (!receipt && provider) {
+      receipt = await provider.getTransactionReceipt(hash);
+      if (receipt) {
+        this.receipts.set(hash, receipt);
+      }
+    }
+    
+    if (!receipt) {
+      return;
+    }
+    
+    // 한 번의 확인만 기다리는 경우 블록 번호 조회 생략
+    const needsBlockNumber = waiters.some(waiter => waiter.confirmations > 1);
+    const confirmations = needsBlockNumber && provider
+      ? Math.max((await provider.getBlockNumber()) - receipt.blockNumber + 1, receipt.confirmations || 0)
+      : Math.max(receipt.confirmations || 0, 1);
+    
+    const remaining: TransactionWaiter[] = [];
+    for (const waiter of waiters) {
+      if (confirmations >= waiter.confirmations) {
+        waiter.resolve({ ...receipt, confirmations });
+      } else {
+        remaining.push(waiter);
+      }
+    }
+    
+    if (remaining.length > 0) {
+      this.waiters.set(hash, remaining);
+    } else {
+      this.waiters.delete(hash);
+    }
+  }
+  
+  /**
+   * 대기 호출 거부
+   * 
+   * @param hash 트랜잭션 해시
+   * @param error 오류
+   */
+  private rejectWaiters(hash: string, error: Error): void {
+    const waiters = this.waiters.get(hash);
+    if (!waiters) {
+      return;
+    }
+    
+    this.waiters.delete(hash);
+    waiters.forEach(waiter => waiter.reject(error));
+  }
+  
+  /**
+   * 완료된 트랜잭션의 오류 생성
+   * 
+   * @param transaction 실패/대체/삭제된 트랜잭션
+   */
+  private createFinalizedError(transaction: Transaction): TransactionError {
+    const { status, replacedBy } = transaction.meta!;
+    
+    if (status === TransactionStatus.REPLACED) {
+      return new TransactionError(`Transaction ${transaction.hash} was replaced${replacedBy ? ` by ${replacedBy}` : ''}`);
+    }
+    return new TransactionError(`Transaction ${transaction.hash} ${status}`);
+  }
+  
+  /**
+   * 같은 계정, 같은 논스로 추적 중인 다른 트랜잭션 조회
+   * 
+   * @param transaction 트랜잭션
+   */
+  private getSiblings(transaction: Transaction): Transaction[] {
+    return Array.from(this.transactions.values()).filter(candidate =>
+      candidate.hash !== transaction.hash &&
+      candidate.chainId === transaction.chainId &&
+      candidate.nonce === transaction.nonce &&
+      candidate.from.toLowerCase() === transaction.from.toLowerCase()
+    );
+  }
+  
+  /**
+   * 가속/취소할 수 있는 트랜잭션과 프로바이더 조회
+   * 
+   * @param hash 트랜잭션 해시
+   */
+  private async getReplaceableTransaction(hash: string): Promise<{ transaction: Transaction; provider: IProvider }> {
+    await this.load();
+    
+    const transaction = this.transactions.get(hash);
+    if (!transaction) {
+      throw new NotFoundError(`Transaction ${hash} is not monitored`, 'transaction');
+    }
+    
+    if (isFinalized(transaction)) {
+      throw new TransactionError(`Transaction ${hash} is no longer pending`);
+    }
+    
+    if (!this.options.sender) {
+      throw new TransactionError('A transaction sender is required to replace transactions');
+    }
+    
+    const provider = await this.resolveProvider(transaction.chainId);
+    if (!provider) {
+      throw new TransactionError(`No provider available for chainId ${transaction.chainId}`);
+    }
+    
+    return { transaction, provider };
+  }
+  
+  /**
+   * 대체 트랜잭션 전송 및 추적 시작
+   * 
+   * @param replacement 대체 트랜잭션
+   * @returns 추적 중인 대체 트랜잭션
+   */
+  private async sendReplacement(replacement: Transaction): Promise<Transaction> {
+    const unsigned: Transaction = { ...replacement };
+    delete unsigned.hash;
+    delete unsigned.meta;
+    
+    const hash = await this.options.sender!(unsigned);
+    
+    await this.addTransaction({
+      ...unsigned,
+      hash,
+      meta: { ...replacement.meta!, status: TransactionStatus.PENDING, submittedAt: Date.now() }
+    });
+    
+    return this.transactions.get(hash)!;
+  }
+  
+  /**
+   * 오래된 완료 트랜잭션 정리
+   */
+  private pruneHistory(): void {
+    const finalized = this.sortBySubmittedAt(
+      Array.from(this.transactions.values()).filter(isFinalized)
+    );
+    
+    const excess = finalized.length - this.options.maxHistory;
+    for (let i = 0; i < excess; i++) {
+      this.transactions.delete(finalized[i].hash!);
+      this.receipts.delete(finalized[i].hash!);
+    }
+  }
+  
+  /**
+   * 추적 목록 저장
+   */
+  private async save(): Promise<void> {
+    try {
+      await this.store.setItem(this.options.storageKey, Array.from(this.transactions.values()));
+    } catch (error: any) {
+      logger.error(`Failed to save monitored transactions: ${error.message}`);
+    }
+  }
+  
+  /**
+   * 제출 시간 순 정렬
+   * 
+   * @param transactions 트랜잭션 목록
+   */
+  private sortBySubmittedAt(transactions: Transaction[]): Transaction[] {
+    return transactions.sort((a, b) => (a.meta?.submittedAt || 0) - (b.meta?.submittedAt || 0));
+  }
+}
@@ -6,8 +6,9 @@
 import { Transaction, TransactionType, GasEstimate, SpeedUpOptions, CancelOptions } from '../types/transactions.types';
 import { IProvider } from './providers/provider.interface';
 import { createLogger } from '../utils/logging';
-import { Wallet, TransactionRequest, parseEther, TransactionResponse, TransactionReceipt } from 'ethers';
+import { Wallet, TransactionRequest, parseEther, TransactionResponse, TransactionReceipt, Transaction as EthersTransaction } from 'ethers';
 import { normalizeAddress } from '../utils/address';
+import { NonceManager } from './nonceManager';
 
 // 로거 생성
 const logger = createLogger('Transactions');
@@ -314,14 +315,28 @@ export function applyGasSettings(transaction: Transaction, gasEstimate: GasEstim
 
 /**
  * 트랜잭션 서명
+ * 논스가 없는 트랜잭션은 논스 관리자에서 논스를 발급받아 서명하며, 서명에 실패하면 발급을 취소합니다.
  * 
  * @param privateKey 개인키
  * @param transaction 트랜잭션
+ * @param nonceManager 논스 관리자 (선택 사항)
  * @returns 서명된 트랜잭션 (16진수 문자열)
  */
-export async function signTransaction(privateKey: string, transaction: Transaction): Promise<string> {
+export async function signTransaction(
+  privateKey: string,
+  transaction: Transaction,
+  nonceManager?: NonceManager
+): Promise<string> {
+  let reservedNonce: number | undefined;
+  let signerAddress = '';
+  
   try {
     const wallet = new Wallet(privateKey);
+    signerAddress = wallet.address;
+    
+    if (transaction.nonce === undefined && nonceManager) {
+      reservedNonce = await nonceManager.reserveNonce(transaction.chainId, wallet.address);
+    }
     
     // 트랜잭션 요청 객체 생성
     const txRequest: TransactionRequest = {
@@ -330,7 +345,7 @@ export async function signTransaction(privateKey: string, transaction: Transacti
       data: transaction.data,
       value: transaction.value,
       chainId: transaction.chainId,
-      nonce: transaction.nonce,
+      nonce: transaction.nonce ?? reservedNonce,
       gasLimit: transaction.gasLimit,
       type: transaction.type
     };
@@ -353,6 +368,10 @@ export async function signTransaction(privateKey: string, transaction: Transacti
     const signedTx = await wallet.signTransaction(txRequest);
     return signedTx;
   } catch (error) {
+    if (reservedNonce !== undefined) {
+      nonceManager!.releaseNonce(transaction.chainId, signerAddress, reservedNonce);
+    }
+    
     logger.error(`Failed to sign transaction: ${error.message}`);
     throw error;
   }
@@ -360,15 +379,33 @@ export async function signTransaction(privateKey: string, transaction: Transacti
 
 /**
  * 트랜잭션 전송
+ * 논스 관리자를 전달하면 전송 결과에 따라 발급된 논스를 전송 완료로 표시하거나 반환합니다.
  * 
  * @param provider 프로바이더
  * @param signedTransaction 서명된 트랜잭션
+ * @param nonceManager 논스 관리자 (선택 사항)
  * @returns 트랜잭션 해시
  */
-export async function sendTransaction(provider: IProvider, signedTransaction: string): Promise<string> {
+export async function sendTransaction(
+  provider: IProvider,
+  signedTransaction: string,
+  nonceManager?: NonceManager
+): Promise<string> {
+  const signed = nonceManager ? EthersTransaction.from(signedTransaction) : null;
+  
   try {
-    return await provider.sendTransaction(signedTransaction);
+    const txHash = await provider.sendTransaction(signedTransaction);
+    
+    if (signed) {
+      nonceManager!.markNonceSubmitted(Number(signed.chainId), signed.from!, signed.nonce);
+    }
+    
+    return txHash;
   } catch (error) {
+    if (signed) {
+      nonceManager!.releaseNonce(Number(signed.chainId), signed.from!, signed.nonce);
+    }
+    
     logger.error(`Failed to send transaction: ${error.message}`);
     throw error;
   }
@@ -539,13 +576,18 @@ export async function cancelTransaction(
 
 /**
  * 트랜잭션 논스 계산
+ * 논스 관리자를 전달하면 아직 블록에 포함되지 않은 지갑의 트랜잭션까지 고려합니다.
  * 
  * @param provider 프로바이더
  * @param address 주소
+ * @param nonceManager 논스 관리자 (선택 사항)
  * @returns 다음 논스
  */
-export async function getNextNonce(provider: IProvider, address: string): Promise<number> {
+export async function getNextNonce(provider: IProvider, address: string, nonceManager?: NonceManager): Promise<number> {
   try {
+    if (nonceManager) {
+      return await nonceManager.getNextNonce(provider.chainId, address);
+    }
     return await provider.getNonce(address);
   } catch (error) {
     logger.error(`Failed to get nonce for ${address}: ${error.message}`);
@@ -97,10 +97,12 @@ export class BIP32 implements BIP32Interface {
    * @param passphrase 추가 패스프레이즈 (선택 사항)
    */
   constructor(mnemonic: string | Mnemonic, passphrase: string = '') {
+    // 경로를 생략하면 ethers가 m/44'/60'/0'/0/0 노드를 반환하므로 루트(m)를 명시
     if (typeof mnemonic === 'string') {
-      this.rootNode = HDNodeWallet.fromPhrase(mnemonic, passphrase);
+      this.rootNode = HDNodeWallet.fromPhrase(mnemonic, passphrase, 'm');
     } else {
-      this.rootNode = HDNodeWallet.fromMnemonic(mnemonic, passphrase);
+      // Mnemonic 객체는 패스프레이즈를 포함하고 있음
+      this.rootNode = HDNodeWallet.fromMnemonic(mnemonic, 'm');
     }
   }
   
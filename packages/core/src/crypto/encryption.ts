@@ -56,6 +56,8 @@ export interface EncryptionOptions {
  * @param password 암호화에 사용할 비밀번호
  * @param options 암호화 옵션
  * @returns 암호화된 데이터 (Base64 인코딩)
+ * @deprecated 인증 태그가 없는 AES-CBC와 PBKDF2 1000회 반복을 사용합니다. 새 데이터는 vault 모듈의 encryptVault를 사용하세요.
+ *             기존 데이터는 unlockVault로 복호화하면 볼트 형식으로 다시 암호화됩니다.
  */
 export function encrypt(
   data: string,
@@ -180,6 +182,7 @@ export function decrypt(encryptedData: string, password: string): string {
  * @param data 암호화할 데이터
  * @param password 암호화에 사용할 비밀번호
  * @returns 암호화된 데이터 (Base64 인코딩)
+ * @deprecated 비밀번호를 MD5 기반 EVP_BytesToKey로 키로 바꾸므로 무차별 대입에 약합니다. vault 모듈의 encryptVault를 사용하세요.
  */
 export function simpleEncrypt(data: string, password: string): string {
   return CryptoJS.AES.encrypt(data, password).toString();
@@ -0,0 +1,272 @@
+/**
+ * @file cbor.ts
+ * @description UR 레지스트리 항목을 위한 최소 CBOR(RFC 8949) 인코더/디코더
+ * 
+ * 정수, 바이트 문자열, 텍스트, 배열, 맵, 태그, true/false/null/undefined만 지원합니다.
+ * 부동소수점과 길이 미정(indefinite length) 항목은 UR 레지스트리에서 쓰이지 않으므로 거부합니다.
+ */
+
+import { toUtf8Bytes, toUtf8String } from 'ethers';
+import { ValidationError } from '../../utils/errors';
+
+/**
+ * CBOR 태그 값
+ */
+export class CborTag {
+  constructor(public readonly tag: number, public readonly value: CborValue) {}
+}
+
+/**
+ * CBOR로 표현할 수 있는 값
+ */
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | Map<CborValue, CborValue>
+  | CborTag;
+
+// 주요 타입 (상위 3비트)
+enum MajorType {
+  UNSIGNED = 0,
+  NEGATIVE = 1,
+  BYTES = 2,
+  TEXT = 3,
+  ARRAY = 4,
+  MAP = 5,
+  TAG = 6,
+  SIMPLE = 7
+}
+
+// 단순 값
+const SIMPLE_FALSE = 20;
+const SIMPLE_TRUE = 21;
+const SIMPLE_NULL = 22;
+const SIMPLE_UNDEFINED = 23;
+
+/**
+ * 값을 CBOR로 인코딩합니다.
+ * 
+ * @param value 인코딩할 값
+ * @returns CBOR 바이트
+ */
+export function encodeCbor(value: CborValue): Uint8Array {
+  const chunks: number[] = [];
+  writeValue(chunks, value);
+  return Uint8Array.from(chunks);
+}
+
+/**
+ * CBOR 바이트를 디코딩합니다.
+ * 안전한 정수 범위를 넘는 정수는 bigint로 반환합니다.
+ * 
+ * @param data CBOR 바이트
+ * @returns 디코딩된 값
+ */
+export function decodeCbor(data: Uint8Array): CborValue {
+  const reader = { data, offset: 0 };
+  const value = readValue(reader);
+  
+  if (reader.offset !== data.length) {
+    throw new ValidationError('CBOR 데이터 뒤에 남는 바이트가 있습니다.', 'cbor');
+  }
+  
+  return value;
+}
+
+/**
+ * 헤더(주요 타입 + 길이/값)를 씁니다.
+ */
+function writeHeader(chunks: number[], major: MajorType, length: number | bigint): void {
+  const value = BigInt(length);
+  const prefix = major << 5;
+  
+  if (value < BigInt(24)) {
+    chunks.push(prefix | Number(value));
+  } else if (value <= BigInt(0xff)) {
+    chunks.push(prefix | 24, Number(value));
+  } else if (value <= BigInt(0xffff)) {
+    chunks.push(prefix | 25, ...toBigEndian(value, 2));
+  } else if (value <= BigInt(0xffffffff)) {
+    chunks.push(prefix | 26, ...toBigEndian(value, 4));
+  } else if (value <= BigInt('0xffffffffffffffff')) {
+    chunks.push(prefix | 27, ...toBigEndian(value, 8));
+  } else {
+    throw new ValidationError('CBOR 정수 범위를 벗어났습니다.', 'cbor');
+  }
+}
+
+/**
+ * 값을 씁니다.
+ */
+function writeValue(chunks: number[], value: CborValue): void {
+  if (value === false) {
+    chunks.push((MajorType.SIMPLE << 5) | SIMPLE_FALSE);
+  } else if (value === true) {
+    chunks.push((MajorType.SIMPLE << 5) | SIMPLE_TRUE);
+  } else if (value === null) {
+    chunks.push((MajorType.SIMPLE << 5) | SIMPLE_NULL);
+  } else if (value === undefined) {
+    chunks.push((MajorType.SIMPLE << 5) | SIMPLE_UNDEFINED);
+  } else if (typeof value === 'number' || typeof value === 'bigint') {
+    if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+      throw new ValidationError(`CBOR 인코딩은 정수만 지원합니다: ${value}`, 'cbor');
+    }
+    
+    const integer = BigInt(value);
+    if (integer >= BigInt(0)) {
+      writeHeader(chunks, MajorType.UNSIGNED, integer);
+    } else {
+      writeHeader(chunks, MajorType.NEGATIVE, -integer - BigInt(1));
+    }
+  } else if (typeof value === 'string') {
+    const bytes = toUtf8Bytes(value);
+    writeHeader(chunks, MajorType.TEXT, bytes.length);
+    chunks.push(...bytes);
+  } else if (value instanceof Uint8Array) {
+    writeHeader(chunks, MajorType.BYTES, value.length);
+    chunks.push(...value);
+  } else if (Array.isArray(value)) {
+    writeHeader(chunks, MajorType.ARRAY, value.length);
+    value.forEach(item => writeValue(chunks, item));
+  } else if (value instanceof Map) {
+    writeHeader(chunks, MajorType.MAP, value.size);
+    value.forEach((item, key) => {
+      writeValue(chunks, key);
+      writeValue(chunks, item);
+    });
+  } else if (value instanceof CborTag) {
+    writeHeader(chunks, MajorType.TAG, value.tag);
+    writeValue(chunks, value.value);
+  } else {
+    throw new ValidationError('CBOR로 인코딩할 수 없는 값입니다.', 'cbor');
+  }
+}
+
+/**
+ * 디코딩 위치
+ */
+interface CborReader {
+  data: Uint8Array;
+  offset: number;
+}
+
+/**
+ * 지정한 길이의 바이트를 읽습니다.
+ */
+function readBytes(reader: CborReader, length: number): Uint8Array {
+  if (reader.offset + length > reader.data.length) {
+    throw new ValidationError('CBOR 데이터가 중간에 끝났습니다.', 'cbor');
+  }
+  
+  const bytes = reader.data.slice(reader.offset, reader.offset + length);
+  reader.offset += length;
+  return bytes;
+}
+
+/**
+ * 헤더의 길이/값을 읽습니다.
+ */
+function readArgument(reader: CborReader, info: number): bigint {
+  if (info < 24) {
+    return BigInt(info);
+  }
+  
+  const sizes: Record<number, number> = { 24: 1, 25: 2, 26: 4, 27: 8 };
+  const size = sizes[info];
+  if (!size) {
+    throw new ValidationError('길이 미정 또는 예약된 CBOR 항목은 지원하지 않습니다.', 'cbor');
+  }
+  
+  return readBytes(reader, size).reduce((acc, byte) => (acc << BigInt(8)) | BigInt(byte), BigInt(0));
+}
+
+/**
+ * 길이로 사용할 인자를 읽습니다.
+ */
+function readLength(reader: CborReader, info: number): number {
+  const length = readArgument(reader, info);
+  if (length > BigInt(reader.data.length - reader.offset)) {
+    throw new ValidationError('CBOR 항목 길이가 데이터보다 깁니다.', 'cbor');
+  }
+  return Number(length);
+}
+
+/**
+ * 값을 읽습니다.
+ */
+function readValue(reader: CborReader): CborValue {
+  const [initial] = readBytes(reader, 1);
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+  
+  switch (major) {
+    case MajorType.UNSIGNED:
+      return toInteger(readArgument(reader, info));
+    case MajorType.NEGATIVE:
+      return toInteger(-readArgument(reader, info) - BigInt(1));
+    case MajorType.BYTES:
+      return readBytes(reader, readLength(reader, info));
+    case MajorType.TEXT:
+      return toUtf8String(readBytes(reader, readLength(reader, info)));
+    case MajorType.ARRAY: {
+      const length = readLength(reader, info);
+      const items: CborValue[] = [];
+      for (let i = 0; i < length; i++) {
+        items.push(readValue(reader));
+      }
+      return items;
+    }
+    case MajorType.MAP: {
+      const length = readLength(reader, info);
+      const map = new Map<CborValue, CborValue>();
+      for (let i = 0; i < length; i++) {
+        const key = readValue(reader);
+        map.set(key, readValue(reader));
+      }
+      return map;
+    }
+    case MajorType.TAG: {
+      const tag = Number(readArgument(reader, info));
+      return new CborTag(tag, readValue(reader));
+    }
+    default:
+      switch (info) {
+        case SIMPLE_FALSE:
+          return false;
+        case SIMPLE_TRUE:
+          return true;
+        case SIMPLE_NULL:
+          return null;
+        case SIMPLE_UNDEFINED:
+          return undefined;
+        default:
+          throw new ValidationError('부동소수점 등 지원하지 않는 CBOR 단순 값입니다.', 'cbor');
+      }
+  }
+}
+
+/**
+ * 안전한 범위의 정수는 number로 바꿉니다.
+ */
+function toInteger(value: bigint): number | bigint {
+  return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)
+    ? Number(value)
+    : value;
+}
+
+/**
+ * 정수를 빅엔디언 바이트로 바꿉니다.
+ */
+function toBigEndian(value: bigint, size: number): number[] {
+  const bytes: number[] = [];
+  for (let i = size - 1; i >= 0; i--) {
+    bytes.push(Number((value >> BigInt(8 * i)) & BigInt(0xff)));
+  }
+  return bytes;
+}
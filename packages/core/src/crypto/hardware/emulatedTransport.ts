@@ -0,0 +1,231 @@
+/**
+ * @file emulatedTransport.ts
+ * @description 프로세스 내 하드웨어 지갑 에뮬레이터
+ * 
+ * 니모닉으로 BIP-44 키를 파생해 실제 디바이스처럼 주소 조회와 서명에 응답합니다.
+ * 사용자 승인/거절, 연결 끊김, 잠금 상태를 흉내 낼 수 있어 하드웨어 없이 전체 흐름을 테스트할 수 있습니다.
+ * 개인키를 메모리에 보관하므로 테스트와 개발 용도로만 사용해야 합니다.
+ */
+
+import { HDNodeWallet, concat, getBytes, hashMessage, keccak256 } from 'ethers';
+import { HardwareInfo } from '../../types/accounts.types';
+import { normalizeAddress } from '../../utils/address';
+import { DeviceError } from '../../utils/errors';
+import { BIP44 } from '../bip/bip44';
+import {
+  HardwareAddress,
+  HardwareSignature,
+  HardwareTransport,
+  HardwareTypedDataRequest
+} from './transport';
+
+/**
+ * 디바이스 화면에 표시되는 승인 요청 종류
+ */
+export enum EmulatedRequestKind {
+  TRANSACTION = 'transaction',
+  PERSONAL_MESSAGE = 'personal_message',
+  TYPED_DATA = 'typed_data'
+}
+
+/**
+ * 디바이스 승인 요청
+ */
+export interface EmulatedDeviceRequest {
+  kind: EmulatedRequestKind;
+  path: string; // 서명할 파생 경로
+  address: string; // 서명할 주소
+  payload: string; // 직렬화된 트랜잭션, 메시지 바이트 또는 EIP-712 다이제스트
+}
+
+/**
+ * 에뮬레이터 옵션
+ */
+export interface EmulatedHardwareTransportOptions {
+  mnemonic: string; // 디바이스 시드
+  passphrase?: string; // BIP-39 패스프레이즈 (숨겨진 지갑)
+  deviceInfo?: Partial<HardwareInfo>; // 보고할 디바이스 정보
+  confirm?: (request: EmulatedDeviceRequest) => boolean | Promise<boolean>; // 사용자 승인 흉내 (기본: 항상 승인)
+  locked?: boolean; // PIN 잠금 상태로 시작
+}
+
+/**
+ * 에뮬레이터 기본 디바이스 정보
+ */
+const DEFAULT_DEVICE_INFO: HardwareInfo = {
+  type: 'other',
+  deviceId: 'emulator',
+  model: 'CreLink Emulator',
+  firmwareVersion: '1.0.0'
+};
+
+/**
+ * 프로세스 내 하드웨어 지갑 에뮬레이터
+ */
+export class EmulatedHardwareTransport implements HardwareTransport {
+  private bip44: BIP44;
+  private deviceInfo: HardwareInfo;
+  private confirm: (request: EmulatedDeviceRequest) => boolean | Promise<boolean>;
+  private connected: boolean = true;
+  private locked: boolean;
+  private requests: EmulatedDeviceRequest[] = [];
+  
+  /**
+   * 에뮬레이터를 생성합니다.
+   * 
+   * @param options 에뮬레이터 옵션
+   */
+  constructor(options: EmulatedHardwareTransportOptions) {
+    this.bip44 = new BIP44(options.mnemonic, options.passphrase);
+    this.deviceInfo = { ...DEFAULT_DEVICE_INFO, ...options.deviceInfo };
+    this.confirm = options.confirm || (() => true);
+    this.locked = options.locked ?? false;
+  }
+  
+  /**
+   * 연결된 디바이스 정보를 반환합니다.
+   */
+  async getDeviceInfo(): Promise<HardwareInfo> {
+    this.assertReady();
+    return { ...this.deviceInfo, connected: true };
+  }
+  
+  /**
+   * 파생 경로의 주소와 공개키를 반환합니다.
+   * 
+   * @param path 파생 경로
+   */
+  async getAddress(path: string): Promise<HardwareAddress> {
+    this.assertReady();
+    const wallet = this.derive(path);
+    
+    return {
+      path,
+      address: normalizeAddress(wallet.address),
+      publicKey: wallet.publicKey
+    };
+  }
+  
+  /**
+   * 서명 전 직렬화된 트랜잭션의 keccak256 해시에 서명합니다.
+   * 
+   * @param path 파생 경로
+   * @param unsignedTransaction 서명 전 직렬화된 트랜잭션
+   */
+  async signTransaction(path: string, unsignedTransaction: string): Promise<HardwareSignature> {
+    return this.sign(EmulatedRequestKind.TRANSACTION, path, unsignedTransaction, keccak256(unsignedTransaction));
+  }
+  
+  /**
+   * EIP-191 접두사를 붙인 메시지 해시에 서명합니다.
+   * 
+   * @param path 파생 경로
+   * @param message 메시지 바이트 (16진수)
+   */
+  async signPersonalMessage(path: string, message: string): Promise<HardwareSignature> {
+    return this.sign(EmulatedRequestKind.PERSONAL_MESSAGE, path, message, hashMessage(getBytes(message)));
+  }
+  
+  /**
+   * 도메인 구분자와 메시지 해시로 EIP-712 다이제스트를 만들어 서명합니다.
+   * 
+   * @param path 파생 경로
+   * @param request 서명 요청
+   */
+  async signTypedData(path: string, request: HardwareTypedDataRequest): Promise<HardwareSignature> {
+    const digest = keccak256(concat(['0x1901', request.domainSeparator, request.messageHash]));
+    return this.sign(EmulatedRequestKind.TYPED_DATA, path, digest, digest);
+  }
+  
+  /**
+   * 연결을 종료합니다.
+   */
+  async close(): Promise<void> {
+    this.connected = false;
+  }
+  
+  /**
+   * 케이블 분리를 흉내 냅니다.
+   */
+  disconnect(): void {
+    this.connected = false;
+  }
+  
+  /**
+   * 다시 연결합니다.
+   */
+  reconnect(): void {
+    this.connected = true;
+  }
+  
+  /**
+   * PIN 잠금 상태를 바꿉니다.
+   * 
+   * @param locked 잠금 여부
+   */
+  setLocked(locked: boolean): void {
+    this.locked = locked;
+  }
+  
+  /**
+   * 디바이스에 표시된 승인 요청 기록을 반환합니다.
+   */
+  getRequests(): EmulatedDeviceRequest[] {
+    return [...this.requests];
+  }
+  
+  /**
+   * 사용자 승인을 받은 뒤 다이제스트에 서명합니다.
+   */
+  private async sign(
+    kind: EmulatedRequestKind,
+    path: string,
+    payload: string,
+    digest: string
+  ): Promise<HardwareSignature> {
+    this.assertReady();
+    const wallet = this.derive(path);
+    
+    const request: EmulatedDeviceRequest = {
+      kind,
+      path,
+      address: normalizeAddress(wallet.address),
+      payload
+    };
+    this.requests.push(request);
+    
+    if (!(await this.confirm(request))) {
+      throw new DeviceError('사용자가 디바이스에서 요청을 거부했습니다.');
+    }
+    
+    // 승인을 기다리는 동안 연결이 끊길 수 있음
+    this.assertReady();
+    
+    const signature = wallet.signingKey.sign(digest);
+    return { v: signature.v, r: signature.r, s: signature.s };
+  }
+  
+  /**
+   * 파생 경로의 키를 만듭니다.
+   */
+  private derive(path: string): HDNodeWallet {
+    try {
+      return this.bip44.getWallet(path);
+    } catch (error: any) {
+      throw new DeviceError(`디바이스가 파생 경로를 지원하지 않습니다: ${path}`);
+    }
+  }
+  
+  /**
+   * 연결과 잠금 상태를 확인합니다.
+   */
+  private assertReady(): void {
+    if (!this.connected) {
+      throw new DeviceError('하드웨어 지갑이 연결되어 있지 않습니다.');
+    }
+    
+    if (this.locked) {
+      throw new DeviceError('하드웨어 지갑이 잠겨 있습니다. 디바이스에서 PIN을 입력하세요.');
+    }
+  }
+}
@@ -0,0 +1,614 @@
+/**
+ * @file hardwareKeyring.ts
+ * @description 하드웨어 지갑 키링
+ * 
+ * 개인키는 디바이스 밖으로 나오지 않으며, 키링은 파생 경로와 공개 정보만 보관합니다.
+ * 트랜잭션, 개인 메시지, EIP-712 데이터를 인코딩해 전송 계층으로 디바이스에 서명을 요청하고,
+ * 돌아온 서명에서 복구한 주소가 계정 주소와 같은지 확인한 뒤 반환합니다.
+ */
+
+import {
+  Signature,
+  Transaction,
+  TransactionLike,
+  TypedDataEncoder,
+  getBytes,
+  hashMessage,
+  hexlify,
+  isHexString,
+  recoverAddress,
+  toUtf8Bytes
+} from 'ethers';
+import { MulticallTransport } from '../../chain/multicall';
+import { HardwareInfo, Keyring, KeyringAccount, KeyringType } from '../../types/accounts.types';
+import { normalizeAddress } from '../../utils/address';
+import {
+  CreLinkError,
+  DeviceError,
+  NotFoundError,
+  SignatureError,
+  UnsupportedFeatureError,
+  ValidationError
+} from '../../utils/errors';
+import { createLogger } from '../../utils/logging';
+import { CoinType } from '../bip/bip32';
+import { BIP44_PURPOSE, isValidBIP44Path } from '../bip/bip44';
+import { TypedDataPayload, parseTypedData } from '../typedData';
+import { HardwareSignature, HardwareTransport } from './transport';
+
+// 로거 생성
+const logger = createLogger('HardwareKeyring');
+
+/**
+ * 파생 경로 배치 방식
+ */
+export enum HardwarePathLayout {
+  // Ledger Live: m/44'/60'/i'/0/0
+  LEDGER_LIVE = 'ledger_live',
+  // BIP-44 표준 (MetaMask, Trezor): m/44'/60'/0'/0/i
+  BIP44 = 'bip44',
+  // 구형 Ledger (MEW): m/44'/60'/0'/i
+  LEGACY = 'legacy'
+}
+
+/**
+ * 계정 탐색에 사용할 RPC 전송 계층
+ */
+export type HardwareDiscoveryTransport = Pick<MulticallTransport, 'chainId' | 'send'>;
+
+/**
+ * 디바이스에서 조회한 계정 후보
+ */
+export interface HardwareAccountCandidate {
+  index: number; // 배치 방식 내 인덱스
+  path: string; // 파생 경로
+  address: string;
+  publicKey: string;
+  added: boolean; // 이미 키링에 추가된 계정인지 여부
+  used?: boolean; // 온체인 사용 이력 (탐색 시에만)
+  balance?: string; // 잔액 (wei, 탐색 시에만)
+  transactionCount?: number; // 보낸 트랜잭션 수 (탐색 시에만)
+}
+
+/**
+ * 계정 탐색 옵션
+ */
+export interface HardwareDiscoveryOptions {
+  layout?: HardwarePathLayout; // 배치 방식 (기본: 키링 설정)
+  start?: number; // 시작 인덱스
+  gapLimit?: number; // 연속으로 사용 이력이 없으면 탐색을 멈출 계정 수
+  maxAccounts?: number; // 최대 탐색 계정 수
+  rpc?: HardwareDiscoveryTransport; // 사용 이력 조회용 RPC (없으면 gapLimit 개수만 조회)
+}
+
+/**
+ * 계정 추가 옵션 (path 또는 index 중 하나)
+ */
+export interface HardwareAddAccountOptions {
+  path?: string; // 파생 경로 직접 지정
+  index?: number; // 배치 방식 내 인덱스 (기본: 다음 인덱스)
+}
+
+/**
+ * 하드웨어 키링 옵션
+ */
+export interface HardwareKeyringOptions {
+  transport?: HardwareTransport; // 디바이스 전송 계층
+  layout?: HardwarePathLayout; // 파생 경로 배치 방식
+  chainId?: number; // 계정의 기본 체인 ID
+  coinType?: number; // BIP-44 코인 타입
+}
+
+/**
+ * 직렬화된 하드웨어 키링 (공개 정보만 포함)
+ */
+export interface SerializedHardwareKeyring {
+  device: HardwareInfo | null;
+  layout: HardwarePathLayout;
+  chainId: number;
+  coinType: number;
+  accounts: Array<Pick<KeyringAccount, 'address' | 'publicKey' | 'index' | 'path'>>;
+}
+
+// 기본 탐색 간격 (연속 미사용 계정 수)
+const DEFAULT_GAP_LIMIT = 5;
+
+// 기본 최대 탐색 계정 수
+const DEFAULT_MAX_DISCOVERY = 20;
+
+// 구형 Ledger 경로 형식 (m/44'/coin'/0'/i)
+const LEGACY_PATH_PATTERN = /^m\/44'\/\d+'\/\d+'\/\d+$/;
+
+/**
+ * 배치 방식과 인덱스로 파생 경로를 만듭니다.
+ * 
+ * @param layout 배치 방식
+ * @param index 인덱스
+ * @param coinType 코인 타입
+ * @returns 파생 경로
+ */
+export function getHardwarePath(
+  layout: HardwarePathLayout,
+  index: number,
+  coinType: number = CoinType.ETHEREUM
+): string {
+  if (!Number.isInteger(index) || index < 0) {
+    throw new ValidationError(`유효하지 않은 계정 인덱스입니다: ${index}`, 'index');
+  }
+  
+  switch (layout) {
+    case HardwarePathLayout.LEDGER_LIVE:
+      return `m/${BIP44_PURPOSE}'/${coinType}'/${index}'/0/0`;
+    case HardwarePathLayout.LEGACY:
+      return `m/${BIP44_PURPOSE}'/${coinType}'/0'/${index}`;
+    default:
+      return `m/${BIP44_PURPOSE}'/${coinType}'/0'/0/${index}`;
+  }
+}
+
+/**
+ * 연속된 인덱스의 파생 경로 목록을 만듭니다.
+ * 
+ * @param layout 배치 방식
+ * @param start 시작 인덱스
+ * @param count 경로 수
+ * @param coinType 코인 타입
+ * @returns 파생 경로 목록
+ */
+export function getHardwarePaths(
+  layout: HardwarePathLayout,
+  start: number,
+  count: number,
+  coinType: number = CoinType.ETHEREUM
+): string[] {
+  return Array.from({ length: count }, (_, offset) => getHardwarePath(layout, start + offset, coinType));
+}
+
+/**
+ * 하드웨어 지갑에서 사용할 수 있는 파생 경로인지 확인합니다.
+ * 
+ * @param path 파생 경로
+ * @returns 유효 여부
+ */
+export function isValidHardwarePath(path: string): boolean {
+  return isValidBIP44Path(path) || LEGACY_PATH_PATTERN.test(path);
+}
+
+/**
+ * 하드웨어 지갑 키링
+ */
+export class HardwareKeyring implements Keyring {
+  readonly type = KeyringType.HARDWARE;
+  accounts: KeyringAccount[] = [];
+  
+  private transport: HardwareTransport | null;
+  private device: HardwareInfo | null = null;
+  private layout: HardwarePathLayout;
+  private chainId: number;
+  private coinType: number;
+  
+  /**
+   * 하드웨어 키링을 생성합니다.
+   * 
+   * @param options 키링 옵션
+   */
+  constructor(options: HardwareKeyringOptions = {}) {
+    this.transport = options.transport || null;
+    this.layout = options.layout || HardwarePathLayout.LEDGER_LIVE;
+    this.chainId = options.chainId || 1000;
+    this.coinType = options.coinType ?? CoinType.ETHEREUM;
+  }
+  
+  /**
+   * 디바이스에 연결하고 디바이스 정보를 확인합니다.
+   * 이전에 연결했던 디바이스와 다른 디바이스면 DeviceError를 던집니다.
+   * 
+   * @param transport 새 전송 계층 (선택 사항)
+   * @returns 디바이스 정보
+   */
+  async connect(transport?: HardwareTransport): Promise<HardwareInfo> {
+    if (transport) {
+      this.transport = transport;
+    }
+    
+    const info = await this.call(transport => transport.getDeviceInfo());
+    
+    if (this.device?.deviceId && info.deviceId && this.device.deviceId !== info.deviceId) {
+      this.transport = null;
+      throw new DeviceError('키링에 등록된 디바이스와 다른 하드웨어 지갑이 연결되었습니다.');
+    }
+    
+    this.device = {
+      ...this.device,
+      ...info,
+      connected: true,
+      pairedAt: this.device?.pairedAt || Date.now()
+    };
+    
+    logger.debug(`하드웨어 지갑 연결: ${info.type} ${info.model || ''}`);
+    return { ...this.device };
+  }
+  
+  /**
+   * 디바이스 연결을 종료합니다. 계정 정보는 유지됩니다.
+   */
+  async disconnect(): Promise<void> {
+    if (this.transport) {
+      await this.transport.close();
+      this.transport = null;
+    }
+    
+    if (this.device) {
+      this.device = { ...this.device, connected: false };
+    }
+  }
+  
+  /**
+   * 디바이스 정보를 반환합니다.
+   */
+  getDeviceInfo(): HardwareInfo | null {
+    return this.device ? { ...this.device } : null;
+  }
+  
+  /**
+   * 파생 경로 배치 방식을 반환합니다.
+   */
+  getLayout(): HardwarePathLayout {
+    return this.layout;
+  }
+  
+  /**
+   * 파생 경로 배치 방식을 바꿉니다. 이미 추가된 계정의 경로는 바뀌지 않습니다.
+   * 
+   * @param layout 배치 방식
+   */
+  setLayout(layout: HardwarePathLayout): void {
+    this.layout = layout;
+  }
+  
+  /**
+   * 디바이스에서 연속된 인덱스의 계정 후보를 조회합니다. (계정 선택 화면의 한 페이지)
+   * 
+   * @param start 시작 인덱스
+   * @param count 조회할 계정 수
+   * @param layout 배치 방식 (기본: 키링 설정)
+   * @returns 계정 후보 목록
+   */
+  async getCandidates(
+    start: number,
+    count: number,
+    layout: HardwarePathLayout = this.layout
+  ): Promise<HardwareAccountCandidate[]> {
+    const candidates: HardwareAccountCandidate[] = [];
+    
+    for (let index = start; index < start + count; index++) {
+      candidates.push(await this.getCandidate(layout, index));
+    }
+    
+    return candidates;
+  }
+  
+  /**
+   * 사용 이력이 있는 계정을 찾습니다.
+   * 인덱스 순서대로 조회하다가 gapLimit개 계정이 연속으로 사용 이력이 없으면 멈추고,
+   * 조회한 계정 후보를 모두 반환합니다. RPC가 없으면 gapLimit개 계정만 조회합니다.
+   * 
+   * @param options 탐색 옵션
+   * @returns 조회한 계정 후보 목록
+   */
+  async discoverAccounts(options: HardwareDiscoveryOptions = {}): Promise<HardwareAccountCandidate[]> {
+    const {
+      layout = this.layout,
+      start = 0,
+      gapLimit = DEFAULT_GAP_LIMIT,
+      maxAccounts = DEFAULT_MAX_DISCOVERY,
+      rpc
+    } = options;
+    
+    if (!rpc) {
+      return this.getCandidates(start, gapLimit, layout);
+    }
+    
+    const candidates: HardwareAccountCandidate[] = [];
+    let gap = 0;
+    
+    for (let index = start; index < start + maxAccounts && gap < gapLimit; index++) {
+      const candidate = await this.getCandidate(layout, index);
+      
+      try {
+        const [transactionCount, balance] = await Promise.all([
+          rpc.send('eth_getTransactionCount', [candidate.address, 'latest']),
+          rpc.send('eth_getBalance', [candidate.address, 'latest'])
+        ]);
+        candidate.transactionCount = Number(BigInt(transactionCount));
+        candidate.balance = BigInt(balance).toString();
+        candidate.used = candidate.transactionCount > 0 || BigInt(balance) > BigInt(0);
+      } catch (error: any) {
+        logger.warn(`계정 사용 이력 조회 실패 (${candidate.address}): ${error.message}`);
+        candidate.used = false;
+      }
+      
+      gap = candidate.used ? 0 : gap + 1;
+      candidates.push(candidate);
+    }
+    
+    return candidates;
+  }
+  
+  /**
+   * 디바이스의 계정을 키링에 추가합니다.
+   * 
+   * @param options 파생 경로 또는 인덱스 (기본: 배치 방식의 다음 인덱스)
+   * @returns 추가된 계정
+   */
+  async addAccount(options: HardwareAddAccountOptions = {}): Promise<KeyringAccount> {
+    const index = options.index ?? this.getNextIndex();
+    const path = options.path || getHardwarePath(this.layout, index, this.coinType);
+    
+    if (!isValidHardwarePath(path)) {
+      throw new ValidationError(`유효하지 않은 파생 경로입니다: ${path}`, 'path');
+    }
+    
+    const { address, publicKey } = await this.call(transport => transport.getAddress(path));
+    const normalized = normalizeAddress(address);
+    
+    const existing = this.accounts.find(account => account.address === normalized);
+    if (existing) {
+      return existing;
+    }
+    
+    const account: KeyringAccount = {
+      address: normalized,
+      privateKey: '',
+      publicKey,
+      index,
+      chainId: this.chainId,
+      path
+    };
+    
+    this.accounts.push(account);
+    return account;
+  }
+  
+  /**
+   * 계정을 제거합니다.
+   * 
+   * @param address 계정 주소
+   * @returns 제거 여부
+   */
+  async removeAccount(address: string): Promise<boolean> {
+    const normalized = normalizeAddress(address);
+    const before = this.accounts.length;
+    this.accounts = this.accounts.filter(account => account.address !== normalized);
+    return this.accounts.length < before;
+  }
+  
+  /**
+   * 계정 목록을 반환합니다.
+   */
+  async getAccounts(): Promise<KeyringAccount[]> {
+    return [...this.accounts];
+  }
+  
+  /**
+   * 특정 계정을 반환합니다.
+   * 
+   * @param address 계정 주소
+   */
+  async getAccount(address: string): Promise<KeyringAccount | null> {
+    const normalized = normalizeAddress(address);
+    return this.accounts.find(account => account.address === normalized) || null;
+  }
+  
+  /**
+   * 디바이스에서 EIP-191 개인 메시지에 서명합니다.
+   * 0x로 시작하는 16진수 문자열은 바이트로, 그 밖의 문자열은 UTF-8로 인코딩합니다.
+   * 
+   * @param address 계정 주소
+   * @param message 메시지
+   * @returns 서명 (16진수 문자열)
+   */
+  async signMessage(address: string, message: string): Promise<string> {
+    const account = await this.requireAccount(address);
+    const bytes = isHexString(message) ? message : hexlify(toUtf8Bytes(message));
+    
+    const signature = await this.call(transport => transport.signPersonalMessage(account.path, bytes));
+    return this.verifySignature(account, hashMessage(getBytes(bytes)), signature);
+  }
+  
+  /**
+   * 디바이스에서 트랜잭션에 서명합니다.
+   * 
+   * @param address 계정 주소
+   * @param transaction 트랜잭션
+   * @returns 서명된 직렬화 트랜잭션
+   */
+  async signTransaction(address: string, transaction: TransactionLike<string>): Promise<string> {
+    const account = await this.requireAccount(address);
+    const { from, ...fields } = transaction;
+    
+    if (from && normalizeAddress(from) !== account.address) {
+      throw new ValidationError('트랜잭션의 from 주소가 서명할 계정과 다릅니다.', 'from');
+    }
+    
+    const tx = Transaction.from({
+      ...fields,
+      chainId: fields.chainId ?? account.chainId
+    });
+    
+    const signature = await this.call(transport => transport.signTransaction(account.path, tx.unsignedSerialized));
+    tx.signature = Signature.from(this.verifySignature(account, tx.unsignedHash, signature));
+    
+    return tx.serialized;
+  }
+  
+  /**
+   * 디바이스에서 EIP-712 타입화된 데이터에 서명합니다.
+   * 
+   * @param address 계정 주소
+   * @param typedData 타입화된 데이터 (JSON 문자열 또는 객체)
+   * @returns 서명 (16진수 문자열)
+   */
+  async signTypedData(address: string, typedData: TypedDataPayload | string): Promise<string> {
+    const account = await this.requireAccount(address);
+    const payload = parseTypedData(typedData);
+    
+    const types = { ...payload.types };
+    delete types.EIP712Domain;
+    
+    const domainSeparator = TypedDataEncoder.hashDomain(payload.domain);
+    const messageHash = TypedDataEncoder.from(types).hash(payload.message);
+    const digest = TypedDataEncoder.hash(payload.domain, types, payload.message);
+    
+    const signature = await this.call(transport =>
+      transport.signTypedData(account.path, { domainSeparator, messageHash, typedData: payload })
+    );
+    return this.verifySignature(account, digest, signature);
+  }
+  
+  /**
+   * 하드웨어 지갑은 개인키를 내보낼 수 없습니다.
+   */
+  async exportAccount(_address: string, _password: string): Promise<string> {
+    throw new UnsupportedFeatureError('하드웨어 지갑의 개인키는 내보낼 수 없습니다.', 'exportAccount');
+  }
+  
+  /**
+   * 하드웨어 지갑은 니모닉을 내보낼 수 없습니다.
+   */
+  async exportMnemonic(_password: string): Promise<string> {
+    throw new UnsupportedFeatureError('하드웨어 지갑의 니모닉은 내보낼 수 없습니다.', 'exportMnemonic');
+  }
+  
+  /**
+   * 키링을 직렬화합니다. 개인키가 없으므로 암호화 없이 저장할 수 있습니다.
+   */
+  serialize(): SerializedHardwareKeyring {
+    return {
+      device: this.device ? { ...this.device, connected: false } : null,
+      layout: this.layout,
+      chainId: this.chainId,
+      coinType: this.coinType,
+      accounts: this.accounts.map(({ address, publicKey, index, path }) => ({ address, publicKey, index, path }))
+    };
+  }
+  
+  /**
+   * 직렬화된 키링을 복원합니다. 서명하려면 connect()로 디바이스를 다시 연결해야 합니다.
+   * 
+   * @param data 직렬화된 키링
+   * @param transport 전송 계층 (선택 사항)
+   * @returns 복원된 키링
+   */
+  static deserialize(data: SerializedHardwareKeyring, transport?: HardwareTransport): HardwareKeyring {
+    const keyring = new HardwareKeyring({
+      transport,
+      layout: data.layout,
+      chainId: data.chainId,
+      coinType: data.coinType
+    });
+    
+    keyring.restoreState(data);
+    return keyring;
+  }
+  
+  /**
+   * 직렬화된 디바이스 정보와 계정을 복원합니다.
+   * 
+   * @param data 직렬화된 키링
+   */
+  protected restoreState(data: SerializedHardwareKeyring): void {
+    this.device = data.device ? { ...data.device, connected: false } : null;
+    this.accounts = data.accounts.map(account => ({
+      ...account,
+      address: normalizeAddress(account.address),
+      privateKey: '',
+      chainId: data.chainId
+    }));
+  }
+  
+  /**
+   * 배치 방식 인덱스의 계정 후보를 조회합니다.
+   */
+  private async getCandidate(layout: HardwarePathLayout, index: number): Promise<HardwareAccountCandidate> {
+    const path = getHardwarePath(layout, index, this.coinType);
+    const { address, publicKey } = await this.call(transport => transport.getAddress(path));
+    const normalized = normalizeAddress(address);
+    
+    return {
+      index,
+      path,
+      address: normalized,
+      publicKey,
+      added: this.accounts.some(account => account.address === normalized)
+    };
+  }
+  
+  /**
+   * 현재 배치 방식에서 아직 추가되지 않은 다음 인덱스를 반환합니다.
+   */
+  private getNextIndex(): number {
+    const used = new Set(
+      this.accounts
+        .filter(account => account.path === getHardwarePath(this.layout, account.index, this.coinType))
+        .map(account => account.index)
+    );
+    
+    let index = 0;
+    while (used.has(index)) {
+      index++;
+    }
+    return index;
+  }
+  
+  /**
+   * 키링 계정을 찾습니다.
+   */
+  private async requireAccount(address: string): Promise<KeyringAccount> {
+    const account = await this.getAccount(address);
+    if (!account) {
+      throw new NotFoundError(`하드웨어 키링에 없는 계정입니다: ${address}`);
+    }
+    return account;
+  }
+  
+  /**
+   * 디바이스 서명이 계정 주소로 복구되는지 확인합니다.
+   * 다른 시드나 패스프레이즈의 디바이스가 연결된 경우를 걸러냅니다.
+   */
+  private verifySignature(account: KeyringAccount, digest: string, signature: HardwareSignature): string {
+    let serialized: string;
+    let recovered: string;
+    
+    try {
+      serialized = Signature.from(signature).serialized;
+      recovered = normalizeAddress(recoverAddress(digest, serialized));
+    } catch (error: any) {
+      throw new SignatureError(`디바이스가 올바르지 않은 서명을 반환했습니다: ${error.message}`);
+    }
+    
+    if (recovered !== account.address) {
+      throw new SignatureError('디바이스 서명의 주소가 계정과 다릅니다. 같은 시드와 패스프레이즈의 디바이스인지 확인하세요.');
+    }
+    
+    return serialized;
+  }
+  
+  /**
+   * 전송 계층을 호출하고, 코어 오류가 아닌 전송 오류는 DeviceError로 바꿉니다.
+   */
+  private async call<T>(action: (transport: HardwareTransport) => Promise<T>): Promise<T> {
+    if (!this.transport) {
+      throw new DeviceError('하드웨어 지갑이 연결되어 있지 않습니다.');
+    }
+    
+    try {
+      return await action(this.transport);
+    } catch (error: any) {
+      if (error instanceof CreLinkError) {
+        throw error;
+      }
+      throw new DeviceError(`하드웨어 지갑 통신 오류: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * @file qrKeyring.ts
+ * @description QR 에어갭 서명 키링 (Keystone 등)
+ * 
+ * 디바이스가 내보낸 crypto-hdkey를 가져와 BIP-44 표준 경로(m/44'/60'/0'/0/i)의 계정을 만들고,
+ * 서명은 HardwareKeyring과 같은 흐름으로 QR 전송 계층을 거쳐 요청합니다.
+ * 직렬화 데이터에는 계정 확장 공개키만 들어가므로 개인키 없이 저장할 수 있습니다.
+ */
+
+import { UnsupportedFeatureError } from '../../utils/errors';
+import { CoinType } from '../bip/bip32';
+import { BIP44_PURPOSE } from '../bip/bip44';
+import { HardwareKeyring, HardwarePathLayout, SerializedHardwareKeyring } from './hardwareKeyring';
+import {
+  QRAccountKey,
+  QRHardwareTransport,
+  QRSignRequestHandler,
+  importQRAccountKey
+} from './qrTransport';
+
+/**
+ * 직렬화된 QR 키링
+ */
+export interface SerializedQRKeyring extends SerializedHardwareKeyring {
+  accountKey: QRAccountKey;
+}
+
+// BIP-44 표준 배치의 계정 키 경로
+const STANDARD_ACCOUNT_PATH = `m/${BIP44_PURPOSE}'/${CoinType.ETHEREUM}'/0'`;
+
+/**
+ * QR 에어갭 서명 키링
+ */
+export class QRKeyring extends HardwareKeyring {
+  private accountKey: QRAccountKey;
+  
+  /**
+   * QR 키링을 생성합니다. 디바이스 정보는 connect()를 호출하면 채워집니다.
+   * 
+   * @param accountKey 가져온 계정 키
+   * @param onSignRequest 서명 요청 처리 함수 (요청 QR 표시 + 서명 QR 스캔)
+   * @param chainId 계정의 기본 체인 ID
+   */
+  constructor(accountKey: QRAccountKey, onSignRequest: QRSignRequestHandler, chainId?: number) {
+    if (accountKey.path !== STANDARD_ACCOUNT_PATH) {
+      throw new UnsupportedFeatureError(
+        `BIP-44 표준 계정 키(${STANDARD_ACCOUNT_PATH})만 지원합니다: ${accountKey.path}`,
+        'qrAccountPath'
+      );
+    }
+    
+    super({
+      transport: new QRHardwareTransport(accountKey, onSignRequest),
+      layout: HardwarePathLayout.BIP44,
+      chainId
+    });
+    this.accountKey = accountKey;
+  }
+  
+  /**
+   * crypto-hdkey QR로 키링을 만들고 디바이스 정보를 채웁니다.
+   * 
+   * @param parts 스캔한 UR 문자열 또는 파트 목록
+   * @param onSignRequest 서명 요청 처리 함수
+   * @param chainId 계정의 기본 체인 ID
+   * @returns QR 키링
+   */
+  static async fromUR(
+    parts: string | string[],
+    onSignRequest: QRSignRequestHandler,
+    chainId?: number
+  ): Promise<QRKeyring> {
+    const keyring = new QRKeyring(importQRAccountKey(parts), onSignRequest, chainId);
+    await keyring.connect();
+    return keyring;
+  }
+  
+  /**
+   * 직렬화된 QR 키링을 복원합니다.
+   * 
+   * @param data 직렬화된 키링
+   * @param onSignRequest 서명 요청 처리 함수
+   * @returns 복원된 키링
+   */
+  static async restore(data: SerializedQRKeyring, onSignRequest: QRSignRequestHandler): Promise<QRKeyring> {
+    const keyring = new QRKeyring(data.accountKey, onSignRequest, data.chainId);
+    keyring.restoreState(data);
+    await keyring.connect();
+    return keyring;
+  }
+  
+  /**
+   * 가져온 계정 키를 반환합니다.
+   */
+  getAccountKey(): QRAccountKey {
+    return { ...this.accountKey };
+  }
+  
+  /**
+   * 키링을 직렬화합니다.
+   */
+  serialize(): SerializedQRKeyring {
+    return { ...super.serialize(), accountKey: { ...this.accountKey } };
+  }
+}
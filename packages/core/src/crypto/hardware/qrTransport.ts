@@ -0,0 +1,295 @@
+/**
+ * @file qrTransport.ts
+ * @description QR 코드로 통신하는 에어갭 하드웨어 지갑 전송 계층 (Keystone 등)
+ * 
+ * 디바이스와 케이블로 연결하지 않으므로 주소는 디바이스가 내보낸 crypto-hdkey(계정 확장 공개키)로 직접 파생하고,
+ * 서명은 eth-sign-request를 애니메이션 QR로 보여 준 뒤 디바이스의 eth-signature QR을 스캔해 받습니다.
+ * QR 표시와 카메라 스캔은 플랫폼마다 다르므로 서명 요청 처리 함수로 주입합니다.
+ */
+
+import {
+  HDNodeVoidWallet,
+  HDNodeWallet,
+  Signature,
+  Transaction,
+  TypedDataEncoder,
+  concat,
+  encodeBase58,
+  getBytes,
+  hexlify,
+  sha256,
+  toBigInt,
+  toUtf8Bytes
+} from 'ethers';
+import { HardwareInfo } from '../../types/accounts.types';
+import { normalizeAddress } from '../../utils/address';
+import { DeviceError, ValidationError } from '../../utils/errors';
+import { UR, decodeUR } from './ur';
+import {
+  EthDataType,
+  createRequestId,
+  decodeCryptoHDKey,
+  decodeEthSignature,
+  encodeEthSignRequest,
+  formatKeypath,
+  parseKeypath
+} from './urRegistry';
+import {
+  HardwareAddress,
+  HardwareSignature,
+  HardwareTransport,
+  HardwareTypedDataRequest
+} from './transport';
+
+/**
+ * QR로 가져온 계정 키
+ */
+export interface QRAccountKey {
+  xpub: string; // 계정 확장 공개키
+  path: string; // 마스터 키에서 계정 키까지의 경로 (예: m/44'/60'/0')
+  sourceFingerprint: number; // 마스터 키 지문 (디바이스가 서명 요청을 자기 것으로 확인하는 데 사용)
+  name?: string; // 디바이스 이름
+  note?: string; // 경로 배치 방식 메모
+}
+
+/**
+ * 화면에 표시할 QR 서명 요청
+ */
+export interface QRSignRequest {
+  requestId: string;
+  dataType: EthDataType;
+  address: string;
+  path: string;
+  chainId?: number;
+  ur: UR; // eth-sign-request (UREncoder로 애니메이션 QR 파트 생성)
+}
+
+/**
+ * 서명 요청 처리 함수
+ * 요청 QR을 보여 주고 디바이스의 eth-signature QR을 스캔해 UR 문자열(또는 파트 목록)을 반환합니다.
+ */
+export type QRSignRequestHandler = (request: QRSignRequest) => Promise<string | string[]>;
+
+// 확장 공개키 버전 바이트 (xpub)
+const XPUB_VERSION = '0x0488b21e';
+
+// 하드닝 인덱스 오프셋
+const HARDENED_OFFSET = 0x80000000;
+
+/**
+ * 디바이스가 내보낸 crypto-hdkey QR을 계정 키로 가져옵니다.
+ * 
+ * @param parts 스캔한 UR 문자열 또는 파트 목록
+ * @returns 계정 키
+ */
+export function importQRAccountKey(parts: string | string[]): QRAccountKey {
+  const hdkey = decodeCryptoHDKey(decodeUR(parts));
+  
+  if (hdkey.isPrivate) {
+    throw new ValidationError('개인키가 담긴 QR은 가져올 수 없습니다.', 'crypto-hdkey');
+  }
+  if (!hdkey.chainCode || !hdkey.origin) {
+    throw new ValidationError('계정 파생에 필요한 체인 코드와 경로가 없습니다.', 'crypto-hdkey');
+  }
+  if (hdkey.origin.sourceFingerprint === undefined) {
+    throw new ValidationError('마스터 키 지문이 없는 키는 서명 요청에 사용할 수 없습니다.', 'crypto-hdkey');
+  }
+  
+  const components = hdkey.origin.components;
+  const last = components[components.length - 1];
+  const childNumber = last ? last.index + (last.hardened ? HARDENED_OFFSET : 0) : 0;
+  
+  const payload = concat([
+    XPUB_VERSION,
+    Uint8Array.of(hdkey.origin.depth ?? components.length),
+    uint32ToBytes(hdkey.parentFingerprint ?? 0),
+    uint32ToBytes(childNumber),
+    hdkey.chainCode,
+    hdkey.key
+  ]);
+  const checksum = getBytes(sha256(sha256(payload))).slice(0, 4);
+  
+  return {
+    xpub: encodeBase58(concat([payload, checksum])),
+    path: formatKeypath(hdkey.origin),
+    sourceFingerprint: hdkey.origin.sourceFingerprint,
+    name: hdkey.name,
+    note: hdkey.note
+  };
+}
+
+/**
+ * QR 에어갭 하드웨어 지갑 전송 계층
+ */
+export class QRHardwareTransport implements HardwareTransport {
+  private node: HDNodeVoidWallet;
+  
+  /**
+   * QR 전송 계층을 생성합니다.
+   * 
+   * @param accountKey 가져온 계정 키
+   * @param onSignRequest 서명 요청 처리 함수
+   * @param origin 디바이스 화면에 표시할 요청 출처
+   */
+  constructor(
+    private readonly accountKey: QRAccountKey,
+    private readonly onSignRequest: QRSignRequestHandler,
+    private readonly origin: string = 'CreLink Wallet'
+  ) {
+    const node = HDNodeWallet.fromExtendedKey(accountKey.xpub);
+    if (!(node instanceof HDNodeVoidWallet)) {
+      throw new ValidationError('QR 계정 키는 확장 공개키여야 합니다.', 'xpub');
+    }
+    this.node = node;
+  }
+  
+  /**
+   * 가져온 계정 키를 반환합니다.
+   */
+  getAccountKey(): QRAccountKey {
+    return { ...this.accountKey };
+  }
+  
+  /**
+   * 계정 키의 디바이스 정보를 반환합니다.
+   */
+  async getDeviceInfo(): Promise<HardwareInfo> {
+    return {
+      type: 'keystone',
+      deviceId: this.accountKey.sourceFingerprint.toString(16).padStart(8, '0'),
+      model: this.accountKey.name,
+      path: this.accountKey.path,
+      connected: true
+    };
+  }
+  
+  /**
+   * 계정 확장 공개키에서 주소를 파생합니다.
+   * 계정 키 아래의 하드닝되지 않은 경로만 파생할 수 있습니다.
+   * 
+   * @param path 파생 경로
+   */
+  async getAddress(path: string): Promise<HardwareAddress> {
+    const relative = this.getRelativePath(path);
+    const node = relative ? this.node.derivePath(relative) : this.node;
+    
+    return {
+      path,
+      address: normalizeAddress(node.address),
+      publicKey: node.publicKey
+    };
+  }
+  
+  /**
+   * 트랜잭션 서명을 요청합니다.
+   * 첫 바이트가 RLP 리스트면 레거시, 아니면 EIP-2718 타입 트랜잭션으로 요청합니다.
+   * 
+   * @param path 파생 경로
+   * @param unsignedTransaction 서명 전 직렬화된 트랜잭션
+   */
+  async signTransaction(path: string, unsignedTransaction: string): Promise<HardwareSignature> {
+    const bytes = getBytes(unsignedTransaction);
+    const dataType = bytes[0] >= 0xc0 ? EthDataType.TRANSACTION : EthDataType.TYPED_TRANSACTION;
+    const chainId = Number(Transaction.from(unsignedTransaction).chainId);
+    
+    return this.requestSignature(path, dataType, unsignedTransaction, chainId || undefined);
+  }
+  
+  /**
+   * 개인 메시지 서명을 요청합니다.
+   * 
+   * @param path 파생 경로
+   * @param message 메시지 바이트 (16진수)
+   */
+  async signPersonalMessage(path: string, message: string): Promise<HardwareSignature> {
+    return this.requestSignature(path, EthDataType.PERSONAL_MESSAGE, message);
+  }
+  
+  /**
+   * EIP-712 서명을 요청합니다. 디바이스가 필드를 표시하도록 JSON 원문을 보냅니다.
+   * 
+   * @param path 파생 경로
+   * @param request 서명 요청
+   */
+  async signTypedData(path: string, request: HardwareTypedDataRequest): Promise<HardwareSignature> {
+    const { domain, types, message } = request.typedData;
+    const { EIP712Domain, ...messageTypes } = types;
+    const payload = TypedDataEncoder.getPayload(domain, messageTypes, message);
+    const chainId = domain.chainId !== undefined ? Number(domain.chainId) : undefined;
+    
+    return this.requestSignature(
+      path,
+      EthDataType.TYPED_DATA,
+      hexlify(toUtf8Bytes(JSON.stringify(payload))),
+      chainId
+    );
+  }
+  
+  /**
+   * QR 통신은 연결 상태가 없으므로 할 일이 없습니다.
+   */
+  async close(): Promise<void> {}
+  
+  /**
+   * eth-sign-request를 보여 주고 eth-signature 응답을 받습니다.
+   */
+  private async requestSignature(
+    path: string,
+    dataType: EthDataType,
+    signData: string,
+    chainId?: number
+  ): Promise<HardwareSignature> {
+    const { address } = await this.getAddress(path);
+    const requestId = createRequestId();
+    
+    const ur = encodeEthSignRequest({
+      requestId,
+      signData,
+      dataType,
+      chainId,
+      derivationPath: parseKeypath(path, this.accountKey.sourceFingerprint),
+      address,
+      origin: this.origin
+    });
+    
+    const response = await this.onSignRequest({ requestId, dataType, address, path, chainId, ur });
+    const signature = decodeEthSignature(decodeUR(response));
+    
+    if (signature.requestId && signature.requestId !== requestId) {
+      throw new DeviceError('다른 요청에 대한 서명 QR입니다. 디바이스에서 현재 요청을 다시 스캔하세요.');
+    }
+    
+    const bytes = getBytes(signature.signature);
+    const parsed = Signature.from({
+      r: hexlify(bytes.slice(0, 32)),
+      s: hexlify(bytes.slice(32, 64)),
+      v: toBigInt(bytes.slice(64))
+    });
+    
+    return { v: parsed.v, r: parsed.r, s: parsed.s };
+  }
+  
+  /**
+   * 계정 키 기준 상대 경로를 구합니다.
+   */
+  private getRelativePath(path: string): string {
+    const prefix = this.accountKey.path;
+    if (path === prefix) {
+      return '';
+    }
+    
+    const relative = path.startsWith(`${prefix}/`) ? path.slice(prefix.length + 1) : null;
+    if (relative === null || relative.includes("'")) {
+      throw new DeviceError(`가져온 QR 계정 키(${prefix})로 파생할 수 없는 경로입니다: ${path}`);
+    }
+    
+    return relative;
+  }
+}
+
+/**
+ * 32비트 정수를 빅엔디언 4바이트로 바꿉니다.
+ */
+function uint32ToBytes(value: number): Uint8Array {
+  return Uint8Array.from([(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+}
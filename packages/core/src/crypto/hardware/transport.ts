@@ -0,0 +1,81 @@
+/**
+ * @file transport.ts
+ * @description 하드웨어 지갑 디바이스 전송 계층 인터페이스
+ * 
+ * USB/HID, Bluetooth, 에뮬레이터 등 실제 연결 방식은 이 인터페이스를 구현해 HardwareKeyring에 주입합니다.
+ * 디바이스는 파생 경로의 키로 서명만 하고, 서명할 데이터의 인코딩과 서명 검증은 키링이 담당합니다.
+ */
+
+import { HardwareInfo } from '../../types/accounts.types';
+import { TypedDataPayload } from '../typedData';
+
+/**
+ * 디바이스가 파생 경로에서 내보낸 공개 정보
+ */
+export interface HardwareAddress {
+  path: string; // 파생 경로
+  address: string; // 주소
+  publicKey: string; // 압축 공개키
+}
+
+/**
+ * 디바이스 서명 결과 (secp256k1)
+ */
+export interface HardwareSignature {
+  v: number; // 복구 ID (27 또는 28)
+  r: string; // 32바이트 16진수
+  s: string; // 32바이트 16진수
+}
+
+/**
+ * EIP-712 서명 요청
+ * 해시만 서명하는 디바이스는 domainSeparator와 messageHash를 사용하고,
+ * 화면에 필드를 표시하는 디바이스는 typedData 원문을 사용합니다.
+ */
+export interface HardwareTypedDataRequest {
+  domainSeparator: string; // 도메인 구분자 해시
+  messageHash: string; // primaryType 구조체 해시
+  typedData: TypedDataPayload; // 원본 타입화된 데이터
+}
+
+/**
+ * 하드웨어 지갑 전송 계층
+ */
+export interface HardwareTransport {
+  /**
+   * 연결된 디바이스 정보 조회
+   */
+  getDeviceInfo(): Promise<HardwareInfo>;
+  
+  /**
+   * 파생 경로의 주소와 공개키 조회
+   * @param path 파생 경로 (예: m/44'/60'/0'/0/0)
+   */
+  getAddress(path: string): Promise<HardwareAddress>;
+  
+  /**
+   * 트랜잭션 서명
+   * @param path 파생 경로
+   * @param unsignedTransaction 서명 전 직렬화된 트랜잭션 (16진수)
+   */
+  signTransaction(path: string, unsignedTransaction: string): Promise<HardwareSignature>;
+  
+  /**
+   * EIP-191 개인 메시지 서명
+   * @param path 파생 경로
+   * @param message 메시지 바이트 (16진수)
+   */
+  signPersonalMessage(path: string, message: string): Promise<HardwareSignature>;
+  
+  /**
+   * EIP-712 타입화된 데이터 서명
+   * @param path 파생 경로
+   * @param request 서명 요청
+   */
+  signTypedData(path: string, request: HardwareTypedDataRequest): Promise<HardwareSignature>;
+  
+  /**
+   * 연결 종료
+   */
+  close(): Promise<void>;
+}
@@ -0,0 +1,654 @@
+/**
+ * @file ur.ts
+ * @description Uniform Resources(BCR-2020-005) 인코딩과 애니메이션 QR용 파운틴 코드 분할/복원
+ * 
+ * UR은 CBOR 데이터를 Bytewords로 표현한 `ur:<type>/...` 문자열입니다.
+ * QR 하나에 담기지 않는 데이터는 파운틴 코드로 조각을 나눠 애니메이션 QR로 보여 주며,
+ * 카메라가 일부 프레임을 놓쳐도 섞인(mixed) 조각으로 나머지를 복원할 수 있습니다.
+ */
+
+import { concat, getBytes, sha256 } from 'ethers';
+import { ValidationError } from '../../utils/errors';
+import { decodeCbor, encodeCbor } from './cbor';
+
+/**
+ * UR (타입 + CBOR 데이터)
+ */
+export interface UR {
+  type: string; // 예: eth-sign-request
+  cbor: Uint8Array;
+}
+
+/**
+ * Bytewords 표기 방식
+ */
+export enum BytewordsStyle {
+  // 공백으로 구분한 4글자 단어
+  STANDARD = 'standard',
+  // 하이픈으로 구분한 4글자 단어
+  URI = 'uri',
+  // 단어의 첫 글자와 마지막 글자 (QR에 사용)
+  MINIMAL = 'minimal'
+}
+
+// Bytewords 단어 목록 (바이트 값 순서, 4글자씩)
+const BYTEWORDS =
+  'ableacidalsoapexaquaarchatomauntawayaxisbackbaldbarnbeltbetabiasbluebodybragbrewbulbbuzzcalmcashcatschefcityclawcode' +
+  'colacookcostcruxcurlcuspcyandarkdatadaysdelidicedietdoordowndrawdropdrumdulldutyeacheasyechoedgeepicevenexamexiteyes' +
+  'factfairfernfigsfilmfishfizzflapflewfluxfoxyfreefrogfuelfundgalagamegeargemsgiftgirlglowgoodgraygrimgurugushgyrohalf' +
+  'hanghardhawkheathelphighhillholyhopehornhutsicedideaidleinchinkyintoirisironitemjadejazzjoinjoltjowljudojugsjumpjunk' +
+  'jurykeepkenokeptkeyskickkilnkingkitekiwiknoblamblavalazyleaflegsliarlimplionlistlogoloudloveluaulucklungmainmanymath' +
+  'mazememomenumeowmildmintmissmonknailnavyneednewsnextnoonnotenumbobeyoboeomitonyxopenovalowlspaidpartpeckplaypluspoem' +
+  'poolposepuffpumapurrquadquizraceramprealredorichroadrockroofrubyruinrunsrustsafesagascarsetssilkskewslotsoapsolosong' +
+  'stubsurfswantacotasktaxitenttiedtimetinytoiltombtoystriptunatwinuglyundouniturgeuservastveryvetovialvibeviewvisavoid' +
+  'vowswallwandwarmwaspwavewaxywebswhatwhenwhizwolfworkyankyawnyellyogayurtzapszerozestzinczonezoom';
+
+// 단어 → 바이트, 축약(첫+끝 글자) → 바이트 조회표
+const WORD_INDEX = new Map<string, number>();
+const MINIMAL_INDEX = new Map<string, number>();
+for (let i = 0; i < 256; i++) {
+  const word = BYTEWORDS.slice(i * 4, i * 4 + 4);
+  WORD_INDEX.set(word, i);
+  MINIMAL_INDEX.set(word[0] + word[3], i);
+}
+
+// CRC-32 (IEEE) 조회표
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+// 기본 조각 길이
+const DEFAULT_MAX_FRAGMENT_LENGTH = 100;
+const DEFAULT_MIN_FRAGMENT_LENGTH = 10;
+
+// 64비트 마스크
+const UINT64_MASK = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+/**
+ * CRC-32 체크섬을 계산합니다.
+ * 
+ * @param data 데이터
+ * @returns 부호 없는 32비트 체크섬
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * 데이터 뒤에 CRC-32를 붙여 Bytewords로 인코딩합니다.
+ * 
+ * @param data 데이터
+ * @param style 표기 방식
+ * @returns Bytewords 문자열
+ */
+export function encodeBytewords(data: Uint8Array, style: BytewordsStyle = BytewordsStyle.MINIMAL): string {
+  const bytes = getBytes(concat([data, uint32ToBytes(crc32(data))]));
+  const words = Array.from(bytes, byte => BYTEWORDS.slice(byte * 4, byte * 4 + 4));
+  
+  switch (style) {
+    case BytewordsStyle.STANDARD:
+      return words.join(' ');
+    case BytewordsStyle.URI:
+      return words.join('-');
+    default:
+      return words.map(word => word[0] + word[3]).join('');
+  }
+}
+
+/**
+ * Bytewords 문자열을 디코딩하고 CRC-32를 검증합니다.
+ * 
+ * @param text Bytewords 문자열
+ * @param style 표기 방식
+ * @returns 체크섬을 뗀 데이터
+ */
+export function decodeBytewords(text: string, style: BytewordsStyle = BytewordsStyle.MINIMAL): Uint8Array {
+  const normalized = text.toLowerCase();
+  let bytes: number[];
+  
+  if (style === BytewordsStyle.MINIMAL) {
+    if (normalized.length % 2 !== 0) {
+      throw new ValidationError('Bytewords 길이가 올바르지 않습니다.', 'bytewords');
+    }
+    bytes = Array.from({ length: normalized.length / 2 }, (_, i) =>
+      lookupByteword(MINIMAL_INDEX, normalized.slice(i * 2, i * 2 + 2))
+    );
+  } else {
+    const separator = style === BytewordsStyle.STANDARD ? ' ' : '-';
+    bytes = normalized.split(separator).map(word => lookupByteword(WORD_INDEX, word));
+  }
+  
+  if (bytes.length < 5) {
+    throw new ValidationError('Bytewords 데이터가 너무 짧습니다.', 'bytewords');
+  }
+  
+  const data = Uint8Array.from(bytes.slice(0, -4));
+  const checksum = bytes.slice(-4).reduce((acc, byte) => acc * 256 + byte, 0);
+  if (crc32(data) !== checksum) {
+    throw new ValidationError('Bytewords 체크섬이 일치하지 않습니다.', 'bytewords');
+  }
+  
+  return data;
+}
+
+/**
+ * 단일 파트 UR 문자열을 만듭니다.
+ * 
+ * @param ur UR
+ * @returns `ur:<type>/<bytewords>` 문자열
+ */
+export function encodeUR(ur: UR): string {
+  return `ur:${ur.type}/${encodeBytewords(ur.cbor)}`;
+}
+
+/**
+ * UR 문자열(단일 파트) 또는 스캔한 파트 목록을 디코딩합니다.
+ * 
+ * @param parts UR 문자열 또는 파트 목록
+ * @returns 복원된 UR
+ */
+export function decodeUR(parts: string | string[]): UR {
+  const decoder = new URDecoder();
+  for (const part of Array.isArray(parts) ? parts : [parts]) {
+    decoder.receivePart(part);
+  }
+  
+  if (!decoder.isComplete()) {
+    throw new ValidationError(
+      `UR 파트가 부족합니다 (${Math.floor(decoder.getProgress() * 100)}% 수신).`,
+      'ur'
+    );
+  }
+  
+  return decoder.getResult();
+}
+
+/**
+ * 멀티파트 UR의 조각 (CBOR 배열 [seqNum, seqLen, messageLen, checksum, data])
+ */
+interface FountainPart {
+  seqNum: number;
+  seqLen: number;
+  messageLen: number;
+  checksum: number;
+  data: Uint8Array;
+}
+
+/**
+ * 애니메이션 QR용 UR 인코더
+ * 처음 seqLen개 파트는 조각을 순서대로 담고, 이후에는 여러 조각을 XOR한 섞인 파트를 무한히 만듭니다.
+ */
+export class UREncoder {
+  private fragments: Uint8Array[];
+  private messageLen: number;
+  private checksum: number;
+  private seqNum: number;
+  
+  /**
+   * UR 인코더를 생성합니다.
+   * 
+   * @param ur 인코딩할 UR
+   * @param maxFragmentLength 조각 최대 바이트 수 (QR 밀도 조절)
+   * @param firstSeqNum 시작 순번
+   * @param minFragmentLength 조각 최소 바이트 수
+   */
+  constructor(
+    private readonly ur: UR,
+    maxFragmentLength: number = DEFAULT_MAX_FRAGMENT_LENGTH,
+    firstSeqNum: number = 0,
+    minFragmentLength: number = DEFAULT_MIN_FRAGMENT_LENGTH
+  ) {
+    if (!isValidURType(ur.type)) {
+      throw new ValidationError(`유효하지 않은 UR 타입입니다: ${ur.type}`, 'type');
+    }
+    
+    const fragmentLength = findNominalFragmentLength(ur.cbor.length, minFragmentLength, maxFragmentLength);
+    this.fragments = partitionMessage(ur.cbor, fragmentLength);
+    this.messageLen = ur.cbor.length;
+    this.checksum = crc32(ur.cbor);
+    this.seqNum = firstSeqNum;
+  }
+  
+  /**
+   * 단일 파트로 충분한지 여부 (정적 QR)
+   */
+  isSinglePart(): boolean {
+    return this.fragments.length === 1;
+  }
+  
+  /**
+   * 원본 조각 수
+   */
+  getFragmentCount(): number {
+    return this.fragments.length;
+  }
+  
+  /**
+   * 다음 QR 프레임에 표시할 파트를 반환합니다.
+   */
+  nextPart(): string {
+    if (this.isSinglePart()) {
+      return encodeUR(this.ur);
+    }
+    
+    this.seqNum++;
+    const seqLen = this.fragments.length;
+    const indexes = chooseFragments(this.seqNum, seqLen, this.checksum);
+    const data = new Uint8Array(this.fragments[0].length);
+    indexes.forEach(index => xorInto(data, this.fragments[index]));
+    
+    const body = encodeCbor([this.seqNum, seqLen, this.messageLen, this.checksum, data]);
+    return `ur:${this.ur.type}/${this.seqNum}-${seqLen}/${encodeBytewords(body)}`;
+  }
+}
+
+/**
+ * 애니메이션 QR을 스캔해 UR을 복원하는 디코더
+ */
+export class URDecoder {
+  private type: string | null = null;
+  private result: UR | null = null;
+  private expected: Omit<FountainPart, 'seqNum' | 'data'> | null = null;
+  private simpleParts = new Map<number, Uint8Array>();
+  private mixedParts = new Map<string, { indexes: number[]; data: Uint8Array }>();
+  private receivedSeqNums = new Set<number>();
+  
+  /**
+   * 디코더를 생성합니다.
+   * 
+   * @param expectedType 기대하는 UR 타입 (다르면 ValidationError)
+   */
+  constructor(private readonly expectedType?: string) {}
+  
+  /**
+   * 스캔한 파트를 받습니다. 이미 받은 파트나 완료 후의 파트는 무시합니다.
+   * 
+   * @param part `ur:` 문자열
+   * @returns 새 정보가 있는 파트였는지 여부
+   */
+  receivePart(part: string): boolean {
+    if (this.result) {
+      return false;
+    }
+    
+    const { type, sequence, payload } = parseURString(part);
+    
+    if (this.expectedType && type !== this.expectedType) {
+      throw new ValidationError(`기대한 UR 타입(${this.expectedType})이 아닙니다: ${type}`, 'type');
+    }
+    if (this.type && type !== this.type) {
+      throw new ValidationError(`다른 UR의 파트입니다: ${type}`, 'type');
+    }
+    this.type = type;
+    
+    if (!sequence) {
+      this.result = { type, cbor: decodeBytewords(payload) };
+      return true;
+    }
+    
+    const fountainPart = decodeFountainPart(decodeBytewords(payload));
+    if (fountainPart.seqNum !== sequence.seqNum || fountainPart.seqLen !== sequence.seqLen) {
+      throw new ValidationError('UR 파트 순번이 본문과 일치하지 않습니다.', 'ur');
+    }
+    
+    if (!this.expected) {
+      this.expected = {
+        seqLen: fountainPart.seqLen,
+        messageLen: fountainPart.messageLen,
+        checksum: fountainPart.checksum
+      };
+    } else if (
+      this.expected.seqLen !== fountainPart.seqLen ||
+      this.expected.messageLen !== fountainPart.messageLen ||
+      this.expected.checksum !== fountainPart.checksum
+    ) {
+      throw new ValidationError('다른 메시지의 UR 파트입니다.', 'ur');
+    }
+    
+    if (this.receivedSeqNums.has(fountainPart.seqNum)) {
+      return false;
+    }
+    this.receivedSeqNums.add(fountainPart.seqNum);
+    
+    const indexes = chooseFragments(fountainPart.seqNum, fountainPart.seqLen, fountainPart.checksum);
+    this.processPart(indexes, fountainPart.data);
+    return true;
+  }
+  
+  /**
+   * 복원 완료 여부
+   */
+  isComplete(): boolean {
+    return this.result !== null;
+  }
+  
+  /**
+   * 복원 진행률 (0~1)
+   */
+  getProgress(): number {
+    if (this.result) {
+      return 1;
+    }
+    if (!this.expected) {
+      return 0;
+    }
+    return this.simpleParts.size / this.expected.seqLen;
+  }
+  
+  /**
+   * 기대하는 파트 수 (멀티파트 첫 파트를 받기 전에는 0)
+   */
+  getExpectedPartCount(): number {
+    return this.expected?.seqLen || 0;
+  }
+  
+  /**
+   * 복원된 UR을 반환합니다.
+   */
+  getResult(): UR {
+    if (!this.result) {
+      throw new ValidationError('UR 복원이 끝나지 않았습니다.', 'ur');
+    }
+    return this.result;
+  }
+  
+  /**
+   * 조각을 반영하고, 원본 조각이 모두 모이면 메시지를 조립합니다.
+   */
+  private processPart(indexes: number[], data: Uint8Array): void {
+    const queue: Array<{ indexes: number[]; data: Uint8Array }> = [{ indexes, data }];
+    
+    while (queue.length > 0) {
+      const part = queue.shift()!;
+      
+      // 이미 아는 원본 조각을 XOR로 제거
+      const reduced = { indexes: [...part.indexes], data: Uint8Array.from(part.data) };
+      for (const index of part.indexes) {
+        const simple = this.simpleParts.get(index);
+        if (simple && reduced.indexes.length > 1) {
+          xorInto(reduced.data, simple);
+          reduced.indexes = reduced.indexes.filter(item => item !== index);
+        }
+      }
+      
+      if (reduced.indexes.length === 1) {
+        const [index] = reduced.indexes;
+        if (this.simpleParts.has(index)) {
+          continue;
+        }
+        this.simpleParts.set(index, reduced.data);
+        
+        // 새 원본 조각으로 풀 수 있는 섞인 조각을 다시 처리
+        this.mixedParts.forEach((mixed, key) => {
+          if (mixed.indexes.includes(index)) {
+            this.mixedParts.delete(key);
+            queue.push(mixed);
+          }
+        });
+      } else {
+        const key = reduced.indexes.join(',');
+        if (!this.mixedParts.has(key)) {
+          this.mixedParts.set(key, reduced);
+        }
+      }
+    }
+    
+    if (this.expected && this.simpleParts.size === this.expected.seqLen) {
+      const joined = concat(
+        Array.from({ length: this.expected.seqLen }, (_, index) => this.simpleParts.get(index)!)
+      );
+      const message = getBytes(joined).slice(0, this.expected.messageLen);
+      
+      if (crc32(message) !== this.expected.checksum) {
+        throw new ValidationError('복원한 UR 메시지의 체크섬이 일치하지 않습니다.', 'ur');
+      }
+      
+      this.result = { type: this.type!, cbor: message };
+    }
+  }
+}
+
+/**
+ * UR 타입 형식(소문자, 숫자, 하이픈)인지 확인합니다.
+ */
+function isValidURType(type: string): boolean {
+  return /^[a-z0-9-]+$/.test(type);
+}
+
+/**
+ * `ur:` 문자열을 구성 요소로 나눕니다.
+ */
+function parseURString(text: string): {
+  type: string;
+  sequence: { seqNum: number; seqLen: number } | null;
+  payload: string;
+} {
+  const normalized = text.trim().toLowerCase();
+  if (!normalized.startsWith('ur:')) {
+    throw new ValidationError('UR 문자열은 ur:로 시작해야 합니다.', 'ur');
+  }
+  
+  const components = normalized.slice(3).split('/');
+  const type = components[0];
+  if (!isValidURType(type)) {
+    throw new ValidationError(`유효하지 않은 UR 타입입니다: ${type}`, 'type');
+  }
+  
+  if (components.length === 2) {
+    return { type, sequence: null, payload: components[1] };
+  }
+  
+  const match = components.length === 3 ? /^(\d+)-(\d+)$/.exec(components[1]) : null;
+  if (!match) {
+    throw new ValidationError('UR 파트 형식이 올바르지 않습니다.', 'ur');
+  }
+  
+  return {
+    type,
+    sequence: { seqNum: Number(match[1]), seqLen: Number(match[2]) },
+    payload: components[2]
+  };
+}
+
+/**
+ * 멀티파트 본문 CBOR을 파싱합니다.
+ */
+function decodeFountainPart(body: Uint8Array): FountainPart {
+  const decoded = decodeCbor(body);
+  
+  if (!Array.isArray(decoded) || decoded.length !== 5) {
+    throw new ValidationError('UR 파트 본문 형식이 올바르지 않습니다.', 'ur');
+  }
+  
+  const [seqNum, seqLen, messageLen, checksum, data] = decoded;
+  if (
+    typeof seqNum !== 'number' ||
+    typeof seqLen !== 'number' ||
+    typeof messageLen !== 'number' ||
+    typeof checksum !== 'number' ||
+    !(data instanceof Uint8Array) ||
+    seqNum < 1 ||
+    seqLen < 1 ||
+    messageLen > seqLen * data.length
+  ) {
+    throw new ValidationError('UR 파트 본문 형식이 올바르지 않습니다.', 'ur');
+  }
+  
+  return { seqNum, seqLen, messageLen, checksum, data };
+}
+
+/**
+ * 최대 길이를 넘지 않는 가장 큰 균등 조각 길이를 찾습니다.
+ */
+function findNominalFragmentLength(messageLen: number, minFragmentLength: number, maxFragmentLength: number): number {
+  const maxFragmentCount = Math.max(1, Math.floor(messageLen / minFragmentLength));
+  let fragmentLength = messageLen;
+  
+  for (let fragmentCount = 1; fragmentCount <= maxFragmentCount; fragmentCount++) {
+    fragmentLength = Math.ceil(messageLen / fragmentCount);
+    if (fragmentLength <= maxFragmentLength) {
+      break;
+    }
+  }
+  
+  return Math.max(1, fragmentLength);
+}
+
+/**
+ * 메시지를 같은 길이의 조각으로 나눕니다. (마지막 조각은 0으로 채움)
+ */
+function partitionMessage(message: Uint8Array, fragmentLength: number): Uint8Array[] {
+  const count = Math.max(1, Math.ceil(message.length / fragmentLength));
+  return Array.from({ length: count }, (_, i) => {
+    const fragment = new Uint8Array(fragmentLength);
+    fragment.set(message.slice(i * fragmentLength, (i + 1) * fragmentLength));
+    return fragment;
+  });
+}
+
+/**
+ * 파트 순번에 해당하는 원본 조각 인덱스를 고릅니다.
+ * 인코더와 디코더가 같은 의사난수열을 쓰므로 인덱스를 전송하지 않아도 됩니다.
+ */
+function chooseFragments(seqNum: number, seqLen: number, checksum: number): number[] {
+  if (seqNum <= seqLen) {
+    return [seqNum - 1];
+  }
+  
+  const rng = new Xoshiro256(getBytes(concat([uint32ToBytes(seqNum), uint32ToBytes(checksum)])));
+  
+  // 차수 d를 1/d에 비례하는 확률로 선택
+  const degreeSampler = new RandomSampler(Array.from({ length: seqLen }, (_, i) => 1 / (i + 1)));
+  const degree = degreeSampler.next(rng) + 1;
+  
+  const remaining = Array.from({ length: seqLen }, (_, i) => i);
+  const shuffled: number[] = [];
+  while (remaining.length > 0) {
+    const index = rng.nextInt(0, remaining.length - 1);
+    shuffled.push(remaining.splice(index, 1)[0]);
+  }
+  
+  return shuffled.slice(0, degree);
+}
+
+/**
+ * 파운틴 코드 의사난수 생성기 (xoshiro256**, SHA-256 시드)
+ */
+class Xoshiro256 {
+  private s: bigint[];
+  
+  constructor(seed: Uint8Array) {
+    const digest = sha256(seed).slice(2);
+    this.s = [0, 1, 2, 3].map(i => BigInt(`0x${digest.slice(i * 16, i * 16 + 16)}`));
+  }
+  
+  next(): bigint {
+    const [s0, s1, s2, s3] = this.s;
+    const result = (rotl((s1 * BigInt(5)) & UINT64_MASK, 7) * BigInt(9)) & UINT64_MASK;
+    const t = (s1 << BigInt(17)) & UINT64_MASK;
+    
+    const n2 = s2 ^ s0;
+    const n3 = s3 ^ s1;
+    const n1 = s1 ^ n2;
+    const n0 = s0 ^ n3;
+    
+    this.s = [n0, n1, n2 ^ t, rotl(n3, 45)];
+    return result;
+  }
+  
+  nextDouble(): number {
+    return Number(this.next()) / 2 ** 64;
+  }
+  
+  nextInt(low: number, high: number): number {
+    return Math.floor(this.nextDouble() * (high - low + 1)) + low;
+  }
+}
+
+/**
+ * 가중치 샘플러 (Vose 별칭 방법)
+ */
+class RandomSampler {
+  private probs: number[];
+  private aliases: number[];
+  
+  constructor(weights: number[]) {
+    const n = weights.length;
+    const sum = weights.reduce((acc, weight) => acc + weight, 0);
+    const scaled = weights.map(weight => (weight * n) / sum);
+    
+    const small: number[] = [];
+    const large: number[] = [];
+    for (let i = n - 1; i >= 0; i--) {
+      (scaled[i] < 1 ? small : large).push(i);
+    }
+    
+    this.probs = new Array(n).fill(0);
+    this.aliases = new Array(n).fill(0);
+    
+    while (small.length > 0 && large.length > 0) {
+      const a = small.pop()!;
+      const g = large.pop()!;
+      this.probs[a] = scaled[a];
+      this.aliases[a] = g;
+      scaled[g] += scaled[a] - 1;
+      (scaled[g] < 1 ? small : large).push(g);
+    }
+    
+    while (large.length > 0) {
+      this.probs[large.pop()!] = 1;
+    }
+    while (small.length > 0) {
+      this.probs[small.pop()!] = 1;
+    }
+  }
+  
+  next(rng: Xoshiro256): number {
+    const r1 = rng.nextDouble();
+    const r2 = rng.nextDouble();
+    const i = Math.floor(this.probs.length * r1);
+    return r2 < this.probs[i] ? i : this.aliases[i];
+  }
+}
+
+/**
+ * 64비트 왼쪽 회전
+ */
+function rotl(value: bigint, shift: number): bigint {
+  return ((value << BigInt(shift)) | (value >> BigInt(64 - shift))) & UINT64_MASK;
+}
+
+/**
+ * target ^= source
+ */
+function xorInto(target: Uint8Array, source: Uint8Array): void {
+  for (let i = 0; i < target.length; i++) {
+    target[i] ^= source[i];
+  }
+}
+
+/**
+ * 32비트 정수를 빅엔디언 4바이트로 바꿉니다.
+ */
+function uint32ToBytes(value: number): Uint8Array {
+  return Uint8Array.from([(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+}
+
+/**
+ * Bytewords 조회
+ */
+function lookupByteword(index: Map<string, number>, word: string): number {
+  const byte = index.get(word);
+  if (byte === undefined) {
+    throw new ValidationError(`유효하지 않은 Bytewords 단어입니다: ${word}`, 'bytewords');
+  }
+  return byte;
+}
@@ -0,0 +1,412 @@
+/**
+ * @file urRegistry.ts
+ * @description 에어갭 서명용 UR 레지스트리 항목 (ERC-4527, BCR-2020-006/007)
+ * 
+ * - crypto-keypath: 파생 경로와 마스터 키 지문
+ * - crypto-hdkey: 디바이스가 내보낸 계정 확장 공개키
+ * - eth-sign-request: 지갑 → 디바이스 서명 요청
+ * - eth-signature: 디바이스 → 지갑 서명 응답
+ */
+
+import { getAddress, getBytes, hexlify, randomBytes } from 'ethers';
+import { ValidationError } from '../../utils/errors';
+import { CborTag, CborValue, decodeCbor, encodeCbor } from './cbor';
+import { UR } from './ur';
+
+/**
+ * UR 레지스트리 CBOR 태그
+ */
+export enum URRegistryTag {
+  UUID = 37,
+  CRYPTO_HDKEY = 303,
+  CRYPTO_KEYPATH = 304,
+  CRYPTO_COIN_INFO = 305,
+  ETH_SIGN_REQUEST = 401,
+  ETH_SIGNATURE = 402
+}
+
+/**
+ * UR 타입 이름
+ */
+export enum URRegistryType {
+  CRYPTO_HDKEY = 'crypto-hdkey',
+  ETH_SIGN_REQUEST = 'eth-sign-request',
+  ETH_SIGNATURE = 'eth-signature'
+}
+
+/**
+ * eth-sign-request 서명 데이터 종류
+ */
+export enum EthDataType {
+  // 레거시 트랜잭션 (서명 전 RLP)
+  TRANSACTION = 1,
+  // EIP-712 타입화된 데이터 (JSON)
+  TYPED_DATA = 2,
+  // EIP-191 개인 메시지 (원본 바이트)
+  PERSONAL_MESSAGE = 3,
+  // EIP-2718 타입 트랜잭션 (서명 전 직렬화)
+  TYPED_TRANSACTION = 4
+}
+
+/**
+ * 파생 경로 구성 요소
+ */
+export interface KeypathComponent {
+  index: number;
+  hardened: boolean;
+}
+
+/**
+ * crypto-keypath
+ */
+export interface CryptoKeypath {
+  components: KeypathComponent[];
+  sourceFingerprint?: number; // 마스터 키 지문 (xfp)
+  depth?: number;
+}
+
+/**
+ * crypto-hdkey (공개키만 지원)
+ */
+export interface CryptoHDKey {
+  isMaster: boolean;
+  isPrivate: boolean;
+  key: string; // 33바이트 압축 공개키 (16진수)
+  chainCode?: string; // 32바이트 체인 코드 (16진수)
+  origin?: CryptoKeypath; // 마스터 키에서 이 키까지의 경로
+  children?: CryptoKeypath; // 이 키에서 파생할 자식 경로
+  parentFingerprint?: number;
+  name?: string; // 디바이스 이름
+  note?: string; // 경로 배치 방식 메모 (예: account.standard)
+}
+
+/**
+ * eth-sign-request
+ */
+export interface EthSignRequest {
+  requestId: string; // UUID
+  signData: string; // 서명할 데이터 (16진수)
+  dataType: EthDataType;
+  chainId?: number;
+  derivationPath: CryptoKeypath;
+  address?: string;
+  origin?: string; // 요청한 지갑 이름
+}
+
+/**
+ * eth-signature
+ */
+export interface EthSignature {
+  requestId?: string; // 대응하는 요청 UUID
+  signature: string; // r(32) || s(32) || v (16진수)
+  origin?: string; // 서명한 디바이스 이름
+}
+
+/**
+ * `m/44'/60'/0'` 형식 경로를 crypto-keypath로 바꿉니다.
+ * 
+ * @param path 파생 경로
+ * @param sourceFingerprint 마스터 키 지문
+ * @returns crypto-keypath
+ */
+export function parseKeypath(path: string, sourceFingerprint?: number): CryptoKeypath {
+  const segments = path.trim().split('/');
+  if (segments[0] !== 'm') {
+    throw new ValidationError(`파생 경로는 m으로 시작해야 합니다: ${path}`, 'path');
+  }
+  
+  const components = segments.slice(1).map(segment => {
+    const hardened = segment.endsWith("'") || segment.endsWith('h');
+    const index = Number(hardened ? segment.slice(0, -1) : segment);
+    if (!Number.isInteger(index) || index < 0 || index >= 0x80000000) {
+      throw new ValidationError(`유효하지 않은 파생 경로입니다: ${path}`, 'path');
+    }
+    return { index, hardened };
+  });
+  
+  return { components, sourceFingerprint, depth: components.length };
+}
+
+/**
+ * crypto-keypath를 `m/44'/60'/0'` 형식 경로로 바꿉니다.
+ * 
+ * @param keypath crypto-keypath
+ * @returns 파생 경로
+ */
+export function formatKeypath(keypath: CryptoKeypath): string {
+  return ['m', ...keypath.components.map(({ index, hardened }) => `${index}${hardened ? "'" : ''}`)].join('/');
+}
+
+/**
+ * 무작위 UUID(v4)를 만듭니다.
+ */
+export function createRequestId(): string {
+  const bytes = randomBytes(16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  return bytesToUuid(bytes);
+}
+
+/**
+ * crypto-hdkey UR을 디코딩합니다.
+ * 
+ * @param ur UR
+ * @returns crypto-hdkey
+ */
+export function decodeCryptoHDKey(ur: UR): CryptoHDKey {
+  assertURType(ur, URRegistryType.CRYPTO_HDKEY);
+  const map = expectMap(decodeCbor(ur.cbor), URRegistryType.CRYPTO_HDKEY);
+  
+  const key = map.get(3);
+  if (!(key instanceof Uint8Array)) {
+    throw new ValidationError('crypto-hdkey에 key-data가 없습니다.', 'key');
+  }
+  
+  const chainCode = map.get(4);
+  const origin = map.get(6);
+  const children = map.get(7);
+  const parentFingerprint = map.get(8);
+  const name = map.get(9);
+  const note = map.get(10);
+  
+  return {
+    isMaster: map.get(1) === true,
+    isPrivate: map.get(2) === true,
+    key: hexlify(key),
+    chainCode: chainCode instanceof Uint8Array ? hexlify(chainCode) : undefined,
+    origin: origin !== undefined ? decodeKeypath(origin) : undefined,
+    children: children !== undefined ? decodeKeypath(children) : undefined,
+    parentFingerprint: typeof parentFingerprint === 'number' ? parentFingerprint : undefined,
+    name: typeof name === 'string' ? name : undefined,
+    note: typeof note === 'string' ? note : undefined
+  };
+}
+
+/**
+ * crypto-hdkey UR을 만듭니다. (공개키 전용)
+ * 
+ * @param hdkey crypto-hdkey
+ * @returns UR
+ */
+export function encodeCryptoHDKey(hdkey: CryptoHDKey): UR {
+  const map = new Map<CborValue, CborValue>();
+  if (hdkey.isMaster) {
+    map.set(1, true);
+  }
+  map.set(3, getBytes(hdkey.key));
+  if (hdkey.chainCode) {
+    map.set(4, getBytes(hdkey.chainCode));
+  }
+  if (hdkey.origin) {
+    map.set(6, encodeKeypath(hdkey.origin));
+  }
+  if (hdkey.children) {
+    map.set(7, encodeKeypath(hdkey.children));
+  }
+  if (hdkey.parentFingerprint !== undefined) {
+    map.set(8, hdkey.parentFingerprint);
+  }
+  if (hdkey.name) {
+    map.set(9, hdkey.name);
+  }
+  if (hdkey.note) {
+    map.set(10, hdkey.note);
+  }
+  
+  return { type: URRegistryType.CRYPTO_HDKEY, cbor: encodeCbor(map) };
+}
+
+/**
+ * eth-sign-request UR을 만듭니다.
+ * 
+ * @param request 서명 요청
+ * @returns UR
+ */
+export function encodeEthSignRequest(request: EthSignRequest): UR {
+  const map = new Map<CborValue, CborValue>();
+  map.set(1, new CborTag(URRegistryTag.UUID, uuidToBytes(request.requestId)));
+  map.set(2, getBytes(request.signData));
+  map.set(3, request.dataType);
+  if (request.chainId !== undefined) {
+    map.set(4, request.chainId);
+  }
+  map.set(5, encodeKeypath(request.derivationPath));
+  if (request.address) {
+    map.set(6, getBytes(getAddress(request.address)));
+  }
+  if (request.origin) {
+    map.set(7, request.origin);
+  }
+  
+  return { type: URRegistryType.ETH_SIGN_REQUEST, cbor: encodeCbor(map) };
+}
+
+/**
+ * eth-sign-request UR을 디코딩합니다.
+ * 
+ * @param ur UR
+ * @returns 서명 요청
+ */
+export function decodeEthSignRequest(ur: UR): EthSignRequest {
+  assertURType(ur, URRegistryType.ETH_SIGN_REQUEST);
+  const map = expectMap(decodeCbor(ur.cbor), URRegistryType.ETH_SIGN_REQUEST);
+  
+  const signData = map.get(2);
+  const dataType = map.get(3);
+  const chainId = map.get(4);
+  const address = map.get(6);
+  const origin = map.get(7);
+  
+  if (!(signData instanceof Uint8Array) || typeof dataType !== 'number' || !(dataType in EthDataType)) {
+    throw new ValidationError('eth-sign-request 형식이 올바르지 않습니다.', URRegistryType.ETH_SIGN_REQUEST);
+  }
+  
+  return {
+    requestId: decodeUuid(map.get(1)),
+    signData: hexlify(signData),
+    dataType,
+    chainId: typeof chainId === 'number' ? chainId : undefined,
+    derivationPath: decodeKeypath(map.get(5)),
+    address: address instanceof Uint8Array ? getAddress(hexlify(address)) : undefined,
+    origin: typeof origin === 'string' ? origin : undefined
+  };
+}
+
+/**
+ * eth-signature UR을 만듭니다.
+ * 
+ * @param signature 서명 응답
+ * @returns UR
+ */
+export function encodeEthSignature(signature: EthSignature): UR {
+  const map = new Map<CborValue, CborValue>();
+  if (signature.requestId) {
+    map.set(1, new CborTag(URRegistryTag.UUID, uuidToBytes(signature.requestId)));
+  }
+  map.set(2, getBytes(signature.signature));
+  if (signature.origin) {
+    map.set(3, signature.origin);
+  }
+  
+  return { type: URRegistryType.ETH_SIGNATURE, cbor: encodeCbor(map) };
+}
+
+/**
+ * eth-signature UR을 디코딩합니다.
+ * 
+ * @param ur UR
+ * @returns 서명 응답
+ */
+export function decodeEthSignature(ur: UR): EthSignature {
+  assertURType(ur, URRegistryType.ETH_SIGNATURE);
+  const map = expectMap(decodeCbor(ur.cbor), URRegistryType.ETH_SIGNATURE);
+  
+  const signature = map.get(2);
+  const origin = map.get(3);
+  if (!(signature instanceof Uint8Array) || signature.length < 65) {
+    throw new ValidationError('eth-signature에 서명이 없거나 길이가 올바르지 않습니다.', URRegistryType.ETH_SIGNATURE);
+  }
+  
+  return {
+    requestId: map.has(1) ? decodeUuid(map.get(1)) : undefined,
+    signature: hexlify(signature),
+    origin: typeof origin === 'string' ? origin : undefined
+  };
+}
+
+/**
+ * crypto-keypath를 태그 붙은 CBOR 값으로 바꿉니다.
+ */
+function encodeKeypath(keypath: CryptoKeypath): CborTag {
+  const map = new Map<CborValue, CborValue>();
+  map.set(1, keypath.components.flatMap(({ index, hardened }) => [index, hardened]));
+  if (keypath.sourceFingerprint !== undefined) {
+    map.set(2, keypath.sourceFingerprint);
+  }
+  if (keypath.depth !== undefined) {
+    map.set(3, keypath.depth);
+  }
+  return new CborTag(URRegistryTag.CRYPTO_KEYPATH, map);
+}
+
+/**
+ * 태그 붙은 CBOR 값을 crypto-keypath로 바꿉니다.
+ */
+function decodeKeypath(value: CborValue): CryptoKeypath {
+  const inner = value instanceof CborTag && value.tag === URRegistryTag.CRYPTO_KEYPATH ? value.value : value;
+  const map = expectMap(inner, 'crypto-keypath');
+  const flat = map.get(1);
+  
+  if (!Array.isArray(flat) || flat.length % 2 !== 0) {
+    throw new ValidationError('crypto-keypath 구성 요소 형식이 올바르지 않습니다.', 'crypto-keypath');
+  }
+  
+  const components: KeypathComponent[] = [];
+  for (let i = 0; i < flat.length; i += 2) {
+    const index = flat[i];
+    const hardened = flat[i + 1];
+    // 와일드카드([])나 범위 구성 요소는 계정 경로에 쓰이지 않으므로 거부
+    if (typeof index !== 'number' || typeof hardened !== 'boolean') {
+      throw new ValidationError('지원하지 않는 crypto-keypath 구성 요소입니다.', 'crypto-keypath');
+    }
+    components.push({ index, hardened });
+  }
+  
+  const sourceFingerprint = map.get(2);
+  const depth = map.get(3);
+  return {
+    components,
+    sourceFingerprint: typeof sourceFingerprint === 'number' ? sourceFingerprint : undefined,
+    depth: typeof depth === 'number' ? depth : undefined
+  };
+}
+
+/**
+ * UR 타입 확인
+ */
+function assertURType(ur: UR, type: URRegistryType): void {
+  if (ur.type !== type) {
+    throw new ValidationError(`${type} UR이 아닙니다: ${ur.type}`, 'type');
+  }
+}
+
+/**
+ * 최상위 CBOR 맵 확인 (태그가 붙어 있으면 벗김)
+ */
+function expectMap(value: CborValue, name: string): Map<CborValue, CborValue> {
+  const inner = value instanceof CborTag ? value.value : value;
+  if (!(inner instanceof Map)) {
+    throw new ValidationError(`${name} 형식이 올바르지 않습니다.`, name);
+  }
+  return inner;
+}
+
+/**
+ * 태그 37 UUID 값을 문자열로 바꿉니다.
+ */
+function decodeUuid(value: CborValue): string {
+  const bytes = value instanceof CborTag ? value.value : value;
+  if (!(bytes instanceof Uint8Array) || bytes.length !== 16) {
+    throw new ValidationError('요청 ID(UUID) 형식이 올바르지 않습니다.', 'requestId');
+  }
+  return bytesToUuid(bytes);
+}
+
+/**
+ * UUID 문자열을 16바이트로 바꿉니다.
+ */
+function uuidToBytes(uuid: string): Uint8Array {
+  const hex = uuid.replace(/-/g, '');
+  if (!/^[0-9a-fA-F]{32}$/.test(hex)) {
+    throw new ValidationError(`유효하지 않은 UUID입니다: ${uuid}`, 'requestId');
+  }
+  return getBytes(`0x${hex}`);
+}
+
+/**
+ * 16바이트를 UUID 문자열로 바꿉니다.
+ */
+function bytesToUuid(bytes: Uint8Array): string {
+  const hex = hexlify(bytes).slice(2);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
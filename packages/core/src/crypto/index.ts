@@ -0,0 +1,178 @@
+/**
+ * crypto/index.ts
+ * 
+ * CreLink 지갑의 서명 관련 모듈을 내보냅니다.
+ */
+
+// 서명 생성 및 검증 (SignatureType, isValidPrivateKey는 storage, utils 모듈의 동일 이름과 충돌하므로 제외)
+export {
+  signPersonalMessage,
+  verifyPersonalMessage,
+  signTypedData,
+  verifyTypedData,
+  signHash,
+  splitSignature,
+  joinSignature,
+  computeMessageHash,
+  prefixCatenaMessage,
+  createSignature,
+  validateSignature,
+  computeDomainSeparator
+} from './signatures';
+
+// EIP-712 타입화된 데이터 분석
+export {
+  TypedDataPayload,
+  TypedDataKind,
+  TypedDataRiskType,
+  TypedDataApproval,
+  TypedDataRisk,
+  TypedDataInspection,
+  PERMIT2_ADDRESS,
+  LONG_DEADLINE_THRESHOLD,
+  parseTypedData,
+  toEIP712Domain,
+  inspectTypedData
+} from './typedData';
+
+// 키링 타입
+export {
+  KeyringType,
+  KeyringAccount,
+  Keyring
+} from '../types/accounts.types';
+
+// BIP-39 니모닉 (keyManagement, mnemonic 모듈의 동일 이름 함수 대신 bip39 구현을 내보냄)
+export {
+  generateMnemonic,
+  validateMnemonic,
+  normalizeMnemonic
+} from './bip/bip39';
+
+// BIP-44 계층적 결정성 지갑
+export { CoinType } from './bip/bip32';
+export {
+  BIP44Path,
+  BIP44_PURPOSE,
+  BIP44,
+  isValidBIP44Path
+} from './bip/bip44';
+
+// 키스토어 (Web3 Secret Storage)
+export {
+  KeystoreV3,
+  KeystoreOptions,
+  encryptToKeystore,
+  decryptFromKeystore,
+  validateKeystore
+} from './keystore';
+
+// 데이터 암호화
+export {
+  EncryptionOptions,
+  encrypt,
+  decrypt
+} from './encryption';
+
+// 인증 암호화 볼트 (AES-256-GCM + scrypt/Argon2id)
+export {
+  VAULT_VERSION,
+  VAULT_CIPHER,
+  VaultKdfAlgorithm,
+  ScryptKdfParams,
+  Argon2idKdfParams,
+  VaultKdfParams,
+  VaultEnvelope,
+  VaultUnlockResult,
+  VaultKdfCalibrationOptions,
+  DEFAULT_VAULT_KDF,
+  VAULT_KDF_LIMITS,
+  encryptVault,
+  decryptVault,
+  unlockVault,
+  isVaultEnvelope,
+  needsVaultUpgrade,
+  calibrateVaultKdf
+} from './vault';
+
+// 하드웨어 지갑 키링과 디바이스 전송 계층
+export {
+  HardwareAddress,
+  HardwareSignature,
+  HardwareTypedDataRequest,
+  HardwareTransport
+} from './hardware/transport';
+
+export {
+  HardwarePathLayout,
+  HardwareDiscoveryTransport,
+  HardwareAccountCandidate,
+  HardwareDiscoveryOptions,
+  HardwareAddAccountOptions,
+  HardwareKeyringOptions,
+  SerializedHardwareKeyring,
+  HardwareKeyring,
+  getHardwarePath,
+  getHardwarePaths,
+  isValidHardwarePath
+} from './hardware/hardwareKeyring';
+
+export {
+  EmulatedRequestKind,
+  EmulatedDeviceRequest,
+  EmulatedHardwareTransportOptions,
+  EmulatedHardwareTransport
+} from './hardware/emulatedTransport';
+
+// QR 에어갭 서명 (ERC-4527 UR/CBOR)
+export {
+  CborTag,
+  CborValue,
+  encodeCbor,
+  decodeCbor
+} from './hardware/cbor';
+
+export {
+  UR,
+  BytewordsStyle,
+  UREncoder,
+  URDecoder,
+  crc32,
+  encodeBytewords,
+  decodeBytewords,
+  encodeUR,
+  decodeUR
+} from './hardware/ur';
+
+export {
+  URRegistryTag,
+  URRegistryType,
+  EthDataType,
+  KeypathComponent,
+  CryptoKeypath,
+  CryptoHDKey,
+  EthSignRequest,
+  EthSignature,
+  parseKeypath,
+  formatKeypath,
+  createRequestId,
+  decodeCryptoHDKey,
+  encodeCryptoHDKey,
+  encodeEthSignRequest,
+  decodeEthSignRequest,
+  encodeEthSignature,
+  decodeEthSignature
+} from './hardware/urRegistry';
+
+export {
+  QRAccountKey,
+  QRSignRequest,
+  QRSignRequestHandler,
+  QRHardwareTransport,
+  importQRAccountKey
+} from './hardware/qrTransport';
+
+export {
+  SerializedQRKeyring,
+  QRKeyring
+} from './hardware/qrKeyring';
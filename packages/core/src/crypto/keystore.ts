@@ -5,7 +5,7 @@
 
 import * as CryptoJS from 'crypto-js';
 import { randomBytes } from 'crypto';
-import { Wallet } from 'ethers';
+import { Wallet, encryptKeystoreJson } from 'ethers';
 import { normalizeAddress } from '../utils/address';
 
 /**
@@ -61,8 +61,21 @@ export async function encryptToKeystore(
   options: KeystoreOptions = {}
 ): Promise<KeystoreV3> {
   const wallet = new Wallet(privateKey);
-  const keystoreJson = await wallet.encrypt(password, options);
-  return JSON.parse(keystoreJson);
+  
+  // Wallet.encrypt의 두 번째 인자는 진행 콜백이므로 옵션은 encryptKeystoreJson으로 전달
+  const keystoreJson = await encryptKeystoreJson(
+    { address: wallet.address, privateKey: wallet.privateKey },
+    password,
+    {
+      salt: options.salt,
+      iv: options.iv,
+      scrypt: { N: options.n, r: options.r, p: options.p }
+    }
+  );
+  
+  // ethers는 Crypto 필드를 대문자로 출력하므로 Web3 Secret Storage 표기(crypto)로 정규화
+  const { Crypto, ...keystore } = JSON.parse(keystoreJson);
+  return { ...keystore, crypto: Crypto } as KeystoreV3;
 }
 
 /**
@@ -3,7 +3,7 @@
  * @description 서명 생성 및 검증 유틸리티 모듈
  */
 
-import { Wallet, SigningKey, hashMessage, getBytes, verifyMessage } from 'ethers';
+import { Wallet, SigningKey, TypedDataEncoder, hashMessage, getBytes, verifyMessage } from 'ethers';
 import { normalizeAddress } from '../utils/address';
 import { EIP712Domain, SignTypedDataOptions } from '../types/transactions.types';
 
@@ -261,18 +261,11 @@ export function validateSignature(
  * @returns 도메인 해시 (16진수 문자열)
  */
 export function computeDomainSeparator(domain: EIP712Domain): string {
-  const domainFields = [];
-  
-  if (domain.name) domainFields.push({ name: 'name', type: 'string' });
-  if (domain.version) domainFields.push({ name: 'version', type: 'string' });
-  if (domain.chainId) domainFields.push({ name: 'chainId', type: 'uint256' });
-  if (domain.verifyingContract) domainFields.push({ name: 'verifyingContract', type: 'address' });
-  if (domain.salt) domainFields.push({ name: 'salt', type: 'bytes32' });
-  
-  const types = {
-    EIP712Domain: domainFields
-  };
-  
-  // 도메인 분리자 계산 (실제 구현은 ethers.js의 _TypedDataEncoder를 사용하는 것이 좋음)
-  return "0x"; // 실제 구현에서는 올바른 값을 계산해야 함
+  return TypedDataEncoder.hashDomain({
+    name: domain.name,
+    version: domain.version,
+    chainId: domain.chainId,
+    verifyingContract: domain.verifyingContract,
+    salt: domain.salt
+  });
 }
@@ -0,0 +1,418 @@
+/**
+ * @file typedData.ts
+ * @description EIP-712 타입화된 데이터 분석 모듈
+ * 
+ * 서명 요청의 구조와 도메인을 검증하고, EIP-2612 Permit, Permit2, NFT 마켓플레이스 주문처럼
+ * 서명만으로 자산 권한이 넘어가는 메시지를 식별하여 위험 요소를 추출합니다.
+ */
+
+import { TypedDataEncoder, MaxUint256 } from 'ethers';
+import { ValidationError } from '../utils/errors';
+import { EIP712Domain } from '../types/transactions.types';
+import { areAddressesEqual, isValidAddress } from '../utils/address';
+
+/**
+ * EIP-712 서명 요청 (eth_signTypedData_v4 형식)
+ */
+export interface TypedDataPayload {
+  types: Record<string, Array<{ name: string; type: string }>>;
+  primaryType: string;
+  domain: {
+    name?: string;
+    version?: string;
+    chainId?: number | string;
+    verifyingContract?: string;
+    salt?: string;
+  };
+  message: Record<string, any>;
+}
+
+/**
+ * 식별된 타입화된 데이터 종류
+ */
+export enum TypedDataKind {
+  PERMIT = 'permit',
+  DAI_PERMIT = 'dai_permit',
+  PERMIT2_ALLOWANCE = 'permit2_allowance',
+  PERMIT2_TRANSFER = 'permit2_transfer',
+  SEAPORT_ORDER = 'seaport_order',
+  MARKETPLACE_ORDER = 'marketplace_order',
+  UNKNOWN = 'unknown'
+}
+
+/**
+ * 타입화된 데이터 위험 유형
+ */
+export enum TypedDataRiskType {
+  CHAIN_MISMATCH = 'chain_mismatch',
+  GASLESS_APPROVAL = 'gasless_approval',
+  UNLIMITED_APPROVAL = 'unlimited_approval',
+  LONG_DEADLINE = 'long_deadline',
+  EXPIRED = 'expired',
+  MARKETPLACE_ORDER = 'marketplace_order',
+  FREE_ORDER = 'free_order'
+}
+
+/**
+ * 서명으로 부여되는 토큰 권한
+ */
+export interface TypedDataApproval {
+  token?: string;
+  spender?: string;
+  amount?: string;
+  unlimited: boolean;
+  deadline?: number;
+}
+
+/**
+ * 타입화된 데이터 위험 요소
+ */
+export interface TypedDataRisk {
+  type: TypedDataRiskType;
+  severity: 'low' | 'medium' | 'high';
+  message: string;
+}
+
+/**
+ * 타입화된 데이터 분석 결과
+ */
+export interface TypedDataInspection {
+  kind: TypedDataKind;
+  primaryType: string;
+  domain: TypedDataPayload['domain'];
+  chainId: number | null;
+  chainIdMatches: boolean | null;
+  approvals: TypedDataApproval[];
+  risks: TypedDataRisk[];
+}
+
+/**
+ * Permit2 컨트랙트 주소 (모든 체인에서 동일)
+ */
+export const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+/**
+ * 이 기간보다 긴 기한은 사실상 무기한으로 간주합니다 (30일).
+ */
+export const LONG_DEADLINE_THRESHOLD = 30 * 24 * 60 * 60;
+
+// 무제한으로 간주하는 승인 금액 (EIP-2612: uint256 최댓값의 절반, Permit2: uint160 최댓값의 절반)
+const UNLIMITED_UINT256 = MaxUint256 / 2n;
+const UNLIMITED_UINT160 = (2n ** 160n - 1n) / 2n;
+
+// NFT 마켓플레이스 주문으로 간주하는 primaryType
+const MARKETPLACE_ORDER_TYPES = ['Order', 'MakerOrder', 'Maker', 'OrderComponents', 'BulkOrder'];
+
+/**
+ * 타입화된 데이터를 파싱하고 구조를 검증합니다.
+ * 
+ * @param input JSON 문자열 또는 객체
+ * @returns 검증된 타입화된 데이터
+ */
+export function parseTypedData(input: string | Record<string, any>): TypedDataPayload {
+  let data: any;
+  try {
+    data = typeof input === 'string' ? JSON.parse(input) : input;
+  } catch (error) {
+    throw new ValidationError('타입화된 데이터가 올바른 JSON 형식이 아닙니다.', 'typedData');
+  }
+  
+  if (!data || typeof data !== 'object') {
+    throw new ValidationError('타입화된 데이터는 객체여야 합니다.', 'typedData');
+  }
+  
+  const { types, primaryType, domain, message } = data;
+  
+  if (!types || typeof types !== 'object' || !domain || typeof domain !== 'object' || !message || typeof message !== 'object') {
+    throw new ValidationError('types, domain, message 필드가 필요합니다.', 'typedData');
+  }
+  
+  if (typeof primaryType !== 'string' || !types[primaryType]) {
+    throw new ValidationError(`primaryType이 types에 정의되어 있지 않습니다: ${primaryType}`, 'primaryType');
+  }
+  
+  if (domain.verifyingContract !== undefined && !isValidAddress(domain.verifyingContract)) {
+    throw new ValidationError('유효하지 않은 verifyingContract 주소입니다.', 'domain.verifyingContract');
+  }
+  
+  // 타입 정의의 순환 참조, 누락된 타입 등을 검증하고 메시지를 인코딩해 본다
+  const messageTypes = { ...types };
+  delete messageTypes.EIP712Domain;
+  try {
+    TypedDataEncoder.from(messageTypes).encodeData(primaryType, message);
+  } catch (error) {
+    throw new ValidationError(`타입화된 데이터가 타입 정의와 일치하지 않습니다: ${(error as Error).message}`, 'typedData');
+  }
+  
+  return { types, primaryType, domain, message };
+}
+
+/**
+ * 서명 요청의 도메인을 EIP-712 도메인으로 변환합니다.
+ * 16진수나 10진수 문자열로 전달된 chainId는 숫자로 바꾸고, 없는 필드는 그대로 비워 둡니다.
+ * 
+ * @param domain 서명 요청의 도메인
+ * @returns EIP-712 도메인
+ */
+export function toEIP712Domain(domain: TypedDataPayload['domain']): EIP712Domain {
+  const { chainId, ...fields } = domain;
+  
+  if (chainId === undefined) {
+    return fields;
+  }
+  
+  const numericChainId = Number(chainId);
+  if (!Number.isSafeInteger(numericChainId) || numericChainId < 0) {
+    throw new ValidationError(`유효하지 않은 chainId입니다: ${chainId}`, 'domain.chainId');
+  }
+  
+  return { ...fields, chainId: numericChainId };
+}
+
+/**
+ * 타입화된 데이터를 분석합니다.
+ * 
+ * @param typedData 타입화된 데이터
+ * @param activeChainId 현재 활성 체인 ID (없으면 체인 검증 생략)
+ * @param now 기준 시각 (밀리초)
+ * @returns 분석 결과
+ */
+export function inspectTypedData(
+  typedData: TypedDataPayload,
+  activeChainId?: number,
+  now: number = Date.now()
+): TypedDataInspection {
+  const { primaryType, domain, message } = typedData;
+  const risks: TypedDataRisk[] = [];
+  
+  const chainId = parseChainId(domain.chainId);
+  const chainIdMatches = chainId === null || activeChainId === undefined ? null : chainId === activeChainId;
+  
+  if (chainIdMatches === false) {
+    risks.push({
+      type: TypedDataRiskType.CHAIN_MISMATCH,
+      severity: 'high',
+      message: `서명 도메인의 체인 ID(${chainId})가 현재 네트워크(${activeChainId})와 다릅니다.`
+    });
+  }
+  
+  const kind = detectKind(typedData);
+  const approvals = extractApprovals(kind, typedData);
+  const nowSeconds = Math.floor(now / 1000);
+  
+  if (approvals.length > 0) {
+    const spenders = Array.from(new Set(approvals.map(approval => approval.spender).filter(Boolean)));
+    risks.push({
+      type: TypedDataRiskType.GASLESS_APPROVAL,
+      severity: 'high',
+      message: `이 서명만으로 ${spenders.join(', ') || '상대방'}에게 토큰 사용 권한이 부여됩니다. 트랜잭션 없이 자산이 이동될 수 있습니다.`
+    });
+  }
+  
+  if (approvals.some(approval => approval.unlimited)) {
+    risks.push({
+      type: TypedDataRiskType.UNLIMITED_APPROVAL,
+      severity: 'high',
+      message: '무제한 토큰 사용 권한을 부여합니다.'
+    });
+  }
+  
+  const deadlines = approvals.map(approval => approval.deadline).filter((deadline): deadline is number => deadline !== undefined);
+  if (kind === TypedDataKind.SEAPORT_ORDER && message.endTime !== undefined) {
+    deadlines.push(toDeadline(message.endTime));
+  }
+  
+  if (deadlines.some(deadline => deadline - nowSeconds > LONG_DEADLINE_THRESHOLD)) {
+    risks.push({
+      type: TypedDataRiskType.LONG_DEADLINE,
+      severity: 'medium',
+      message: '서명의 유효 기간이 매우 길거나 무기한입니다.'
+    });
+  } else if (deadlines.length > 0 && deadlines.every(deadline => deadline < nowSeconds)) {
+    risks.push({
+      type: TypedDataRiskType.EXPIRED,
+      severity: 'low',
+      message: '이미 만료된 서명 요청입니다.'
+    });
+  }
+  
+  if (kind === TypedDataKind.SEAPORT_ORDER || kind === TypedDataKind.MARKETPLACE_ORDER) {
+    risks.push({
+      type: TypedDataRiskType.MARKETPLACE_ORDER,
+      severity: 'medium',
+      message: 'NFT 마켓플레이스 주문에 서명합니다. 서명하면 주문 조건에 따라 자산이 판매될 수 있습니다.'
+    });
+    
+    if (kind === TypedDataKind.SEAPORT_ORDER && isFreeSeaportOrder(message)) {
+      risks.push({
+        type: TypedDataRiskType.FREE_ORDER,
+        severity: 'high',
+        message: '대가 없이 자산을 넘기는 주문입니다. 피싱 사이트일 가능성이 높습니다.'
+      });
+    }
+  }
+  
+  return {
+    kind,
+    primaryType,
+    domain,
+    chainId,
+    chainIdMatches,
+    approvals,
+    risks
+  };
+}
+
+/**
+ * 도메인의 체인 ID를 숫자로 변환합니다.
+ * 
+ * @param chainId 체인 ID (숫자, 10진수 또는 16진수 문자열)
+ * @returns 체인 ID (없거나 해석할 수 없으면 null)
+ */
+function parseChainId(chainId: number | string | undefined): number | null {
+  if (chainId === undefined || chainId === null || chainId === '') {
+    return null;
+  }
+  
+  try {
+    const parsed = typeof chainId === 'number' ? chainId : Number(BigInt(chainId));
+    return Number.isSafeInteger(parsed) ? parsed : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * 타입화된 데이터의 종류를 식별합니다.
+ * 
+ * @param typedData 타입화된 데이터
+ * @returns 데이터 종류
+ */
+function detectKind(typedData: TypedDataPayload): TypedDataKind {
+  const { primaryType, domain, types } = typedData;
+  const fields = (types[primaryType] || []).map(field => field.name);
+  
+  const isPermit2 = domain.name === 'Permit2'
+    || (!!domain.verifyingContract && areAddressesEqual(domain.verifyingContract, PERMIT2_ADDRESS));
+  
+  if (isPermit2) {
+    if (primaryType === 'PermitSingle' || primaryType === 'PermitBatch') {
+      return TypedDataKind.PERMIT2_ALLOWANCE;
+    }
+    if (primaryType.startsWith('Permit') && primaryType.includes('TransferFrom')) {
+      return TypedDataKind.PERMIT2_TRANSFER;
+    }
+  }
+  
+  if (primaryType === 'Permit') {
+    if (['owner', 'spender', 'value', 'deadline'].every(name => fields.includes(name))) {
+      return TypedDataKind.PERMIT;
+    }
+    if (['holder', 'spender', 'expiry', 'allowed'].every(name => fields.includes(name))) {
+      return TypedDataKind.DAI_PERMIT;
+    }
+  }
+  
+  if (domain.name === 'Seaport' && (primaryType === 'OrderComponents' || primaryType === 'BulkOrder')) {
+    return TypedDataKind.SEAPORT_ORDER;
+  }
+  
+  if (MARKETPLACE_ORDER_TYPES.includes(primaryType)) {
+    return TypedDataKind.MARKETPLACE_ORDER;
+  }
+  
+  return TypedDataKind.UNKNOWN;
+}
+
+/**
+ * 서명으로 부여되는 토큰 권한을 추출합니다.
+ * 
+ * @param kind 데이터 종류
+ * @param typedData 타입화된 데이터
+ * @returns 권한 목록
+ */
+function extractApprovals(kind: TypedDataKind, typedData: TypedDataPayload): TypedDataApproval[] {
+  const { domain, message } = typedData;
+  
+  switch (kind) {
+    case TypedDataKind.PERMIT:
+      return [{
+        token: domain.verifyingContract,
+        spender: message.spender,
+        amount: String(message.value),
+        unlimited: BigInt(message.value) > UNLIMITED_UINT256,
+        deadline: toDeadline(message.deadline)
+      }];
+    
+    case TypedDataKind.DAI_PERMIT:
+      // DAI 방식 Permit은 금액 없이 무제한 승인 여부(allowed)만 지정
+      if (!message.allowed) {
+        return [];
+      }
+      return [{
+        token: domain.verifyingContract,
+        spender: message.spender,
+        unlimited: true,
+        deadline: toDeadline(message.expiry)
+      }];
+    
+    case TypedDataKind.PERMIT2_ALLOWANCE: {
+      const details: any[] = Array.isArray(message.details) ? message.details : [message.details];
+      return details.filter(Boolean).map(detail => ({
+        token: detail.token,
+        spender: message.spender,
+        amount: String(detail.amount),
+        unlimited: BigInt(detail.amount) > UNLIMITED_UINT160,
+        // 권한 만료 시각 (0이면 서명 기한까지만 유효)
+        deadline: toDeadline(Number(detail.expiration) === 0 ? message.sigDeadline : detail.expiration)
+      }));
+    }
+    
+    case TypedDataKind.PERMIT2_TRANSFER: {
+      const permitted: any[] = Array.isArray(message.permitted) ? message.permitted : [message.permitted];
+      return permitted.filter(Boolean).map(item => ({
+        token: item.token,
+        spender: message.spender,
+        amount: String(item.amount),
+        unlimited: BigInt(item.amount) > UNLIMITED_UINT160,
+        deadline: toDeadline(message.deadline)
+      }));
+    }
+    
+    default:
+      return [];
+  }
+}
+
+/**
+ * Seaport 주문이 대가 없이 자산을 넘기는지 확인합니다.
+ * 주문자(offerer)에게 돌아가는 consideration이 없거나 모두 0이면 무료 주문입니다.
+ * 
+ * @param message Seaport OrderComponents
+ * @returns 무료 주문 여부
+ */
+function isFreeSeaportOrder(message: Record<string, any>): boolean {
+  const offer: any[] = Array.isArray(message.offer) ? message.offer : [];
+  const consideration: any[] = Array.isArray(message.consideration) ? message.consideration : [];
+  
+  if (offer.length === 0) {
+    return false;
+  }
+  
+  const toOfferer = consideration.filter(item =>
+    message.offerer && item.recipient && areAddressesEqual(item.recipient, message.offerer)
+  );
+  
+  return toOfferer.every(item => BigInt(item.startAmount ?? 0) === 0n && BigInt(item.endAmount ?? 0) === 0n);
+}
+
+/**
+ * 기한 값을 초 단위 숫자로 변환합니다.
+ * 
+ * @param value 기한 (uint256)
+ * @returns 초 단위 기한 (안전한 정수 범위를 넘으면 최댓값)
+ */
+function toDeadline(value: any): number {
+  const deadline = BigInt(value ?? 0);
+  return deadline > BigInt(Number.MAX_SAFE_INTEGER) ? Number.MAX_SAFE_INTEGER : Number(deadline);
+}
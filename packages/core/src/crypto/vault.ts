@@ -0,0 +1,405 @@
+/**
+ * @file vault.ts
+ * @description 버전 관리되는 인증 암호화 볼트 형식
+ * 
+ * 비밀번호에서 메모리 하드 KDF(scrypt 또는 Argon2id)로 키를 도출하고 AES-256-GCM으로 암호화합니다.
+ * KDF 파라미터를 기록한 헤더는 추가 인증 데이터(AAD)로 묶여 있어, 헤더나 암호문이 바뀌면 복호화가 거부됩니다.
+ * 이전 CryptoJS 형식(encrypt, simpleEncrypt)으로 저장된 데이터는 잠금 해제 시 새 형식으로 다시 암호화합니다.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { argon2idAsync } from '@noble/hashes/argon2';
+import { decrypt, simpleDecrypt } from './encryption';
+import { CryptoError, ValidationError } from '../utils/errors';
+import { createLogger } from '../utils/logging';
+
+// 로거 생성
+const logger = createLogger('Vault');
+
+/**
+ * 현재 볼트 형식 버전
+ */
+export const VAULT_VERSION = 1;
+
+/**
+ * 볼트 암호화 알고리즘
+ */
+export const VAULT_CIPHER = 'aes-256-gcm';
+
+/**
+ * 키 도출 함수 종류
+ */
+export enum VaultKdfAlgorithm {
+  SCRYPT = 'scrypt',
+  ARGON2ID = 'argon2id'
+}
+
+/**
+ * scrypt 파라미터
+ */
+export interface ScryptKdfParams {
+  algorithm: VaultKdfAlgorithm.SCRYPT;
+  N: number; // CPU/메모리 비용 (2의 거듭제곱)
+  r: number; // 블록 크기
+  p: number; // 병렬화 인자
+}
+
+/**
+ * Argon2id 파라미터
+ */
+export interface Argon2idKdfParams {
+  algorithm: VaultKdfAlgorithm.ARGON2ID;
+  m: number; // 메모리 비용 (KiB)
+  t: number; // 반복 횟수
+  p: number; // 병렬화 인자
+}
+
+/**
+ * 키 도출 함수 파라미터
+ */
+export type VaultKdfParams = ScryptKdfParams | Argon2idKdfParams;
+
+/**
+ * 볼트 봉투 형식
+ */
+export interface VaultEnvelope {
+  version: number;
+  kdf: VaultKdfParams & { salt: string };
+  cipher: {
+    algorithm: typeof VAULT_CIPHER;
+    iv: string;
+  };
+  ciphertext: string;
+  tag: string;
+}
+
+/**
+ * 볼트 잠금 해제 결과
+ */
+export interface VaultUnlockResult {
+  data: string;
+  // 이전 형식이거나 KDF 비용이 목표보다 낮아 다시 암호화한 봉투 (저장소에 덮어써야 함)
+  upgradedEnvelope?: string;
+}
+
+/**
+ * KDF 보정 옵션
+ */
+export interface VaultKdfCalibrationOptions {
+  algorithm?: VaultKdfAlgorithm;
+  // 목표 키 도출 시간 (밀리초)
+  targetMs?: number;
+}
+
+/**
+ * 기본 KDF 파라미터 (scrypt N=2^15, 약 32MB)
+ */
+export const DEFAULT_VAULT_KDF: ScryptKdfParams = {
+  algorithm: VaultKdfAlgorithm.SCRYPT,
+  N: 2 ** 15,
+  r: 8,
+  p: 1
+};
+
+/**
+ * 헤더 검증 범위
+ * 조작된 헤더로 과도한 연산이나 메모리를 요구하지 못하도록 제한합니다.
+ */
+export const VAULT_KDF_LIMITS = {
+  scrypt: { minN: 2 ** 10, maxN: 2 ** 20, maxR: 32, maxP: 16 },
+  argon2id: { minM: 1024, maxM: 1024 * 1024, maxT: 16, maxP: 16 }
+};
+
+// KDF 보정 범위
+const CALIBRATION_BOUNDS = {
+  scrypt: { minN: 2 ** 14, maxN: 2 ** 20, probeN: 2 ** 12 },
+  argon2id: { minM: 19456, maxM: 256 * 1024, probeM: 8192, t: 2 }
+};
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 32;
+const IV_LENGTH = 12;
+
+/**
+ * 데이터를 볼트 형식으로 암호화합니다.
+ * 
+ * @param data 암호화할 데이터
+ * @param password 비밀번호
+ * @param kdf 키 도출 함수 파라미터
+ * @returns 볼트 봉투 (JSON 문자열)
+ */
+export async function encryptVault(
+  data: string,
+  password: string,
+  kdf: VaultKdfParams = DEFAULT_VAULT_KDF
+): Promise<string> {
+  validateKdfParams(kdf);
+  
+  const header: Omit<VaultEnvelope, 'ciphertext' | 'tag'> = {
+    version: VAULT_VERSION,
+    kdf: { ...kdf, salt: randomBytes(SALT_LENGTH).toString('hex') },
+    cipher: { algorithm: VAULT_CIPHER, iv: randomBytes(IV_LENGTH).toString('hex') }
+  };
+  
+  const key = await deriveKey(password, header.kdf);
+  const cipher = createCipheriv(VAULT_CIPHER, key, Buffer.from(header.cipher.iv, 'hex'));
+  cipher.setAAD(serializeHeader(header));
+  
+  const ciphertext = Buffer.concat([cipher.update(data, 'utf8'), cipher.final()]);
+  const envelope: VaultEnvelope = {
+    ...header,
+    ciphertext: ciphertext.toString('hex'),
+    tag: cipher.getAuthTag().toString('hex')
+  };
+  
+  return JSON.stringify(envelope);
+}
+
+/**
+ * 볼트 봉투를 복호화합니다.
+ * 
+ * @param envelope 볼트 봉투 (JSON 문자열)
+ * @param password 비밀번호
+ * @returns 복호화된 데이터
+ */
+export async function decryptVault(envelope: string, password: string): Promise<string> {
+  const parsed = parseVaultEnvelope(envelope);
+  const key = await deriveKey(password, parsed.kdf);
+  
+  try {
+    const decipher = createDecipheriv(VAULT_CIPHER, key, Buffer.from(parsed.cipher.iv, 'hex'));
+    decipher.setAAD(serializeHeader(parsed));
+    decipher.setAuthTag(Buffer.from(parsed.tag, 'hex'));
+    
+    return Buffer.concat([
+      decipher.update(Buffer.from(parsed.ciphertext, 'hex')),
+      decipher.final()
+    ]).toString('utf8');
+  } catch (error) {
+    throw new CryptoError('Invalid password or corrupted vault');
+  }
+}
+
+/**
+ * 볼트를 잠금 해제합니다.
+ * 이전 CryptoJS 형식이거나 KDF 비용이 목표보다 낮으면 목표 파라미터로 다시 암호화한 봉투를 함께 반환합니다.
+ * 
+ * @param encrypted 볼트 봉투 또는 이전 형식의 암호화 데이터
+ * @param password 비밀번호
+ * @param kdf 목표 키 도출 함수 파라미터
+ * @returns 복호화된 데이터와 다시 암호화한 봉투
+ */
+export async function unlockVault(
+  encrypted: string,
+  password: string,
+  kdf: VaultKdfParams = DEFAULT_VAULT_KDF
+): Promise<VaultUnlockResult> {
+  if (isVaultEnvelope(encrypted)) {
+    const data = await decryptVault(encrypted, password);
+    const { kdf: current } = parseVaultEnvelope(encrypted);
+    
+    if (!needsVaultUpgrade(current, kdf)) {
+      return { data };
+    }
+    
+    logger.info(`Upgrading vault KDF from ${current.algorithm} to ${kdf.algorithm}`);
+    return { data, upgradedEnvelope: await encryptVault(data, password, kdf) };
+  }
+  
+  const data = decryptLegacy(encrypted, password);
+  logger.info('Migrating legacy encrypted data to vault format');
+  
+  return { data, upgradedEnvelope: await encryptVault(data, password, kdf) };
+}
+
+/**
+ * 볼트 봉투 형식인지 확인합니다.
+ * 
+ * @param value 확인할 문자열
+ * @returns 볼트 봉투 여부
+ */
+export function isVaultEnvelope(value: string): boolean {
+  try {
+    const parsed = JSON.parse(value);
+    return typeof parsed === 'object' && parsed !== null &&
+      typeof parsed.version === 'number' && typeof parsed.kdf === 'object' && typeof parsed.cipher === 'object';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 현재 KDF 파라미터가 목표보다 약한지 확인합니다.
+ * 
+ * @param current 현재 파라미터
+ * @param target 목표 파라미터
+ * @returns 다시 암호화해야 하면 true
+ */
+export function needsVaultUpgrade(current: VaultKdfParams, target: VaultKdfParams): boolean {
+  if (current.algorithm !== target.algorithm) {
+    return true;
+  }
+  
+  return getKdfCost(current) < getKdfCost(target);
+}
+
+/**
+ * 현재 기기에서 목표 시간에 맞는 KDF 파라미터를 측정합니다.
+ * 작은 비용으로 한 번 키를 도출한 시간을 기준으로 비용을 비례 확대하며, 약한 기기에서도 최소 비용은 보장합니다.
+ * 
+ * @param options 보정 옵션
+ * @returns 보정된 KDF 파라미터
+ */
+export async function calibrateVaultKdf(options: VaultKdfCalibrationOptions = {}): Promise<VaultKdfParams> {
+  const { algorithm = VaultKdfAlgorithm.SCRYPT, targetMs = 1000 } = options;
+  const salt = randomBytes(SALT_LENGTH).toString('hex');
+  
+  if (algorithm === VaultKdfAlgorithm.ARGON2ID) {
+    const { minM, maxM, probeM, t } = CALIBRATION_BOUNDS.argon2id;
+    const elapsed = await measure(() => deriveKey('calibration', { algorithm, m: probeM, t, p: 1, salt }));
+    
+    // 메모리 비용은 1MiB 단위로 맞춤
+    const scaled = Math.floor((probeM * targetMs) / elapsed / 1024) * 1024;
+    const params: Argon2idKdfParams = { algorithm, m: clamp(scaled, minM, maxM), t, p: 1 };
+    
+    logger.info(`Calibrated argon2id: m=${params.m}KiB t=${params.t} (probe ${elapsed}ms)`);
+    return params;
+  }
+  
+  const { minN, maxN, probeN } = CALIBRATION_BOUNDS.scrypt;
+  const elapsed = await measure(() => deriveKey('calibration', { ...DEFAULT_VAULT_KDF, N: probeN, salt }));
+  
+  // N은 2의 거듭제곱이어야 하므로 목표 시간을 넘지 않는 가장 큰 값으로 내림
+  const scaled = 2 ** Math.floor(Math.log2(Math.max(1, (probeN * targetMs) / elapsed)));
+  const params: ScryptKdfParams = { ...DEFAULT_VAULT_KDF, N: clamp(scaled, minN, maxN) };
+  
+  logger.info(`Calibrated scrypt: N=${params.N} (probe ${elapsed}ms)`);
+  return params;
+}
+
+/**
+ * 볼트 봉투를 파싱하고 헤더를 검증합니다.
+ * 
+ * @param envelope 볼트 봉투 (JSON 문자열)
+ * @returns 파싱된 봉투
+ */
+function parseVaultEnvelope(envelope: string): VaultEnvelope {
+  let parsed: VaultEnvelope;
+  try {
+    parsed = JSON.parse(envelope);
+  } catch {
+    throw new ValidationError('Invalid vault envelope', 'envelope');
+  }
+  
+  if (parsed.version !== VAULT_VERSION) {
+    throw new ValidationError(`Unsupported vault version: ${parsed.version}`, 'version');
+  }
+  
+  if (!parsed.cipher || parsed.cipher.algorithm !== VAULT_CIPHER || !isHex(parsed.cipher.iv, IV_LENGTH)) {
+    throw new ValidationError('Invalid vault cipher parameters', 'cipher');
+  }
+  
+  if (!parsed.kdf || !isHex(parsed.kdf.salt) || !isHex(parsed.ciphertext) || !isHex(parsed.tag, 16)) {
+    throw new ValidationError('Invalid vault envelope', 'envelope');
+  }
+  
+  validateKdfParams(parsed.kdf);
+  return parsed;
+}
+
+/**
+ * AAD로 사용할 헤더 직렬화
+ * 필드 순서를 고정해 봉투의 키 순서와 무관하게 같은 값을 만듭니다.
+ */
+function serializeHeader(envelope: Omit<VaultEnvelope, 'ciphertext' | 'tag'>): Buffer {
+  const { kdf, cipher } = envelope;
+  const kdfHeader = kdf.algorithm === VaultKdfAlgorithm.ARGON2ID
+    ? [kdf.algorithm, kdf.m, kdf.t, kdf.p, kdf.salt]
+    : [kdf.algorithm, kdf.N, kdf.r, kdf.p, kdf.salt];
+  
+  return Buffer.from(JSON.stringify([envelope.version, ...kdfHeader, cipher.algorithm, cipher.iv]), 'utf8');
+}
+
+/**
+ * 비밀번호에서 암호화 키 도출
+ */
+async function deriveKey(password: string, kdf: VaultKdfParams & { salt: string }): Promise<Buffer> {
+  const salt = Buffer.from(kdf.salt, 'hex');
+  
+  const key = kdf.algorithm === VaultKdfAlgorithm.ARGON2ID
+    ? await argon2idAsync(password, salt, { m: kdf.m, t: kdf.t, p: kdf.p, dkLen: KEY_LENGTH })
+    : await scryptAsync(password, salt, { N: kdf.N, r: kdf.r, p: kdf.p, dkLen: KEY_LENGTH, maxmem: 2 ** 31 });
+  
+  return Buffer.from(key);
+}
+
+/**
+ * KDF 파라미터 범위 검증
+ */
+function validateKdfParams(kdf: VaultKdfParams): void {
+  const isInteger = (value: unknown, min: number, max: number) =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+  
+  if (kdf.algorithm === VaultKdfAlgorithm.SCRYPT) {
+    const { minN, maxN, maxR, maxP } = VAULT_KDF_LIMITS.scrypt;
+    if (!isInteger(kdf.N, minN, maxN) || (kdf.N & (kdf.N - 1)) !== 0 ||
+        !isInteger(kdf.r, 1, maxR) || !isInteger(kdf.p, 1, maxP)) {
+      throw new ValidationError('Invalid scrypt parameters', 'kdf');
+    }
+    return;
+  }
+  
+  if (kdf.algorithm === VaultKdfAlgorithm.ARGON2ID) {
+    const { minM, maxM, maxT, maxP } = VAULT_KDF_LIMITS.argon2id;
+    if (!isInteger(kdf.m, minM, maxM) || !isInteger(kdf.t, 1, maxT) || !isInteger(kdf.p, 1, maxP)) {
+      throw new ValidationError('Invalid argon2id parameters', 'kdf');
+    }
+    return;
+  }
+  
+  throw new ValidationError(`Unsupported KDF: ${(kdf as any).algorithm}`, 'kdf');
+}
+
+/**
+ * KDF 비용 비교값 (메모리 바이트 x 반복 횟수)
+ */
+function getKdfCost(kdf: VaultKdfParams): number {
+  return kdf.algorithm === VaultKdfAlgorithm.ARGON2ID
+    ? kdf.m * 1024 * kdf.t * kdf.p
+    : 128 * kdf.r * kdf.N * kdf.p;
+}
+
+/**
+ * 이전 CryptoJS 형식 복호화
+ * encrypt()의 JSON 메타데이터 형식과 simpleEncrypt()의 OpenSSL 호환 Base64 형식을 모두 지원합니다.
+ */
+function decryptLegacy(encrypted: string, password: string): string {
+  try {
+    return encrypted.trim().startsWith('{')
+      ? decrypt(encrypted, password)
+      : simpleDecrypt(encrypted, password);
+  } catch (error) {
+    throw new CryptoError('Invalid password or corrupted vault');
+  }
+}
+
+/**
+ * 비동기 작업 소요 시간 측정 (밀리초, 최소 1)
+ */
+async function measure(task: () => Promise<unknown>): Promise<number> {
+  const start = Date.now();
+  await task();
+  return Math.max(1, Date.now() - start);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function isHex(value: unknown, byteLength?: number): boolean {
+  if (typeof value !== 'string' || !/^([0-9a-f]{2})*$/i.test(value)) {
+    return false;
+  }
+  return byteLength === undefined || value.length === byteLength * 2;
+}
@@ -11,12 +11,17 @@ export * from './auth';
 /**
  * 체인 관련 모듈 내보내기
  */
-// export * from './chain';
+export * from './chain';
 
 /**
  * 암호화 및 키 관리 모듈 내보내기
  */
-// export * from './crypto';
+export * from './crypto';
+
+/**
+ * 보안 분석 모듈 내보내기
+ */
+export * from './security';
 
 /**
  * 스토리지 모듈 내보내기
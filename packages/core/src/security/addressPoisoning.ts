@@ -0,0 +1,274 @@
+/**
+ * @file addressPoisoning.ts
+ * @description 주소 중독(address poisoning) 탐지 모듈
+ * 
+ * 공격자는 사용자가 자주 거래하는 주소와 앞뒤 글자가 같은 주소를 만들어 0 금액 전송을 보내고,
+ * 사용자가 활동 내역에서 그 주소를 복사해 자산을 보내도록 유도합니다.
+ * 이 모듈은 활동 내역과 계정 목록에서 실제 거래 상대를 추려 닮은꼴 수신 주소를 찾아냅니다.
+ */
+
+import { isValidAddress } from '../utils/address';
+import { AccountModel } from '../storage/models/account.model';
+import {
+  ActivityModel,
+  ActivityType,
+  TransactionActivity,
+  TransactionStatus,
+  TransactionType
+} from '../storage/models/activity.model';
+
+/**
+ * 주소 중독 위험 유형
+ */
+export enum AddressPoisoningRiskType {
+  // 알려진 거래 상대와 앞뒤 글자가 같지만 다른 주소
+  LOOKALIKE_RECIPIENT = 'lookalike_recipient',
+  // 닮은꼴 주소에서 들어온 0 금액 전송
+  ZERO_VALUE_TRANSFER = 'zero_value_transfer'
+}
+
+/**
+ * 알려진 거래 상대
+ */
+export interface KnownCounterparty {
+  address: string;
+  source: 'account' | 'history';
+  // 계정 이름 (내 계정인 경우)
+  label?: string;
+  // 마지막 거래 시각 (활동 내역인 경우)
+  lastSeen?: number;
+}
+
+/**
+ * 주소 중독 경고
+ */
+export interface AddressPoisoningWarning {
+  type: AddressPoisoningRiskType;
+  severity: 'medium' | 'high';
+  // 의심되는 주소
+  address: string;
+  // 의심 주소가 흉내 내는 알려진 주소
+  lookalike: KnownCounterparty;
+  // 관련 트랜잭션 해시 (0 금액 전송인 경우)
+  transactionHash?: string;
+  message: string;
+}
+
+/**
+ * 닮은꼴 주소 비교 옵션
+ */
+export interface AddressPoisoningOptions {
+  // 비교할 앞부분 16진수 글자 수 ('0x' 제외)
+  prefixLength?: number;
+  // 비교할 뒷부분 16진수 글자 수
+  suffixLength?: number;
+  // 확인할 계정 ID (지정하지 않으면 모든 계정의 활동 내역 사용)
+  accountId?: string;
+}
+
+/**
+ * 기본 비교 글자 수
+ * 지갑 UI의 약식 주소(0x1234...abcd)에 보이는 글자 수와 같습니다.
+ */
+export const DEFAULT_LOOKALIKE_PREFIX_LENGTH = 4;
+export const DEFAULT_LOOKALIKE_SUFFIX_LENGTH = 4;
+
+// 거래 상대로 인정하지 않는 트랜잭션 상태
+const UNSETTLED_STATUSES = [
+  TransactionStatus.FAILED,
+  TransactionStatus.DROPPED,
+  TransactionStatus.REPLACED,
+  TransactionStatus.REJECTED
+];
+
+/**
+ * 두 주소가 닮은꼴인지 확인
+ * 앞뒤 글자는 같지만 주소 자체는 다른 경우 닮은꼴로 판단합니다.
+ * @param address 확인할 주소
+ * @param known 알려진 주소
+ * @param prefixLength 비교할 앞부분 글자 수
+ * @param suffixLength 비교할 뒷부분 글자 수
+ * @returns 닮은꼴 여부
+ */
+export function isLookalikeAddress(
+  address: string,
+  known: string,
+  prefixLength: number = DEFAULT_LOOKALIKE_PREFIX_LENGTH,
+  suffixLength: number = DEFAULT_LOOKALIKE_SUFFIX_LENGTH
+): boolean {
+  if (!isValidAddress(address) || !isValidAddress(known)) {
+    return false;
+  }
+  
+  const a = address.toLowerCase().slice(2);
+  const b = known.toLowerCase().slice(2);
+  
+  return a !== b
+    && a.slice(0, prefixLength) === b.slice(0, prefixLength)
+    && a.slice(-suffixLength) === b.slice(-suffixLength);
+}
+
+/**
+ * 0 금액 전송 여부 확인
+ * @param activity 트랜잭션 활동
+ */
+function isZeroValueTransfer(activity: TransactionActivity): boolean {
+  const isZero = (value?: string) => !value || /^(0x)?0*(\.0*)?$/i.test(value.trim());
+  return isZero(activity.value) && isZero(activity.tokenAmount);
+}
+
+/**
+ * 전송 트랜잭션 목록 조회
+ * @param activityModel 활동 내역 모델
+ * @param accountId 계정 ID
+ */
+function getTransferActivities(activityModel: ActivityModel, accountId?: string): TransactionActivity[] {
+  return activityModel.getActivities({
+    types: [ActivityType.TRANSACTION],
+    transactionTypes: [TransactionType.SEND, TransactionType.RECEIVE],
+    accountId
+  }) as TransactionActivity[];
+}
+
+/**
+ * 전송 트랜잭션의 상대 주소
+ * @param activity 트랜잭션 활동
+ */
+function getCounterpartyAddress(activity: TransactionActivity): string {
+  return activity.transactionType === TransactionType.RECEIVE ? activity.from : activity.to;
+}
+
+/**
+ * 알려진 거래 상대 목록 조회
+ * 내 계정과, 활동 내역에서 0이 아닌 금액을 실제로 주고받은 주소를 모읍니다.
+ * 0 금액 전송은 공격자가 내역에 주소를 심는 수단이므로 거래 상대로 인정하지 않습니다.
+ * @param activityModel 활동 내역 모델
+ * @param accountModel 계정 모델
+ * @param accountId 계정 ID (지정하지 않으면 모든 계정의 활동 내역 사용)
+ * @returns 알려진 거래 상대 목록
+ */
+export function getKnownCounterparties(
+  activityModel: ActivityModel,
+  accountModel?: AccountModel,
+  accountId?: string
+): KnownCounterparty[] {
+  const counterparties = new Map<string, KnownCounterparty>();
+  
+  if (accountModel) {
+    for (const account of accountModel.getAllAccounts(true)) {
+      if (isValidAddress(account.address)) {
+        counterparties.set(account.address.toLowerCase(), {
+          address: account.address,
+          source: 'account',
+          label: account.name
+        });
+      }
+    }
+  }
+  
+  for (const activity of getTransferActivities(activityModel, accountId)) {
+    if (UNSETTLED_STATUSES.includes(activity.status) || isZeroValueTransfer(activity)) {
+      continue;
+    }
+    
+    const address = getCounterpartyAddress(activity);
+    if (!isValidAddress(address)) {
+      continue;
+    }
+    
+    const key = address.toLowerCase();
+    const existing = counterparties.get(key);
+    if (!existing) {
+      counterparties.set(key, { address, source: 'history', lastSeen: activity.timestamp });
+    } else if (existing.source === 'history' && (existing.lastSeen || 0) < activity.timestamp) {
+      existing.lastSeen = activity.timestamp;
+    }
+  }
+  
+  return Array.from(counterparties.values());
+}
+
+/**
+ * 활동 내역의 주소 중독 전송 탐지
+ * 알려진 거래 상대의 닮은꼴 주소와 주고받은 0 금액 전송을 찾습니다.
+ * @param activityModel 활동 내역 모델
+ * @param accountModel 계정 모델
+ * @param options 비교 옵션
+ * @returns 경고 목록 (최신 순)
+ */
+export function findPoisoningTransfers(
+  activityModel: ActivityModel,
+  accountModel?: AccountModel,
+  options: AddressPoisoningOptions = {}
+): AddressPoisoningWarning[] {
+  const { prefixLength, suffixLength, accountId } = options;
+  const known = getKnownCounterparties(activityModel, accountModel, accountId);
+  const warnings: AddressPoisoningWarning[] = [];
+  
+  for (const activity of getTransferActivities(activityModel, accountId)) {
+    if (!isZeroValueTransfer(activity)) {
+      continue;
+    }
+    
+    const address = getCounterpartyAddress(activity);
+    const lookalike = known.find(counterparty => isLookalikeAddress(address, counterparty.address, prefixLength, suffixLength));
+    if (lookalike) {
+      warnings.push({
+        type: AddressPoisoningRiskType.ZERO_VALUE_TRANSFER,
+        severity: 'medium',
+        address,
+        lookalike,
+        transactionHash: activity.transactionHash,
+        message: `알려진 주소 ${lookalike.address}와 닮은 ${address}에서 0 금액 전송이 발생했습니다. 이 주소를 복사해 사용하지 마세요.`
+      });
+    }
+  }
+  
+  return warnings;
+}
+
+/**
+ * 수신 주소의 주소 중독 위험 확인
+ * @param recipient 수신 주소
+ * @param activityModel 활동 내역 모델
+ * @param accountModel 계정 모델
+ * @param options 비교 옵션
+ * @returns 경고 목록 (비어 있으면 안전)
+ */
+export function detectAddressPoisoning(
+  recipient: string,
+  activityModel: ActivityModel,
+  accountModel?: AccountModel,
+  options: AddressPoisoningOptions = {}
+): AddressPoisoningWarning[] {
+  if (!isValidAddress(recipient)) {
+    return [];
+  }
+  
+  const { prefixLength, suffixLength, accountId } = options;
+  const known = getKnownCounterparties(activityModel, accountModel, accountId);
+  
+  // 실제로 거래한 적 있는 주소라면 닮은꼴 경고를 하지 않음
+  if (known.some(counterparty => counterparty.address.toLowerCase() === recipient.toLowerCase())) {
+    return [];
+  }
+  
+  const warnings: AddressPoisoningWarning[] = known
+    .filter(counterparty => isLookalikeAddress(recipient, counterparty.address, prefixLength, suffixLength))
+    .map(lookalike => ({
+      type: AddressPoisoningRiskType.LOOKALIKE_RECIPIENT,
+      severity: 'high' as const,
+      address: recipient,
+      lookalike,
+      message: lookalike.source === 'account'
+        ? `수신 주소가 내 계정 ${lookalike.label || lookalike.address}(${lookalike.address})와 앞뒤 글자만 같은 다른 주소입니다.`
+        : `수신 주소가 이전에 거래한 ${lookalike.address}와 앞뒤 글자만 같은 다른 주소입니다.`
+    }));
+  
+  // 수신 주소가 활동 내역의 0 금액 전송에서 복사된 경우
+  const poisoningTransfers = findPoisoningTransfers(activityModel, accountModel, options)
+    .filter(warning => warning.address.toLowerCase() === recipient.toLowerCase())
+    .map(warning => ({ ...warning, severity: 'high' as const }));
+  
+  return [...warnings, ...poisoningTransfers];
+}
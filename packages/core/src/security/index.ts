@@ -0,0 +1,34 @@
+/**
+ * security/index.ts
+ * 
+ * CreLink 지갑의 보안 분석 모듈을 내보냅니다.
+ */
+
+// 주소 중독 탐지
+export {
+  AddressPoisoningRiskType,
+  KnownCounterparty,
+  AddressPoisoningWarning,
+  AddressPoisoningOptions,
+  DEFAULT_LOOKALIKE_PREFIX_LENGTH,
+  DEFAULT_LOOKALIKE_SUFFIX_LENGTH,
+  isLookalikeAddress,
+  getKnownCounterparties,
+  findPoisoningTransfers,
+  detectAddressPoisoning
+} from './addressPoisoning';
+
+// 토큰 승인 관리
+export {
+  TokenApprovalTransport,
+  TokenApprovalKind,
+  TokenApprovalRiskReason,
+  TokenApproval,
+  TokenApprovalRevokeTransaction,
+  TokenApprovalManagerOptions,
+  TokenApprovalScanOptions,
+  UNLIMITED_ALLOWANCE_THRESHOLD,
+  KNOWN_SPENDERS,
+  DEFAULT_TOKEN_APPROVAL_MANAGER_OPTIONS,
+  TokenApprovalManager
+} from './tokenApprovals';
@@ -0,0 +1,467 @@
+/**
+ * @file tokenApprovals.ts
+ * @description 토큰 승인(allowance) 조회, 위험도 점검, 일괄 취소 트랜잭션 생성
+ * 
+ * 계정의 Approval/ApprovalForAll 로그에서 승인한 토큰과 주소를 찾고,
+ * allowance, getApproved, isApprovedForAll 조회로 지금도 유효한 승인만 남깁니다.
+ * 확인되지 않은 주소에 무제한 승인하거나 전체 NFT 권한을 준 경우 높은 위험으로 표시합니다.
+ */
+
+import { Interface, Result, ZeroAddress, getAddress, zeroPadValue } from 'ethers';
+import { ERC20_ABI, ERC721_ABI } from '../chain/contracts';
+import { MulticallTransport } from '../chain/multicall';
+import { queryLogs } from '../chain/logQuery';
+import { encodeERC20Approve } from '../chain/transactions';
+import { isEndpointFailure } from '../chain/providers/rpc-endpoint-pool';
+import { SupportedChainId } from '../types/chain.types';
+import { isValidAddress } from '../utils/address';
+import { ValidationError } from '../utils/errors';
+import { createLogger } from '../utils/logging';
+
+// 로거 생성
+const logger = createLogger('TokenApprovals');
+
+/**
+ * 승인 조회에 사용할 RPC 전송 계층
+ */
+export type TokenApprovalTransport = Pick<MulticallTransport, 'chainId' | 'send'>;
+
+/**
+ * 승인 종류
+ */
+export enum TokenApprovalKind {
+  // ERC-20 allowance
+  ERC20 = 'erc20',
+  // ERC-721 개별 토큰 승인 (approve)
+  NFT_TOKEN = 'nft_token',
+  // ERC-721/ERC-1155 전체 권한 (setApprovalForAll)
+  NFT_OPERATOR = 'nft_operator'
+}
+
+/**
+ * 승인 위험 사유
+ */
+export enum TokenApprovalRiskReason {
+  // 무제한 금액 승인
+  UNLIMITED = 'unlimited',
+  // 컬렉션 전체 NFT 권한
+  OPERATOR = 'operator',
+  // 알려진 계약이 아닌 주소
+  UNVERIFIED_SPENDER = 'unverified_spender',
+  // 계약이 아닌 일반 계정 (피싱 서명으로 흔히 생기는 승인)
+  EOA_SPENDER = 'eoa_spender'
+}
+
+/**
+ * 현재 유효한 토큰 승인
+ */
+export interface TokenApproval {
+  chainId: number;
+  owner: string;
+  tokenAddress: string;
+  tokenSymbol?: string; // ERC-20 심볼 또는 NFT 컬렉션 이름
+  tokenDecimals?: number; // ERC-20 소수점 자릿수
+  kind: TokenApprovalKind;
+  spender: string; // 승인받은 주소 (operator 포함)
+  spenderLabel?: string; // 알려진 계약 이름
+  spenderVerified: boolean;
+  spenderIsContract: boolean;
+  allowance?: string; // ERC-20 승인 금액 (가장 작은 단위)
+  tokenId?: string; // ERC-721 개별 승인 토큰 ID
+  unlimited: boolean;
+  risk: 'low' | 'medium' | 'high';
+  riskReasons: TokenApprovalRiskReason[];
+  blockNumber?: number; // 승인 로그 블록
+  transactionHash?: string; // 승인 트랜잭션 해시
+}
+
+/**
+ * 승인 취소 트랜잭션
+ */
+export interface TokenApprovalRevokeTransaction {
+  from: string;
+  to: string; // 토큰 계약 주소
+  data: string;
+  value: string;
+  approval: TokenApproval;
+}
+
+/**
+ * 승인 관리자 옵션
+ */
+export interface TokenApprovalManagerOptions {
+  discoveryBlockRange: number; // 시작 블록을 지정하지 않았을 때 탐색할 최근 블록 수
+  maxLogBlockRange: number; // eth_getLogs 한 번에 조회할 최대 블록 수
+  knownSpenders: Record<number, Record<string, string>>; // 체인별 알려진 계약 (주소 → 이름)
+}
+
+/**
+ * 승인 조회 범위
+ */
+export interface TokenApprovalScanOptions {
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+/**
+ * 무제한 승인으로 보는 최소 금액
+ * MaxUint256 외에도 uint96 최대값으로 무제한을 표현하는 토큰(UNI, COMP 등)이 있어 2^96 - 1을 기준으로 합니다.
+ */
+export const UNLIMITED_ALLOWANCE_THRESHOLD = (BigInt(1) << BigInt(96)) - BigInt(1);
+
+// 여러 체인에 같은 주소로 배포된 계약
+const MULTICHAIN_SPENDERS: Record<string, string> = {
+  '0x000000000022D473030F116dDEE9F6B43aC78BA3': 'Uniswap Permit2',
+  '0x00000000000000ADc04C56Bf30aC9d3c0aAF14dC': 'OpenSea Seaport 1.5',
+  '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45': 'Uniswap V3 SwapRouter02',
+  '0xE592427A0AEce92De3Edee1F18E0157C05861564': 'Uniswap V3 SwapRouter',
+  '0x1111111254EEB25477B68fb85Ed929f73A960582': '1inch Aggregation Router V5',
+  '0x111111125421cA6dc452d289314280a0f8842A65': '1inch Aggregation Router V6'
+};
+
+/**
+ * 체인별 알려진 계약
+ */
+export const KNOWN_SPENDERS: Record<number, Record<string, string>> = {
+  [SupportedChainId.ETHEREUM]: {
+    ...MULTICHAIN_SPENDERS,
+    '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D': 'Uniswap V2 Router',
+    '0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD': 'Uniswap Universal Router',
+    '0xDef1C0ded9bec7F1a1670819833240f027b25EfF': '0x Exchange Proxy'
+  },
+  [SupportedChainId.POLYGON]: { ...MULTICHAIN_SPENDERS },
+  [SupportedChainId.ARBITRUM]: { ...MULTICHAIN_SPENDERS }
+};
+
+/**
+ * 기본 승인 관리자 옵션
+ */
+export const DEFAULT_TOKEN_APPROVAL_MANAGER_OPTIONS: TokenApprovalManagerOptions = {
+  discoveryBlockRange: 500000,
+  maxLogBlockRange: 5000,
+  knownSpenders: KNOWN_SPENDERS
+};
+
+/**
+ * 로그에서 찾은 승인 후보
+ */
+interface ApprovalCandidate {
+  tokenAddress: string;
+  kind: TokenApprovalKind;
+  spender: string; // ERC-721 개별 승인은 현재 승인 주소를 다시 조회
+  tokenId?: bigint;
+  blockNumber?: number;
+  transactionHash?: string;
+}
+
+const erc20Interface = new Interface(ERC20_ABI);
+const erc721Interface = new Interface(ERC721_ABI);
+
+/**
+ * 이벤트 토픽 (ERC-20과 ERC-721의 Approval, ERC-721과 ERC-1155의 ApprovalForAll은 토픽이 같음)
+ */
+const APPROVAL_TOPIC = erc20Interface.getEvent('Approval')!.topicHash;
+const APPROVAL_FOR_ALL_TOPIC = erc721Interface.getEvent('ApprovalForAll')!.topicHash;
+
+// 위험도 정렬 순서
+const RISK_ORDER = { high: 0, medium: 1, low: 2 };
+
+/**
+ * 토큰 승인 관리자
+ */
+export class TokenApprovalManager {
+  private options: TokenApprovalManagerOptions;
+  
+  /**
+   * 토큰 승인 관리자 생성자
+   * 
+   * @param options 옵션
+   */
+  constructor(options: Partial<TokenApprovalManagerOptions> = {}) {
+    this.options = { ...DEFAULT_TOKEN_APPROVAL_MANAGER_OPTIONS, ...options };
+  }
+  
+  /**
+   * 알려진 계약 추가 (DApp 연결 목록 등에서 확인한 계약)
+   * 
+   * @param chainId 체인 ID
+   * @param address 계약 주소
+   * @param label 계약 이름
+   */
+  public addKnownSpender(chainId: number, address: string, label: string): void {
+    if (!isValidAddress(address)) {
+      throw new ValidationError(`Invalid spender address: ${address}`, 'address');
+    }
+    
+    this.options.knownSpenders = {
+      ...this.options.knownSpenders,
+      [chainId]: { ...this.options.knownSpenders[chainId], [getAddress(address)]: label }
+    };
+  }
+  
+  /**
+   * 계정의 현재 유효한 승인 조회
+   * 로그로 승인 후보를 찾고 현재 상태를 다시 조회해 취소됐거나 모두 사용한 승인은 제외합니다.
+   * 
+   * @param transport RPC 전송 계층
+   * @param owner 계정 주소
+   * @param options 로그 조회 범위
+   * @returns 위험도가 높은 순으로 정렬된 승인 목록
+   */
+  public async getApprovals(
+    transport: TokenApprovalTransport,
+    owner: string,
+    options: TokenApprovalScanOptions = {}
+  ): Promise<TokenApproval[]> {
+    if (!isValidAddress(owner)) {
+      throw new ValidationError(`Invalid owner address: ${owner}`, 'owner');
+    }
+    
+    const toBlock = options.toBlock ?? Number(await transport.send('eth_blockNumber', []));
+    const fromBlock = Math.max(0, options.fromBlock ?? toBlock - this.options.discoveryBlockRange + 1);
+    const ownerTopic = zeroPadValue(owner.toLowerCase(), 32);
+    const send = (method: string, params: any[]) => transport.send(method, params);
+    
+    const [approvalLogs, operatorLogs] = await Promise.all([
+      queryLogs(send, { topics: [APPROVAL_TOPIC, ownerTopic] }, fromBlock, toBlock, this.options.maxLogBlockRange),
+      queryLogs(send, { topics: [APPROVAL_FOR_ALL_TOPIC, ownerTopic] }, fromBlock, toBlock, this.options.maxLogBlockRange)
+    ]);
+    
+    // 같은 승인은 마지막 로그만 남김 (로그는 블록 순서)
+    const candidates = new Map<string, ApprovalCandidate>();
+    for (const log of [...approvalLogs, ...operatorLogs]) {
+      try {
+        const tokenAddress = getAddress(log.address);
+        const base = {
+          tokenAddress,
+          blockNumber: log.blockNumber !== undefined ? Number(log.blockNumber) : undefined,
+          transactionHash: log.transactionHash
+        };
+        
+        if (log.topics[0] === APPROVAL_FOR_ALL_TOPIC && log.topics.length === 3) {
+          const spender = getAddress(`0x${log.topics[2].slice(26)}`);
+          candidates.set(`operator:${tokenAddress}:${spender}`, { ...base, kind: TokenApprovalKind.NFT_OPERATOR, spender });
+        } else if (log.topics[0] === APPROVAL_TOPIC && log.topics.length === 3) {
+          const spender = getAddress(`0x${log.topics[2].slice(26)}`);
+          candidates.set(`erc20:${tokenAddress}:${spender}`, { ...base, kind: TokenApprovalKind.ERC20, spender });
+        } else if (log.topics[0] === APPROVAL_TOPIC && log.topics.length === 4) {
+          const tokenId = BigInt(log.topics[3]);
+          candidates.set(`nft:${tokenAddress}:${tokenId}`, {
+            ...base,
+            kind: TokenApprovalKind.NFT_TOKEN,
+            spender: getAddress(`0x${log.topics[2].slice(26)}`),
+            tokenId
+          });
+        }
+      } catch (error: any) {
+        logger.debug(`Skipping malformed approval log from ${log.address}: ${error.message}`);
+      }
+    }
+    
+    const spenderInfo = new Map<string, Promise<{ isContract: boolean }>>();
+    const tokenInfo = new Map<string, Promise<{ symbol?: string; decimals?: number }>>();
+    
+    const approvals = await Promise.all(Array.from(candidates.values()).map(async candidate => {
+      const current = await this.getCurrentApproval(transport, owner, candidate);
+      if (!current) {
+        return null;
+      }
+      
+      if (!spenderInfo.has(current.spender)) {
+        spenderInfo.set(current.spender, transport.send('eth_getCode', [current.spender, 'latest'])
+          .then(code => ({ isContract: !!code && code !== '0x' })));
+      }
+      if (!tokenInfo.has(candidate.tokenAddress)) {
+        tokenInfo.set(candidate.tokenAddress, this.getTokenInfo(transport, candidate.tokenAddress, candidate.kind));
+      }
+      
+      const [{ isContract }, token] = await Promise.all([spenderInfo.get(current.spender)!, tokenInfo.get(candidate.tokenAddress)!]);
+      return this.assess({
+        chainId: transport.chainId,
+        owner: getAddress(owner),
+        tokenAddress: candidate.tokenAddress,
+        tokenSymbol: token.symbol,
+        tokenDecimals: candidate.kind === TokenApprovalKind.ERC20 ? token.decimals : undefined,
+        kind: candidate.kind,
+        spender: current.spender,
+        allowance: current.allowance,
+        tokenId: candidate.tokenId?.toString(),
+        blockNumber: candidate.blockNumber,
+        transactionHash: candidate.transactionHash
+      }, isContract);
+    }));
+    
+    return approvals
+      .filter((approval): approval is TokenApproval => approval !== null)
+      .sort((a, b) => RISK_ORDER[a.risk] - RISK_ORDER[b.risk]);
+  }
+  
+  /**
+   * 승인 취소 트랜잭션 일괄 생성
+   * ERC-20은 approve(spender, 0), ERC-721 개별 승인은 approve(0x0, tokenId),
+   * 전체 권한은 setApprovalForAll(operator, false)로 취소합니다.
+   * 
+   * @param approvals 취소할 승인 목록
+   * @returns 순서대로 전송할 트랜잭션 목록
+   */
+  public buildRevokeTransactions(approvals: TokenApproval[]): TokenApprovalRevokeTransaction[] {
+    const seen = new Set<string>();
+    const transactions: TokenApprovalRevokeTransaction[] = [];
+    
+    for (const approval of approvals) {
+      const key = `${approval.chainId}:${approval.kind}:${approval.tokenAddress}:${approval.spender}:${approval.tokenId ?? ''}`.toLowerCase();
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      
+      let data: string;
+      switch (approval.kind) {
+        case TokenApprovalKind.ERC20:
+          data = encodeERC20Approve(approval.spender, '0');
+          break;
+        case TokenApprovalKind.NFT_TOKEN:
+          data = erc721Interface.encodeFunctionData('approve', [ZeroAddress, approval.tokenId]);
+          break;
+        case TokenApprovalKind.NFT_OPERATOR:
+          data = erc721Interface.encodeFunctionData('setApprovalForAll', [approval.spender, false]);
+          break;
+        default:
+          throw new ValidationError(`Unknown approval kind: ${approval.kind}`, 'kind');
+      }
+      
+      transactions.push({
+        from: approval.owner,
+        to: approval.tokenAddress,
+        data,
+        value: '0x0',
+        approval
+      });
+    }
+    
+    return transactions;
+  }
+  
+  /**
+   * 승인의 현재 상태 조회
+   * 이미 취소했거나 모두 사용한 승인은 null을 반환합니다.
+   */
+  private async getCurrentApproval(
+    transport: TokenApprovalTransport,
+    owner: string,
+    candidate: ApprovalCandidate
+  ): Promise<{ spender: string; allowance?: string } | null> {
+    switch (candidate.kind) {
+      case TokenApprovalKind.ERC20: {
+        const result = await this.call(transport, candidate.tokenAddress, erc20Interface, 'allowance', [owner, candidate.spender]);
+        const allowance = result ? BigInt(result[0]) : BigInt(0);
+        return allowance > BigInt(0) ? { spender: candidate.spender, allowance: allowance.toString() } : null;
+      }
+      case TokenApprovalKind.NFT_TOKEN: {
+        // 토큰을 보냈거나 승인을 바꾼 경우 로그의 주소와 다를 수 있음
+        const [tokenOwner, approved] = await Promise.all([
+          this.call(transport, candidate.tokenAddress, erc721Interface, 'ownerOf', [candidate.tokenId]),
+          this.call(transport, candidate.tokenAddress, erc721Interface, 'getApproved', [candidate.tokenId])
+        ]);
+        if (!tokenOwner || String(tokenOwner[0]).toLowerCase() !== owner.toLowerCase() || !approved || approved[0] === ZeroAddress) {
+          return null;
+        }
+        return { spender: getAddress(approved[0]) };
+      }
+      case TokenApprovalKind.NFT_OPERATOR: {
+        const result = await this.call(transport, candidate.tokenAddress, erc721Interface, 'isApprovedForAll', [owner, candidate.spender]);
+        return result && result[0] === true ? { spender: candidate.spender } : null;
+      }
+    }
+  }
+  
+  /**
+   * 승인 위험도 평가
+   */
+  private assess(
+    approval: Omit<TokenApproval, 'spenderLabel' | 'spenderVerified' | 'spenderIsContract' | 'unlimited' | 'risk' | 'riskReasons'>,
+    spenderIsContract: boolean
+  ): TokenApproval {
+    const spenderLabel = this.options.knownSpenders[approval.chainId]?.[approval.spender];
+    const spenderVerified = !!spenderLabel;
+    const unlimited = approval.kind === TokenApprovalKind.NFT_OPERATOR ||
+      (approval.allowance !== undefined && BigInt(approval.allowance) >= UNLIMITED_ALLOWANCE_THRESHOLD);
+    
+    const riskReasons: TokenApprovalRiskReason[] = [];
+    if (approval.kind === TokenApprovalKind.NFT_OPERATOR) {
+      riskReasons.push(TokenApprovalRiskReason.OPERATOR);
+    } else if (unlimited) {
+      riskReasons.push(TokenApprovalRiskReason.UNLIMITED);
+    }
+    if (!spenderVerified) {
+      riskReasons.push(TokenApprovalRiskReason.UNVERIFIED_SPENDER);
+    }
+    if (!spenderIsContract) {
+      riskReasons.push(TokenApprovalRiskReason.EOA_SPENDER);
+    }
+    
+    let risk: TokenApproval['risk'] = 'low';
+    if (!spenderIsContract || (unlimited && !spenderVerified)) {
+      risk = 'high';
+    } else if (unlimited || !spenderVerified) {
+      risk = 'medium';
+    }
+    
+    return { ...approval, spenderLabel, spenderVerified, spenderIsContract, unlimited, risk, riskReasons };
+  }
+  
+  /**
+   * 토큰 표시 정보 조회 (ERC-20 심볼과 소수점, NFT 컬렉션 이름)
+   */
+  private async getTokenInfo(
+    transport: TokenApprovalTransport,
+    tokenAddress: string,
+    kind: TokenApprovalKind
+  ): Promise<{ symbol?: string; decimals?: number }> {
+    if (kind !== TokenApprovalKind.ERC20) {
+      const name = await this.call(transport, tokenAddress, erc721Interface, 'name', []);
+      return { symbol: name ? String(name[0]) : undefined };
+    }
+    
+    const [symbol, decimals] = await Promise.all([
+      this.call(transport, tokenAddress, erc20Interface, 'symbol', []),
+      this.call(transport, tokenAddress, erc20Interface, 'decimals', [])
+    ]);
+    return {
+      symbol: symbol ? String(symbol[0]) : undefined,
+      decimals: decimals ? Number(decimals[0]) : undefined
+    };
+  }
+  
+  /**
+   * 계약 조회 (eth_call)
+   * 계약이 실행을 거부하거나 다른 ABI로 응답하면 null을 반환하고, RPC 장애는 그대로 던집니다.
+   */
+  private async call(
+    transport: TokenApprovalTransport,
+    to: string,
+    contractInterface: Interface,
+    method: string,
+    args: any[]
+  ): Promise<Result | null> {
+    let result: string;
+    try {
+      result = await transport.send('eth_call', [{ to, data: contractInterface.encodeFunctionData(method, args) }, 'latest']);
+    } catch (error: any) {
+      if (isEndpointFailure(error)) {
+        throw error;
+      }
+      return null;
+    }
+    
+    if (!result || result === '0x') {
+      return null;
+    }
+    
+    try {
+      return contractInterface.decodeFunctionResult(method, result);
+    } catch (error: any) {
+      return null;
+    }
+  }
+}
@@ -29,7 +29,9 @@ export {
   SyncResult,
   CloudProviderInterface,
   GoogleDriveProvider,
-  SyncStorage
+  SyncStorage,
+  SYNC_METADATA_KEY,
+  markSyncItemChanged
 } from './syncStorage';
 
 // 계정 모델
@@ -39,9 +41,25 @@ export {
   Account,
   CrossChainAccount,
   AccountCollection,
+  WatchOnlySource,
+  WatchOnlyAccountInput,
+  ACCOUNT_STORAGE_KEY,
   AccountModel
 } from './models/account.model';
 
+// 주소록 모델
+export {
+  ContactAddress,
+  Contact,
+  ContactInput,
+  ContactCollection,
+  RecipientSource,
+  RecipientSuggestion,
+  CONTACT_STORAGE_KEY,
+  ContactModel,
+  getRecipientSuggestions
+} from './models/contact.model';
+
 // 설정 모델
 export {
   Theme,
@@ -4,6 +4,18 @@
  * 계정 관련 데이터 모델 정의.
  */
 
+import { randomUUID } from 'crypto';
+import { getAddress } from 'ethers';
+import { AddressType, isValidAddress } from '../../utils/address';
+import { ValidationError } from '../../utils/errors';
+import { LocalStoreInterface } from '../localStore';
+import { markSyncItemChanged } from '../syncStorage';
+
+/**
+ * 계정 컬렉션 저장 키
+ */
+export const ACCOUNT_STORAGE_KEY = 'wallet.accounts';
+
 export enum AccountType {
   NORMAL = 'normal',      // 일반 계정
   HARDWARE = 'hardware',  // 하드웨어 지갑
@@ -14,7 +26,8 @@ export enum AccountType {
 export enum AccountSource {
   CREATED = 'created',    // 지갑에서 생성
   IMPORTED = 'imported',  // 가져옴
-  CONNECTED = 'connected' // 연결됨 (하드웨어 등)
+  CONNECTED = 'connected', // 연결됨 (하드웨어 등)
+  WATCH_ONLY = 'watch_only' // 조회 전용 (주소, ENS 이름, DID로 추가)
 }
 
 /**
@@ -31,10 +44,31 @@ export interface Account {
   isDefault?: boolean;      // 기본 계정 여부
   isHidden?: boolean;       // 숨김 여부
   customData?: Record<string, any>; // 커스텀 데이터
+  watchSource?: WatchOnlySource; // 조회 전용 계정의 입력 정보
   createdAt: number;        // 생성 시간 (타임스탬프)
   updatedAt: number;        // 마지막 업데이트 시간
 }
 
+/**
+ * 조회 전용 계정 입력 정보
+ * ENS 이름이나 DID로 추가한 경우 원래 입력을 보관해 표시와 재해석에 사용합니다.
+ */
+export interface WatchOnlySource {
+  input: string;            // 사용자가 입력한 주소 또는 이름
+  type: AddressType;        // 입력 종류
+  resolvedAt: number;       // 주소로 해석한 시간
+}
+
+/**
+ * 조회 전용 계정 추가 파라미터
+ */
+export interface WatchOnlyAccountInput {
+  address: string;          // 해석된 주소
+  name?: string;            // 계정 이름 (생략 시 입력값 사용)
+  input?: string;           // 원래 입력 (ENS 이름, DID 등)
+  inputType?: AddressType;  // 입력 종류
+}
+
 /**
  * 크로스체인 계정 정보 인터페이스
  */
@@ -97,6 +131,80 @@ export class AccountModel {
     };
   }
   
+  /**
+   * 조회 전용 계정 추가
+   * 같은 주소의 계정이 이미 있으면 ValidationError를 던집니다.
+   * @param input 조회 전용 계정 정보
+   * @returns 추가된 계정
+   */
+  public addWatchOnlyAccount(input: WatchOnlyAccountInput): Account {
+    if (!isValidAddress(input.address)) {
+      throw new ValidationError(`Invalid address: ${input.address}`, 'address');
+    }
+    
+    if (this.getAccountByAddress(input.address)) {
+      throw new ValidationError(`Account already exists: ${input.address}`, 'address');
+    }
+    
+    const address = getAddress(input.address.toLowerCase());
+    const now = Date.now();
+    const account: Account = {
+      id: randomUUID(),
+      name: input.name || input.input || address,
+      address,
+      type: AccountType.WATCH,
+      source: AccountSource.WATCH_ONLY,
+      watchSource: {
+        input: input.input || address,
+        type: input.inputType || AddressType.HEX,
+        resolvedAt: now
+      },
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    this.addAccount(account);
+    return account;
+  }
+  
+  /**
+   * 주소로 계정 가져오기
+   * @param address 계정 주소
+   * @returns 계정 정보
+   */
+  public getAccountByAddress(address: string): Account | undefined {
+    const target = address.toLowerCase();
+    return Object.values(this.data.accounts).find(account => account.address.toLowerCase() === target);
+  }
+  
+  /**
+   * 조회 전용 계정 여부
+   * @param address 계정 주소
+   */
+  public isWatchOnly(address: string): boolean {
+    const account = this.getAccountByAddress(address);
+    return !!account && (account.type === AccountType.WATCH || account.source === AccountSource.WATCH_ONLY);
+  }
+  
+  /**
+   * 서명 가능 여부 확인
+   * 조회 전용 계정이면 오류를 던집니다.
+   * @param address 서명할 계정 주소
+   */
+  public assertCanSign(address: string): void {
+    if (this.isWatchOnly(address)) {
+      throw new ValidationError(`Watch-only account cannot sign: ${address}`, 'address');
+    }
+  }
+  
+  /**
+   * 조회 전용 계정 목록 가져오기
+   * @returns 조회 전용 계정 목록
+   */
+  public getWatchOnlyAccounts(): Account[] {
+    return this.getAllAccounts(true).filter(account => this.isWatchOnly(account.address));
+  }
+  
   /**
    * 계정 가져오기
    * @param id 계정 ID
@@ -253,4 +361,26 @@ export class AccountModel {
   public setData(data: AccountCollection): void {
     this.data = data;
   }
+  
+  /**
+   * 로컬 스토어에서 계정 목록 로드
+   * @param store 로컬 스토어
+   * @param key 저장 키
+   * @returns 계정 모델
+   */
+  public static async load(store: LocalStoreInterface, key: string = ACCOUNT_STORAGE_KEY): Promise<AccountModel> {
+    const data = await store.getItem<Partial<AccountCollection> | null>(key, null);
+    return new AccountModel(data || undefined);
+  }
+  
+  /**
+   * 로컬 스토어에 계정 목록 저장
+   * SyncStorage가 다음 동기화 때 업로드하도록 변경 시간을 기록합니다.
+   * @param store 로컬 스토어
+   * @param key 저장 키
+   */
+  public async save(store: LocalStoreInterface, key: string = ACCOUNT_STORAGE_KEY): Promise<void> {
+    await store.setItem(key, this.data);
+    await markSyncItemChanged(store, key);
+  }
 }
@@ -0,0 +1,357 @@
+/**
+ * contact.model.ts
+ * 
+ * 주소록(연락처) 데이터 모델 정의.
+ * 연락처마다 이름, 체인별 주소, 메모를 보관하고 송금 화면의 수신자 후보를 만듭니다.
+ */
+
+import { randomUUID } from 'crypto';
+import { getAddress } from 'ethers';
+import { isValidAddress } from '../../utils/address';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { LocalStoreInterface } from '../localStore';
+import { markSyncItemChanged } from '../syncStorage';
+import { AccountModel } from './account.model';
+
+/**
+ * 주소록 저장 키
+ */
+export const CONTACT_STORAGE_KEY = 'wallet.contacts';
+
+/**
+ * 연락처 주소
+ */
+export interface ContactAddress {
+  chainId: number;          // 체인 ID
+  address: string;          // 체크섬 주소
+  label?: string;           // 주소 라벨 (예: 거래소 입금 주소)
+}
+
+/**
+ * 연락처 정보 인터페이스
+ */
+export interface Contact {
+  id: string;               // 고유 ID (UUID v4)
+  name: string;             // 이름
+  addresses: ContactAddress[]; // 체인별 주소
+  notes?: string;           // 메모
+  isFavorite?: boolean;     // 즐겨찾기 여부
+  createdAt: number;        // 생성 시간 (타임스탬프)
+  updatedAt: number;        // 마지막 업데이트 시간
+}
+
+/**
+ * 연락처 추가 파라미터
+ */
+export interface ContactInput {
+  name: string;
+  addresses: ContactAddress[];
+  notes?: string;
+  isFavorite?: boolean;
+}
+
+/**
+ * 주소록 컬렉션 인터페이스
+ */
+export interface ContactCollection {
+  contacts: Record<string, Contact>;
+}
+
+/**
+ * 수신자 후보 출처
+ */
+export enum RecipientSource {
+  ACCOUNT = 'account',      // 내 계정
+  WATCH_ONLY = 'watch_only', // 조회 전용 계정
+  CONTACT = 'contact'       // 주소록
+}
+
+/**
+ * 송금 화면의 수신자 후보
+ */
+export interface RecipientSuggestion {
+  address: string;
+  name: string;
+  source: RecipientSource;
+  label?: string;           // 주소 라벨 또는 조회 전용 계정의 원래 입력
+  notes?: string;
+  contactId?: string;
+  accountId?: string;
+}
+
+/**
+ * 주소록 관리 클래스
+ */
+export class ContactModel {
+  private data: ContactCollection;
+  
+  /**
+   * ContactModel 생성자
+   * @param initialData 초기 데이터
+   */
+  constructor(initialData?: Partial<ContactCollection>) {
+    this.data = {
+      contacts: {},
+      ...initialData
+    };
+  }
+  
+  /**
+   * 연락처 추가
+   * @param input 연락처 정보
+   * @returns 추가된 연락처
+   */
+  public addContact(input: ContactInput): Contact {
+    const now = Date.now();
+    const contact: Contact = {
+      id: randomUUID(),
+      name: this.normalizeName(input.name),
+      addresses: this.normalizeAddresses(input.addresses),
+      notes: input.notes?.trim() || undefined,
+      isFavorite: input.isFavorite,
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    this.data.contacts[contact.id] = contact;
+    return contact;
+  }
+  
+  /**
+   * 연락처 가져오기
+   * @param id 연락처 ID
+   * @returns 연락처 정보
+   */
+  public getContact(id: string): Contact | undefined {
+    return this.data.contacts[id];
+  }
+  
+  /**
+   * 연락처 업데이트
+   * @param id 연락처 ID
+   * @param updates 업데이트할 필드
+   * @returns 업데이트된 연락처
+   */
+  public updateContact(id: string, updates: Partial<ContactInput>): Contact {
+    const contact = this.data.contacts[id];
+    if (!contact) {
+      throw new NotFoundError(`Contact not found: ${id}`);
+    }
+    
+    this.data.contacts[id] = {
+      ...contact,
+      ...(updates.name !== undefined && { name: this.normalizeName(updates.name) }),
+      ...(updates.addresses !== undefined && { addresses: this.normalizeAddresses(updates.addresses) }),
+      ...(updates.notes !== undefined && { notes: updates.notes.trim() || undefined }),
+      ...(updates.isFavorite !== undefined && { isFavorite: updates.isFavorite }),
+      updatedAt: Date.now()
+    };
+    
+    return this.data.contacts[id];
+  }
+  
+  /**
+   * 연락처 삭제
+   * @param id 연락처 ID
+   * @returns 성공 여부
+   */
+  public deleteContact(id: string): boolean {
+    if (!this.data.contacts[id]) {
+      return false;
+    }
+    
+    delete this.data.contacts[id];
+    return true;
+  }
+  
+  /**
+   * 모든 연락처 목록 가져오기 (즐겨찾기 우선, 이름 순)
+   * @returns 연락처 목록
+   */
+  public getAllContacts(): Contact[] {
+    return Object.values(this.data.contacts).sort((a, b) =>
+      Number(!!b.isFavorite) - Number(!!a.isFavorite) || a.name.localeCompare(b.name)
+    );
+  }
+  
+  /**
+   * 주소로 연락처 찾기
+   * @param address 주소
+   * @param chainId 체인 ID (지정하면 해당 체인의 주소만 비교)
+   * @returns 연락처 목록
+   */
+  public findByAddress(address: string, chainId?: number): Contact[] {
+    const target = address.toLowerCase();
+    return this.getAllContacts().filter(contact =>
+      contact.addresses.some(entry =>
+        entry.address.toLowerCase() === target && (chainId === undefined || entry.chainId === chainId)
+      )
+    );
+  }
+  
+  /**
+   * 연락처 검색
+   * 이름, 메모, 주소 라벨, 주소 앞부분으로 찾습니다.
+   * @param query 검색어
+   * @param chainId 체인 ID (지정하면 해당 체인 주소가 있는 연락처만)
+   * @returns 연락처 목록
+   */
+  public search(query: string, chainId?: number): Contact[] {
+    const keyword = query.trim().toLowerCase();
+    
+    return this.getAllContacts().filter(contact => {
+      const addresses = contact.addresses.filter(entry => chainId === undefined || entry.chainId === chainId);
+      if (addresses.length === 0) {
+        return false;
+      }
+      
+      return !keyword ||
+        contact.name.toLowerCase().includes(keyword) ||
+        (contact.notes || '').toLowerCase().includes(keyword) ||
+        addresses.some(entry =>
+          entry.address.toLowerCase().startsWith(keyword) || (entry.label || '').toLowerCase().includes(keyword)
+        );
+    });
+  }
+  
+  /**
+   * 전체 데이터 가져오기
+   * @returns 주소록 컬렉션 데이터
+   */
+  public getData(): ContactCollection {
+    return this.data;
+  }
+  
+  /**
+   * 전체 데이터 설정
+   * @param data 주소록 컬렉션 데이터
+   */
+  public setData(data: ContactCollection): void {
+    this.data = data;
+  }
+  
+  /**
+   * 로컬 스토어에서 주소록 로드
+   * @param store 로컬 스토어
+   * @param key 저장 키
+   * @returns 주소록 모델
+   */
+  public static async load(store: LocalStoreInterface, key: string = CONTACT_STORAGE_KEY): Promise<ContactModel> {
+    const data = await store.getItem<Partial<ContactCollection> | null>(key, null);
+    return new ContactModel(data || undefined);
+  }
+  
+  /**
+   * 로컬 스토어에 주소록 저장
+   * SyncStorage가 다음 동기화 때 업로드하도록 변경 시간을 기록합니다.
+   * @param store 로컬 스토어
+   * @param key 저장 키
+   */
+  public async save(store: LocalStoreInterface, key: string = CONTACT_STORAGE_KEY): Promise<void> {
+    await store.setItem(key, this.data);
+    await markSyncItemChanged(store, key);
+  }
+  
+  /**
+   * 이름 검증 및 정리
+   */
+  private normalizeName(name: string): string {
+    const trimmed = (name || '').trim();
+    if (!trimmed) {
+      throw new ValidationError('Contact name is required', 'name');
+    }
+    
+    return trimmed;
+  }
+  
+  /**
+   * 주소 검증, 체크섬 변환, 중복 제거
+   */
+  private normalizeAddresses(addresses: ContactAddress[]): ContactAddress[] {
+    if (!addresses || addresses.length === 0) {
+      throw new ValidationError('At least one address is required', 'addresses');
+    }
+    
+    const normalized = new Map<string, ContactAddress>();
+    for (const entry of addresses) {
+      if (!isValidAddress(entry.address)) {
+        throw new ValidationError(`Invalid address: ${entry.address}`, 'addresses');
+      }
+      
+      if (!Number.isInteger(entry.chainId) || entry.chainId <= 0) {
+        throw new ValidationError(`Invalid chain ID: ${entry.chainId}`, 'addresses');
+      }
+      
+      const address = getAddress(entry.address.toLowerCase());
+      normalized.set(`${entry.chainId}:${address}`, {
+        chainId: entry.chainId,
+        address,
+        ...(entry.label?.trim() && { label: entry.label.trim() })
+      });
+    }
+    
+    return Array.from(normalized.values());
+  }
+}
+
+/**
+ * 송금 화면의 수신자 후보 목록
+ * 내 계정, 조회 전용 계정, 해당 체인 주소가 있는 연락처를 모아 검색어로 거릅니다.
+ * @param chainId 체인 ID
+ * @param contactModel 주소록 모델
+ * @param accountModel 계정 모델
+ * @param query 검색어
+ * @param excludeAddress 제외할 주소 (보내는 계정)
+ * @returns 수신자 후보 목록
+ */
+export function getRecipientSuggestions(
+  chainId: number,
+  contactModel?: ContactModel,
+  accountModel?: AccountModel,
+  query: string = '',
+  excludeAddress?: string
+): RecipientSuggestion[] {
+  const keyword = query.trim().toLowerCase();
+  const excluded = excludeAddress?.toLowerCase();
+  const suggestions = new Map<string, RecipientSuggestion>();
+  
+  const add = (suggestion: RecipientSuggestion) => {
+    const key = suggestion.address.toLowerCase();
+    if (key !== excluded && !suggestions.has(key)) {
+      suggestions.set(key, suggestion);
+    }
+  };
+  
+  for (const account of accountModel?.getAllAccounts() || []) {
+    const watchOnly = accountModel!.isWatchOnly(account.address);
+    const matches = !keyword ||
+      account.name.toLowerCase().includes(keyword) ||
+      account.address.toLowerCase().startsWith(keyword) ||
+      (account.watchSource?.input || '').toLowerCase().includes(keyword);
+    
+    if (matches) {
+      add({
+        address: account.address,
+        name: account.name,
+        source: watchOnly ? RecipientSource.WATCH_ONLY : RecipientSource.ACCOUNT,
+        label: watchOnly && account.watchSource?.input !== account.address ? account.watchSource?.input : undefined,
+        accountId: account.id
+      });
+    }
+  }
+  
+  for (const contact of contactModel?.search(keyword, chainId) || []) {
+    for (const entry of contact.addresses.filter(item => item.chainId === chainId)) {
+      add({
+        address: entry.address,
+        name: contact.name,
+        source: RecipientSource.CONTACT,
+        label: entry.label,
+        notes: contact.notes,
+        contactId: contact.id
+      });
+    }
+  }
+  
+  return Array.from(suggestions.values());
+}
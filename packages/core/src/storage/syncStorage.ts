@@ -9,6 +9,22 @@ import { StorageError } from '../utils/errors';
 import { LocalStoreInterface } from './localStore';
 import { SecureStorageInterface } from './secureStorage';
 
+/**
+ * 동기화 메타데이터 저장 키 (항목 키별 마지막 변경 시간)
+ */
+export const SYNC_METADATA_KEY = 'sync.metadata';
+
+/**
+ * 로컬 항목 변경 기록
+ * 기록된 항목은 다음 동기화 때 클라우드의 기록보다 새로우면 업로드됩니다.
+ * @param localStore 로컬 스토리지
+ * @param key 변경된 항목 키
+ */
+export async function markSyncItemChanged(localStore: LocalStoreInterface, key: string): Promise<void> {
+  const meta = await localStore.getItem<Record<string, number>>(SYNC_METADATA_KEY, {});
+  await localStore.setItem(SYNC_METADATA_KEY, { ...(meta || {}), [key]: Date.now() });
+}
+
 export interface SyncConfig {
   provider: string;      // 'google_drive', 'icloud', 'dropbox' 등
   autoSync: boolean;     // 자동 동기화 여부
@@ -231,7 +247,7 @@ export class SyncStorage {
       }
       
       // 메타데이터 업데이트
-      await this.updateSyncMetadata();
+      await this.updateSyncMetadata(localMeta, cloudMeta);
       
       // 동기화 완료
       this.status = SyncStatus.SYNCED;
@@ -267,8 +283,8 @@ export class SyncStorage {
    * @returns 로컬 메타데이터
    */
   private async getLocalMetadata(): Promise<Record<string, number>> {
-    const meta = await this.localStore.getItem<Record<string, number>>('sync.metadata', {});
-    return meta;
+    const meta = await this.localStore.getItem<Record<string, number>>(SYNC_METADATA_KEY, {});
+    return meta || {};
   }
   
   /**
@@ -436,25 +452,22 @@ export class SyncStorage {
   
   /**
    * 동기화 메타데이터 업데이트
+   * 동기화를 마친 항목은 로컬과 클라우드에 같은 변경 시간을 기록합니다.
+   * @param localMeta 동기화 전 로컬 메타데이터
+   * @param cloudMeta 동기화 전 클라우드 메타데이터
    */
-  private async updateSyncMetadata(): Promise<void> {
-    const timestamp = Date.now();
-    const localMeta = await this.localStore.getItem<Record<string, number>>('sync.metadata', {});
-    
-    // 로컬 스토리지의 모든 키 확인
-    const allItems = new Set<string>();
-    
-    // 보안 스토리지 항목 추가 (실제 구현에서는 적절한 방법으로 키 목록 가져와야 함)
-    // 현재는 모의 구현으로 기존 메타데이터 활용
-    
-    // 모든 항목의 타임스탬프 업데이트
-    const updatedMeta: Record<string, number> = {};
-    for (const key of allItems) {
-      updatedMeta[key] = timestamp;
+  private async updateSyncMetadata(
+    localMeta: Record<string, number>,
+    cloudMeta: Record<string, number>
+  ): Promise<void> {
+    // 항목별로 더 최신 변경 시간을 유지
+    const updatedMeta: Record<string, number> = { ...cloudMeta };
+    for (const key in localMeta) {
+      updatedMeta[key] = Math.max(localMeta[key], cloudMeta[key] || 0);
     }
     
     // 메타데이터 저장
-    await this.localStore.setItem('sync.metadata', updatedMeta);
+    await this.localStore.setItem(SYNC_METADATA_KEY, updatedMeta);
     
     // 클라우드에도 메타데이터 업로드
     await this.cloudProvider.uploadFile('sync.metadata.json', JSON.stringify(updatedMeta));
@@ -13,7 +13,8 @@ export enum KeyringType {
   PRIVATE_KEY = 'PRIVATE_KEY', // 단일 개인키 지갑
   HARDWARE = 'HARDWARE', // 하드웨어 지갑
   SOCIAL = 'SOCIAL', // 소셜 로그인 지갑
-  ZKDID = 'ZKDID' // zkDID 기반 지갑
+  ZKDID = 'ZKDID', // zkDID 기반 지갑
+  WATCH_ONLY = 'WATCH_ONLY' // 조회 전용 지갑 (서명 불가)
 }
 
 /**
@@ -155,6 +155,9 @@ export interface ChainAddresses {
  */
 export interface RpcProviderOptions {
   url: string; // RPC URL
+  endpoints?: string[]; // 장애 조치용 추가 RPC URL
+  quorum?: Partial<RpcQuorumOptions>; // 응답 합의(쿼럼) 모드 옵션
+  chainId?: number; // 체인 ID (지정하지 않으면 URL로 추정)
   timeout?: number; // 타임아웃 (밀리초)
   headers?: Record<string, string>; // 헤더
   apiKey?: string; // API 키
@@ -166,6 +169,16 @@ export interface RpcProviderOptions {
   projectId?: string; // 프로젝트 ID
 }
 
+/**
+ * RPC 응답 합의(쿼럼) 옵션
+ */
+export interface RpcQuorumOptions {
+  methods: string[]; // 여러 엔드포인트의 응답 합의가 필요한 메서드
+  endpointCount: number; // 동시에 조회할 엔드포인트 수
+  quorum: number; // 일치해야 하는 최소 응답 수
+  maxBlockLag: number; // 합의에 참여할 수 있는 최대 블록 높이 차이
+}
+
 /**
  * RPC 응답 에러
  */
@@ -237,6 +250,9 @@ export interface GasInfo {
   networkCongestion?: number; // 네트워크 혼잡도 (0-1)
   latestBlock?: number; // 최신 블록 번호
   baseFeeHistory?: string[]; // 기본 수수료 이력
+  predictedBaseFees?: string[]; // 다음 블록부터 예측한 기본 수수료 (EIP-1559)
+  priorityFees?: { safeLow: string; standard: string; fast: string; fastest: string }; // 추천 레벨별 우선순위 수수료 (EIP-1559)
+  estimatedWaitTimes?: { safeLow: number; standard: number; fast: number; fastest: number }; // 추천 레벨별 예상 포함 시간 (밀리초)
   lastUpdated: number; // 마지막 업데이트 시간
 }
 
@@ -279,6 +295,32 @@ export interface Token {
   isImported?: boolean; // 사용자 추가 여부
 }
 
+/**
+ * 토큰 목록 항목 (Uniswap 토큰 목록 형식)
+ */
+export interface TokenListEntry {
+  chainId: number; // 체인 ID
+  address: string; // 토큰 계약 주소
+  name: string; // 토큰 이름
+  symbol: string; // 토큰 심볼
+  decimals: number; // 소수점 자릿수
+  logoURI?: string; // 로고 URL
+  tags?: string[]; // 태그
+  extensions?: Record<string, any>; // 확장 정보
+}
+
+/**
+ * 토큰 목록 (Uniswap 토큰 목록 형식)
+ */
+export interface TokenList {
+  name: string; // 목록 이름
+  timestamp: string; // 갱신 시간 (ISO 8601)
+  version: { major: number; minor: number; patch: number }; // 목록 버전
+  tokens: TokenListEntry[]; // 토큰 목록
+  logoURI?: string; // 목록 로고 URL
+  keywords?: string[]; // 키워드
+}
+
 /**
  * 스마트 계약 인터페이스
  */
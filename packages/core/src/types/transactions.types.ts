@@ -261,14 +261,14 @@ export interface TransactionMonitoringService {
 }
 
 /**
- * EIP-712 도메인
+ * EIP-712 도메인 (EIP-712에 따라 모든 필드는 선택 사항이며, 없는 필드는 도메인 해시에서 제외)
  */
 export interface EIP712Domain {
-  name: string; // 도메인 이름
-  version: string; // 도메인 버전
-  chainId: number; // 체인 ID
-  verifyingContract: string; // 검증 계약 주소
-  salt?: string; // 솔트 (선택 사항)
+  name?: string; // 도메인 이름
+  version?: string; // 도메인 버전
+  chainId?: number; // 체인 ID
+  verifyingContract?: string; // 검증 계약 주소
+  salt?: string; // 솔트
 }
 
 /**
@@ -22,12 +22,24 @@ const ETH_CHECKSUM_ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
 const ENS_DOMAIN_REGEX = /^([a-z0-9-]+\.)*[a-z0-9-]+\.eth$/;
 
 /**
- * 주소 타입 (16진수 주소, ENS 이름, zkDID)
+ * Catena 네임 서비스 이름 정규 표현식
+ */
+const CATENA_NAME_REGEX = /^([a-z0-9-]+\.)*[a-z0-9-]+\.cta$/;
+
+/**
+ * zkDID 별칭 정규 표현식 (예: @username.creata)
+ */
+const DID_ALIAS_REGEX = /^@?[a-z0-9_]{3,15}\.creata$/;
+
+/**
+ * 주소 타입 (16진수 주소, ENS 이름, Catena 이름, zkDID, zkDID 별칭)
  */
 export enum AddressType {
   HEX = 'hex',
   ENS = 'ens',
+  CATENA = 'catena',
   ZKDID = 'zkdid',
+  DID_ALIAS = 'alias',
   UNKNOWN = 'unknown'
 }
 
@@ -49,6 +61,24 @@ export function isValidENS(ensName: string): boolean {
   return ENS_DOMAIN_REGEX.test(ensName);
 }
 
+/**
+ * Catena 네임 서비스 이름 유효성 검사
+ * @param name 검사할 이름 (예: alice.cta)
+ * @returns 유효성 여부
+ */
+export function isValidCatenaName(name: string): boolean {
+  return CATENA_NAME_REGEX.test(name);
+}
+
+/**
+ * zkDID 별칭 유효성 검사
+ * @param alias 검사할 별칭 (예: @username.creata)
+ * @returns 유효성 여부
+ */
+export function isValidDIDAlias(alias: string): boolean {
+  return DID_ALIAS_REGEX.test(alias);
+}
+
 /**
  * zkDID 유효성 검사
  * @param did 검사할 zkDID
@@ -72,10 +102,18 @@ export function getAddressType(address: string): AddressType {
     return AddressType.ENS;
   }
   
+  if (isValidCatenaName(address)) {
+    return AddressType.CATENA;
+  }
+  
   if (isValidZkDID(address)) {
     return AddressType.ZKDID;
   }
   
+  if (isValidDIDAlias(address)) {
+    return AddressType.DID_ALIAS;
+  }
+  
   return AddressType.UNKNOWN;
 }
 
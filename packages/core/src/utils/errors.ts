@@ -134,6 +134,22 @@ export class RpcError extends CreLinkError {
   }
 }
 
+/**
+ * RPC 응답 합의 실패 오류
+ * 여러 엔드포인트에 같은 요청을 보냈을 때 응답이 일치하지 않거나 합의에 필요한 응답 수를 채우지 못한 경우
+ */
+export class RpcQuorumError extends RpcError {
+  public method?: string;
+  public responses?: Array<{ endpoint: string; result?: any; error?: string }>;
+  
+  constructor(message: string, method?: string, responses?: Array<{ endpoint: string; result?: any; error?: string }>) {
+    super(message, -32603, responses);
+    this.name = 'RpcQuorumError';
+    this.method = method;
+    this.responses = responses;
+  }
+}
+
 /**
  * 서명 관련 오류
  */
@@ -12,6 +12,8 @@ export {
   AddressType,
   isValidAddress,
   isValidENS,
+  isValidCatenaName,
+  isValidDIDAlias,
   isValidZkDID,
   getAddressType,
   normalizeAddress,
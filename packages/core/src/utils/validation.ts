@@ -5,7 +5,7 @@
  */
 
 import { ValidationError } from './errors';
-import { isValidAddress, isValidENS, isValidZkDID } from './address';
+import { AddressType, getAddressType } from './address';
 
 /**
  * 니모닉 문구 검증 (BIP39)
@@ -243,12 +243,12 @@ export function isValidGasLimit(
 }
 
 /**
- * 수신자 주소 검증 (이더리움 주소, ENS 이름, zkDID)
+ * 수신자 주소 검증 (이더리움 주소, ENS 이름, Catena 이름, zkDID, zkDID 별칭)
  * @param recipient 수신자 주소 또는 이름
  * @returns 유효성 여부
  */
 export function isValidRecipient(recipient: string): boolean {
-  return isValidAddress(recipient) || isValidENS(recipient) || isValidZkDID(recipient);
+  return getAddressType(recipient) !== AddressType.UNKNOWN;
 }
 
 /**
@@ -0,0 +1,167 @@
+/**
+ * @file gasOracle.test.ts
+ * @description 수수료 이력 기반 가스 오라클 테스트
+ */
+
+import { GasOracle, GasTier } from '../../src/chain/gasOracle';
+import { GasRecommendation, getGasInfo, getGasSettingsForPriceType, getRecommendedGasSettings } from '../../src/chain/gas';
+import { IProvider } from '../../src/chain/providers/provider.interface';
+import { GasPriceType } from '../../src/storage/models/settings.model';
+import { TransactionType } from '../../src/types/transactions.types';
+
+const GWEI = BigInt(1000000000);
+
+interface MockChainState {
+  latestBlock: number;
+  baseFee: bigint;
+  gasUsedRatio: number;
+}
+
+/**
+ * 블록마다 우선순위 수수료 백분위가 [1, 2, 3] gwei에서 블록 번호에 따라 조금씩 달라지는 체인
+ */
+function createMockProvider(chainId: number = 1000, overrides: Partial<MockChainState> = {}) {
+  const state: MockChainState = { latestBlock: 100, baseFee: BigInt(10) * GWEI, gasUsedRatio: 0.5, ...overrides };
+  
+  const send = jest.fn(async (method: string, params: any[]) => {
+    if (method === 'eth_feeHistory') {
+      const count = Number(params[0]);
+      const newest = Number(params[1]);
+      const oldest = newest - count + 1;
+      const blocks = Array.from({ length: count }, (_, i) => oldest + i);
+      
+      return {
+        oldestBlock: `0x${oldest.toString(16)}`,
+        baseFeePerGas: [...blocks, newest + 1].map(() => `0x${state.baseFee.toString(16)}`),
+        gasUsedRatio: blocks.map(() => state.gasUsedRatio),
+        reward: blocks.map(block => [1, 2, 3].map(tier => `0x${(BigInt(tier) * GWEI + BigInt(block % 5) * BigInt(100000000)).toString(16)}`))
+      };
+    }
+    if (method === 'eth_getBlockByNumber') {
+      return { timestamp: `0x${(Number(params[0]) * 2).toString(16)}` };
+    }
+    throw new Error(`Unexpected method ${method}`);
+  });
+  
+  const provider = {
+    chainId,
+    send,
+    getBlockNumber: jest.fn(async () => state.latestBlock),
+    getGasPrice: jest.fn(async () => (BigInt(10) * GWEI).toString()),
+    supportsEIP1559: jest.fn(async () => true)
+  } as unknown as IProvider;
+  
+  return { provider, state, send };
+}
+
+function feeHistoryCalls(send: jest.Mock) {
+  return send.mock.calls.filter(([method]) => method === 'eth_feeHistory');
+}
+
+describe('GasOracle', () => {
+  let oracle: GasOracle;
+  
+  beforeEach(() => {
+    oracle = new GasOracle({ refreshInterval: 0 });
+  });
+  
+  afterEach(() => {
+    oracle.dispose();
+  });
+  
+  it('should build slow, standard and fast tiers from reward percentiles', async () => {
+    const { provider } = createMockProvider();
+    const estimate = await oracle.estimate(provider);
+    
+    const slow = estimate.tiers[GasTier.SLOW];
+    const standard = estimate.tiers[GasTier.STANDARD];
+    const fast = estimate.tiers[GasTier.FAST];
+    
+    expect(BigInt(slow.maxPriorityFeePerGas)).toBeLessThan(BigInt(standard.maxPriorityFeePerGas));
+    expect(BigInt(standard.maxPriorityFeePerGas)).toBeLessThan(BigInt(fast.maxPriorityFeePerGas));
+    expect(slow.expectedBlocks).toBeGreaterThan(standard.expectedBlocks);
+    expect(fast.expectedBlocks).toBe(1);
+    
+    // 블록 타임스탬프 간격(2초)으로 예상 포함 시간 계산
+    expect(estimate.blockTime).toBe(2000);
+    expect(fast.expectedWaitTime).toBe(2000);
+    expect(slow.expectedWaitTime).toBe(slow.expectedBlocks * 2000);
+    
+    // 최대 수수료는 예상 기본 수수료에 한 블록 상승분과 우선순위 수수료를 더한 값
+    expect(BigInt(fast.maxFeePerGas)).toBe(BigInt(10) * GWEI * BigInt(9) / BigInt(8) + BigInt(fast.maxPriorityFeePerGas));
+    expect(estimate.baseFeeHistory).toHaveLength(20);
+    expect(estimate.networkCongestion).toBeCloseTo(0.5);
+  });
+  
+  it('should predict rising base fees when blocks are full', async () => {
+    const { provider } = createMockProvider(1000, { gasUsedRatio: 1 });
+    const fullBlockOracle = new GasOracle({ predictionBlocks: 3, blockTime: 1000 });
+    
+    const estimate = await fullBlockOracle.estimate(provider);
+    fullBlockOracle.dispose();
+    
+    expect(estimate.predictedBaseFees).toEqual([
+      (BigInt(10) * GWEI).toString(),
+      (BigInt(10) * GWEI * BigInt(9) / BigInt(8)).toString(),
+      (BigInt(10) * GWEI * BigInt(81) / BigInt(64)).toString()
+    ]);
+    // 느린 단계는 포함까지 기다리는 동안의 기본 수수료 상승을 최대 수수료에 반영
+    expect(BigInt(estimate.tiers[GasTier.SLOW].maxFeePerGas)).toBeGreaterThan(
+      BigInt(estimate.predictedBaseFees[0]) * BigInt(9) / BigInt(8) + BigInt(estimate.tiers[GasTier.SLOW].maxPriorityFeePerGas)
+    );
+  });
+  
+  it('should extend the cached window with only the new blocks', async () => {
+    const { provider, state, send } = createMockProvider();
+    
+    await oracle.getFeeHistory(provider);
+    state.latestBlock = 102;
+    const window = await oracle.getFeeHistory(provider);
+    
+    const calls = feeHistoryCalls(send);
+    expect(calls).toHaveLength(2);
+    expect(calls[1][1].slice(0, 2)).toEqual(['0x2', '0x66']);
+    expect(window.blocks).toHaveLength(20);
+    expect(window.blocks[0].blockNumber).toBe(83);
+    expect(window.blocks[19].blockNumber).toBe(102);
+    
+    // 새 블록이 없으면 다시 조회하지 않음
+    await oracle.getFeeHistory(provider);
+    expect(feeHistoryCalls(send)).toHaveLength(2);
+  });
+  
+  it('should keep a separate window per chain', async () => {
+    const first = createMockProvider(1000);
+    const second = createMockProvider(9000, { latestBlock: 500 });
+    
+    const firstWindow = await oracle.getFeeHistory(first.provider);
+    const secondWindow = await oracle.getFeeHistory(second.provider);
+    
+    expect(firstWindow.latestBlock).toBe(100);
+    expect(secondWindow.latestBlock).toBe(500);
+    expect(feeHistoryCalls(second.send)).toHaveLength(1);
+    
+    oracle.clear(1000);
+    await oracle.getFeeHistory(first.provider);
+    expect(feeHistoryCalls(first.send)).toHaveLength(2);
+    expect(feeHistoryCalls(first.send)[1][1][0]).toBe('0x14');
+  });
+  
+  it('should feed recommended gas settings and the gas price type setting', async () => {
+    const { provider } = createMockProvider();
+    const gasInfo = await getGasInfo(provider, false, oracle);
+    
+    const low = getRecommendedGasSettings(gasInfo, GasRecommendation.LOW);
+    const fast = getRecommendedGasSettings(gasInfo, GasRecommendation.FAST);
+    expect(low.type).toBe(TransactionType.EIP1559);
+    expect(BigInt(low.maxPriorityFeePerGas!)).toBeLessThan(BigInt(fast.maxPriorityFeePerGas!));
+    expect(low.estimatedWaitTime).toBeGreaterThan(fast.estimatedWaitTime!);
+    
+    expect(getGasSettingsForPriceType(gasInfo, GasPriceType.HIGH)).toEqual(fast);
+    expect(getGasSettingsForPriceType(gasInfo, GasPriceType.AVERAGE)).toEqual(getRecommendedGasSettings(gasInfo));
+    
+    const custom = getGasSettingsForPriceType(gasInfo, GasPriceType.CUSTOM, 1.5);
+    expect(custom.maxFeePerGas).toBe('1500000000');
+    expect(custom.maxPriorityFeePerGas).toBe('1500000000');
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * @file multicall.test.ts
+ * @description Multicall 묶음 조회 테스트
+ */
+
+import { AbiCoder, Interface } from 'ethers';
+import { MULTICALL3_ADDRESS, MulticallAggregator, getMulticallAddress } from '../../src/chain/multicall';
+import { ERC20_ABI, MULTICALL_ABI } from '../../src/chain/contracts';
+
+const OWNER = '0x1234567890123456789012345678901234567890';
+const TOKEN_A = '0x00000000000000000000000000000000000000a1';
+const TOKEN_B = '0x00000000000000000000000000000000000000b2';
+const BROKEN_TOKEN = '0x00000000000000000000000000000000000000ff';
+
+const multicallInterface = new Interface(MULTICALL_ABI);
+const erc20Interface = new Interface(ERC20_ABI);
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+/**
+ * 토큰 계약 호출 결과 (실패하면 null)
+ */
+function executeTokenCall(target: string, data: string): string | null {
+  if (target.toLowerCase() === BROKEN_TOKEN) {
+    return null;
+  }
+  
+  const call = erc20Interface.parseTransaction({ data })!;
+  switch (call.name) {
+    case 'balanceOf':
+      return erc20Interface.encodeFunctionResult('balanceOf', [target === TOKEN_A ? 100 : 200]);
+    case 'name':
+      return erc20Interface.encodeFunctionResult('name', [`Token ${target.slice(-2)}`]);
+    case 'symbol':
+      return erc20Interface.encodeFunctionResult('symbol', [`T${target.slice(-2).toUpperCase()}`]);
+    case 'decimals':
+      return erc20Interface.encodeFunctionResult('decimals', [6]);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Multicall3가 배포된 체인의 전송 계층
+ */
+function createMulticallTransport(chainId: number = 1) {
+  const send = jest.fn(async (method: string, params: any[]) => {
+    if (method !== 'eth_call' || params[0].to !== MULTICALL3_ADDRESS) {
+      throw new Error(`Unexpected request ${method}`);
+    }
+    
+    const [calls] = multicallInterface.decodeFunctionData('aggregate3', params[0].data);
+    const results = calls.map((call: any) => {
+      if (call.target === MULTICALL3_ADDRESS) {
+        return { success: true, returnData: abiCoder.encode(['uint256'], [5000]) };
+      }
+      const returnData = executeTokenCall(call.target.toLowerCase(), call.callData);
+      return { success: returnData !== null, returnData: returnData || '0x' };
+    });
+    
+    return multicallInterface.encodeFunctionResult('aggregate3', [results]);
+  });
+  
+  return { transport: { chainId, send }, send };
+}
+
+describe('MulticallAggregator', () => {
+  const originalFetch = global.fetch;
+  
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+  
+  it('should resolve Multicall3 deployments per chain', () => {
+    expect(getMulticallAddress(1)).toBe(MULTICALL3_ADDRESS);
+    expect(getMulticallAddress(137)).toBe(MULTICALL3_ADDRESS);
+    expect(getMulticallAddress(1000)).toBeNull();
+  });
+  
+  it('should batch concurrent balance and metadata reads into one multicall', async () => {
+    const { transport, send } = createMulticallTransport();
+    const multicall = new MulticallAggregator(transport);
+    
+    const [nativeBalance, balances, metadata] = await Promise.all([
+      multicall.getBalance(OWNER),
+      multicall.getTokenBalances(OWNER, [TOKEN_A, TOKEN_B]),
+      multicall.getTokenMetadata(TOKEN_A)
+    ]);
+    
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(nativeBalance).toBe('5000');
+    expect(balances).toEqual({ [TOKEN_A]: '100', [TOKEN_B]: '200' });
+    expect(metadata).toEqual({ address: TOKEN_A, name: 'Token a1', symbol: 'TA1', decimals: 6 });
+  });
+  
+  it('should reject only the calls that reverted', async () => {
+    const { transport } = createMulticallTransport();
+    const multicall = new MulticallAggregator(transport);
+    
+    const [valid, broken] = await Promise.allSettled([
+      multicall.getTokenBalance(OWNER, TOKEN_A),
+      multicall.getTokenBalance(OWNER, BROKEN_TOKEN)
+    ]);
+    
+    expect(valid).toEqual({ status: 'fulfilled', value: '100' });
+    expect(broken.status).toBe('rejected');
+    expect(await multicall.getTokenBalances(OWNER, [TOKEN_B, BROKEN_TOKEN])).toEqual({ [TOKEN_B]: '200' });
+  });
+  
+  it('should fall back to JSON-RPC batch requests without a multicall deployment', async () => {
+    const send = jest.fn();
+    const sendBatch = jest.fn(async (requests: any[]) => requests.map((request, id) => (
+      request.method === 'eth_getBalance'
+        ? { jsonrpc: '2.0', id, result: '0x1388' }
+        : { jsonrpc: '2.0', id, result: executeTokenCall(request.params[0].to, request.params[0].data) }
+    )));
+    
+    const multicall = new MulticallAggregator({ chainId: 1000, send, sendBatch });
+    const [nativeBalance, tokenBalance] = await Promise.all([
+      multicall.getBalance(OWNER),
+      multicall.getTokenBalance(OWNER, TOKEN_B)
+    ]);
+    
+    expect(nativeBalance).toBe('5000');
+    expect(tokenBalance).toBe('200');
+    expect(sendBatch).toHaveBeenCalledTimes(1);
+    expect(sendBatch.mock.calls[0][0].map((request: any) => request.method)).toEqual(['eth_getBalance', 'eth_call']);
+    expect(send).not.toHaveBeenCalled();
+  });
+  
+  it('should fall back to single requests when the node rejects batches', async () => {
+    const send = jest.fn(async (method: string, params: any[]) => (
+      method === 'eth_getBalance' ? '0x1388' : executeTokenCall(params[0].to, params[0].data)
+    ));
+    const sendBatch = jest.fn(async () => ({ jsonrpc: '2.0', id: null, error: { code: -32600, message: 'batch not supported' } }));
+    
+    const multicall = new MulticallAggregator({ chainId: 1000, send, sendBatch });
+    const read = () => Promise.all([multicall.getBalance(OWNER), multicall.getTokenBalance(OWNER, TOKEN_A)]);
+    
+    expect(await read()).toEqual(['5000', '100']);
+    expect(await read()).toEqual(['5000', '100']);
+    expect(sendBatch).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledTimes(4);
+  });
+  
+  it('should keep using batches after a transient batch failure', async () => {
+    const send = jest.fn(async (method: string, params: any[]) => (
+      method === 'eth_getBalance' ? '0x1388' : executeTokenCall(params[0].to, params[0].data)
+    ));
+    const sendBatch = jest.fn()
+      .mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+      .mockImplementation(async (requests: any[]) => requests.map((request, id) => ({
+        jsonrpc: '2.0',
+        id,
+        result: request.method === 'eth_getBalance' ? '0x1388' : executeTokenCall(request.params[0].to, request.params[0].data)
+      })));
+    
+    const multicall = new MulticallAggregator({ chainId: 1000, send, sendBatch });
+    const read = () => Promise.all([multicall.getBalance(OWNER), multicall.getTokenBalance(OWNER, TOKEN_A)]);
+    
+    expect(await read()).toEqual(['5000', '100']);
+    expect(send).toHaveBeenCalledTimes(2);
+    
+    expect(await read()).toEqual(['5000', '100']);
+    expect(sendBatch).toHaveBeenCalledTimes(2);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+  
+  it('should send a batch as soon as it reaches the maximum size', async () => {
+    const { transport, send } = createMulticallTransport();
+    const multicall = new MulticallAggregator(transport, { maxBatchSize: 2, batchWindow: 60000 });
+    
+    const balances = await Promise.all([
+      multicall.getTokenBalance(OWNER, TOKEN_A),
+      multicall.getTokenBalance(OWNER, TOKEN_B)
+    ]);
+    
+    expect(balances).toEqual(['100', '200']);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
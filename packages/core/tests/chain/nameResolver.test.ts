@@ -0,0 +1,189 @@
+/**
+ * @file nameResolver.test.ts
+ * @description ENS, Catena 네임 서비스, zkDID 이름 해석 테스트
+ */
+
+import { Interface, ZeroAddress, namehash } from 'ethers';
+import {
+  CatenaNameResolver,
+  EnsNameResolver,
+  NameResolutionService,
+  NameResolverTransport,
+  ZkDIDNameResolver
+} from '../../src/chain/nameResolver';
+import { CATENA_NAME_REGISTRY_ABI, ENS_REGISTRY_ABI, ENS_RESOLVER_ABI, INTERFACE_IDS } from '../../src/chain/contracts';
+import { AddressType, getAddressType } from '../../src/utils/address';
+import { NotFoundError, ValidationError } from '../../src/utils/errors';
+
+const ENS_REGISTRY = '0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e';
+const RESOLVER = '0x4976fb03C32e5B8cfe2b6cCB31c09Ba78EBaBa41';
+const LEGACY_RESOLVER = '0x1da022710dF5002339274AaDEe8D58218e9D6AB5';
+const CATENA_REGISTRY = '0x2222222222222222222222222222222222222222';
+const ALICE = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const BOB = '0x1111111111111111111111111111111111111111';
+
+const registryInterface = new Interface(ENS_REGISTRY_ABI);
+const resolverInterface = new Interface(ENS_RESOLVER_ABI);
+const catenaInterface = new Interface(CATENA_NAME_REGISTRY_ABI);
+
+const reverseNode = (address: string) => namehash(`${address.slice(2).toLowerCase()}.addr.reverse`);
+
+/**
+ * 레지스트리와 리졸버 계약을 흉내 내는 전송 계층
+ */
+function createTransport(chainId: number = 1) {
+  const resolvers: Record<string, string> = {
+    [namehash('alice.eth')]: RESOLVER,
+    [namehash('legacy.eth')]: LEGACY_RESOLVER,
+    [reverseNode(ALICE)]: RESOLVER,
+    [reverseNode(BOB)]: RESOLVER
+  };
+  const addresses: Record<string, string> = {
+    [namehash('alice.eth')]: ALICE,
+    [namehash('legacy.eth')]: ALICE
+  };
+  const names: Record<string, string> = {
+    [reverseNode(ALICE)]: 'alice.eth',
+    // BOB이 역방향 레코드에 다른 사람의 이름을 설정
+    [reverseNode(BOB)]: 'alice.eth'
+  };
+  const catenaNames: Record<string, string> = { 'bob.cta': BOB };
+  
+  const send = jest.fn(async (method: string, params: any[]) => {
+    expect(method).toBe('eth_call');
+    const { to, data } = params[0];
+    
+    if (to === ENS_REGISTRY) {
+      const [node] = registryInterface.decodeFunctionData('resolver', data);
+      return registryInterface.encodeFunctionResult('resolver', [resolvers[node] || ZeroAddress]);
+    }
+    
+    if (to === RESOLVER || to === LEGACY_RESOLVER) {
+      const call = resolverInterface.parseTransaction({ data })!;
+      switch (call.name) {
+        case 'supportsInterface':
+          // 오래된 리졸버는 addr 인터페이스를 지원하지 않음
+          return resolverInterface.encodeFunctionResult('supportsInterface', [
+            to === RESOLVER && [INTERFACE_IDS.ENS_ADDR, INTERFACE_IDS.ENS_NAME].includes(call.args[0])
+          ]);
+        case 'addr':
+          return resolverInterface.encodeFunctionResult('addr(bytes32)', [addresses[call.args[0]] || ZeroAddress]);
+        case 'name':
+          return resolverInterface.encodeFunctionResult('name', [names[call.args[0]] || '']);
+      }
+    }
+    
+    if (to === CATENA_REGISTRY) {
+      const call = catenaInterface.parseTransaction({ data })!;
+      return call.name === 'addr'
+        ? catenaInterface.encodeFunctionResult('addr', [catenaNames[call.args[0]] || ZeroAddress])
+        : catenaInterface.encodeFunctionResult('nameOf', [call.args[0] === BOB ? 'bob.cta' : '']);
+    }
+    
+    return '0x';
+  });
+  
+  return { chainId, send } as NameResolverTransport & { send: jest.Mock };
+}
+
+describe('getAddressType', () => {
+  it('should detect names, DIDs and aliases', () => {
+    expect(getAddressType(ALICE)).toBe(AddressType.HEX);
+    expect(getAddressType('alice.eth')).toBe(AddressType.ENS);
+    expect(getAddressType('bob.cta')).toBe(AddressType.CATENA);
+    expect(getAddressType('did:creata:zk:tg:12345')).toBe(AddressType.ZKDID);
+    expect(getAddressType('@carol_01.creata')).toBe(AddressType.DID_ALIAS);
+    expect(getAddressType('carol')).toBe(AddressType.UNKNOWN);
+  });
+});
+
+describe('NameResolutionService', () => {
+  it('should resolve ENS names through a resolver that supports addr', async () => {
+    const service = new NameResolutionService();
+    const transport = createTransport();
+    
+    expect(await service.resolveName('Alice.eth', transport)).toEqual({
+      name: 'alice.eth',
+      address: ALICE,
+      type: AddressType.ENS,
+      resolver: 'ens'
+    });
+    expect(await service.resolveName('legacy.eth', transport)).toBeNull();
+    expect(await service.resolveName('nobody.eth', transport)).toBeNull();
+  });
+  
+  it('should only return reverse records that resolve back to the same address', async () => {
+    const service = new NameResolutionService();
+    const transport = createTransport();
+    
+    expect(await service.lookupAddress(ALICE, transport)).toBe('alice.eth');
+    expect(await service.lookupAddress(BOB, transport)).toBeNull();
+  });
+  
+  it('should cache results per chain', async () => {
+    const service = new NameResolutionService();
+    const transport = createTransport();
+    
+    await service.resolveName('alice.eth', transport);
+    const calls = transport.send.mock.calls.length;
+    await service.resolveName('alice.eth', transport);
+    expect(transport.send.mock.calls.length).toBe(calls);
+    
+    service.clearCache();
+    await service.resolveName('alice.eth', transport);
+    expect(transport.send.mock.calls.length).toBe(calls * 2);
+  });
+  
+  it('should use the Catena name registry only where it is configured', async () => {
+    const transport = createTransport(1000);
+    
+    expect(await new NameResolutionService().resolveName('bob.cta', transport)).toBeNull();
+    expect(transport.send).not.toHaveBeenCalled();
+    
+    const service = new NameResolutionService([new EnsNameResolver(), new CatenaNameResolver(CATENA_REGISTRY)]);
+    expect((await service.resolveName('bob.cta', transport))?.address).toBe(BOB);
+    expect(await service.lookupAddress(BOB, transport)).toBe('bob.cta');
+  });
+  
+  it('should resolve zkDIDs and aliases through a registered DID resolver', async () => {
+    const resolveDID = jest.fn(async (did: string) => (did === 'carol.creata' || did.startsWith('did:creata:zk:') ? { walletAddress: ALICE.toLowerCase() } : null));
+    const service = new NameResolutionService();
+    const transport = createTransport(1000);
+    
+    expect(await service.resolveName('@carol.creata', transport)).toBeNull();
+    
+    service.registerResolver(new ZkDIDNameResolver({ resolveDID }));
+    expect(await service.resolveName('@carol.creata', transport)).toEqual({
+      name: '@carol.creata',
+      address: ALICE,
+      type: AddressType.DID_ALIAS,
+      resolver: 'zkdid'
+    });
+    expect((await service.resolveName('did:creata:zk:tg:AbC', transport))?.type).toBe(AddressType.ZKDID);
+    expect(resolveDID).toHaveBeenCalledWith('did:creata:zk:tg:AbC');
+  });
+  
+  it('should turn recipient input into an address or a typed error', async () => {
+    const service = new NameResolutionService();
+    const transport = createTransport();
+    
+    expect((await service.resolveRecipient(` ${ALICE.toLowerCase()} `, transport)).address).toBe(ALICE);
+    expect((await service.resolveRecipient('alice.eth', transport)).address).toBe(ALICE);
+    await expect(service.resolveRecipient('nobody.eth', transport)).rejects.toBeInstanceOf(NotFoundError);
+    await expect(service.resolveRecipient('not a name', transport)).rejects.toBeInstanceOf(ValidationError);
+    await expect(service.resolveRecipient(ALICE.replace('d8dA', 'D8dA'), transport)).rejects.toBeInstanceOf(ValidationError);
+  });
+  
+  it('should propagate RPC failures without caching them', async () => {
+    const service = new NameResolutionService();
+    const transport = createTransport();
+    const { send } = transport;
+    const working = send.getMockImplementation()!;
+    send.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+    
+    await expect(service.resolveName('alice.eth', transport)).rejects.toThrow('ECONNREFUSED');
+    
+    send.mockImplementation(working);
+    expect((await service.resolveName('alice.eth', transport))?.address).toBe(ALICE);
+  });
+});
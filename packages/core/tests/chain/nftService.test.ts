@@ -0,0 +1,234 @@
+/**
+ * @file nftService.test.ts
+ * @description ERC-721/ERC-1155 NFT 탐색, 메타데이터 조회, 전송 트랜잭션 생성 테스트
+ */
+
+import { AbiCoder, Interface, ZeroAddress, zeroPadValue } from 'ethers';
+import { NFTService, NFTServiceTransport } from '../../src/chain/nftService';
+import { ERC721_ABI, ERC1155_ABI } from '../../src/chain/contracts';
+import { TokenStandard } from '../../src/types/chain.types';
+import { ValidationError } from '../../src/utils/errors';
+
+const OWNER = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const OTHER = '0x1111111111111111111111111111111111111111';
+const COLLECTION = '0x2222222222222222222222222222222222222222';
+const MULTI = '0x3333333333333333333333333333333333333333';
+const TOKEN = '0x4444444444444444444444444444444444444444';
+
+const erc721Interface = new Interface(ERC721_ABI);
+const erc1155Interface = new Interface(ERC1155_ABI);
+const coder = AbiCoder.defaultAbiCoder();
+const topic = (address: string) => zeroPadValue(address.toLowerCase(), 32);
+
+/**
+ * NFT 계약과 로그를 흉내 내는 전송 계층
+ */
+function createTransport() {
+  const owners: Record<string, string> = { '1': OWNER, '2': OTHER };
+  const balances: Record<string, bigint> = { '5': BigInt(3), '6': BigInt(0), '7': BigInt(1) };
+  
+  const logs = [
+    // ERC-721 토큰 1 수신, 토큰 2 수신 후 전송
+    { address: COLLECTION, topics: [erc721Interface.getEvent('Transfer')!.topicHash, topic(ZeroAddress), topic(OWNER), zeroPadValue('0x01', 32)], data: '0x' },
+    { address: COLLECTION, topics: [erc721Interface.getEvent('Transfer')!.topicHash, topic(OTHER), topic(OWNER), zeroPadValue('0x02', 32)], data: '0x' },
+    { address: COLLECTION, topics: [erc721Interface.getEvent('Transfer')!.topicHash, topic(OWNER), topic(OTHER), zeroPadValue('0x02', 32)], data: '0x' },
+    // ERC-20 Transfer (제외)
+    { address: TOKEN, topics: [erc721Interface.getEvent('Transfer')!.topicHash, topic(OTHER), topic(OWNER)], data: coder.encode(['uint256'], [100]) },
+    // ERC-1155 단일 전송과 묶음 전송
+    {
+      address: MULTI,
+      topics: [erc1155Interface.getEvent('TransferSingle')!.topicHash, topic(OTHER), topic(OTHER), topic(OWNER)],
+      data: coder.encode(['uint256', 'uint256'], [5, 3])
+    },
+    {
+      address: MULTI,
+      topics: [erc1155Interface.getEvent('TransferBatch')!.topicHash, topic(OTHER), topic(OTHER), topic(OWNER)],
+      data: coder.encode(['uint256[]', 'uint256[]'], [[6, 7], [1, 1]])
+    }
+  ];
+  
+  const send = jest.fn(async (method: string, params: any[]) => {
+    switch (method) {
+      case 'eth_blockNumber':
+        return '0x10';
+      case 'eth_getLogs': {
+        const { topics } = params[0];
+        return logs.filter(log => topics.every((filter: string | string[] | null, i: number) =>
+          filter === null || (Array.isArray(filter) ? filter.includes(log.topics[i]) : log.topics[i] === filter)
+        ));
+      }
+      case 'eth_call': {
+        const { to, data } = params[0];
+        if (to === COLLECTION) {
+          const call = erc721Interface.parseTransaction({ data })!;
+          switch (call.name) {
+            case 'ownerOf':
+              return erc721Interface.encodeFunctionResult('ownerOf', [owners[call.args[0].toString()] || ZeroAddress]);
+            case 'name':
+              return erc721Interface.encodeFunctionResult('name', ['Test Collection']);
+            case 'tokenURI':
+              return erc721Interface.encodeFunctionResult('tokenURI', [`ipfs://ipfs/QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG/${call.args[0]}.json`]);
+          }
+        }
+        if (to === MULTI) {
+          // ERC-1155 ABI에 없는 name()은 null
+          const call = erc1155Interface.parseTransaction({ data });
+          switch (call?.name) {
+            case 'balanceOf':
+              return erc1155Interface.encodeFunctionResult('balanceOf', [balances[call!.args[1].toString()] || BigInt(0)]);
+            case 'uri':
+              return erc1155Interface.encodeFunctionResult('uri', ['https://meta.example/{id}.json']);
+          }
+        }
+        // name()이 없는 계약
+        throw Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION' });
+      }
+      default:
+        throw new Error(`Unexpected method ${method}`);
+    }
+  });
+  
+  return { chainId: 1000, send } as NFTServiceTransport & { send: jest.Mock };
+}
+
+/**
+ * fetch 응답 생성
+ */
+function jsonResponse(body: any) {
+  return { ok: true, status: 200, json: async () => body } as unknown as Response;
+}
+
+describe('NFTService', () => {
+  const originalFetch = global.fetch;
+  
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+  
+  it('should resolve IPFS and Arweave URIs through the configured gateway', () => {
+    const service = new NFTService({ ipfsGateway: 'https://gateway.example/ipfs' });
+    const cid = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG';
+    
+    expect(service.resolveUri(`ipfs://${cid}/1.png`)).toBe(`https://gateway.example/ipfs/${cid}/1.png`);
+    expect(service.resolveUri(`ipfs://ipfs/${cid}`)).toBe(`https://gateway.example/ipfs/${cid}`);
+    expect(service.resolveUri(`/ipfs/${cid}`)).toBe(`https://gateway.example/ipfs/${cid}`);
+    expect(service.resolveUri(cid)).toBe(`https://gateway.example/ipfs/${cid}`);
+    expect(service.resolveUri('ar://abc')).toBe('https://arweave.net/abc');
+    expect(service.resolveUri('https://meta.example/1.json')).toBe('https://meta.example/1.json');
+    
+    service.setIpfsGateway('https://other.example/ipfs/');
+    expect(service.resolveUri(`ipfs://${cid}`)).toBe(`https://other.example/ipfs/${cid}`);
+    expect(() => service.setIpfsGateway('gateway')).toThrow(ValidationError);
+  });
+  
+  it('should discover currently owned ERC-721 and ERC-1155 tokens', async () => {
+    const service = new NFTService();
+    const result = await service.discoverNFTs(createTransport(), OWNER);
+    
+    const owned = result.nfts
+      .map(nft => `${nft.standard}:${nft.contractAddress}:${nft.tokenId}:${nft.balance}`)
+      .sort();
+    expect(owned).toEqual([
+      `${TokenStandard.ERC1155}:${MULTI}:5:3`,
+      `${TokenStandard.ERC1155}:${MULTI}:7:1`,
+      `${TokenStandard.ERC721}:${COLLECTION}:1:1`
+    ]);
+    expect(result.nfts.find(nft => nft.contractAddress === COLLECTION)?.collectionName).toBe('Test Collection');
+    expect(result.transferred.map(nft => nft.tokenId).sort()).toEqual(['2', '6']);
+    expect(result.fromBlock).toBe(0);
+    expect(result.toBlock).toBe(16);
+  });
+  
+  it('should load and cache metadata with {id} substitution', async () => {
+    const fetchMock = jest.fn(async (url: string) => jsonResponse({
+      name: `Token ${url}`,
+      image: 'ipfs://QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG/image.png',
+      attributes: [{ trait_type: 'Rarity', value: 'Rare' }, { trait_type: 'Broken' }]
+    }));
+    global.fetch = fetchMock as any;
+    
+    const service = new NFTService();
+    const transport = createTransport();
+    const nfts = await service.loadMetadata(transport, [
+      { chainId: 1000, contractAddress: MULTI, tokenId: '255', standard: TokenStandard.ERC1155, balance: '1' },
+      { chainId: 1000, contractAddress: COLLECTION, tokenId: '1', standard: TokenStandard.ERC721, balance: '1' }
+    ]);
+    
+    expect(fetchMock).toHaveBeenCalledWith(`https://meta.example/${'0'.repeat(62)}ff.json`, expect.anything());
+    expect(fetchMock).toHaveBeenCalledWith('https://ipfs.io/ipfs/QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG/1.json', expect.anything());
+    expect(nfts[1].imageUrl).toBe('https://ipfs.io/ipfs/QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG/image.png');
+    expect(nfts[1].metadata?.attributes).toEqual([{ trait_type: 'Rarity', value: 'Rare' }]);
+    
+    await service.loadMetadata(transport, nfts);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+  
+  it('should decode on-chain data URI metadata and cache failures as null', async () => {
+    const service = new NFTService();
+    const transport = createTransport();
+    const json = Buffer.from(JSON.stringify({ name: 'On-chain', image: 'data:image/svg+xml;base64,PHN2Zy8+' })).toString('base64');
+    transport.send.mockImplementationOnce(async () => erc721Interface.encodeFunctionResult('tokenURI', [`data:application/json;base64,${json}`]));
+    
+    const onChain = await service.getMetadata(transport, { contractAddress: COLLECTION, tokenId: '9', standard: TokenStandard.ERC721 });
+    expect(onChain.metadata?.name).toBe('On-chain');
+    
+    global.fetch = jest.fn(async () => ({ ok: false, status: 404 })) as any;
+    const missing = await service.getMetadata(transport, { contractAddress: COLLECTION, tokenId: '1', standard: TokenStandard.ERC721 });
+    expect(missing.metadata).toBeNull();
+    await service.getMetadata(transport, { contractAddress: COLLECTION, tokenId: '1', standard: TokenStandard.ERC721 });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+  
+  it('should cache small images as data URLs', async () => {
+    const fetchMock = jest.fn(async () => ({
+      ok: true,
+      status: 200,
+      headers: { get: () => 'image/png' },
+      arrayBuffer: async () => new Uint8Array([1, 2, 3]).buffer
+    }));
+    global.fetch = fetchMock as any;
+    
+    const service = new NFTService({ maxImageBytes: 4 });
+    const image = await service.getImage('ipfs://QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG/a.png');
+    expect(image).toBe('data:image/png;base64,AQID');
+    await service.getImage('ipfs://QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG/a.png');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    
+    fetchMock.mockImplementationOnce(async () => ({
+      ok: true,
+      status: 200,
+      headers: { get: () => 'image/png' },
+      arrayBuffer: async () => new Uint8Array(8).buffer
+    }));
+    expect(await service.getImage('https://meta.example/large.png')).toBe('https://meta.example/large.png');
+  });
+  
+  it('should build safeTransferFrom transactions', () => {
+    const service = new NFTService();
+    
+    const erc721 = service.buildTransferTransaction(
+      { contractAddress: COLLECTION, tokenId: '1', standard: TokenStandard.ERC721 },
+      OWNER,
+      OTHER
+    );
+    const decoded721 = erc721Interface.decodeFunctionData('safeTransferFrom(address,address,uint256)', erc721.data);
+    expect(erc721.to).toBe(COLLECTION);
+    expect([decoded721[0], decoded721[1], decoded721[2]]).toEqual([OWNER, OTHER, BigInt(1)]);
+    
+    const erc1155 = service.buildTransferTransaction(
+      { contractAddress: MULTI, tokenId: '5', standard: TokenStandard.ERC1155, balance: '3' },
+      OWNER,
+      OTHER,
+      '2'
+    );
+    const decoded1155 = erc1155Interface.decodeFunctionData('safeTransferFrom', erc1155.data);
+    expect([decoded1155[2], decoded1155[3], decoded1155[4]]).toEqual([BigInt(5), BigInt(2), '0x']);
+    
+    expect(() => service.buildTransferTransaction(
+      { contractAddress: MULTI, tokenId: '5', standard: TokenStandard.ERC1155, balance: '3' }, OWNER, OTHER, '4'
+    )).toThrow(ValidationError);
+    expect(() => service.buildTransferTransaction(
+      { contractAddress: COLLECTION, tokenId: '1', standard: TokenStandard.ERC721 }, OWNER, COLLECTION
+    )).toThrow(ValidationError);
+  });
+});
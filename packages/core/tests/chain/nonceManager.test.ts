@@ -0,0 +1,115 @@
+/**
+ * @file nonceManager.test.ts
+ * @description 논스 관리자 테스트
+ */
+
+import { NonceManager } from '../../src/chain/nonceManager';
+import { TransactionMonitor } from '../../src/chain/transactionMonitor';
+import { IProvider } from '../../src/chain/providers/provider.interface';
+import { InMemoryLocalStore } from '../../src/storage/localStore';
+import { RpcQuorumError } from '../../src/utils/errors';
+
+const CHAIN_ID = 1000;
+const ADDRESS = '0x1234567890123456789012345678901234567890';
+
+function createMockProvider(latest: number = 3, pending: number = latest) {
+  const state = { latest, pending };
+  const provider = {
+    chainId: CHAIN_ID,
+    getNonce: jest.fn(async () => state.latest),
+    send: jest.fn(async (method: string) => {
+      if (method === 'eth_getTransactionCount') {
+        return `0x${state.pending.toString(16)}`;
+      }
+      throw new Error(`Unexpected method ${method}`);
+    }),
+    getGasPrice: jest.fn(async () => '1000000000'),
+    getTransactionReceipt: jest.fn(async () => null)
+  } as unknown as IProvider;
+  
+  return { provider, state };
+}
+
+function createMonitorTransaction(hash: string, nonce: number) {
+  return { hash, from: ADDRESS, to: ADDRESS, value: '0', nonce, chainId: CHAIN_ID };
+}
+
+describe('NonceManager', () => {
+  it('should hand out sequential nonces for concurrent requests', async () => {
+    const { provider } = createMockProvider(3);
+    const nonceManager = new NonceManager(() => provider);
+    
+    const nonces = await Promise.all([
+      nonceManager.reserveNonce(CHAIN_ID, ADDRESS),
+      nonceManager.reserveNonce(CHAIN_ID, ADDRESS),
+      nonceManager.reserveNonce(CHAIN_ID, ADDRESS.toUpperCase().replace('0X', '0x'))
+    ]);
+    
+    expect(nonces).toEqual([3, 4, 5]);
+  });
+  
+  it('should start from the pending count reported by the node', async () => {
+    const { provider } = createMockProvider(3, 6);
+    const nonceManager = new NonceManager(() => provider);
+    
+    expect(await nonceManager.reserveNonce(CHAIN_ID, ADDRESS)).toBe(6);
+  });
+  
+  it('should not fall back to the latest count when the pending nonce quorum fails', async () => {
+    const { provider } = createMockProvider(3, 6);
+    (provider.send as jest.Mock).mockRejectedValue(new RpcQuorumError('RPC endpoints disagree', 'eth_getTransactionCount', []));
+    const nonceManager = new NonceManager(() => provider);
+    
+    await expect(nonceManager.reserveNonce(CHAIN_ID, ADDRESS)).rejects.toBeInstanceOf(RpcQuorumError);
+  });
+  
+  it('should reuse released nonces and skip submitted ones', async () => {
+    const { provider } = createMockProvider(3);
+    const nonceManager = new NonceManager(() => provider);
+    
+    const first = await nonceManager.reserveNonce(CHAIN_ID, ADDRESS);
+    const second = await nonceManager.reserveNonce(CHAIN_ID, ADDRESS);
+    nonceManager.markNonceSubmitted(CHAIN_ID, ADDRESS, second);
+    nonceManager.releaseNonce(CHAIN_ID, ADDRESS, first);
+    
+    expect(await nonceManager.reserveNonce(CHAIN_ID, ADDRESS)).toBe(3);
+    expect(await nonceManager.reserveNonce(CHAIN_ID, ADDRESS)).toBe(5);
+  });
+  
+  it('should expire reservations that were never submitted', async () => {
+    const { provider } = createMockProvider(3);
+    const nonceManager = new NonceManager(() => provider, { reservationTimeout: 0 });
+    
+    await nonceManager.reserveNonce(CHAIN_ID, ADDRESS);
+    expect(await nonceManager.reserveNonce(CHAIN_ID, ADDRESS)).toBe(3);
+  });
+  
+  it('should include transactions tracked by the monitor', async () => {
+    const { provider } = createMockProvider(3);
+    const monitor = new TransactionMonitor(() => provider, new InMemoryLocalStore());
+    await monitor.addTransaction(createMonitorTransaction(`0x${'a'.repeat(64)}`, 3));
+    
+    const nonceManager = new NonceManager(() => provider, { monitor });
+    expect(await nonceManager.getNextNonce(CHAIN_ID, ADDRESS)).toBe(4);
+  });
+  
+  it('should detect and fill nonce gaps', async () => {
+    const { provider } = createMockProvider(3);
+    const monitor = new TransactionMonitor(() => provider, new InMemoryLocalStore());
+    const blockedHash = `0x${'b'.repeat(64)}`;
+    await monitor.addTransaction(createMonitorTransaction(blockedHash, 5));
+    
+    const sender = jest.fn(async (transaction: any) => `0x${transaction.nonce.toString().padStart(64, '0')}`);
+    const nonceManager = new NonceManager(() => provider, { monitor, sender });
+    
+    const gap = await nonceManager.getNonceGap(CHAIN_ID, ADDRESS);
+    expect(gap!.missingNonces).toEqual([3, 4]);
+    expect(gap!.blockedTransactions.map(tx => tx.hash)).toEqual([blockedHash]);
+    
+    const hashes = await nonceManager.fillNonceGap(CHAIN_ID, ADDRESS);
+    expect(hashes).toHaveLength(2);
+    expect(sender).toHaveBeenCalledWith(expect.objectContaining({ nonce: 3, to: ADDRESS, value: '0' }));
+    expect(await nonceManager.getNonceGap(CHAIN_ID, ADDRESS)).toBeNull();
+    expect(await nonceManager.getNextNonce(CHAIN_ID, ADDRESS)).toBe(6);
+  });
+});
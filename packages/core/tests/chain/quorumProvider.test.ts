@@ -0,0 +1,191 @@
+/**
+ * @file quorumProvider.test.ts
+ * @description 여러 RPC 응답을 교차 확인하는 쿼럼 프로바이더 테스트
+ */
+
+import { JsonRpcProvider } from 'ethers';
+import { QuorumProvider } from '../../src/chain/providers/quorum.provider';
+import { ProviderFactory, defaultProviderFactory } from '../../src/chain/providers/provider.interface';
+import { RpcEndpointPool } from '../../src/chain/providers/rpc-endpoint-pool';
+import { defaultOptimizationManager } from '../../src/chain/optimization';
+import { RpcError, RpcQuorumError, ValidationError } from '../../src/utils/errors';
+
+const CHAIN_ID = 9999;
+const HONEST_A = 'https://a.rpc.example';
+const HONEST_B = 'https://b.rpc.example';
+const MALICIOUS = 'https://c.rpc.example';
+
+interface MockNode {
+  blockNumber: number;
+  nonce: number;
+  pendingNonce?: number;
+  fail?: boolean;
+}
+
+/**
+ * URL별로 다른 노드 상태를 돌려주도록 JSON-RPC 요청 모의
+ */
+function mockNodes(nodes: Record<string, MockNode>) {
+  const requests: Array<{ url: string; method: string; params: any[] }> = [];
+  
+  jest.spyOn(JsonRpcProvider.prototype, 'send').mockImplementation(async function (this: JsonRpcProvider, method: string, params: any[]) {
+    const url = this._getConnection().url;
+    const node = nodes[url];
+    requests.push({ url, method, params });
+    
+    if (node.fail) {
+      throw new Error('connect ECONNREFUSED');
+    }
+    
+    switch (method) {
+      case 'eth_blockNumber':
+        return `0x${node.blockNumber.toString(16)}`;
+      case 'eth_getTransactionCount':
+        return `0x${(params[1] === 'pending' ? node.pendingNonce ?? node.nonce : node.nonce).toString(16)}`;
+      case 'eth_gasPrice':
+        return '0x3b9aca00';
+      default:
+        throw new Error(`Unexpected method ${method}`);
+    }
+  });
+  
+  return requests;
+}
+
+function createProvider(quorum: Record<string, any> = {}) {
+  return new QuorumProvider(HONEST_A, {
+    url: HONEST_A,
+    chainId: CHAIN_ID,
+    endpoints: [HONEST_B, MALICIOUS],
+    quorum
+  });
+}
+
+const ADDRESS = '0x1234567890123456789012345678901234567890';
+
+describe('QuorumProvider', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  afterAll(() => {
+    defaultOptimizationManager.dispose();
+  });
+  
+  it('should return the agreed result and penalize the endpoint that disagrees', async () => {
+    const requests = mockNodes({
+      [HONEST_A]: { blockNumber: 100, nonce: 7 },
+      [HONEST_B]: { blockNumber: 101, nonce: 7 },
+      [MALICIOUS]: { blockNumber: 101, nonce: 3 }
+    });
+    const provider = createProvider();
+    
+    expect(await provider.send('eth_getTransactionCount', [ADDRESS, 'latest'])).toBe('0x7');
+    
+    // 모든 엔드포인트가 가진 가장 낮은 블록으로 고정해서 조회
+    const nonceRequests = requests.filter(request => request.method === 'eth_getTransactionCount');
+    expect(nonceRequests).toHaveLength(3);
+    expect(nonceRequests.every(request => request.params[1] === '0x64')).toBe(true);
+    
+    const malicious = provider.getEndpointHealth().find(health => health.url === MALICIOUS)!;
+    expect(malicious.lastError).toContain('Disagreed with quorum');
+    
+    await provider.disconnect();
+  });
+  
+  it('should throw RpcQuorumError when endpoints disagree', async () => {
+    mockNodes({
+      [HONEST_A]: { blockNumber: 100, nonce: 7 },
+      [HONEST_B]: { blockNumber: 100, nonce: 8 },
+      [MALICIOUS]: { blockNumber: 100, nonce: 3 }
+    });
+    const provider = createProvider();
+    
+    const error = await provider.send('eth_getTransactionCount', [ADDRESS, 'latest']).catch(e => e);
+    expect(error).toBeInstanceOf(RpcQuorumError);
+    expect(error).toBeInstanceOf(RpcError);
+    expect(error.method).toBe('eth_getTransactionCount');
+    expect(error.responses.map((response: any) => response.result)).toEqual(['0x7', '0x8', '0x3']);
+    
+    await provider.disconnect();
+  });
+  
+  it('should exclude lagging endpoints and fail without enough responses', async () => {
+    mockNodes({
+      [HONEST_A]: { blockNumber: 200, nonce: 7 },
+      [HONEST_B]: { blockNumber: 200, nonce: 7, fail: true },
+      [MALICIOUS]: { blockNumber: 150, nonce: 1 }
+    });
+    const provider = createProvider();
+    
+    await expect(provider.send('eth_getTransactionCount', [ADDRESS, 'latest'])).rejects.toBeInstanceOf(RpcQuorumError);
+    
+    await provider.disconnect();
+  });
+  
+  it('should resolve pending nonces that differ between mempools without requiring exact agreement', async () => {
+    const requests = mockNodes({
+      [HONEST_A]: { blockNumber: 100, nonce: 7, pendingNonce: 9 },
+      [HONEST_B]: { blockNumber: 100, nonce: 7, pendingNonce: 8 },
+      [MALICIOUS]: { blockNumber: 100, nonce: 7, pendingNonce: 1000 }
+    });
+    const provider = createProvider();
+    
+    // 부풀린 값 하나는 무시하고 두 엔드포인트 이상이 확인한 가장 큰 값 사용
+    expect(await provider.send('eth_getTransactionCount', [ADDRESS, 'pending'])).toBe('0x9');
+    
+    // pending 조회는 블록을 고정하지 않음
+    expect(requests.filter(request => request.method === 'eth_blockNumber')).toHaveLength(0);
+    
+    await provider.disconnect();
+  });
+  
+  it('should throw RpcQuorumError when too few endpoints answer a pending nonce', async () => {
+    mockNodes({
+      [HONEST_A]: { blockNumber: 100, nonce: 7, pendingNonce: 9 },
+      [HONEST_B]: { blockNumber: 100, nonce: 7, fail: true },
+      [MALICIOUS]: { blockNumber: 100, nonce: 7, fail: true }
+    });
+    const provider = createProvider();
+    
+    await expect(provider.send('eth_getTransactionCount', [ADDRESS, 'pending'])).rejects.toBeInstanceOf(RpcQuorumError);
+    
+    await provider.disconnect();
+  });
+  
+  it('should cross-check ethers calls and leave other methods to a single endpoint', async () => {
+    // 엔드포인트 순위는 실제 응답 시간에 따라 바뀌므로 모든 노드가 같은 값을 반환
+    const requests = mockNodes({
+      [HONEST_A]: { blockNumber: 100, nonce: 4 },
+      [HONEST_B]: { blockNumber: 100, nonce: 4 },
+      [MALICIOUS]: { blockNumber: 100, nonce: 4 }
+    });
+    const provider = createProvider({ endpointCount: 2 });
+    // 연결 시 시작되는 주기적인 상태 확인은 실제 네트워크에 요청하므로 생략
+    jest.spyOn(RpcEndpointPool.prototype, 'start').mockImplementation(() => {});
+    
+    expect(await provider.getNonce(ADDRESS)).toBe(4);
+    expect(requests.filter(request => request.method === 'eth_getTransactionCount')).toHaveLength(2);
+    
+    await provider.send('eth_gasPrice', []);
+    expect(requests.filter(request => request.method === 'eth_gasPrice')).toHaveLength(1);
+    
+    await provider.disconnect();
+  });
+  
+  it('should be created by the provider factory in quorum mode', async () => {
+    const factory = new ProviderFactory();
+    expect(() => factory.createProvider(CHAIN_ID, { url: HONEST_A, quorum: {} })).toThrow('No quorum provider constructor registered');
+    
+    const provider = defaultProviderFactory.createProvider(CHAIN_ID, {
+      url: HONEST_A,
+      endpoints: [HONEST_B],
+      quorum: { quorum: 2 }
+    });
+    expect(provider).toBeInstanceOf(QuorumProvider);
+    expect(defaultProviderFactory.getProvider(CHAIN_ID)).toBeNull();
+    defaultProviderFactory.removeProvider(CHAIN_ID);
+    
+    expect(() => new QuorumProvider(HONEST_A, { url: HONEST_A, chainId: CHAIN_ID, quorum: { quorum: 2 } })).toThrow(ValidationError);
+  });
+});
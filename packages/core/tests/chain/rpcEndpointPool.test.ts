@@ -0,0 +1,171 @@
+/**
+ * @file rpcEndpointPool.test.ts
+ * @description RPC 엔드포인트 풀 상태 점수와 장애 조치 테스트
+ */
+
+import { JsonRpcProvider } from 'ethers';
+import { RpcEndpointPool, RpcEndpointStatus, isEndpointFailure } from '../../src/chain/providers/rpc-endpoint-pool';
+import { EnhancedCatenaProvider } from '../../src/chain/providers/enhanced-catena.provider';
+import { ProviderEventType } from '../../src/chain/providers/provider.interface';
+import { defaultOptimizationManager } from '../../src/chain/optimization';
+
+const PRIMARY = 'https://primary.rpc.example';
+const BACKUP = 'https://backup.rpc.example';
+const ARCHIVE = 'https://archive.rpc.example';
+
+// 프로바이더가 만든 RPC 캐시의 정리 타이머 해제
+afterAll(() => {
+  defaultOptimizationManager.dispose();
+});
+
+describe('RpcEndpointPool', () => {
+  it('should rank endpoints by latency and error rate', () => {
+    const pool = new RpcEndpointPool(1000, [PRIMARY, BACKUP]);
+    expect(pool.getRankedEndpoints()).toEqual([PRIMARY, BACKUP]);
+    
+    pool.recordSuccess(PRIMARY, 1500);
+    pool.recordSuccess(BACKUP, 100);
+    expect(pool.getRankedEndpoints()).toEqual([BACKUP, PRIMARY]);
+    
+    pool.recordFailure(BACKUP, new Error('socket hang up'), 100);
+    const backup = pool.getHealth().find(health => health.url === BACKUP)!;
+    expect(backup.errorRate).toBeCloseTo(0.3);
+    expect(backup.failedRequests).toBe(1);
+    expect(backup.status).toBe(RpcEndpointStatus.DEGRADED);
+  });
+  
+  it('should take an endpoint out of rotation after consecutive failures', () => {
+    const pool = new RpcEndpointPool(1000, [PRIMARY, BACKUP], { maxConsecutiveFailures: 2, failureCooldown: 60000 });
+    const listener = jest.fn();
+    pool.subscribe(listener);
+    
+    pool.recordFailure(PRIMARY, new Error('timeout'));
+    expect(pool.getActiveEndpoint()).toBe(BACKUP);
+    
+    pool.recordFailure(PRIMARY, new Error('timeout'));
+    const primary = pool.getHealth().find(health => health.url === PRIMARY)!;
+    expect(primary.status).toBe(RpcEndpointStatus.UNHEALTHY);
+    expect(primary.score).toBe(0);
+    expect(pool.getRankedEndpoints()).toEqual([BACKUP, PRIMARY]);
+    expect(listener).toHaveBeenCalled();
+    
+    // 성공하면 바로 복귀
+    pool.recordSuccess(PRIMARY, 50);
+    expect(pool.getHealth().find(health => health.url === PRIMARY)!.unavailableUntil).toBe(0);
+  });
+  
+  it('should deprioritize endpoints that fall behind in block height', async () => {
+    const blockNumbers: Record<string, number> = { [PRIMARY]: 100, [BACKUP]: 200, [ARCHIVE]: 198 };
+    const pool = new RpcEndpointPool(1000, [PRIMARY, BACKUP, ARCHIVE], {
+      maxBlockLag: 5,
+      healthCheck: async (url) => ({
+        rpcUrl: url,
+        latency: url === BACKUP ? 300 : 100,
+        success: true,
+        chainId: 1000,
+        blockNumber: blockNumbers[url],
+        timestamp: Date.now()
+      })
+    });
+    
+    const health = await pool.checkHealth();
+    const primary = health.find(endpoint => endpoint.url === PRIMARY)!;
+    
+    expect(primary.blockLag).toBe(100);
+    expect(primary.status).toBe(RpcEndpointStatus.DEGRADED);
+    expect(pool.getRankedEndpoints()).toEqual([ARCHIVE, BACKUP, PRIMARY]);
+  });
+  
+  it('should treat a chain ID mismatch as a failed health check', async () => {
+    const pool = new RpcEndpointPool(1000, [PRIMARY], {
+      healthCheck: async (url) => ({ rpcUrl: url, latency: 10, success: true, chainId: 1, blockNumber: 1, timestamp: Date.now() })
+    });
+    
+    const [primary] = await pool.checkHealth();
+    expect(primary.lastError).toContain('Chain ID mismatch');
+    expect(primary.consecutiveFailures).toBe(1);
+  });
+  
+  it('should distinguish endpoint failures from node results', () => {
+    expect(isEndpointFailure(new Error('getaddrinfo ENOTFOUND'))).toBe(true);
+    expect(isEndpointFailure({ code: 'TIMEOUT' })).toBe(true);
+    expect(isEndpointFailure({ error: { code: -32005, message: 'limit exceeded' } })).toBe(true);
+    expect(isEndpointFailure({ code: 'CALL_EXCEPTION' })).toBe(false);
+    expect(isEndpointFailure({ error: { code: 3, message: 'execution reverted' } })).toBe(false);
+  });
+});
+
+describe('EnhancedCatenaProvider failover', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('should fail over to the next endpoint and report health changes', async () => {
+    const requestedUrls: string[] = [];
+    jest.spyOn(JsonRpcProvider.prototype, 'send').mockImplementation(async function (this: JsonRpcProvider, method: string) {
+      const url = this._getConnection().url;
+      requestedUrls.push(url);
+      
+      if (url === PRIMARY) {
+        throw new Error('connect ECONNREFUSED');
+      }
+      return method === 'eth_blockNumber' ? '0x10' : '0x64';
+    });
+    
+    const provider = new EnhancedCatenaProvider(PRIMARY, { url: PRIMARY, chainId: 9999, endpoints: [BACKUP] });
+    const listener = jest.fn();
+    provider.on(ProviderEventType.ENDPOINT_HEALTH, listener);
+    
+    expect(await provider.send('eth_getBalance', ['0x0000000000000000000000000000000000000001', 'latest'])).toBe('0x64');
+    expect(requestedUrls).toEqual([PRIMARY, BACKUP]);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ chainId: 9999, activeEndpoint: BACKUP }));
+    
+    // 다음 요청은 상태가 좋은 엔드포인트로 먼저 전송
+    await provider.send('eth_getBalance', ['0x0000000000000000000000000000000000000002', 'latest']);
+    expect(requestedUrls.slice(2)).toEqual([BACKUP]);
+    expect(provider.getActiveEndpoint()).toBe(BACKUP);
+    
+    await provider.disconnect();
+  });
+  
+  it('should not fail over when the node rejects the request itself', async () => {
+    const revert = Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION' });
+    const send = jest.spyOn(JsonRpcProvider.prototype, 'send').mockRejectedValue(revert);
+    
+    const provider = new EnhancedCatenaProvider(PRIMARY, { url: PRIMARY, chainId: 9999, endpoints: [BACKUP] });
+    
+    await expect(provider.send('eth_call', [{ to: PRIMARY }, 'latest'])).rejects.toBe(revert);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(provider.getEndpointHealth().every(health => health.status === RpcEndpointStatus.HEALTHY)).toBe(true);
+    
+    await provider.disconnect();
+  });
+  
+  it('should fail over batch requests to the next endpoint', async () => {
+    const fetchMock = jest.fn(async (url: string, init: any) => {
+      if (url === PRIMARY) {
+        throw new Error('connect ECONNREFUSED');
+      }
+      return {
+        ok: true,
+        json: async () => JSON.parse(init.body).map((request: any) => ({ jsonrpc: '2.0', id: request.id, result: '0x64' }))
+      };
+    });
+    global.fetch = fetchMock as any;
+    
+    const provider = new EnhancedCatenaProvider(PRIMARY, { url: PRIMARY, chainId: 9999, endpoints: [BACKUP] });
+    const response = await provider.sendBatch([
+      { method: 'eth_getBalance', params: ['0x0000000000000000000000000000000000000001', 'latest'] },
+      { method: 'eth_getBalance', params: ['0x0000000000000000000000000000000000000002', 'latest'] }
+    ]);
+    
+    expect(response).toEqual([
+      { jsonrpc: '2.0', id: 0, result: '0x64' },
+      { jsonrpc: '2.0', id: 1, result: '0x64' }
+    ]);
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([PRIMARY, BACKUP]);
+    expect(provider.getActiveEndpoint()).toBe(BACKUP);
+    
+    await provider.disconnect();
+  });
+});
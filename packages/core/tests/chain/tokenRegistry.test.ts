@@ -0,0 +1,203 @@
+/**
+ * @file tokenRegistry.test.ts
+ * @description 토큰 목록 불러오기, 보유 토큰 탐색, 스팸 토큰 분류 테스트
+ */
+
+import { AbiCoder, Interface, zeroPadValue } from 'ethers';
+import { TokenRegistry, TokenRegistryProvider } from '../../src/chain/tokenRegistry';
+import { ERC20_ABI } from '../../src/chain/contracts';
+import { TokenList, TokenStandard, TokenValidationStatus } from '../../src/types/chain.types';
+import { ValidationError } from '../../src/utils/errors';
+
+const CHAIN_ID = 1000;
+const ACCOUNT = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const OTHER = '0x1111111111111111111111111111111111111111';
+const LISTED = '0x2222222222222222222222222222222222222222';
+const HELD = '0x3333333333333333333333333333333333333333';
+const SPAM = '0x4444444444444444444444444444444444444444';
+const DUST = '0x5555555555555555555555555555555555555555';
+const NFT = '0x6666666666666666666666666666666666666666';
+const EOA = '0x7777777777777777777777777777777777777777';
+
+const erc20Interface = new Interface(ERC20_ABI);
+const TRANSFER_TOPIC = erc20Interface.getEvent('Transfer')!.topicHash;
+const coder = AbiCoder.defaultAbiCoder();
+
+const TEST_LIST: TokenList = {
+  name: 'Test List',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  version: { major: 1, minor: 0, patch: 0 },
+  tokens: [
+    { chainId: CHAIN_ID, address: LISTED, name: 'Listed Token', symbol: 'LST', decimals: 18 }
+  ]
+};
+
+const METADATA: Record<string, [string, string, number]> = {
+  [LISTED]: ['Listed Token', 'LST', 18],
+  [HELD]: ['Held Token', 'HELD', 6],
+  [SPAM]: ['Visit claim-rewards.xyz', 'CLAIM', 18],
+  [DUST]: ['Dust Token', 'DUST', 18]
+};
+
+/**
+ * Transfer 로그 생성
+ */
+function transferLog(token: string, from: string, to: string, amount: bigint, blockNumber: number, tokenId: boolean = false) {
+  const topics = [TRANSFER_TOPIC, zeroPadValue(from.toLowerCase(), 32), zeroPadValue(to.toLowerCase(), 32)];
+  const value = coder.encode(['uint256'], [amount]);
+  
+  // ERC-721 Transfer는 토큰 ID를 네 번째 토픽으로 기록
+  return tokenId
+    ? { address: token.toLowerCase(), topics: [...topics, value], data: '0x', blockNumber }
+    : { address: token.toLowerCase(), topics, data: value, blockNumber };
+}
+
+/**
+ * 토큰 계약과 로그를 흉내 내는 프로바이더
+ */
+function createProvider(maxLogRange: number = Infinity) {
+  const logs = [
+    transferLog(HELD, OTHER, ACCOUNT, BigInt(1000), 10),
+    transferLog(LISTED, OTHER, ACCOUNT, BigInt(5), 20),
+    transferLog(SPAM, OTHER, ACCOUNT, BigInt(1), 30),
+    transferLog(DUST, ACCOUNT, OTHER, BigInt(0), 40),
+    transferLog(DUST, OTHER, ACCOUNT, BigInt(0), 41),
+    transferLog(NFT, OTHER, ACCOUNT, BigInt(7), 50, true)
+  ];
+  
+  const call = jest.fn(async ({ to, data }: { to: string; data: string }) => {
+    const metadata = METADATA[to];
+    if (!metadata) {
+      return '0x';
+    }
+    
+    const { name } = erc20Interface.parseTransaction({ data })!;
+    const index = ['name', 'symbol', 'decimals'].indexOf(name);
+    return index >= 0 ? erc20Interface.encodeFunctionResult(name, [metadata[index]]) : '0x';
+  });
+  
+  const send = jest.fn(async (method: string, params: any[]) => {
+    switch (method) {
+      case 'eth_blockNumber':
+        return '0x64';
+      case 'eth_call':
+        return call(params[0]);
+      case 'eth_getLogs': {
+        const filter = params[0];
+        const from = parseInt(filter.fromBlock, 16);
+        const to = parseInt(filter.toBlock, 16);
+        if (to - from + 1 > maxLogRange) {
+          throw Object.assign(new Error('query returned more than 10000 results'), { code: -32005 });
+        }
+        
+        return logs.filter(log =>
+          log.blockNumber >= from &&
+          log.blockNumber <= to &&
+          filter.topics.every((topic: string | null, i: number) => topic === null || topic === undefined || log.topics[i] === topic)
+        );
+      }
+      default:
+        throw new Error(`Unexpected method ${method}`);
+    }
+  });
+  
+  const getCode = jest.fn(async (address: string) => (address.toLowerCase() === EOA.toLowerCase() ? '0x' : '0x6080'));
+  
+  return { send, call, getCode } as TokenRegistryProvider & { send: jest.Mock; call: jest.Mock; getCode: jest.Mock };
+}
+
+describe('TokenRegistry', () => {
+  it('should ingest the bundled token lists', () => {
+    const registry = new TokenRegistry();
+    
+    const usdc = registry.getToken(1, '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48');
+    expect(usdc).toMatchObject({ symbol: 'USDC', decimals: 6, validationStatus: TokenValidationStatus.VERIFIED });
+    expect(registry.getTokens(137).length).toBeGreaterThan(0);
+    expect(registry.getTokens(42161).length).toBeGreaterThan(0);
+    
+    // 주소가 정해지지 않은 Catena 토큰은 제외
+    expect(registry.getTokens(CHAIN_ID)).toEqual([]);
+  });
+  
+  it('should skip malformed entries and reject malformed lists', () => {
+    const registry = new TokenRegistry([]);
+    const ingested = registry.ingestTokenList(JSON.stringify({
+      ...TEST_LIST,
+      tokens: [
+        ...TEST_LIST.tokens,
+        { chainId: CHAIN_ID, address: 'not-an-address', name: 'Bad', symbol: 'BAD', decimals: 18 },
+        { chainId: CHAIN_ID, address: HELD, name: 'Too Precise', symbol: 'TP', decimals: 300 }
+      ]
+    }));
+    
+    expect(ingested).toBe(1);
+    expect(registry.searchTokens(CHAIN_ID, 'lst').map(token => token.address)).toEqual([LISTED]);
+    expect(() => registry.ingestTokenList('{')).toThrow(ValidationError);
+    expect(() => registry.ingestTokenList({ name: 'Empty' } as TokenList)).toThrow(ValidationError);
+  });
+  
+  it('should validate tokens against the list and on-chain code', async () => {
+    const registry = new TokenRegistry([TEST_LIST]);
+    const provider = createProvider();
+    
+    expect((await registry.validateToken(provider, CHAIN_ID, LISTED)).validationStatus).toBe(TokenValidationStatus.VERIFIED);
+    expect(await registry.validateToken(provider, CHAIN_ID, HELD)).toMatchObject({
+      address: HELD,
+      symbol: 'HELD',
+      decimals: 6,
+      standard: TokenStandard.ERC20,
+      validationStatus: TokenValidationStatus.UNVERIFIED
+    });
+    expect((await registry.validateToken(provider, CHAIN_ID, SPAM)).validationStatus).toBe(TokenValidationStatus.SUSPICIOUS);
+    expect((await registry.validateToken(provider, CHAIN_ID, EOA)).validationStatus).toBe(TokenValidationStatus.BLOCKED);
+    
+    registry.blockToken(CHAIN_ID, HELD);
+    expect((await registry.validateToken(provider, CHAIN_ID, HELD)).validationStatus).toBe(TokenValidationStatus.BLOCKED);
+    registry.unblockToken(CHAIN_ID, HELD);
+    expect((await registry.validateToken(provider, CHAIN_ID, HELD)).validationStatus).toBe(TokenValidationStatus.UNVERIFIED);
+  });
+  
+  it('should flag tokens impersonating a listed symbol', async () => {
+    const registry = new TokenRegistry([TEST_LIST]);
+    const provider = createProvider();
+    METADATA[HELD][1] = 'LST';
+    
+    try {
+      expect((await registry.validateToken(provider, CHAIN_ID, HELD)).validationStatus).toBe(TokenValidationStatus.SUSPICIOUS);
+    } finally {
+      METADATA[HELD][1] = 'HELD';
+    }
+  });
+  
+  it('should discover ERC-20 tokens from Transfer logs', async () => {
+    const registry = new TokenRegistry([TEST_LIST]);
+    const provider = createProvider();
+    
+    const result = await registry.discoverTokens(provider, CHAIN_ID, ACCOUNT);
+    const statuses = Object.fromEntries(result.tokens.map(token => [token.address, token.validationStatus]));
+    
+    expect(result.fromBlock).toBe(0);
+    expect(result.toBlock).toBe(100);
+    expect(statuses).toEqual({
+      [HELD]: TokenValidationStatus.UNVERIFIED,
+      [LISTED]: TokenValidationStatus.VERIFIED,
+      [SPAM]: TokenValidationStatus.SUSPICIOUS,
+      // 0 금액 전송만 있어도 직접 보낸 기록이 있으면 스팸으로 보지 않음
+      [DUST]: TokenValidationStatus.UNVERIFIED
+    });
+    expect(statuses[NFT]).toBeUndefined();
+  });
+  
+  it('should split log queries the node rejects and honour the block range', async () => {
+    const registry = new TokenRegistry([TEST_LIST], { maxLogBlockRange: 100 });
+    const provider = createProvider(30);
+    
+    const result = await registry.discoverTokens(provider, CHAIN_ID, ACCOUNT, { fromBlock: 25, toBlock: 45 });
+    expect(result.tokens.map(token => token.address).sort()).toEqual([DUST, SPAM].sort());
+    
+    const all = await registry.discoverTokens(provider, CHAIN_ID, ACCOUNT, { fromBlock: 0 });
+    expect(all.tokens).toHaveLength(4);
+    
+    await expect(registry.discoverTokens(provider, CHAIN_ID, 'bad')).rejects.toBeInstanceOf(ValidationError);
+  });
+});
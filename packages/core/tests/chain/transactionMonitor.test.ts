@@ -0,0 +1,199 @@
+/**
+ * @file transactionMonitor.test.ts
+ * @description 트랜잭션 상태 추적 서비스 테스트
+ */
+
+import {
+  TransactionMonitor,
+  TransactionMonitorEvent,
+  TransactionMonitorEventType
+} from '../../src/chain/transactionMonitor';
+import { IProvider } from '../../src/chain/providers/provider.interface';
+import { InMemoryLocalStore } from '../../src/storage/localStore';
+import { TransactionReceipt, TransactionStatus, TransactionType } from '../../src/types/transactions.types';
+
+const SENDER = '0x1234567890123456789012345678901234567890';
+const RECIPIENT = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+const HASH_A = `0x${'a'.repeat(64)}`;
+const HASH_B = `0x${'b'.repeat(64)}`;
+
+function createReceipt(hash: string, status: number = 1): TransactionReceipt {
+  return {
+    to: RECIPIENT,
+    from: SENDER,
+    contractAddress: null,
+    transactionIndex: 0,
+    gasUsed: '21000',
+    logsBloom: '0x',
+    blockHash: `0x${'c'.repeat(64)}`,
+    transactionHash: hash,
+    logs: [],
+    blockNumber: 100,
+    confirmations: 1,
+    cumulativeGasUsed: '21000',
+    effectiveGasPrice: '1000000000',
+    status,
+    type: TransactionType.EIP1559
+  };
+}
+
+function createMockProvider() {
+  const receipts = new Map<string, TransactionReceipt>();
+  const state = { nonce: 5, blockNumber: 100, known: true };
+  
+  const provider = {
+    getTransactionReceipt: jest.fn(async (hash: string) => receipts.get(hash) || null),
+    getNonce: jest.fn(async () => state.nonce),
+    getBlockNumber: jest.fn(async () => state.blockNumber),
+    getTransaction: jest.fn(async (hash: string) => (state.known ? { hash } : null))
+  } as unknown as IProvider;
+  
+  return { provider, receipts, state };
+}
+
+function createTransaction(hash: string, nonce: number = 5) {
+  return {
+    hash,
+    from: SENDER,
+    to: RECIPIENT,
+    value: '1000',
+    nonce,
+    chainId: 1000,
+    type: TransactionType.EIP1559,
+    gasLimit: '21000',
+    maxFeePerGas: '2000000000',
+    maxPriorityFeePerGas: '1000000000'
+  };
+}
+
+describe('TransactionMonitor', () => {
+  it('should confirm transactions once a receipt is available', async () => {
+    const { provider, receipts } = createMockProvider();
+    const monitor = new TransactionMonitor(() => provider, new InMemoryLocalStore());
+    const events: TransactionMonitorEvent[] = [];
+    monitor.on(TransactionMonitorEventType.CONFIRMED, event => events.push(event));
+    
+    await monitor.addTransaction(createTransaction(HASH_A));
+    await monitor.checkPendingTransactions();
+    expect((await monitor.getTransaction(HASH_A))!.meta!.status).toBe(TransactionStatus.PENDING);
+    
+    receipts.set(HASH_A, createReceipt(HASH_A));
+    await monitor.checkPendingTransactions();
+    
+    const transaction = await monitor.getTransaction(HASH_A);
+    expect(transaction!.meta!.status).toBe(TransactionStatus.CONFIRMED);
+    expect(transaction!.meta!.blockNumber).toBe(100);
+    expect(events).toHaveLength(1);
+    expect(events[0].receipt!.transactionHash).toBe(HASH_A);
+    expect(await monitor.getPendingTransactions()).toEqual([]);
+  });
+  
+  it('should mark reverted transactions as failed', async () => {
+    const { provider, receipts } = createMockProvider();
+    const monitor = new TransactionMonitor(() => provider, new InMemoryLocalStore());
+    
+    await monitor.addTransaction(createTransaction(HASH_A));
+    const waiting = monitor.waitForTransaction(HASH_A);
+    
+    receipts.set(HASH_A, createReceipt(HASH_A, 0));
+    await monitor.checkPendingTransactions();
+    
+    await expect(waiting).rejects.toThrow('failed');
+    expect((await monitor.getTransaction(HASH_A))!.meta!.status).toBe(TransactionStatus.FAILED);
+  });
+  
+  it('should detect a transaction replaced by a tracked transaction with the same nonce', async () => {
+    const { provider, receipts, state } = createMockProvider();
+    const monitor = new TransactionMonitor(() => provider, new InMemoryLocalStore());
+    const replaced: TransactionMonitorEvent[] = [];
+    monitor.on(TransactionMonitorEventType.REPLACED, event => replaced.push(event));
+    
+    await monitor.addTransaction(createTransaction(HASH_A));
+    await monitor.addTransaction({ ...createTransaction(HASH_B), meta: { status: TransactionStatus.PENDING, submittedAt: Date.now(), isSpeedUp: true } });
+    
+    state.nonce = 6;
+    receipts.set(HASH_B, createReceipt(HASH_B));
+    await monitor.checkPendingTransactions();
+    
+    expect((await monitor.getTransaction(HASH_A))!.meta!.status).toBe(TransactionStatus.REPLACED);
+    expect((await monitor.getTransaction(HASH_B))!.meta!.status).toBe(TransactionStatus.CONFIRMED);
+    expect(replaced).toHaveLength(1);
+    expect(replaced[0].replacedBy).toBe(HASH_B);
+  });
+  
+  it('should mark transactions as dropped when an unknown transaction used the nonce', async () => {
+    const { provider, state } = createMockProvider();
+    const monitor = new TransactionMonitor(() => provider, new InMemoryLocalStore());
+    
+    await monitor.addTransaction(createTransaction(HASH_A));
+    
+    state.nonce = 6;
+    await monitor.checkPendingTransactions();
+    
+    expect((await monitor.getTransaction(HASH_A))!.meta!.status).toBe(TransactionStatus.DROPPED);
+  });
+  
+  it('should mark transactions unknown to the node as dropped after the timeout', async () => {
+    const { provider, state } = createMockProvider();
+    const monitor = new TransactionMonitor(() => provider, new InMemoryLocalStore(), { droppedTimeout: 1000 });
+    
+    await monitor.addTransaction({ ...createTransaction(HASH_A), meta: { status: TransactionStatus.PENDING, submittedAt: Date.now() - 2000 } });
+    await monitor.checkPendingTransactions();
+    expect((await monitor.getTransaction(HASH_A))!.meta!.status).toBe(TransactionStatus.PENDING);
+    
+    state.known = false;
+    await monitor.checkPendingTransactions();
+    expect((await monitor.getTransaction(HASH_A))!.meta!.status).toBe(TransactionStatus.DROPPED);
+  });
+  
+  it('should resume pending transactions from the store after a restart', async () => {
+    const { provider, receipts } = createMockProvider();
+    const store = new InMemoryLocalStore();
+    
+    const first = new TransactionMonitor(() => provider, store);
+    await first.addTransaction(createTransaction(HASH_A));
+    
+    const second = new TransactionMonitor(() => provider, store);
+    expect((await second.getPendingTransactions()).map(tx => tx.hash)).toEqual([HASH_A]);
+    
+    receipts.set(HASH_A, createReceipt(HASH_A));
+    await second.checkPendingTransactions();
+    expect((await second.getTransaction(HASH_A))!.meta!.status).toBe(TransactionStatus.CONFIRMED);
+  });
+  
+  it('should wait for the requested number of confirmations', async () => {
+    const { provider, receipts, state } = createMockProvider();
+    const monitor = new TransactionMonitor(() => provider, new InMemoryLocalStore());
+    
+    await monitor.addTransaction(createTransaction(HASH_A));
+    receipts.set(HASH_A, createReceipt(HASH_A));
+    await monitor.checkPendingTransactions();
+    
+    let resolved: TransactionReceipt | null = null;
+    const waiting = monitor.waitForTransaction(HASH_A, 3).then(receipt => { resolved = receipt; });
+    
+    await monitor.checkPendingTransactions();
+    expect(resolved).toBeNull();
+    
+    state.blockNumber = 102;
+    await monitor.checkPendingTransactions();
+    await waiting;
+    expect(resolved!.confirmations).toBe(3);
+  });
+  
+  it('should send a speed-up transaction with the same nonce', async () => {
+    const { provider } = createMockProvider();
+    const sender = jest.fn(async () => HASH_B);
+    const monitor = new TransactionMonitor(() => provider, new InMemoryLocalStore(), { sender });
+    
+    await monitor.addTransaction(createTransaction(HASH_A));
+    const replacement = await monitor.speedUpTransaction(HASH_A, { multiplier: 1.5 });
+    
+    expect(replacement.hash).toBe(HASH_B);
+    expect(replacement.nonce).toBe(5);
+    expect(replacement.maxFeePerGas).toBe('3000000000');
+    expect(replacement.meta!.isSpeedUp).toBe(true);
+    expect(sender).toHaveBeenCalledWith(expect.not.objectContaining({ hash: HASH_A }));
+    expect((await monitor.getPendingTransactions()).map(tx => tx.hash)).toEqual([HASH_A, HASH_B]);
+  });
+});
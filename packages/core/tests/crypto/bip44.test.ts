@@ -0,0 +1,31 @@
+/**
+ * @file bip44.test.ts
+ * @description BIP-44 계정 파생과 키스토어 내보내기 테스트
+ */
+
+import { Wallet } from 'ethers';
+import { BIP44 } from '../../src/crypto/bip/bip44';
+import { decryptFromKeystore, encryptToKeystore, validateKeystore } from '../../src/crypto/keystore';
+
+const MNEMONIC = 'test test test test test test test test test test test junk';
+
+describe('BIP44', () => {
+  it('should derive standard Ethereum accounts from the root node', () => {
+    const bip44 = new BIP44(MNEMONIC);
+    
+    const first = bip44.deriveEthereumAccount(0, 0, 0);
+    expect(first.path).toBe("m/44'/60'/0'/0/0");
+    expect(first.address).toBe('0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266');
+    expect(bip44.deriveEthereumAccount(0, 0, 1).address).toBe('0x70997970c51812dc3a010c7d01b50e0d17dc79c8');
+  });
+  
+  it('should export a keystore that decrypts to the same private key', async () => {
+    const wallet = Wallet.createRandom();
+    const keystore = await encryptToKeystore(wallet.privateKey, 'password', { n: 1024 });
+    
+    expect(keystore.crypto.kdfparams.n).toBe(1024);
+    expect(validateKeystore(keystore)).toBe(true);
+    await expect(decryptFromKeystore(keystore, 'password')).resolves.toBe(wallet.privateKey);
+    await expect(decryptFromKeystore(keystore, 'wrong')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * @file hardwareKeyring.test.ts
+ * @description 에뮬레이터 디바이스로 하드웨어 키링의 경로 생성, 계정 탐색, 서명 흐름 테스트
+ */
+
+import { Transaction, TypedDataEncoder, Wallet, verifyMessage } from 'ethers';
+import {
+  HardwareKeyring,
+  HardwarePathLayout,
+  getHardwarePath,
+  getHardwarePaths,
+  isValidHardwarePath
+} from '../../src/crypto/hardware/hardwareKeyring';
+import {
+  EmulatedHardwareTransport,
+  EmulatedRequestKind
+} from '../../src/crypto/hardware/emulatedTransport';
+import { TypedDataPayload } from '../../src/crypto/typedData';
+import { BIP44 } from '../../src/crypto/bip/bip44';
+import { DeviceError, SignatureError, UnsupportedFeatureError } from '../../src/utils/errors';
+
+const MNEMONIC = 'test test test test test test test test test test test junk';
+const RECIPIENT = '0x000000000000000000000000000000000000dEaD';
+
+const PERMIT: TypedDataPayload = {
+  types: {
+    EIP712Domain: [
+      { name: 'name', type: 'string' },
+      { name: 'version', type: 'string' },
+      { name: 'chainId', type: 'uint256' },
+      { name: 'verifyingContract', type: 'address' }
+    ],
+    Permit: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' }
+    ]
+  },
+  primaryType: 'Permit',
+  domain: {
+    name: 'Test Token',
+    version: '1',
+    chainId: 1,
+    verifyingContract: '0x1111111111111111111111111111111111111111'
+  },
+  message: {
+    owner: '0x0000000000000000000000000000000000000001',
+    spender: RECIPIENT,
+    value: '1000',
+    nonce: 0,
+    deadline: 1893456000
+  }
+};
+
+/**
+ * 에뮬레이터에 연결된 키링 생성
+ */
+async function createKeyring(layout: HardwarePathLayout = HardwarePathLayout.BIP44) {
+  const transport = new EmulatedHardwareTransport({ mnemonic: MNEMONIC, deviceInfo: { type: 'ledger', deviceId: 'ledger-1' } });
+  const keyring = new HardwareKeyring({ transport, layout, chainId: 1 });
+  await keyring.connect();
+  return { transport, keyring };
+}
+
+describe('HardwareKeyring', () => {
+  const bip44 = new BIP44(MNEMONIC);
+  
+  it('builds derivation paths for each layout', () => {
+    expect(getHardwarePath(HardwarePathLayout.LEDGER_LIVE, 2)).toBe("m/44'/60'/2'/0/0");
+    expect(getHardwarePath(HardwarePathLayout.BIP44, 2)).toBe(bip44.getPath(60, 0, 0, 2));
+    expect(getHardwarePath(HardwarePathLayout.LEGACY, 2)).toBe("m/44'/60'/0'/2");
+    expect(getHardwarePaths(HardwarePathLayout.BIP44, 1, 3)).toEqual([
+      "m/44'/60'/0'/0/1",
+      "m/44'/60'/0'/0/2",
+      "m/44'/60'/0'/0/3"
+    ]);
+    
+    expect(isValidHardwarePath("m/44'/60'/0'/3")).toBe(true);
+    expect(isValidHardwarePath("m/49'/60'/0'/0/0")).toBe(false);
+  });
+  
+  it('enumerates device accounts that match software derivation', async () => {
+    const { keyring } = await createKeyring(HardwarePathLayout.LEDGER_LIVE);
+    
+    const candidates = await keyring.getCandidates(0, 3);
+    expect(candidates.map(candidate => candidate.address)).toEqual(
+      [0, 1, 2].map(index => bip44.getWallet(`m/44'/60'/${index}'/0/0`).address.toLowerCase())
+    );
+    expect(candidates.every(candidate => !candidate.added)).toBe(true);
+    
+    const account = await keyring.addAccount({ index: 1 });
+    expect(account.path).toBe("m/44'/60'/1'/0/0");
+    expect(account.privateKey).toBe('');
+    expect((await keyring.getCandidates(0, 3))[1].added).toBe(true);
+  });
+  
+  it('discovers used accounts until the gap limit', async () => {
+    const { keyring } = await createKeyring();
+    const used = new Set([0, 2].map(index => bip44.getWallet(bip44.getPath(60, 0, 0, index)).address.toLowerCase()));
+    const rpc = {
+      chainId: 1,
+      send: jest.fn(async (method: string, params: any[]) => {
+        if (method === 'eth_getTransactionCount') {
+          return used.has(params[0].toLowerCase()) ? '0x3' : '0x0';
+        }
+        return '0x0';
+      })
+    };
+    
+    const candidates = await keyring.discoverAccounts({ rpc, gapLimit: 2 });
+    
+    expect(candidates.map(candidate => candidate.index)).toEqual([0, 1, 2, 3, 4]);
+    expect(candidates.filter(candidate => candidate.used).map(candidate => candidate.index)).toEqual([0, 2]);
+    expect(candidates[0].transactionCount).toBe(3);
+  });
+  
+  it('signs transactions, personal messages and typed data on the device', async () => {
+    const { transport, keyring } = await createKeyring();
+    const account = await keyring.addAccount();
+    const wallet = new Wallet(bip44.getWallet(account.path).privateKey);
+    
+    const signedTx = await keyring.signTransaction(account.address, {
+      to: RECIPIENT,
+      value: BigInt(1000),
+      nonce: 0,
+      gasLimit: BigInt(21000),
+      maxFeePerGas: BigInt(2000000000),
+      maxPriorityFeePerGas: BigInt(1000000000),
+      chainId: 1,
+      type: 2
+    });
+    expect(Transaction.from(signedTx).from.toLowerCase()).toBe(account.address);
+    
+    const messageSignature = await keyring.signMessage(account.address, 'hello hardware');
+    expect(messageSignature).toBe(await wallet.signMessage('hello hardware'));
+    expect(verifyMessage('hello hardware', messageSignature).toLowerCase()).toBe(account.address);
+    
+    const types = { Permit: PERMIT.types.Permit };
+    const typedSignature = await keyring.signTypedData(account.address, PERMIT);
+    expect(typedSignature).toBe(await wallet.signTypedData(PERMIT.domain, types, PERMIT.message));
+    
+    expect(transport.getRequests().map(request => request.kind)).toEqual([
+      EmulatedRequestKind.TRANSACTION,
+      EmulatedRequestKind.PERSONAL_MESSAGE,
+      EmulatedRequestKind.TYPED_DATA
+    ]);
+    expect(transport.getRequests()[2].payload).toBe(TypedDataEncoder.hash(PERMIT.domain, types, PERMIT.message));
+  });
+  
+  it('surfaces rejection, disconnection and lock as device errors', async () => {
+    const transport = new EmulatedHardwareTransport({ mnemonic: MNEMONIC, confirm: () => false });
+    const keyring = new HardwareKeyring({ transport });
+    await keyring.connect();
+    const account = await keyring.addAccount();
+    
+    await expect(keyring.signMessage(account.address, 'no')).rejects.toThrow(DeviceError);
+    
+    transport.setLocked(true);
+    await expect(keyring.addAccount()).rejects.toThrow(DeviceError);
+    
+    transport.setLocked(false);
+    transport.disconnect();
+    await expect(keyring.getCandidates(0, 1)).rejects.toThrow(DeviceError);
+    
+    await expect(keyring.exportAccount(account.address, 'password')).rejects.toThrow(UnsupportedFeatureError);
+  });
+  
+  it('restores serialized accounts and rejects signatures from a different seed', async () => {
+    const { keyring } = await createKeyring();
+    const account = await keyring.addAccount();
+    
+    const restored = HardwareKeyring.deserialize(JSON.parse(JSON.stringify(keyring.serialize())));
+    expect(await restored.getAccounts()).toEqual([account]);
+    expect(restored.getDeviceInfo()?.connected).toBe(false);
+    await expect(restored.signMessage(account.address, 'offline')).rejects.toThrow(DeviceError);
+    
+    // 같은 디바이스 ID지만 패스프레이즈가 다른 숨겨진 지갑
+    const hidden = new EmulatedHardwareTransport({
+      mnemonic: MNEMONIC,
+      passphrase: 'hidden',
+      deviceInfo: { type: 'ledger', deviceId: 'ledger-1' }
+    });
+    await restored.connect(hidden);
+    await expect(restored.signMessage(account.address, 'hello')).rejects.toThrow(SignatureError);
+    
+    const other = new EmulatedHardwareTransport({ mnemonic: MNEMONIC, deviceInfo: { type: 'trezor', deviceId: 'trezor-9' } });
+    await expect(restored.connect(other)).rejects.toThrow(DeviceError);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * @file qrKeyring.test.ts
+ * @description UR/CBOR 인코딩과 시뮬레이션한 에어갭 디바이스로 QR 키링의 계정 가져오기, 서명 흐름 테스트
+ */
+
+import {
+  HDNodeWallet,
+  Transaction,
+  TypedDataEncoder,
+  getBytes,
+  hashMessage,
+  hexlify,
+  keccak256,
+  toUtf8String,
+  verifyMessage
+} from 'ethers';
+import { CborTag, decodeCbor, encodeCbor } from '../../src/crypto/hardware/cbor';
+import {
+  BytewordsStyle,
+  UREncoder,
+  URDecoder,
+  decodeBytewords,
+  decodeUR,
+  encodeBytewords,
+  encodeUR
+} from '../../src/crypto/hardware/ur';
+import {
+  EthDataType,
+  decodeEthSignRequest,
+  encodeCryptoHDKey,
+  encodeEthSignature,
+  formatKeypath,
+  parseKeypath
+} from '../../src/crypto/hardware/urRegistry';
+import { QRSignRequest, importQRAccountKey } from '../../src/crypto/hardware/qrTransport';
+import { QRKeyring } from '../../src/crypto/hardware/qrKeyring';
+import { DeviceError, SignatureError, UnsupportedFeatureError, ValidationError } from '../../src/utils/errors';
+
+const MNEMONIC = 'test test test test test test test test test test test junk';
+const RECIPIENT = '0x000000000000000000000000000000000000dEaD';
+const ACCOUNT_PATH = "m/44'/60'/0'";
+
+/**
+ * Keystone처럼 동작하는 에어갭 디바이스 시뮬레이터
+ */
+function createDevice(mnemonic: string = MNEMONIC) {
+  const root = HDNodeWallet.fromPhrase(mnemonic, undefined, 'm');
+  const account = root.derivePath(ACCOUNT_PATH);
+  const sourceFingerprint = parseInt(root.fingerprint.slice(2), 16);
+  
+  // 계정 키 내보내기 (crypto-hdkey)
+  const exportAccount = (): string => encodeUR(encodeCryptoHDKey({
+    isMaster: false,
+    isPrivate: false,
+    key: account.publicKey,
+    chainCode: account.chainCode,
+    origin: parseKeypath(ACCOUNT_PATH, sourceFingerprint),
+    parentFingerprint: parseInt(account.parentFingerprint.slice(2), 16),
+    name: 'Keystone',
+    note: 'account.standard'
+  }));
+  
+  // 요청 QR 파트를 스캔해 서명하고 응답 QR 파트를 만듭니다.
+  const sign = (parts: string[], requestIdOverride?: string): string[] => {
+    const decoder = new URDecoder();
+    parts.forEach(part => decoder.receivePart(part));
+    const request = decodeEthSignRequest(decoder.getResult());
+    
+    const wallet = root.derivePath(formatKeypath(request.derivationPath));
+    let digest: string;
+    switch (request.dataType) {
+      case EthDataType.PERSONAL_MESSAGE:
+        digest = hashMessage(getBytes(request.signData));
+        break;
+      case EthDataType.TYPED_DATA: {
+        const { domain, types, message } = JSON.parse(toUtf8String(request.signData));
+        const { EIP712Domain, ...messageTypes } = types;
+        digest = TypedDataEncoder.hash(domain, messageTypes, message);
+        break;
+      }
+      default:
+        digest = keccak256(request.signData);
+    }
+    
+    const signature = wallet.signingKey.sign(digest);
+    const encoder = new UREncoder(encodeEthSignature({
+      requestId: requestIdOverride ?? request.requestId,
+      signature: signature.serialized,
+      origin: 'Keystone'
+    }), 30);
+    return Array.from({ length: encoder.getFragmentCount() }, () => encoder.nextPart());
+  };
+  
+  return { root, sourceFingerprint, exportAccount, sign };
+}
+
+/**
+ * 요청 QR을 애니메이션 파트로 보여 주고 디바이스 응답을 받는 처리 함수
+ */
+function createHandler(device: ReturnType<typeof createDevice>, requestIdOverride?: string) {
+  const requests: QRSignRequest[] = [];
+  const handler = async (request: QRSignRequest) => {
+    requests.push(request);
+    const encoder = new UREncoder(request.ur, 40);
+    const parts = Array.from({ length: encoder.getFragmentCount() + 2 }, () => encoder.nextPart());
+    return device.sign(parts, requestIdOverride);
+  };
+  return { requests, handler };
+}
+
+describe('UR encoding', () => {
+  it('encodes bytewords and CBOR like the reference implementation', () => {
+    const data = Uint8Array.from([0, 1, 2, 128, 255]);
+    expect(encodeBytewords(data, BytewordsStyle.STANDARD)).toBe('able acid also lava zoom jade need echo taxi');
+    expect(encodeBytewords(data, BytewordsStyle.MINIMAL)).toBe('aeadaolazmjendeoti');
+    expect(decodeBytewords('able-acid-also-lava-zoom-jade-need-echo-taxi', BytewordsStyle.URI)).toEqual(data);
+    expect(() => decodeBytewords('aeadaolazmjendeotu')).toThrow(ValidationError);
+    
+    const value = new Map<any, any>([
+      [1, new CborTag(37, Uint8Array.from([1, 2]))],
+      [2, [BigInt('18446744073709551615'), -10, 'text', true, null]]
+    ]);
+    expect(hexlify(encodeCbor([1, -1, 'a']))).toBe('0x8301206161');
+    expect(decodeCbor(encodeCbor(value))).toEqual(value);
+    expect(() => decodeCbor(Uint8Array.from([0xfa, 0, 0, 0, 0]))).toThrow(ValidationError);
+  });
+  
+  it('reassembles animated parts even when frames are missed', () => {
+    const ur = { type: 'bytes', cbor: encodeCbor(Uint8Array.from([1, 2, 3])) };
+    const payload = { type: 'bytes', cbor: encodeCbor(new Uint8Array(600).map((_, i) => (i * 7) % 256)) };
+    expect(decodeUR(encodeUR(ur))).toEqual(ur);
+    
+    const encoder = new UREncoder(payload, 50);
+    expect(encoder.isSinglePart()).toBe(false);
+    
+    const decoder = new URDecoder('bytes');
+    const count = encoder.getFragmentCount();
+    for (let i = 0; i < count * 4 && !decoder.isComplete(); i++) {
+      const part = encoder.nextPart();
+      // 매 세 번째 프레임은 카메라가 놓친 것으로 가정
+      if (i % 3 !== 2) {
+        decoder.receivePart(part);
+      }
+    }
+    
+    expect(decoder.isComplete()).toBe(true);
+    expect(decoder.getProgress()).toBe(1);
+    expect(decoder.getResult()).toEqual(payload);
+    expect(() => new URDecoder('crypto-hdkey').receivePart(encoder.nextPart())).toThrow(ValidationError);
+  });
+});
+
+describe('QRKeyring', () => {
+  it('imports an account key from a crypto-hdkey export', async () => {
+    const device = createDevice();
+    const key = importQRAccountKey(device.exportAccount());
+    
+    expect(key.path).toBe(ACCOUNT_PATH);
+    expect(key.sourceFingerprint).toBe(device.sourceFingerprint);
+    expect(key.xpub).toBe(device.root.derivePath(ACCOUNT_PATH).neuter().extendedKey);
+    
+    const keyring = await QRKeyring.fromUR(device.exportAccount(), createHandler(device).handler, 1);
+    expect(keyring.getDeviceInfo()?.type).toBe('keystone');
+    
+    const candidates = await keyring.getCandidates(0, 2);
+    expect(candidates.map(candidate => candidate.address)).toEqual(
+      [0, 1].map(index => device.root.derivePath(`${ACCOUNT_PATH}/0/${index}`).address.toLowerCase())
+    );
+    
+    const ledgerKey = { ...key, path: "m/44'/60'/1'" };
+    expect(() => new QRKeyring(ledgerKey, createHandler(device).handler)).toThrow(UnsupportedFeatureError);
+  });
+  
+  it('signs through eth-sign-request and eth-signature QR codes', async () => {
+    const device = createDevice();
+    const { requests, handler } = createHandler(device);
+    const keyring = await QRKeyring.fromUR(device.exportAccount(), handler, 1);
+    const account = await keyring.addAccount({ index: 1 });
+    const wallet = device.root.derivePath(account.path);
+    
+    const signedTx = await keyring.signTransaction(account.address, {
+      to: RECIPIENT,
+      value: BigInt(1000),
+      nonce: 0,
+      gasLimit: BigInt(21000),
+      maxFeePerGas: BigInt(2000000000),
+      maxPriorityFeePerGas: BigInt(1000000000),
+      chainId: 1,
+      type: 2
+    });
+    expect(Transaction.from(signedTx).from.toLowerCase()).toBe(account.address);
+    
+    const messageSignature = await keyring.signMessage(account.address, 'hello keystone');
+    expect(verifyMessage('hello keystone', messageSignature).toLowerCase()).toBe(account.address);
+    
+    const domain = { name: 'Treasury', version: '1', chainId: 1 };
+    const types = { Transfer: [{ name: 'to', type: 'address' }, { name: 'amount', type: 'uint256' }] };
+    const message = { to: RECIPIENT, amount: '5' };
+    const typedSignature = await keyring.signTypedData(account.address, { domain, types, primaryType: 'Transfer', message });
+    expect(typedSignature).toBe(await wallet.signTypedData(domain, types, message));
+    
+    expect(requests.map(request => request.dataType)).toEqual([
+      EthDataType.TYPED_TRANSACTION,
+      EthDataType.PERSONAL_MESSAGE,
+      EthDataType.TYPED_DATA
+    ]);
+    expect(requests[0].chainId).toBe(1);
+    expect(requests[1].path).toBe("m/44'/60'/0'/0/1");
+  });
+  
+  it('restores without private keys and rejects mismatched responses', async () => {
+    const device = createDevice();
+    const keyring = await QRKeyring.fromUR(device.exportAccount(), createHandler(device).handler);
+    const account = await keyring.addAccount();
+    
+    const serialized = JSON.parse(JSON.stringify(keyring.serialize()));
+    expect(JSON.stringify(serialized)).not.toContain(device.root.privateKey.slice(2));
+    
+    const restored = await QRKeyring.restore(serialized, createHandler(device, '00000000-0000-4000-8000-000000000000').handler);
+    expect(await restored.getAccounts()).toEqual([account]);
+    await expect(restored.signMessage(account.address, 'replay')).rejects.toThrow(DeviceError);
+    
+    // 다른 시드의 디바이스가 서명한 응답
+    const other = await QRKeyring.restore(serialized, createHandler(createDevice('legal winner thank year wave sausage worth useful legal winner thank yellow')).handler);
+    await expect(other.signMessage(account.address, 'hello')).rejects.toThrow(SignatureError);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * @file typedData.test.ts
+ * @description EIP-712 타입화된 데이터 분석 모듈 테스트
+ */
+
+import {
+  parseTypedData,
+  toEIP712Domain,
+  inspectTypedData,
+  TypedDataKind,
+  TypedDataRiskType,
+  PERMIT2_ADDRESS
+} from '../../src/crypto/typedData';
+import { ValidationError } from '../../src/utils/errors';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+const SPENDER = '0x2222222222222222222222222222222222222222';
+const TOKEN = '0x3333333333333333333333333333333333333333';
+const MAX_UINT256 = (2n ** 256n - 1n).toString();
+const MAX_UINT160 = (2n ** 160n - 1n).toString();
+
+// 기준 시각: 2024-01-01T00:00:00Z
+const NOW = 1704067200 * 1000;
+const NOW_SECONDS = NOW / 1000;
+
+const EIP712_DOMAIN = [
+  { name: 'name', type: 'string' },
+  { name: 'version', type: 'string' },
+  { name: 'chainId', type: 'uint256' },
+  { name: 'verifyingContract', type: 'address' }
+];
+
+function createPermit(value: string, deadline: number, chainId: number = 1) {
+  return {
+    types: {
+      EIP712Domain: EIP712_DOMAIN,
+      Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' }
+      ]
+    },
+    primaryType: 'Permit',
+    domain: { name: 'Token', version: '1', chainId, verifyingContract: TOKEN },
+    message: { owner: OWNER, spender: SPENDER, value, nonce: 0, deadline }
+  };
+}
+
+describe('Typed Data Module', () => {
+  describe('parseTypedData', () => {
+    it('should parse a JSON string', () => {
+      const permit = createPermit('1000', NOW_SECONDS + 3600);
+      const parsed = parseTypedData(JSON.stringify(permit));
+      
+      expect(parsed.primaryType).toBe('Permit');
+      expect(parsed.message.spender).toBe(SPENDER);
+    });
+    
+    it('should reject a primaryType missing from types', () => {
+      const permit = { ...createPermit('1000', NOW_SECONDS), primaryType: 'Missing' };
+      expect(() => parseTypedData(permit)).toThrow(ValidationError);
+    });
+    
+    it('should reject a message that does not match its types', () => {
+      const permit = createPermit('1000', NOW_SECONDS);
+      permit.message.spender = 'not-an-address';
+      expect(() => parseTypedData(permit)).toThrow(ValidationError);
+    });
+  });
+  
+  describe('toEIP712Domain', () => {
+    it('should convert a string chainId and keep missing fields out of the domain', () => {
+      // Permit2 도메인에는 version이 없음
+      const domain = toEIP712Domain({ name: 'Permit2', chainId: '0x3e8', verifyingContract: PERMIT2_ADDRESS });
+      
+      expect(domain).toEqual({ name: 'Permit2', chainId: 1000, verifyingContract: PERMIT2_ADDRESS });
+      expect('version' in domain).toBe(false);
+    });
+    
+    it('should reject an invalid chainId', () => {
+      expect(() => toEIP712Domain({ name: 'Token', chainId: 'mainnet' })).toThrow(ValidationError);
+    });
+  });
+  
+  describe('inspectTypedData', () => {
+    it('should extract an EIP-2612 permit approval', () => {
+      const inspection = inspectTypedData(parseTypedData(createPermit('1000', NOW_SECONDS + 3600)), 1, NOW);
+      
+      expect(inspection.kind).toBe(TypedDataKind.PERMIT);
+      expect(inspection.chainIdMatches).toBe(true);
+      expect(inspection.approvals).toEqual([
+        { token: TOKEN, spender: SPENDER, amount: '1000', unlimited: false, deadline: NOW_SECONDS + 3600 }
+      ]);
+      
+      const riskTypes = inspection.risks.map(risk => risk.type);
+      expect(riskTypes).toContain(TypedDataRiskType.GASLESS_APPROVAL);
+      expect(riskTypes).not.toContain(TypedDataRiskType.UNLIMITED_APPROVAL);
+    });
+    
+    it('should flag unlimited permits with long deadlines', () => {
+      const inspection = inspectTypedData(parseTypedData(createPermit(MAX_UINT256, Number.MAX_SAFE_INTEGER)), 1, NOW);
+      const riskTypes = inspection.risks.map(risk => risk.type);
+      
+      expect(inspection.approvals[0].unlimited).toBe(true);
+      expect(riskTypes).toContain(TypedDataRiskType.UNLIMITED_APPROVAL);
+      expect(riskTypes).toContain(TypedDataRiskType.LONG_DEADLINE);
+    });
+    
+    it('should flag a domain chainId that does not match the active chain', () => {
+      const inspection = inspectTypedData(parseTypedData(createPermit('1000', NOW_SECONDS + 3600, 137)), 1, NOW);
+      
+      expect(inspection.chainId).toBe(137);
+      expect(inspection.chainIdMatches).toBe(false);
+      expect(inspection.risks.map(risk => risk.type)).toContain(TypedDataRiskType.CHAIN_MISMATCH);
+    });
+    
+    it('should recognise Permit2 PermitSingle', () => {
+      const typedData = parseTypedData({
+        types: {
+          EIP712Domain: [
+            { name: 'name', type: 'string' },
+            { name: 'chainId', type: 'uint256' },
+            { name: 'verifyingContract', type: 'address' }
+          ],
+          PermitDetails: [
+            { name: 'token', type: 'address' },
+            { name: 'amount', type: 'uint160' },
+            { name: 'expiration', type: 'uint48' },
+            { name: 'nonce', type: 'uint48' }
+          ],
+          PermitSingle: [
+            { name: 'details', type: 'PermitDetails' },
+            { name: 'spender', type: 'address' },
+            { name: 'sigDeadline', type: 'uint256' }
+          ]
+        },
+        primaryType: 'PermitSingle',
+        domain: { name: 'Permit2', chainId: '0x1', verifyingContract: PERMIT2_ADDRESS },
+        message: {
+          details: { token: TOKEN, amount: MAX_UINT160, expiration: NOW_SECONDS + 600, nonce: 0 },
+          spender: SPENDER,
+          sigDeadline: NOW_SECONDS + 600
+        }
+      });
+      
+      const inspection = inspectTypedData(typedData, 1, NOW);
+      
+      expect(inspection.kind).toBe(TypedDataKind.PERMIT2_ALLOWANCE);
+      expect(inspection.chainIdMatches).toBe(true);
+      expect(inspection.approvals).toEqual([
+        { token: TOKEN, spender: SPENDER, amount: MAX_UINT160, unlimited: true, deadline: NOW_SECONDS + 600 }
+      ]);
+    });
+    
+    it('should flag Seaport orders that give assets away for free', () => {
+      const typedData = parseTypedData({
+        types: {
+          EIP712Domain: EIP712_DOMAIN,
+          OrderComponents: [
+            { name: 'offerer', type: 'address' },
+            { name: 'offer', type: 'OfferItem[]' },
+            { name: 'consideration', type: 'ConsiderationItem[]' },
+            { name: 'endTime', type: 'uint256' }
+          ],
+          OfferItem: [
+            { name: 'itemType', type: 'uint8' },
+            { name: 'token', type: 'address' },
+            { name: 'identifierOrCriteria', type: 'uint256' },
+            { name: 'startAmount', type: 'uint256' },
+            { name: 'endAmount', type: 'uint256' }
+          ],
+          ConsiderationItem: [
+            { name: 'itemType', type: 'uint8' },
+            { name: 'token', type: 'address' },
+            { name: 'identifierOrCriteria', type: 'uint256' },
+            { name: 'startAmount', type: 'uint256' },
+            { name: 'endAmount', type: 'uint256' },
+            { name: 'recipient', type: 'address' }
+          ]
+        },
+        primaryType: 'OrderComponents',
+        domain: { name: 'Seaport', version: '1.5', chainId: 1, verifyingContract: TOKEN },
+        message: {
+          offerer: OWNER,
+          offer: [{ itemType: 2, token: TOKEN, identifierOrCriteria: 1, startAmount: 1, endAmount: 1 }],
+          consideration: [{ itemType: 0, token: OWNER, identifierOrCriteria: 0, startAmount: 0, endAmount: 0, recipient: OWNER }],
+          endTime: NOW_SECONDS + 3600
+        }
+      });
+      
+      const inspection = inspectTypedData(typedData, 1, NOW);
+      const riskTypes = inspection.risks.map(risk => risk.type);
+      
+      expect(inspection.kind).toBe(TypedDataKind.SEAPORT_ORDER);
+      expect(riskTypes).toContain(TypedDataRiskType.MARKETPLACE_ORDER);
+      expect(riskTypes).toContain(TypedDataRiskType.FREE_ORDER);
+    });
+    
+    it('should not report risks for unrelated typed data', () => {
+      const typedData = parseTypedData({
+        types: {
+          EIP712Domain: EIP712_DOMAIN,
+          Mail: [{ name: 'contents', type: 'string' }]
+        },
+        primaryType: 'Mail',
+        domain: { name: 'Mail', version: '1', chainId: 1, verifyingContract: TOKEN },
+        message: { contents: 'Hello' }
+      });
+      
+      const inspection = inspectTypedData(typedData, 1, NOW);
+      
+      expect(inspection.kind).toBe(TypedDataKind.UNKNOWN);
+      expect(inspection.approvals).toEqual([]);
+      expect(inspection.risks).toEqual([]);
+    });
+  });
+});
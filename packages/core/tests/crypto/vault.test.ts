@@ -0,0 +1,121 @@
+/**
+ * @file vault.test.ts
+ * @description 인증 암호화 볼트 형식, 변조 감지, 이전 형식 마이그레이션, KDF 보정 테스트
+ */
+
+import {
+  VaultEnvelope,
+  VaultKdfAlgorithm,
+  VaultKdfParams,
+  calibrateVaultKdf,
+  decryptVault,
+  encryptVault,
+  isVaultEnvelope,
+  unlockVault
+} from '../../src/crypto/vault';
+import { encrypt, simpleEncrypt } from '../../src/crypto/encryption';
+import { CryptoError, ValidationError } from '../../src/utils/errors';
+
+// 테스트 속도를 위한 낮은 비용의 KDF 파라미터
+const FAST_SCRYPT: VaultKdfParams = { algorithm: VaultKdfAlgorithm.SCRYPT, N: 2 ** 10, r: 8, p: 1 };
+const FAST_ARGON2ID: VaultKdfParams = { algorithm: VaultKdfAlgorithm.ARGON2ID, m: 1024, t: 1, p: 1 };
+const SECRET = JSON.stringify({ mnemonic: 'test test test test test test test test test test test junk' });
+
+/**
+ * 봉투의 일부 필드를 바꿔 다시 직렬화
+ */
+function tamper(envelope: string, change: (parsed: VaultEnvelope) => void): string {
+  const parsed = JSON.parse(envelope);
+  change(parsed);
+  return JSON.stringify(parsed);
+}
+
+/**
+ * hex 문자열의 첫 바이트 비트 반전
+ */
+function flipFirstByte(hex: string): string {
+  return (parseInt(hex.slice(0, 2), 16) ^ 0x01).toString(16).padStart(2, '0') + hex.slice(2);
+}
+
+describe('Vault', () => {
+  it('should round-trip data with scrypt and argon2id and record the KDF header', async () => {
+    for (const kdf of [FAST_SCRYPT, FAST_ARGON2ID]) {
+      const envelope = await encryptVault(SECRET, 'password', kdf);
+      const parsed: VaultEnvelope = JSON.parse(envelope);
+      
+      expect(isVaultEnvelope(envelope)).toBe(true);
+      expect(parsed.version).toBe(1);
+      expect(parsed.cipher.algorithm).toBe('aes-256-gcm');
+      expect(parsed.kdf).toMatchObject(kdf);
+      expect(envelope).not.toContain('junk');
+      await expect(decryptVault(envelope, 'password')).resolves.toBe(SECRET);
+    }
+  });
+  
+  it('should reject a wrong password', async () => {
+    const envelope = await encryptVault(SECRET, 'password', FAST_SCRYPT);
+    await expect(decryptVault(envelope, 'wrong')).rejects.toThrow(CryptoError);
+  });
+  
+  it('should reject tampered ciphertext, tag and header', async () => {
+    const envelope = await encryptVault(SECRET, 'password', FAST_SCRYPT);
+    
+    const tampered = [
+      tamper(envelope, parsed => { parsed.ciphertext = flipFirstByte(parsed.ciphertext); }),
+      tamper(envelope, parsed => { parsed.tag = flipFirstByte(parsed.tag); }),
+      tamper(envelope, parsed => { parsed.cipher.iv = flipFirstByte(parsed.cipher.iv); }),
+      tamper(envelope, parsed => { (parsed.kdf as any).r = 4; })
+    ];
+    
+    for (const candidate of tampered) {
+      await expect(decryptVault(candidate, 'password')).rejects.toThrow(CryptoError);
+    }
+  });
+  
+  it('should refuse headers outside the allowed KDF range', async () => {
+    const envelope = await encryptVault(SECRET, 'password', FAST_SCRYPT);
+    
+    await expect(decryptVault(tamper(envelope, parsed => { (parsed.kdf as any).N = 2 ** 30; }), 'password'))
+      .rejects.toThrow(ValidationError);
+    await expect(decryptVault(tamper(envelope, parsed => { parsed.version = 2; }), 'password'))
+      .rejects.toThrow(ValidationError);
+    await expect(encryptVault(SECRET, 'password', { ...FAST_SCRYPT, N: 1000 } as VaultKdfParams))
+      .rejects.toThrow(ValidationError);
+  });
+  
+  it('should migrate legacy CryptoJS blobs on unlock', async () => {
+    for (const legacy of [encrypt(SECRET, 'password'), simpleEncrypt(SECRET, 'password')]) {
+      expect(isVaultEnvelope(legacy)).toBe(false);
+      
+      const result = await unlockVault(legacy, 'password', FAST_SCRYPT);
+      expect(result.data).toBe(SECRET);
+      expect(isVaultEnvelope(result.upgradedEnvelope!)).toBe(true);
+      await expect(decryptVault(result.upgradedEnvelope!, 'password')).resolves.toBe(SECRET);
+      
+      await expect(unlockVault(legacy, 'wrong', FAST_SCRYPT)).rejects.toThrow(CryptoError);
+    }
+  });
+  
+  it('should re-encrypt only when the stored KDF is weaker than the target', async () => {
+    const envelope = await encryptVault(SECRET, 'password', FAST_SCRYPT);
+    
+    const same = await unlockVault(envelope, 'password', FAST_SCRYPT);
+    expect(same).toEqual({ data: SECRET });
+    
+    const stronger = { ...FAST_SCRYPT, N: 2 ** 11 } as VaultKdfParams;
+    const upgraded = await unlockVault(envelope, 'password', stronger);
+    expect(upgraded.data).toBe(SECRET);
+    expect(JSON.parse(upgraded.upgradedEnvelope!).kdf.N).toBe(2 ** 11);
+    
+    const switched = await unlockVault(envelope, 'password', FAST_ARGON2ID);
+    expect(JSON.parse(switched.upgradedEnvelope!).kdf.algorithm).toBe(VaultKdfAlgorithm.ARGON2ID);
+  });
+  
+  it('should calibrate KDF cost within the allowed bounds', async () => {
+    const scrypt = await calibrateVaultKdf({ targetMs: 1 });
+    expect(scrypt).toEqual({ algorithm: VaultKdfAlgorithm.SCRYPT, N: 2 ** 14, r: 8, p: 1 });
+    
+    const argon2id = await calibrateVaultKdf({ algorithm: VaultKdfAlgorithm.ARGON2ID, targetMs: 1 });
+    expect(argon2id).toEqual({ algorithm: VaultKdfAlgorithm.ARGON2ID, m: 19456, t: 2, p: 1 });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @file addressPoisoning.test.ts
+ * @description 주소 중독 탐지 모듈 테스트
+ */
+
+import {
+  isLookalikeAddress,
+  getKnownCounterparties,
+  findPoisoningTransfers,
+  detectAddressPoisoning,
+  AddressPoisoningRiskType
+} from '../../src/security/addressPoisoning';
+import {
+  ActivityModel,
+  ActivityType,
+  TransactionActivity,
+  TransactionStatus,
+  TransactionType
+} from '../../src/storage/models/activity.model';
+import { AccountModel, AccountSource, AccountType } from '../../src/storage/models/account.model';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+const FRIEND = '0xa1b2c3d4e5f60718293a4b5c6d7e8f9012345678';
+const FRIEND_LOOKALIKE = '0xa1b2ffffffffffffffffffffffffffffffff5678';
+const SAVINGS = '0xbeef000000000000000000000000000000001234';
+const SAVINGS_LOOKALIKE = '0xbeef999999999999999999999999999999991234';
+const STRANGER = '0x9999999999999999999999999999999999999999';
+
+function createTransfer(
+  id: string,
+  transactionType: TransactionType,
+  counterparty: string,
+  value: string,
+  timestamp: number,
+  status: TransactionStatus = TransactionStatus.CONFIRMED
+): TransactionActivity {
+  const outgoing = transactionType === TransactionType.SEND;
+  return {
+    id,
+    type: ActivityType.TRANSACTION,
+    accountId: 'account-1',
+    chainId: '1000',
+    timestamp,
+    transactionHash: `0x${id.padStart(64, '0')}`,
+    transactionType,
+    status,
+    from: outgoing ? OWNER : counterparty,
+    to: outgoing ? counterparty : OWNER,
+    value
+  };
+}
+
+function createModels() {
+  const activityModel = new ActivityModel([
+    createTransfer('1', TransactionType.SEND, FRIEND, '1000000000000000000', 1000),
+    createTransfer('2', TransactionType.RECEIVE, FRIEND_LOOKALIKE, '0', 2000),
+    createTransfer('3', TransactionType.SEND, STRANGER, '5', 3000, TransactionStatus.FAILED)
+  ]);
+
+  const accountModel = new AccountModel();
+  accountModel.addAccount({
+    id: 'account-2',
+    name: 'Savings',
+    address: SAVINGS,
+    type: AccountType.NORMAL,
+    source: AccountSource.CREATED,
+    createdAt: 0,
+    updatedAt: 0
+  });
+
+  return { activityModel, accountModel };
+}
+
+describe('Address Poisoning Module', () => {
+  describe('isLookalikeAddress', () => {
+    it('should match addresses sharing the first and last characters', () => {
+      expect(isLookalikeAddress(FRIEND_LOOKALIKE, FRIEND)).toBe(true);
+      expect(isLookalikeAddress(FRIEND_LOOKALIKE.toUpperCase().replace('0X', '0x'), FRIEND)).toBe(true);
+    });
+
+    it('should not match identical or unrelated addresses', () => {
+      expect(isLookalikeAddress(FRIEND, FRIEND.toUpperCase().replace('0X', '0x'))).toBe(false);
+      expect(isLookalikeAddress(STRANGER, FRIEND)).toBe(false);
+      expect(isLookalikeAddress('not-an-address', FRIEND)).toBe(false);
+    });
+  });
+
+  describe('getKnownCounterparties', () => {
+    it('should ignore zero-value and failed transfers', () => {
+      const { activityModel, accountModel } = createModels();
+      const addresses = getKnownCounterparties(activityModel, accountModel).map(counterparty => counterparty.address);
+
+      expect(addresses).toEqual(expect.arrayContaining([FRIEND, SAVINGS]));
+      expect(addresses).not.toContain(FRIEND_LOOKALIKE);
+      expect(addresses).not.toContain(STRANGER);
+    });
+  });
+
+  describe('findPoisoningTransfers', () => {
+    it('should flag zero-value transfers from lookalike addresses', () => {
+      const { activityModel, accountModel } = createModels();
+      const warnings = findPoisoningTransfers(activityModel, accountModel);
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].type).toBe(AddressPoisoningRiskType.ZERO_VALUE_TRANSFER);
+      expect(warnings[0].address).toBe(FRIEND_LOOKALIKE);
+      expect(warnings[0].lookalike.address).toBe(FRIEND);
+      expect(warnings[0].transactionHash).toBe(`0x${'2'.padStart(64, '0')}`);
+    });
+  });
+
+  describe('detectAddressPoisoning', () => {
+    it('should warn about a recipient copied from a poisoning transfer', () => {
+      const { activityModel, accountModel } = createModels();
+      const types = detectAddressPoisoning(FRIEND_LOOKALIKE, activityModel, accountModel).map(warning => warning.type);
+
+      expect(types).toEqual([
+        AddressPoisoningRiskType.LOOKALIKE_RECIPIENT,
+        AddressPoisoningRiskType.ZERO_VALUE_TRANSFER
+      ]);
+    });
+
+    it('should warn about a recipient resembling one of my accounts', () => {
+      const { activityModel, accountModel } = createModels();
+      const warnings = detectAddressPoisoning(SAVINGS_LOOKALIKE, activityModel, accountModel);
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].lookalike.source).toBe('account');
+      expect(warnings[0].lookalike.label).toBe('Savings');
+    });
+
+    it('should not warn about known or unrelated recipients', () => {
+      const { activityModel, accountModel } = createModels();
+
+      expect(detectAddressPoisoning(FRIEND, activityModel, accountModel)).toEqual([]);
+      expect(detectAddressPoisoning(STRANGER, activityModel, accountModel)).toEqual([]);
+    });
+  });
+});
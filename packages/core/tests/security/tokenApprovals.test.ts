@@ -0,0 +1,182 @@
+/**
+ * @file tokenApprovals.test.ts
+ * @description 토큰 승인 조회, 위험도 평가, 일괄 취소 트랜잭션 생성 테스트
+ */
+
+import { AbiCoder, Interface, MaxUint256, ZeroAddress, zeroPadValue } from 'ethers';
+import {
+  TokenApprovalKind,
+  TokenApprovalManager,
+  TokenApprovalRiskReason,
+  TokenApprovalTransport
+} from '../../src/security/tokenApprovals';
+import { ERC20_ABI, ERC721_ABI } from '../../src/chain/contracts';
+import { encodeERC20Approve } from '../../src/chain/transactions';
+import { ValidationError } from '../../src/utils/errors';
+
+const OWNER = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const OTHER = '0x1111111111111111111111111111111111111111';
+const TOKEN = '0x2222222222222222222222222222222222222222';
+const COLLECTION = '0x3333333333333333333333333333333333333333';
+const UNKNOWN_CONTRACT = '0x4444444444444444444444444444444444444444';
+const EOA = '0x5555555555555555555555555555555555555555';
+const ROUTER = '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D';
+const SEAPORT = '0x00000000000000ADc04C56Bf30aC9d3c0aAF14dC';
+
+const erc20Interface = new Interface(ERC20_ABI);
+const erc721Interface = new Interface(ERC721_ABI);
+const coder = AbiCoder.defaultAbiCoder();
+const topic = (address: string) => zeroPadValue(address.toLowerCase(), 32);
+const APPROVAL = erc20Interface.getEvent('Approval')!.topicHash;
+const APPROVAL_FOR_ALL = erc721Interface.getEvent('ApprovalForAll')!.topicHash;
+
+/**
+ * 토큰 계약과 승인 로그를 흉내 내는 전송 계층
+ */
+function createTransport() {
+  const allowances: Record<string, bigint> = { [ROUTER]: MaxUint256, [UNKNOWN_CONTRACT]: MaxUint256, [OTHER]: BigInt(0) };
+  const owners: Record<string, string> = { '1': OWNER, '2': OTHER };
+  const operators: Record<string, boolean> = { [SEAPORT]: true, [UNKNOWN_CONTRACT]: false };
+  const contracts = [ROUTER, SEAPORT, UNKNOWN_CONTRACT, TOKEN, COLLECTION].map(address => address.toLowerCase());
+  
+  const logs = [
+    // ERC-20 승인: 라우터와 알 수 없는 계약에 무제한, OTHER 승인은 이후 0으로 변경
+    { address: TOKEN, topics: [APPROVAL, topic(OWNER), topic(ROUTER)], data: coder.encode(['uint256'], [MaxUint256]), blockNumber: '0x2' },
+    { address: TOKEN, topics: [APPROVAL, topic(OWNER), topic(UNKNOWN_CONTRACT)], data: coder.encode(['uint256'], [MaxUint256]), blockNumber: '0x3' },
+    { address: TOKEN, topics: [APPROVAL, topic(OWNER), topic(OTHER)], data: coder.encode(['uint256'], [100]), blockNumber: '0x4' },
+    // ERC-721 개별 승인: 토큰 1은 EOA에 승인, 토큰 2는 이미 전송함
+    { address: COLLECTION, topics: [APPROVAL, topic(OWNER), topic(EOA), zeroPadValue('0x01', 32)], data: '0x', blockNumber: '0x5' },
+    { address: COLLECTION, topics: [APPROVAL, topic(OWNER), topic(EOA), zeroPadValue('0x02', 32)], data: '0x', blockNumber: '0x6' },
+    // 전체 권한: Seaport는 유지, 알 수 없는 계약은 취소함
+    { address: COLLECTION, topics: [APPROVAL_FOR_ALL, topic(OWNER), topic(SEAPORT)], data: coder.encode(['bool'], [true]), blockNumber: '0x7' },
+    { address: COLLECTION, topics: [APPROVAL_FOR_ALL, topic(OWNER), topic(UNKNOWN_CONTRACT)], data: coder.encode(['bool'], [false]), blockNumber: '0x8' }
+  ];
+  
+  const send = jest.fn(async (method: string, params: any[]) => {
+    switch (method) {
+      case 'eth_blockNumber':
+        return '0x10';
+      case 'eth_getLogs': {
+        const { topics } = params[0];
+        return logs.filter(log => topics.every((filter: string | null, i: number) => filter === null || log.topics[i] === filter));
+      }
+      case 'eth_getCode':
+        return contracts.includes(params[0].toLowerCase()) ? '0x6080' : '0x';
+      case 'eth_call': {
+        const { to, data } = params[0];
+        if (to === TOKEN) {
+          const call = erc20Interface.parseTransaction({ data })!;
+          switch (call.name) {
+            case 'allowance':
+              return erc20Interface.encodeFunctionResult('allowance', [allowances[call.args[1]] ?? BigInt(0)]);
+            case 'symbol':
+              return erc20Interface.encodeFunctionResult('symbol', ['TKN']);
+            case 'decimals':
+              return erc20Interface.encodeFunctionResult('decimals', [18]);
+          }
+        }
+        if (to === COLLECTION) {
+          const call = erc721Interface.parseTransaction({ data })!;
+          switch (call.name) {
+            case 'ownerOf':
+              return erc721Interface.encodeFunctionResult('ownerOf', [owners[call.args[0].toString()] || ZeroAddress]);
+            case 'getApproved':
+              return erc721Interface.encodeFunctionResult('getApproved', [EOA]);
+            case 'isApprovedForAll':
+              return erc721Interface.encodeFunctionResult('isApprovedForAll', [operators[call.args[1]] ?? false]);
+            case 'name':
+              return erc721Interface.encodeFunctionResult('name', ['Test Collection']);
+          }
+        }
+        throw Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION' });
+      }
+      default:
+        throw new Error(`Unexpected method ${method}`);
+    }
+  });
+  
+  return { chainId: 1, send } as TokenApprovalTransport & { send: jest.Mock };
+}
+
+describe('TokenApprovalManager', () => {
+  it('should keep only approvals that are still active', async () => {
+    const manager = new TokenApprovalManager();
+    const approvals = await manager.getApprovals(createTransport(), OWNER);
+    
+    const active = approvals.map(approval => `${approval.kind}:${approval.spender}:${approval.tokenId ?? ''}`).sort();
+    expect(active).toEqual([
+      `${TokenApprovalKind.ERC20}:${ROUTER}:`,
+      `${TokenApprovalKind.ERC20}:${UNKNOWN_CONTRACT}:`,
+      `${TokenApprovalKind.NFT_OPERATOR}:${SEAPORT}:`,
+      `${TokenApprovalKind.NFT_TOKEN}:${EOA}:1`
+    ].sort());
+    
+    const router = approvals.find(approval => approval.spender === ROUTER)!;
+    expect(router.tokenSymbol).toBe('TKN');
+    expect(router.tokenDecimals).toBe(18);
+    expect(router.allowance).toBe(MaxUint256.toString());
+    expect(router.blockNumber).toBe(2);
+  });
+  
+  it('should flag unlimited approvals to unverified spenders and approvals to EOAs as high risk', async () => {
+    const manager = new TokenApprovalManager();
+    const approvals = await manager.getApprovals(createTransport(), OWNER);
+    const find = (spender: string) => approvals.find(approval => approval.spender === spender)!;
+    
+    expect(find(UNKNOWN_CONTRACT).risk).toBe('high');
+    expect(find(UNKNOWN_CONTRACT).riskReasons).toEqual([
+      TokenApprovalRiskReason.UNLIMITED,
+      TokenApprovalRiskReason.UNVERIFIED_SPENDER
+    ]);
+    expect(find(EOA).risk).toBe('high');
+    expect(find(EOA).riskReasons).toContain(TokenApprovalRiskReason.EOA_SPENDER);
+    
+    expect(find(ROUTER).risk).toBe('medium');
+    expect(find(ROUTER).spenderLabel).toBe('Uniswap V2 Router');
+    expect(find(SEAPORT).risk).toBe('medium');
+    expect(find(SEAPORT).riskReasons).toEqual([TokenApprovalRiskReason.OPERATOR]);
+    
+    // 위험도가 높은 승인이 먼저
+    expect(approvals.slice(0, 2).every(approval => approval.risk === 'high')).toBe(true);
+  });
+  
+  it('should trust spenders added at runtime', async () => {
+    const manager = new TokenApprovalManager();
+    manager.addKnownSpender(1, UNKNOWN_CONTRACT.toLowerCase(), 'Test DEX');
+    
+    const approvals = await manager.getApprovals(createTransport(), OWNER);
+    const approval = approvals.find(item => item.spender === UNKNOWN_CONTRACT)!;
+    expect(approval.spenderVerified).toBe(true);
+    expect(approval.spenderLabel).toBe('Test DEX');
+    expect(approval.risk).toBe('medium');
+    expect(() => manager.addKnownSpender(1, 'invalid', 'Invalid')).toThrow(ValidationError);
+  });
+  
+  it('should build revoke transactions for each approval kind', async () => {
+    const manager = new TokenApprovalManager();
+    const approvals = await manager.getApprovals(createTransport(), OWNER);
+    const transactions = manager.buildRevokeTransactions([...approvals, approvals[0]]);
+    
+    expect(transactions).toHaveLength(4);
+    const revokeFor = (spender: string) => transactions.find(transaction => transaction.approval.spender === spender)!;
+    
+    expect(revokeFor(ROUTER)).toMatchObject({ from: OWNER, to: TOKEN, value: '0x0', data: encodeERC20Approve(ROUTER, '0') });
+    expect(revokeFor(EOA).to).toBe(COLLECTION);
+    expect(revokeFor(EOA).data).toBe(erc721Interface.encodeFunctionData('approve', [ZeroAddress, 1]));
+    expect(revokeFor(SEAPORT).data).toBe(erc721Interface.encodeFunctionData('setApprovalForAll', [SEAPORT, false]));
+  });
+  
+  it('should scan the requested block range and reject invalid owners', async () => {
+    const manager = new TokenApprovalManager({ maxLogBlockRange: 4 });
+    const transport = createTransport();
+    await manager.getApprovals(transport, OWNER, { fromBlock: 8, toBlock: 15 });
+    
+    const ranges = transport.send.mock.calls
+      .filter(([method]) => method === 'eth_getLogs')
+      .map(([, params]) => `${params[0].fromBlock}-${params[0].toBlock}`);
+    expect(ranges).toEqual(['0x8-0xb', '0x8-0xb', '0xc-0xf', '0xc-0xf']);
+    expect(transport.send).not.toHaveBeenCalledWith('eth_blockNumber', []);
+    
+    await expect(manager.getApprovals(transport, 'invalid')).rejects.toThrow(ValidationError);
+  });
+});
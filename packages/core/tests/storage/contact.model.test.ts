@@ -0,0 +1,139 @@
+/**
+ * @file contact.model.test.ts
+ * @description 주소록 모델, 조회 전용 계정, 수신자 후보, 동기화 연동 테스트
+ */
+
+import { AccountModel, AccountSource, AccountType } from '../../src/storage/models/account.model';
+import {
+  ContactModel,
+  RecipientSource,
+  getRecipientSuggestions
+} from '../../src/storage/models/contact.model';
+import { InMemoryLocalStore } from '../../src/storage/localStore';
+import { InMemorySecureStorage } from '../../src/storage/secureStorage';
+import { GoogleDriveProvider, SYNC_METADATA_KEY, SyncStorage } from '../../src/storage/syncStorage';
+import { AddressType } from '../../src/utils/address';
+import { ValidationError } from '../../src/utils/errors';
+
+const ALICE = '0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed';
+const BOB = '0xfb6916095ca1df60bb79ce92ce3ea74c37c5d359';
+const CAROL = '0xdbf03b407c01e7cd3cbea99509d93f8dddc8c6fb';
+
+describe('ContactModel', () => {
+  it('should add contacts with checksummed per-chain addresses', () => {
+    const model = new ContactModel();
+    const contact = model.addContact({
+      name: ' Alice ',
+      addresses: [
+        { chainId: 1, address: ALICE, label: 'Main' },
+        { chainId: 1, address: ALICE.toUpperCase().replace('0X', '0x') },
+        { chainId: 1001, address: BOB }
+      ],
+      notes: 'Friend'
+    });
+    
+    expect(contact.name).toBe('Alice');
+    expect(contact.addresses).toHaveLength(2);
+    expect(contact.addresses[0].address).toBe('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed');
+    expect(model.findByAddress(BOB, 1001)).toHaveLength(1);
+    expect(model.findByAddress(BOB, 1)).toHaveLength(0);
+  });
+  
+  it('should reject invalid names and addresses', () => {
+    const model = new ContactModel();
+    
+    expect(() => model.addContact({ name: '', addresses: [{ chainId: 1, address: ALICE }] })).toThrow(ValidationError);
+    expect(() => model.addContact({ name: 'Bob', addresses: [] })).toThrow(ValidationError);
+    expect(() => model.addContact({ name: 'Bob', addresses: [{ chainId: 1, address: '0x1234' }] })).toThrow(ValidationError);
+  });
+  
+  it('should search by name, notes and address on a chain', () => {
+    const model = new ContactModel();
+    model.addContact({ name: 'Alice', addresses: [{ chainId: 1, address: ALICE }], notes: 'coffee shop' });
+    model.addContact({ name: 'Bob', addresses: [{ chainId: 1001, address: BOB }], isFavorite: true });
+    
+    expect(model.getAllContacts().map(contact => contact.name)).toEqual(['Bob', 'Alice']);
+    expect(model.search('coffee').map(contact => contact.name)).toEqual(['Alice']);
+    expect(model.search(BOB.slice(0, 8)).map(contact => contact.name)).toEqual(['Bob']);
+    expect(model.search('', 1).map(contact => contact.name)).toEqual(['Alice']);
+  });
+});
+
+describe('AccountModel watch-only accounts', () => {
+  it('should add watch-only accounts that refuse to sign', () => {
+    const model = new AccountModel();
+    const account = model.addWatchOnlyAccount({ address: ALICE, input: 'alice.eth', inputType: AddressType.ENS });
+    
+    expect(account.type).toBe(AccountType.WATCH);
+    expect(account.source).toBe(AccountSource.WATCH_ONLY);
+    expect(account.name).toBe('alice.eth');
+    expect(account.watchSource?.type).toBe(AddressType.ENS);
+    expect(model.isWatchOnly(ALICE.toUpperCase().replace('0X', '0x'))).toBe(true);
+    expect(() => model.assertCanSign(ALICE)).toThrow(ValidationError);
+    expect(() => model.addWatchOnlyAccount({ address: ALICE })).toThrow(ValidationError);
+  });
+});
+
+describe('getRecipientSuggestions', () => {
+  it('should merge accounts, watch-only accounts and contacts for a chain', () => {
+    const accounts = new AccountModel();
+    accounts.addAccount({
+      id: 'own',
+      name: 'Main',
+      address: CAROL,
+      type: AccountType.NORMAL,
+      source: AccountSource.CREATED,
+      createdAt: 1,
+      updatedAt: 1
+    });
+    accounts.addWatchOnlyAccount({ address: ALICE, input: 'alice.eth', inputType: AddressType.ENS });
+    
+    const contacts = new ContactModel();
+    contacts.addContact({ name: 'Alice again', addresses: [{ chainId: 1, address: ALICE }] });
+    contacts.addContact({ name: 'Bob', addresses: [{ chainId: 1, address: BOB }, { chainId: 1001, address: CAROL }] });
+    
+    const suggestions = getRecipientSuggestions(1, contacts, accounts, '', CAROL);
+    expect(suggestions.map(item => [item.name, item.source])).toEqual([
+      ['alice.eth', RecipientSource.WATCH_ONLY],
+      ['Bob', RecipientSource.CONTACT]
+    ]);
+    
+    expect(getRecipientSuggestions(1, contacts, accounts, 'bob').map(item => item.address)).toEqual([
+      '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359'
+    ]);
+  });
+});
+
+describe('persistence and sync', () => {
+  it('should persist models and sync them between devices', async () => {
+    const cloud = new GoogleDriveProvider();
+    const deviceA = new InMemoryLocalStore();
+    const deviceB = new InMemoryLocalStore();
+    
+    const contacts = await ContactModel.load(deviceA);
+    contacts.addContact({ name: 'Alice', addresses: [{ chainId: 1, address: ALICE }] });
+    await contacts.save(deviceA);
+    
+    const accounts = await AccountModel.load(deviceA);
+    accounts.addWatchOnlyAccount({ address: BOB });
+    await accounts.save(deviceA);
+    
+    const syncA = new SyncStorage(cloud, deviceA, new InMemorySecureStorage());
+    const resultA = await syncA.sync();
+    expect(resultA.details?.uploaded).toBe(2);
+    
+    const syncB = new SyncStorage(cloud, deviceB, new InMemorySecureStorage());
+    const resultB = await syncB.sync();
+    expect(resultB.details?.downloaded).toBe(2);
+    
+    const restoredContacts = await ContactModel.load(deviceB);
+    const restoredAccounts = await AccountModel.load(deviceB);
+    expect(restoredContacts.getAllContacts().map(contact => contact.name)).toEqual(['Alice']);
+    expect(restoredAccounts.isWatchOnly(BOB)).toBe(true);
+    
+    // 이미 동기화된 항목은 다시 전송하지 않음
+    const again = await syncB.sync();
+    expect(again.details).toEqual({ uploaded: 0, downloaded: 0, conflicts: 0 });
+    expect(Object.keys(await deviceB.getItem<Record<string, number>>(SYNC_METADATA_KEY, {}))).toHaveLength(2);
+  });
+});
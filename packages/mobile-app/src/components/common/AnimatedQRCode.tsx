@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'react-native-qrcode-svg';
+import { UR, UREncoder } from '@crelink/core';
+
+interface AnimatedQRCodeProps {
+  ur: UR;
+  size?: number;
+  interval?: number;
+  maxFragmentLength?: number;
+  color?: string;
+  backgroundColor?: string;
+}
+
+/**
+ * 애니메이션 QR 코드 컴포넌트
+ * UR을 여러 조각으로 나눠 일정 간격으로 바꿔 가며 표시한다. (에어갭 하드웨어 지갑 서명 요청)
+ */
+const AnimatedQRCode: React.FC<AnimatedQRCodeProps> = ({
+  ur,
+  size = 240,
+  interval = 200,
+  maxFragmentLength = 100,
+  color,
+  backgroundColor,
+}) => {
+  const [part, setPart] = useState('');
+
+  useEffect(() => {
+    const encoder = new UREncoder(ur, maxFragmentLength);
+    setPart(encoder.nextPart().toUpperCase());
+
+    if (encoder.isSinglePart()) {
+      return;
+    }
+
+    const timerId = setInterval(() => setPart(encoder.nextPart().toUpperCase()), interval);
+    return () => clearInterval(timerId);
+  }, [ur, interval, maxFragmentLength]);
+
+  return part ? (
+    <QRCode
+      value={part}
+      size={size}
+      ecl="L"
+      color={color}
+      backgroundColor={backgroundColor}
+    />
+  ) : null;
+};
+
+export default AnimatedQRCode;
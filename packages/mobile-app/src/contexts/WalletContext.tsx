@@ -1,21 +1,81 @@
-import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import React, { createContext, useState, useContext, useEffect, useRef, ReactNode } from 'react';
 import { MMKV } from 'react-native-mmkv';
 import * as SInfo from 'react-native-sensitive-info';
 import { ethers } from 'ethers';
 import { useAuth } from './AuthContext';
 import { useNetwork } from './NetworkContext';
+import {
+  Account,
+  AccountModel,
+  AccountSource,
+  AccountType,
+  Contact,
+  ContactInput,
+  ContactModel,
+  HardwareAccountCandidate,
+  MulticallAggregator,
+  NativeLocalStore,
+  NFTAsset,
+  NFTService,
+  QRKeyring,
+  QRSignRequest,
+  RecipientSuggestion,
+  SerializedQRKeyring,
+  TokenApproval,
+  TokenApprovalManager,
+  TokenRegistry,
+  TokenValidationStatus,
+  URRegistryType,
+  decodeEthSignature,
+  decodeUR,
+  getRecipientSuggestions as buildRecipientSuggestions,
+  postJsonRpcBatch,
+} from '@crelink/core';
+import { nameResolution } from '../hooks/useRecipientResolution';
+import { QRSigner } from '../services/QRSigner';
 import { Token, Transaction, NFT } from '../types/wallet';
 import BigNumber from 'bignumber.js';
 
 // 스토리지 인스턴스
 const storage = new MMKV();
 
+// 주소록과 조회 전용 계정 정보를 저장하는 로컬 스토어 (SyncStorage 동기화 대상)
+const localStore = new NativeLocalStore({
+  getItem: async (key: string) => storage.getString(key) ?? null,
+  setItem: async (key: string, value: string) => storage.set(key, value),
+  removeItem: async (key: string) => storage.delete(key),
+  getAllKeys: async () => storage.getAllKeys(),
+  multiRemove: async (keys: string[]) => keys.forEach(key => storage.delete(key)),
+});
+
+// 토큰 목록과 보유 토큰 탐색에 사용하는 토큰 레지스트리
+const tokenRegistry = new TokenRegistry();
+
+// NFT 탐색과 메타데이터 조회에 사용하는 NFT 서비스 (메타데이터, 이미지 캐시 공유)
+const nftService = new NFTService();
+
+// 토큰 승인 조회와 취소 트랜잭션 생성에 사용하는 승인 관리자
+const tokenApprovalManager = new TokenApprovalManager();
+
+// NFT 탐색 결과 저장 형식
+interface NFTDiscoveryState {
+  toBlock: number;
+  nfts: NFTAsset[];
+}
+
 // 민감한 정보 저장 옵션
 const sensitiveInfoOptions = {
   sharedPreferencesName: 'crelink.wallet',
   keychainService: 'crelink.wallet.keychain',
 };
 
+// QR 하드웨어 지갑 서명 대기 핸들러
+interface QRSignHandlers {
+  requestId: string;
+  resolve: (ur: string) => void;
+  reject: (error: Error) => void;
+}
+
 // 지갑 컨텍스트 타입
 interface WalletContextType {
   isInitializing: boolean;
@@ -25,6 +85,9 @@ interface WalletContextType {
   tokens: Token[];
   transactions: Transaction[];
   nfts: NFT[];
+  watchOnlyAccounts: Account[];
+  contacts: Contact[];
+  pendingQRSignRequest: QRSignRequest | null;
   
   // 지갑 메서드
   createWallet: (pin: string) => Promise<{ address: string; mnemonic: string }>;
@@ -37,10 +100,29 @@ interface WalletContextType {
   refreshNFTs: () => Promise<void>;
   sendTransaction: (to: string, amount: string, gasPrice?: string) => Promise<string>;
   sendToken: (tokenAddress: string, to: string, amount: string, gasPrice?: string) => Promise<string>;
+  sendNFT: (nft: NFT, to: string, amount?: string) => Promise<string>;
+  getTokenApprovals: () => Promise<TokenApproval[]>;
+  revokeTokenApprovals: (approvals: TokenApproval[]) => Promise<string[]>;
   addCustomToken: (address: string, symbol: string, decimals: number, name: string) => Promise<boolean>;
   removeCustomToken: (address: string) => Promise<boolean>;
   exportPrivateKey: (pin: string) => Promise<string>;
   exportMnemonic: (pin: string) => Promise<string>;
+  
+  // 조회 전용 계정과 주소록 메서드
+  isWatchOnly: (address: string) => boolean;
+  addWatchOnlyAccount: (input: string, name?: string) => Promise<string>;
+  removeWatchOnlyAccount: (address: string) => Promise<void>;
+  addContact: (contact: ContactInput) => Promise<Contact>;
+  updateContact: (id: string, updates: Partial<ContactInput>) => Promise<Contact>;
+  deleteContact: (id: string) => Promise<void>;
+  getRecipientSuggestions: (query?: string) => RecipientSuggestion[];
+  
+  // QR 하드웨어 지갑 메서드
+  isQRAccount: (address: string) => boolean;
+  getQRAccountCandidates: (ur: string, start: number, count: number) => Promise<HardwareAccountCandidate[]>;
+  importQRAccounts: (ur: string, indexes: number[]) => Promise<string[]>;
+  submitQRSignature: (ur: string) => void;
+  cancelQRSignRequest: (requestId?: string) => void;
 }
 
 // 기본값으로 컨텍스트 생성
@@ -52,6 +134,9 @@ const WalletContext = createContext<WalletContextType>({
   tokens: [],
   transactions: [],
   nfts: [],
+  watchOnlyAccounts: [],
+  contacts: [],
+  pendingQRSignRequest: null,
   
   createWallet: async () => ({ address: '', mnemonic: '' }),
   importWalletFromMnemonic: async () => '',
@@ -63,10 +148,27 @@ const WalletContext = createContext<WalletContextType>({
   refreshNFTs: async () => {},
   sendTransaction: async () => '',
   sendToken: async () => '',
+  sendNFT: async () => '',
+  getTokenApprovals: async () => [],
+  revokeTokenApprovals: async () => [],
   addCustomToken: async () => false,
   removeCustomToken: async () => false,
   exportPrivateKey: async () => '',
   exportMnemonic: async () => '',
+  
+  isWatchOnly: () => false,
+  addWatchOnlyAccount: async () => '',
+  removeWatchOnlyAccount: async () => {},
+  addContact: async (contact: ContactInput) => ({ id: '', ...contact, createdAt: 0, updatedAt: 0 }),
+  updateContact: async (id: string) => { throw new Error(`Contact not found: ${id}`); },
+  deleteContact: async () => {},
+  getRecipientSuggestions: () => [],
+  
+  isQRAccount: () => false,
+  getQRAccountCandidates: async () => [],
+  importQRAccounts: async () => [],
+  submitQRSignature: () => {},
+  cancelQRSignRequest: () => {},
 });
 
 interface WalletProviderProps {
@@ -87,6 +189,13 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
   const [tokens, setTokens] = useState<Token[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [nfts, setNfts] = useState<NFT[]>([]);
+  const [watchOnlyAccounts, setWatchOnlyAccounts] = useState<Account[]>([]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [pendingQRSignRequest, setPendingQRSignRequest] = useState<QRSignRequest | null>(null);
+  const accountModel = useRef(new AccountModel());
+  const contactModel = useRef(new ContactModel());
+  const qrKeyrings = useRef<QRKeyring[]>([]);
+  const qrSignHandlers = useRef<QRSignHandlers | null>(null);
 
   // 인증 상태가 변경될 때 초기화
   useEffect(() => {
@@ -129,6 +238,19 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
         setTokens(JSON.parse(savedTokensJson));
       }
       
+      // 조회 전용 계정 정보와 주소록 불러오기
+      accountModel.current = await AccountModel.load(localStore);
+      contactModel.current = await ContactModel.load(localStore);
+      setWatchOnlyAccounts(accountModel.current.getWatchOnlyAccounts());
+      setContacts(contactModel.current.getAllContacts());
+      
+      // QR 하드웨어 지갑 키링 복원 (계정 공개키만 저장됨)
+      const savedQRKeyringsJson = await SInfo.getItem('qrKeyrings', sensitiveInfoOptions);
+      const savedQRKeyrings: SerializedQRKeyring[] = savedQRKeyringsJson ? JSON.parse(savedQRKeyringsJson) : [];
+      qrKeyrings.current = await Promise.all(
+        savedQRKeyrings.map(data => QRKeyring.restore(data, requestQRSignature))
+      );
+      
     } catch (error) {
       console.error('Failed to initialize wallet:', error);
     } finally {
@@ -146,6 +268,10 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
     setTokens([]);
     setTransactions([]);
     setNfts([]);
+    setWatchOnlyAccounts([]);
+    setContacts([]);
+    qrKeyrings.current = [];
+    cancelQRSignRequest();
   };
 
   /**
@@ -287,34 +413,96 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
   };
 
   /**
-   * 토큰 새로고침 (데모용 - 실제로는 API 호출 필요)
+   * 보유 토큰 탐색
+   * 지난번 탐색한 블록 이후의 Transfer 로그에서 새로 받은 토큰을 찾는다. 스팸 의심 토큰과 차단된 토큰은 제외한다.
+   * @param knownTokens 이미 추가한 토큰 목록
+   * @returns 새로 찾은 토큰 목록
    */
-  const refreshTokens = async () => {
-    if (!selectedAccount) return;
+  const discoverNewTokens = async (knownTokens: Token[]): Promise<Token[]> => {
+    if (!selectedAccount || !provider) return [];
     
     try {
-      // 데모 데이터 - 실제로는 API에서 가져와야 함
-      const demoTokens: Token[] = [
-        {
-          address: '0x0000000000000000000000000000000000000000',
-          symbol: 'CTA',
-          name: 'Catena Token',
-          decimals: 18,
-          balance: balance.toString(),
-          iconUrl: null,
-        },
-        // 다른 토큰들도 여기에 추가 가능
-      ];
+      const scanKey = `${selectedNetwork.chainId}:${selectedAccount.toLowerCase()}`;
+      const savedBlocksJson = storage.getString('tokenDiscoveryBlocks');
+      const scannedBlocks: Record<string, number> = savedBlocksJson ? JSON.parse(savedBlocksJson) : {};
+      
+      const result = await tokenRegistry.discoverTokens(provider, selectedNetwork.chainId, selectedAccount, {
+        fromBlock: scannedBlocks[scanKey] !== undefined ? scannedBlocks[scanKey] + 1 : undefined,
+      });
       
-      // 커스텀 토큰과 병합
+      scannedBlocks[scanKey] = result.toBlock;
+      storage.set('tokenDiscoveryBlocks', JSON.stringify(scannedBlocks));
+      
+      const known = new Set(knownTokens.map(token => token.address.toLowerCase()));
+      return result.tokens
+        .filter(token => (
+          !known.has(token.address.toLowerCase()) &&
+          (token.validationStatus === TokenValidationStatus.VERIFIED || token.validationStatus === TokenValidationStatus.UNVERIFIED)
+        ))
+        .map(token => ({
+          address: token.address,
+          symbol: token.symbol,
+          name: token.name,
+          decimals: token.decimals,
+          balance: '0',
+          iconUrl: token.logoURI || null,
+          validationStatus: token.validationStatus,
+        }));
+    } catch (error) {
+      // 탐색에 실패해도 잔액 조회는 계속
+      console.error('Failed to discover tokens:', error);
+      return [];
+    }
+  };
+
+  /**
+   * 토큰 새로고침
+   * 새로 받은 토큰을 찾아 추가한 뒤, 네이티브 잔액과 커스텀 토큰 잔액을 Multicall(미배포 체인은 JSON-RPC 배치)로 한 번에 조회
+   */
+  const refreshTokens = async () => {
+    if (!selectedAccount || !provider) return;
+    
+    try {
       const savedTokensJson = storage.getString('tokens');
-      const customTokens = savedTokensJson ? JSON.parse(savedTokensJson) : [];
+      const savedTokens: Token[] = (savedTokensJson ? JSON.parse(savedTokensJson) : []).filter(
+        (token: Token) => token.address !== ethers.ZeroAddress
+      );
+      
+      const discoveredTokens = await discoverNewTokens(savedTokens);
+      const customTokens = [...savedTokens, ...discoveredTokens];
+      if (discoveredTokens.length > 0) {
+        storage.set('tokens', JSON.stringify(customTokens));
+      }
+      
+      const multicall = new MulticallAggregator({
+        chainId: selectedNetwork.chainId,
+        send: (method, params) => provider.send(method, params),
+        sendBatch: (requests) => postJsonRpcBatch(selectedNetwork.rpcUrl, requests),
+      });
+      
+      const [nativeBalance, tokenBalances] = await Promise.all([
+        multicall.getBalance(selectedAccount),
+        multicall.getTokenBalances(selectedAccount, customTokens.map(token => token.address)),
+      ]);
+      
+      const nativeToken: Token = {
+        address: ethers.ZeroAddress,
+        symbol: selectedNetwork.symbol,
+        name: selectedNetwork.name,
+        decimals: 18,
+        balance: ethers.formatEther(nativeBalance),
+        iconUrl: null,
+      };
       
-      const mergedTokens = [...demoTokens, ...customTokens.filter(
-        (token: Token) => !demoTokens.some(t => t.address === token.address)
-      )];
+      // 잔액 조회에 실패한 토큰은 이전 잔액 유지
+      const updatedTokens = customTokens.map(token => (
+        tokenBalances[token.address] !== undefined
+          ? { ...token, balance: ethers.formatUnits(tokenBalances[token.address], token.decimals) }
+          : token
+      ));
       
-      setTokens(mergedTokens);
+      setBalance(new BigNumber(nativeToken.balance));
+      setTokens([nativeToken, ...updatedTokens]);
     } catch (error) {
       console.error('Failed to refresh tokens:', error);
     }
@@ -360,33 +548,75 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
   };
 
   /**
-   * NFT 새로고침 (데모용 - 실제로는 API 호출 필요)
+   * NFT 새로고침
+   * 지난번 탐색한 블록 이후의 Transfer 로그로 받은 NFT를 추가하고 보낸 NFT를 제거한 뒤 메타데이터를 조회한다.
    */
   const refreshNFTs = async () => {
-    if (!selectedAccount) return;
+    if (!selectedAccount || !provider) return;
     
     try {
-      // 데모 데이터 - 실제로는 API에서 가져와야 함
-      const demoNFTs: NFT[] = [
-        {
-          contractAddress: '0x9876543210987654321098765432109876543210',
-          tokenId: '1',
-          name: 'CreLink Founder',
-          description: 'CreLink Wallet Founder NFT',
-          imageUrl: 'https://via.placeholder.com/500',
-          attributes: [
-            { trait_type: 'Rarity', value: 'Legendary' },
-            { trait_type: 'Type', value: 'Founder' },
-          ],
-        },
+      const transport = {
+        chainId: selectedNetwork.chainId,
+        send: (method: string, params: any[]) => provider.send(method, params),
+      };
+      const scanKey = `${selectedNetwork.chainId}:${selectedAccount.toLowerCase()}`;
+      const savedJson = storage.getString(`nfts_${scanKey}`);
+      const saved: NFTDiscoveryState | null = savedJson ? JSON.parse(savedJson) : null;
+      
+      const result = await nftService.discoverNFTs(transport, selectedAccount, {
+        fromBlock: saved ? saved.toBlock + 1 : undefined,
+      });
+      
+      // 보낸 NFT와 다시 조회한 NFT는 이전 목록에서 제거
+      const changed = new Set(
+        [...result.transferred, ...result.nfts].map(nft => `${nft.contractAddress}:${nft.tokenId}`)
+      );
+      const owned = [
+        ...(saved?.nfts || []).filter(nft => !changed.has(`${nft.contractAddress}:${nft.tokenId}`)),
+        ...result.nfts,
       ];
+      storage.set(`nfts_${scanKey}`, JSON.stringify({ toBlock: result.toBlock, nfts: owned }));
       
-      setNfts(demoNFTs);
+      const withMetadata = await nftService.loadMetadata(transport, owned);
+      setNfts(withMetadata.map(nft => ({
+        id: `${nft.contractAddress}:${nft.tokenId}`,
+        contractAddress: nft.contractAddress,
+        tokenId: nft.tokenId,
+        standard: nft.standard,
+        balance: nft.balance,
+        collection: nft.collectionName,
+        name: nft.metadata?.name || `${nft.collectionName || 'NFT'} #${nft.tokenId}`,
+        description: nft.metadata?.description || '',
+        imageUrl: nft.imageUrl || '',
+        attributes: (nft.metadata?.attributes || []).map(attribute => ({
+          trait_type: attribute.trait_type || '',
+          value: attribute.value,
+        })),
+      })));
     } catch (error) {
       console.error('Failed to refresh NFTs:', error);
     }
   };
 
+  /**
+   * 계정의 서명자 생성
+   * QR 하드웨어 지갑 계정은 QR로 서명을 주고받는 서명자를, 그 밖의 계정은 개인키 지갑을 반환한다.
+   */
+  const getSigner = async (address: string): Promise<ethers.Signer> => {
+    const keyring = await findQRKeyringByAccount(address);
+    if (keyring) {
+      return new QRSigner(keyring, address, provider);
+    }
+    
+    // 개인키 가져오기
+    const privateKey = await SInfo.getItem(`privateKey_${address}`, sensitiveInfoOptions);
+    if (!privateKey) {
+      throw new Error('Private key not found');
+    }
+    
+    return new ethers.Wallet(privateKey, provider);
+  };
+
   /**
    * 트랜잭션 전송
    */
@@ -395,15 +625,12 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
       throw new Error('Wallet or provider not initialized');
     }
     
+    // 조회 전용 계정은 서명 거부
+    accountModel.current.assertCanSign(selectedAccount);
+    
     try {
-      // 개인키 가져오기
-      const privateKey = await SInfo.getItem(`privateKey_${selectedAccount}`, sensitiveInfoOptions);
-      if (!privateKey) {
-        throw new Error('Private key not found');
-      }
-      
-      // 지갑 인스턴스 생성
-      const wallet = new ethers.Wallet(privateKey, provider);
+      // 서명자 생성
+      const wallet = await getSigner(selectedAccount);
       
       // 트랜잭션 생성 및 전송
       const tx = await wallet.sendTransaction({
@@ -434,20 +661,17 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
       throw new Error('Wallet or provider not initialized');
     }
     
+    // 조회 전용 계정은 서명 거부
+    accountModel.current.assertCanSign(selectedAccount);
+    
     try {
       // 네이티브 토큰이면 일반 전송 사용
       if (tokenAddress === '0x0000000000000000000000000000000000000000') {
         return sendTransaction(to, amount, gasPrice);
       }
       
-      // 개인키 가져오기
-      const privateKey = await SInfo.getItem(`privateKey_${selectedAccount}`, sensitiveInfoOptions);
-      if (!privateKey) {
-        throw new Error('Private key not found');
-      }
-      
-      // 지갑 인스턴스 생성
-      const wallet = new ethers.Wallet(privateKey, provider);
+      // 서명자 생성
+      const wallet = await getSigner(selectedAccount);
       
       // 토큰 계약 ABI
       const erc20Abi = [
@@ -484,8 +708,108 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
     }
   };
 
+  /**
+   * NFT 전송 (safeTransferFrom)
+   * @param nft 전송할 NFT
+   * @param to 받는 주소
+   * @param amount 전송 수량 (ERC-1155만 사용)
+   */
+  const sendNFT = async (nft: NFT, to: string, amount: string = '1'): Promise<string> => {
+    if (!selectedAccount || !provider) {
+      throw new Error('Wallet or provider not initialized');
+    }
+    
+    // 조회 전용 계정은 서명 거부
+    accountModel.current.assertCanSign(selectedAccount);
+    
+    try {
+      const transaction = nftService.buildTransferTransaction(nft, selectedAccount, to, amount);
+      
+      // 서명자 생성
+      const wallet = await getSigner(selectedAccount);
+      
+      // 트랜잭션 전송
+      const tx = await wallet.sendTransaction({
+        to: transaction.to,
+        data: transaction.data,
+      });
+      
+      // 트랜잭션이 완료될 때까지 대기
+      await tx.wait();
+      
+      // NFT 목록 새로고침
+      await refreshNFTs();
+      
+      return tx.hash;
+    } catch (error) {
+      console.error('Failed to send NFT:', error);
+      throw error;
+    }
+  };
+
+  /**
+   * 토큰 승인 목록 조회
+   * Approval/ApprovalForAll 로그로 승인 내역을 찾고 현재도 유효한 승인만 위험도 순으로 반환한다.
+   */
+  const getTokenApprovals = async (): Promise<TokenApproval[]> => {
+    if (!selectedAccount || !provider) {
+      throw new Error('Wallet or provider not initialized');
+    }
+    
+    return tokenApprovalManager.getApprovals({
+      chainId: selectedNetwork.chainId,
+      send: (method: string, params: any[]) => provider.send(method, params),
+    }, selectedAccount);
+  };
+
+  /**
+   * 토큰 승인 일괄 취소
+   * @param approvals 취소할 승인 목록
+   * @returns 전송한 트랜잭션 해시 목록
+   */
+  const revokeTokenApprovals = async (approvals: TokenApproval[]): Promise<string[]> => {
+    if (!selectedAccount || !provider) {
+      throw new Error('Wallet or provider not initialized');
+    }
+    
+    // 조회 전용 계정은 서명 거부
+    accountModel.current.assertCanSign(selectedAccount);
+    
+    try {
+      const transactions = tokenApprovalManager.buildRevokeTransactions(
+        approvals.filter(approval =>
+          approval.chainId === selectedNetwork.chainId &&
+          approval.owner.toLowerCase() === selectedAccount.toLowerCase()
+        )
+      );
+      
+      // 서명자 생성
+      const wallet = await getSigner(selectedAccount);
+      
+      // 논스를 직접 증가시키며 연속 전송
+      let nonce = await provider.getTransactionCount(selectedAccount, 'pending');
+      const sent: ethers.TransactionResponse[] = [];
+      for (const transaction of transactions) {
+        sent.push(await wallet.sendTransaction({
+          to: transaction.to,
+          data: transaction.data,
+          nonce: nonce++,
+        }));
+      }
+      
+      // 모든 트랜잭션이 완료될 때까지 대기
+      await Promise.all(sent.map(tx => tx.wait()));
+      
+      return sent.map(tx => tx.hash);
+    } catch (error) {
+      console.error('Failed to revoke token approvals:', error);
+      throw error;
+    }
+  };
+
   /**
    * 커스텀 토큰 추가
+   * 토큰 계약이 아니거나 차단된 토큰은 추가하지 않는다.
    */
   const addCustomToken = async (address: string, symbol: string, decimals: number, name: string): Promise<boolean> => {
     try {
@@ -495,6 +819,12 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
         return false;
       }
       
+      // 토큰 목록 등재 여부와 스팸 여부 확인
+      const validated = provider ? await tokenRegistry.validateToken(provider, selectedNetwork.chainId, address) : null;
+      if (validated?.validationStatus === TokenValidationStatus.BLOCKED) {
+        return false;
+      }
+      
       // 새 토큰 생성
       const newToken: Token = {
         address,
@@ -502,7 +832,8 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
         name,
         decimals,
         balance: '0',
-        iconUrl: null,
+        iconUrl: validated?.logoURI || null,
+        validationStatus: validated?.validationStatus,
       };
       
       // 토큰 목록에 추가
@@ -581,6 +912,287 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
     }
   };
 
+  /**
+   * 조회 전용 계정 여부
+   */
+  const isWatchOnly = (address: string): boolean => accountModel.current.isWatchOnly(address);
+
+  /**
+   * 조회 전용 계정 추가
+   * 주소, ENS 이름, Catena 이름, zkDID를 선택된 네트워크에서 주소로 해석해 계정 목록에 추가한다.
+   * 잔액과 활동 내역은 일반 계정과 같이 조회하지만 서명은 거부한다.
+   */
+  const addWatchOnlyAccount = async (input: string, name?: string): Promise<string> => {
+    try {
+      const resolved = await nameResolution.resolveRecipient(input, {
+        chainId: selectedNetwork.chainId,
+        send: (method, params) => provider!.send(method, params),
+      });
+      
+      if (accounts.some(account => account.toLowerCase() === resolved.address.toLowerCase())) {
+        throw new Error(`Account already exists: ${resolved.address}`);
+      }
+      
+      const account = accountModel.current.addWatchOnlyAccount({
+        address: resolved.address,
+        name: name?.trim() || undefined,
+        input: resolved.name,
+        inputType: resolved.type,
+      });
+      await accountModel.current.save(localStore);
+      setWatchOnlyAccounts(accountModel.current.getWatchOnlyAccounts());
+      
+      // 계정 목록에 추가
+      const newAccounts = [...accounts, account.address];
+      setAccounts(newAccounts);
+      storage.set('accounts', JSON.stringify(newAccounts));
+      
+      return account.address;
+    } catch (error) {
+      console.error('Failed to add watch-only account:', error);
+      throw error;
+    }
+  };
+
+  /**
+   * 조회 전용 계정 제거
+   */
+  const removeWatchOnlyAccount = async (address: string): Promise<void> => {
+    const account = accountModel.current.getAccountByAddress(address);
+    if (!account || !accountModel.current.isWatchOnly(address)) {
+      throw new Error(`Watch-only account not found: ${address}`);
+    }
+    
+    accountModel.current.deleteAccount(account.id);
+    await accountModel.current.save(localStore);
+    setWatchOnlyAccounts(accountModel.current.getWatchOnlyAccounts());
+    
+    const newAccounts = accounts.filter(item => item.toLowerCase() !== address.toLowerCase());
+    setAccounts(newAccounts);
+    storage.set('accounts', JSON.stringify(newAccounts));
+    
+    if (selectedAccount?.toLowerCase() === address.toLowerCase()) {
+      const nextAccount = newAccounts[0] || null;
+      setSelectedAccount(nextAccount);
+      if (nextAccount) {
+        storage.set('selectedAccount', nextAccount);
+      } else {
+        storage.delete('selectedAccount');
+      }
+    }
+  };
+
+  /**
+   * 연락처 추가
+   */
+  const addContact = async (contact: ContactInput): Promise<Contact> => {
+    const added = contactModel.current.addContact(contact);
+    await contactModel.current.save(localStore);
+    setContacts(contactModel.current.getAllContacts());
+    return added;
+  };
+
+  /**
+   * 연락처 수정
+   */
+  const updateContact = async (id: string, updates: Partial<ContactInput>): Promise<Contact> => {
+    const updated = contactModel.current.updateContact(id, updates);
+    await contactModel.current.save(localStore);
+    setContacts(contactModel.current.getAllContacts());
+    return updated;
+  };
+
+  /**
+   * 연락처 삭제
+   */
+  const deleteContact = async (id: string): Promise<void> => {
+    if (contactModel.current.deleteContact(id)) {
+      await contactModel.current.save(localStore);
+      setContacts(contactModel.current.getAllContacts());
+    }
+  };
+
+  /**
+   * 송금 화면의 수신자 후보
+   * 내 계정(Account N), 조회 전용 계정, 선택된 네트워크 주소가 있는 연락처를 검색한다.
+   */
+  const getRecipientSuggestions = (query: string = ''): RecipientSuggestion[] => {
+    const recipientAccounts = new AccountModel();
+    accounts.forEach((address, index) => {
+      const watchOnly = accountModel.current.getAccountByAddress(address);
+      recipientAccounts.addAccount(watchOnly || {
+        id: address.toLowerCase(),
+        name: `Account ${index + 1}`,
+        address,
+        type: AccountType.NORMAL,
+        source: AccountSource.CREATED,
+        index,
+        createdAt: 0,
+        updatedAt: 0,
+      });
+    });
+    
+    return buildRecipientSuggestions(
+      selectedNetwork.chainId,
+      contactModel.current,
+      recipientAccounts,
+      query,
+      selectedAccount || undefined
+    );
+  };
+
+  /**
+   * QR 하드웨어 지갑 계정이 속한 키링 조회
+   */
+  const findQRKeyringByAccount = async (address: string): Promise<QRKeyring | null> => {
+    for (const keyring of qrKeyrings.current) {
+      if (await keyring.getAccount(address)) {
+        return keyring;
+      }
+    }
+    return null;
+  };
+
+  /**
+   * QR 하드웨어 지갑 계정 여부
+   */
+  const isQRAccount = (address: string): boolean =>
+    qrKeyrings.current.some(keyring => keyring.serialize().accounts.some(
+      account => account.address.toLowerCase() === address.toLowerCase()
+    ));
+
+  /**
+   * crypto-hdkey UR과 같은 디바이스의 QR 키링 조회 (없으면 저장하지 않은 새 키링 생성)
+   * @param ur 디바이스가 내보낸 crypto-hdkey UR
+   */
+  const findQRKeyring = async (ur: string): Promise<QRKeyring> => {
+    const keyring = await QRKeyring.fromUR(ur, requestQRSignature, selectedNetwork.chainId);
+    const deviceId = keyring.getDeviceInfo()?.deviceId;
+    
+    return qrKeyrings.current.find(item => item.getDeviceInfo()?.deviceId === deviceId) || keyring;
+  };
+
+  /**
+   * QR 하드웨어 지갑의 계정 후보 조회
+   * @param ur 디바이스가 내보낸 crypto-hdkey UR
+   * @param start 시작 인덱스
+   * @param count 조회할 개수
+   */
+  const getQRAccountCandidates = async (ur: string, start: number, count: number): Promise<HardwareAccountCandidate[]> => {
+    const keyring = await findQRKeyring(ur);
+    const candidates = await keyring.getCandidates(start, count);
+    
+    return candidates.map(candidate => ({
+      ...candidate,
+      added: accounts.some(account => account.toLowerCase() === candidate.address.toLowerCase()),
+    }));
+  };
+
+  /**
+   * QR 하드웨어 지갑 계정 가져오기
+   * 같은 디바이스의 키링이 이미 있으면 그 키링에 계정을 추가한다.
+   * @param ur 디바이스가 내보낸 crypto-hdkey UR
+   * @param indexes 가져올 주소 인덱스 목록
+   * @returns 추가한 계정 주소 목록
+   */
+  const importQRAccounts = async (ur: string, indexes: number[]): Promise<string[]> => {
+    try {
+      const keyring = await findQRKeyring(ur);
+      const candidates = await Promise.all(indexes.map(index => keyring.getCandidates(index, 1)));
+      
+      const added: string[] = [];
+      for (const [candidate] of candidates) {
+        if (accounts.some(account => account.toLowerCase() === candidate.address.toLowerCase())) {
+          continue;
+        }
+        const account = await keyring.addAccount({ index: candidate.index });
+        added.push(account.address);
+      }
+      
+      if (added.length === 0) {
+        throw new Error('Accounts already exist');
+      }
+      
+      // 키링 보안 저장 (새 디바이스면 목록에 추가)
+      if (!qrKeyrings.current.includes(keyring)) {
+        qrKeyrings.current = [...qrKeyrings.current, keyring];
+      }
+      await SInfo.setItem(
+        'qrKeyrings',
+        JSON.stringify(qrKeyrings.current.map(item => item.serialize())),
+        sensitiveInfoOptions
+      );
+      
+      // 계정 목록에 추가
+      const newAccounts = [...accounts, ...added];
+      setAccounts(newAccounts);
+      storage.set('accounts', JSON.stringify(newAccounts));
+      
+      // 선택된 계정으로 설정
+      setSelectedAccount(added[0]);
+      storage.set('selectedAccount', added[0]);
+      
+      return added;
+    } catch (error) {
+      console.error('Failed to import QR accounts:', error);
+      throw error;
+    }
+  };
+
+  /**
+   * QR 키링의 서명 요청 처리
+   * 서명 화면이 요청 QR을 보여 주고 디바이스의 서명 QR을 스캔할 때까지 기다린다.
+   * @param request 키링의 서명 요청
+   * @returns 스캔한 eth-signature UR
+   */
+  const requestQRSignature = (request: QRSignRequest): Promise<string> => {
+    qrSignHandlers.current?.reject(new Error('QR signature request replaced'));
+    
+    return new Promise<string>((resolve, reject) => {
+      qrSignHandlers.current = { requestId: request.requestId, resolve, reject };
+      setPendingQRSignRequest(request);
+    });
+  };
+
+  /**
+   * 스캔한 서명 QR로 서명 요청 완료
+   * 다른 요청의 서명이면 요청을 유지한 채 오류를 던지므로 서명 화면에서 다시 스캔할 수 있다.
+   * @param ur 스캔한 eth-signature UR
+   */
+  const submitQRSignature = (ur: string) => {
+    if (!qrSignHandlers.current) {
+      throw new Error('No pending QR signature request');
+    }
+    
+    const decoded = decodeUR(ur);
+    if (decoded.type !== URRegistryType.ETH_SIGNATURE) {
+      throw new Error(`Unexpected QR type: ${decoded.type}`);
+    }
+    
+    const signature = decodeEthSignature(decoded);
+    if (signature.requestId && signature.requestId !== qrSignHandlers.current.requestId) {
+      throw new Error('Signature QR does not match the current request');
+    }
+    
+    qrSignHandlers.current.resolve(ur);
+    qrSignHandlers.current = null;
+    setPendingQRSignRequest(null);
+  };
+
+  /**
+   * 서명 요청 취소
+   * @param requestId 취소할 요청 ID (지정하면 현재 요청과 같을 때만 취소)
+   */
+  const cancelQRSignRequest = (requestId?: string) => {
+    if (!qrSignHandlers.current || (requestId && qrSignHandlers.current.requestId !== requestId)) {
+      return;
+    }
+    
+    qrSignHandlers.current.reject(new Error('User rejected the QR signature request'));
+    qrSignHandlers.current = null;
+    setPendingQRSignRequest(null);
+  };
+
   // 컨텍스트 값
   const contextValue: WalletContextType = {
     isInitializing,
@@ -590,6 +1202,9 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
     tokens,
     transactions,
     nfts,
+    watchOnlyAccounts,
+    contacts,
+    pendingQRSignRequest,
     
     createWallet,
     importWalletFromMnemonic,
@@ -601,10 +1216,27 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
     refreshNFTs,
     sendTransaction,
     sendToken,
+    sendNFT,
+    getTokenApprovals,
+    revokeTokenApprovals,
     addCustomToken,
     removeCustomToken,
     exportPrivateKey,
     exportMnemonic,
+    
+    isWatchOnly,
+    addWatchOnlyAccount,
+    removeWatchOnlyAccount,
+    addContact,
+    updateContact,
+    deleteContact,
+    getRecipientSuggestions,
+    
+    isQRAccount,
+    getQRAccountCandidates,
+    importQRAccounts,
+    submitQRSignature,
+    cancelQRSignRequest,
   };
 
   return (
@@ -0,0 +1,70 @@
+import { useMemo } from 'react';
+import {
+  AccountModel,
+  AccountSource,
+  AccountType,
+  ActivityModel,
+  ActivityType,
+  AddressPoisoningWarning,
+  TransactionActivity,
+  TransactionStatus,
+  TransactionType,
+  detectAddressPoisoning,
+} from '@crelink/core';
+import { useWallet } from '../contexts/WalletContext';
+import { Transaction } from '../types/wallet';
+
+// 앱 트랜잭션 상태를 활동 내역 상태로 변환
+const STATUS_MAP: Record<Transaction['status'], TransactionStatus> = {
+  pending: TransactionStatus.PENDING,
+  success: TransactionStatus.CONFIRMED,
+  failed: TransactionStatus.FAILED,
+};
+
+/**
+ * 수신 주소의 주소 중독 위험을 확인하는 훅
+ * 지갑의 트랜잭션 내역과 계정 목록을 활동 내역 모델로 변환해 닮은꼴 주소를 찾는다.
+ * @param recipient 수신 주소
+ * @returns 경고 목록 (비어 있으면 안전)
+ */
+export const useAddressPoisoning = (recipient: string): AddressPoisoningWarning[] => {
+  const { accounts, transactions } = useWallet();
+
+  return useMemo(() => {
+    const ownAddresses = accounts.map(address => address.toLowerCase());
+
+    const activities: TransactionActivity[] = transactions.map(tx => {
+      const outgoing = ownAddresses.includes(tx.from.toLowerCase());
+      return {
+        id: tx.hash,
+        type: ActivityType.TRANSACTION,
+        accountId: (outgoing ? tx.from : tx.to).toLowerCase(),
+        chainId: '',
+        timestamp: tx.timestamp,
+        transactionHash: tx.hash,
+        transactionType: outgoing ? TransactionType.SEND : TransactionType.RECEIVE,
+        status: STATUS_MAP[tx.status],
+        from: tx.from,
+        to: tx.to,
+        value: tx.value,
+        tokenAddress: tx.tokenAddress,
+      };
+    });
+
+    const accountModel = new AccountModel();
+    accounts.forEach((address, index) => {
+      accountModel.addAccount({
+        id: address.toLowerCase(),
+        name: `Account ${index + 1}`,
+        address,
+        type: AccountType.NORMAL,
+        source: AccountSource.CREATED,
+        index,
+        createdAt: 0,
+        updatedAt: 0,
+      });
+    });
+
+    return detectAddressPoisoning(recipient.trim(), new ActivityModel(activities), accountModel);
+  }, [recipient, accounts, transactions]);
+};
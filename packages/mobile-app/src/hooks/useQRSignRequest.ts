@@ -0,0 +1,19 @@
+import { useEffect } from 'react';
+import { useNavigation } from '@react-navigation/native';
+import { MainScreenNavigationProp } from '../navigation/types';
+import { useWallet } from '../contexts/WalletContext';
+
+/**
+ * QR 하드웨어 지갑 서명 요청 훅
+ * 서명을 시작하는 화면에서 사용하며, 하드웨어 지갑 계정의 서명 요청이 생기면 QR 서명 화면으로 이동한다.
+ */
+export const useQRSignRequest = () => {
+  const navigation = useNavigation<MainScreenNavigationProp<'QRSign'>>();
+  const { pendingQRSignRequest } = useWallet();
+
+  useEffect(() => {
+    if (pendingQRSignRequest) {
+      navigation.navigate('QRSign');
+    }
+  }, [pendingQRSignRequest?.requestId]);
+};
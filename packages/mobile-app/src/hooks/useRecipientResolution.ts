@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import {
+  AddressType,
+  CatenaNameResolver,
+  EnsNameResolver,
+  NameResolutionService,
+  ResolvedName,
+  ZkDIDManager,
+  ZkDIDNameResolver,
+  getAddressType,
+} from '@crelink/core';
+import { useNetwork } from '../contexts/NetworkContext';
+
+// zkDID 서버 API URL
+const ZKDID_API_URL = 'https://api.crelink.io';
+
+// 화면이 바뀌어도 해석 결과 캐시를 공유하도록 앱 전체에서 하나만 사용 (조회 전용 계정 추가에도 사용)
+export const nameResolution = new NameResolutionService([
+  new EnsNameResolver(),
+  new CatenaNameResolver(),
+  new ZkDIDNameResolver(new ZkDIDManager(ZKDID_API_URL)),
+]);
+
+export interface RecipientResolution {
+  resolved: ResolvedName | null;
+  isResolving: boolean;
+  error: string | null;
+}
+
+/**
+ * 수신자 입력을 주소로 해석하는 훅
+ * 16진수 주소, ENS 이름(name.eth), Catena 이름(name.cta), zkDID, zkDID 별칭(@name.creata)을 선택된 네트워크에서 해석한다.
+ * @param recipient 수신자 입력
+ * @returns 해석 결과와 진행 상태
+ */
+export const useRecipientResolution = (recipient: string): RecipientResolution => {
+  const { selectedNetwork, provider } = useNetwork();
+  const [resolution, setResolution] = useState<RecipientResolution>({ resolved: null, isResolving: false, error: null });
+
+  useEffect(() => {
+    let cancelled = false;
+    const input = recipient.trim();
+    const type = getAddressType(input.toLowerCase());
+
+    if (!input || type === AddressType.UNKNOWN || (type !== AddressType.HEX && !provider)) {
+      setResolution({ resolved: null, isResolving: false, error: null });
+      return;
+    }
+
+    setResolution({ resolved: null, isResolving: true, error: null });
+
+    // 이름은 입력이 끝난 뒤 해석
+    const timer = setTimeout(() => {
+      nameResolution
+        .resolveRecipient(input, {
+          chainId: selectedNetwork.chainId,
+          send: (method, params) => provider!.send(method, params),
+        })
+        .then(resolved => {
+          if (!cancelled) {
+            setResolution({ resolved, isResolving: false, error: null });
+          }
+        })
+        .catch(error => {
+          if (!cancelled) {
+            setResolution({ resolved: null, isResolving: false, error: error.message });
+          }
+        });
+    }, type === AddressType.HEX ? 0 : 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [recipient, selectedNetwork, provider]);
+
+  return resolution;
+};
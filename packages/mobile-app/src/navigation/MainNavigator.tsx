@@ -27,6 +27,10 @@ import BackupWalletScreen from '../screens/Settings/BackupWalletScreen';
 import ExportPrivateKeyScreen from '../screens/Settings/ExportPrivateKeyScreen';
 import ExportMnemonicScreen from '../screens/Settings/ExportMnemonicScreen';
 import AddTokenScreen from '../screens/Wallet/AddTokenScreen';
+import TokenApprovalsScreen from '../screens/Wallet/TokenApprovalsScreen';
+import QRSignScreen from '../screens/Wallet/QRSignScreen';
+import QRScannerScreen from '../screens/Transaction/QRScannerScreen';
+import ConnectHardwareScreen from '../screens/Settings/ConnectHardwareScreen';
 
 // 아이콘 컴포넌트
 import TabBarIcon from '../components/common/TabBarIcon';
@@ -56,6 +60,7 @@ export type MainStackParamList = {
   ExportPrivateKey: undefined;
   ExportMnemonic: undefined;
   AddToken: undefined;
+  TokenApprovals: undefined;
 };
 
 // 탭 파라미터 타입
@@ -170,6 +175,10 @@ const MainNavigator: React.FC = () => {
       <Stack.Screen name="ExportPrivateKey" component={ExportPrivateKeyScreen} />
       <Stack.Screen name="ExportMnemonic" component={ExportMnemonicScreen} />
       <Stack.Screen name="AddToken" component={AddTokenScreen} />
+      <Stack.Screen name="TokenApprovals" component={TokenApprovalsScreen} />
+      <Stack.Screen name="QRScanner" component={QRScannerScreen} />
+      <Stack.Screen name="QRSign" component={QRSignScreen} />
+      <Stack.Screen name="ConnectHardware" component={ConnectHardwareScreen} />
     </Stack.Navigator>
   );
 };
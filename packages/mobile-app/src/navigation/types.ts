@@ -25,8 +25,12 @@ export type MainStackParamList = {
   TransactionHistory: undefined;
   TransactionDetail: { txId: string };
   Scan: undefined;
+  QRScanner: { onScan: (data: string) => void; expectedType?: string };
+  QRSign: undefined;
+  ConnectHardware: undefined;
   Settings: undefined;
   Security: undefined;
+  TokenApprovals: undefined;
   BiometricSetup: undefined;
   LanguageSettings: undefined;
   NetworkSettings: undefined;
@@ -0,0 +1,313 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { HardwareAccountCandidate, URRegistryType } from '@crelink/core';
+import { MainScreenNavigationProp } from '../../navigation/types';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useWallet } from '../../contexts/WalletContext';
+import { colors } from '../../constants/theme';
+import { useTranslation } from 'react-i18next';
+import Icon from 'react-native-vector-icons/Ionicons';
+
+// 한 페이지에 표시할 계정 후보 수
+const PAGE_SIZE = 5;
+
+// 주소 축약
+const shortenAddress = (address: string): string => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * 하드웨어 지갑 연결 화면
+ * Keystone 등 에어갭 하드웨어 지갑이 내보낸 계정 QR(crypto-hdkey)을 스캔해 계정을 가져오는 화면
+ */
+const ConnectHardwareScreen: React.FC = () => {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const navigation = useNavigation<MainScreenNavigationProp<'ConnectHardware'>>();
+  const { getQRAccountCandidates, importQRAccounts } = useWallet();
+
+  const [ur, setUr] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<HardwareAccountCandidate[]>([]);
+  const [selectedIndexes, setSelectedIndexes] = useState<number[]>([]);
+  const [page, setPage] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const currentStyles = styles(theme);
+
+  /**
+   * 계정 후보 페이지 조회
+   */
+  const loadCandidates = async (accountUr: string, nextPage: number) => {
+    setIsLoading(true);
+    try {
+      setCandidates(await getQRAccountCandidates(accountUr, nextPage * PAGE_SIZE, PAGE_SIZE));
+      setUr(accountUr);
+      setPage(nextPage);
+    } catch (error) {
+      console.error('Failed to load hardware wallet accounts:', error);
+      Alert.alert(t('settings.hardwareWallet.invalidAccountQR'), (error as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * 계정 QR 스캔
+   */
+  const handleScanAccount = () => {
+    navigation.navigate('QRScanner', {
+      expectedType: URRegistryType.CRYPTO_HDKEY,
+      onScan: (scanned: string) => {
+        setSelectedIndexes([]);
+        loadCandidates(scanned, 0);
+      },
+    });
+  };
+
+  /**
+   * 계정 선택 토글
+   */
+  const toggleIndex = (index: number) => {
+    setSelectedIndexes(prev =>
+      prev.includes(index) ? prev.filter(item => item !== index) : [...prev, index]
+    );
+  };
+
+  /**
+   * 선택한 계정 가져오기
+   */
+  const handleImport = async () => {
+    if (!ur) return;
+
+    setIsLoading(true);
+    try {
+      const added = await importQRAccounts(ur, selectedIndexes);
+      Alert.alert(t('settings.hardwareWallet.importSuccess', { count: added.length }));
+      navigation.goBack();
+    } catch (error) {
+      console.error('Failed to import hardware wallet accounts:', error);
+      Alert.alert(t('settings.hardwareWallet.importFailed'), (error as Error).message);
+      setIsLoading(false);
+    }
+  };
+
+  const renderCandidate = ({ item }: { item: HardwareAccountCandidate }) => {
+    const selected = item.added || selectedIndexes.includes(item.index);
+
+    return (
+      <TouchableOpacity
+        style={[currentStyles.candidateItem, item.added && currentStyles.disabledButton]}
+        onPress={() => toggleIndex(item.index)}
+        disabled={item.added}
+      >
+        <Icon
+          name={selected ? 'checkbox' : 'square-outline'}
+          size={22}
+          color={selected ? colors.primary : colors.gray}
+          style={currentStyles.checkbox}
+        />
+        <Text style={currentStyles.candidateIndex}>{item.index + 1}</Text>
+        <Text style={currentStyles.candidateAddress}>{shortenAddress(item.address)}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={currentStyles.container}>
+      <View style={currentStyles.header}>
+        <TouchableOpacity
+          style={currentStyles.backButton}
+          onPress={() => (ur ? setUr(null) : navigation.goBack())}
+        >
+          <Icon
+            name="arrow-back"
+            size={24}
+            color={theme === 'dark' ? colors.white : colors.black}
+          />
+        </TouchableOpacity>
+        <Text style={currentStyles.headerTitle}>{t('settings.hardwareWallet.title')}</Text>
+        <View style={currentStyles.backButton} />
+      </View>
+
+      {!ur ? (
+        <View style={currentStyles.centered}>
+          {isLoading ? (
+            <ActivityIndicator size="large" color={colors.primary} />
+          ) : (
+            <Icon name="qr-code-outline" size={64} color={colors.primary} />
+          )}
+          <Text style={currentStyles.description}>{t('settings.hardwareWallet.connectInstruction')}</Text>
+          <Text style={currentStyles.help}>{t('settings.hardwareWallet.keyNotice')}</Text>
+          <TouchableOpacity
+            style={[currentStyles.primaryButton, isLoading && currentStyles.disabledButton]}
+            onPress={handleScanAccount}
+            disabled={isLoading}
+          >
+            <Text style={currentStyles.primaryButtonText}>{t('settings.hardwareWallet.scanAccount')}</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <>
+          <FlatList
+            data={candidates}
+            keyExtractor={item => String(item.index)}
+            renderItem={renderCandidate}
+            contentContainerStyle={currentStyles.listContent}
+            ListHeaderComponent={
+              <Text style={currentStyles.sectionTitle}>{t('settings.hardwareWallet.selectAccounts')}</Text>
+            }
+            ListFooterComponent={
+              <View style={currentStyles.pagination}>
+                <TouchableOpacity
+                  onPress={() => loadCandidates(ur, page - 1)}
+                  disabled={page === 0 || isLoading}
+                >
+                  <Text style={[currentStyles.pageButton, (page === 0 || isLoading) && currentStyles.disabledButton]}>
+                    {t('settings.hardwareWallet.previous')}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => loadCandidates(ur, page + 1)}
+                  disabled={isLoading}
+                >
+                  <Text style={[currentStyles.pageButton, isLoading && currentStyles.disabledButton]}>
+                    {t('common.next')}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            }
+          />
+
+          <TouchableOpacity
+            style={[currentStyles.importButton, (selectedIndexes.length === 0 || isLoading) && currentStyles.disabledButton]}
+            onPress={handleImport}
+            disabled={selectedIndexes.length === 0 || isLoading}
+          >
+            {isLoading ? (
+              <ActivityIndicator color={colors.white} />
+            ) : (
+              <Text style={currentStyles.primaryButtonText}>
+                {t('settings.hardwareWallet.importSelected', { count: selectedIndexes.length })}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = (theme: 'light' | 'dark') => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme === 'dark' ? colors.darkBackground : colors.lightBackground,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme === 'dark' ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)',
+  },
+  backButton: {
+    width: 40,
+    padding: 8,
+    borderRadius: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: theme === 'dark' ? colors.white : colors.black,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  description: {
+    fontSize: 16,
+    color: theme === 'dark' ? colors.white : colors.black,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  help: {
+    fontSize: 14,
+    color: theme === 'dark' ? colors.lightGray : colors.darkGray,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  primaryButton: {
+    alignSelf: 'stretch',
+    marginTop: 24,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: colors.primary,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.white,
+  },
+  listContent: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme === 'dark' ? colors.white : colors.black,
+    marginBottom: 8,
+  },
+  candidateItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: theme === 'dark' ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.05)',
+  },
+  checkbox: {
+    marginRight: 12,
+  },
+  candidateIndex: {
+    width: 32,
+    fontSize: 14,
+    color: theme === 'dark' ? colors.lightGray : colors.darkGray,
+  },
+  candidateAddress: {
+    fontSize: 16,
+    color: theme === 'dark' ? colors.white : colors.black,
+  },
+  pagination: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+  },
+  pageButton: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  importButton: {
+    margin: 16,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: colors.primary,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
+
+export default ConnectHardwareScreen;
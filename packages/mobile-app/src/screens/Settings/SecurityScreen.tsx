@@ -229,6 +229,34 @@ const SecurityScreen: React.FC = () => {
         <View style={currentStyles.section}>
           <Text style={currentStyles.sectionTitle}>{t('security.advanced')}</Text>
 
+          <TouchableOpacity
+            style={currentStyles.settingItem}
+            onPress={() => navigation.navigate('TokenApprovals')}
+          >
+            <View style={currentStyles.settingInfo}>
+              <Icon name="shield-checkmark-outline" size={24} color={colors.primary} style={currentStyles.settingIcon} />
+              <View>
+                <Text style={currentStyles.settingTitle}>{t('settings.tokenApprovals.title')}</Text>
+                <Text style={currentStyles.settingDescription}>{t('settings.tokenApprovals.description')}</Text>
+              </View>
+            </View>
+            <Icon name="chevron-forward" size={20} color={colors.darkGray} />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={currentStyles.settingItem}
+            onPress={() => navigation.navigate('ConnectHardware')}
+          >
+            <View style={currentStyles.settingInfo}>
+              <Icon name="hardware-chip-outline" size={24} color={colors.primary} style={currentStyles.settingIcon} />
+              <View>
+                <Text style={currentStyles.settingTitle}>{t('settings.hardwareWallet.title')}</Text>
+                <Text style={currentStyles.settingDescription}>{t('settings.hardwareWallet.description')}</Text>
+              </View>
+            </View>
+            <Icon name="chevron-forward" size={20} color={colors.darkGray} />
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={currentStyles.settingItem}
             onPress={() => {
@@ -0,0 +1,201 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+} from 'react-native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import {
+  Camera,
+  useCameraDevice,
+  useCameraPermission,
+  useCodeScanner,
+} from 'react-native-vision-camera';
+import { URDecoder, encodeUR } from '@crelink/core';
+import { MainScreenNavigationProp, MainScreenRouteProp } from '../../navigation/types';
+import { colors } from '../../constants/theme';
+import { useTranslation } from 'react-i18next';
+import Icon from 'react-native-vector-icons/Ionicons';
+
+/**
+ * QR 스캐너 화면
+ * 카메라로 QR 코드를 스캔해 호출한 화면에 전달한다.
+ * expectedType을 지정하면 (애니메이션) UR QR의 조각을 모두 모은 뒤 단일 UR 문자열로 전달한다.
+ */
+const QRScannerScreen: React.FC = () => {
+  const { t } = useTranslation();
+  const navigation = useNavigation<MainScreenNavigationProp<'QRScanner'>>();
+  const route = useRoute<MainScreenRouteProp<'QRScanner'>>();
+  const { onScan, expectedType } = route.params;
+
+  const device = useCameraDevice('back');
+  const { hasPermission, requestPermission } = useCameraPermission();
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const decoder = useRef(expectedType ? new URDecoder(expectedType) : null);
+  const done = useRef(false);
+
+  useEffect(() => {
+    if (!hasPermission) {
+      requestPermission();
+    }
+  }, [hasPermission]);
+
+  /**
+   * 스캔 완료 (한 번만 전달)
+   */
+  const complete = (data: string) => {
+    done.current = true;
+    navigation.goBack();
+    onScan(data);
+  };
+
+  const codeScanner = useCodeScanner({
+    codeTypes: ['qr'],
+    onCodeScanned: (codes) => {
+      for (const code of codes) {
+        if (done.current || !code.value) continue;
+
+        if (!decoder.current) {
+          complete(code.value);
+          return;
+        }
+
+        try {
+          if (decoder.current.receivePart(code.value)) {
+            setProgress(decoder.current.getProgress());
+            setError(null);
+          }
+          if (decoder.current.isComplete()) {
+            complete(encodeUR(decoder.current.getResult()));
+            return;
+          }
+        } catch (scanError) {
+          setError((scanError as Error).message);
+        }
+      }
+    },
+  });
+
+  const renderCamera = () => {
+    if (!hasPermission) {
+      return <Text style={styles.message}>{t('wallet.scanner.permissionRequired')}</Text>;
+    }
+    if (!device) {
+      return <Text style={styles.message}>{t('wallet.scanner.noCamera')}</Text>;
+    }
+
+    return (
+      <Camera
+        style={StyleSheet.absoluteFill}
+        device={device}
+        isActive
+        codeScanner={codeScanner}
+      />
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Icon name="close" size={24} color={colors.white} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('wallet.scanner.title')}</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <View style={styles.cameraContainer}>
+        {renderCamera()}
+        <View style={styles.frame} />
+      </View>
+
+      <View style={styles.footer}>
+        {progress > 0 && progress < 1 ? (
+          <>
+            <View style={styles.progressTrack}>
+              <View style={[styles.progressBar, { width: `${Math.round(progress * 100)}%` }]} />
+            </View>
+            <Text style={styles.message}>
+              {t('wallet.scanner.receivingParts', { percent: Math.round(progress * 100) })}
+            </Text>
+          </>
+        ) : (
+          <Text style={styles.message}>{t('wallet.scanner.instruction')}</Text>
+        )}
+        {error && <Text style={styles.error}>{error}</Text>}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.black,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  backButton: {
+    width: 40,
+    padding: 8,
+    borderRadius: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.white,
+  },
+  cameraContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  frame: {
+    width: 260,
+    height: 260,
+    borderWidth: 2,
+    borderRadius: 16,
+    borderColor: colors.white,
+  },
+  footer: {
+    padding: 24,
+    alignItems: 'center',
+  },
+  progressTrack: {
+    width: '100%',
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  progressBar: {
+    height: '100%',
+    backgroundColor: colors.primary,
+  },
+  message: {
+    fontSize: 14,
+    color: colors.white,
+    textAlign: 'center',
+  },
+  error: {
+    fontSize: 14,
+    color: colors.error,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
+
+export default QRScannerScreen;
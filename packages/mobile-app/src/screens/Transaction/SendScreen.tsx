@@ -16,11 +16,15 @@ import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { MainStackParamList } from '../../navigation/types';
 import { useWallet } from '../../hooks/useWallet';
+import { useAddressPoisoning } from '../../hooks/useAddressPoisoning';
+import { useRecipientResolution } from '../../hooks/useRecipientResolution';
+import { useQRSignRequest } from '../../hooks/useQRSignRequest';
 import { useTheme } from '../../contexts/ThemeContext';
 import { colors } from '../../constants/theme';
 import { useTranslation } from 'react-i18next';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { Asset } from '../../types/wallet';
+import { AddressPoisoningRiskType, AddressType, RecipientSource, getAddressType } from '@crelink/core';
 
 type SendScreenNavigationProp = StackNavigationProp<MainStackParamList, 'Send'>;
 type SendScreenRouteProp = RouteProp<MainStackParamList, 'Send'>;
@@ -30,7 +34,15 @@ const SendScreen: React.FC = () => {
   const { theme } = useTheme();
   const navigation = useNavigation<SendScreenNavigationProp>();
   const route = useRoute<SendScreenRouteProp>();
-  const { balances, sendTransaction, validateAddress, estimateGas } = useWallet();
+  const {
+    balances,
+    sendTransaction,
+    validateAddress,
+    estimateGas,
+    selectedAccount,
+    isWatchOnly,
+    getRecipientSuggestions,
+  } = useWallet();
 
   const initialAssetId = route.params?.assetId;
   const initialRecipient = route.params?.recipient || '';
@@ -47,22 +59,34 @@ const SendScreen: React.FC = () => {
   const [addressError, setAddressError] = useState('');
   const [amountError, setAmountError] = useState('');
   const [gasEstimated, setGasEstimated] = useState(false);
+  const [showRecipientPicker, setShowRecipientPicker] = useState(false);
+  const recipientResolution = useRecipientResolution(recipient);
+  const recipientAddress = recipientResolution.resolved?.address || '';
+  const recipientWarnings = useAddressPoisoning(recipientAddress);
+  const watchOnlySender = !!selectedAccount && isWatchOnly(selectedAccount);
+  // 입력 중인 값이 주소가 아니면 검색어로 사용
+  const recipientSuggestions = showRecipientPicker
+    ? getRecipientSuggestions(getAddressType(recipient.trim().toLowerCase()) === AddressType.HEX ? '' : recipient)
+    : [];
+
+  // 하드웨어 지갑 계정이면 서명할 때 QR 서명 화면으로 이동
+  useQRSignRequest();
 
   const currentStyles = styles(theme);
 
   useEffect(() => {
-    if (recipient && amount && selectedAsset && validateAddress(recipient) && !addressError) {
+    if (recipientAddress && amount && selectedAsset && !addressError) {
       estimateGasFee();
     }
-  }, [recipient, amount, selectedAsset]);
+  }, [recipientAddress, amount, selectedAsset]);
 
   const estimateGasFee = async () => {
-    if (!recipient || !amount || !selectedAsset) return;
+    if (!recipientAddress || !amount || !selectedAsset) return;
     
     try {
       const { estimatedGasLimit, estimatedGasPrice } = await estimateGas({
         from: '', // Will use active account
-        to: recipient,
+        to: recipientAddress,
         value: amount,
         assetId: selectedAsset.id
       });
@@ -85,7 +109,8 @@ const SendScreen: React.FC = () => {
       return false;
     }
 
-    const isValid = validateAddress(address);
+    // 이름(ENS, Catena, zkDID)은 형식만 확인하고 주소는 useRecipientResolution에서 해석
+    const isValid = validateAddress(address) || getAddressType(address.trim().toLowerCase()) !== AddressType.UNKNOWN;
     if (!isValid) {
       setAddressError(t('transaction.invalidAddress'));
       return false;
@@ -117,10 +142,41 @@ const SendScreen: React.FC = () => {
   };
 
   const handleSend = async () => {
+    if (watchOnlySender) {
+      Alert.alert(t('common.error'), t('wallet.send.watchOnlyCannotSend'));
+      return;
+    }
+
     const isRecipientValid = validateRecipient(recipient);
     const isAmountValid = validateAmount(amount);
 
-    if (!isRecipientValid || !isAmountValid || !selectedAsset) {
+    if (!isRecipientValid || !isAmountValid || !selectedAsset || recipientResolution.isResolving) {
+      return;
+    }
+
+    if (!recipientAddress) {
+      setAddressError(recipientResolution.error || t('wallet.send.nameNotFound'));
+      return;
+    }
+
+    // 주소 중독이 의심되면 한 번 더 확인
+    if (recipientWarnings.length > 0) {
+      Alert.alert(
+        t('wallet.send.poisoningTitle'),
+        t('wallet.send.poisoningConfirm'),
+        [
+          { text: t('common.cancel'), style: 'cancel' },
+          { text: t('wallet.send.sendAnyway'), style: 'destructive', onPress: submitTransaction }
+        ]
+      );
+      return;
+    }
+
+    await submitTransaction();
+  };
+
+  const submitTransaction = async () => {
+    if (!selectedAsset) {
       return;
     }
 
@@ -128,7 +184,7 @@ const SendScreen: React.FC = () => {
 
     try {
       const txHash = await sendTransaction({
-        to: recipient,
+        to: recipientAddress,
         value: amount,
         assetId: selectedAsset.id,
         gasLimit: parseInt(gasLimit, 10),
@@ -143,7 +199,7 @@ const SendScreen: React.FC = () => {
         txHash,
         type: 'send',
         amount,
-        recipient,
+        recipient: recipientAddress,
         assetSymbol: selectedAsset.symbol
       });
     } catch (error) {
@@ -244,8 +300,67 @@ const SendScreen: React.FC = () => {
                 <TouchableOpacity style={currentStyles.scanButton} onPress={handleScanQR}>
                   <Icon name="qr-code" size={20} color={colors.white} />
                 </TouchableOpacity>
+                <TouchableOpacity
+                  style={currentStyles.scanButton}
+                  onPress={() => setShowRecipientPicker(!showRecipientPicker)}
+                  accessibilityLabel={t('wallet.send.addressBook')}
+                >
+                  <Icon name="people" size={20} color={colors.white} />
+                </TouchableOpacity>
               </View>
+              {showRecipientPicker && (
+                <View style={currentStyles.suggestionList}>
+                  {recipientSuggestions.length === 0 ? (
+                    <Text style={currentStyles.resolvedText}>{t('wallet.send.noSuggestions')}</Text>
+                  ) : (
+                    recipientSuggestions.map(suggestion => (
+                      <TouchableOpacity
+                        key={suggestion.address}
+                        style={currentStyles.suggestionItem}
+                        onPress={() => {
+                          setRecipient(suggestion.address);
+                          setAddressError('');
+                          setShowRecipientPicker(false);
+                        }}
+                      >
+                        <View style={currentStyles.suggestionHeader}>
+                          <Text style={currentStyles.suggestionName}>{suggestion.name}</Text>
+                          <Text style={currentStyles.resolvedText}>
+                            {suggestion.source === RecipientSource.CONTACT
+                              ? t('wallet.send.sourceContact')
+                              : suggestion.source === RecipientSource.WATCH_ONLY
+                                ? t('wallet.send.sourceWatchOnly')
+                                : t('wallet.send.sourceAccount')}
+                          </Text>
+                        </View>
+                        {suggestion.label ? <Text style={currentStyles.resolvedText}>{suggestion.label}</Text> : null}
+                        <Text style={currentStyles.resolvedText}>
+                          {`${suggestion.address.slice(0, 10)}...${suggestion.address.slice(-8)}`}
+                        </Text>
+                      </TouchableOpacity>
+                    ))
+                  )}
+                </View>
+              )}
               {addressError ? <Text style={currentStyles.errorText}>{addressError}</Text> : null}
+              {recipientResolution.isResolving ? (
+                <Text style={currentStyles.resolvedText}>{t('wallet.send.resolvingName')}</Text>
+              ) : null}
+              {recipientResolution.resolved && recipientResolution.resolved.type !== AddressType.HEX ? (
+                <Text style={currentStyles.resolvedText}>{recipientResolution.resolved.address}</Text>
+              ) : null}
+              {recipientWarnings.length > 0 && (
+                <View style={currentStyles.warningBox}>
+                  <Text style={currentStyles.warningTitle}>{t('wallet.send.poisoningTitle')}</Text>
+                  {recipientWarnings.map((warning, index) => (
+                    <Text key={index} style={currentStyles.warningText}>
+                      {warning.type === AddressPoisoningRiskType.ZERO_VALUE_TRANSFER
+                        ? t('wallet.send.poisoningZeroValue')
+                        : t('wallet.send.poisoningLookalike', { address: warning.lookalike.address })}
+                    </Text>
+                  ))}
+                </View>
+              )}
             </View>
 
             {/* Amount */}
@@ -439,10 +554,55 @@ const styles = (theme: 'light' | 'dark') => StyleSheet.create({
     fontSize: 12,
     marginTop: 4,
   },
+  resolvedText: {
+    color: theme === 'dark' ? colors.lightGray : colors.gray,
+    fontSize: 12,
+    marginTop: 4,
+  },
+  warningBox: {
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.error,
+    backgroundColor: theme === 'dark' ? 'rgba(239,68,68,0.15)' : 'rgba(239,68,68,0.08)',
+  },
+  warningTitle: {
+    color: colors.error,
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  warningText: {
+    color: colors.error,
+    fontSize: 12,
+    marginTop: 2,
+  },
   addressInput: {
     flexDirection: 'row',
     alignItems: 'center',
   },
+  suggestionList: {
+    marginTop: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: theme === 'dark' ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)',
+  },
+  suggestionItem: {
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme === 'dark' ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.05)',
+  },
+  suggestionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  suggestionName: {
+    color: theme === 'dark' ? colors.white : colors.black,
+    fontSize: 14,
+    fontWeight: '600',
+  },
   scanButton: {
     backgroundColor: colors.primary,
     padding: 12,
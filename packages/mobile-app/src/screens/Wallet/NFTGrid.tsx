@@ -27,7 +27,14 @@ const NFTGrid: React.FC = () => {
       style={currentStyles.nftItem}
       onPress={() => navigation.navigate('NFTDetails', { nftId: item.id })}
     >
-      <Image source={{ uri: item.imageUrl }} style={currentStyles.nftImage} />
+      {item.imageUrl ? (
+        <Image source={{ uri: item.imageUrl }} style={currentStyles.nftImage} />
+      ) : (
+        // 메타데이터에 이미지가 없거나 조회에 실패한 NFT
+        <View style={[currentStyles.nftImage, currentStyles.nftImagePlaceholder]}>
+          <Text style={currentStyles.nftCollection}>#{item.tokenId}</Text>
+        </View>
+      )}
       <View style={currentStyles.nftInfo}>
         <Text style={currentStyles.nftName} numberOfLines={1}>
           {item.name}
@@ -92,6 +99,10 @@ const styles = (theme: 'light' | 'dark') => StyleSheet.create({
     borderTopRightRadius: 12,
     backgroundColor: theme === 'dark' ? colors.darkBackground : colors.lightGray,
   },
+  nftImagePlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   nftInfo: {
     padding: 8,
   },
@@ -0,0 +1,192 @@
+import React, { useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { EthDataType, URRegistryType } from '@crelink/core';
+import { MainScreenNavigationProp } from '../../navigation/types';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useWallet } from '../../contexts/WalletContext';
+import { colors } from '../../constants/theme';
+import { useTranslation } from 'react-i18next';
+import Icon from 'react-native-vector-icons/Ionicons';
+import AnimatedQRCode from '../../components/common/AnimatedQRCode';
+
+// 서명 데이터 종류별 번역 키
+const DATA_TYPE_KEYS: Record<EthDataType, string> = {
+  [EthDataType.TRANSACTION]: 'transaction',
+  [EthDataType.TYPED_TRANSACTION]: 'transaction',
+  [EthDataType.TYPED_DATA]: 'typedData',
+  [EthDataType.PERSONAL_MESSAGE]: 'message',
+};
+
+// 주소 축약
+const shortenAddress = (address: string): string => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * QR 서명 화면
+ * 하드웨어 지갑 계정의 서명 요청을 애니메이션 QR로 보여 주고, 디바이스가 표시한 서명 결과 QR을 스캔해 서명을 완료하는 화면
+ */
+const QRSignScreen: React.FC = () => {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const navigation = useNavigation<MainScreenNavigationProp<'QRSign'>>();
+  const { pendingQRSignRequest, submitQRSignature, cancelQRSignRequest } = useWallet();
+
+  const requestId = useRef(pendingQRSignRequest?.requestId);
+
+  const currentStyles = styles(theme);
+
+  // 요청이 완료되거나 취소되면 이전 화면으로 돌아감
+  useEffect(() => {
+    if (!pendingQRSignRequest) {
+      navigation.goBack();
+    }
+  }, [pendingQRSignRequest]);
+
+  // 서명하지 않고 화면을 벗어나면 요청 취소
+  useEffect(() => () => cancelQRSignRequest(requestId.current), []);
+
+  /**
+   * 서명 결과 QR 스캔
+   */
+  const handleScanSignature = () => {
+    navigation.navigate('QRScanner', {
+      expectedType: URRegistryType.ETH_SIGNATURE,
+      onScan: (ur: string) => {
+        try {
+          submitQRSignature(ur);
+        } catch (error) {
+          Alert.alert(t('settings.hardwareWallet.invalidSignature'), (error as Error).message);
+        }
+      },
+    });
+  };
+
+  if (!pendingQRSignRequest) {
+    return <SafeAreaView style={currentStyles.container} />;
+  }
+
+  return (
+    <SafeAreaView style={currentStyles.container}>
+      <View style={currentStyles.header}>
+        <TouchableOpacity
+          style={currentStyles.backButton}
+          onPress={() => cancelQRSignRequest()}
+        >
+          <Icon
+            name="arrow-back"
+            size={24}
+            color={theme === 'dark' ? colors.white : colors.black}
+          />
+        </TouchableOpacity>
+        <Text style={currentStyles.headerTitle}>{t('settings.hardwareWallet.signTitle')}</Text>
+        <View style={currentStyles.backButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={currentStyles.content}>
+        <Text style={currentStyles.requestType}>
+          {t(`settings.hardwareWallet.dataTypes.${DATA_TYPE_KEYS[pendingQRSignRequest.dataType]}`)}
+          {' · '}
+          {shortenAddress(pendingQRSignRequest.address)}
+        </Text>
+        <Text style={currentStyles.path}>{pendingQRSignRequest.path}</Text>
+
+        <View style={currentStyles.qrContainer}>
+          <AnimatedQRCode ur={pendingQRSignRequest.ur} />
+        </View>
+
+        <Text style={currentStyles.instruction}>{t('settings.hardwareWallet.signInstruction')}</Text>
+      </ScrollView>
+
+      <TouchableOpacity style={currentStyles.primaryButton} onPress={handleScanSignature}>
+        <Text style={currentStyles.primaryButtonText}>{t('settings.hardwareWallet.scanSignature')}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={currentStyles.secondaryButton} onPress={() => cancelQRSignRequest()}>
+        <Text style={currentStyles.secondaryButtonText}>{t('common.cancel')}</Text>
+      </TouchableOpacity>
+    </SafeAreaView>
+  );
+};
+
+const styles = (theme: 'light' | 'dark') => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme === 'dark' ? colors.darkBackground : colors.lightBackground,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme === 'dark' ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)',
+  },
+  backButton: {
+    width: 40,
+    padding: 8,
+    borderRadius: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: theme === 'dark' ? colors.white : colors.black,
+  },
+  content: {
+    padding: 16,
+    alignItems: 'center',
+  },
+  requestType: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: theme === 'dark' ? colors.white : colors.black,
+  },
+  path: {
+    fontSize: 12,
+    color: theme === 'dark' ? colors.lightGray : colors.darkGray,
+    marginTop: 4,
+  },
+  qrContainer: {
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: colors.white,
+    marginVertical: 24,
+  },
+  instruction: {
+    fontSize: 14,
+    color: theme === 'dark' ? colors.lightGray : colors.darkGray,
+    textAlign: 'center',
+  },
+  primaryButton: {
+    marginHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: colors.primary,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.white,
+  },
+  secondaryButton: {
+    margin: 16,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme === 'dark' ? colors.lightGray : colors.darkGray,
+  },
+});
+
+export default QRSignScreen;
@@ -0,0 +1,355 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { ethers } from 'ethers';
+import { TokenApproval, TokenApprovalKind } from '@crelink/core';
+import { MainScreenNavigationProp } from '../../navigation/types';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useWallet } from '../../contexts/WalletContext';
+import { useQRSignRequest } from '../../hooks/useQRSignRequest';
+import { colors } from '../../constants/theme';
+import { useTranslation } from 'react-i18next';
+import Icon from 'react-native-vector-icons/Ionicons';
+
+// 위험도별 색상
+const RISK_COLORS: Record<TokenApproval['risk'], string> = {
+  high: colors.error,
+  medium: colors.warning,
+  low: colors.success,
+};
+
+// 승인 식별 키
+const getApprovalKey = (approval: TokenApproval): string =>
+  `${approval.kind}:${approval.tokenAddress}:${approval.spender}:${approval.tokenId ?? ''}`;
+
+// 주소 축약
+const shortenAddress = (address: string): string => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * 토큰 승인 관리 화면
+ * DApp에 승인한 ERC-20 allowance와 NFT 권한을 위험도 순으로 보여주고 선택한 승인을 일괄 취소하는 화면
+ */
+const TokenApprovalsScreen: React.FC = () => {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const navigation = useNavigation<MainScreenNavigationProp<'TokenApprovals'>>();
+  const { selectedAccount, getTokenApprovals, revokeTokenApprovals } = useWallet();
+
+  const [approvals, setApprovals] = useState<TokenApproval[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [isScanning, setIsScanning] = useState(false);
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  // 하드웨어 지갑 계정이면 서명할 때 QR 서명 화면으로 이동
+  useQRSignRequest();
+
+  const currentStyles = styles(theme);
+
+  /**
+   * 승인 목록 조회 (위험한 승인은 기본 선택)
+   */
+  const loadApprovals = async () => {
+    setIsScanning(true);
+    try {
+      const result = await getTokenApprovals();
+      setApprovals(result);
+      setSelectedKeys(new Set(result.filter(approval => approval.risk === 'high').map(getApprovalKey)));
+    } catch (error) {
+      console.error('Failed to load token approvals:', error);
+      Alert.alert(t('settings.tokenApprovals.loadFailed'));
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedAccount) {
+      loadApprovals();
+    }
+  }, [selectedAccount]);
+
+  /**
+   * 승인 선택 토글
+   */
+  const toggleSelection = (approval: TokenApproval) => {
+    const key = getApprovalKey(approval);
+    const next = new Set(selectedKeys);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setSelectedKeys(next);
+  };
+
+  /**
+   * 선택한 승인 취소
+   */
+  const handleRevoke = () => {
+    const targets = approvals.filter(approval => selectedKeys.has(getApprovalKey(approval)));
+    if (targets.length === 0) return;
+
+    Alert.alert(
+      t('settings.tokenApprovals.title'),
+      t('settings.tokenApprovals.revokeConfirm', { count: targets.length }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.confirm'),
+          style: 'destructive',
+          onPress: async () => {
+            setIsRevoking(true);
+            try {
+              await revokeTokenApprovals(targets);
+              Alert.alert(t('settings.tokenApprovals.revokeSuccess', { count: targets.length }));
+              await loadApprovals();
+            } catch (error) {
+              console.error('Failed to revoke token approvals:', error);
+              Alert.alert(t('settings.tokenApprovals.revokeFailed'), (error as Error).message);
+            } finally {
+              setIsRevoking(false);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  /**
+   * 승인 범위 표시
+   */
+  const formatApprovalAmount = (approval: TokenApproval): string => {
+    switch (approval.kind) {
+      case TokenApprovalKind.NFT_OPERATOR:
+        return t('settings.tokenApprovals.allNFTs');
+      case TokenApprovalKind.NFT_TOKEN:
+        return `#${approval.tokenId}`;
+      default:
+        if (approval.unlimited) {
+          return t('settings.tokenApprovals.unlimited');
+        }
+        return approval.tokenDecimals !== undefined
+          ? `${ethers.formatUnits(approval.allowance || '0', approval.tokenDecimals)} ${approval.tokenSymbol || ''}`
+          : approval.allowance || '0';
+    }
+  };
+
+  const renderApproval = ({ item }: { item: TokenApproval }) => {
+    const selected = selectedKeys.has(getApprovalKey(item));
+
+    return (
+      <TouchableOpacity style={currentStyles.approvalItem} onPress={() => toggleSelection(item)}>
+        <Icon
+          name={selected ? 'checkbox' : 'square-outline'}
+          size={22}
+          color={selected ? colors.primary : colors.gray}
+          style={currentStyles.checkbox}
+        />
+        <View style={currentStyles.approvalInfo}>
+          <View style={currentStyles.approvalHeader}>
+            <Text style={currentStyles.tokenName} numberOfLines={1}>
+              {item.tokenSymbol || shortenAddress(item.tokenAddress)}
+            </Text>
+            <Text style={[currentStyles.riskBadge, { color: RISK_COLORS[item.risk] }]}>
+              {t(`settings.tokenApprovals.risk.${item.risk}`)}
+            </Text>
+          </View>
+          <Text style={currentStyles.spender}>
+            {item.spenderLabel || shortenAddress(item.spender)} · {formatApprovalAmount(item)}
+          </Text>
+          {item.riskReasons.map(reason => (
+            <Text key={reason} style={currentStyles.reason}>
+              • {t(`settings.tokenApprovals.reasons.${reason}`)}
+            </Text>
+          ))}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const highRiskCount = approvals.filter(approval => approval.risk === 'high').length;
+
+  return (
+    <SafeAreaView style={currentStyles.container}>
+      <View style={currentStyles.header}>
+        <TouchableOpacity
+          style={currentStyles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Icon
+            name="arrow-back"
+            size={24}
+            color={theme === 'dark' ? colors.white : colors.black}
+          />
+        </TouchableOpacity>
+        <Text style={currentStyles.headerTitle}>{t('settings.tokenApprovals.title')}</Text>
+        <TouchableOpacity
+          style={currentStyles.backButton}
+          onPress={loadApprovals}
+          disabled={isScanning}
+        >
+          <Icon name="refresh" size={22} color={colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      {isScanning ? (
+        <View style={currentStyles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+          <Text style={currentStyles.emptyDescription}>{t('settings.tokenApprovals.scanning')}</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={approvals}
+          keyExtractor={getApprovalKey}
+          renderItem={renderApproval}
+          contentContainerStyle={currentStyles.listContent}
+          ListHeaderComponent={highRiskCount > 0 ? (
+            <Text style={currentStyles.warning}>
+              {t('settings.tokenApprovals.highRiskWarning', { count: highRiskCount })}
+            </Text>
+          ) : null}
+          ListEmptyComponent={
+            <View style={currentStyles.centered}>
+              <Icon name="shield-checkmark-outline" size={48} color={colors.success} />
+              <Text style={currentStyles.emptyTitle}>{t('settings.tokenApprovals.empty')}</Text>
+              <Text style={currentStyles.emptyDescription}>{t('settings.tokenApprovals.emptyDescription')}</Text>
+            </View>
+          }
+        />
+      )}
+
+      {approvals.length > 0 && (
+        <TouchableOpacity
+          style={[currentStyles.revokeButton, (selectedKeys.size === 0 || isRevoking) && currentStyles.disabledButton]}
+          onPress={handleRevoke}
+          disabled={selectedKeys.size === 0 || isRevoking}
+        >
+          {isRevoking ? (
+            <ActivityIndicator color={colors.white} />
+          ) : (
+            <Text style={currentStyles.revokeButtonText}>
+              {t('settings.tokenApprovals.revokeSelected', { count: selectedKeys.size })}
+            </Text>
+          )}
+        </TouchableOpacity>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = (theme: 'light' | 'dark') => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme === 'dark' ? colors.darkBackground : colors.lightBackground,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme === 'dark' ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)',
+  },
+  backButton: {
+    padding: 8,
+    borderRadius: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: theme === 'dark' ? colors.white : colors.black,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  warning: {
+    fontSize: 14,
+    color: colors.error,
+    marginBottom: 12,
+  },
+  approvalItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: theme === 'dark' ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.05)',
+  },
+  checkbox: {
+    marginRight: 12,
+  },
+  approvalInfo: {
+    flex: 1,
+  },
+  approvalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  tokenName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    color: theme === 'dark' ? colors.white : colors.black,
+  },
+  riskBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  spender: {
+    fontSize: 14,
+    color: theme === 'dark' ? colors.lightGray : colors.darkGray,
+  },
+  reason: {
+    fontSize: 12,
+    color: theme === 'dark' ? colors.lightGray : colors.darkGray,
+    marginTop: 4,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 48,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme === 'dark' ? colors.white : colors.black,
+    marginTop: 12,
+  },
+  emptyDescription: {
+    fontSize: 14,
+    color: theme === 'dark' ? colors.lightGray : colors.darkGray,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  revokeButton: {
+    margin: 16,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: colors.error,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  revokeButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.white,
+  },
+});
+
+export default TokenApprovalsScreen;
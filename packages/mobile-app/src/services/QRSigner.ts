@@ -0,0 +1,71 @@
+import { ethers } from 'ethers';
+import { QRKeyring } from '@crelink/core';
+
+/**
+ * QR 하드웨어 지갑 서명자
+ * 에어갭 하드웨어 지갑 계정을 ethers Signer로 감싸 개인키 지갑과 같은 방식으로 트랜잭션을 전송하게 한다.
+ * 서명할 때마다 키링이 서명 요청 QR을 띄우고 디바이스의 서명 QR을 기다린다.
+ */
+export class QRSigner extends ethers.AbstractSigner {
+  /**
+   * @param keyring 계정이 속한 QR 키링
+   * @param address 서명할 계정 주소
+   * @param provider 트랜잭션 전송에 사용할 프로바이더
+   */
+  constructor(
+    private readonly keyring: QRKeyring,
+    private readonly address: string,
+    provider: ethers.Provider | null = null
+  ) {
+    super(provider);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: ethers.Provider | null): QRSigner {
+    return new QRSigner(this.keyring, this.address, provider);
+  }
+
+  /**
+   * 트랜잭션 서명 (주소 필드는 ENS 이름 등을 해석한 뒤 키링에 전달)
+   */
+  async signTransaction(transaction: ethers.TransactionRequest): Promise<string> {
+    const request = ethers.copyRequest(transaction);
+    const { to, from } = await ethers.resolveProperties({
+      to: request.to ? ethers.resolveAddress(request.to, this.provider) : undefined,
+      from: request.from ? ethers.resolveAddress(request.from, this.provider) : undefined,
+    });
+
+    return this.keyring.signTransaction(this.address, {
+      ...request,
+      to,
+      from,
+    } as ethers.TransactionLike<string>);
+  }
+
+  /**
+   * 개인 메시지 서명 (문자열은 ethers.Wallet과 같이 UTF-8로 인코딩)
+   */
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const bytes = typeof message === 'string' ? ethers.toUtf8Bytes(message) : message;
+    return this.keyring.signMessage(this.address, ethers.hexlify(bytes));
+  }
+
+  /**
+   * EIP-712 타입화된 데이터 서명
+   */
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, Array<ethers.TypedDataField>>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return this.keyring.signTypedData(this.address, {
+      types,
+      primaryType: ethers.TypedDataEncoder.getPrimaryType(types),
+      domain: domain as Record<string, any>,
+      message: value,
+    });
+  }
+}
@@ -1,3 +1,5 @@
+import { NFTStandard, TokenValidationStatus } from '@crelink/core';
+
 /**
  * 토큰 정보 타입
  */
@@ -19,6 +21,9 @@ export interface Token {
   
   /** 토큰 아이콘 URL */
   iconUrl: string | null;
+  
+  /** 토큰 검증 상태 (토큰 목록 등재 여부, 스팸 의심 여부) */
+  validationStatus?: TokenValidationStatus;
 }
 
 /**
@@ -36,12 +41,24 @@ export interface NFTAttribute {
  * NFT 정보 타입
  */
 export interface NFT {
+  /** NFT 식별자 (컨트랙트 주소:토큰 ID) */
+  id: string;
+  
   /** NFT 컨트랙트 주소 */
   contractAddress: string;
   
   /** NFT 토큰 ID */
   tokenId: string;
   
+  /** NFT 표준 (ERC721, ERC1155) */
+  standard: NFTStandard;
+  
+  /** 보유 수량 (ERC-721은 항상 1) */
+  balance: string;
+  
+  /** 컬렉션 이름 */
+  collection?: string;
+  
   /** NFT 이름 */
   name: string;
   
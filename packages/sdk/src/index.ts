@@ -3,6 +3,7 @@ import { AccountMethods, ChainMethods, TransactionMethods, SigningMethods } from
 import { CreLinkEventEmitter } from './events/eventEmitter';
 import { EventType, EventData, Provider, CreLinkOptions, ChainInfo, TransactionParams, AddChainParams } from './types';
 import { validateChainParams, validateTransactionParams, validateTypedData } from './utils/validation';
+import { findCreLinkProvider, getAnnouncedCreLinkProvider, DEFAULT_DISCOVERY_TIMEOUT } from './utils/discovery';
 
 /**
  * CreLink SDK 메인 클래스
@@ -76,10 +77,24 @@ export class CreLink {
   /**
    * CreLink 지갑 설치 여부 확인
    * 
+   * window.crelink 또는 이미 받은 EIP-6963 알림으로 확인합니다.
+   * 
    * @returns 설치 여부
    */
   public isInstalled(): boolean {
-    return typeof window !== 'undefined' && !!window.crelink;
+    return typeof window !== 'undefined' && (!!window.crelink || !!getAnnouncedCreLinkProvider());
+  }
+
+  /**
+   * EIP-6963 검색으로 CreLink 지갑 설치 여부 확인
+   * 
+   * 확장 프로그램의 스크립트가 아직 주입되지 않았을 수 있는 페이지 로드 직후에 사용합니다.
+   * 
+   * @param timeout 검색 대기 시간 (밀리초)
+   * @returns 설치 여부
+   */
+  public static async detect(timeout: number = DEFAULT_DISCOVERY_TIMEOUT): Promise<boolean> {
+    return !!(await findCreLinkProvider(timeout));
   }
 
   /**
@@ -278,5 +293,8 @@ export class CreLink {
   }
 }
 
+// EIP-6963 검색 유틸리티 내보내기
+export { CRELINK_RDNS, requestProviders, findCreLinkProvider } from './utils/discovery';
+
 // 타입 내보내기
 export * from './types';
@@ -10,12 +10,15 @@ import {
   SwitchChainParams,
   AddChainParams,
   RPCResponse,
+  InjectedProvider,
 } from '../types';
+import { findCreLinkProvider, getAnnouncedCreLinkProvider, DEFAULT_DISCOVERY_TIMEOUT } from '../utils/discovery';
 
 /**
  * CreLink 프로바이더 구현
  * 
- * window.crelink 객체와 통신하여 CreLink 지갑 기능을 제공하는 프로바이더 구현
+ * window.crelink 객체 또는 EIP-6963으로 검색한 CreLink 지갑과 통신하여
+ * CreLink 지갑 기능을 제공하는 프로바이더 구현
  */
 export class CreLinkProvider extends EventEmitter implements ICreLinkProvider {
   public isCreLink = true;
@@ -23,28 +26,61 @@ export class CreLinkProvider extends EventEmitter implements ICreLinkProvider {
   public chainId?: string;
   public networkVersion?: string;
   private _initialized = false;
+  private _injected?: InjectedProvider;
 
   /**
    * CreLink 프로바이더 생성자
+   * 
+   * @param injected 사용할 지갑 프로바이더 (생략 시 window.crelink 또는 EIP-6963 검색 결과 사용)
    */
-  constructor() {
+  constructor(injected?: InjectedProvider) {
     super();
+    this._injected = injected;
     this._initialize();
   }
 
+  /**
+   * EIP-6963 검색으로 CreLink 프로바이더 생성
+   * 
+   * @param timeout 검색 대기 시간 (밀리초)
+   * @returns CreLink 프로바이더 또는 null (지갑을 찾지 못한 경우)
+   */
+  public static async discover(timeout: number = DEFAULT_DISCOVERY_TIMEOUT): Promise<CreLinkProvider | null> {
+    const injected = await findCreLinkProvider(timeout);
+    return injected ? new CreLinkProvider(injected) : null;
+  }
+
+  /**
+   * 통신할 지갑 프로바이더 조회
+   */
+  private _getInjectedProvider(): InjectedProvider | undefined {
+    if (this._injected) {
+      return this._injected;
+    }
+
+    if (typeof window !== 'undefined' && window.crelink) {
+      return window.crelink;
+    }
+
+    return getAnnouncedCreLinkProvider();
+  }
+
   /**
    * 프로바이더 초기화
    */
   private async _initialize(): Promise<void> {
-    // window.crelink 객체가 있는지 확인
-    if (typeof window === 'undefined' || !window.crelink) {
+    // window.crelink가 아직 주입되지 않았으면 EIP-6963 검색으로 찾기
+    const injected = this._getInjectedProvider() || await findCreLinkProvider();
+    if (!injected) {
       const error = this._createError('CreLink wallet not installed', ErrorCode.RESOURCE_UNAVAILABLE);
       this.emit(EventType.DISCONNECT, error);
       throw error;
     }
 
+    this._injected = injected;
+
     // 이벤트 리스너 설정
-    this._setupEventListeners();
+    this._setupEventListeners(injected);
     
     try {
       // 초기 체인 ID와 계정 정보 가져오기
@@ -65,10 +101,8 @@ export class CreLinkProvider extends EventEmitter implements ICreLinkProvider {
   /**
    * 이벤트 리스너 설정
    */
-  private _setupEventListeners(): void {
-    if (typeof window === 'undefined' || !window.crelink) return;
-
-    window.crelink.on(EventType.ACCOUNTS_CHANGED, (accounts: string[]) => {
+  private _setupEventListeners(injected: InjectedProvider): void {
+    injected.on(EventType.ACCOUNTS_CHANGED, (accounts: string[]) => {
       if (accounts.length === 0) {
         // 연결 해제 처리
         const error = this._createError('The user disconnected', ErrorCode.DISCONNECTED);
@@ -79,24 +113,24 @@ export class CreLinkProvider extends EventEmitter implements ICreLinkProvider {
       }
     });
 
-    window.crelink.on(EventType.CHAIN_CHANGED, (chainId: string) => {
+    injected.on(EventType.CHAIN_CHANGED, (chainId: string) => {
       if (this.chainId !== chainId) {
         this.chainId = chainId;
         this.emit(EventType.CHAIN_CHANGED, chainId);
       }
     });
 
-    window.crelink.on(EventType.DISCONNECT, (error: ProviderRpcError) => {
+    injected.on(EventType.DISCONNECT, (error: ProviderRpcError) => {
       this.selectedAddress = undefined;
       this.emit(EventType.DISCONNECT, error);
     });
 
-    window.crelink.on(EventType.CONNECT, (connectInfo: { chainId: string }) => {
+    injected.on(EventType.CONNECT, (connectInfo: { chainId: string }) => {
       this.chainId = connectInfo.chainId;
       this.emit(EventType.CONNECT, connectInfo);
     });
 
-    window.crelink.on(EventType.MESSAGE, (message: any) => {
+    injected.on(EventType.MESSAGE, (message: any) => {
       this.emit(EventType.MESSAGE, message);
     });
   }
@@ -124,12 +158,13 @@ export class CreLinkProvider extends EventEmitter implements ICreLinkProvider {
   public async request<T = any>(args: { method: string; params?: any[] }): Promise<T> {
     const { method, params = [] } = args;
 
-    if (typeof window === 'undefined' || !window.crelink) {
+    const injected = this._getInjectedProvider();
+    if (!injected) {
       throw this._createError('CreLink wallet not installed', ErrorCode.RESOURCE_UNAVAILABLE);
     }
 
     try {
-      const response = await window.crelink.request({ method, params });
+      const response = await injected.request({ method, params });
       return response as T;
     } catch (error: any) {
       // CreLink 지갑의 오류를 적절히 변환
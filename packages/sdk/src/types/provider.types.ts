@@ -109,3 +109,53 @@ export interface ChainInfo {
 export interface AddChainParams extends ChainInfo {
   // ChainInfo 인터페이스 확장
 }
+
+
+/**
+ * EIP-6963 지갑 정보
+ */
+export interface EIP6963ProviderInfo {
+  /**
+   * 페이지 로드마다 생성되는 고유 ID (UUID v4)
+   */
+  uuid: string;
+  
+  /**
+   * 지갑 이름
+   */
+  name: string;
+  
+  /**
+   * 지갑 아이콘 (data URI)
+   */
+  icon: string;
+  
+  /**
+   * 역방향 도메인 식별자 (예: com.creatachain.crelink)
+   */
+  rdns: string;
+}
+
+/**
+ * 주입된 EIP-1193 프로바이더
+ */
+export interface InjectedProvider {
+  request(args: { method: string; params?: any[] }): Promise<any>;
+  on(event: string, listener: (...args: any[]) => void): void;
+  removeListener(event: string, listener: (...args: any[]) => void): void;
+}
+
+/**
+ * EIP-6963 지갑 알림 정보
+ */
+export interface EIP6963ProviderDetail {
+  /**
+   * 지갑 정보
+   */
+  info: EIP6963ProviderInfo;
+  
+  /**
+   * 지갑 프로바이더
+   */
+  provider: InjectedProvider;
+}
\ No newline at end of file
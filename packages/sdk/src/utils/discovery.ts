@@ -0,0 +1,120 @@
+/**
+ * EIP-6963 지갑 검색 유틸리티
+ */
+
+import { EIP6963ProviderDetail, InjectedProvider } from '../types';
+
+/**
+ * CreLink 지갑의 역방향 도메인 식별자
+ */
+export const CRELINK_RDNS = 'com.creatachain.crelink';
+
+/**
+ * 기본 검색 대기 시간 (밀리초)
+ */
+export const DEFAULT_DISCOVERY_TIMEOUT = 500;
+
+// 지금까지 알림을 받은 지갑 목록 (uuid 기준)
+const announcedProviders = new Map<string, EIP6963ProviderDetail>();
+
+/**
+ * 지갑 알림 이벤트 처리
+ * 
+ * @param event eip6963:announceProvider 이벤트
+ */
+function handleAnnouncement(event: Event): void {
+  const detail = (event as CustomEvent<EIP6963ProviderDetail>).detail;
+  if (!detail || !detail.info || !detail.info.uuid || !detail.provider) {
+    return;
+  }
+  
+  announcedProviders.set(detail.info.uuid, detail);
+}
+
+// 모듈 로드 시점부터 알림을 수집해 두어 동기 확인에도 사용
+if (typeof window !== 'undefined') {
+  window.addEventListener('eip6963:announceProvider', handleAnnouncement);
+}
+
+/**
+ * 지금까지 알림을 받은 지갑 목록 조회
+ * 
+ * @returns 지갑 알림 정보 배열
+ */
+export function getAnnouncedProviders(): EIP6963ProviderDetail[] {
+  return Array.from(announcedProviders.values());
+}
+
+/**
+ * 알림을 받은 CreLink 프로바이더 조회 (동기)
+ * 
+ * @returns CreLink 프로바이더 또는 undefined
+ */
+export function getAnnouncedCreLinkProvider(): InjectedProvider | undefined {
+  return getAnnouncedProviders().find(detail => detail.info.rdns === CRELINK_RDNS)?.provider;
+}
+
+/**
+ * 설치된 지갑 검색 (EIP-6963)
+ * 
+ * eip6963:requestProvider 이벤트를 보내고 대기 시간 동안 알림을 수집합니다.
+ * 
+ * @param timeout 대기 시간 (밀리초)
+ * @returns 지갑 알림 정보 배열
+ */
+export function requestProviders(timeout: number = DEFAULT_DISCOVERY_TIMEOUT): Promise<EIP6963ProviderDetail[]> {
+  if (typeof window === 'undefined') {
+    return Promise.resolve([]);
+  }
+  
+  return new Promise(resolve => {
+    window.dispatchEvent(new Event('eip6963:requestProvider'));
+    setTimeout(() => resolve(getAnnouncedProviders()), timeout);
+  });
+}
+
+/**
+ * CreLink 프로바이더 검색
+ * 
+ * 이미 알림을 받았거나 window.crelink가 있으면 바로 반환하고,
+ * 없으면 EIP-6963 검색 결과를 기다립니다.
+ * 
+ * @param timeout 대기 시간 (밀리초)
+ * @returns CreLink 프로바이더 또는 undefined
+ */
+export function findCreLinkProvider(
+  timeout: number = DEFAULT_DISCOVERY_TIMEOUT
+): Promise<InjectedProvider | undefined> {
+  const announced = getAnnouncedCreLinkProvider();
+  if (announced) {
+    return Promise.resolve(announced);
+  }
+  
+  if (typeof window === 'undefined') {
+    return Promise.resolve(undefined);
+  }
+  
+  if (window.crelink) {
+    return Promise.resolve(window.crelink);
+  }
+  
+  return new Promise(resolve => {
+    const finish = (provider: InjectedProvider | undefined) => {
+      clearTimeout(timeoutId);
+      window.removeEventListener('eip6963:announceProvider', onAnnounce);
+      resolve(provider);
+    };
+    
+    // CreLink 알림을 받으면 대기 시간을 기다리지 않고 바로 반환
+    const onAnnounce = () => {
+      const provider = getAnnouncedCreLinkProvider();
+      if (provider) {
+        finish(provider);
+      }
+    };
+    
+    const timeoutId = setTimeout(() => finish(getAnnouncedCreLinkProvider()), timeout);
+    window.addEventListener('eip6963:announceProvider', onAnnounce);
+    window.dispatchEvent(new Event('eip6963:requestProvider'));
+  });
+}
@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import styled from 'styled-components';
 import { useTelegram } from '../hooks/useTelegram';
 import apiService, { NFT } from '../services/api';
+import nftGalleryService from '../services/nft';
 
 const Container = styled.div`
   display: flex;
@@ -345,67 +346,16 @@ const NFTGalleryPage: React.FC = () => {
       }
     });
 
-    // NFT 데이터 불러오기
+    // 지갑 주소의 NFT를 체인에서 직접 조회
     const fetchNFTs = async () => {
       setLoading(true);
       try {
-        const response = await apiService.getNFTs();
-        if (response.success && response.data) {
-          setNfts(response.data);
+        const profile = await apiService.getUserProfile();
+        if (profile.success && profile.data?.walletAddress) {
+          setNfts(await nftGalleryService.getNFTs(profile.data.walletAddress));
         }
       } catch (error) {
         console.error('Error fetching NFTs:', error);
-        // 테스트용 더미 데이터
-        setNfts([
-          {
-            id: '1',
-            tokenId: '1',
-            name: 'Early Adopter',
-            description: 'This NFT represents that you were one of the first to join CreLink ecosystem. It provides extra benefits and rewards for early adopters.',
-            imageUrl: 'https://ipfs.io/ipfs/QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco/1.png',
-            contractAddress: '0x8a90cab2b38dba80c64b7e645f6c8bc6582390cb',
-            contractName: 'CreLink Early Adopters',
-            collectionName: 'CreLink Membership',
-            attributes: [
-              {
-                trait_type: 'Rarity',
-                value: 'Rare'
-              },
-              {
-                trait_type: 'Type',
-                value: 'Membership'
-              },
-              {
-                trait_type: 'Boost',
-                value: '+10% Rewards'
-              }
-            ]
-          },
-          {
-            id: '2',
-            tokenId: '42',
-            name: 'Mission Master',
-            description: 'Awarded to users who completed all the initial missions. This NFT grants access to exclusive events and airdrops.',
-            imageUrl: 'https://ipfs.io/ipfs/QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco/2.png',
-            contractAddress: '0x8a90cab2b38dba80c64b7e645f6c8bc6582390cd',
-            contractName: 'CreLink Achievements',
-            collectionName: 'CreLink Achievements',
-            attributes: [
-              {
-                trait_type: 'Rarity',
-                value: 'Epic'
-              },
-              {
-                trait_type: 'Type',
-                value: 'Achievement'
-              },
-              {
-                trait_type: 'Boost',
-                value: 'Special Mission Access'
-              }
-            ]
-          }
-        ]);
       } finally {
         setLoading(false);
       }
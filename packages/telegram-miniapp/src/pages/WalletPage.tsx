@@ -3,6 +3,18 @@ import { useNavigate } from 'react-router-dom';
 import styled from 'styled-components';
 import { useTelegram } from '../hooks/useTelegram';
 import apiService, { Asset, Transaction } from '../services/api';
+import addressBookService from '../services/contacts';
+import { RecipientSource, RecipientSuggestion } from '@crelink/core';
+
+// 송금에 사용하는 지갑 주소
+const WALLET_ADDRESS = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+
+// 수신자 후보 출처 표시
+const RECIPIENT_SOURCE_LABELS: Record<RecipientSource, string> = {
+  [RecipientSource.ACCOUNT]: 'My account',
+  [RecipientSource.WATCH_ONLY]: 'Watch-only',
+  [RecipientSource.CONTACT]: 'Contact',
+};
 
 const WalletContainer = styled.div`
   display: flex;
@@ -299,6 +311,41 @@ const AssetSelector = styled.select`
   color: var(--text-color, #000000);
 `;
 
+const SuggestionList = styled.div`
+  display: flex;
+  flex-direction: column;
+  border-radius: 8px;
+  border: 1px solid rgba(0, 0, 0, 0.1);
+  overflow: hidden;
+`;
+
+const SuggestionItem = styled.button`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 10px 16px;
+  border: none;
+  border-bottom: 1px solid rgba(0, 0, 0, 0.05);
+  background-color: var(--background-color, #ffffff);
+  color: var(--text-color, #000000);
+  text-align: left;
+  cursor: pointer;
+
+  &:last-child {
+    border-bottom: none;
+  }
+`;
+
+const SuggestionName = styled.div`
+  font-size: 14px;
+  font-weight: 600;
+`;
+
+const SuggestionMeta = styled.div`
+  font-size: 12px;
+  color: var(--hint-color, #999999);
+`;
+
 const SendButton = styled.button`
   background-color: var(--button-color, #3E96FF);
   color: white;
@@ -323,6 +370,7 @@ const WalletPage: React.FC = () => {
   const [sendAddress, setSendAddress] = useState('');
   const [sendAmount, setSendAmount] = useState('');
   const [selectedAsset, setSelectedAsset] = useState('');
+  const [recipientSuggestions, setRecipientSuggestions] = useState<RecipientSuggestion[]>([]);
   
   /**
    * 송금 모달 표시 상태 토글
@@ -414,7 +462,7 @@ const WalletPage: React.FC = () => {
             id: `tx-${Date.now()}`,
             hash: `0x${Math.random().toString(16).substring(2, 66)}`,
             timestamp: Date.now(),
-            from: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+            from: WALLET_ADDRESS,
             to: sendAddress,
             value: sendAmount,
             symbol: selectedAssetData.symbol,
@@ -441,6 +489,30 @@ const WalletPage: React.FC = () => {
     });
   };
 
+  // 주소록과 조회 전용 계정에서 수신자 후보 검색 (주소를 다 입력하면 숨김)
+  useEffect(() => {
+    if (!showingSendModal) {
+      return;
+    }
+    
+    let cancelled = false;
+    const query = /^0x[a-fA-F0-9]{40}$/.test(sendAddress) ? null : sendAddress;
+    if (query === null) {
+      setRecipientSuggestions([]);
+      return;
+    }
+    
+    addressBookService.getSuggestions(WALLET_ADDRESS, query).then((suggestions) => {
+      if (!cancelled) {
+        setRecipientSuggestions(suggestions);
+      }
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [showingSendModal, sendAddress]);
+
   useEffect(() => {
     // 백버튼 설정
     setupBackButton(true, () => {
@@ -676,10 +748,32 @@ const WalletPage: React.FC = () => {
                 <InputLabel>Recipient Address</InputLabel>
                 <Input 
                   type="text" 
-                  placeholder="Enter Ethereum address (0x...)" 
+                  placeholder="Enter address (0x...) or search contacts" 
                   value={sendAddress}
                   onChange={(e) => setSendAddress(e.target.value)}
                 />
+                {recipientSuggestions.length > 0 && (
+                  <SuggestionList>
+                    {recipientSuggestions.map(suggestion => (
+                      <SuggestionItem
+                        key={suggestion.address}
+                        onClick={() => {
+                          hapticFeedback('selection');
+                          setSendAddress(suggestion.address);
+                        }}
+                      >
+                        <div>
+                          <SuggestionName>{suggestion.name}</SuggestionName>
+                          <SuggestionMeta>
+                            {suggestion.label ? `${suggestion.label} · ` : ''}
+                            {suggestion.address.slice(0, 6)}...{suggestion.address.slice(-4)}
+                          </SuggestionMeta>
+                        </div>
+                        <SuggestionMeta>{RECIPIENT_SOURCE_LABELS[suggestion.source]}</SuggestionMeta>
+                      </SuggestionItem>
+                    ))}
+                  </SuggestionList>
+                )}
               </FormGroup>
               
               <FormGroup>
@@ -260,28 +260,6 @@ class ApiService {
     }
   }
 
-  /**
-   * NFT 목록 조회
-   */
-  async getNFTs(): Promise<ApiResponse<NFT[]>> {
-    try {
-      const response = await this.api.get<ApiResponse<NFT[]>>('/wallet/nfts');
-      return response.data;
-    } catch (error) {
-      if (axios.isAxiosError(error) && error.response) {
-        return error.response.data as ApiResponse<NFT[]>;
-      }
-      
-      return {
-        success: false,
-        error: {
-          code: 'unknown_error',
-          message: 'An unknown error occurred while fetching NFTs',
-        },
-      };
-    }
-  }
-
   /**
    * 트랜잭션 내역 조회
    */
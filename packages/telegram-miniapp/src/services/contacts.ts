@@ -0,0 +1,90 @@
+/**
+ * 주소록 서비스
+ *
+ * 코어 주소록 모델과 조회 전용 계정 정보를 localStorage에서 불러와
+ * 송금 화면의 수신자 후보를 만듭니다.
+ */
+
+import {
+  AccountModel,
+  BrowserLocalStore,
+  CATENA_MAINNET_CHAIN_ID,
+  Contact,
+  ContactInput,
+  ContactModel,
+  RecipientSuggestion,
+  getRecipientSuggestions,
+} from '@crelink/core';
+
+/**
+ * 주소록 서비스
+ */
+class AddressBookService {
+  private localStore = new BrowserLocalStore();
+  private contactModel = new ContactModel();
+  private accountModel = new AccountModel();
+  private loaded: Promise<void> | null = null;
+
+  /**
+   * 저장된 주소록과 조회 전용 계정 정보 불러오기 (처음 한 번만)
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        this.contactModel = await ContactModel.load(this.localStore);
+        this.accountModel = await AccountModel.load(this.localStore);
+      })();
+    }
+
+    return this.loaded;
+  }
+
+  /**
+   * 연락처 목록 조회
+   */
+  async getContacts(): Promise<Contact[]> {
+    await this.load();
+    return this.contactModel.getAllContacts();
+  }
+
+  /**
+   * 연락처 추가
+   * @param contact 연락처 정보
+   */
+  async addContact(contact: ContactInput): Promise<Contact> {
+    await this.load();
+    const added = this.contactModel.addContact(contact);
+    await this.contactModel.save(this.localStore);
+    return added;
+  }
+
+  /**
+   * 연락처 삭제
+   * @param id 연락처 ID
+   */
+  async deleteContact(id: string): Promise<void> {
+    await this.load();
+    if (this.contactModel.deleteContact(id)) {
+      await this.contactModel.save(this.localStore);
+    }
+  }
+
+  /**
+   * 송금 화면의 수신자 후보
+   * @param walletAddress 보내는 지갑 주소 (후보에서 제외)
+   * @param query 검색어
+   * @param chainId 체인 ID
+   */
+  async getSuggestions(
+    walletAddress: string,
+    query: string = '',
+    chainId: number = CATENA_MAINNET_CHAIN_ID
+  ): Promise<RecipientSuggestion[]> {
+    await this.load();
+    return getRecipientSuggestions(chainId, this.contactModel, this.accountModel, query, walletAddress);
+  }
+}
+
+// 싱글톤 인스턴스 생성 및 내보내기
+const addressBookService = new AddressBookService();
+export default addressBookService;
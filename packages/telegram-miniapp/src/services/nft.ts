@@ -0,0 +1,104 @@
+/**
+ * NFT 조회 서비스
+ *
+ * 지갑 주소의 NFT를 Catena 체인의 Transfer 로그에서 직접 찾고,
+ * tokenURI/uri 메타데이터를 IPFS 게이트웨이를 통해 조회합니다.
+ */
+
+import { JsonRpcProvider } from 'ethers';
+import {
+  CATENA_MAINNET_CHAIN_ID,
+  CATENA_MAINNET_RPC_URL,
+  NFTAsset,
+  NFTService,
+  NFTServiceTransport,
+} from '@crelink/core';
+import { NFT } from './api';
+
+// 탐색 결과 저장 키 접두사
+const STORAGE_KEY_PREFIX = 'crelink.nfts.';
+
+// 탐색 결과 저장 형식
+interface StoredNFTs {
+  toBlock: number;
+  nfts: NFTAsset[];
+}
+
+/**
+ * NFT 조회 서비스
+ */
+class NFTGalleryService {
+  private nftService: NFTService;
+  private transport: NFTServiceTransport;
+
+  constructor() {
+    const provider = new JsonRpcProvider(
+      process.env.REACT_APP_CATENA_RPC_URL || CATENA_MAINNET_RPC_URL,
+      CATENA_MAINNET_CHAIN_ID
+    );
+
+    this.nftService = new NFTService({
+      ipfsGateway: process.env.REACT_APP_IPFS_GATEWAY || undefined,
+    });
+    this.transport = {
+      chainId: CATENA_MAINNET_CHAIN_ID,
+      send: (method, params) => provider.send(method, params),
+    };
+  }
+
+  /**
+   * 지갑이 보유한 NFT 목록 조회
+   * 지난번 조회한 블록 이후의 로그만 탐색하고, 결과는 localStorage에 저장합니다.
+   * @param walletAddress 지갑 주소
+   */
+  async getNFTs(walletAddress: string): Promise<NFT[]> {
+    const storageKey = `${STORAGE_KEY_PREFIX}${this.transport.chainId}.${walletAddress.toLowerCase()}`;
+    const saved = this.load(storageKey);
+
+    const result = await this.nftService.discoverNFTs(this.transport, walletAddress, {
+      fromBlock: saved ? saved.toBlock + 1 : undefined,
+    });
+
+    // 보낸 NFT와 다시 조회한 NFT는 이전 목록에서 제거
+    const changed = new Set(
+      [...result.transferred, ...result.nfts].map((nft) => `${nft.contractAddress}:${nft.tokenId}`)
+    );
+    const owned = [
+      ...(saved?.nfts || []).filter((nft) => !changed.has(`${nft.contractAddress}:${nft.tokenId}`)),
+      ...result.nfts,
+    ];
+    localStorage.setItem(storageKey, JSON.stringify({ toBlock: result.toBlock, nfts: owned }));
+
+    const withMetadata = await this.nftService.loadMetadata(this.transport, owned);
+    return withMetadata.map((nft) => ({
+      id: `${nft.contractAddress}:${nft.tokenId}`,
+      tokenId: nft.tokenId,
+      name: nft.metadata?.name || `${nft.collectionName || 'NFT'} #${nft.tokenId}`,
+      description: nft.metadata?.description,
+      imageUrl: nft.imageUrl || '',
+      contractAddress: nft.contractAddress,
+      contractName: nft.collectionName,
+      collectionName: nft.collectionName,
+      attributes: nft.metadata?.attributes?.map((attribute) => ({
+        trait_type: attribute.trait_type || '',
+        value: String(attribute.value),
+      })),
+    }));
+  }
+
+  /**
+   * 저장된 탐색 결과 불러오기
+   */
+  private load(storageKey: string): StoredNFTs | null {
+    try {
+      const json = localStorage.getItem(storageKey);
+      return json ? JSON.parse(json) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+}
+
+// 싱글톤 인스턴스 생성 및 내보내기
+const nftGalleryService = new NFTGalleryService();
+export default nftGalleryService;